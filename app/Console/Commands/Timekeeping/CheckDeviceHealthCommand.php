@@ -4,6 +4,7 @@
 
 use Illuminate\Console\Command;
 use App\Models\RfidLedger;
+use App\Services\Timekeeping\DeviceClockService;
 use Illuminate\Support\Facades\Log;
 use Illuminate\Support\Facades\Notification;
 use App\Notifications\LedgerProcessingFailedNotification;
@@ -14,6 +15,8 @@
  * 
  * Monitors RFID device health based on last scan timestamps.
  * Detects offline devices and sends alerts to HR Manager.
+ * Also alerts once per drift on devices whose clock, measured from
+ * heartbeats, is off by more than DeviceClockService::DRIFT_ALERT_SECONDS.
  * Scheduled to run every 2 minutes.
  * 
  * Phase 6, Task 6.1.2: Supporting scheduled command
@@ -34,7 +37,7 @@ class CheckDeviceHealthCommand extends Command
      *
      * @var string
      */
-    protected $description = 'Check RFID device health and alert on offline devices';
+    protected $description = 'Check RFID device health and alert on offline devices and clock drift';
 
     /**
      * Device offline threshold in minutes.
@@ -44,11 +47,13 @@ class CheckDeviceHealthCommand extends Command
     /**
      * Execute the console command.
      */
-    public function handle(): int
+    public function handle(DeviceClockService $clock): int
     {
         $this->info('Checking RFID device health...');
 
         try {
+            $this->checkClockDrift($clock);
+
             // Get last scan time per device
             $deviceLastScan = RfidLedger::select('device_id')
                 ->selectRaw('MAX(scan_timestamp) as last_scan')
@@ -110,6 +115,75 @@ public function handle(): int
         }
     }
 
+    /**
+     * Alert HR Managers about devices whose clock drifted past the threshold.
+     *
+     * Each drift is reported once; the heartbeat clears clock_drift_alerted_at
+     * when the clock is back within the threshold.
+     *
+     * @param DeviceClockService $clock
+     * @return void
+     */
+    private function checkClockDrift(DeviceClockService $clock): void
+    {
+        $drifting = $clock->driftingDevices();
+
+        if ($drifting->isEmpty()) {
+            $this->info('✓ All device clocks within ' . DeviceClockService::DRIFT_ALERT_SECONDS . 's');
+            return;
+        }
+
+        $this->warn("⚠ {$drifting->count()} device clock(s) drifting:");
+        $this->table(
+            ['Device ID', 'Drift (s)', 'Checked At'],
+            $drifting->map(fn ($d) => [$d->device_id, $d->clock_drift_seconds, $d->clock_checked_at?->toDateTimeString()])->all()
+        );
+
+        $unalerted = $drifting->whereNull('clock_drift_alerted_at');
+        if ($unalerted->isEmpty()) {
+            return;
+        }
+
+        $devices = $unalerted->map(fn ($d) => [
+            'device_id' => $d->device_id,
+            'drift_seconds' => $d->clock_drift_seconds,
+            'checked_at' => $d->clock_checked_at?->toDateTimeString(),
+        ])->values()->all();
+
+        Log::warning('[CheckDeviceHealth] Device clock drift detected', ['devices' => $devices]);
+
+        try {
+            $hrManagers = \App\Models\User::role('HR Manager')->get();
+
+            if ($hrManagers->isEmpty()) {
+                $this->comment('No HR Managers found to notify');
+                return;
+            }
+
+            $deviceList = implode(', ', array_map(fn ($d) => sprintf('%s (%+ds)', $d['device_id'], $d['drift_seconds']), $devices));
+            $message = "Clock drift: " . count($devices) . " RFID device(s) off by more than "
+                . DeviceClockService::DRIFT_ALERT_SECONDS . "s: {$deviceList}. Punch times from these devices need correcting.";
+
+            Notification::send($hrManagers, new LedgerProcessingFailedNotification(
+                $message,
+                'warning',
+                [
+                    'type' => 'clock_drift',
+                    'devices' => $devices,
+                    'timestamp' => now()->toDateTimeString()
+                ]
+            ));
+
+            \App\Models\RfidDevice::whereIn('device_id', array_column($devices, 'device_id'))
+                ->update(['clock_drift_alerted_at' => now()]);
+
+            $this->info("✓ Clock drift notification sent to {$hrManagers->count()} HR Manager(s)");
+
+        } catch (\Exception $e) {
+            $this->error("Failed to send clock drift notifications: {$e->getMessage()}");
+        }
+    }
+
     /**
      * Notify HR Managers about offline devices.
      *
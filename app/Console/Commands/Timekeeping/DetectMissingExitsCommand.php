@@ -0,0 +1,58 @@
+<?php
+
+namespace App\Console\Commands\Timekeeping;
+
+use App\Services\Timekeeping\AnomalyDetectionService;
+use Carbon\Carbon;
+use Illuminate\Console\Command;
+
+/**
+ * DetectMissingExitsCommand
+ *
+ * Flags time_ins without a matching time_out as missing_exit anomalies.
+ * Tap-level rules (impossible travel, buddy punching) run with ledger
+ * processing; a missing exit can only be judged once the longest shift has
+ * passed, so it runs daily over the two previous days (a late time_in can
+ * still be open when the first run sees its day).
+ *
+ * @package App\Console\Commands\Timekeeping
+ */
+class DetectMissingExitsCommand extends Command
+{
+    /**
+     * The name and signature of the console command.
+     *
+     * @var string
+     */
+    protected $signature = 'timekeeping:detect-missing-exits
+                            {--date= : Specific attendance date to check (YYYY-MM-DD); defaults to the two previous days}';
+
+    /**
+     * The console command description.
+     *
+     * @var string
+     */
+    protected $description = 'Flag time-ins without a matching time-out for HR review';
+
+    /**
+     * Execute the console command.
+     */
+    public function handle(AnomalyDetectionService $detectionService): int
+    {
+        $dates = $this->option('date')
+            ? [Carbon::parse($this->option('date'))]
+            : [Carbon::today()->subDays(2), Carbon::yesterday()];
+
+        try {
+            foreach ($dates as $date) {
+                $created = $detectionService->detectMissingExits($date);
+                $this->info("✓ {$date->toDateString()}: {$created} missing exit(s) flagged");
+            }
+
+            return Command::SUCCESS;
+        } catch (\Exception $e) {
+            $this->error("Missing exit detection failed: {$e->getMessage()}");
+            return Command::FAILURE;
+        }
+    }
+}
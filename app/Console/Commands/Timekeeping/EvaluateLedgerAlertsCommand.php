@@ -0,0 +1,47 @@
+<?php
+
+namespace App\Console\Commands\Timekeeping;
+
+use App\Services\Timekeeping\LedgerAlertService;
+use Illuminate\Console\Command;
+
+/**
+ * EvaluateLedgerAlertsCommand
+ *
+ * Evaluates the ledger alert rules configured in HR → Timekeeping → Ledger
+ * Alerts, raising, re-notifying and resolving alerts. Scheduled every minute.
+ *
+ * @package App\Console\Commands\Timekeeping
+ */
+class EvaluateLedgerAlertsCommand extends Command
+{
+    /**
+     * The name and signature of the console command.
+     *
+     * @var string
+     */
+    protected $signature = 'timekeeping:evaluate-ledger-alerts';
+
+    /**
+     * The console command description.
+     *
+     * @var string
+     */
+    protected $description = 'Evaluate ledger health alert rules and notify their recipients';
+
+    /**
+     * Execute the console command.
+     */
+    public function handle(LedgerAlertService $alerts): int
+    {
+        try {
+            $counts = $alerts->evaluate();
+            $this->info("✓ {$counts['raised']} raised, {$counts['renotified']} re-notified after snooze, {$counts['resolved']} resolved");
+
+            return Command::SUCCESS;
+        } catch (\Exception $e) {
+            $this->error("Ledger alert evaluation failed: {$e->getMessage()}");
+            return Command::FAILURE;
+        }
+    }
+}
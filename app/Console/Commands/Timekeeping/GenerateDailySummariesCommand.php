@@ -4,15 +4,18 @@
 
 use Illuminate\Console\Command;
 use App\Services\Timekeeping\AttendanceSummaryService;
+use App\Services\Timekeeping\ShiftPunchPairingService;
 use App\Models\Employee;
 use App\Models\DailyAttendanceSummary;
+use App\Models\ShiftAssignment;
 use Carbon\Carbon;
 
 /**
  * GenerateDailySummariesCommand
  * 
  * Generates daily attendance summaries for all employees.
- * Scheduled to run at 11:59 PM daily.
+ * Scheduled to run at 11:59 PM daily. Summaries of the previous day's overnight
+ * shifts are refreshed too, as their time outs are only recorded after midnight.
  * 
  * Phase 6, Task 6.1.2: Supporting scheduled command
  * 
@@ -84,6 +87,36 @@ public function handle(): int
             $progressBar->finish();
             $this->newLine(2);
 
+            // Overnight shifts of the previous day ended today; refresh them now their time outs are in
+            $previousDate = $targetDate->copy()->subDay();
+            $pairing = new ShiftPunchPairingService();
+            $finalized = DailyAttendanceSummary::whereDate('attendance_date', $previousDate)
+                ->where('is_finalized', true)
+                ->pluck('employee_id');
+            $overnightEmployeeIds = ShiftAssignment::forDate($previousDate)
+                ->whereIn('employee_id', $employees->pluck('id'))
+                ->whereNotIn('employee_id', $finalized)
+                ->where('status', '!=', 'cancelled')
+                ->get()
+                ->filter(fn (ShiftAssignment $assignment) => $pairing->window($assignment)['crosses_midnight'])
+                ->pluck('employee_id')
+                ->unique();
+
+            foreach ($overnightEmployeeIds as $employeeId) {
+                try {
+                    $summary = $summaryService->computeDailySummary($employeeId, $previousDate);
+                    $summary = $summaryService->applyBusinessRules($summary, $previousDate);
+                    $summaryService->storeDailySummary($summary);
+                } catch (\Exception $e) {
+                    $this->error("Failed overnight shift summary for employee {$employeeId}: {$e->getMessage()}");
+                    $errorCount++;
+                }
+            }
+
+            if ($overnightEmployeeIds->isNotEmpty()) {
+                $this->info("Refreshed {$overnightEmployeeIds->count()} overnight shift summaries for {$previousDate->toDateString()}");
+            }
+
             // Auto-finalize if requested and no errors occurred
             if ($this->option('auto-finalize') && $errorCount === 0) {
                 try {
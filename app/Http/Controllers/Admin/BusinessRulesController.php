@@ -4,6 +4,8 @@
 
 use App\Http\Controllers\Controller;
 use App\Models\SystemSetting;
+use App\Services\Timekeeping\NightDifferentialService;
+use App\Services\Timekeeping\ShiftPunchPairingService;
 use Illuminate\Http\Request;
 use Inertia\Inertia;
 use Inertia\Response;
@@ -16,8 +18,10 @@ class BusinessRulesController extends Controller
      * Shows current configuration for:
      * - Working hours (regular and shift schedules)
      * - Holiday calendar (national and company holidays)
-     * - Overtime rules (rates, thresholds, approval requirements)
-     * - Attendance policies (grace period, late/undertime deductions)
+     * - Overtime rules (rates, thresholds, approval requirements,
+     *   night differential window and rate)
+     * - Attendance policies (grace period, late/undertime deductions,
+     *   shift punch pairing tolerances)
      */
     public function index(Request $request): Response
     {
@@ -40,6 +44,9 @@ public function index(Request $request): Response
             'business_rules.overtime.max_hours_per_week',
             'business_rules.overtime.auto_approve_threshold',
             'business_rules.overtime.requires_approval',
+            'business_rules.overtime.night_differential_start',
+            'business_rules.overtime.night_differential_end',
+            'business_rules.overtime.night_differential_rate',
             
             // Attendance Policies
             'business_rules.attendance.grace_period_minutes',
@@ -49,6 +56,8 @@ public function index(Request $request): Response
             'business_rules.attendance.undertime_deduction_type',
             'business_rules.attendance.absence_with_leave_deduction',
             'business_rules.attendance.absence_without_leave_deduction',
+            'business_rules.attendance.shift_early_in_tolerance_minutes',
+            'business_rules.attendance.shift_late_out_tolerance_minutes',
             
             // Holiday Pay Multipliers
             'business_rules.holiday.regular_multiplier',
@@ -77,6 +86,9 @@ public function index(Request $request): Response
                 'max_hours_per_week' => (float)($settings['business_rules.overtime.max_hours_per_week'] ?? 20.0),
                 'auto_approve_threshold' => (float)($settings['business_rules.overtime.auto_approve_threshold'] ?? 2.0),
                 'requires_approval' => (bool)($settings['business_rules.overtime.requires_approval'] ?? true),
+                'night_differential_start' => (string)($settings['business_rules.overtime.night_differential_start'] ?? NightDifferentialService::DEFAULT_START),
+                'night_differential_end' => (string)($settings['business_rules.overtime.night_differential_end'] ?? NightDifferentialService::DEFAULT_END),
+                'night_differential_rate' => (float)($settings['business_rules.overtime.night_differential_rate'] ?? NightDifferentialService::DEFAULT_RATE),
             ],
             'attendance' => [
                 'grace_period_minutes' => (int)($settings['business_rules.attendance.grace_period_minutes'] ?? 15),
@@ -86,6 +98,8 @@ public function index(Request $request): Response
                 'undertime_deduction_type' => $settings['business_rules.attendance.undertime_deduction_type'] ?? 'proportional',
                 'absence_with_leave_deduction' => (float)($settings['business_rules.attendance.absence_with_leave_deduction'] ?? 0.0),
                 'absence_without_leave_deduction' => (float)($settings['business_rules.attendance.absence_without_leave_deduction'] ?? 1.0),
+                'shift_early_in_tolerance_minutes' => (int)($settings['business_rules.attendance.shift_early_in_tolerance_minutes'] ?? ShiftPunchPairingService::DEFAULT_EARLY_IN_TOLERANCE_MINUTES),
+                'shift_late_out_tolerance_minutes' => (int)($settings['business_rules.attendance.shift_late_out_tolerance_minutes'] ?? ShiftPunchPairingService::DEFAULT_LATE_OUT_TOLERANCE_MINUTES),
             ],
             'holiday' => [
                 'regular_multiplier' => (float)($settings['business_rules.holiday.regular_multiplier'] ?? 2.0),
@@ -308,7 +322,8 @@ public function deleteHoliday(Request $request, string $holidayId)
     /**
      * Update overtime rules configuration.
      * 
-     * Saves overtime rates, thresholds, and approval requirements.
+     * Saves overtime rates, thresholds, approval requirements, and the night
+     * differential window and rate (at least the statutory 10%).
      */
     public function updateOvertimeRules(Request $request)
     {
@@ -321,6 +336,9 @@ public function updateOvertimeRules(Request $request)
             'max_hours_per_week' => 'required|numeric|min:0|max:60',
             'auto_approve_threshold' => 'required|numeric|min:0|max:24',
             'requires_approval' => 'boolean',
+            'night_differential_start' => 'required|date_format:H:i',
+            'night_differential_end' => 'required|date_format:H:i|different:night_differential_start',
+            'night_differential_rate' => 'required|numeric|min:0.1|max:1',
         ]);
 
         $settingsMap = [
@@ -332,6 +350,9 @@ public function updateOvertimeRules(Request $request)
             'max_hours_per_week' => 'business_rules.overtime.max_hours_per_week',
             'auto_approve_threshold' => 'business_rules.overtime.auto_approve_threshold',
             'requires_approval' => 'business_rules.overtime.requires_approval',
+            'night_differential_start' => 'business_rules.overtime.night_differential_start',
+            'night_differential_end' => 'business_rules.overtime.night_differential_end',
+            'night_differential_rate' => 'business_rules.overtime.night_differential_rate',
         ];
 
         foreach ($settingsMap as $field => $key) {
@@ -359,6 +380,8 @@ public function updateAttendanceRules(Request $request)
             'undertime_deduction_type' => 'required|in:proportional,fixed,none',
             'absence_with_leave_deduction' => 'required|numeric|min:0|max:1',
             'absence_without_leave_deduction' => 'required|numeric|min:0|max:1',
+            'shift_early_in_tolerance_minutes' => 'required|integer|min:0|max:480',
+            'shift_late_out_tolerance_minutes' => 'required|integer|min:0|max:480',
         ]);
 
         $settingsMap = [
@@ -369,6 +392,8 @@ public function updateAttendanceRules(Request $request)
             'undertime_deduction_type' => 'business_rules.attendance.undertime_deduction_type',
             'absence_with_leave_deduction' => 'business_rules.attendance.absence_with_leave_deduction',
             'absence_without_leave_deduction' => 'business_rules.attendance.absence_without_leave_deduction',
+            'shift_early_in_tolerance_minutes' => 'business_rules.attendance.shift_early_in_tolerance_minutes',
+            'shift_late_out_tolerance_minutes' => 'business_rules.attendance.shift_late_out_tolerance_minutes',
         ];
 
         foreach ($settingsMap as $field => $key) {
@@ -468,6 +493,9 @@ private function getSettingDescription(string $key): string
             'business_rules.overtime.max_hours_per_week' => 'Maximum overtime hours per week',
             'business_rules.overtime.auto_approve_threshold' => 'Auto-approve overtime below this threshold',
             'business_rules.overtime.requires_approval' => 'Overtime requires approval',
+            'business_rules.overtime.night_differential_start' => 'Start of the night differential window',
+            'business_rules.overtime.night_differential_end' => 'End of the night differential window',
+            'business_rules.overtime.night_differential_rate' => 'Night differential premium as a fraction of the hourly rate',
             
             // Attendance Policies
             'business_rules.attendance.grace_period_minutes' => 'Grace period for late arrival in minutes',
@@ -477,6 +505,8 @@ private function getSettingDescription(string $key): string
             'business_rules.attendance.undertime_deduction_type' => 'Undertime deduction calculation method',
             'business_rules.attendance.absence_with_leave_deduction' => 'Salary deduction for absence with approved leave',
             'business_rules.attendance.absence_without_leave_deduction' => 'Salary deduction for absence without leave',
+            'business_rules.attendance.shift_early_in_tolerance_minutes' => 'Minutes before shift start a time in still counts toward the shift',
+            'business_rules.attendance.shift_late_out_tolerance_minutes' => 'Minutes after shift end a time out still counts toward the shift',
             
             // Holiday Pay Multipliers
             'business_rules.holiday.regular_multiplier' => 'Regular holiday pay multiplier',
@@ -3,9 +3,16 @@
 namespace App\Http\Controllers\Api;
 
 use App\Http\Controllers\Controller;
+use App\Models\DeviceCommand;
+use App\Models\PunchPhoto;
 use App\Models\RfidCardMapping;
 use App\Models\RfidDevice;
 use App\Models\RfidLedger;
+use App\Models\RfidTapReceipt;
+use App\Services\Timekeeping\DeviceClockService;
+use App\Services\Timekeeping\DeviceCommandService;
+use App\Services\Timekeeping\LedgerAppendService;
+use App\Services\Timekeeping\PunchPhotoReviewService;
 use Carbon\Carbon;
 use Illuminate\Http\JsonResponse;
 use Illuminate\Http\Request;
@@ -13,6 +20,13 @@
 
 class RfidTapController extends Controller
 {
+    public function __construct(
+        private DeviceCommandService $deviceCommands,
+        private LedgerAppendService $ledger,
+        private DeviceClockService $clock,
+        private PunchPhotoReviewService $punchPhotos
+    ) {}
+
     public function tap(Request $request): JsonResponse
     {
         $device = $this->authenticateDevice($request);
@@ -25,20 +39,65 @@ public function tap(Request $request): JsonResponse
             'device_id' => 'required|string|max:255',
             'tapped_at' => 'required|date',
             'local_id'  => 'required|integer',
+            'signature' => 'nullable|string|max:255',
+            'idempotency_key' => 'nullable|string|max:64',
         ]);
 
         $cardUid  = $validated['card_uid'];
         $tappedAt = Carbon::parse($validated['tapped_at']);
         $localId  = (int) $validated['local_id'];
+        $idempotencyKey = $validated['idempotency_key'] ?? null;
+
+        // The device_id is signed and stored with the tap, so it has to be the authenticated device's own
+        if ($validated['device_id'] !== $device->device_id) {
+            return response()->json(['message' => 'device_id does not match the authenticated device', 'local_id' => $localId], 422);
+        }
+
+        // Fields the gate PC signed, exactly as sent, so auditors can re-verify them later
+        $signature    = $validated['signature'] ?? null;
+        $signedFields = null;
+        // Once a key is registered, dropping the signature must not be a way around verification
+        if ($signature === null && $device->public_key) {
+            return response()->json(['message' => 'Unsigned tap from a device with a registered key', 'local_id' => $localId], 422);
+        }
+        if ($signature !== null) {
+            $signedFields = [
+                'card_uid'  => $cardUid,
+                'device_id' => $validated['device_id'],
+                'local_id'  => $localId,
+                'tapped_at' => $validated['tapped_at'],
+            ];
+
+            if (!$this->verifyDeviceSignature($device, $signedFields, $signature)) {
+                return response()->json(['message' => 'Invalid device signature', 'local_id' => $localId], 422);
+            }
+        }
+
+        return DB::transaction(function () use ($cardUid, $tappedAt, $localId, $device, $signedFields, $signature, $idempotencyKey) {
+            // Kiosks retry queued taps after a dropped connection; a key already in the ledger was stored on an earlier attempt
+            if ($idempotencyKey !== null) {
+                $existing = RfidLedger::where('device_id', $device->device_id)
+                    ->where('idempotency_key', $idempotencyKey)
+                    ->first(['sequence_id', 'event_type']);
+
+                if ($existing) {
+                    return response()->json([
+                        'status'      => 'replayed',
+                        'local_id'    => $localId,
+                        'sequence_id' => $existing->sequence_id,
+                        'event_type'  => $existing->event_type,
+                    ]);
+                }
+            }
 
-        return DB::transaction(function () use ($cardUid, $tappedAt, $localId, $device) {
             $mapping = RfidCardMapping::with('employee.profile')
                 ->where('card_uid', $cardUid)
                 ->whereNull('deleted_at')
                 ->first();
 
             if (!$mapping || !$mapping->is_active) {
-                $this->insertLedgerRow($device->device_id, $cardUid, 'unknown_card', $tappedAt, null);
+                $entry = $this->ledger->append($device->device_id, $cardUid, 'unknown_card', $tappedAt, null, $signedFields, $signature, $idempotencyKey);
+                $this->recordReceipt($device, $localId, $cardUid, $tappedAt, 'unknown_card', $entry->sequence_id);
                 return response()->json(['status' => 'unknown', 'local_id' => $localId]);
             }
 
@@ -56,6 +115,7 @@ public function tap(Request $request): JsonResponse
                 ->exists();
 
             if ($recentTap) {
+                $this->recordReceipt($device, $localId, $cardUid, $tappedAt, 'duplicate');
                 return response()->json([
                     'status'           => 'duplicate',
                     'local_id'         => $localId,
@@ -74,7 +134,8 @@ public function tap(Request $request): JsonResponse
                 ->count();
             $predictedAction = ($tapsToday % 2 === 0) ? 'TIME IN' : 'TIME OUT';
 
-            $this->insertLedgerRow($device->device_id, $cardUid, 'tap', $tappedAt, $employee->id);
+            $entry = $this->ledger->append($device->device_id, $cardUid, 'tap', $tappedAt, $employee->id, $signedFields, $signature, $idempotencyKey);
+            $this->recordReceipt($device, $localId, $cardUid, $tappedAt, 'recorded', $entry->sequence_id);
 
             $mapping->increment('usage_count');
             $mapping->update(['last_used_at' => $tappedAt]);
@@ -98,70 +159,257 @@ public function heartbeat(Request $request): JsonResponse
         }
 
         $status = $request->input('status', 'online');
-        $device->update([
+        $updates = [
             'status'         => in_array($status, ['online', 'offline']) ? $status : 'online',
             'last_heartbeat' => now(),
+        ];
+
+        // Local store backlog; taps the device holds but never sent show up as ledger gaps
+        if (is_array($request->input('local_store'))) {
+            $config = $device->config ?? [];
+            $config['local_store'] = [
+                'last_local_id'     => (int) $request->input('local_store.last_local_id', 0),
+                'pending'           => (int) $request->input('local_store.pending', 0),
+                'oldest_pending_at' => $request->input('local_store.oldest_pending_at'),
+                'reported_at'       => now()->toISOString(),
+            ];
+            $updates['config'] = $config;
+        }
+
+        // Punch times come from the device clock; measure how far it is off
+        $deviceTime = $request->input('device_time');
+        if (is_string($deviceTime) && strtotime($deviceTime) !== false) {
+            $updates += $this->clock->measure($device, $deviceTime);
+        }
+
+        $device->update($updates);
+
+        // Queued remote commands ride back on the heartbeat; none for a device signing off
+        return response()->json([
+            'status'   => 'ok',
+            'commands' => $status === 'offline' ? [] : $this->deviceCommands->deliver($device),
+        ]);
+    }
+
+    /**
+     * Report the outcome of a command delivered with a heartbeat.
+     *
+     * A command that timed out or was cancelled is refused with 409, which tells
+     * a device rotating its key to keep the old one.
+     */
+    public function acknowledgeCommand(Request $request, int $commandId): JsonResponse
+    {
+        $device = $this->authenticateDevice($request);
+        if ($device instanceof JsonResponse) {
+            return $device;
+        }
+
+        $validated = $request->validate([
+            'status'  => 'required|in:succeeded,failed',
+            'message' => 'nullable|string|max:1000',
+            'details' => 'nullable|array',
+        ]);
+
+        $command = DeviceCommand::where('device_id', $device->device_id)->find($commandId);
+        if (!$command) {
+            return response()->json(['message' => 'Command not found'], 404);
+        }
+
+        $this->deviceCommands->expireOverdue($device->device_id);
+        $command->refresh();
+
+        if (!$command->isOpen()) {
+            return response()->json(['message' => "Command is already {$command->status}", 'status' => $command->status], 409);
+        }
+
+        $this->deviceCommands->acknowledge(
+            $command,
+            $validated['status'] === 'succeeded',
+            $validated['message'] ?? null,
+            $validated['details'] ?? null
+        );
+
+        return response()->json(['status' => 'ok', 'command_status' => $command->status]);
+    }
+
+    /**
+     * Upload the camera photo taken with a tap, after the tap itself has synced.
+     *
+     * Photos of taps that were not recorded (duplicates, unknown cards) are
+     * discarded; the device deletes its copy on any 200 response and retries
+     * only on 404 (tap not received yet) or a network error.
+     */
+    public function uploadPunchPhoto(Request $request): JsonResponse
+    {
+        $device = $this->authenticateDevice($request);
+        if ($device instanceof JsonResponse) {
+            return $device;
+        }
+
+        $validated = $request->validate([
+            'local_id' => 'required|integer',
+            'photo'    => 'required|image|max:2048',
+        ]);
+
+        $receipt = RfidTapReceipt::where('device_id', $device->device_id)
+            ->where('local_id', $validated['local_id'])
+            ->latest('received_at')
+            ->first();
+        if (!$receipt) {
+            return response()->json(['message' => 'Tap not received yet'], 404);
+        }
+
+        if ($receipt->sequence_id === null || !in_array($receipt->outcome, ['recorded', 'backfilled'], true)) {
+            return response()->json(['status' => 'discarded', 'local_id' => $receipt->local_id]);
+        }
+
+        if (PunchPhoto::where('device_id', $device->device_id)->where('local_id', $receipt->local_id)->exists()) {
+            return response()->json(['status' => 'exists', 'local_id' => $receipt->local_id]);
+        }
+
+        $photo = $this->punchPhotos->store($receipt, $request->file('photo'));
+
+        return response()->json(['status' => 'ok', 'local_id' => $photo->local_id]);
+    }
+
+    /**
+     * Register the gate PC's Ed25519 public key (trust on first use).
+     *
+     * Once a key is registered it can only be replaced by an administrator,
+     * so a leaked api_key alone cannot swap the key used to verify signatures.
+     */
+    public function registerPublicKey(Request $request): JsonResponse
+    {
+        $device = $this->authenticateDevice($request);
+        if ($device instanceof JsonResponse) {
+            return $device;
+        }
+
+        $validated = $request->validate([
+            'public_key' => 'required|string|max:64',
+        ]);
+
+        $rawKey = base64_decode($validated['public_key'], true);
+        if ($rawKey === false || strlen($rawKey) !== SODIUM_CRYPTO_SIGN_PUBLICKEYBYTES) {
+            return response()->json(['message' => 'public_key must be a base64 raw Ed25519 key'], 422);
+        }
+
+        if ($device->public_key && !hash_equals($device->public_key, $validated['public_key'])) {
+            return response()->json(['message' => 'A different public key is already registered'], 409);
+        }
+
+        if (!$device->public_key) {
+            $device->update([
+                'public_key'               => $validated['public_key'],
+                'public_key_registered_at' => now(),
+            ]);
+        }
+
+        return response()->json([
+            'status'        => 'ok',
+            'registered_at' => $device->public_key_registered_at?->toIso8601String(),
         ]);
+    }
+
+    /**
+     * Active card roster for a kiosk tablet, cached in IndexedDB so it can
+     * show who tapped (name and photo) while the connection is down.
+     *
+     * Gate PCs get their employee details from each tap response and are refused.
+     */
+    public function kioskRoster(Request $request): JsonResponse
+    {
+        $device = $this->authenticateDevice($request);
+        if ($device instanceof JsonResponse) {
+            return $device;
+        }
+
+        if (data_get($device->config, 'kind') !== 'kiosk') {
+            return response()->json(['message' => 'Only kiosk devices can download the card roster'], 403);
+        }
 
-        return response()->json(['status' => 'ok']);
+        $cards = RfidCardMapping::with('employee.profile')
+            ->active()
+            ->get()
+            ->filter(fn (RfidCardMapping $mapping) => $mapping->employee !== null)
+            ->map(function (RfidCardMapping $mapping) {
+                $employee  = $mapping->employee;
+                $profile   = $employee->profile;
+                $photoPath = $profile?->profile_picture_path;
+
+                return [
+                    'card_uid'        => $mapping->card_uid,
+                    'employee_number' => $employee->employee_number,
+                    'employee_name'   => trim(($profile?->first_name ?? '') . ' ' . ($profile?->last_name ?? '')) ?: $employee->employee_number,
+                    'photo_url'       => $photoPath ? asset('storage/' . ltrim($photoPath, '/')) : null,
+                ];
+            })
+            ->values();
+
+        return response()->json([
+            'device_id'    => $device->device_id,
+            'device_name'  => $device->device_name,
+            'location'     => $device->location,
+            'generated_at' => now()->toIso8601String(),
+            'cards'        => $cards,
+        ]);
     }
 
     // ── Private helpers ──────────────────────────────────────────────────────
 
+    /**
+     * Verify an Ed25519 signature over the canonical (key-sorted, compact) JSON
+     * of the signed tap fields against the device's registered public key.
+     */
+    private function verifyDeviceSignature(RfidDevice $device, array $signedFields, string $signature): bool
+    {
+        if (!$device->public_key) {
+            return false;
+        }
+
+        $publicKey = base64_decode($device->public_key, true);
+        $rawSignature = base64_decode(preg_replace('/^ed25519:/', '', $signature), true);
+
+        if ($publicKey === false || $rawSignature === false || strlen($rawSignature) !== SODIUM_CRYPTO_SIGN_BYTES) {
+            return false;
+        }
+
+        ksort($signedFields);
+        $message = json_encode($signedFields, JSON_UNESCAPED_UNICODE | JSON_UNESCAPED_SLASHES);
+
+        return sodium_crypto_sign_verify_detached($rawSignature, $message, $publicKey);
+    }
+
     private function authenticateDevice(Request $request): RfidDevice|JsonResponse
     {
         $token = $request->bearerToken();
         if (!$token) {
             return response()->json(['message' => 'Unauthorized'], 401);
         }
-        $device = RfidDevice::where('api_key', $token)->first();
+        $device = RfidDevice::where('api_key', $token)->orWhere('previous_api_key', $token)->first();
         if (!$device) {
             return response()->json(['message' => 'Unauthorized'], 401);
         }
+        // The first request with a rotated key proves the device has it, so the old key can go
+        if ($device->previous_api_key !== null && hash_equals($device->api_key ?? '', $token)) {
+            $device->update(['previous_api_key' => null]);
+        }
         return $device;
     }
 
-    private function insertLedgerRow(
-        string $deviceId,
-        string $cardUid,
-        string $eventType,
-        Carbon $tappedAt,
-        ?int   $employeeId
-    ): void {
-        // Lock the last row globally to get a unique next sequence_id across all devices
-        $last = RfidLedger::orderByDesc('sequence_id')
-            ->lockForUpdate()
-            ->first(['sequence_id', 'hash_chain', 'device_id']);
-
-        $nextSeq  = $last ? $last->sequence_id + 1 : 1;
-        // Hash chain is per-device: find the last hash for this specific device
-        $prevHash = RfidLedger::where('device_id', $deviceId)
-            ->orderByDesc('sequence_id')
-            ->value('hash_chain');
-
-        $payload = [
+    /**
+     * Note that the device's local store row reached the server, for gap detection.
+     */
+    private function recordReceipt(RfidDevice $device, int $localId, string $cardUid, Carbon $tappedAt, string $outcome, ?int $sequenceId = null): void
+    {
+        RfidTapReceipt::create([
+            'device_id'   => $device->device_id,
+            'local_id'    => $localId,
             'card_uid'    => $cardUid,
-            'device_id'   => $deviceId,
-            'employee_id' => $employeeId,
-            'event_type'  => $eventType,
-            'timestamp'   => $tappedAt->toIso8601String(),
-        ];
-        // Sort keys to match Python compact JSON
-        ksort($payload);
-        $payloadJson = json_encode($payload, JSON_UNESCAPED_UNICODE | JSON_UNESCAPED_SLASHES);
-        $hashChain   = hash('sha256', ($prevHash ?? '') . $payloadJson);
-
-        RfidLedger::create([
-            'sequence_id'    => $nextSeq,
-            'employee_rfid'  => $cardUid,
-            'device_id'      => $deviceId,
-            'scan_timestamp' => $tappedAt,
-            'event_type'     => $eventType,
-            'raw_payload'    => $payload,
-            'hash_chain'     => $hashChain,
-            'hash_previous'  => $prevHash,
-            'processed'      => false,
-            'created_at'     => $tappedAt,
+            'tapped_at'   => $tappedAt,
+            'outcome'     => $outcome,
+            'sequence_id' => $sequenceId,
+            'received_at' => now(),
         ]);
     }
 }
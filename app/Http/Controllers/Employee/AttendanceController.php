@@ -4,6 +4,10 @@
 
 use App\Http\Controllers\Controller;
 use App\Http\Requests\Employee\AttendanceIssueRequest;
+use App\Http\Requests\Employee\MobileClockInRequest;
+use App\Models\Geofence;
+use App\Models\MobilePunch;
+use App\Services\Timekeeping\MobileClockInService;
 use Illuminate\Http\Request;
 use Illuminate\Support\Facades\DB;
 use Illuminate\Support\Facades\Log;
@@ -11,6 +15,10 @@
 
 class AttendanceController extends Controller
 {
+    public function __construct(
+        private MobileClockInService $mobileClockIn
+    ) {}
+
     /**
      * Display attendance records for the authenticated employee.
      * 
@@ -18,6 +26,7 @@ class AttendanceController extends Controller
      * - Daily/Weekly/Monthly attendance records
      * - RFID punch history (placeholder - awaiting Timekeeping module)
      * - Attendance summary (days present, late, absent, hours worked)
+     * - Today's portal (mobile) punches, for employees allowed to clock in
      * - Filter by date range
      * 
      * Enforces "self-only" data access - employees can ONLY view their own attendance.
@@ -73,6 +82,9 @@ public function index(Request $request)
                 'attendanceRecords' => $attendanceRecords,
                 'attendanceSummary' => $attendanceSummary,
                 'rfidPunchHistory' => $rfidPunchHistory,
+                'mobileClockIn' => $user->can('employee.attendance.clock-in')
+                    ? $this->buildMobileClockIn($employee)
+                    : null,
                 'filters' => [
                     'view' => $view,
                     'start_date' => $startDate,
@@ -101,6 +113,7 @@ public function index(Request $request)
                     'total_hours_worked' => 0,
                 ],
                 'rfidPunchHistory' => [],
+                'mobileClockIn' => null,
                 'filters' => [
                     'view' => $view,
                     'start_date' => $startDate,
@@ -208,6 +221,83 @@ public function reportIssue(AttendanceIssueRequest $request)
         }
     }
 
+    /**
+     * Clock in or out from the employee portal.
+     * 
+     * Records the browser's position and an optional selfie. Punches inside a
+     * configured geofence count straight away as "mobile" attendance events;
+     * punches outside every geofence are held for HR Staff approval.
+     * 
+     * Enforces "self-only" data access - employees can ONLY punch for themselves.
+     * 
+     * @param MobileClockInRequest $request
+     * @return \Illuminate\Http\RedirectResponse
+     */
+    public function clockIn(MobileClockInRequest $request)
+    {
+        $user = $request->user();
+        
+        // Get authenticated user's employee record
+        $employee = $user->employee;
+        
+        if (!$employee) {
+            Log::error('Mobile clock-in attempted by user without employee record', [
+                'user_id' => $user->id,
+                'email' => $user->email,
+            ]);
+            abort(403, 'No employee record found for your account. Please contact HR Staff.');
+        }
+
+        $validated = $request->validated();
+
+        try {
+            $punch = $this->mobileClockIn->record(
+                $employee,
+                $user,
+                $validated['event_type'],
+                (float) $validated['latitude'],
+                (float) $validated['longitude'],
+                isset($validated['accuracy']) ? (float) $validated['accuracy'] : null,
+                $request->file('selfie'),
+                $request->userAgent()
+            );
+        } catch (\Exception $e) {
+            Log::error('Mobile clock-in failed', [
+                'employee_id' => $employee->id,
+                'error' => $e->getMessage(),
+            ]);
+
+            return back()->with('error', 'Failed to record your punch. Please try again or tap a gate reader.');
+        }
+
+        Log::info('Mobile punch recorded', [
+            'employee_id' => $employee->id,
+            'mobile_punch_id' => $punch->id,
+            'event_type' => $punch->event_type,
+            'within_geofence' => $punch->within_geofence,
+            'distance_meters' => $punch->distance_meters,
+        ]);
+
+        $label = str_replace('_', ' ', ucfirst($punch->event_type));
+        if ($punch->status === 'approved') {
+            return back()->with('success', "{$label} recorded at {$punch->geofence->name}.");
+        }
+
+        if ($punch->within_geofence) {
+            return back()->with('success',
+                "{$label} recorded at {$punch->geofence->name}, but your phone could not pin down your location precisely enough" .
+                ($punch->accuracy_meters !== null ? ' (± ' . round($punch->accuracy_meters) . ' m)' : '') .
+                '. HR Staff will review it before it counts toward your attendance.'
+            );
+        }
+
+        return back()->with('success',
+            "{$label} recorded outside every approved site" .
+            ($punch->geofence ? " ({$punch->distance_meters} m from {$punch->geofence->name})" : '') .
+            '. HR Staff will review it before it counts toward your attendance.'
+        );
+    }
+
     // ========== Real Attendance Helper Methods (Phase 1 Task 1.2, Phase 2 Task 2.1-2.2) ==========
 
     /**
@@ -448,4 +538,33 @@ private function getRealRFIDPunchHistory(
             ];
         })->toArray();
     }
+
+    /**
+     * Build today's portal clock-in state for the employee.
+     * 
+     * @param \App\Models\Employee $employee
+     * @return array Today's punches (newest first) and whether any geofence is configured
+     */
+    private function buildMobileClockIn(\App\Models\Employee $employee): array
+    {
+        $punches = MobilePunch::with('geofence:id,name')
+            ->where('employee_id', $employee->id)
+            ->where('punched_at', '>=', now()->startOfDay())
+            ->orderByDesc('punched_at')
+            ->get();
+
+        return [
+            'has_geofences' => Geofence::active()->exists(),
+            'punches_today' => $punches->map(fn (MobilePunch $punch) => [
+                'id' => $punch->id,
+                'event_type' => $punch->event_type,
+                'punched_at' => $punch->punched_at->toIso8601String(),
+                'status' => $punch->status,
+                'within_geofence' => $punch->within_geofence,
+                'geofence_name' => $punch->geofence?->name,
+                'distance_meters' => $punch->distance_meters,
+                'review_notes' => $punch->review_notes,
+            ])->values()->all(),
+        ];
+    }
 }
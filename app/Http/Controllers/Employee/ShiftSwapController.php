@@ -0,0 +1,304 @@
+<?php
+
+namespace App\Http\Controllers\Employee;
+
+use App\Http\Controllers\Controller;
+use App\Models\Employee;
+use App\Models\ShiftAssignment;
+use App\Models\ShiftSwapRequest;
+use App\Services\HR\Workforce\SchedulePublishingService;
+use App\Services\HR\Workforce\ShiftSwapService;
+use Illuminate\Http\RedirectResponse;
+use Illuminate\Http\Request;
+use Illuminate\Support\Facades\Log;
+use Illuminate\Validation\Rule;
+use Inertia\Inertia;
+use Inertia\Response;
+
+/**
+ * My Shifts in the employee portal: the published schedule, and the shift
+ * swap marketplace - give shifts away, propose swaps with coworkers, pick up
+ * open shifts, and answer swap proposals. The department head gives the
+ * final approval from the HR workforce module.
+ *
+ * Enforces "self-only" access - employees only act on their own shifts and
+ * on requests addressed to them.
+ */
+class ShiftSwapController extends Controller
+{
+    /**
+     * How far ahead shifts are listed for swapping.
+     */
+    private const LOOKAHEAD_DAYS = 60;
+
+    /**
+     * How many weeks of the published schedule are shown, from this week on.
+     */
+    private const PUBLISHED_WEEKS = 4;
+
+    public function __construct(
+        private ShiftSwapService $swaps,
+        private SchedulePublishingService $publishing
+    ) {}
+
+    /**
+     * The published schedule, own upcoming shifts, open shifts in the
+     * department, coworker shifts to swap with, and the employee's swap
+     * requests. Only published shifts can be swapped, so drafts HR is still
+     * editing are not listed.
+     *
+     * @param Request $request
+     * @return Response
+     */
+    public function index(Request $request): Response
+    {
+        $employee = $this->currentEmployee($request);
+        $until = today()->addDays(self::LOOKAHEAD_DAYS)->toDateString();
+
+        $activeShiftIds = ShiftSwapRequest::active()
+            ->get(['shift_assignment_id', 'target_shift_assignment_id'])
+            ->flatMap(fn (ShiftSwapRequest $swap) => [$swap->shift_assignment_id, $swap->target_shift_assignment_id])
+            ->filter()
+            ->all();
+
+        $myShifts = $this->publishing->publishedShifts($this->upcomingShifts()
+            ->where('employee_id', $employee->id)
+            ->get())
+            ->map(fn (ShiftAssignment $shift) => $this->shiftData($shift) + [
+                'in_swap' => in_array($shift->id, $activeShiftIds),
+            ]);
+
+        // Coworkers in the same department and position can take each other's shifts
+        $coworkers = Employee::with('profile:id,first_name,last_name')
+            ->active()
+            ->where('department_id', $employee->department_id)
+            ->when($employee->position_id, fn ($query) => $query->where('position_id', $employee->position_id))
+            ->where('id', '!=', $employee->id)
+            ->get(['id', 'employee_number', 'profile_id', 'department_id', 'position_id']);
+
+        $coworkerShifts = $this->publishing->publishedShifts($this->upcomingShifts()
+            ->whereIn('employee_id', $coworkers->pluck('id'))
+            ->whereNotIn('id', $activeShiftIds)
+            ->get())
+            ->map(fn (ShiftAssignment $shift) => $this->shiftData($shift) + [
+                'employee_id' => $shift->employee_id,
+                'employee_name' => $shift->employee?->profile?->full_name,
+            ]);
+
+        $openShifts = ShiftSwapRequest::with(['shift', 'requester.profile'])
+            ->where('type', 'giveaway')
+            ->where('status', 'open')
+            ->where('department_id', $employee->department_id)
+            ->where('requester_id', '!=', $employee->id)
+            ->whereHas('shift', fn ($query) => $query->whereDate('date', '>=', today())->whereDate('date', '<=', $until))
+            ->latest()
+            ->get()
+            ->map(fn (ShiftSwapRequest $swap) => $this->swapData($swap));
+
+        $incoming = ShiftSwapRequest::with(['shift', 'targetShift', 'requester.profile', 'targetEmployee.profile'])
+            ->where('target_employee_id', $employee->id)
+            ->where('status', 'pending_coworker')
+            ->latest()
+            ->get()
+            ->map(fn (ShiftSwapRequest $swap) => $this->swapData($swap));
+
+        $myRequests = ShiftSwapRequest::with(['shift', 'targetShift', 'requester.profile', 'targetEmployee.profile'])
+            ->where(fn ($query) => $query->where('requester_id', $employee->id)
+                ->orWhere(fn ($query) => $query->where('target_employee_id', $employee->id)->where('status', '!=', 'pending_coworker')))
+            ->latest()
+            ->limit(30)
+            ->get()
+            ->map(fn (ShiftSwapRequest $swap) => $this->swapData($swap) + [
+                'is_requester' => (int) $swap->requester_id === $employee->id,
+            ]);
+
+        return Inertia::render('Employee/Shifts/Index', [
+            'employee' => [
+                'id' => $employee->id,
+                'employee_number' => $employee->employee_number,
+                'full_name' => $employee->profile?->full_name,
+                'department' => $employee->department?->name ?? 'N/A',
+                'position' => $employee->position?->title,
+            ],
+            'publishedWeeks' => $this->publishing->publishedWeeksFor($employee, today(), self::PUBLISHED_WEEKS),
+            'publishedHours' => $this->publishing->publishedHoursFor($employee),
+            'myShifts' => $myShifts,
+            'coworkers' => $coworkers->map(fn (Employee $coworker) => [
+                'id' => $coworker->id,
+                'full_name' => $coworker->profile?->full_name,
+            ])->values(),
+            'coworkerShifts' => $coworkerShifts,
+            'openShifts' => $openShifts,
+            'incoming' => $incoming,
+            'myRequests' => $myRequests,
+            'maxWeeklyHours' => $this->swaps->maxWeeklyHours(),
+        ]);
+    }
+
+    /**
+     * Give a shift away or propose a swap.
+     *
+     * @param Request $request
+     * @return RedirectResponse
+     */
+    public function store(Request $request): RedirectResponse
+    {
+        $employee = $this->currentEmployee($request);
+
+        $validated = $request->validate([
+            'type' => ['required', Rule::in(ShiftSwapRequest::TYPES)],
+            'shift_assignment_id' => 'required|integer|exists:shift_assignments,id',
+            'target_shift_assignment_id' => 'required_if:type,swap|nullable|integer|exists:shift_assignments,id',
+            'note' => 'nullable|string|max:500',
+        ]);
+
+        $shift = ShiftAssignment::findOrFail($validated['shift_assignment_id']);
+
+        try {
+            if ($validated['type'] === 'swap') {
+                $this->swaps->proposeSwap(
+                    $employee,
+                    $shift,
+                    ShiftAssignment::findOrFail($validated['target_shift_assignment_id']),
+                    $validated['note'] ?? null
+                );
+            } else {
+                $this->swaps->offer($employee, $shift, $validated['note'] ?? null);
+            }
+        } catch (\InvalidArgumentException $e) {
+            return back()->with('error', $e->getMessage());
+        }
+
+        Log::info('Shift swap requested', [
+            'employee_id' => $employee->id,
+            'type' => $validated['type'],
+            'shift_assignment_id' => $shift->id,
+        ]);
+
+        return back()->with('success', $validated['type'] === 'swap'
+            ? 'Swap proposed. Your coworker will be notified.'
+            : 'Shift offered. Eligible coworkers can now pick it up.');
+    }
+
+    /**
+     * Pick up an open shift.
+     *
+     * @param Request $request
+     * @param int $id
+     * @return RedirectResponse
+     */
+    public function pickUp(Request $request, int $id): RedirectResponse
+    {
+        return $this->respond($request, $id, 'pickUp', 'Shift picked up. It is now waiting for the department head\'s approval.');
+    }
+
+    /**
+     * Accept a swap proposed by a coworker.
+     *
+     * @param Request $request
+     * @param int $id
+     * @return RedirectResponse
+     */
+    public function accept(Request $request, int $id): RedirectResponse
+    {
+        return $this->respond($request, $id, 'accept', 'Swap accepted. It is now waiting for the department head\'s approval.');
+    }
+
+    /**
+     * Decline a swap proposed by a coworker.
+     *
+     * @param Request $request
+     * @param int $id
+     * @return RedirectResponse
+     */
+    public function decline(Request $request, int $id): RedirectResponse
+    {
+        return $this->respond($request, $id, 'decline', 'Swap declined.');
+    }
+
+    /**
+     * Withdraw an own request.
+     *
+     * @param Request $request
+     * @param int $id
+     * @return RedirectResponse
+     */
+    public function cancel(Request $request, int $id): RedirectResponse
+    {
+        return $this->respond($request, $id, 'cancel', 'Request cancelled.');
+    }
+
+    /**
+     * Run a service action on a request as the current employee.
+     */
+    private function respond(Request $request, int $id, string $action, string $message): RedirectResponse
+    {
+        $employee = $this->currentEmployee($request);
+        $swap = ShiftSwapRequest::findOrFail($id);
+
+        try {
+            $this->swaps->{$action}($swap, $employee);
+        } catch (\InvalidArgumentException $e) {
+            return back()->with('error', $e->getMessage());
+        }
+
+        return back()->with('success', $message);
+    }
+
+    /**
+     * The authenticated user's employee record.
+     */
+    private function currentEmployee(Request $request): Employee
+    {
+        $employee = $request->user()->employee;
+
+        if (!$employee) {
+            abort(403, 'No employee record found for your account. Please contact HR Staff.');
+        }
+
+        return $employee;
+    }
+
+    private function upcomingShifts()
+    {
+        return ShiftAssignment::with(['employee.profile', 'schedule:id,name'])
+            ->where('status', 'scheduled')
+            ->whereDate('date', '>=', today())
+            ->whereDate('date', '<=', today()->addDays(self::LOOKAHEAD_DAYS))
+            ->orderBy('date')
+            ->orderBy('shift_start');
+    }
+
+    private function shiftData(?ShiftAssignment $shift): ?array
+    {
+        if (!$shift) {
+            return null;
+        }
+
+        return [
+            'id' => $shift->id,
+            'date' => $shift->date->toDateString(),
+            'shift_start' => $shift->shift_start,
+            'shift_end' => $shift->shift_end,
+            'shift_type' => $shift->shift_type,
+            'schedule_name' => $shift->schedule?->name,
+        ];
+    }
+
+    private function swapData(ShiftSwapRequest $swap): array
+    {
+        return [
+            'id' => $swap->id,
+            'type' => $swap->type,
+            'status' => $swap->status,
+            'shift' => $this->shiftData($swap->shift),
+            'target_shift' => $this->shiftData($swap->targetShift),
+            'requester_name' => $swap->requester?->profile?->full_name,
+            'target_employee_name' => $swap->targetEmployee?->profile?->full_name,
+            'eligibility' => $swap->eligibility ?? [],
+            'note' => $swap->note,
+            'decision_note' => $swap->decision_note,
+            'created_at' => $swap->created_at?->toISOString(),
+        ];
+    }
+}
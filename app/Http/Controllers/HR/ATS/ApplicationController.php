@@ -199,7 +199,10 @@ public function scheduleInterview(Request $request, Application $application)
             'scheduled_date'   => 'required|date',
             'scheduled_time'   => 'required',
             'location_type'    => 'required|in:office,video_call,phone',
+            'location'         => 'nullable|string|max:255',
+            'meeting_link'     => 'nullable|url|max:500',
             'interviewer_name' => 'required|string',
+            'interviewer_id'   => 'nullable|exists:users,id',
         ]);
 
         Interview::create([
@@ -208,7 +211,10 @@ public function scheduleInterview(Request $request, Application $application)
             'scheduled_date'   => $validated['scheduled_date'],
             'scheduled_time'   => $validated['scheduled_time'],
             'location_type'    => $validated['location_type'],
+            'location'         => $validated['location'] ?? null,
+            'meeting_link'     => $validated['meeting_link'] ?? null,
             'interviewer_name' => $validated['interviewer_name'],
+            'interviewer_id'   => $validated['interviewer_id'] ?? null,
         ]);
 
         // Update application status to interviewed
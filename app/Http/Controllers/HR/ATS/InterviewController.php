@@ -58,6 +58,8 @@ public function index(Request $request)
             'scheduled_time' => Carbon::parse($interview->scheduled_time)->format('H:i'),
             'duration_minutes' => $interview->duration_minutes, // ✅ FIX ADDED HERE
             'location_type' => $interview->location_type,
+            'location' => $interview->location,
+            'meeting_link' => $interview->meeting_link,
             'score' => $interview->score,
             'recommendation' => $interview->recommendation,
             'feedback' => $interview->feedback,
@@ -100,7 +102,10 @@ public function store(Request $request)
         'scheduled_time' => 'required',
         'duration_minutes' => 'nullable|integer|min:15|max:480',
         'location_type' => 'required|in:office,video_call,phone',
+        'location' => 'nullable|string|max:255',
+        'meeting_link' => 'nullable|url|max:500',
         'interviewer_name' => 'required|string|max:255',
+        'interviewer_id' => 'nullable|exists:users,id',
     ]);
 
     $interview = Interview::create([
@@ -111,8 +116,11 @@ public function store(Request $request)
         'scheduled_time' => $validated['scheduled_time'],
         'duration_minutes' => $validated['duration_minutes'] ?? 30,
         'location_type' => $validated['location_type'],
+        'location' => $validated['location'] ?? null,
+        'meeting_link' => $validated['meeting_link'] ?? null,
         'status' => 'scheduled',
         'interviewer_name' => $validated['interviewer_name'],
+        'interviewer_id' => $validated['interviewer_id'] ?? null,
     ]);
 
     return response()->json([
@@ -128,6 +136,9 @@ public function update(Request $request, Interview $interview)
         'scheduled_time' => 'nullable',
         'duration_minutes' => 'nullable|integer|min:15|max:480',
         'location_type' => 'nullable|string',
+        'location' => 'nullable|string|max:255',
+        'meeting_link' => 'nullable|url|max:500',
+        'interviewer_id' => 'nullable|exists:users,id',
         'feedback' => 'nullable|string',
         'score' => 'nullable|numeric|min:0|max:100',
         'recommendation' => 'nullable|in:hire,no_hire,hold',
@@ -186,6 +197,8 @@ public function show($id)
             'scheduled_time' => \Carbon\Carbon::parse($interview->scheduled_time)->format('H:i'),
             'duration_minutes' => $interview->duration_minutes,   // ✅ ADD THIS
             'location_type' => $interview->location_type,
+            'location' => $interview->location,
+            'meeting_link' => $interview->meeting_link,
             'score' => $interview->score,
             'recommendation' => $interview->recommendation,
             'feedback' => $interview->feedback,
@@ -0,0 +1,249 @@
+<?php
+
+namespace App\Http\Controllers\HR\Timekeeping;
+
+use App\Http\Controllers\Controller;
+use App\Models\AttendanceAnomaly;
+use App\Models\DevicePairAnomalyRule;
+use App\Models\Employee;
+use App\Models\RfidDevice;
+use App\Services\Timekeeping\AnomalyDetectionService;
+use Illuminate\Http\RedirectResponse;
+use Illuminate\Http\Request;
+use Inertia\Inertia;
+use Inertia\Response;
+
+/**
+ * HR review queue for attendance anomalies (impossible travel, missing exit,
+ * buddy punching) and the per device pair detection thresholds.
+ */
+class AttendanceAnomalyController extends Controller
+{
+    /**
+     * Review queue with filters, open counts and the threshold rules.
+     *
+     * @param Request $request
+     * @return Response
+     */
+    public function index(Request $request): Response
+    {
+        $status = $request->input('status', 'open');
+
+        $query = AttendanceAnomaly::with([
+            'employee:id,employee_number,profile_id,department_id',
+            'employee.profile:id,first_name,last_name',
+            'employee.department:id,name',
+            'relatedEmployee:id,employee_number,profile_id,department_id',
+            'relatedEmployee.profile:id,first_name,last_name',
+            'relatedEmployee.department:id,name',
+            'reviewer:id,name',
+        ])->orderByDesc('detected_at');
+
+        if ($status !== 'all') {
+            $query->where('status', $status);
+        }
+        if ($request->filled('type')) {
+            $query->where('type', $request->input('type'));
+        }
+        if ($request->filled('severity')) {
+            $query->where('severity', $request->input('severity'));
+        }
+        if ($request->filled('employee_number')) {
+            $employeeIds = Employee::where('employee_number', 'like', '%' . $request->input('employee_number') . '%')->pluck('id');
+            $query->where(fn ($q) => $q->whereIn('employee_id', $employeeIds)->orWhereIn('related_employee_id', $employeeIds));
+        }
+        if ($request->filled('date_from')) {
+            $query->where('attendance_date', '>=', $request->input('date_from'));
+        }
+        if ($request->filled('date_to')) {
+            $query->where('attendance_date', '<=', $request->input('date_to'));
+        }
+
+        $devices = RfidDevice::orderBy('device_id')->get(['device_id', 'location']);
+        $deviceLabels = $devices->pluck('location', 'device_id');
+
+        $anomalies = $query->paginate(25)->withQueryString()->through(fn (AttendanceAnomaly $anomaly) => [
+            'id' => $anomaly->id,
+            'type' => $anomaly->type,
+            'severity' => $anomaly->severity,
+            'status' => $anomaly->status,
+            'summary' => $anomaly->summary,
+            'details' => $anomaly->details,
+            'attendance_date' => $anomaly->attendance_date->toDateString(),
+            'detected_at' => $anomaly->detected_at->toISOString(),
+            'employee' => $this->employeeRow($anomaly->employee),
+            'related_employee' => $anomaly->relatedEmployee ? $this->employeeRow($anomaly->relatedEmployee) : null,
+            'device_id' => $anomaly->device_id,
+            'device_location' => $anomaly->device_id ? ($deviceLabels[$anomaly->device_id] ?? null) : null,
+            'related_device_id' => $anomaly->related_device_id,
+            'related_device_location' => $anomaly->related_device_id ? ($deviceLabels[$anomaly->related_device_id] ?? null) : null,
+            'ledger_sequence_id' => $anomaly->ledger_sequence_id,
+            'related_ledger_sequence_id' => $anomaly->related_ledger_sequence_id,
+            'reviewed_by' => $anomaly->reviewer?->name,
+            'reviewed_at' => $anomaly->reviewed_at?->toISOString(),
+            'review_notes' => $anomaly->review_notes,
+        ]);
+
+        $openCounts = AttendanceAnomaly::open()
+            ->selectRaw('type, count(*) as total')
+            ->groupBy('type')
+            ->pluck('total', 'type');
+
+        return Inertia::render('HR/Timekeeping/Anomalies/Index', [
+            'anomalies' => $anomalies,
+            'openCounts' => collect(AttendanceAnomaly::TYPES)->mapWithKeys(fn (string $type) => [$type => (int) ($openCounts[$type] ?? 0)]),
+            'rules' => DevicePairAnomalyRule::with('updater:id,name')
+                ->orderBy('device_a_id')
+                ->orderBy('device_b_id')
+                ->get()
+                ->map(fn (DevicePairAnomalyRule $rule) => [
+                    'id' => $rule->id,
+                    'device_a_id' => $rule->device_a_id,
+                    'device_b_id' => $rule->device_b_id,
+                    'min_travel_seconds' => $rule->min_travel_seconds,
+                    'buddy_window_seconds' => $rule->buddy_window_seconds,
+                    'is_enabled' => $rule->is_enabled,
+                    'notes' => $rule->notes,
+                    'updated_by' => $rule->updater?->name,
+                    'updated_at' => $rule->updated_at?->toISOString(),
+                ]),
+            'devices' => $devices->map(fn (RfidDevice $device) => [
+                'id' => $device->device_id,
+                'location' => $device->location,
+            ]),
+            'defaults' => [
+                'min_travel_seconds' => AnomalyDetectionService::DEFAULT_MIN_TRAVEL_SECONDS,
+                'buddy_window_seconds' => AnomalyDetectionService::DEFAULT_BUDDY_WINDOW_SECONDS,
+                'buddy_min_days' => AnomalyDetectionService::BUDDY_MIN_DAYS,
+                'buddy_lookback_days' => AnomalyDetectionService::BUDDY_LOOKBACK_DAYS,
+                'missing_exit_hours' => AnomalyDetectionService::MISSING_EXIT_HOURS,
+            ],
+            'filters' => [
+                'status' => $status,
+                'type' => $request->input('type'),
+                'severity' => $request->input('severity'),
+                'employee_number' => $request->input('employee_number'),
+                'date_from' => $request->input('date_from'),
+                'date_to' => $request->input('date_to'),
+            ],
+        ]);
+    }
+
+    /**
+     * Confirm or dismiss an anomaly, or reopen a reviewed one.
+     *
+     * @param Request $request
+     * @param int $anomalyId
+     * @return RedirectResponse
+     */
+    public function review(Request $request, int $anomalyId): RedirectResponse
+    {
+        $validated = $request->validate([
+            'status' => 'required|in:open,confirmed,dismissed',
+            'review_notes' => 'nullable|string|max:1000|required_if:status,dismissed',
+        ]);
+
+        $anomaly = AttendanceAnomaly::findOrFail($anomalyId);
+        $previousStatus = $anomaly->status;
+        $reopened = $validated['status'] === 'open';
+
+        $anomaly->update([
+            'status' => $validated['status'],
+            'review_notes' => $validated['review_notes'] ?? null,
+            'reviewed_by' => $reopened ? null : $request->user()?->id,
+            'reviewed_at' => $reopened ? null : now(),
+        ]);
+
+        activity('timekeeping')
+            ->causedBy($request->user())
+            ->performedOn($anomaly)
+            ->withProperties([
+                'type' => $anomaly->type,
+                'employee_id' => $anomaly->employee_id,
+                'from' => $previousStatus,
+                'to' => $anomaly->status,
+                'notes' => $anomaly->review_notes,
+            ])
+            ->log($reopened ? 'Reopened attendance anomaly' : "Marked attendance anomaly {$anomaly->status}");
+
+        return back()->with('success', $reopened ? 'Anomaly reopened.' : "Anomaly {$anomaly->status}.");
+    }
+
+    /**
+     * Create or replace the threshold rule for a device pair.
+     *
+     * @param Request $request
+     * @return RedirectResponse
+     */
+    public function storeRule(Request $request): RedirectResponse
+    {
+        $validated = $request->validate([
+            'device_a_id' => 'required|string|exists:rfid_devices,device_id',
+            'device_b_id' => 'required|string|exists:rfid_devices,device_id',
+            'min_travel_seconds' => 'nullable|integer|min:0|max:86400',
+            'buddy_window_seconds' => 'nullable|integer|min:1|max:600',
+            'is_enabled' => 'required|boolean',
+            'notes' => 'nullable|string|max:255',
+        ]);
+
+        [$deviceA, $deviceB] = DevicePairAnomalyRule::orderedPair($validated['device_a_id'], $validated['device_b_id']);
+
+        $rule = DevicePairAnomalyRule::updateOrCreate(
+            ['device_a_id' => $deviceA, 'device_b_id' => $deviceB],
+            [
+                // Travel time only applies between two different devices
+                'min_travel_seconds' => $deviceA === $deviceB ? null : ($validated['min_travel_seconds'] ?? null),
+                'buddy_window_seconds' => $validated['buddy_window_seconds'] ?? null,
+                'is_enabled' => $validated['is_enabled'],
+                'notes' => $validated['notes'] ?? null,
+                'updated_by' => $request->user()?->id,
+            ]
+        );
+
+        activity('timekeeping')
+            ->causedBy($request->user())
+            ->performedOn($rule)
+            ->withProperties($rule->only(['device_a_id', 'device_b_id', 'min_travel_seconds', 'buddy_window_seconds', 'is_enabled']))
+            ->log('Saved anomaly threshold rule');
+
+        return back()->with('success', "Thresholds for {$deviceA}" . ($deviceA === $deviceB ? '' : " ↔ {$deviceB}") . ' saved.');
+    }
+
+    /**
+     * Remove a device pair rule, restoring the default thresholds.
+     *
+     * @param Request $request
+     * @param int $ruleId
+     * @return RedirectResponse
+     */
+    public function destroyRule(Request $request, int $ruleId): RedirectResponse
+    {
+        $rule = DevicePairAnomalyRule::findOrFail($ruleId);
+        $rule->delete();
+
+        activity('timekeeping')
+            ->causedBy($request->user())
+            ->withProperties($rule->only(['device_a_id', 'device_b_id']))
+            ->log('Removed anomaly threshold rule');
+
+        return back()->with('success', 'Rule removed; default thresholds apply.');
+    }
+
+    /**
+     * @param Employee|null $employee
+     * @return array|null
+     */
+    private function employeeRow(?Employee $employee): ?array
+    {
+        if (!$employee) {
+            return null;
+        }
+
+        return [
+            'id' => $employee->id,
+            'employee_number' => $employee->employee_number,
+            'name' => $employee->profile ? trim("{$employee->profile->first_name} {$employee->profile->last_name}") : $employee->employee_number,
+            'department' => $employee->department?->name,
+        ];
+    }
+}
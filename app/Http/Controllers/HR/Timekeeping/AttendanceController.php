@@ -8,8 +8,10 @@
 use Inertia\Response;
 use Illuminate\Http\JsonResponse;
 use App\Models\DailyAttendanceSummary;
+use App\Models\AttendanceAnomaly;
 use App\Models\AttendanceEvent;
 use App\Models\Employee;
+use App\Models\PunchPhoto;
 use App\Models\RfidDevice;
 use Carbon\Carbon;
 use Illuminate\Support\Facades\Cache;
@@ -27,6 +29,7 @@ public function index(Request $request): Response
             'employee.profile:id,first_name,last_name',
             'employee.department:id,name',
             'workSchedule:id,name',
+            'shiftAssignment:id,shift_start,shift_end,shift_type',
             'leaveRequest:id,leave_type'
         ])->orderBy('attendance_date', 'desc');
 
@@ -64,8 +67,32 @@ public function index(Request $request): Response
         // Get records
         $records = $query->limit(100)->get();
 
+        // Anomaly flags per employee-day, for both employees of a buddy-punching pair
+        $anomalyFlags = collect();
+        AttendanceAnomaly::active()
+            ->whereBetween('attendance_date', [$dateFrom, $dateTo])
+            ->where(fn ($q) => $q->whereIn('employee_id', $records->pluck('employee_id'))->orWhereIn('related_employee_id', $records->pluck('employee_id')))
+            ->get()
+            ->each(function (AttendanceAnomaly $anomaly) use ($anomalyFlags) {
+                foreach (array_filter([$anomaly->employee_id, $anomaly->related_employee_id]) as $employeeId) {
+                    $key = $employeeId . '|' . $anomaly->attendance_date->toDateString();
+                    $anomalyFlags->put($key, [...$anomalyFlags->get($key, []), $anomaly->toFlag()]);
+                }
+            });
+
+        // Punch photo review outcome per employee-day; a proxy flag outweighs approvals
+        $photoReviews = PunchPhoto::whereIn('review_status', ['pending', ...PunchPhoto::REVIEWED_STATUSES])
+            ->whereIn('employee_id', $records->pluck('employee_id'))
+            ->whereBetween('captured_at', [Carbon::parse($dateFrom)->startOfDay(), Carbon::parse($dateTo)->endOfDay()])
+            ->get(['employee_id', 'captured_at', 'review_status'])
+            ->groupBy(fn (PunchPhoto $photo) => $photo->employee_id . '|' . $photo->captured_at->toDateString())
+            ->map(fn ($photos) => [
+                'status' => collect(['proxy', 'pending', 'approved'])->first(fn ($status) => $photos->contains('review_status', $status)),
+                'photos' => $photos->count(),
+            ]);
+
         // Transform for frontend
-        $attendance = $records->map(function ($record) {
+        $attendance = $records->map(function ($record) use ($anomalyFlags, $photoReviews) {
             $employee = $record->employee;
             
             // Determine status
@@ -87,16 +114,29 @@ public function index(Request $request): Response
                 'date' => $record->attendance_date->format('Y-m-d'),
                 'time_in' => $record->time_in ? $record->time_in->format('H:i:s') : null,
                 'time_out' => $record->time_out ? $record->time_out->format('H:i:s') : null,
+                // Overnight shifts pair a time out after midnight with the day the shift started
+                'time_out_next_day' => $record->time_out !== null && $record->time_out->toDateString() > $record->attendance_date->toDateString(),
+                'shift' => $record->shiftAssignment ? [
+                    'id' => $record->shiftAssignment->id,
+                    'shift_type' => $record->shiftAssignment->shift_type,
+                    'start' => $record->shiftAssignment->shift_start,
+                    'end' => $record->shiftAssignment->shift_end,
+                    'crosses_midnight' => $record->shiftAssignment->shift_end <= $record->shiftAssignment->shift_start,
+                ] : null,
                 'break_start' => $record->break_start ? $record->break_start->format('H:i:s') : null,
                 'break_end' => $record->break_end ? $record->break_end->format('H:i:s') : null,
                 'total_hours' => round($record->total_hours ?? 0, 2),
                 'overtime_hours' => round($record->overtime_hours ?? 0, 2),
+                'night_diff_minutes' => $record->night_diff_minutes ?? 0,
+                'night_diff_overtime_minutes' => $record->night_diff_overtime_minutes ?? 0,
                 'status' => $status,
                 'source' => $record->source ?? 'edge_machine',
                 'is_late' => $record->is_late,
                 'late_minutes' => $record->late_minutes ?? 0,
                 'is_corrected' => $record->correction_applied,
                 'notes' => $record->notes,
+                'anomalies' => $anomalyFlags->get($record->employee_id . '|' . $record->attendance_date->toDateString(), []),
+                'photo_review' => $photoReviews->get($record->employee_id . '|' . $record->attendance_date->toDateString()),
             ];
         });
 
@@ -0,0 +1,98 @@
+<?php
+
+namespace App\Http\Controllers\HR\Timekeeping;
+
+use App\Http\Controllers\Controller;
+use App\Models\Employee;
+use App\Services\Timekeeping\AttendanceReconstructionService;
+use Carbon\Carbon;
+use Illuminate\Http\JsonResponse;
+use Illuminate\Http\Request;
+
+/**
+ * Point-in-time reconstruction of daily attendance summaries, used by the
+ * ledger replay view to explain why payroll figures changed between runs.
+ */
+class AttendanceReconstructionController extends Controller
+{
+    /**
+     * Maximum days in one reconstruction request.
+     */
+    private const MAX_DAYS = 31;
+
+    /**
+     * Maximum employees in one reconstruction request (department scope).
+     */
+    private const MAX_EMPLOYEES = 200;
+
+    /**
+     * Reconstruct summaries for an employee or department as of a moment.
+     *
+     * @param Request $request
+     * @param AttendanceReconstructionService $reconstructionService
+     * @return JsonResponse
+     */
+    public function index(Request $request, AttendanceReconstructionService $reconstructionService): JsonResponse
+    {
+        $validated = $request->validate([
+            'as_of'           => 'required|date',
+            'date_from'       => 'required|date',
+            'date_to'         => 'required|date|after_or_equal:date_from',
+            'employee_id'     => 'nullable|integer|exists:employees,id',
+            'employee_number' => 'nullable|string|max:50|exists:employees,employee_number',
+            'department_id'   => 'nullable|integer|exists:departments,id',
+        ]);
+
+        $dateFrom = Carbon::parse($validated['date_from'])->startOfDay();
+        $dateTo = Carbon::parse($validated['date_to'])->startOfDay();
+        $asOf = Carbon::parse($validated['as_of']);
+
+        if ($dateFrom->diffInDays($dateTo) >= self::MAX_DAYS) {
+            return response()->json([
+                'message' => 'Reconstruct at most ' . self::MAX_DAYS . ' days at a time.',
+                'error' => 'RECONSTRUCTION_RANGE_INVALID',
+            ], 422);
+        }
+
+        if (empty($validated['employee_id']) && empty($validated['employee_number']) && empty($validated['department_id'])) {
+            return response()->json([
+                'message' => 'Select an employee or a department.',
+                'error' => 'RECONSTRUCTION_SCOPE_REQUIRED',
+            ], 422);
+        }
+
+        $query = Employee::with(['profile:id,first_name,last_name', 'department:id,name'])->orderBy('employee_number');
+
+        if (!empty($validated['employee_id'])) {
+            $query->where('id', $validated['employee_id']);
+        } elseif (!empty($validated['employee_number'])) {
+            $query->where('employee_number', $validated['employee_number']);
+        } else {
+            $query->where('department_id', $validated['department_id']);
+        }
+
+        $employees = $query->limit(self::MAX_EMPLOYEES + 1)->get();
+
+        if ($employees->count() > self::MAX_EMPLOYEES) {
+            return response()->json([
+                'message' => 'The department has more than ' . self::MAX_EMPLOYEES . ' employees. Pick a single employee.',
+                'error' => 'RECONSTRUCTION_RANGE_INVALID',
+            ], 422);
+        }
+
+        $rows = $reconstructionService->reconstruct($employees, $dateFrom, $dateTo, $asOf);
+
+        return response()->json([
+            'success' => true,
+            'data' => $rows,
+            'meta' => [
+                'as_of' => $asOf->toISOString(),
+                'date_from' => $dateFrom->toDateString(),
+                'date_to' => $dateTo->toDateString(),
+                'employee_count' => $employees->count(),
+                'day_count' => count($rows),
+                'changed_count' => collect($rows)->where('changed_since_as_of', true)->count(),
+            ],
+        ]);
+    }
+}
@@ -0,0 +1,85 @@
+<?php
+
+namespace App\Http\Controllers\HR\Timekeeping;
+
+use App\Http\Controllers\Controller;
+use App\Models\RfidDevice;
+use App\Services\Timekeeping\DeviceClockService;
+use Carbon\Carbon;
+use Illuminate\Http\RedirectResponse;
+use Illuminate\Http\Request;
+
+/**
+ * Clock corrections for RFID devices whose clock drifted, from the device dashboard.
+ * Corrections are recorded as ledger annotations; the ledger itself is never edited.
+ */
+class DeviceClockController extends Controller
+{
+    public function __construct(
+        private DeviceClockService $clock
+    ) {}
+
+    /**
+     * Re-base a window of a device's taps by an offset.
+     *
+     * @param Request $request
+     * @param string $deviceId
+     * @return RedirectResponse
+     */
+    public function store(Request $request, string $deviceId): RedirectResponse
+    {
+        $device = RfidDevice::where('device_id', $deviceId)->firstOrFail();
+
+        $validated = $request->validate([
+            'window_start' => 'required|date',
+            'window_end' => 'required|date|after:window_start',
+            'offset_seconds' => 'required|integer|not_in:0|between:-' . DeviceClockService::MAX_OFFSET_SECONDS . ',' . DeviceClockService::MAX_OFFSET_SECONDS,
+            'reason' => 'required|string|max:500',
+        ]);
+
+        try {
+            $result = $this->clock->correct(
+                $device,
+                Carbon::parse($validated['window_start']),
+                Carbon::parse($validated['window_end']),
+                (int) $validated['offset_seconds'],
+                $validated['reason'],
+                $request->user()
+            );
+        } catch (\InvalidArgumentException $e) {
+            return back()->with('error', $e->getMessage());
+        }
+
+        $annotation = $result['annotation'];
+
+        activity('timekeeping')
+            ->causedBy($request->user())
+            ->performedOn($annotation)
+            ->withProperties([
+                'device_id' => $device->device_id,
+                'window_start' => $annotation->window_start->toDateTimeString(),
+                'window_end' => $annotation->window_end->toDateTimeString(),
+                'offset_seconds' => $annotation->offset_seconds,
+                'ledger_entries' => $annotation->ledger_entries,
+                'events_corrected' => $annotation->events_corrected,
+                'summaries_refreshed' => $result['summaries_refreshed'],
+                'summaries_finalized' => $result['summaries_finalized'],
+                'reason' => $annotation->reason,
+            ])
+            ->log(sprintf('Corrected clock of device %s by %+ds', $device->device_id, $annotation->offset_seconds));
+
+        $message = sprintf(
+            'Clock correction #%d recorded: %d ledger entr%s, %d attendance event(s) moved by %+ds.',
+            $annotation->id,
+            $annotation->ledger_entries,
+            $annotation->ledger_entries === 1 ? 'y' : 'ies',
+            $annotation->events_corrected,
+            $annotation->offset_seconds
+        );
+        if ($result['summaries_finalized'] > 0) {
+            $message .= " {$result['summaries_finalized']} finalized daily summar" . ($result['summaries_finalized'] === 1 ? 'y was' : 'ies were') . ' not recomputed.';
+        }
+
+        return back()->with('success', $message);
+    }
+}
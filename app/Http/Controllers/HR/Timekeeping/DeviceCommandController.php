@@ -0,0 +1,122 @@
+<?php
+
+namespace App\Http\Controllers\HR\Timekeeping;
+
+use App\Http\Controllers\Controller;
+use App\Models\DeviceCommand;
+use App\Models\RfidDevice;
+use App\Services\Timekeeping\DeviceCommandService;
+use Illuminate\Http\RedirectResponse;
+use Illuminate\Http\Request;
+use Illuminate\Validation\ValidationException;
+
+/**
+ * Remote commands sent to RFID gate PCs and kiosks from the device dashboard.
+ * Delivery and acknowledgement happen over the device API (RfidTapController).
+ */
+class DeviceCommandController extends Controller
+{
+    public function __construct(
+        private DeviceCommandService $deviceCommands
+    ) {}
+
+    /**
+     * Queue a command for a device.
+     *
+     * @param Request $request
+     * @param string $deviceId
+     * @return RedirectResponse
+     */
+    public function store(Request $request, string $deviceId): RedirectResponse
+    {
+        $device = RfidDevice::where('device_id', $deviceId)->firstOrFail();
+
+        $validated = $request->validate([
+            'command' => 'required|in:' . implode(',', DeviceCommand::COMMANDS),
+            'heartbeat_interval' => 'nullable|integer|min:10|max:600',
+            'display_text' => 'nullable|string|max:60',
+        ]);
+
+        $command = $validated['command'];
+        $payload = $command === 'push_config'
+            ? array_filter([
+                'heartbeat_interval' => $validated['heartbeat_interval'] ?? null,
+                'display_text' => $validated['display_text'] ?? null,
+            ], fn ($value) => $value !== null)
+            : [];
+
+        if ($command === 'push_config' && empty($payload)) {
+            throw ValidationException::withMessages([
+                'heartbeat_interval' => 'Set a heartbeat interval or display text to push.',
+            ]);
+        }
+
+        $alreadyQueued = DeviceCommand::open()
+            ->where('device_id', $device->device_id)
+            ->where('command', $command)
+            ->where('expires_at', '>=', now())
+            ->exists();
+        if ($alreadyQueued) {
+            return back()->with('error', "A {$this->label($command)} command is already waiting for {$device->device_id}.");
+        }
+
+        $queued = $this->deviceCommands->issue($device, $command, $payload, $request->user());
+
+        activity('timekeeping')
+            ->causedBy($request->user())
+            ->performedOn($queued)
+            ->withProperties([
+                'device_id' => $device->device_id,
+                'command' => $command,
+                'payload' => $payload,
+            ])
+            ->log("Queued {$this->label($command)} for device {$device->device_id}");
+
+        return back()->with('success', "{$this->label($command)} queued. {$device->device_id} picks it up with its next heartbeat.");
+    }
+
+    /**
+     * Cancel a command the device has not picked up yet.
+     *
+     * @param Request $request
+     * @param int $commandId
+     * @return RedirectResponse
+     */
+    public function cancel(Request $request, int $commandId): RedirectResponse
+    {
+        $command = DeviceCommand::findOrFail($commandId);
+
+        if ($command->status !== 'pending') {
+            return back()->with('error', "This command is already {$command->status} and can no longer be cancelled.");
+        }
+
+        $this->deviceCommands->cancel($command);
+
+        activity('timekeeping')
+            ->causedBy($request->user())
+            ->performedOn($command)
+            ->withProperties([
+                'device_id' => $command->device_id,
+                'command' => $command->command,
+            ])
+            ->log("Cancelled {$this->label($command->command)} for device {$command->device_id}");
+
+        return back()->with('success', 'Command cancelled.');
+    }
+
+    /**
+     * @param string $command
+     * @return string
+     */
+    private function label(string $command): string
+    {
+        return match ($command) {
+            'force_sync' => 'Force sync',
+            'restart_service' => 'Restart',
+            'clear_photo_cache' => 'Clear photo cache',
+            'push_config' => 'Push config',
+            'rotate_key' => 'Rotate key',
+            default => $command,
+        };
+    }
+}
@@ -3,8 +3,14 @@
 namespace App\Http\Controllers\HR\Timekeeping;
 
 use App\Http\Controllers\Controller;
+use App\Models\DeviceCommand;
+use App\Models\DeviceClockSample;
+use App\Models\DeviceFloorPlan;
+use App\Models\LedgerAnnotation;
 use App\Models\RfidDevice;
 use App\Models\RfidLedger;
+use App\Services\Timekeeping\DeviceClockService;
+use App\Services\Timekeeping\DeviceCommandService;
 use Carbon\Carbon;
 use Illuminate\Http\Request;
 use Inertia\Inertia;
@@ -12,8 +18,16 @@
 
 class DeviceController extends Controller
 {
+    public function __construct(
+        private DeviceCommandService $deviceCommands,
+        private DeviceClockService $clock
+    ) {}
+
     public function index(Request $request): Response
     {
+        // Commands a device never acknowledged show as timed out even if it has not called in since
+        $this->deviceCommands->expireOverdue();
+
         $statusFilter = $request->get('status', 'all');
 
         $query = RfidDevice::query();
@@ -48,6 +62,49 @@ public function index(Request $request): Response
                 ->orderByDesc('scan_timestamp')
                 ->first();
 
+            $commands = $device->commands()
+                ->with('issuer:id,name')
+                ->limit(10)
+                ->get()
+                ->map(fn (DeviceCommand $command) => [
+                    'id'             => $command->id,
+                    'command'        => $command->command,
+                    'payload'        => $command->payload,
+                    'status'         => $command->status,
+                    'issuedBy'       => $command->issuer?->name,
+                    'issuedAt'       => $command->created_at?->toISOString(),
+                    'deliveredAt'    => $command->delivered_at?->toISOString(),
+                    'acknowledgedAt' => $command->acknowledged_at?->toISOString(),
+                    'expiresAt'      => $command->expires_at->toISOString(),
+                    'resultMessage'  => $command->result['message'] ?? null,
+                ]);
+
+            $clockSamples = $device->clockSamples()
+                ->where('sampled_at', '>=', now()->subDay())
+                ->orderBy('sampled_at')
+                ->get()
+                ->map(fn (DeviceClockSample $sample) => [
+                    'driftSeconds' => $sample->drift_seconds,
+                    'sampledAt'    => $sample->sampled_at->toISOString(),
+                ]);
+
+            $clockCorrections = $device->ledgerAnnotations()
+                ->clockCorrections()
+                ->with('creator:id,name')
+                ->limit(10)
+                ->get()
+                ->map(fn (LedgerAnnotation $annotation) => [
+                    'id'              => $annotation->id,
+                    'windowStart'     => $annotation->window_start->toISOString(),
+                    'windowEnd'       => $annotation->window_end->toISOString(),
+                    'offsetSeconds'   => $annotation->offset_seconds,
+                    'ledgerEntries'   => $annotation->ledger_entries,
+                    'eventsCorrected' => $annotation->events_corrected,
+                    'reason'          => $annotation->reason,
+                    'createdBy'       => $annotation->creator?->name,
+                    'createdAt'       => $annotation->created_at?->toISOString(),
+                ]);
+
             return [
                 'id'                => $device->device_id,
                 'location'          => $device->location,
@@ -57,6 +114,19 @@ public function index(Request $request): Response
                 'scansToday'        => $scansToday,
                 'lastHeartbeat'     => $device->last_heartbeat?->toISOString(),
                 'recentScans'       => $recentScans,
+                'floorPlanId'       => $device->floor_plan_id,
+                'mapX'              => $device->map_x,
+                'mapY'              => $device->map_y,
+                'kind'              => data_get($device->config, 'kind', 'gate'),
+                'commands'          => $commands,
+                'clock'             => [
+                    'driftSeconds'     => $device->clock_drift_seconds,
+                    'checkedAt'        => $device->clock_checked_at?->toISOString(),
+                    'drifting'         => $this->clock->isDrifting($device),
+                    'thresholdSeconds' => DeviceClockService::DRIFT_ALERT_SECONDS,
+                    'samples'          => $clockSamples,
+                    'corrections'      => $clockCorrections,
+                ],
             ];
         });
 
@@ -68,8 +138,23 @@ public function index(Request $request): Response
             'maintenance' => $devices->where('status', 'maintenance')->count(),
         ];
 
+        $floorPlans = DeviceFloorPlan::orderBy('site')
+            ->orderBy('floor')
+            ->get()
+            ->map(fn (DeviceFloorPlan $plan) => [
+                'id'       => $plan->id,
+                'site'     => $plan->site,
+                'floor'    => $plan->floor,
+                'name'     => $plan->name,
+                'imageUrl' => $plan->imageUrl(),
+                'mimeType' => $plan->mime_type,
+                'width'    => $plan->width,
+                'height'   => $plan->height,
+            ]);
+
         return Inertia::render('HR/Timekeeping/Devices', [
             'devices' => $enriched->values(),
+            'floorPlans' => $floorPlans,
             'summary' => $summary,
             'filters' => ['status' => $statusFilter],
         ]);
@@ -6,13 +6,20 @@
 use App\Models\AttendanceEvent;
 use App\Models\DailyAttendanceSummary;
 use App\Models\Employee;
+use App\Models\ShiftAssignment;
+use App\Services\Timekeeping\ShiftPunchPairingService;
 use Carbon\Carbon;
+use Illuminate\Http\JsonResponse;
 use Illuminate\Http\Request;
 use Inertia\Inertia;
 use Inertia\Response;
 
 class EmployeeTimelineController extends Controller
 {
+    public function __construct(private ShiftPunchPairingService $pairing)
+    {
+    }
+
     public function show(Request $request, int $employeeId): Response
     {
         $date = Carbon::parse($request->get('date', today()->toDateString()));
@@ -20,10 +27,9 @@ public function show(Request $request, int $employeeId): Response
         $employee = Employee::with(['profile', 'department', 'position'])
             ->findOrFail($employeeId);
 
-        $events = AttendanceEvent::where('employee_id', $employeeId)
-            ->whereDate('event_date', $date)
-            ->orderBy('event_time', 'asc')
-            ->get()
+        $paired = $this->pairing->eventsForWorkDate($employeeId, $date);
+
+        $events = $paired['events']
             ->map(fn($e) => [
                 'id'         => $e->id,
                 'eventType'  => $e->event_type,
@@ -31,6 +37,7 @@ public function show(Request $request, int $employeeId): Response
                 'deviceId'   => $e->device_id,
                 'sourceType' => $e->source_type ?? 'rfid',
                 'isManual'   => $e->is_manual ?? false,
+                'calendarDate' => $e->event_date->toDateString(),
             ]);
 
         $summary = DailyAttendanceSummary::where('employee_id', $employeeId)
@@ -47,6 +54,7 @@ public function show(Request $request, int $employeeId): Response
                 'photo'      => $employee->profile?->profile_picture_path ?? null,
             ],
             'events'  => $events,
+            'shift'   => $paired['assignment'] ? $this->shiftData($paired['assignment']) : null,
             'summary' => $summary ? [
                 'timeIn'        => $summary->time_in,
                 'timeOut'       => $summary->time_out,
@@ -56,10 +64,176 @@ public function show(Request $request, int $employeeId): Response
                 'lateMinutes'   => $summary->late_minutes,
                 'isOvertime'    => $summary->is_overtime,
                 'overtimeHours' => $summary->overtime_hours,
+                'nightDiffMinutes' => $summary->night_diff_minutes,
                 'isOnLeave'     => $summary->is_on_leave,
             ] : null,
             'date' => $date->toDateString(),
         ]);
     }
 
+    /**
+     * API: Return an employee's attendance timeline for one day as JSON.
+     *
+     * Events come from attendance_events, the summary from daily_attendance_summary
+     * and violations are derived from the summary flags, so nothing is estimated.
+     * Events are those attributed to the date as a work date, so an overnight
+     * shift's time out after midnight is listed with the shift it ends.
+     *
+     * @param Request $request
+     * @param int $employeeId
+     * @return JsonResponse
+     */
+    public function timeline(Request $request, int $employeeId): JsonResponse
+    {
+        $validated = $request->validate([
+            'date' => 'sometimes|date',
+        ]);
+
+        $date = Carbon::parse($validated['date'] ?? today()->toDateString());
+
+        $employee = Employee::with(['profile', 'department', 'position'])->find($employeeId);
+
+        if (!$employee) {
+            return response()->json([
+                'message' => 'Employee not found',
+                'error' => 'EMPLOYEE_NOT_FOUND',
+            ], 404);
+        }
+
+        $summary = DailyAttendanceSummary::where('employee_id', $employeeId)
+            ->whereDate('attendance_date', $date)
+            ->first();
+
+        $paired = $this->pairing->eventsForWorkDate($employeeId, $date, ['createdByUser:id,name']);
+        $shift = $paired['assignment'] ? $this->shiftData($paired['assignment']) : null;
+
+        $events = $paired['events']
+            ->map(fn (AttendanceEvent $event) => [
+                'id' => $event->id,
+                'attendance_record_id' => $summary?->id,
+                'event_type' => $event->event_type,
+                'timestamp' => $event->event_time->toISOString(),
+                'source' => $event->source,
+                'device_id' => $event->device_id,
+                'device_location' => $event->location,
+                'manual_entry_reason' => $event->source === 'manual' ? $event->notes : null,
+                'created_by' => $event->created_by,
+                'created_by_name' => $event->createdByUser?->name,
+                'ledger_sequence_id' => $event->ledger_sequence_id,
+                'calendar_date' => $event->event_date->toDateString(),
+            ]);
+
+        return response()->json([
+            'success' => true,
+            'data' => [
+                'employee' => [
+                    'id' => $employee->id,
+                    'name' => $employee->full_name,
+                    'employee_number' => $employee->employee_number,
+                    'department_id' => $employee->department_id,
+                    'department_name' => $employee->department?->name,
+                    'position' => $employee->position?->title,
+                ],
+                'date' => $date->toDateString(),
+                'shift' => $shift,
+                'events' => $events,
+                'summary' => $summary ? [
+                    'id' => $summary->id,
+                    'time_in' => $summary->time_in?->toISOString(),
+                    'time_out' => $summary->time_out?->toISOString(),
+                    'break_start' => $summary->break_start?->toISOString(),
+                    'break_end' => $summary->break_end?->toISOString(),
+                    'total_hours' => (float) ($summary->total_hours_worked ?? 0),
+                    'status' => $this->summaryStatus($summary),
+                    'is_late' => (bool) $summary->is_late,
+                    'late_minutes' => (int) ($summary->late_minutes ?? 0),
+                    'night_diff_minutes' => (int) ($summary->night_diff_minutes ?? 0),
+                ] : null,
+                'violations' => $summary ? $this->summaryViolations($summary, $date, $paired['window']) : [],
+            ],
+        ]);
+    }
+
+    /**
+     * Collapse the summary flags into a single attendance status.
+     *
+     * @param DailyAttendanceSummary $summary
+     * @return string
+     */
+    private function summaryStatus(DailyAttendanceSummary $summary): string
+    {
+        return match (true) {
+            (bool) $summary->is_on_leave => 'on_leave',
+            !$summary->is_present => 'absent',
+            (bool) $summary->is_late => 'late',
+            (bool) $summary->is_undertime => 'undertime',
+            (bool) $summary->is_overtime => 'overtime',
+            default => 'present',
+        };
+    }
+
+    /**
+     * Shift a work date's punches were paired against.
+     *
+     * @param ShiftAssignment $assignment
+     * @return array
+     */
+    private function shiftData(ShiftAssignment $assignment): array
+    {
+        $window = $this->pairing->window($assignment);
+
+        return [
+            'id' => $assignment->id,
+            'shift_type' => $assignment->shift_type,
+            'start' => $window['start']->toISOString(),
+            'end' => $window['end']->toISOString(),
+            'window_opens_at' => $window['opens_at']->toISOString(),
+            'window_closes_at' => $window['closes_at']->toISOString(),
+            'crosses_midnight' => $window['crosses_midnight'],
+        ];
+    }
+
+    /**
+     * Policy violations recorded on the day's summary.
+     *
+     * A missing time-out only counts once the shift's pairing window has closed,
+     * or once the day is over when no shift is assigned.
+     *
+     * @param DailyAttendanceSummary $summary
+     * @param Carbon $date
+     * @param array|null $window Pairing window of the day's shift
+     * @return array
+     */
+    private function summaryViolations(DailyAttendanceSummary $summary, Carbon $date, ?array $window): array
+    {
+        $violations = [];
+
+        if ($summary->is_late && $summary->time_in) {
+            $violations[] = [
+                'type' => 'late_arrival',
+                'message' => "Arrived {$summary->late_minutes} minutes late",
+                'timestamp' => $summary->time_in->toISOString(),
+            ];
+        }
+
+        if ($summary->is_undertime && $summary->time_out) {
+            $violations[] = [
+                'type' => 'early_departure',
+                'message' => "Left {$summary->undertime_minutes} minutes early",
+                'timestamp' => $summary->time_out->toISOString(),
+            ];
+        }
+
+        $punchesClosed = $window ? $window['closes_at']->isPast() : $date->lt(today());
+
+        if ($summary->time_in && !$summary->time_out && $punchesClosed) {
+            $violations[] = [
+                'type' => 'missing_punch',
+                'message' => 'No time-out recorded',
+                'timestamp' => $summary->time_in->toISOString(),
+            ];
+        }
+
+        return $violations;
+    }
 }
@@ -0,0 +1,185 @@
+<?php
+
+namespace App\Http\Controllers\HR\Timekeeping;
+
+use App\Http\Controllers\Controller;
+use App\Models\DeviceFloorPlan;
+use App\Models\RfidDevice;
+use Illuminate\Http\RedirectResponse;
+use Illuminate\Http\Request;
+use Illuminate\Http\UploadedFile;
+use Illuminate\Support\Facades\Log;
+use Illuminate\Support\Facades\Storage;
+use Illuminate\Support\Str;
+use Symfony\Component\HttpFoundation\StreamedResponse;
+
+/**
+ * Floor plans for the device map.
+ *
+ * Each site/floor has one uploaded drawing (PNG, JPEG, WebP or SVG). Device
+ * markers are stored on rfid_devices as percentages of the drawing, so
+ * re-uploading a drawing at a different resolution keeps them in place.
+ *
+ * Drawings are kept on the private disk and only served through image(), as
+ * an SVG can carry script that would run if it were opened from our origin.
+ */
+class FloorPlanController extends Controller
+{
+    /**
+     * Upload a floor plan, replacing the drawing if the site/floor already has one.
+     *
+     * @param Request $request
+     * @return RedirectResponse
+     */
+    public function store(Request $request): RedirectResponse
+    {
+        $validated = $request->validate([
+            'site' => 'required|string|max:100',
+            'floor' => 'required|string|max:50',
+            'name' => 'nullable|string|max:255',
+            'image' => 'required|file|mimes:png,jpg,jpeg,webp,svg|max:10240', // 10MB max
+        ]);
+
+        $file = $request->file('image');
+        $path = $file->storeAs(
+            'floor-plans',
+            Str::slug("{$validated['site']}-{$validated['floor']}") . '-' . time() . '.' . strtolower($file->getClientOriginalExtension()),
+            'local'
+        );
+        [$width, $height] = $this->drawingSize($file);
+
+        try {
+            $floorPlan = DeviceFloorPlan::firstOrNew([
+                'site' => trim($validated['site']),
+                'floor' => trim($validated['floor']),
+            ]);
+            $previousPath = $floorPlan->exists ? $floorPlan->image_path : null;
+
+            $floorPlan->fill([
+                'name' => $validated['name'] ?? $floorPlan->name,
+                'image_path' => $path,
+                'mime_type' => $file->getMimeType() ?? $file->getClientMimeType(),
+                'width' => $width,
+                'height' => $height,
+                'uploaded_by' => $request->user()?->id,
+            ])->save();
+
+            if ($previousPath && $previousPath !== $path) {
+                Storage::disk('local')->delete($previousPath);
+            }
+
+            activity('timekeeping')
+                ->causedBy($request->user())
+                ->performedOn($floorPlan)
+                ->withProperties(['site' => $floorPlan->site, 'floor' => $floorPlan->floor, 'path' => $path])
+                ->log($previousPath ? 'Replaced device floor plan' : 'Uploaded device floor plan');
+
+            return back()->with('success', "Floor plan for {$floorPlan->site} / {$floorPlan->floor} saved.");
+        } catch (\Throwable $e) {
+            Storage::disk('local')->delete($path);
+            Log::error('Floor plan upload failed', [
+                'site' => $validated['site'],
+                'floor' => $validated['floor'],
+                'error' => $e->getMessage(),
+            ]);
+
+            return back()->withErrors(['image' => 'Failed to save floor plan: ' . $e->getMessage()]);
+        }
+    }
+
+    /**
+     * Serve a drawing. Opened directly it is downloaded, never rendered, and
+     * the CSP sandbox keeps an SVG from running script either way.
+     *
+     * @param DeviceFloorPlan $floorPlan
+     * @return StreamedResponse
+     */
+    public function image(DeviceFloorPlan $floorPlan): StreamedResponse
+    {
+        return Storage::disk('local')->response($floorPlan->image_path, basename($floorPlan->image_path), [
+            'Content-Type' => $floorPlan->mime_type,
+            'Content-Security-Policy' => "default-src 'none'; style-src 'unsafe-inline'; sandbox",
+            'X-Content-Type-Options' => 'nosniff',
+        ], 'attachment');
+    }
+
+    /**
+     * Delete a floor plan. Devices on it become unplaced.
+     *
+     * @param Request $request
+     * @param DeviceFloorPlan $floorPlan
+     * @return RedirectResponse
+     */
+    public function destroy(Request $request, DeviceFloorPlan $floorPlan): RedirectResponse
+    {
+        RfidDevice::where('floor_plan_id', $floorPlan->id)
+            ->update(['floor_plan_id' => null, 'map_x' => null, 'map_y' => null]);
+
+        Storage::disk('local')->delete($floorPlan->image_path);
+        $floorPlan->delete();
+
+        activity('timekeeping')
+            ->causedBy($request->user())
+            ->withProperties(['site' => $floorPlan->site, 'floor' => $floorPlan->floor])
+            ->log('Deleted device floor plan');
+
+        return back()->with('success', "Floor plan for {$floorPlan->site} / {$floorPlan->floor} deleted.");
+    }
+
+    /**
+     * Place a device on a floor plan, move it, or remove it from the map
+     * (floor_plan_id null).
+     *
+     * @param Request $request
+     * @param string $deviceId Device identifier (e.g., GATE-01)
+     * @return RedirectResponse
+     */
+    public function updateDevicePosition(Request $request, string $deviceId): RedirectResponse
+    {
+        $device = RfidDevice::where('device_id', $deviceId)->firstOrFail();
+
+        $validated = $request->validate([
+            'floor_plan_id' => 'nullable|integer|exists:device_floor_plans,id',
+            'map_x' => 'required_with:floor_plan_id|nullable|numeric|between:0,100',
+            'map_y' => 'required_with:floor_plan_id|nullable|numeric|between:0,100',
+        ]);
+
+        $placed = !empty($validated['floor_plan_id']);
+
+        $device->update([
+            'floor_plan_id' => $placed ? $validated['floor_plan_id'] : null,
+            'map_x' => $placed ? round((float) $validated['map_x'], 2) : null,
+            'map_y' => $placed ? round((float) $validated['map_y'], 2) : null,
+        ]);
+
+        return back();
+    }
+
+    /**
+     * Intrinsic size of the drawing: pixel size for raster images, the
+     * viewBox (or width/height attributes) for SVGs.
+     *
+     * @param UploadedFile $file
+     * @return array{0: int|null, 1: int|null}
+     */
+    private function drawingSize(UploadedFile $file): array
+    {
+        if (!str_contains((string) $file->getMimeType(), 'svg')) {
+            $size = @getimagesize($file->getRealPath());
+            return $size ? [$size[0], $size[1]] : [null, null];
+        }
+
+        $svg = (string) file_get_contents($file->getRealPath(), false, null, 0, 8192);
+
+        if (preg_match('/viewBox\s*=\s*["\']\s*[-\d.]+[\s,]+[-\d.]+[\s,]+([\d.]+)[\s,]+([\d.]+)/i', $svg, $m)) {
+            return [(int) round((float) $m[1]), (int) round((float) $m[2])];
+        }
+
+        if (preg_match('/<svg[^>]*\swidth\s*=\s*["\']([\d.]+)/i', $svg, $w)
+            && preg_match('/<svg[^>]*\sheight\s*=\s*["\']([\d.]+)/i', $svg, $h)) {
+            return [(int) round((float) $w[1]), (int) round((float) $h[1])];
+        }
+
+        return [null, null];
+    }
+}
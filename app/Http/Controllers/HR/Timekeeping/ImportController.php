@@ -6,14 +6,33 @@
 use App\Models\AttendanceEvent;
 use App\Models\Employee;
 use App\Models\ImportBatch;
+use App\Models\ImportMappingProfile;
+use App\Models\RfidDevice;
+use App\Services\Timekeeping\AttendanceImportParser;
 use Carbon\Carbon;
 use Illuminate\Http\JsonResponse;
 use Illuminate\Http\Request;
+use Illuminate\Support\Facades\DB;
+use Illuminate\Validation\ValidationException;
 use Inertia\Inertia;
 use Inertia\Response;
 
 class ImportController extends Controller
 {
+    /**
+     * Parsed rows returned by a mapping preview.
+     */
+    private const PREVIEW_ROWS = 50;
+
+    /**
+     * Row errors returned by a preview or kept in a batch's error log.
+     */
+    private const MAX_ERRORS = 100;
+
+    public function __construct(
+        private AttendanceImportParser $parser,
+    ) {}
+
     public function index(Request $request): Response
     {
         $query = ImportBatch::with('importedByUser:id,name')
@@ -36,6 +55,12 @@ public function index(Request $request): Response
         return Inertia::render('HR/Timekeeping/Import/Index', [
             'batches' => $batches,
             'summary' => $summary,
+            'profiles' => ImportMappingProfile::with('updater:id,name')
+                ->orderBy('source')
+                ->get()
+                ->map(fn (ImportMappingProfile $profile) => $this->profileRow($profile)),
+            'devices' => RfidDevice::orderBy('device_id')->get(['device_id', 'location'])
+                ->map(fn (RfidDevice $device) => ['id' => $device->device_id, 'location' => $device->location]),
             'filters' => $request->only(['status', 'date_from', 'date_to']),
         ]);
     }
@@ -43,7 +68,7 @@ public function index(Request $request): Response
     public function upload(Request $request): JsonResponse
     {
         $validated = $request->validate([
-            'file'        => 'required|file|mimes:csv,xlsx,xls|max:10240',
+            'file'        => 'required|file|extensions:csv,txt,dat,xlsx,xls|max:10240',
             'import_type' => 'required|in:attendance,schedule,correction',
         ]);
 
@@ -73,7 +98,15 @@ public function upload(Request $request): JsonResponse
         ]);
     }
 
-    public function process(int $id): JsonResponse
+    /**
+     * Process an uploaded batch, through a column mapping when one is given
+     * and the fixed CSV layout otherwise.
+     *
+     * @param Request $request
+     * @param int $id
+     * @return JsonResponse
+     */
+    public function process(Request $request, int $id): JsonResponse
     {
         $batch = ImportBatch::findOrFail($id);
 
@@ -81,12 +114,24 @@ public function process(int $id): JsonResponse
             return response()->json(['success' => false, 'message' => 'Batch already processed'], 422);
         }
 
+        $mapping = null;
+        if ($request->has('mapping')) {
+            $mapping = $this->validatedMapping($request);
+            $profile = $request->filled('mapping_profile_id')
+                ? ImportMappingProfile::findOrFail($request->integer('mapping_profile_id'))
+                : null;
+
+            $batch->update(['mapping' => $mapping, 'mapping_profile_id' => $profile?->id]);
+            $profile?->update(['last_used_at' => now()]);
+        }
+
         $batch->update(['status' => 'processing', 'started_at' => now()]);
 
         try {
-            $result = match ($batch->import_type) {
-                'attendance' => $this->processAttendanceFile($batch),
-                default      => throw new \InvalidArgumentException("Import type '{$batch->import_type}' not yet supported"),
+            $result = match (true) {
+                $batch->import_type !== 'attendance' => throw new \InvalidArgumentException("Import type '{$batch->import_type}' not yet supported"),
+                $mapping !== null => $this->processMappedFile($batch, $mapping),
+                default => $this->processAttendanceFile($batch),
             };
 
             $batch->update([
@@ -112,6 +157,138 @@ public function process(int $id): JsonResponse
         }
     }
 
+    /**
+     * Detect the layout of an uploaded file and suggest a column mapping.
+     *
+     * Query options (format, delimiter, has_header, skip_lines) override the
+     * detected ones when the user corrects them.
+     *
+     * @param Request $request
+     * @param int $id
+     * @return JsonResponse
+     */
+    public function detect(Request $request, int $id): JsonResponse
+    {
+        $options = $request->validate([
+            'format'     => 'nullable|in:' . implode(',', AttendanceImportParser::FORMATS),
+            'delimiter'  => 'nullable|string|max:2',
+            'has_header' => 'nullable|boolean',
+            'skip_lines' => 'nullable|integer|min:0|max:100',
+        ]);
+
+        $batch = ImportBatch::findOrFail($id);
+
+        try {
+            $detected = $this->parser->detect(
+                storage_path("app/{$batch->file_path}"),
+                $batch->file_name,
+                array_filter($options, fn ($value) => $value !== null)
+            );
+        } catch (\InvalidArgumentException $e) {
+            return response()->json(['message' => $e->getMessage(), 'error' => 'IMPORT_FORMAT_UNSUPPORTED'], 422);
+        }
+
+        $detected['mapping'] = $this->mappingForResponse($detected['mapping']);
+
+        return response()->json(['success' => true, 'data' => $detected]);
+    }
+
+    /**
+     * Parse an uploaded file through a mapping without importing it.
+     *
+     * @param Request $request
+     * @param int $id
+     * @return JsonResponse
+     */
+    public function preview(Request $request, int $id): JsonResponse
+    {
+        $mapping = $this->validatedMapping($request);
+        $batch = ImportBatch::findOrFail($id);
+
+        $rows = [];
+        $errors = [];
+        $validCount = 0;
+        $errorCounts = [];
+
+        $total = $this->parser->parse(
+            storage_path("app/{$batch->file_path}"),
+            $mapping,
+            function (array $chunkRows, array $chunkErrors) use (&$rows, &$errors, &$validCount, &$errorCounts) {
+                $validCount += count($chunkRows);
+                $rows = array_merge($rows, array_slice($chunkRows, 0, self::PREVIEW_ROWS - count($rows)));
+                $errors = array_merge($errors, array_slice($chunkErrors, 0, self::MAX_ERRORS - count($errors)));
+                foreach ($chunkErrors as $error) {
+                    $errorCounts[$error['error_type']] = ($errorCounts[$error['error_type']] ?? 0) + 1;
+                }
+            }
+        );
+
+        return response()->json([
+            'success' => true,
+            'data'    => [
+                'rows'   => array_map(fn (array $row) => [
+                    ...$row,
+                    'event_time' => $row['event_time']->toISOString(),
+                ], $rows),
+                'errors' => $this->errorRows($batch, $errors),
+            ],
+            'meta'    => [
+                'total_rows'   => $total,
+                'valid_rows'   => $validCount,
+                'error_counts' => $errorCounts,
+            ],
+        ]);
+    }
+
+    /**
+     * Import the rows of a file through a mapping. Rows already recorded are
+     * skipped; other row errors are logged on the batch.
+     *
+     * @param ImportBatch $batch
+     * @param array $mapping
+     * @return array
+     */
+    private function processMappedFile(ImportBatch $batch, array $mapping): array
+    {
+        $success = $failed = $skipped = 0;
+        $errors = [];
+
+        $total = $this->parser->parse(
+            storage_path("app/{$batch->file_path}"),
+            $mapping,
+            function (array $rows, array $rowErrors) use ($batch, &$success, &$failed, &$skipped, &$errors) {
+                DB::transaction(function () use ($batch, $rows) {
+                    foreach ($rows as $row) {
+                        AttendanceEvent::create([
+                            'employee_id'       => $row['employee_id'],
+                            'event_date'        => $row['event_time']->toDateString(),
+                            'event_time'        => $row['event_time'],
+                            'event_type'        => $row['event_type'],
+                            'device_id'         => $row['device_id'],
+                            'source'            => 'imported',
+                            'imported_batch_id' => $batch->id,
+                            'created_by'        => $batch->imported_by,
+                        ]);
+                    }
+                });
+                $success += count($rows);
+
+                foreach ($rowErrors as $error) {
+                    if ($error['error_type'] === 'duplicate_entry') {
+                        $skipped++;
+                        continue;
+                    }
+                    $failed++;
+                    if (count($errors) < self::MAX_ERRORS) {
+                        $errors[] = $error;
+                    }
+                }
+            }
+        );
+
+        return compact('total', 'success', 'failed', 'skipped', 'errors');
+    }
+
     private function processAttendanceFile(ImportBatch $batch): array
     {
         $path = storage_path("app/{$batch->file_path}");
@@ -213,14 +390,175 @@ public function errors(int $id): JsonResponse
 
         $errors = $batch->error_log ? json_decode($batch->error_log, true) : [];
 
+        // The fixed CSV layout logs {row, error} pairs
+        $errors = array_map(fn (array $error) => isset($error['error_type']) ? $error : [
+            'row_number'          => $error['row'] ?? 0,
+            'employee_identifier' => null,
+            'error_type'          => 'validation_error',
+            'error_message'       => $error['error'] ?? '',
+            'raw_data'            => [],
+            'suggested_fix'       => null,
+        ], $errors ?? []);
+
         return response()->json([
             'success' => true,
             'data'    => [
                 'batch_id'     => $id,
-                'errors'       => $errors ?? [],
-                'total_errors' => count($errors ?? []),
+                'errors'       => $this->errorRows($batch, $errors),
+                'total_errors' => count($errors),
             ],
         ]);
     }
+
+    /**
+     * Create or replace the mapping profile of a source.
+     *
+     * @param Request $request
+     * @return JsonResponse
+     */
+    public function storeProfile(Request $request): JsonResponse
+    {
+        $validated = $request->validate([
+            'source'      => 'required|string|max:100',
+            'description' => 'nullable|string|max:255',
+        ]);
+        $mapping = $this->validatedMapping($request);
+
+        $profile = ImportMappingProfile::firstOrNew(['source' => $validated['source']]);
+        $profile->fill([
+            'format'      => $mapping['format'],
+            'mapping'     => $mapping,
+            'description' => $validated['description'] ?? null,
+            'updated_by'  => $request->user()?->id,
+        ]);
+        $profile->created_by ??= $request->user()?->id;
+        $profile->save();
+
+        activity('timekeeping')
+            ->causedBy($request->user())
+            ->performedOn($profile)
+            ->withProperties(['source' => $profile->source, 'format' => $profile->format])
+            ->log($profile->wasRecentlyCreated ? 'Created import mapping profile' : 'Updated import mapping profile');
+
+        return response()->json(['success' => true, 'data' => $this->profileRow($profile->load('updater:id,name'))]);
+    }
+
+    /**
+     * Delete a mapping profile. Batches keep their own copy of the mapping.
+     *
+     * @param Request $request
+     * @param int $profileId
+     * @return JsonResponse
+     */
+    public function destroyProfile(Request $request, int $profileId): JsonResponse
+    {
+        $profile = ImportMappingProfile::findOrFail($profileId);
+        $profile->delete();
+
+        activity('timekeeping')
+            ->causedBy($request->user())
+            ->withProperties(['source' => $profile->source])
+            ->log('Deleted import mapping profile');
+
+        return response()->json(['success' => true]);
+    }
+
+    /**
+     * Validate the mapping in a request.
+     *
+     * @param Request $request
+     * @return array
+     * @throws ValidationException
+     */
+    private function validatedMapping(Request $request): array
+    {
+        $eventTypes = implode(',', AttendanceImportParser::EVENT_TYPES);
+
+        $validated = $request->validate([
+            'mapping'                   => 'required|array',
+            'mapping.format'            => 'required|in:' . implode(',', AttendanceImportParser::FORMATS),
+            'mapping.delimiter'         => 'required_if:mapping.format,delimited|nullable|string|max:2',
+            'mapping.has_header'        => 'boolean',
+            'mapping.skip_lines'        => 'nullable|integer|min:0|max:100',
+            'mapping.columns'           => 'required|array',
+            'mapping.columns.employee_number' => 'required|array',
+            'mapping.columns.event_type' => 'required|array',
+            'mapping.columns.*'         => 'nullable|array',
+            'mapping.columns.*.index'   => 'nullable|integer|min:0|max:200',
+            'mapping.columns.*.start'   => 'nullable|integer|min:0|max:1000',
+            'mapping.columns.*.length'  => 'nullable|integer|min:1|max:200',
+            'mapping.timestamp_format'  => 'nullable|string|max:50',
+            'mapping.event_codes'       => 'required|array|min:1',
+            'mapping.event_codes.*'     => "in:{$eventTypes}",
+            'mapping.device_codes'      => 'nullable|array',
+            'mapping.device_codes.*'    => 'string|exists:rfid_devices,device_id',
+            'mapping.default_device_id' => 'nullable|string|exists:rfid_devices,device_id',
+        ], [
+            'mapping.event_codes.required' => 'Map at least one event code to an event type.',
+        ]);
+
+        $mapping = $validated['mapping'];
+        $mapping['columns'] = array_intersect_key(
+            array_merge(array_fill_keys(AttendanceImportParser::FIELDS, null), $mapping['columns']),
+            array_flip(AttendanceImportParser::FIELDS)
+        );
+        $mapping['device_codes'] = $mapping['device_codes'] ?? [];
+
+        $errors = $this->parser->mappingErrors($mapping);
+        if ($errors !== []) {
+            throw ValidationException::withMessages($errors);
+        }
+
+        return $mapping;
+    }
+
+    /**
+     * Shape row errors as ImportError records.
+     *
+     * @param ImportBatch $batch
+     * @param array $errors
+     * @return array
+     */
+    private function errorRows(ImportBatch $batch, array $errors): array
+    {
+        return array_map(fn (array $error, int $index) => [
+            'id'              => $index + 1,
+            'import_batch_id' => $batch->id,
+            ...$error,
+            'created_at'      => ($batch->completed_at ?? now())->toISOString(),
+        ], $errors, array_keys($errors));
+    }
+
+    /**
+     * Keep code maps JSON objects; codes 0..n would otherwise encode as a list.
+     *
+     * @param array $mapping
+     * @return array
+     */
+    private function mappingForResponse(array $mapping): array
+    {
+        $mapping['event_codes'] = (object) ($mapping['event_codes'] ?? []);
+        $mapping['device_codes'] = (object) ($mapping['device_codes'] ?? []);
+
+        return $mapping;
+    }
+
+    /**
+     * @param ImportMappingProfile $profile
+     * @return array
+     */
+    private function profileRow(ImportMappingProfile $profile): array
+    {
+        return [
+            'id'           => $profile->id,
+            'source'       => $profile->source,
+            'format'       => $profile->format,
+            'mapping'      => $this->mappingForResponse($profile->mapping),
+            'description'  => $profile->description,
+            'updated_by'   => $profile->updater?->name,
+            'updated_at'   => $profile->updated_at?->toISOString(),
+            'last_used_at' => $profile->last_used_at?->toISOString(),
+        ];
+    }
 }
 
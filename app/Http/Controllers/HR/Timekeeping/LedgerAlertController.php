@@ -0,0 +1,275 @@
+<?php
+
+namespace App\Http\Controllers\HR\Timekeeping;
+
+use App\Http\Controllers\Controller;
+use App\Models\LedgerAlert;
+use App\Models\LedgerAlertRule;
+use App\Models\RfidDevice;
+use App\Models\User;
+use App\Services\Timekeeping\LedgerAlertService;
+use Illuminate\Http\RedirectResponse;
+use Illuminate\Http\Request;
+use Illuminate\Validation\Rule;
+use Inertia\Inertia;
+use Inertia\Response;
+
+/**
+ * Ledger health alert rules, their routing, and the alert history with
+ * acknowledge and snooze.
+ */
+class LedgerAlertController extends Controller
+{
+    public function __construct(
+        private LedgerAlertService $alerts
+    ) {}
+
+    /**
+     * Alert history (active first by default), the rules and the recipient options.
+     *
+     * @param Request $request
+     * @return Response
+     */
+    public function index(Request $request): Response
+    {
+        $status = $request->input('status', 'active');
+
+        $query = LedgerAlert::with(['acknowledger:id,name', 'snoozer:id,name'])
+            ->orderByDesc('triggered_at');
+
+        if ($status === 'active') {
+            $query->active();
+        } elseif ($status !== 'all') {
+            $query->where('status', $status);
+        }
+        if ($request->filled('metric')) {
+            $query->where('metric', $request->input('metric'));
+        }
+
+        $alerts = $query->paginate(25)->withQueryString()->through(fn (LedgerAlert $alert) => [
+            'id' => $alert->id,
+            'rule_id' => $alert->ledger_alert_rule_id,
+            'rule_name' => $alert->rule_name,
+            'metric' => $alert->metric,
+            'subject' => $alert->subject,
+            'severity' => $alert->severity,
+            'status' => $alert->status,
+            'message' => $alert->message,
+            'value' => $alert->value,
+            'triggered_at' => $alert->triggered_at->toISOString(),
+            'last_seen_at' => $alert->last_seen_at->toISOString(),
+            'notification_count' => $alert->notification_count,
+            'acknowledged_by' => $alert->acknowledger?->name,
+            'acknowledged_at' => $alert->acknowledged_at?->toISOString(),
+            'snoozed_by' => $alert->snoozer?->name,
+            'snoozed_until' => $alert->snoozed_until?->toISOString(),
+            'resolved_at' => $alert->resolved_at?->toISOString(),
+        ]);
+
+        return Inertia::render('HR/Timekeeping/LedgerAlerts', [
+            'alerts' => $alerts,
+            'activeCount' => LedgerAlert::active()->count(),
+            'rules' => LedgerAlertRule::with('updater:id,name')
+                ->orderBy('name')
+                ->get()
+                ->map(fn (LedgerAlertRule $rule) => [
+                    'id' => $rule->id,
+                    'name' => $rule->name,
+                    'metric' => $rule->metric,
+                    'threshold' => $rule->threshold,
+                    'device_id' => $rule->device_id,
+                    'severity' => $rule->severity,
+                    'notify_in_app' => $rule->notify_in_app,
+                    'notify_email' => $rule->notify_email,
+                    'recipient_user_ids' => $rule->recipient_user_ids ?? [],
+                    'email_addresses' => $rule->email_addresses ?? [],
+                    'is_enabled' => $rule->is_enabled,
+                    'updated_by' => $rule->updater?->name,
+                    'updated_at' => $rule->updated_at?->toISOString(),
+                ]),
+            'recipients' => User::permission('hr.timekeeping.attendance.view')
+                ->orderBy('name')
+                ->get(['id', 'name', 'email']),
+            'devices' => RfidDevice::orderBy('device_id')->get(['device_id', 'device_name', 'location'])
+                ->map(fn (RfidDevice $device) => [
+                    'id' => $device->device_id,
+                    'name' => $device->device_name,
+                    'location' => $device->location,
+                ]),
+            'snoozeOptions' => LedgerAlertService::SNOOZE_OPTIONS,
+            'filters' => [
+                'status' => $status,
+                'metric' => $request->input('metric'),
+            ],
+        ]);
+    }
+
+    /**
+     * Create an alert rule.
+     *
+     * @param Request $request
+     * @return RedirectResponse
+     */
+    public function storeRule(Request $request): RedirectResponse
+    {
+        $rule = LedgerAlertRule::create($this->validateRule($request) + [
+            'created_by' => $request->user()?->id,
+            'updated_by' => $request->user()?->id,
+        ]);
+
+        activity('timekeeping')
+            ->causedBy($request->user())
+            ->performedOn($rule)
+            ->withProperties($this->ruleProperties($rule))
+            ->log('Created ledger alert rule');
+
+        return back()->with('success', "Alert rule \"{$rule->name}\" created.");
+    }
+
+    /**
+     * Update an alert rule. Its active alerts pick up the change at the next evaluation.
+     *
+     * @param Request $request
+     * @param int $ruleId
+     * @return RedirectResponse
+     */
+    public function updateRule(Request $request, int $ruleId): RedirectResponse
+    {
+        $rule = LedgerAlertRule::findOrFail($ruleId);
+        $old = $this->ruleProperties($rule);
+
+        $rule->update($this->validateRule($request) + ['updated_by' => $request->user()?->id]);
+
+        activity('timekeeping')
+            ->causedBy($request->user())
+            ->performedOn($rule)
+            ->withProperties(['old' => $old, 'new' => $this->ruleProperties($rule)])
+            ->log('Updated ledger alert rule');
+
+        return back()->with('success', "Alert rule \"{$rule->name}\" saved.");
+    }
+
+    /**
+     * Delete an alert rule; its alerts stay in the history and resolve at the next evaluation.
+     *
+     * @param Request $request
+     * @param int $ruleId
+     * @return RedirectResponse
+     */
+    public function destroyRule(Request $request, int $ruleId): RedirectResponse
+    {
+        $rule = LedgerAlertRule::findOrFail($ruleId);
+        $rule->delete();
+
+        activity('timekeeping')
+            ->causedBy($request->user())
+            ->withProperties($this->ruleProperties($rule))
+            ->log('Deleted ledger alert rule');
+
+        return back()->with('success', "Alert rule \"{$rule->name}\" deleted.");
+    }
+
+    /**
+     * Acknowledge an active alert.
+     *
+     * @param Request $request
+     * @param int $alertId
+     * @return RedirectResponse
+     */
+    public function acknowledge(Request $request, int $alertId): RedirectResponse
+    {
+        $alert = LedgerAlert::findOrFail($alertId);
+
+        try {
+            $this->alerts->acknowledge($alert, $request->user());
+        } catch (\InvalidArgumentException $e) {
+            return back()->with('error', $e->getMessage());
+        }
+
+        activity('timekeeping')
+            ->causedBy($request->user())
+            ->performedOn($alert)
+            ->withProperties(['rule' => $alert->rule_name, 'subject' => $alert->subject, 'message' => $alert->message])
+            ->log('Acknowledged ledger alert');
+
+        return back()->with('success', 'Alert acknowledged. It will not notify again while it stays active.');
+    }
+
+    /**
+     * Snooze an active alert.
+     *
+     * @param Request $request
+     * @param int $alertId
+     * @return RedirectResponse
+     */
+    public function snooze(Request $request, int $alertId): RedirectResponse
+    {
+        $validated = $request->validate([
+            'minutes' => ['required', 'integer', Rule::in(LedgerAlertService::SNOOZE_OPTIONS)],
+        ]);
+
+        $alert = LedgerAlert::findOrFail($alertId);
+
+        try {
+            $this->alerts->snooze($alert, (int) $validated['minutes'], $request->user());
+        } catch (\InvalidArgumentException $e) {
+            return back()->with('error', $e->getMessage());
+        }
+
+        activity('timekeeping')
+            ->causedBy($request->user())
+            ->performedOn($alert)
+            ->withProperties([
+                'rule' => $alert->rule_name,
+                'subject' => $alert->subject,
+                'snoozed_until' => $alert->snoozed_until->toISOString(),
+            ])
+            ->log('Snoozed ledger alert');
+
+        return back()->with('success', 'Alert snoozed until ' . $alert->snoozed_until->format('M j, g:i A') . '.');
+    }
+
+    /**
+     * @param Request $request
+     * @return array
+     */
+    private function validateRule(Request $request): array
+    {
+        $validated = $request->validate([
+            'name' => 'required|string|max:100',
+            'metric' => ['required', Rule::in(LedgerAlertRule::METRICS)],
+            'threshold' => 'required|integer|min:0|max:1000000',
+            'device_id' => 'nullable|string|exists:rfid_devices,device_id',
+            'severity' => ['required', Rule::in(LedgerAlertRule::SEVERITIES)],
+            'notify_in_app' => 'required|boolean',
+            'notify_email' => 'required|boolean',
+            'recipient_user_ids' => 'array',
+            'recipient_user_ids.*' => 'integer|exists:users,id',
+            'email_addresses' => 'array|max:10',
+            'email_addresses.*' => 'email|max:255',
+            'is_enabled' => 'required|boolean',
+        ]);
+
+        // Only the device metrics can be limited to one device
+        if (!in_array($validated['metric'], LedgerAlertRule::DEVICE_METRICS, true)) {
+            $validated['device_id'] = null;
+        }
+
+        $validated['recipient_user_ids'] = array_values(array_unique(array_map('intval', $validated['recipient_user_ids'] ?? [])));
+        $validated['email_addresses'] = array_values(array_unique($validated['email_addresses'] ?? []));
+
+        return $validated;
+    }
+
+    /**
+     * @param LedgerAlertRule $rule
+     * @return array
+     */
+    private function ruleProperties(LedgerAlertRule $rule): array
+    {
+        return $rule->only([
+            'name', 'metric', 'threshold', 'device_id', 'severity',
+            'notify_in_app', 'notify_email', 'recipient_user_ids', 'email_addresses', 'is_enabled',
+        ]);
+    }
+}
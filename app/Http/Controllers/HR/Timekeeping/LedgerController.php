@@ -8,15 +8,32 @@
 use Inertia\Inertia;
 use Inertia\Response;
 use App\Models\RfidLedger;
+use App\Models\AttendanceAnomaly;
 use App\Models\AttendanceEvent;
+use App\Models\Department;
 use App\Models\Employee;
+use App\Models\LedgerAlert;
+use App\Models\LedgerAnnotation;
 use App\Models\LedgerHealthLog;
 use App\Models\RfidDevice;
+use App\Models\RfidTapReceipt;
 use Carbon\Carbon;
+use Illuminate\Support\Arr;
 use Illuminate\Support\Facades\Cache;
+use Symfony\Component\HttpFoundation\StreamedResponse;
 
 class LedgerController extends Controller
 {
+    /**
+     * Live stream tuning: connection lifetime before the client reconnects,
+     * client retry delay, max events per poll, and health/heartbeat cadence.
+     */
+    private const STREAM_LIFETIME_SECONDS = 55;
+    private const STREAM_RETRY_MS = 3000;
+    private const STREAM_BATCH_SIZE = 200;
+    private const STREAM_HEALTH_INTERVAL_SECONDS = 5;
+    private const STREAM_HEARTBEAT_SECONDS = 15;
+
     /**
      * Display the RFID ledger page with event stream.
      * 
@@ -59,19 +76,34 @@ public function index(Request $request): Response
         
         if ($request->filled('employee_search')) {
             $search = $request->employee_search;
-            $query->whereHas('rfidCardMapping.employee.profile', function ($q) use ($search) {
-                $q->where('first_name', 'like', "%{$search}%")
-                  ->orWhere('last_name', 'like', "%{$search}%");
-            })->orWhereHas('rfidCardMapping.employee', function ($q) use ($search) {
-                $q->where('employee_number', 'like', "%{$search}%");
+            // Grouped so the OR cannot skip the other filters
+            $query->where(function ($q) use ($search) {
+                $q->whereHas('rfidCardMapping.employee.profile', function ($q) use ($search) {
+                    $q->where('first_name', 'like', "%{$search}%")
+                      ->orWhere('last_name', 'like', "%{$search}%");
+                })->orWhereHas('rfidCardMapping.employee', function ($q) use ($search) {
+                    $q->where('employee_number', 'like', "%{$search}%");
+                });
             });
         }
         
         // Paginate
         $logs = $query->paginate($perPage);
         
+        // Anomaly flags for the page, on both taps of a pair (dismissed ones are hidden)
+        $sequenceIds = $logs->getCollection()->pluck('sequence_id');
+        $anomalyFlags = collect();
+        AttendanceAnomaly::active()
+            ->where(fn ($q) => $q->whereIn('ledger_sequence_id', $sequenceIds)->orWhereIn('related_ledger_sequence_id', $sequenceIds))
+            ->get()
+            ->each(function (AttendanceAnomaly $anomaly) use ($anomalyFlags) {
+                foreach (array_filter([$anomaly->ledger_sequence_id, $anomaly->related_ledger_sequence_id]) as $sequenceId) {
+                    $anomalyFlags->put($sequenceId, [...$anomalyFlags->get($sequenceId, []), $anomaly->toFlag()]);
+                }
+            });
+
         // Transform for frontend
-        $transformedLogs = $logs->getCollection()->map(function ($log) {
+        $transformedLogs = $logs->getCollection()->map(function ($log) use ($anomalyFlags) {
             $employee = $log->rfidCardMapping ? $log->rfidCardMapping->employee : null;
             return [
                 'id' => $log->id,
@@ -86,8 +118,11 @@ public function index(Request $request): Response
                 'verified' => $log->processed,
                 'rfid_card' => '****-' . substr($log->employee_rfid, -4),
                 'hash_chain' => $log->hash_chain,
+                'hash_previous' => $log->hash_previous,
+                'device_signature' => $log->device_signature,
                 'latency_ms' => null,
                 'source' => 'edge_machine',
+                'anomalies' => $anomalyFlags->get($log->sequence_id, []),
             ];
         });
         
@@ -104,7 +139,13 @@ public function index(Request $request): Response
                 'prev_page_url' => $logs->previousPageUrl(),
             ],
             'ledgerHealth' => $this->getLedgerHealth(),
+            'ledgerAlerts' => LedgerAlert::active()
+                ->orderByRaw("CASE severity WHEN 'critical' THEN 0 WHEN 'warning' THEN 1 ELSE 2 END")
+                ->orderByDesc('triggered_at')
+                ->limit(10)
+                ->get(['id', 'rule_name', 'severity', 'status', 'message', 'triggered_at', 'snoozed_until']),
             'devices' => $this->getDeviceStatus(),
+            'departments' => Department::orderBy('name')->get(['id', 'name']),
             'filters' => [
                 'date_from' => $request->get('date_from'),
                 'date_to' => $request->get('date_to'),
@@ -158,8 +199,26 @@ public function show(int $sequenceId): Response
             'verified' => $ledgerEntry->processed,
             'rfid_card' => '****-' . substr($ledgerEntry->employee_rfid, -4),
             'hash_chain' => $ledgerEntry->hash_chain,
+            'hash_previous' => $ledgerEntry->hash_previous,
+            'device_signature' => $ledgerEntry->device_signature,
             'latency_ms' => $ledgerEntry->latency_ms ?? null,
+            'processed_at' => $ledgerEntry->processed_at?->toISOString(),
             'source' => 'edge_machine',
+            // scan_timestamp is the device clock; the receipt shows when the server got the tap
+            'received_at' => RfidTapReceipt::where('sequence_id', $ledgerEntry->sequence_id)->first()?->received_at?->toISOString(),
+            'clock_corrections' => LedgerAnnotation::clockCorrections()
+                ->covering($ledgerEntry->device_id, $ledgerEntry->scan_timestamp)
+                ->with('creator:id,name')
+                ->orderBy('id')
+                ->get()
+                ->map(fn (LedgerAnnotation $annotation) => [
+                    'id' => $annotation->id,
+                    'offset_seconds' => $annotation->offset_seconds,
+                    'reason' => $annotation->reason,
+                    'created_by' => $annotation->creator?->name,
+                    'created_at' => $annotation->created_at?->toISOString(),
+                ])
+                ->all(),
         ];
         
         // Get linked attendance event (real query, not mock)
@@ -217,13 +276,22 @@ public function events(Request $request): JsonResponse
             $query->where('employee_rfid', $request->employee_rfid);
         }
         
+        if ($request->filled('employee_id')) {
+            $query->whereHas('rfidCardMapping', function ($q) use ($request) {
+                $q->where('employee_id', $request->integer('employee_id'));
+            });
+        }
+        
         if ($request->filled('employee_search')) {
             $search = $request->employee_search;
-            $query->whereHas('rfidCardMapping.employee.profile', function ($q) use ($search) {
-                $q->where('first_name', 'like', "%{$search}%")
-                  ->orWhere('last_name', 'like', "%{$search}%");
-            })->orWhereHas('rfidCardMapping.employee', function ($q) use ($search) {
-                $q->where('employee_number', 'like', "%{$search}%");
+            // Grouped so the OR cannot skip the other filters
+            $query->where(function ($q) use ($search) {
+                $q->whereHas('rfidCardMapping.employee.profile', function ($q) use ($search) {
+                    $q->where('first_name', 'like', "%{$search}%")
+                      ->orWhere('last_name', 'like', "%{$search}%");
+                })->orWhereHas('rfidCardMapping.employee', function ($q) use ($search) {
+                    $q->where('employee_number', 'like', "%{$search}%");
+                });
             });
         }
         
@@ -246,6 +314,8 @@ public function events(Request $request): JsonResponse
                 'verified' => $log->processed,
                 'rfid_card' => '****-' . substr($log->employee_rfid, -4),
                 'hash_chain' => $log->hash_chain,
+                'hash_previous' => $log->hash_previous,
+                'device_signature' => $log->device_signature,
                 'latency_ms' => $log->latency_ms ?? null,
                 'source' => 'edge_machine',
             ];
@@ -265,7 +335,7 @@ public function events(Request $request): JsonResponse
                 'next' => $logs->nextPageUrl(),
                 'prev' => $logs->previousPageUrl(),
             ],
-            'filters' => $request->only(['date_from', 'date_to', 'device_id', 'event_type', 'employee_rfid', 'employee_search']),
+            'filters' => $request->only(['date_from', 'date_to', 'device_id', 'event_type', 'employee_rfid', 'employee_id', 'employee_search']),
         ]);
     }
 
@@ -286,9 +356,11 @@ public function eventDetail(int $sequenceId): JsonResponse
         
         // Query real ledger entry by sequence_id
         $ledgerEntry = RfidLedger::with([
-            'employee:id,employee_number,profile_id',
-            'employee.profile:id,first_name,last_name',
-            'device:id,device_id,device_name,location'
+            'rfidCardMapping.employee:id,employee_number,profile_id,department_id,position_id',
+            'rfidCardMapping.employee.profile:id,first_name,last_name',
+            'rfidCardMapping.employee.department:id,name',
+            'rfidCardMapping.employee.position:id,title',
+            'device:id,device_id,device_name,location,status,last_heartbeat'
         ])->where('sequence_id', $sequenceId)
           ->first();
         
@@ -313,7 +385,10 @@ public function eventDetail(int $sequenceId): JsonResponse
             'verified' => $ledgerEntry->processed,
             'rfid_card' => '****-' . substr($ledgerEntry->employee_rfid, -4),
             'hash_chain' => $ledgerEntry->hash_chain,
+            'hash_previous' => $ledgerEntry->hash_previous,
+            'device_signature' => $ledgerEntry->device_signature,
             'latency_ms' => $ledgerEntry->latency_ms ?? null,
+            'processed_at' => $ledgerEntry->processed_at?->toISOString(),
             'source' => 'edge_machine',
         ];
         
@@ -328,6 +403,24 @@ public function eventDetail(int $sequenceId): JsonResponse
             'data' => [
                 'ledger_event' => $event, // Full ledger fields from real database (4.3.5)
                 'attendance_event' => $attendanceEvent, // Linked attendance_events record (4.3.5)
+                'employee' => $employee ? [
+                    'id' => $employee->id,
+                    'name' => "{$employee->profile->first_name} {$employee->profile->last_name}",
+                    'employee_number' => $employee->employee_number,
+                    'department_id' => $employee->department_id,
+                    'department_name' => $employee->department?->name,
+                    'position' => $employee->position?->title,
+                ] : null,
+                'device' => $ledgerEntry->device ? [
+                    'id' => $ledgerEntry->device->device_id,
+                    'name' => $ledgerEntry->device->device_name,
+                    'location' => $ledgerEntry->device->location,
+                    'status' => $ledgerEntry->device->status,
+                    'last_sync' => $ledgerEntry->device->last_heartbeat?->toISOString(),
+                    'total_taps_today' => RfidLedger::where('device_id', $ledgerEntry->device_id)
+                        ->whereDate('scan_timestamp', today())
+                        ->count(),
+                ] : null,
             ],
             'related' => [
                 'previous' => $relatedEvents['previous'] ?? null,
@@ -335,17 +428,216 @@ public function eventDetail(int $sequenceId): JsonResponse
                 'employee_today' => $relatedEvents['employee_today'] ?? [],
             ],
             'links' => [
-                'self' => route('timekeeping.api.ledger.event', ['sequenceId' => $sequenceId]),
+                'self' => route('hr.timekeeping.api.ledger.event', ['sequenceId' => $sequenceId]),
                 'previous' => isset($relatedEvents['previous']) 
-                    ? route('timekeeping.api.ledger.event', ['sequenceId' => $relatedEvents['previous']['sequence_id']]) 
+                    ? route('hr.timekeeping.api.ledger.event', ['sequenceId' => $relatedEvents['previous']['sequence_id']]) 
                     : null,
                 'next' => isset($relatedEvents['next']) 
-                    ? route('timekeeping.api.ledger.event', ['sequenceId' => $relatedEvents['next']['sequence_id']]) 
+                    ? route('hr.timekeeping.api.ledger.event', ['sequenceId' => $relatedEvents['next']['sequence_id']]) 
                     : null,
             ],
         ]);
     }
 
+    /**
+     * Server-sent events stream of newly committed ledger events.
+     *
+     * Pushes `ledger` events (id = sequence_id) as they are committed and a
+     * `health` snapshot whenever the ledger health changes. The client resumes
+     * from the last sequence it saw through the standard `Last-Event-ID` header
+     * (or `after_sequence` on a fresh connection), so events committed during a
+     * network blip are backfilled in order instead of dropped.
+     *
+     * The connection is closed after STREAM_LIFETIME_SECONDS so PHP workers are
+     * recycled; EventSource reconnects automatically and resumes from the last id.
+     *
+     * @param Request $request
+     * @return StreamedResponse
+     */
+    public function stream(Request $request): StreamedResponse
+    {
+        $lastSequenceId = (int) ($request->header('Last-Event-ID') ?: $request->get('after_sequence', 0));
+
+        // A fresh connection without a cursor starts at the ledger head (no historic replay)
+        if ($lastSequenceId <= 0) {
+            $lastSequenceId = (int) RfidLedger::max('sequence_id');
+        }
+
+        $filters = $request->only(['date_from', 'date_to', 'device_id', 'event_type', 'employee_rfid', 'employee_search']);
+
+        return response()->stream(function () use ($lastSequenceId, $filters) {
+            @set_time_limit(self::STREAM_LIFETIME_SECONDS + 15);
+
+            $startedAt = time();
+            $lastHealthHash = null;
+            $lastHealthAt = 0;
+            $lastHeartbeatAt = time();
+
+            // Tell the browser how long to wait before reconnecting
+            echo 'retry: ' . self::STREAM_RETRY_MS . "\n\n";
+            $this->flushStream();
+
+            while (time() - $startedAt < self::STREAM_LIFETIME_SECONDS) {
+                if (connection_aborted()) {
+                    break;
+                }
+
+                // Backfill/push everything committed after the cursor, in sequence order
+                $entries = $this->ledgerStreamQuery($filters)
+                    ->where('sequence_id', '>', $lastSequenceId)
+                    ->orderBy('sequence_id')
+                    ->limit(self::STREAM_BATCH_SIZE)
+                    ->get();
+
+                foreach ($entries as $entry) {
+                    $this->sendStreamEvent('ledger', $this->transformLedgerEntry($entry), $entry->sequence_id);
+                    $lastSequenceId = $entry->sequence_id;
+                }
+
+                // Health snapshot: only pushed when it changed (delta), at most every few seconds
+                if (time() - $lastHealthAt >= self::STREAM_HEALTH_INTERVAL_SECONDS) {
+                    $health = $this->getLedgerHealth();
+                    $healthHash = md5(json_encode(Arr::except($health, ['last_sync'])));
+
+                    if ($healthHash !== $lastHealthHash) {
+                        $this->sendStreamEvent('health', $health);
+                        $lastHealthHash = $healthHash;
+                    }
+                    $lastHealthAt = time();
+                }
+
+                // Comment heartbeat keeps proxies from closing an idle connection
+                if (time() - $lastHeartbeatAt >= self::STREAM_HEARTBEAT_SECONDS) {
+                    echo ": heartbeat\n\n";
+                    $this->flushStream();
+                    $lastHeartbeatAt = time();
+                }
+
+                // Drain a large backlog without sleeping; otherwise poll once a second
+                if ($entries->count() < self::STREAM_BATCH_SIZE) {
+                    sleep(1);
+                }
+            }
+        }, 200, [
+            'Content-Type' => 'text/event-stream',
+            'Cache-Control' => 'no-cache, no-transform',
+            'Connection' => 'keep-alive',
+            'X-Accel-Buffering' => 'no',
+        ]);
+    }
+
+    /**
+     * Base ledger query for the live stream with the same filters as the page.
+     *
+     * @param array $filters
+     * @return \Illuminate\Database\Eloquent\Builder
+     */
+    private function ledgerStreamQuery(array $filters)
+    {
+        $query = RfidLedger::with([
+            'rfidCardMapping.employee:id,employee_number,profile_id',
+            'rfidCardMapping.employee.profile:id,first_name,last_name',
+            'device:id,device_id,device_name,location'
+        ]);
+
+        if (!empty($filters['date_from'])) {
+            $query->where('scan_timestamp', '>=', Carbon::parse($filters['date_from'])->startOfDay());
+        }
+
+        if (!empty($filters['date_to'])) {
+            $query->where('scan_timestamp', '<=', Carbon::parse($filters['date_to'])->endOfDay());
+        }
+
+        if (!empty($filters['device_id']) && $filters['device_id'] !== 'all') {
+            $query->where('device_id', $filters['device_id']);
+        }
+
+        if (!empty($filters['event_type'])) {
+            $query->where('event_type', $filters['event_type']);
+        }
+
+        if (!empty($filters['employee_rfid'])) {
+            $query->where('employee_rfid', $filters['employee_rfid']);
+        }
+
+        // Grouped so the OR cannot widen the sequence cursor applied by the caller
+        if (!empty($filters['employee_search'])) {
+            $search = $filters['employee_search'];
+            $query->where(function ($q) use ($search) {
+                $q->whereHas('rfidCardMapping.employee.profile', function ($q) use ($search) {
+                    $q->where('first_name', 'like', "%{$search}%")
+                      ->orWhere('last_name', 'like', "%{$search}%");
+                })->orWhereHas('rfidCardMapping.employee', function ($q) use ($search) {
+                    $q->where('employee_number', 'like', "%{$search}%");
+                });
+            });
+        }
+
+        return $query;
+    }
+
+    /**
+     * Transform a ledger entry into the event shape used by the Ledger page.
+     *
+     * @param RfidLedger $log
+     * @return array
+     */
+    private function transformLedgerEntry(RfidLedger $log): array
+    {
+        $employee = $log->rfidCardMapping ? $log->rfidCardMapping->employee : null;
+
+        return [
+            'id' => $log->id,
+            'sequence_id' => $log->sequence_id,
+            'employee_rfid' => $log->employee_rfid,
+            'employee_id' => $employee ? $employee->employee_number : 'Unknown',
+            'employee_name' => $employee ? "{$employee->profile->first_name} {$employee->profile->last_name}" : 'Unknown Employee',
+            'event_type' => $log->event_type,
+            'timestamp' => $log->scan_timestamp->toISOString(),
+            'device_id' => $log->device_id,
+            'device_location' => $log->device && $log->device->location ? $log->device->location : $log->device_id,
+            'verified' => $log->processed,
+            'rfid_card' => '****-' . substr($log->employee_rfid, -4),
+            'hash_chain' => $log->hash_chain,
+            'hash_previous' => $log->hash_previous,
+            'device_signature' => $log->device_signature,
+            'latency_ms' => $log->latency_ms ?? null,
+            'source' => 'edge_machine',
+        ];
+    }
+
+    /**
+     * Write a single SSE frame and flush it to the client.
+     *
+     * @param string $event Event name (ledger, health)
+     * @param array $data JSON payload
+     * @param int|null $id Event id used by the client for Last-Event-ID resume
+     * @return void
+     */
+    private function sendStreamEvent(string $event, array $data, ?int $id = null): void
+    {
+        if ($id !== null) {
+            echo "id: {$id}\n";
+        }
+        echo "event: {$event}\n";
+        echo 'data: ' . json_encode($data) . "\n\n";
+
+        $this->flushStream();
+    }
+
+    /**
+     * Flush PHP and web server output buffers for the event stream.
+     *
+     * @return void
+     */
+    private function flushStream(): void
+    {
+        if (ob_get_level() > 0) {
+            @ob_flush();
+        }
+        flush();
+    }
+
     /**
      * Get real ledger health status from database.
      * 
@@ -505,6 +797,7 @@ private function getLinkedAttendanceEvent(int $sequenceId): ?array
             'source' => $attendanceEvent->source,
             'is_deduplicated' => $attendanceEvent->is_deduplicated ?? false,
             'ledger_hash_verified' => (bool) $attendanceEvent->ledger_hash_verified,
+            'is_corrected' => (bool) $attendanceEvent->is_corrected,
             'attendance_date' => $attendanceEvent->event_date->toDateString(),
             'processed_at' => $attendanceEvent->updated_at ? $attendanceEvent->updated_at->toISOString() : null,
             'notes' => $attendanceEvent->notes,
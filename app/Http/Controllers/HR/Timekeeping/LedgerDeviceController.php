@@ -51,6 +51,7 @@ public function index(Request $request): JsonResponse
 
             $row = [
                 'id'             => $device->device_id,
+                'name'           => $device->device_name,
                 'location'       => $device->location,
                 'status'         => $device->status,
                 'last_heartbeat' => $device->last_heartbeat?->toISOString(),
@@ -0,0 +1,84 @@
+<?php
+
+namespace App\Http\Controllers\HR\Timekeeping;
+
+use App\Http\Controllers\Controller;
+use App\Services\Timekeeping\LedgerExportService;
+use Illuminate\Http\JsonResponse;
+use Illuminate\Http\Request;
+use Illuminate\Support\Facades\Log;
+use RuntimeException;
+use Symfony\Component\HttpFoundation\BinaryFileResponse;
+
+/**
+ * Tamper-evident ledger export bundles (ZIP of events CSV/JSON, chain anchors and
+ * a SHA-256 manifest) for auditors and DOLE inspectors.
+ */
+class LedgerExportController extends Controller
+{
+    /**
+     * Download an export bundle for a filtered ledger range.
+     *
+     * The manifest digest is returned in the X-Bundle-Manifest-Sha256 header and
+     * recorded in the activity log, so a bundle can later be matched to its export.
+     *
+     * @param Request $request
+     * @param LedgerExportService $exportService
+     * @return BinaryFileResponse|JsonResponse
+     */
+    public function download(Request $request, LedgerExportService $exportService): BinaryFileResponse|JsonResponse
+    {
+        $filters = $request->validate([
+            'date_from'       => 'required|date',
+            'date_to'         => 'required|date|after_or_equal:date_from',
+            'device_id'       => 'nullable|string|max:255',
+            'employee_id'     => 'nullable|integer|exists:employees,id',
+            'employee_number' => 'nullable|string|max:50|exists:employees,employee_number',
+        ]);
+
+        try {
+            $bundle = $exportService->build($filters, $request->user());
+        } catch (RuntimeException $e) {
+            return response()->json([
+                'message' => $e->getMessage(),
+                'error' => 'EXPORT_RANGE_INVALID',
+            ], 422);
+        }
+
+        $manifestSha256 = hash('sha256', $bundle['manifest_json']);
+        $filename = sprintf(
+            'ledger-export_%s_%s_%d-%d.zip',
+            $filters['date_from'],
+            $filters['date_to'],
+            $bundle['manifest']['range']['first_sequence_id'],
+            $bundle['manifest']['range']['last_sequence_id']
+        );
+        $path = tempnam(sys_get_temp_dir(), 'ledger-export-');
+
+        try {
+            $exportService->writeZip($bundle, $path);
+        } catch (RuntimeException $e) {
+            @unlink($path);
+            Log::error('Ledger export bundle failed', ['filters' => $filters, 'error' => $e->getMessage()]);
+
+            return response()->json([
+                'message' => 'Failed to build the export bundle.',
+                'error' => 'EXPORT_FAILED',
+            ], 500);
+        }
+
+        activity('timekeeping')
+            ->causedBy($request->user())
+            ->withProperties([
+                'filters' => $bundle['manifest']['filters'],
+                'range' => $bundle['manifest']['range'],
+                'manifest_sha256' => $manifestSha256,
+            ])
+            ->log('Exported RFID ledger bundle');
+
+        return response()->download($path, $filename, [
+            'Content-Type' => 'application/zip',
+            'X-Bundle-Manifest-Sha256' => $manifestSha256,
+        ])->deleteFileAfterSend();
+    }
+}
@@ -0,0 +1,93 @@
+<?php
+
+namespace App\Http\Controllers\HR\Timekeeping;
+
+use App\Http\Controllers\Controller;
+use App\Models\RfidDevice;
+use App\Services\Timekeeping\LedgerGapService;
+use Illuminate\Http\RedirectResponse;
+use Illuminate\Http\Request;
+use Illuminate\Support\Facades\Cache;
+use Inertia\Inertia;
+use Inertia\Response;
+
+/**
+ * Per-device ledger gaps and their recovery from a device's local store export.
+ */
+class LedgerGapController extends Controller
+{
+    public function __construct(
+        private LedgerGapService $gaps
+    ) {}
+
+    /**
+     * Missing local_id ranges per device, with the employees and dates they likely affect.
+     *
+     * @param Request $request
+     * @return Response
+     */
+    public function index(Request $request): Response
+    {
+        $deviceId = $request->filled('device_id') && $request->device_id !== 'all' ? $request->device_id : null;
+
+        return Inertia::render('HR/Timekeeping/LedgerGaps', [
+            'devices' => $this->gaps->detect($deviceId),
+            'deviceOptions' => RfidDevice::orderBy('device_id')->get(['device_id', 'device_name'])
+                ->map(fn (RfidDevice $device) => ['id' => $device->device_id, 'name' => $device->device_name])
+                ->values(),
+            'windowDays' => LedgerGapService::WINDOW_DAYS,
+            'filters' => ['device_id' => $deviceId ?? 'all'],
+            'backfillResult' => session('backfill_result'),
+        ]);
+    }
+
+    /**
+     * Append the taps from an uploaded local store export that the ledger is missing.
+     *
+     * @param Request $request
+     * @return RedirectResponse
+     */
+    public function backfill(Request $request): RedirectResponse
+    {
+        $validated = $request->validate([
+            'device_id' => 'required|string|exists:rfid_devices,device_id',
+            'file' => 'required|file|max:20480',
+        ]);
+
+        $device = RfidDevice::where('device_id', $validated['device_id'])->firstOrFail();
+
+        try {
+            $export = $this->gaps->parseExport($request->file('file'));
+        } catch (\InvalidArgumentException $e) {
+            return back()->with('error', $e->getMessage());
+        }
+
+        if ($export['device_id'] !== null && $export['device_id'] !== $device->device_id) {
+            return back()->with('error', "This export is from {$export['device_id']}, not {$device->device_id}.");
+        }
+
+        $result = $this->gaps->backfill($device, $export['taps']);
+
+        activity('timekeeping')
+            ->causedBy($request->user())
+            ->performedOn($device)
+            ->withProperties([
+                'file_name' => $request->file('file')->getClientOriginalName(),
+                'rows' => count($export['taps']),
+                'backfilled' => $result['backfilled'],
+                'duplicates' => $result['duplicates'],
+                'already_received' => $result['already_received'],
+                'invalid' => $result['invalid'],
+                'sequence_ids' => $result['sequence_ids'],
+            ])
+            ->log("Backfilled {$result['backfilled']} ledger entries for device {$device->device_id} from a local store export");
+
+        if ($result['backfilled'] > 0) {
+            Cache::forget('ledger_health_current');
+        }
+
+        return back()
+            ->with('success', "{$result['backfilled']} tap(s) added to the ledger for {$device->device_id}; {$result['duplicates']} duplicate(s) rejected.")
+            ->with('backfill_result', ['device_id' => $device->device_id, 'rows' => count($export['taps'])] + $result);
+    }
+}
@@ -3,9 +3,15 @@
 namespace App\Http\Controllers\HR\Timekeeping;
 
 use App\Http\Controllers\Controller;
+use App\Models\LedgerHealthLog;
+use App\Models\RfidDevice;
+use App\Models\RfidLedger;
+use App\Services\Timekeeping\DeviceClockService;
+use Carbon\Carbon;
 use Illuminate\Http\Request;
 use Illuminate\Http\JsonResponse;
 use Illuminate\Support\Facades\Cache;
+use Illuminate\Support\Facades\DB;
 
 class LedgerHealthController extends Controller
 {
@@ -113,178 +119,86 @@ public function clearCache(): JsonResponse
         ]);
     }
 
+
     /**
      * Fetch last 24 hours of health logs.
      * 
-     * In production, this would query the `ledger_health_logs` table.
-     * For Phase 1, generates mock historical data with realistic patterns.
+     * Builds hourly snapshots from rfid_ledger (volume, sequence range, latency)
+     * and the latest ledger_health_logs check within each hour (status, queue,
+     * hash verification). Hours without a recorded check report a null status
+     * rather than a guessed one.
      * 
      * @return array
      */
     private function fetchLast24HoursHealthLogs(): array
     {
         $logs = [];
-        $now = now();
+        $currentHour = now()->startOfHour();
         
-        // Generate hourly snapshots for last 24 hours
         for ($i = 23; $i >= 0; $i--) {
-            $timestamp = $now->copy()->subHours($i);
-            $hour = $timestamp->hour;
+            $hourStart = $currentHour->copy()->subHours($i);
+            $hourEnd = $hourStart->copy()->addHour();
+            
+            $ledgerStats = RfidLedger::where('created_at', '>=', $hourStart)
+                ->where('created_at', '<', $hourEnd)
+                ->selectRaw('COUNT(*) as events, MIN(sequence_id) as sequence_start, MAX(sequence_id) as sequence_end, AVG(latency_ms) as avg_latency')
+                ->first();
             
-            // Simulate realistic health patterns
-            $status = $this->determineHistoricalStatus($hour, $i);
-            $eventsInHour = $this->calculateEventsForHour($hour, $status);
+            $check = LedgerHealthLog::where('check_timestamp', '>=', $hourStart)
+                ->where('check_timestamp', '<', $hourEnd)
+                ->orderByDesc('check_timestamp')
+                ->first();
             
             $logs[] = [
-                'timestamp' => $timestamp->toISOString(),
-                'status' => $status,
-                'sequence_id_start' => 12000 + ($i * 50),
-                'sequence_id_end' => 12000 + ($i * 50) + $eventsInHour,
-                'events_processed' => $eventsInHour,
-                'events_failed' => $status === 'critical' ? rand(3, 10) : ($status === 'warning' ? rand(1, 3) : 0),
-                'devices_online' => $status === 'critical' ? rand(1, 2) : ($status === 'warning' ? rand(2, 3) : rand(3, 4)),
-                'devices_offline' => $status === 'critical' ? rand(2, 3) : ($status === 'warning' ? rand(1, 2) : rand(0, 1)),
-                'avg_latency_ms' => $status === 'critical' ? rand(700, 1000) : ($status === 'warning' ? rand(250, 400) : rand(80, 150)),
-                'hash_verification_passed' => $status === 'critical' ? false : true,
-                'queue_depth' => $status === 'critical' ? rand(800, 1500) : ($status === 'warning' ? rand(200, 400) : rand(0, 50)),
-                'sync_success_rate' => $status === 'critical' ? rand(70, 80) : ($status === 'warning' ? rand(88, 95) : rand(98, 100)),
-                'alerts_count' => $status === 'critical' ? rand(3, 8) : ($status === 'warning' ? rand(1, 2) : 0),
+                'timestamp' => $hourStart->toISOString(),
+                'status' => $check?->status,
+                'sequence_id_start' => $ledgerStats?->sequence_start !== null ? (int) $ledgerStats->sequence_start : null,
+                'sequence_id_end' => $ledgerStats?->sequence_end !== null ? (int) $ledgerStats->sequence_end : null,
+                'events_processed' => (int) ($ledgerStats?->events ?? 0),
+                'avg_latency_ms' => $ledgerStats?->avg_latency !== null ? (int) round($ledgerStats->avg_latency) : null,
+                'hash_verification_passed' => $check ? !$check->hash_failures : null,
+                'queue_depth' => $check?->processing_queue_size,
+                'gap_count' => $check?->gap_count,
             ];
         }
         
         return $logs;
     }
 
-    /**
-     * Determine historical health status based on hour and position.
-     * 
-     * @param int $hour
-     * @param int $hoursAgo
-     * @return string
-     */
-    private function determineHistoricalStatus(int $hour, int $hoursAgo): string
-    {
-        // Simulate incident at 10 AM (2 hours ago if current time is noon)
-        if ($hoursAgo >= 12 && $hoursAgo <= 14) {
-            return 'critical';
-        }
-        
-        // Simulate warning periods during low-activity hours
-        if ($hour >= 2 && $hour <= 5) {
-            return 'warning';
-        }
-        
-        // Simulate occasional warnings
-        if ($hoursAgo === 6 || $hoursAgo === 18) {
-            return 'warning';
-        }
-        
-        return 'healthy';
-    }
-
-    /**
-     * Calculate realistic event count for a given hour.
-     * 
-     * @param int $hour
-     * @param string $status
-     * @return int
-     */
-    private function calculateEventsForHour(int $hour, string $status): int
-    {
-        // During critical status, event processing drops
-        if ($status === 'critical') {
-            return rand(0, 20);
-        }
-        
-        // Normal business hours (7 AM - 6 PM)
-        if ($hour >= 7 && $hour <= 18) {
-            return rand(30, 60);
-        }
-        
-        // Early morning shift change (5-7 AM)
-        if ($hour >= 5 && $hour < 7) {
-            return rand(15, 30);
-        }
-        
-        // Late evening shift change (6-8 PM)
-        if ($hour >= 18 && $hour <= 20) {
-            return rand(10, 25);
-        }
-        
-        // Night hours - minimal activity
-        return rand(0, 5);
-    }
-
     /**
      * Generate comprehensive ledger health data.
      * 
      * Computes critical metrics including:
-     * - Processing lag (time delta between ledger write and processing)
+     * - Processing lag (age of the oldest unprocessed ledger entry)
      * - Sequence gaps (missing sequence IDs indicating lost events)
      * - Hash failures (cryptographic integrity violations)
      * - Overall health status (healthy/warning/critical)
      * 
+     * Alerts are derived from the same metrics, so every alert points at real data.
+     * 
      * @return array
      */
     private function generateLedgerHealth(): array
     {
-        // Simulate different health states based on time
-        $minute = now()->minute;
-        $status = 'healthy';
-        $alerts = [];
-        
         // Compute core metrics (4.2.3: processing lag, gap count, hash failure count)
-        $metrics = $this->computeHealthMetrics($minute);
+        $metrics = $this->computeHealthMetrics();
         
         // Determine status based on computed metrics (4.2.4)
         $status = $this->determineHealthStatus($metrics);
         
-        // Generate alerts based on status
-        if ($status === 'warning') {
-            $alerts[] = [
-                'severity' => 'warning',
-                'message' => 'Device OFFICE-01 offline for 45 minutes',
-                'timestamp' => now()->subMinutes(45)->toISOString(),
-            ];
-            if ($metrics['processing_lag_seconds'] > 120) {
-                $alerts[] = [
-                    'severity' => 'warning',
-                    'message' => "Processing lag at {$metrics['processing_lag_seconds']}s (threshold: 120s)",
-                    'timestamp' => now()->subMinutes(2)->toISOString(),
-                ];
-            }
-        }
-        
-        if ($status === 'critical') {
-            $seqEnd = $metrics['last_sequence_id'] + 5;
-            $alerts[] = [
-                'severity' => 'critical',
-                'message' => "Hash verification failed for sequence range {$metrics['last_sequence_id']}-{$seqEnd}",
-                'timestamp' => now()->subMinutes(10)->toISOString(),
-            ];
-            $alerts[] = [
-                'severity' => 'critical',
-                'message' => 'Processing backlog exceeds threshold (1250 events)',
-                'timestamp' => now()->subMinutes(15)->toISOString(),
-            ];
-            if ($metrics['sequence_gaps_count'] > 0) {
-                $alerts[] = [
-                    'severity' => 'critical',
-                    'message' => "{$metrics['sequence_gaps_count']} sequence gaps detected - potential data loss",
-                    'timestamp' => now()->subMinutes(8)->toISOString(),
-                ];
-            }
-        }
+        $alerts = $this->buildHealthAlerts($metrics);
         
         // Return comprehensive health data with detailed metrics (4.2.4)
         return [
             'status' => $status, // healthy/warning/critical
             'last_sequence_id' => $metrics['last_sequence_id'],
             'events_today' => $metrics['events_today'],
+            'processed_today' => $metrics['processed_today'],
             'devices_online' => $metrics['devices_online'],
             'devices_offline' => $metrics['devices_offline'],
             'devices_maintenance' => $metrics['devices_maintenance'],
             'last_sync' => $metrics['last_sync'],
+            'last_processed_at' => $metrics['last_processed_at'],
             'avg_latency_ms' => $metrics['avg_latency_ms'],
             
             // Core computed metrics (4.2.3)
@@ -298,12 +212,12 @@ private function generateLedgerHealth(): array
             // Hash verification details
             'hash_verification' => [
                 'total_checked' => $metrics['hash_total_checked'],
-                'passed' => $metrics['hash_passed'],
+                'passed' => $metrics['hash_total_checked'] - $metrics['hash_failures_count'],
                 'failed' => $metrics['hash_failures_count'],
-                'success_rate' => $metrics['hash_failures_count'] === 0 
-                    ? 100.0 
-                    : round((($metrics['hash_passed'] / $metrics['hash_total_checked']) * 100), 2),
-                'last_check' => now()->subMinutes(rand(1, 3))->toISOString(),
+                'success_rate' => $metrics['hash_total_checked'] > 0
+                    ? round((($metrics['hash_total_checked'] - $metrics['hash_failures_count']) / $metrics['hash_total_checked']) * 100, 2)
+                    : 100.0,
+                'last_check' => $metrics['last_health_check'],
             ],
             
             // Performance metrics
@@ -313,13 +227,12 @@ private function generateLedgerHealth(): array
                 'queue_depth' => $metrics['queue_depth'],
                 'throughput_trend' => $metrics['throughput_trend'],
                 'processing_lag_seconds' => $metrics['processing_lag_seconds'],
+                'ledger_size_mb' => $metrics['ledger_size_mb'],
             ],
             
             // Sync status
             'sync_status' => [
-                'last_sync_duration_ms' => $metrics['last_sync_duration_ms'],
-                'sync_success_rate' => $metrics['sync_success_rate'],
-                'pending_sync_count' => $metrics['pending_sync_count'],
+                'pending_sync_count' => $metrics['queue_depth'],
             ],
             
             'alerts' => $alerts,
@@ -329,7 +242,6 @@ private function generateLedgerHealth(): array
                 'start' => now()->subHours(24)->toISOString(),
                 'end' => now()->toISOString(),
                 'total_events_processed' => $metrics['total_events_processed'],
-                'total_errors' => $metrics['total_errors'],
                 'total_sequence_gaps' => $metrics['sequence_gaps_count'],
                 'total_hash_failures' => $metrics['hash_failures_count'],
             ],
@@ -339,99 +251,198 @@ private function generateLedgerHealth(): array
     /**
      * Compute health metrics: processing lag, gap count, hash failure count.
      * 
-     * Subtask 4.2.3 implementation.
+     * Subtask 4.2.3 implementation. Everything is read from rfid_ledger,
+     * rfid_devices and ledger_health_logs.
      * 
-     * @param int $minute Current minute (for simulation)
      * @return array
      */
-    private function computeHealthMetrics(int $minute): array
+    private function computeHealthMetrics(): array
     {
-        // Determine simulated health state based on time
-        $isCritical = ($minute >= 30 && $minute < 35);
-        $isWarning = ($minute >= 15 && $minute < 20);
-        
-        $lastSequenceId = 12404 + rand(0, 50);
-        $eventsToday = 247 + rand(-10, 50);
-        
-        // Compute processing lag (seconds between ledger write and Laravel processing)
-        // Healthy: < 60s, Warning: 60-180s, Critical: > 180s
-        $processingLag = $isCritical 
-            ? rand(180, 600) 
-            : ($isWarning ? rand(60, 180) : rand(5, 45));
-        
-        // Compute sequence gaps (missing sequence IDs)
-        // Healthy: 0, Warning: 0-2, Critical: 3+
-        $sequenceGaps = 0;
-        $gapDetails = [];
-        
-        if ($isCritical) {
-            $sequenceGaps = rand(3, 8);
-            // Generate gap details for audit trail
-            for ($i = 0; $i < $sequenceGaps; $i++) {
-                $gapStart = $lastSequenceId - rand(50, 200);
-                $gapSize = rand(1, 5);
-                $gapDetails[] = [
-                    'missing_start' => $gapStart,
-                    'missing_end' => $gapStart + $gapSize - 1,
-                    'gap_size' => $gapSize,
-                    'detected_at' => now()->subMinutes(rand(5, 30))->toISOString(),
-                ];
-            }
-        } elseif ($isWarning) {
-            $sequenceGaps = rand(0, 2);
-            if ($sequenceGaps > 0) {
-                $gapStart = $lastSequenceId - rand(20, 100);
-                $gapDetails[] = [
-                    'missing_start' => $gapStart,
-                    'missing_end' => $gapStart,
-                    'gap_size' => 1,
-                    'detected_at' => now()->subMinutes(rand(2, 10))->toISOString(),
-                ];
-            }
-        }
+        $latestEntry = RfidLedger::orderByDesc('sequence_id')->first(['sequence_id', 'created_at']);
+        $eventsToday = RfidLedger::whereDate('scan_timestamp', today())->count();
+        
+        $deviceCounts = RfidDevice::selectRaw('status, COUNT(*) as total')
+            ->groupBy('status')
+            ->pluck('total', 'status');
+        
+        // Processing lag: how long the oldest unprocessed entry has been waiting
+        $oldestUnprocessed = RfidLedger::where('processed', false)->min('scan_timestamp');
+        $processingLag = $oldestUnprocessed
+            ? (int) Carbon::parse($oldestUnprocessed)->diffInSeconds(now(), true)
+            : 0;
+        
+        $gapDetails = $this->detectSequenceGaps(now()->subHours(24));
+        
+        // Hash failures are recorded by the integrity checks in ledger_health_logs
+        $hashFailures = (int) LedgerHealthLog::whereDate('check_timestamp', today())->sum('hash_failure_count');
+        $latestCheck = LedgerHealthLog::orderByDesc('check_timestamp')->first(['check_timestamp']);
         
-        // Compute hash failures (cryptographic integrity violations)
-        // Healthy: 0, Warning: 0-2, Critical: 3+
-        $hashFailures = $isCritical ? rand(3, 10) : ($isWarning ? rand(0, 2) : 0);
-        $hashTotalChecked = $eventsToday;
-        $hashPassed = $hashTotalChecked - $hashFailures;
+        $eventsLastHour = RfidLedger::where('created_at', '>=', now()->subHour())->count();
+        $eventsPreviousHour = RfidLedger::where('created_at', '>=', now()->subHours(2))
+            ->where('created_at', '<', now()->subHour())
+            ->count();
+        
+        $lastProcessedAt = RfidLedger::max('processed_at');
+        $processedToday = RfidLedger::whereDate('scan_timestamp', today())
+            ->whereNotNull('processed_at')
+            ->get(['scan_timestamp', 'processed_at']);
+        $avgProcessingTimeMs = $processedToday->isNotEmpty()
+            ? (int) round($processedToday->avg(fn (RfidLedger $entry) => $entry->scan_timestamp->diffInMilliseconds($entry->processed_at, true)))
+            : 0;
         
         return [
-            'last_sequence_id' => $lastSequenceId,
+            'last_sequence_id' => $latestEntry?->sequence_id ?? 0,
             'events_today' => $eventsToday,
-            'devices_online' => $isCritical ? 1 : ($isWarning ? 2 : 4),
-            'devices_offline' => $isCritical ? 2 : ($isWarning ? 1 : 0),
-            'devices_maintenance' => rand(0, 1),
-            'last_sync' => now()->subMinutes(rand(1, 5))->toISOString(),
-            'avg_latency_ms' => $isCritical ? 850 : ($isWarning ? 320 : 125),
+            'processed_today' => $processedToday->count(),
+            'devices_online' => (int) ($deviceCounts['online'] ?? 0),
+            'devices_offline' => (int) ($deviceCounts['offline'] ?? 0),
+            'devices_maintenance' => (int) ($deviceCounts['maintenance'] ?? 0),
+            'clock_drift_devices' => RfidDevice::whereNotNull('clock_drift_seconds')
+                ->whereRaw('ABS(clock_drift_seconds) > ?', [DeviceClockService::DRIFT_ALERT_SECONDS])
+                ->pluck('clock_drift_seconds', 'device_id')
+                ->all(),
+            'last_sync' => $latestEntry?->created_at?->toISOString(),
+            'last_processed_at' => $lastProcessedAt ? Carbon::parse($lastProcessedAt)->toISOString() : null,
+            'avg_latency_ms' => (int) round(RfidLedger::whereDate('scan_timestamp', today())->avg('latency_ms') ?? 0),
             
             // Core metrics (4.2.3)
             'processing_lag_seconds' => $processingLag,
-            'sequence_gaps_count' => $sequenceGaps,
+            'sequence_gaps_count' => count($gapDetails),
             'hash_failures_count' => $hashFailures,
             'gap_details' => $gapDetails,
             
             // Hash verification
-            'hash_total_checked' => $hashTotalChecked,
-            'hash_passed' => $hashPassed,
+            'hash_total_checked' => $eventsToday,
+            'last_health_check' => $latestCheck?->check_timestamp?->toISOString(),
             
             // Performance
-            'events_per_hour' => $isCritical ? 0 : ($isWarning ? 180 : 31 + rand(-5, 10)),
-            'avg_processing_time_ms' => $isCritical ? 1250 : ($isWarning ? 185 : 45 + rand(-10, 20)),
-            'queue_depth' => $isCritical ? 1250 : ($isWarning ? 245 : rand(0, 5)),
-            'throughput_trend' => $isCritical ? 'declining' : ($isWarning ? 'stable' : 'increasing'),
-            
-            // Sync
-            'last_sync_duration_ms' => rand(50, 200),
-            'sync_success_rate' => $isCritical ? 75.5 : ($isWarning ? 92.3 : 99.8),
-            'pending_sync_count' => $isCritical ? 1250 : ($isWarning ? 245 : rand(0, 10)),
+            'events_per_hour' => $eventsLastHour,
+            'avg_processing_time_ms' => $avgProcessingTimeMs,
+            'queue_depth' => RfidLedger::where('processed', false)->count(),
+            'throughput_trend' => match (true) {
+                $eventsLastHour > $eventsPreviousHour => 'increasing',
+                $eventsLastHour < $eventsPreviousHour => 'declining',
+                default => 'stable',
+            },
+            'ledger_size_mb' => $this->ledgerSizeMb(),
             
             // Metrics window
-            'total_events_processed' => 5847 + rand(-100, 200),
-            'total_errors' => $isCritical ? 45 : ($isWarning ? 8 : 0),
+            'total_events_processed' => RfidLedger::where('processed', true)
+                ->where('processed_at', '>=', now()->subHours(24))
+                ->count(),
         ];
     }
 
+    /**
+     * Find missing sequence_id ranges among entries written since the given time.
+     * 
+     * @param Carbon $since
+     * @return array
+     */
+    private function detectSequenceGaps(Carbon $since): array
+    {
+        $gaps = [];
+        $previous = null;
+        
+        $sequenceIds = RfidLedger::where('created_at', '>=', $since)
+            ->orderBy('sequence_id')
+            ->pluck('sequence_id');
+        
+        foreach ($sequenceIds as $sequenceId) {
+            if ($previous !== null && $sequenceId > $previous + 1) {
+                $gaps[] = [
+                    'missing_start' => $previous + 1,
+                    'missing_end' => $sequenceId - 1,
+                    'gap_size' => $sequenceId - $previous - 1,
+                    'detected_at' => now()->toISOString(),
+                ];
+            }
+            $previous = $sequenceId;
+        }
+        
+        return $gaps;
+    }
+
+    /**
+     * On-disk size of the rfid_ledger table (PostgreSQL only).
+     * 
+     * @return float|null
+     */
+    private function ledgerSizeMb(): ?float
+    {
+        if (DB::getDriverName() !== 'pgsql') {
+            return null;
+        }
+        
+        $bytes = DB::selectOne("SELECT pg_total_relation_size('rfid_ledger') AS size")?->size;
+        
+        return $bytes !== null ? round($bytes / 1048576, 2) : null;
+    }
+
+    /**
+     * Build alerts from the computed metrics.
+     * 
+     * @param array $metrics
+     * @return array
+     */
+    private function buildHealthAlerts(array $metrics): array
+    {
+        $alerts = [];
+        
+        if ($metrics['hash_failures_count'] > 0) {
+            $alerts[] = [
+                'severity' => $metrics['hash_failures_count'] >= 3 ? 'critical' : 'warning',
+                'message' => "{$metrics['hash_failures_count']} hash verification failures recorded today",
+                'timestamp' => $metrics['last_health_check'] ?? now()->toISOString(),
+            ];
+        }
+        
+        if ($metrics['sequence_gaps_count'] > 0) {
+            $missing = array_sum(array_column($metrics['gap_details'], 'gap_size'));
+            $alerts[] = [
+                'severity' => $metrics['sequence_gaps_count'] >= 3 ? 'critical' : 'warning',
+                'message' => "{$metrics['sequence_gaps_count']} sequence gaps detected ({$missing} missing entries) - potential data loss",
+                'timestamp' => now()->toISOString(),
+            ];
+        }
+        
+        if ($metrics['processing_lag_seconds'] > 120) {
+            $alerts[] = [
+                'severity' => $metrics['processing_lag_seconds'] > 300 ? 'critical' : 'warning',
+                'message' => "Processing lag at {$metrics['processing_lag_seconds']}s (threshold: 120s)",
+                'timestamp' => now()->toISOString(),
+            ];
+        }
+        
+        if ($metrics['queue_depth'] > 200) {
+            $alerts[] = [
+                'severity' => $metrics['queue_depth'] > 1000 ? 'critical' : 'warning',
+                'message' => "Processing backlog at {$metrics['queue_depth']} events",
+                'timestamp' => now()->toISOString(),
+            ];
+        }
+        
+        if ($metrics['devices_offline'] > 0) {
+            $alerts[] = [
+                'severity' => $metrics['devices_offline'] > 1 ? 'warning' : 'info',
+                'message' => "{$metrics['devices_offline']} device(s) offline",
+                'timestamp' => now()->toISOString(),
+            ];
+        }
+
+        if (!empty($metrics['clock_drift_devices'])) {
+            $drifts = collect($metrics['clock_drift_devices'])
+                ->map(fn ($drift, $deviceId) => sprintf('%s %+ds', $deviceId, $drift))
+                ->implode(', ');
+            $alerts[] = [
+                'severity' => 'warning',
+                'message' => "Device clock drift over " . DeviceClockService::DRIFT_ALERT_SECONDS . "s: {$drifts} - punch times from these devices are off",
+                'timestamp' => now()->toISOString(),
+            ];
+        }
+        
+        return $alerts;
+    }
     /**
      * Determine health status based on computed metrics.
      * 
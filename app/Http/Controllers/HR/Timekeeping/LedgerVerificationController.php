@@ -0,0 +1,143 @@
+<?php
+
+namespace App\Http\Controllers\HR\Timekeeping;
+
+use App\Http\Controllers\Controller;
+use App\Models\RfidDevice;
+use App\Models\RfidLedger;
+use Carbon\Carbon;
+use Illuminate\Http\JsonResponse;
+use Illuminate\Http\Request;
+
+/**
+ * Serves the raw material auditors need to verify the ledger in the browser.
+ *
+ * Nothing here says whether an entry is valid: the client recomputes
+ * SHA-256(hash_previous || canonical raw_payload) per device chain and checks
+ * each device_signature against the registered device public key itself.
+ */
+class LedgerVerificationController extends Controller
+{
+    /**
+     * Maximum entries returned for a single verification range.
+     */
+    private const MAX_ENTRIES = 5000;
+
+    /**
+     * Return a contiguous ledger range with per-device chain anchors and public keys.
+     *
+     * The range is selected by sequence_id and/or scan date and optionally a device.
+     * Scan dates select each device's chain from its first to its last entry scanned
+     * in them, which also takes in backfilled taps scanned on other days.
+     * It is never filtered by employee, because that would break chain continuity.
+     *
+     * @param Request $request
+     * @return JsonResponse
+     */
+    public function index(Request $request): JsonResponse
+    {
+        $validated = $request->validate([
+            'from_sequence' => 'sometimes|integer|min:1',
+            'to_sequence'   => 'sometimes|integer|min:1',
+            'date_from'     => 'sometimes|date',
+            'date_to'       => 'sometimes|date',
+            'device_id'     => 'sometimes|string|max:255',
+        ]);
+
+        $query = RfidLedger::query()->orderBy('sequence_id');
+
+        if (isset($validated['from_sequence'])) {
+            $query->where('sequence_id', '>=', $validated['from_sequence']);
+        }
+        if (isset($validated['to_sequence'])) {
+            $query->where('sequence_id', '<=', $validated['to_sequence']);
+        }
+        if (isset($validated['date_from']) || isset($validated['date_to'])) {
+            $query->chainSpanInDateRange(
+                isset($validated['date_from']) ? Carbon::parse($validated['date_from'])->startOfDay() : null,
+                isset($validated['date_to']) ? Carbon::parse($validated['date_to'])->endOfDay() : null
+            );
+        }
+        if (!empty($validated['device_id']) && $validated['device_id'] !== 'all') {
+            $query->where('device_id', $validated['device_id']);
+        }
+
+        // Fetch one extra row to know whether the range was truncated
+        $entries = $query->limit(self::MAX_ENTRIES + 1)->get([
+            'sequence_id',
+            'employee_rfid',
+            'device_id',
+            'scan_timestamp',
+            'event_type',
+            'raw_payload',
+            'hash_chain',
+            'hash_previous',
+            'device_signature',
+        ]);
+
+        $truncated = $entries->count() > self::MAX_ENTRIES;
+        $entries = $entries->take(self::MAX_ENTRIES)->values();
+
+        $deviceIds = $entries->pluck('device_id')->unique()->values();
+
+        return response()->json([
+            'success' => true,
+            'data' => [
+                'entries' => $entries->map(fn (RfidLedger $entry) => [
+                    'sequence_id' => $entry->sequence_id,
+                    'device_id' => $entry->device_id,
+                    'employee_rfid' => $entry->employee_rfid,
+                    'event_type' => $entry->event_type,
+                    'scan_timestamp' => $entry->scan_timestamp->toISOString(),
+                    'raw_payload' => $entry->raw_payload,
+                    'hash_chain' => $entry->hash_chain,
+                    'hash_previous' => $entry->hash_previous,
+                    'device_signature' => $entry->device_signature,
+                ]),
+                'anchors' => $this->chainAnchors($entries),
+                'device_keys' => RfidDevice::whereIn('device_id', $deviceIds)
+                    ->get(['device_id', 'public_key', 'public_key_registered_at'])
+                    ->mapWithKeys(fn (RfidDevice $device) => [
+                        $device->device_id => [
+                            'public_key' => $device->public_key,
+                            'registered_at' => $device->public_key_registered_at?->toISOString(),
+                        ],
+                    ]),
+            ],
+            'meta' => [
+                'total' => $entries->count(),
+                'truncated' => $truncated,
+                'first_sequence_id' => $entries->first()?->sequence_id,
+                'last_sequence_id' => $entries->last()?->sequence_id,
+            ],
+        ]);
+    }
+
+    /**
+     * For each device in the range, the last entry of that device's chain before the range.
+     *
+     * The first in-range entry of a device must link to this anchor's hash_chain;
+     * a null anchor means the range starts at the device's genesis entry.
+     *
+     * @param \Illuminate\Support\Collection $entries
+     * @return array
+     */
+    private function chainAnchors($entries): array
+    {
+        $anchors = [];
+
+        foreach ($entries->groupBy('device_id') as $deviceId => $deviceEntries) {
+            $anchor = RfidLedger::where('device_id', $deviceId)
+                ->where('sequence_id', '<', $deviceEntries->first()->sequence_id)
+                ->orderByDesc('sequence_id')
+                ->first(['sequence_id', 'hash_chain']);
+
+            $anchors[$deviceId] = $anchor ? [
+                'sequence_id' => $anchor->sequence_id,
+                'hash_chain' => $anchor->hash_chain,
+            ] : null;
+        }
+
+        return $anchors;
+    }
+}
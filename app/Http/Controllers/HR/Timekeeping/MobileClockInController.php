@@ -0,0 +1,254 @@
+<?php
+
+namespace App\Http\Controllers\HR\Timekeeping;
+
+use App\Http\Controllers\Controller;
+use App\Models\Employee;
+use App\Models\Geofence;
+use App\Models\MobilePunch;
+use App\Services\Timekeeping\MobileClockInService;
+use Carbon\Carbon;
+use Illuminate\Http\RedirectResponse;
+use Illuminate\Http\Request;
+use Illuminate\Support\Facades\Storage;
+use Inertia\Inertia;
+use Inertia\Response;
+use Symfony\Component\HttpFoundation\StreamedResponse;
+
+/**
+ * HR side of portal clock-in: the approval queue for punches made outside
+ * every geofence, the punch log, and the geofences themselves.
+ */
+class MobileClockInController extends Controller
+{
+    public function __construct(
+        private MobileClockInService $mobileClockIn
+    ) {}
+
+    /**
+     * Punch log (pending first by default) with filters, and the geofences.
+     *
+     * @param Request $request
+     * @return Response
+     */
+    public function index(Request $request): Response
+    {
+        $status = $request->input('status', 'pending');
+
+        $query = MobilePunch::with([
+            'employee:id,employee_number,profile_id,department_id',
+            'employee.profile:id,first_name,last_name',
+            'employee.department:id,name',
+            'geofence:id,name,radius_meters',
+            'reviewer:id,name',
+        ])->orderByDesc('punched_at');
+
+        if ($status !== 'all') {
+            $query->where('status', $status);
+        }
+        if ($request->filled('employee_number')) {
+            $employeeIds = Employee::where('employee_number', 'like', '%' . $request->input('employee_number') . '%')->pluck('id');
+            $query->whereIn('employee_id', $employeeIds);
+        }
+        if ($request->filled('date_from')) {
+            $query->where('punched_at', '>=', $request->input('date_from'));
+        }
+        if ($request->filled('date_to')) {
+            $query->where('punched_at', '<', Carbon::parse($request->input('date_to'))->addDay()->toDateString());
+        }
+
+        $punches = $query->paginate(25)->withQueryString()->through(fn (MobilePunch $punch) => [
+            'id' => $punch->id,
+            'employee' => [
+                'id' => $punch->employee->id,
+                'employee_number' => $punch->employee->employee_number,
+                'name' => $punch->employee->profile
+                    ? trim("{$punch->employee->profile->first_name} {$punch->employee->profile->last_name}")
+                    : $punch->employee->employee_number,
+                'department' => $punch->employee->department?->name,
+            ],
+            'event_type' => $punch->event_type,
+            'punched_at' => $punch->punched_at->toISOString(),
+            'latitude' => $punch->latitude,
+            'longitude' => $punch->longitude,
+            'accuracy_meters' => $punch->accuracy_meters,
+            'geofence' => $punch->geofence ? [
+                'id' => $punch->geofence->id,
+                'name' => $punch->geofence->name,
+                'radius_meters' => $punch->geofence->radius_meters,
+            ] : null,
+            'distance_meters' => $punch->distance_meters,
+            'within_geofence' => $punch->within_geofence,
+            'has_selfie' => $punch->selfie_path !== null,
+            'status' => $punch->status,
+            'attendance_event_id' => $punch->attendance_event_id,
+            'reviewed_by' => $punch->reviewer?->name,
+            'reviewed_at' => $punch->reviewed_at?->toISOString(),
+            'review_notes' => $punch->review_notes,
+        ]);
+
+        return Inertia::render('HR/Timekeeping/MobileClockIn/Index', [
+            'punches' => $punches,
+            'pendingCount' => MobilePunch::pending()->count(),
+            'geofences' => Geofence::with('updater:id,name')
+                ->orderBy('name')
+                ->get()
+                ->map(fn (Geofence $geofence) => [
+                    'id' => $geofence->id,
+                    'name' => $geofence->name,
+                    'address' => $geofence->address,
+                    'latitude' => $geofence->latitude,
+                    'longitude' => $geofence->longitude,
+                    'radius_meters' => $geofence->radius_meters,
+                    'is_active' => $geofence->is_active,
+                    'updated_by' => $geofence->updater?->name,
+                    'updated_at' => $geofence->updated_at?->toISOString(),
+                ]),
+            'filters' => [
+                'status' => $status,
+                'employee_number' => $request->input('employee_number'),
+                'date_from' => $request->input('date_from'),
+                'date_to' => $request->input('date_to'),
+            ],
+        ]);
+    }
+
+    /**
+     * Approve or reject a punch made outside every geofence.
+     *
+     * @param Request $request
+     * @param int $punchId
+     * @return RedirectResponse
+     */
+    public function review(Request $request, int $punchId): RedirectResponse
+    {
+        $validated = $request->validate([
+            'status' => 'required|in:approved,rejected',
+            'review_notes' => 'nullable|string|max:1000|required_if:status,rejected',
+        ]);
+
+        $punch = MobilePunch::findOrFail($punchId);
+        if ($punch->status !== 'pending') {
+            return back()->with('error', 'This punch has already been reviewed.');
+        }
+
+        $this->mobileClockIn->review($punch, $validated['status'], $request->user(), $validated['review_notes'] ?? null);
+
+        activity('timekeeping')
+            ->causedBy($request->user())
+            ->performedOn($punch)
+            ->withProperties([
+                'employee_id' => $punch->employee_id,
+                'event_type' => $punch->event_type,
+                'punched_at' => $punch->punched_at->toISOString(),
+                'distance_meters' => $punch->distance_meters,
+                'status' => $punch->status,
+                'notes' => $punch->review_notes,
+            ])
+            ->log("Marked mobile punch {$punch->status}");
+
+        return back()->with('success', $punch->status === 'approved'
+            ? 'Punch approved and added to attendance.'
+            : 'Punch rejected.');
+    }
+
+    /**
+     * Stream the selfie taken with a punch.
+     *
+     * @param int $punchId
+     * @return StreamedResponse
+     */
+    public function selfie(int $punchId): StreamedResponse
+    {
+        $punch = MobilePunch::findOrFail($punchId);
+
+        if (!$punch->selfie_path || !Storage::disk('local')->exists($punch->selfie_path)) {
+            abort(404, 'No selfie was taken with this punch.');
+        }
+
+        return Storage::disk('local')->response($punch->selfie_path);
+    }
+
+    /**
+     * Add a geofence.
+     *
+     * @param Request $request
+     * @return RedirectResponse
+     */
+    public function storeGeofence(Request $request): RedirectResponse
+    {
+        $validated = $this->validateGeofence($request);
+
+        $geofence = Geofence::create($validated + [
+            'created_by' => $request->user()?->id,
+            'updated_by' => $request->user()?->id,
+        ]);
+
+        activity('timekeeping')
+            ->causedBy($request->user())
+            ->performedOn($geofence)
+            ->withProperties($geofence->only(['name', 'latitude', 'longitude', 'radius_meters', 'is_active']))
+            ->log('Added clock-in geofence');
+
+        return back()->with('success', "Geofence {$geofence->name} added.");
+    }
+
+    /**
+     * Change a geofence. Punches already recorded keep their outcome.
+     *
+     * @param Request $request
+     * @param int $geofenceId
+     * @return RedirectResponse
+     */
+    public function updateGeofence(Request $request, int $geofenceId): RedirectResponse
+    {
+        $geofence = Geofence::findOrFail($geofenceId);
+        $validated = $this->validateGeofence($request);
+
+        $geofence->update($validated + ['updated_by' => $request->user()?->id]);
+
+        activity('timekeeping')
+            ->causedBy($request->user())
+            ->performedOn($geofence)
+            ->withProperties($geofence->only(['name', 'latitude', 'longitude', 'radius_meters', 'is_active']))
+            ->log('Updated clock-in geofence');
+
+        return back()->with('success', "Geofence {$geofence->name} saved.");
+    }
+
+    /**
+     * Remove a geofence. Its punches stay, without a site.
+     *
+     * @param Request $request
+     * @param int $geofenceId
+     * @return RedirectResponse
+     */
+    public function destroyGeofence(Request $request, int $geofenceId): RedirectResponse
+    {
+        $geofence = Geofence::findOrFail($geofenceId);
+        $geofence->delete();
+
+        activity('timekeeping')
+            ->causedBy($request->user())
+            ->withProperties($geofence->only(['name', 'latitude', 'longitude', 'radius_meters']))
+            ->log('Removed clock-in geofence');
+
+        return back()->with('success', "Geofence {$geofence->name} removed.");
+    }
+
+    /**
+     * @param Request $request
+     * @return array
+     */
+    private function validateGeofence(Request $request): array
+    {
+        return $request->validate([
+            'name' => 'required|string|max:100',
+            'address' => 'nullable|string|max:255',
+            'latitude' => 'required|numeric|between:-90,90',
+            'longitude' => 'required|numeric|between:-180,180',
+            'radius_meters' => 'required|integer|min:10|max:10000',
+            'is_active' => 'required|boolean',
+        ]);
+    }
+}
@@ -9,6 +9,7 @@
 use App\Http\Requests\HR\Timekeeping\StoreOvertimeRequest;
 use App\Http\Requests\HR\Timekeeping\UpdateOvertimeRequest;
 use App\Http\Requests\HR\Timekeeping\ProcessOvertimeRequest;
+use App\Services\Timekeeping\NightDifferentialService;
 use Carbon\Carbon;
 use Illuminate\Http\Request;
 use Illuminate\Support\Facades\Auth;
@@ -18,6 +19,10 @@
 
 class OvertimeController extends Controller
 {
+    public function __construct(
+        private NightDifferentialService $nightDifferential
+    ) {}
+
     /**
      * Display a listing of overtime records with real database data.
      */
@@ -69,6 +74,7 @@ public function index(Request $request): Response
                     'end_time' => $record->planned_end_time->format('H:i:s'),
                     'planned_hours' => $record->planned_hours,
                     'actual_hours' => $record->actual_hours,
+                    'night_diff_minutes' => $this->nightDiffMinutes($record),
                     'reason' => $record->reason,
                     'status' => $record->status,
                     'department_id' => $record->employee->department->id ?? null,
@@ -204,6 +210,7 @@ public function show(int $id): Response
                 'end_time' => $record->planned_end_time->format('H:i:s'),
                 'planned_hours' => $record->planned_hours,
                 'actual_hours' => $record->actual_hours,
+                'night_diff_minutes' => $this->nightDiffMinutes($record),
                 'reason' => $record->reason,
                 'status' => $record->status,
                 'approved_by' => $record->approver?->name,
@@ -390,4 +397,22 @@ public function getBudget(int $departmentId): JsonResponse
             ],
         ]);
     }
+
+    /**
+     * Minutes of the overtime inside the night differential window.
+     *
+     * Uses the actual span once the overtime is completed, the planned span
+     * before that.
+     *
+     * @param OvertimeRequest $record
+     * @return int
+     */
+    private function nightDiffMinutes(OvertimeRequest $record): int
+    {
+        if ($record->actual_start_time && $record->actual_end_time) {
+            return $this->nightDifferential->minutesBetween($record->actual_start_time, $record->actual_end_time);
+        }
+
+        return $this->nightDifferential->minutesBetween($record->planned_start_time, $record->planned_end_time);
+    }
 }
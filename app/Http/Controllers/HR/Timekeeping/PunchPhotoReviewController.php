@@ -0,0 +1,193 @@
+<?php
+
+namespace App\Http\Controllers\HR\Timekeeping;
+
+use App\Http\Controllers\Controller;
+use App\Models\Employee;
+use App\Models\PunchPhoto;
+use App\Services\Timekeeping\PunchPhotoReviewService;
+use Carbon\Carbon;
+use Illuminate\Http\RedirectResponse;
+use Illuminate\Http\Request;
+use Illuminate\Support\Facades\Storage;
+use Inertia\Inertia;
+use Inertia\Response;
+use Symfony\Component\HttpFoundation\StreamedResponse;
+
+/**
+ * Review queue for camera photos taken with RFID punches: HR compares each
+ * queued photo with the employee's profile photo and approves it or flags
+ * the punch as a proxy. Also edits the sampling rules that fill the queue.
+ */
+class PunchPhotoReviewController extends Controller
+{
+    public function __construct(
+        private PunchPhotoReviewService $punchPhotos
+    ) {}
+
+    /**
+     * Queued photos (pending by default) with filters, and the sampling rules.
+     *
+     * @param Request $request
+     * @return Response
+     */
+    public function index(Request $request): Response
+    {
+        // Anomalies are detected after photos arrive; pull their punches into the queue now
+        $this->punchPhotos->queueAnomalous();
+
+        $status = $request->input('status', 'pending');
+
+        $query = PunchPhoto::with([
+            'employee:id,employee_number,profile_id,department_id',
+            'employee.profile:id,first_name,last_name,profile_picture_path',
+            'employee.department:id,name',
+            'device:id,device_id,location',
+            'ledgerEntry:sequence_id,event_type',
+            'reviewer:id,name',
+        ])->where('review_status', '!=', 'not_selected')
+          ->orderByDesc('captured_at');
+
+        if ($status !== 'all') {
+            $query->where('review_status', $status);
+        }
+        if ($request->filled('reason')) {
+            $query->where('review_reason', $request->input('reason'));
+        }
+        if ($request->filled('employee_number')) {
+            $employeeIds = Employee::where('employee_number', 'like', '%' . $request->input('employee_number') . '%')->pluck('id');
+            $query->whereIn('employee_id', $employeeIds);
+        }
+        if ($request->filled('date_from')) {
+            $query->where('captured_at', '>=', $request->input('date_from'));
+        }
+        if ($request->filled('date_to')) {
+            $query->where('captured_at', '<', Carbon::parse($request->input('date_to'))->addDay()->toDateString());
+        }
+
+        $photos = $query->paginate(12)->withQueryString()->through(function (PunchPhoto $photo) {
+            $employee = $photo->employee;
+            $profilePhoto = $employee?->profile?->profile_picture_path;
+
+            return [
+                'id' => $photo->id,
+                'employee' => $employee ? [
+                    'id' => $employee->id,
+                    'employee_number' => $employee->employee_number,
+                    'name' => $employee->profile
+                        ? trim("{$employee->profile->first_name} {$employee->profile->last_name}")
+                        : $employee->employee_number,
+                    'department' => $employee->department?->name,
+                    'profile_photo_url' => $profilePhoto ? asset('storage/' . ltrim($profilePhoto, '/')) : null,
+                ] : null,
+                'device_id' => $photo->device_id,
+                'device_location' => $photo->device?->location,
+                'sequence_id' => $photo->sequence_id,
+                'event_type' => $photo->ledgerEntry?->event_type,
+                'captured_at' => $photo->captured_at->toISOString(),
+                'review_status' => $photo->review_status,
+                'review_reason' => $photo->review_reason,
+                'reviewed_by' => $photo->reviewer?->name,
+                'reviewed_at' => $photo->reviewed_at?->toISOString(),
+                'review_notes' => $photo->review_notes,
+            ];
+        });
+
+        return Inertia::render('HR/Timekeeping/PunchPhotos/Index', [
+            'photos' => $photos,
+            'pendingCount' => PunchPhoto::pending()->count(),
+            'rules' => $this->punchPhotos->rules(),
+            'filters' => [
+                'status' => $status,
+                'reason' => $request->input('reason'),
+                'employee_number' => $request->input('employee_number'),
+                'date_from' => $request->input('date_from'),
+                'date_to' => $request->input('date_to'),
+            ],
+        ]);
+    }
+
+    /**
+     * Approve a queued photo or flag its punch as a proxy.
+     *
+     * @param Request $request
+     * @param int $photoId
+     * @return RedirectResponse
+     */
+    public function review(Request $request, int $photoId): RedirectResponse
+    {
+        $validated = $request->validate([
+            'status' => 'required|in:approved,proxy',
+            'review_notes' => 'nullable|string|max:1000|required_if:status,proxy',
+        ]);
+
+        $photo = PunchPhoto::findOrFail($photoId);
+        if ($photo->review_status !== 'pending') {
+            return back()->with('error', 'This photo has already been reviewed.');
+        }
+
+        $this->punchPhotos->review($photo, $validated['status'], $request->user(), $validated['review_notes'] ?? null);
+
+        activity('timekeeping')
+            ->causedBy($request->user())
+            ->performedOn($photo)
+            ->withProperties([
+                'employee_id' => $photo->employee_id,
+                'device_id' => $photo->device_id,
+                'sequence_id' => $photo->sequence_id,
+                'captured_at' => $photo->captured_at->toISOString(),
+                'review_reason' => $photo->review_reason,
+                'status' => $photo->review_status,
+                'notes' => $photo->review_notes,
+            ])
+            ->log($photo->review_status === 'proxy' ? 'Flagged punch photo as proxy' : 'Approved punch photo');
+
+        return back()->with('success', $photo->review_status === 'proxy'
+            ? 'Punch flagged as a proxy. It shows on the employee\'s attendance record.'
+            : 'Punch photo approved.');
+    }
+
+    /**
+     * Update the rules that pick punches for review.
+     *
+     * @param Request $request
+     * @return RedirectResponse
+     */
+    public function updateRules(Request $request): RedirectResponse
+    {
+        $validated = $request->validate([
+            'sample_percent' => 'required|numeric|min:0|max:100',
+            'late_night_enabled' => 'required|boolean',
+            'late_night_start' => 'required|date_format:H:i',
+            'late_night_end' => 'required|date_format:H:i|different:late_night_start',
+            'flag_anomalies' => 'required|boolean',
+        ]);
+
+        $this->punchPhotos->updateRules([
+            'sample_percent' => round((float) $validated['sample_percent'], 2),
+            'late_night_enabled' => (bool) $validated['late_night_enabled'],
+            'late_night_start' => $validated['late_night_start'],
+            'late_night_end' => $validated['late_night_end'],
+            'flag_anomalies' => (bool) $validated['flag_anomalies'],
+        ], $request->user());
+
+        return back()->with('success', 'Sampling rules updated. They apply to photos received from now on.');
+    }
+
+    /**
+     * Stream a punch photo.
+     *
+     * @param int $photoId
+     * @return StreamedResponse
+     */
+    public function photo(int $photoId): StreamedResponse
+    {
+        $photo = PunchPhoto::findOrFail($photoId);
+
+        if (!Storage::disk('local')->exists($photo->path)) {
+            abort(404, 'The photo file is missing.');
+        }
+
+        return Storage::disk('local')->response($photo->path);
+    }
+}
@@ -8,6 +8,9 @@
 use App\Models\BadgeIssueLog;
 use App\Models\Employee;
 use App\Models\RfidCardMapping;
+use App\Rules\UnassignedCardUid;
+use App\Services\Timekeeping\CardUidNormalizer;
+use Illuminate\Http\JsonResponse;
 use Illuminate\Http\Request;
 use Illuminate\Support\Facades\Auth;
 use Illuminate\Support\Facades\DB;
@@ -245,6 +248,49 @@ public function create()
         }
     }
 
+    /**
+     * Look up existing assignments for a scanned card UID.
+     *
+     * Matches the card in any format or byte order the readers may report
+     * (hex with or without separators, decimal, reversed bytes), so the issuance
+     * and replacement forms can warn before a card is assigned twice.
+     *
+     * @param Request $request
+     * @param CardUidNormalizer $normalizer
+     * @return JsonResponse
+     */
+    public function lookup(Request $request, CardUidNormalizer $normalizer): JsonResponse
+    {
+        $validated = $request->validate([
+            'card_uid' => 'required|string|max:64',
+        ]);
+
+        $matches = RfidCardMapping::with(['employee.profile', 'employee.department'])
+            ->whereIn(DB::raw('UPPER(card_uid)'), $normalizer->variants($validated['card_uid']))
+            ->orderByDesc('is_active')
+            ->get()
+            ->map(fn (RfidCardMapping $mapping) => [
+                'id' => $mapping->id,
+                'card_uid' => $mapping->card_uid,
+                'is_active' => (bool) $mapping->is_active,
+                'employee_id' => $mapping->employee_id,
+                'employee_number' => $mapping->employee?->employee_number,
+                'employee_name' => $mapping->employee?->profile
+                    ? "{$mapping->employee->profile->first_name} {$mapping->employee->profile->last_name}"
+                    : null,
+                'department' => $mapping->employee?->department?->name,
+                'issued_at' => $mapping->issued_at?->toDateString(),
+            ]);
+
+        return response()->json([
+            'success' => true,
+            'data' => $matches,
+            'meta' => [
+                'interpretations' => $normalizer->interpretations($validated['card_uid']),
+            ],
+        ]);
+    }
+
     /**
      * Store a newly created badge in storage.
      * Task 2.3.2: Implement store() Method (Issue Badge)
@@ -269,7 +315,7 @@ public function store(Request $request)
         // Validate badge data
         $validated = $request->validate([
             'employee_id' => 'required|integer|exists:employees,id',
-            'card_uid' => 'required|string|regex:/^[0-9A-Fa-f:-]+$/|unique:rfid_card_mappings,card_uid',
+            'card_uid' => ['required', 'string', 'max:64', 'regex:/^[0-9A-Fa-f:-]+$/', new UnassignedCardUid()],
             'card_type' => 'required|in:mifare,desfire,em4100',
             'expires_at' => 'nullable|date|after:today',
             'notes' => 'nullable|string|max:1000',
@@ -7,6 +7,7 @@
 use App\Http\Requests\HR\Workforce\UpdateShiftAssignmentRequest;
 use App\Http\Requests\HR\Workforce\BulkAssignShiftsRequest;
 use App\Models\ShiftAssignment;
+use App\Services\HR\Workforce\LaborComplianceService;
 use App\Services\HR\Workforce\ShiftAssignmentService;
 use App\Services\HR\Workforce\WorkforceCoverageService;
 use Illuminate\Http\Request;
@@ -17,13 +18,16 @@ class AssignmentController extends Controller
 {
     protected ShiftAssignmentService $shiftAssignmentService;
     protected WorkforceCoverageService $workforceCoverageService;
+    protected LaborComplianceService $laborComplianceService;
 
     public function __construct(
         ShiftAssignmentService $shiftAssignmentService,
-        WorkforceCoverageService $workforceCoverageService
+        WorkforceCoverageService $workforceCoverageService,
+        LaborComplianceService $laborComplianceService
     ) {
         $this->shiftAssignmentService = $shiftAssignmentService;
         $this->workforceCoverageService = $workforceCoverageService;
+        $this->laborComplianceService = $laborComplianceService;
     }
 
     /**
@@ -85,6 +89,13 @@ public function index(Request $request): Response
             'understaffed_days' => 0, // Calculate if needed
         ];
 
+        // Labor-standards warnings for the calendar, over the dates the assignments span
+        $complianceWarnings = $assignments->isNotEmpty()
+            ? $this->laborComplianceService->groupByDate(
+                $this->laborComplianceService->scanSchedule($assignments->min('date'), $assignments->max('date'))
+            )
+            : [];
+
         $departments = \App\Models\Department::all(['id', 'name', 'code'])->toArray();
         $employees = \App\Models\Employee::with('profile:id,first_name,last_name', 'department:id,name')
             ->select('id', 'employee_number', 'department_id', 'profile_id')
@@ -123,6 +134,7 @@ public function index(Request $request): Response
             'employees' => $employees,
             'schedules' => $schedules,
             'filters' => $filters,
+            'compliance_warnings' => $complianceWarnings,
         ]);
     }
 
@@ -304,43 +316,22 @@ public function bulkAssign(): Response
      */
     public function checkBulkConflicts(Request $request)
     {
-        $employeeIds = $request->input('employee_ids', []);
-        $dateFrom = $request->input('date_from');
-        $dateTo = $request->input('date_to');
-        $shiftStart = $request->input('shift_start');
-        $shiftEnd = $request->input('shift_end');
+        $validated = $request->validate([
+            'employee_ids' => 'required|array|min:1',
+            'employee_ids.*' => 'integer|exists:employees,id',
+            'date_from' => 'required|date',
+            'date_to' => 'required|date|after_or_equal:date_from',
+            'shift_start' => 'required|date_format:H:i,H:i:s',
+            'shift_end' => 'required|date_format:H:i,H:i:s',
+        ]);
 
-        $conflicts = [];
-
-        // Check each employee for conflicts across the date range
-        foreach ($employeeIds as $employeeId) {
-            $conflictingAssignments = ShiftAssignment::where('employee_id', $employeeId)
-                ->whereBetween('date', [$dateFrom, $dateTo])
-                ->where('deleted_at', null)
-                ->get(['id', 'date', 'shift_start', 'shift_end']);
-
-            if ($conflictingAssignments->isNotEmpty()) {
-                $employee = \App\Models\Employee::with('profile:id,first_name,last_name')
-                    ->find($employeeId);
-
-                // Ensure dates are properly formatted as array
-                $conflictingDates = $conflictingAssignments
-                    ->map(function ($a) {
-                        $date = is_string($a->date) ? \Carbon\Carbon::parse($a->date) : $a->date;
-                        return $date->format('Y-m-d');
-                    })
-                    ->unique()
-                    ->values()
-                    ->toArray();
-
-                $conflicts[] = [
-                    'employee_id' => (int) $employeeId,
-                    'employee_name' => "{$employee?->profile?->first_name} {$employee?->profile?->last_name}",
-                    'conflicting_dates' => $conflictingDates,
-                    'conflict_count' => (int) count($conflictingDates),
-                ];
-            }
-        }
+        $conflicts = $this->shiftAssignmentService->detectBulkConflicts(
+            $validated['employee_ids'],
+            \Carbon\Carbon::parse($validated['date_from']),
+            \Carbon\Carbon::parse($validated['date_to']),
+            $validated['shift_start'],
+            $validated['shift_end']
+        );
 
         return response()->json([
             'conflicts' => $conflicts,
@@ -349,6 +340,33 @@ public function checkBulkConflicts(Request $request)
         ]);
     }
 
+    /**
+     * Check a single shift for conflicts before it is created or edited.
+     */
+    public function checkConflicts(Request $request)
+    {
+        $validated = $request->validate([
+            'employee_id' => 'required|integer|exists:employees,id',
+            'date' => 'required|date',
+            'shift_start' => 'required|date_format:H:i,H:i:s',
+            'shift_end' => 'required|date_format:H:i,H:i:s',
+            'exclude_assignment_id' => 'nullable|integer',
+        ]);
+
+        $conflicts = $this->shiftAssignmentService->detectConflicts(
+            \App\Models\Employee::findOrFail($validated['employee_id']),
+            \Carbon\Carbon::parse($validated['date']),
+            $validated['shift_start'],
+            $validated['shift_end'],
+            $validated['exclude_assignment_id'] ?? null
+        );
+
+        return response()->json([
+            'has_conflicts' => count($conflicts) > 0,
+            'conflicts' => $conflicts,
+        ]);
+    }
+
     /**
      * Bulk create shift assignments.
      */
@@ -385,6 +403,22 @@ public function bulkStore(BulkAssignShiftsRequest $request)
             $currentDate->addDay();
         }
 
+        if (!$allowConflicts) {
+            $conflicts = $this->shiftAssignmentService->detectBulkConflicts(
+                $employeeIds,
+                \Carbon\Carbon::parse($dateFrom),
+                \Carbon\Carbon::parse($dateTo),
+                $shiftStart,
+                $shiftEnd
+            );
+
+            if (!empty($conflicts)) {
+                return redirect()->back()
+                    ->with('error', count($conflicts) . ' employee(s) have scheduling conflicts. Check for conflicts and confirm the override to assign anyway.')
+                    ->withInput();
+            }
+        }
+
         try {
             $created = $this->shiftAssignmentService->bulkCreateAssignments(
                 $assignmentsData,
@@ -406,8 +440,14 @@ public function bulkStore(BulkAssignShiftsRequest $request)
      */
     public function detectConflicts(Request $request, string $id)
     {
-        $assignment = ShiftAssignment::findOrFail($id);
-        $conflicts = $this->shiftAssignmentService->detectConflicts($assignment);
+        $assignment = ShiftAssignment::with('employee')->findOrFail($id);
+        $conflicts = $this->shiftAssignmentService->detectConflicts(
+            $assignment->employee,
+            $assignment->date,
+            $assignment->shift_start,
+            $assignment->shift_end,
+            $assignment->id
+        );
 
         return response()->json([
             'has_conflicts' => count($conflicts) > 0,
@@ -6,6 +6,7 @@
 use App\Http\Requests\HR\Workforce\StoreEmployeeRotationRequest;
 use App\Http\Requests\HR\Workforce\UpdateEmployeeRotationRequest;
 use App\Models\EmployeeRotation;
+use App\Models\WorkSchedule;
 use App\Services\HR\Workforce\EmployeeRotationService;
 use Carbon\Carbon;
 use Illuminate\Http\Request;
@@ -14,6 +15,11 @@
 
 class RotationController extends Controller
 {
+    /**
+     * Longest range generateAssignments creates shifts for in one request.
+     */
+    public const MAX_GENERATE_DAYS = 93;
+
     protected EmployeeRotationService $employeeRotationService;
 
     public function __construct(EmployeeRotationService $employeeRotationService)
@@ -169,27 +175,55 @@ public function assignEmployees(Request $request, string $id)
             'employee_ids' => 'required|array|min:1',
             'employee_ids.*' => 'integer|exists:employees,id',
             'effective_date' => 'nullable|date',
+            'work_schedule_id' => 'nullable|integer|exists:work_schedules,id',
+            'generate_until' => 'nullable|required_with:work_schedule_id|date|after_or_equal:effective_date',
         ]);
         
         $effectiveDate = $validated['effective_date'] 
             ? Carbon::parse($validated['effective_date'])
             : now();
 
+        if (!empty($validated['work_schedule_id'])
+            && $effectiveDate->diffInDays(Carbon::parse($validated['generate_until'])) > self::MAX_GENERATE_DAYS) {
+            return redirect()->route('hr.workforce.rotations.index')->with('error', 'Shift assignments can be generated for at most ' . self::MAX_GENERATE_DAYS . ' days at a time.');
+        }
+
+        $generatedCount = 0;
+
         try {
-            $this->employeeRotationService->assignToMultipleEmployees(
+            $assignments = $this->employeeRotationService->assignToMultipleEmployees(
                 $rotation, 
                 $validated['employee_ids'], 
                 $effectiveDate,
                 null,
                 auth()->user()
             );
+
+            // Optionally create the shifts for the first stretch of the rotation
+            if (!empty($validated['work_schedule_id'])) {
+                $schedule = WorkSchedule::findOrFail($validated['work_schedule_id']);
+                foreach ($assignments as $assignment) {
+                    $generatedCount += $this->employeeRotationService->generateShiftAssignments(
+                        $assignment,
+                        $effectiveDate->copy(),
+                        Carbon::parse($validated['generate_until']),
+                        $schedule,
+                        auth()->user()
+                    )->count();
+                }
+            }
         } catch (\Exception $e) {
             return redirect()->route('hr.workforce.rotations.index')
                 ->with('error', 'Failed to assign employees: ' . $e->getMessage());
         }
 
+        $message = count($validated['employee_ids']) . ' employee(s) assigned to rotation successfully.';
+        if (!empty($validated['work_schedule_id'])) {
+            $message .= " {$generatedCount} shift assignment(s) generated.";
+        }
+
         return redirect()->route('hr.workforce.rotations.index')
-            ->with('success', count($validated['employee_ids']) . ' employee(s) assigned to rotation successfully.');
+            ->with('success', $message);
     }
 
     /**
@@ -230,21 +264,70 @@ public function duplicate(string $id)
     }
 
     /**
-     * Generate shift assignments from a rotation pattern.
+     * Generate shift assignments for everyone on a rotation over a date range.
+     * Multi-shift rotations use each day's shift; plain work/rest rotations use
+     * the work schedule's hours for the day of the week.
      */
-    public function generateShifts(Request $request, string $id)
+    public function generateAssignments(Request $request, string $id)
     {
         $rotation = EmployeeRotation::findOrFail($id);
-        $startDate = $request->input('start_date', now());
-        $endDate = $request->input('end_date', now()->addMonths(3));
 
-        $generatedCount = $this->employeeRotationService->generateShiftAssignments(
-            $rotation,
-            $startDate,
-            $endDate
-        );
+        $validated = $request->validate([
+            'work_schedule_id' => 'required|integer|exists:work_schedules,id',
+            'date_from' => 'required|date',
+            'date_to' => 'required|date|after_or_equal:date_from',
+        ]);
 
-        return redirect()->route('hr.workforce.rotations.show', $id)
+        $schedule = WorkSchedule::findOrFail($validated['work_schedule_id']);
+        $dateFrom = Carbon::parse($validated['date_from']);
+        $dateTo = Carbon::parse($validated['date_to']);
+
+        if ($dateFrom->diffInDays($dateTo) > self::MAX_GENERATE_DAYS) {
+            return back()->with('error', 'Shift assignments can be generated for at most ' . self::MAX_GENERATE_DAYS . ' days at a time.');
+        }
+
+        $assignments = $rotation->rotationAssignments()
+            ->with('rotation')
+            ->where('is_active', true)
+            ->where('start_date', '<=', $dateTo->toDateString())
+            ->where(function ($query) use ($dateFrom) {
+                $query->whereNull('end_date')
+                    ->orWhere('end_date', '>=', $dateFrom->toDateString());
+            })
+            ->get();
+
+        $generatedCount = 0;
+
+        try {
+            foreach ($assignments as $assignment) {
+                $from = $assignment->start_date->gt($dateFrom) ? $assignment->start_date->copy() : $dateFrom->copy();
+                $to = $assignment->end_date && $assignment->end_date->lt($dateTo) ? $assignment->end_date->copy() : $dateTo->copy();
+
+                $generatedCount += $this->employeeRotationService->generateShiftAssignments(
+                    $assignment,
+                    $from,
+                    $to,
+                    $schedule,
+                    $request->user()
+                )->count();
+            }
+        } catch (\Exception $e) {
+            return back()->with('error', 'Failed to generate shift assignments: ' . $e->getMessage());
+        }
+
+        activity('workforce')
+            ->causedBy($request->user())
+            ->performedOn($rotation)
+            ->withProperties([
+                'work_schedule_id' => $schedule->id,
+                'date_from' => $dateFrom->toDateString(),
+                'date_to' => $dateTo->toDateString(),
+                'employees' => $assignments->count(),
+                'generated' => $generatedCount,
+            ])
+            ->log('Generated shift assignments from rotation');
+
+        return redirect()->route('hr.workforce.rotations.index')
             ->with('success', "{$generatedCount} shift assignment(s) generated successfully.");
     }
 
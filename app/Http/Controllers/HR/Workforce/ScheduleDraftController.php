@@ -0,0 +1,352 @@
+<?php
+
+namespace App\Http\Controllers\HR\Workforce;
+
+use App\Http\Controllers\Controller;
+use App\Models\Department;
+use App\Models\Employee;
+use App\Models\ScheduleDraft;
+use App\Models\ScheduleDraftShift;
+use App\Models\WorkSchedule;
+use App\Services\HR\Workforce\LaborComplianceService;
+use App\Services\HR\Workforce\ScheduleGeneratorService;
+use Carbon\Carbon;
+use Illuminate\Http\RedirectResponse;
+use Illuminate\Http\Request;
+use Illuminate\Validation\Rule;
+use Inertia\Inertia;
+use Inertia\Response;
+
+/**
+ * Schedule generator: generate a department's draft schedule from coverage
+ * targets, review and adjust its shifts, then publish or discard it.
+ */
+class ScheduleDraftController extends Controller
+{
+    public function __construct(
+        private ScheduleGeneratorService $generator,
+        private LaborComplianceService $laborCompliance
+    ) {}
+
+    /**
+     * Generator form and the recent drafts.
+     *
+     * @return Response
+     */
+    public function index(): Response
+    {
+        $drafts = ScheduleDraft::with(['department:id,name', 'creator:id,name'])
+            ->withCount('shifts')
+            ->latest()
+            ->limit(20)
+            ->get()
+            ->map(fn (ScheduleDraft $draft) => [
+                'id' => $draft->id,
+                'department_name' => $draft->department?->name,
+                'date_from' => $draft->date_from->toDateString(),
+                'date_to' => $draft->date_to->toDateString(),
+                'status' => $draft->status,
+                'shift_count' => $draft->shifts_count,
+                'shortage' => $draft->shortage,
+                'created_by' => $draft->creator?->name,
+                'created_at' => $draft->created_at?->toISOString(),
+            ]);
+
+        return Inertia::render('HR/Workforce/Assignments/Generate', [
+            'departments' => Department::all(['id', 'name', 'code'])->toArray(),
+            'schedules' => $this->scheduleOptions(),
+            'drafts' => $drafts,
+            'maxRangeDays' => ScheduleGeneratorService::MAX_RANGE_DAYS,
+        ]);
+    }
+
+    /**
+     * Generate a draft.
+     *
+     * @param Request $request
+     * @return RedirectResponse
+     */
+    public function store(Request $request): RedirectResponse
+    {
+        $validated = $request->validate([
+            'department_id' => 'required|integer|exists:departments,id',
+            'date_from' => 'required|date',
+            'date_to' => 'required|date|after_or_equal:date_from',
+            'targets' => 'required|array|min:1|max:5',
+            'targets.*.shift_type' => ['required', Rule::in(['morning', 'afternoon', 'night', 'split', 'custom'])],
+            'targets.*.schedule_id' => 'required|integer|exists:work_schedules,id',
+            'targets.*.shift_start' => 'required|date_format:H:i,H:i:s',
+            'targets.*.shift_end' => 'required|date_format:H:i,H:i:s',
+            'targets.*.headcount' => 'required|array',
+            'targets.*.headcount.*' => 'integer|min:0|max:100',
+        ]);
+
+        try {
+            $draft = $this->generator->generate(
+                (int) $validated['department_id'],
+                Carbon::parse($validated['date_from']),
+                Carbon::parse($validated['date_to']),
+                $validated['targets'],
+                $request->user()
+            );
+        } catch (\InvalidArgumentException $e) {
+            return back()->with('error', $e->getMessage())->withInput();
+        }
+
+        $shiftCount = $draft->shifts()->count();
+
+        activity('workforce')
+            ->causedBy($request->user())
+            ->performedOn($draft)
+            ->withProperties([
+                'department_id' => $draft->department_id,
+                'date_from' => $draft->date_from->toDateString(),
+                'date_to' => $draft->date_to->toDateString(),
+                'coverage_targets' => $draft->coverage_targets,
+                'shifts' => $shiftCount,
+                'shortage' => $draft->shortage,
+            ])
+            ->log('Generated schedule draft');
+
+        $message = "Draft generated with {$shiftCount} shift(s).";
+        if ($draft->shortage > 0) {
+            $message .= " {$draft->shortage} shift(s) could not be covered; see the coverage gaps.";
+        }
+
+        return redirect()->route('hr.workforce.assignments.drafts.show', $draft->id)->with('success', $message);
+    }
+
+    /**
+     * Review a draft on the assignment calendar.
+     *
+     * @param int $draftId
+     * @return Response
+     */
+    public function show(int $draftId): Response
+    {
+        $draft = ScheduleDraft::with(['department:id,name', 'creator:id,name', 'publisher:id,name'])->findOrFail($draftId);
+
+        $shifts = $draft->shifts()
+            ->with(['employee:id,employee_number,profile_id', 'employee.profile:id,first_name,last_name', 'schedule:id,name'])
+            ->orderBy('date')
+            ->orderBy('shift_start')
+            ->get()
+            ->map(fn (ScheduleDraftShift $shift) => [
+                'id' => $shift->id,
+                'employee_id' => $shift->employee_id,
+                'employee_name' => "{$shift->employee?->profile?->first_name} {$shift->employee?->profile?->last_name}",
+                'employee_number' => $shift->employee?->employee_number,
+                'schedule_id' => $shift->schedule_id,
+                'schedule_name' => $shift->schedule?->name,
+                'date' => $shift->date->toDateString(),
+                'shift_type' => $shift->shift_type,
+                'shift_start' => $shift->shift_start,
+                'shift_end' => $shift->shift_end,
+                'source' => $shift->source,
+                'has_conflict' => $shift->has_conflict,
+                'conflict_reason' => $shift->conflict_reason,
+            ]);
+
+        $employees = Employee::with('profile:id,first_name,last_name')
+            ->active()
+            ->where('department_id', $draft->department_id)
+            ->orderBy('employee_number')
+            ->get(['id', 'employee_number', 'profile_id', 'department_id'])
+            ->map(fn (Employee $employee) => [
+                'id' => $employee->id,
+                'employee_number' => $employee->employee_number,
+                'full_name' => "{$employee->profile?->first_name} {$employee->profile?->last_name}",
+                'department_id' => $employee->department_id,
+            ]);
+
+        // Published shifts are assignments already; only an open draft adds its own
+        $complianceWarnings = $this->laborCompliance->groupByDate($this->laborCompliance->scanSchedule(
+            $draft->date_from,
+            $draft->date_to,
+            $employees->pluck('id')->merge($shifts->pluck('employee_id'))->unique()->values()->all(),
+            $draft->isEditable() ? $shifts->all() : []
+        ));
+
+        return Inertia::render('HR/Workforce/Assignments/Draft', [
+            'draft' => [
+                'id' => $draft->id,
+                'department_id' => $draft->department_id,
+                'department_name' => $draft->department?->name,
+                'date_from' => $draft->date_from->toDateString(),
+                'date_to' => $draft->date_to->toDateString(),
+                'status' => $draft->status,
+                'coverage_targets' => $draft->coverage_targets,
+                'gaps' => $draft->gaps ?? [],
+                'shortage' => $draft->shortage,
+                'created_by' => $draft->creator?->name,
+                'created_at' => $draft->created_at?->toISOString(),
+                'published_by' => $draft->publisher?->name,
+                'published_at' => $draft->published_at?->toISOString(),
+            ],
+            'shifts' => $shifts,
+            'employees' => $employees,
+            'compliance_warnings' => $complianceWarnings,
+        ]);
+    }
+
+    /**
+     * Add a shift to a draft.
+     *
+     * @param Request $request
+     * @param int $draftId
+     * @return RedirectResponse
+     */
+    public function storeShift(Request $request, int $draftId): RedirectResponse
+    {
+        $validated = $request->validate([
+            'employee_id' => 'required|integer|exists:employees,id',
+            'date' => 'required|date',
+            'shift_type' => 'required|string',
+        ]);
+
+        $draft = ScheduleDraft::findOrFail($draftId);
+
+        try {
+            $shift = $this->generator->addShift(
+                $draft,
+                (int) $validated['employee_id'],
+                Carbon::parse($validated['date']),
+                $validated['shift_type']
+            );
+        } catch (\InvalidArgumentException $e) {
+            return back()->with('error', $e->getMessage());
+        }
+
+        return back()->with(
+            $shift->has_conflict ? 'error' : 'success',
+            $shift->has_conflict ? "Shift added with a conflict: {$shift->conflict_reason}" : 'Shift added to the draft.'
+        );
+    }
+
+    /**
+     * Give a draft shift to another employee.
+     *
+     * @param Request $request
+     * @param int $draftId
+     * @param int $shiftId
+     * @return RedirectResponse
+     */
+    public function updateShift(Request $request, int $draftId, int $shiftId): RedirectResponse
+    {
+        $validated = $request->validate([
+            'employee_id' => 'required|integer|exists:employees,id',
+        ]);
+
+        $shift = ScheduleDraftShift::where('schedule_draft_id', $draftId)->findOrFail($shiftId);
+
+        try {
+            $shift = $this->generator->reassignShift($shift, (int) $validated['employee_id']);
+        } catch (\InvalidArgumentException $e) {
+            return back()->with('error', $e->getMessage());
+        }
+
+        return back()->with(
+            $shift->has_conflict ? 'error' : 'success',
+            $shift->has_conflict ? "Shift reassigned with a conflict: {$shift->conflict_reason}" : 'Shift reassigned.'
+        );
+    }
+
+    /**
+     * Remove a shift from a draft.
+     *
+     * @param int $draftId
+     * @param int $shiftId
+     * @return RedirectResponse
+     */
+    public function destroyShift(int $draftId, int $shiftId): RedirectResponse
+    {
+        $shift = ScheduleDraftShift::where('schedule_draft_id', $draftId)->findOrFail($shiftId);
+
+        try {
+            $this->generator->removeShift($shift);
+        } catch (\InvalidArgumentException $e) {
+            return back()->with('error', $e->getMessage());
+        }
+
+        return back()->with('success', 'Shift removed from the draft.');
+    }
+
+    /**
+     * Publish a draft as shift assignments.
+     *
+     * @param Request $request
+     * @param int $draftId
+     * @return RedirectResponse
+     */
+    public function publish(Request $request, int $draftId): RedirectResponse
+    {
+        $draft = ScheduleDraft::findOrFail($draftId);
+
+        try {
+            $result = $this->generator->publish($draft, $request->user());
+        } catch (\InvalidArgumentException $e) {
+            return back()->with('error', $e->getMessage());
+        }
+
+        activity('workforce')
+            ->causedBy($request->user())
+            ->performedOn($draft)
+            ->withProperties($result + ['shortage' => $draft->shortage])
+            ->log('Published schedule draft');
+
+        $message = "{$result['created']} shift assignment(s) created.";
+        if ($result['conflicts'] > 0) {
+            $message .= " {$result['conflicts']} have conflicts to review.";
+        }
+        if ($result['skipped'] > 0) {
+            $message .= " {$result['skipped']} skipped because the employee already had that shift.";
+        }
+
+        return redirect()->route('hr.workforce.assignments.index')->with('success', $message);
+    }
+
+    /**
+     * Discard a draft.
+     *
+     * @param Request $request
+     * @param int $draftId
+     * @return RedirectResponse
+     */
+    public function destroy(Request $request, int $draftId): RedirectResponse
+    {
+        $draft = ScheduleDraft::findOrFail($draftId);
+
+        try {
+            $this->generator->discard($draft);
+        } catch (\InvalidArgumentException $e) {
+            return back()->with('error', $e->getMessage());
+        }
+
+        activity('workforce')
+            ->causedBy($request->user())
+            ->performedOn($draft)
+            ->log('Discarded schedule draft');
+
+        return redirect()->route('hr.workforce.assignments.drafts.index')->with('success', 'Draft discarded.');
+    }
+
+    /**
+     * Active work schedules with their department and Monday hours as the
+     * default shift times.
+     *
+     * @return array<int, array>
+     */
+    private function scheduleOptions(): array
+    {
+        return WorkSchedule::where('status', 'active')
+            ->get(['id', 'name', 'department_id', 'monday_start', 'monday_end'])
+            ->map(fn (WorkSchedule $schedule) => [
+                'id' => $schedule->id,
+                'name' => $schedule->name,
+                'department_id' => $schedule->department_id,
+                'shift_start' => $schedule->monday_start,
+                'shift_end' => $schedule->monday_end,
+            ])
+            ->toArray();
+    }
+}
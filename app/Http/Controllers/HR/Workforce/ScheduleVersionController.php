@@ -0,0 +1,137 @@
+<?php
+
+namespace App\Http\Controllers\HR\Workforce;
+
+use App\Http\Controllers\Controller;
+use App\Models\ScheduleVersion;
+use App\Models\WorkSchedule;
+use App\Services\HR\Workforce\SchedulePublishingService;
+use Carbon\Carbon;
+use Illuminate\Http\RedirectResponse;
+use Illuminate\Http\Request;
+use Inertia\Inertia;
+use Inertia\Response;
+
+/**
+ * Published versions of a work schedule: publish the schedule hours or a
+ * week of its shift assignments, review unpublished changes, and compare
+ * each version with the one before it.
+ */
+class ScheduleVersionController extends Controller
+{
+    public function __construct(
+        private SchedulePublishingService $publishing
+    ) {}
+
+    /**
+     * Version history, the selected version, and the unpublished changes of
+     * the schedule hours or of the selected week.
+     *
+     * @param Request $request
+     * @param string $id
+     * @return Response
+     */
+    public function index(Request $request, string $id): Response
+    {
+        $schedule = WorkSchedule::findOrFail($id);
+
+        $validated = $request->validate([
+            'week' => 'nullable|date',
+            'version' => 'nullable|integer',
+        ]);
+
+        $week = isset($validated['week']) ? Carbon::parse($validated['week'])->startOfWeek(Carbon::MONDAY) : null;
+
+        $versions = $schedule->versions()
+            ->with('publisher:id,name')
+            ->orderByDesc('published_at')
+            ->orderByDesc('id')
+            ->limit(50)
+            ->get();
+
+        $selected = isset($validated['version'])
+            ? $schedule->versions()->with('publisher:id,name')->find($validated['version'])
+            : null;
+
+        return Inertia::render('HR/Workforce/Schedules/Versions', [
+            'schedule' => [
+                'id' => $schedule->id,
+                'name' => $schedule->name,
+                'status' => $schedule->status,
+                'is_template' => (bool) $schedule->is_template,
+            ],
+            'versions' => $versions->map(fn (ScheduleVersion $version) => $this->versionData($version))->values(),
+            'selected' => $selected ? $this->versionData($selected) + [
+                'diff' => $selected->diff,
+                'snapshot' => $selected->snapshot,
+            ] : null,
+            'preview' => [
+                'week_start' => $week?->toDateString(),
+            ] + $this->publishing->preview($schedule, $week),
+        ]);
+    }
+
+    /**
+     * Publish the schedule hours, or a week of shift assignments.
+     *
+     * @param Request $request
+     * @param string $id
+     * @return RedirectResponse
+     */
+    public function publish(Request $request, string $id): RedirectResponse
+    {
+        $schedule = WorkSchedule::findOrFail($id);
+
+        $validated = $request->validate([
+            'week_start' => 'nullable|date',
+            'note' => 'nullable|string|max:500',
+        ]);
+
+        $week = isset($validated['week_start']) ? Carbon::parse($validated['week_start']) : null;
+
+        try {
+            $version = $this->publishing->publish($schedule, $week, $request->user(), $validated['note'] ?? null);
+        } catch (\InvalidArgumentException $e) {
+            return back()->with('error', $e->getMessage());
+        }
+
+        activity('workforce')
+            ->causedBy($request->user())
+            ->performedOn($version)
+            ->withProperties([
+                'work_schedule_id' => $schedule->id,
+                'week_start' => $version->week_start?->toDateString(),
+                'version' => $version->version,
+                'notified' => $version->notified_count,
+            ])
+            ->log('Published schedule version');
+
+        return redirect()
+            ->route('hr.workforce.schedules.versions', [
+                'id' => $schedule->id,
+                'week' => $version->week_start?->toDateString(),
+                'version' => $version->id,
+            ])
+            ->with('success', "Version {$version->version} published. {$version->notified_count} employee(s) notified.");
+    }
+
+    private function versionData(ScheduleVersion $version): array
+    {
+        return [
+            'id' => $version->id,
+            'week_start' => $version->week_start?->toDateString(),
+            'version' => $version->version,
+            'note' => $version->note,
+            'notified_count' => $version->notified_count,
+            'published_by' => $version->publisher?->name,
+            'published_at' => $version->published_at->toISOString(),
+            'summary' => [
+                'hours' => count($version->diff['hours'] ?? []),
+                'gained' => count($version->diff['gained'] ?? []),
+                'lost' => count($version->diff['lost'] ?? []),
+                'changed' => count($version->diff['changed'] ?? []),
+                'employees' => count($version->diff['employee_ids'] ?? []),
+            ],
+        ];
+    }
+}
@@ -0,0 +1,161 @@
+<?php
+
+namespace App\Http\Controllers\HR\Workforce;
+
+use App\Http\Controllers\Controller;
+use App\Models\ShiftAssignment;
+use App\Models\ShiftSwapRequest;
+use App\Services\HR\Workforce\ShiftSwapService;
+use Illuminate\Http\RedirectResponse;
+use Illuminate\Http\Request;
+use Inertia\Inertia;
+use Inertia\Response;
+
+/**
+ * Final approval of employee shift swaps and give-aways. Department heads see
+ * the requests of their own departments; requests from departments without a
+ * head go to anyone allowed to approve swaps.
+ */
+class ShiftSwapApprovalController extends Controller
+{
+    public function __construct(
+        private ShiftSwapService $swaps
+    ) {}
+
+    /**
+     * Requests awaiting the user's approval and recent decisions.
+     *
+     * @param Request $request
+     * @return Response
+     */
+    public function index(Request $request): Response
+    {
+        $user = $request->user();
+        $relations = ['shift', 'targetShift', 'requester.profile', 'targetEmployee.profile', 'department:id,name,manager_id', 'decider:id,name'];
+
+        $pending = ShiftSwapRequest::with($relations)
+            ->where('status', 'pending_approval')
+            ->oldest('responded_at')
+            ->get()
+            ->filter(fn (ShiftSwapRequest $swap) => $this->swaps->canApprove($swap, $user))
+            ->map(fn (ShiftSwapRequest $swap) => $this->swapData($swap))
+            ->values();
+
+        $recent = ShiftSwapRequest::with($relations)
+            ->whereIn('status', ['approved', 'rejected'])
+            ->latest('decided_at')
+            ->limit(50)
+            ->get()
+            ->filter(fn (ShiftSwapRequest $swap) => $this->swaps->canApprove($swap, $user))
+            ->take(20)
+            ->map(fn (ShiftSwapRequest $swap) => $this->swapData($swap))
+            ->values();
+
+        return Inertia::render('HR/Workforce/ShiftSwaps/Index', [
+            'pending' => $pending,
+            'recent' => $recent,
+            'maxWeeklyHours' => $this->swaps->maxWeeklyHours(),
+        ]);
+    }
+
+    /**
+     * Approve a request and hand the shifts over.
+     *
+     * @param Request $request
+     * @param int $id
+     * @return RedirectResponse
+     */
+    public function approve(Request $request, int $id): RedirectResponse
+    {
+        $validated = $request->validate([
+            'note' => 'nullable|string|max:500',
+        ]);
+
+        $swap = ShiftSwapRequest::findOrFail($id);
+
+        try {
+            $this->swaps->approve($swap, $request->user(), $validated['note'] ?? null);
+        } catch (\InvalidArgumentException $e) {
+            return back()->with('error', $e->getMessage());
+        }
+
+        activity('workforce')
+            ->causedBy($request->user())
+            ->performedOn($swap)
+            ->withProperties([
+                'type' => $swap->type,
+                'shift_assignment_id' => $swap->shift_assignment_id,
+                'target_shift_assignment_id' => $swap->target_shift_assignment_id,
+                'requester_id' => $swap->requester_id,
+                'target_employee_id' => $swap->target_employee_id,
+            ])
+            ->log('Approved shift swap');
+
+        return back()->with('success', 'Request approved. The shift assignments have been updated.');
+    }
+
+    /**
+     * Reject a request.
+     *
+     * @param Request $request
+     * @param int $id
+     * @return RedirectResponse
+     */
+    public function reject(Request $request, int $id): RedirectResponse
+    {
+        $validated = $request->validate([
+            'note' => 'nullable|string|max:500',
+        ]);
+
+        $swap = ShiftSwapRequest::findOrFail($id);
+
+        try {
+            $this->swaps->reject($swap, $request->user(), $validated['note'] ?? null);
+        } catch (\InvalidArgumentException $e) {
+            return back()->with('error', $e->getMessage());
+        }
+
+        activity('workforce')
+            ->causedBy($request->user())
+            ->performedOn($swap)
+            ->withProperties(['type' => $swap->type, 'note' => $swap->decision_note])
+            ->log('Rejected shift swap');
+
+        return back()->with('success', 'Request rejected.');
+    }
+
+    private function shiftData(?ShiftAssignment $shift): ?array
+    {
+        if (!$shift) {
+            return null;
+        }
+
+        return [
+            'id' => $shift->id,
+            'date' => $shift->date->toDateString(),
+            'shift_start' => $shift->shift_start,
+            'shift_end' => $shift->shift_end,
+            'shift_type' => $shift->shift_type,
+        ];
+    }
+
+    private function swapData(ShiftSwapRequest $swap): array
+    {
+        return [
+            'id' => $swap->id,
+            'type' => $swap->type,
+            'status' => $swap->status,
+            'department_name' => $swap->department?->name,
+            'shift' => $this->shiftData($swap->shift),
+            'target_shift' => $this->shiftData($swap->targetShift),
+            'requester_name' => $swap->requester?->profile?->full_name,
+            'target_employee_name' => $swap->targetEmployee?->profile?->full_name,
+            'eligibility' => $swap->eligibility ?? [],
+            'note' => $swap->note,
+            'decision_note' => $swap->decision_note,
+            'decided_by' => $swap->decider?->name,
+            'decided_at' => $swap->decided_at?->toISOString(),
+            'responded_at' => $swap->responded_at?->toISOString(),
+        ];
+    }
+}
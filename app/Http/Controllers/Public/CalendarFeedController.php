@@ -0,0 +1,32 @@
+<?php
+
+namespace App\Http\Controllers\Public;
+
+use App\Http\Controllers\Controller;
+use App\Services\CalendarFeedService;
+use Illuminate\Http\Response;
+
+class CalendarFeedController extends Controller
+{
+    public function __construct(
+        protected CalendarFeedService $calendarFeedService
+    ) {}
+
+    /**
+     * Serve a secret iCalendar feed (public access, authenticated by the token in the URL).
+     */
+    public function show(string $token): Response
+    {
+        $feed = $this->calendarFeedService->resolve($token);
+
+        if (!$feed || !$feed->user || !$feed->user->is_active) {
+            abort(404);
+        }
+
+        return response($this->calendarFeedService->render($feed->user), 200, [
+            'Content-Type' => 'text/calendar; charset=utf-8',
+            'Content-Disposition' => 'inline; filename="calendar.ics"',
+            'Cache-Control' => 'private, max-age=300',
+        ]);
+    }
+}
@@ -0,0 +1,73 @@
+<?php
+
+namespace App\Http\Controllers\Settings;
+
+use App\Http\Controllers\Controller;
+use App\Models\CalendarFeedToken;
+use App\Services\CalendarFeedService;
+use Illuminate\Http\RedirectResponse;
+use Illuminate\Http\Request;
+use Inertia\Inertia;
+use Inertia\Response;
+
+class CalendarFeedController extends Controller
+{
+    public function __construct(
+        protected CalendarFeedService $calendarFeedService
+    ) {}
+
+    /**
+     * Show the user's calendar feed settings page.
+     */
+    public function edit(Request $request): Response
+    {
+        $feeds = $request->user()->calendarFeedTokens()
+            ->latest()
+            ->get()
+            ->map(fn (CalendarFeedToken $feed) => [
+                'id' => $feed->id,
+                'name' => $feed->name,
+                'token_prefix' => $feed->token_prefix,
+                'created_at' => $feed->created_at?->toIso8601String(),
+                'last_used_at' => $feed->last_used_at?->toIso8601String(),
+                'revoked_at' => $feed->revoked_at?->toIso8601String(),
+            ]);
+
+        return Inertia::render('settings/calendar', [
+            'feeds' => $feeds,
+            'maxActiveFeeds' => CalendarFeedService::MAX_ACTIVE_FEEDS,
+        ]);
+    }
+
+    /**
+     * Create a feed; its URL is flashed once and never shown again.
+     */
+    public function store(Request $request): RedirectResponse
+    {
+        $validated = $request->validate([
+            'name' => ['required', 'string', 'max:60'],
+        ]);
+
+        try {
+            ['token' => $token] = $this->calendarFeedService->issue($request->user(), $validated['name']);
+        } catch (\InvalidArgumentException $e) {
+            return back()->with('error', $e->getMessage());
+        }
+
+        return back()
+            ->with('success', 'Calendar feed created. Copy the URL now; it will not be shown again.')
+            ->with('calendar_feed_url', route('calendar.feed', ['token' => $token]));
+    }
+
+    /**
+     * Revoke a feed; calendar apps subscribed to it stop receiving updates.
+     */
+    public function destroy(Request $request, int $id): RedirectResponse
+    {
+        $feed = $request->user()->calendarFeedTokens()->active()->findOrFail($id);
+
+        $feed->update(['revoked_at' => now()]);
+
+        return back()->with('success', "Calendar feed \"{$feed->name}\" revoked.");
+    }
+}
@@ -3,6 +3,7 @@
 namespace App\Http\Controllers\System\Reports;
 
 use App\Http\Controllers\Controller;
+use App\Services\HR\Workforce\LaborComplianceService;
 use App\Services\System\DatabaseCompatibilityService;
 use Illuminate\Http\Request;
 use Illuminate\Support\Facades\DB;
@@ -11,6 +12,10 @@
 
 class ComplianceController extends Controller
 {
+    public function __construct(
+        protected LaborComplianceService $laborComplianceService
+    ) {}
+
     /**
      * Display workforce compliance reports
      */
@@ -33,7 +38,8 @@ public function index(Request $request): Response
         $attendanceAnomalies = $this->getAttendanceAnomalies($from, $to);
         $leaveBalanceDiscrepancies = $this->getLeaveBalanceDiscrepancies($from, $to);
         $complianceChecks = $this->getRegulatoryComplianceChecks($from, $to);
-        $complianceSummary = $this->getComplianceSummary($from, $to);
+        $laborStandards = $this->laborComplianceService->report($from, $to);
+        $complianceSummary = $this->getComplianceSummary($from, $to, $laborStandards['total_violations']);
 
         $breadcrumbs = [
             ['title' => 'Dashboard', 'href' => '/dashboard'],
@@ -46,6 +52,7 @@ public function index(Request $request): Response
             'attendance_anomalies' => $attendanceAnomalies,
             'leave_balance_discrepancies' => $leaveBalanceDiscrepancies,
             'compliance_checks' => $complianceChecks,
+            'labor_standards' => $laborStandards,
             'compliance_summary' => $complianceSummary,
             'from_date' => $from->format('Y-m-d'),
             'to_date' => $to->format('Y-m-d'),
@@ -296,7 +303,7 @@ private function getRegulatoryComplianceChecks(Carbon $from, Carbon $to): array
     /**
      * Get compliance summary
      */
-    private function getComplianceSummary(Carbon $from, Carbon $to): array
+    private function getComplianceSummary(Carbon $from, Carbon $to, int $laborViolations): array
     {
         $violations = DB::table('security_audit_logs')
             ->where('event_type', 'like', '%overtime%')
@@ -318,7 +325,7 @@ private function getComplianceSummary(Carbon $from, Carbon $to): array
             ->whereBetween('created_at', [$from, $to])
             ->count();
 
-        $totalIssues = $violations + $anomalies + $discrepancies + $complianceChecks;
+        $totalIssues = $violations + $anomalies + $discrepancies + $complianceChecks + $laborViolations;
 
         return [
             'total_issues' => $totalIssues,
@@ -326,6 +333,7 @@ private function getComplianceSummary(Carbon $from, Carbon $to): array
             'attendance_anomalies' => $anomalies,
             'leave_discrepancies' => $discrepancies,
             'failed_compliance_checks' => $complianceChecks,
+            'labor_standard_violations' => $laborViolations,
             'compliance_score' => $totalIssues === 0 ? 100 : max(0, 100 - ($totalIssues * 5)),
             'period_start' => $from->format('Y-m-d'),
             'period_end' => $to->format('Y-m-d'),
@@ -60,6 +60,7 @@ public function store(Request $request): RedirectResponse
             'device_name' => ['required', 'string', 'max:255'],
             'location'    => ['required', 'string', 'max:255'],
             'config'      => ['nullable', 'array'],
+            'config.kind' => ['nullable', 'in:gate,kiosk'],
         ]);
 
         RfidDevice::create([
@@ -70,8 +71,10 @@ public function store(Request $request): RedirectResponse
             'config'      => $validated['config'] ?? null,
         ]);
 
+        $client = data_get($validated, 'config.kind') === 'kiosk' ? 'the kiosk tablet' : 'the gate PC';
+
         return redirect()->route('system.timekeeping.devices.index')
-            ->with('success', "Device '{$validated['device_id']}' registered. Generate an API key so the gate PC can connect.");
+            ->with('success', "Device '{$validated['device_id']}' registered. Generate an API key so {$client} can connect.");
     }
 
     /**
@@ -124,7 +127,7 @@ public function generateKey(RfidDevice $device): RedirectResponse
     {
         $rawKey = bin2hex(random_bytes(32)); // 64 hex characters
 
-        $device->update(['api_key' => $rawKey]);
+        $device->update(['api_key' => $rawKey, 'previous_api_key' => null]);
 
         Log::info("API key generated for RFID device: {$device->device_id}");
 
@@ -138,7 +141,7 @@ public function generateKey(RfidDevice $device): RedirectResponse
      */
     public function revokeKey(RfidDevice $device): RedirectResponse
     {
-        $device->update(['api_key' => null]);
+        $device->update(['api_key' => null, 'previous_api_key' => null]);
 
         Log::info("API key revoked for RFID device: {$device->device_id}");
 
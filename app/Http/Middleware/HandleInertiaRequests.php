@@ -57,6 +57,7 @@ public function share(Request $request): array
                 'generated_api_key' => $request->session()->get('generated_api_key'),
                 'for_device_id'     => $request->session()->get('for_device_id'),
                 'new_password'      => $request->session()->get('new_password'),
+                'calendar_feed_url' => $request->session()->get('calendar_feed_url'),
             ],
         ];
     }
@@ -0,0 +1,85 @@
+<?php
+
+namespace App\Http\Requests\Employee;
+
+use App\Models\MobilePunch;
+use Illuminate\Foundation\Http\FormRequest;
+
+class MobileClockInRequest extends FormRequest
+{
+    /**
+     * Determine if the user is authorized to make this request.
+     *
+     * Authorization is handled by the Employee middleware (EnsureEmployee)
+     * and controller-level checks. This method just returns true.
+     */
+    public function authorize(): bool
+    {
+        return true;
+    }
+
+    /**
+     * Get the validation rules that apply to the request.
+     *
+     * A portal punch carries:
+     * - event_type: time_in, time_out, break_start or break_end
+     * - latitude/longitude: position reported by the browser's geolocation API
+     * - accuracy: reported accuracy radius in metres (optional)
+     * - selfie: photo taken at the punch (optional)
+     *
+     * @return array<string, \Illuminate\Contracts\Validation\ValidationRule|array<mixed>|string>
+     */
+    public function rules(): array
+    {
+        return [
+            'event_type' => [
+                'required',
+                'in:' . implode(',', MobilePunch::EVENT_TYPES),
+            ],
+            'latitude' => [
+                'required',
+                'numeric',
+                'between:-90,90',
+            ],
+            'longitude' => [
+                'required',
+                'numeric',
+                'between:-180,180',
+            ],
+            'accuracy' => [
+                'nullable',
+                'numeric',
+                'min:0',
+            ],
+            'selfie' => [
+                'nullable',
+                'image',
+                'max:5120', // 5MB
+            ],
+        ];
+    }
+
+    /**
+     * Get custom attribute names for error messages.
+     */
+    public function attributes(): array
+    {
+        return [
+            'event_type' => 'punch type',
+            'accuracy' => 'location accuracy',
+        ];
+    }
+
+    /**
+     * Get custom error messages for validation rules.
+     */
+    public function messages(): array
+    {
+        return [
+            'latitude.required' => 'Your location is required to clock in. Please allow location access in your browser.',
+            'longitude.required' => 'Your location is required to clock in. Please allow location access in your browser.',
+            'selfie.image' => 'The selfie must be a photo.',
+            'selfie.max' => 'The selfie cannot be larger than 5MB.',
+        ];
+    }
+}
@@ -2,6 +2,7 @@
 
 namespace App\Http\Requests\HR\Timekeeping;
 
+use App\Rules\UnassignedCardUid;
 use Illuminate\Foundation\Http\FormRequest;
 
 class ReplaceBadgeRequest extends FormRequest
@@ -27,8 +28,9 @@ public function rules(): array
             'new_card_uid' => [
                 'required',
                 'string',
-                'regex:/^([0-9A-Fa-f]{2}[:-]){5}([0-9A-Fa-f]{2})$/',
-                'unique:rfid_card_mappings,card_uid',
+                'max:64',
+                'regex:/^[0-9A-Fa-f:-]+$/',
+                new UnassignedCardUid(),
             ],
             'card_type' => ['nullable', 'in:mifare,desfire,em4100'],
             'expires_at' => ['nullable', 'date', 'after:today'],
@@ -47,8 +49,7 @@ public function messages(): array
             'reason.in' => 'The selected reason is invalid.',
             'reason_notes.required_if' => 'Please provide additional notes when selecting "Other" as the reason.',
             'new_card_uid.required' => 'Please enter the new card UID.',
-            'new_card_uid.regex' => 'Card UID must be in format XX:XX:XX:XX:XX:XX.',
-            'new_card_uid.unique' => 'This card UID is already registered in the system.',
+            'new_card_uid.regex' => 'Card UID must be hex (e.g. 04:3A:B2:C5:D8) or a numeric reader ID.',
             'card_type.in' => 'The selected card type is invalid.',
             'expires_at.date' => 'The expiration date must be a valid date.',
             'expires_at.after' => 'The expiration date must be in the future.',
@@ -2,6 +2,7 @@
 
 namespace App\Http\Requests\HR\Workforce;
 
+use App\Models\EmployeeRotation;
 use Illuminate\Foundation\Http\FormRequest;
 use Illuminate\Validation\Rule;
 
@@ -105,6 +106,13 @@ protected function withValidator($validator)
                 return;
             }
             
+            // Validate the shift of each work day for multi-shift patterns
+            $shiftError = EmployeeRotation::validateShiftDefinitions($patternJson);
+            if ($shiftError !== null) {
+                $validator->errors()->add('pattern_json', $shiftError);
+                return;
+            }
+            
             // Validate against pattern type
             $patternType = $this->input('pattern_type');
             $expectedPatterns = [
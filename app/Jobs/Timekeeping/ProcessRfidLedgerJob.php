@@ -2,12 +2,14 @@
 
 namespace App\Jobs\Timekeeping;
 
+use App\Services\Timekeeping\AnomalyDetectionService;
 use App\Services\Timekeeping\LedgerPollingService;
 use Illuminate\Bus\Queueable;
 use Illuminate\Contracts\Queue\ShouldQueue;
 use Illuminate\Foundation\Bus\Dispatchable;
 use Illuminate\Queue\InteractsWithQueue;
 use Illuminate\Queue\SerializesModels;
+use Illuminate\Support\Collection;
 use Illuminate\Support\Facades\Log;
 use Illuminate\Support\Facades\Notification;
 use App\Notifications\LedgerProcessingFailedNotification;
@@ -79,6 +81,7 @@ public function __construct(
      * 3. Deduplicates events
      * 4. Creates AttendanceEvent records
      * 5. Marks ledger entries as processed
+     * 6. Runs the anomaly rules over the new attendance events
      *
      * @return void
      * @throws Exception When processing fails
@@ -140,6 +143,11 @@ public function handle(): void
                 $this->handleSequenceGaps($hashValidation['failures'] ?? []);
             }
 
+            $attendanceEvents = is_array($result['details']) ? ($result['details']['attendance_events'] ?? collect()) : collect();
+            if ($attendanceEvents->isNotEmpty()) {
+                $this->detectAnomalies($attendanceEvents);
+            }
+
         } catch (Exception $e) {
             // Task 6.1.3: Failure handling and notifications
             Log::error('[ProcessRfidLedgerJob] Ledger polling failed', [
@@ -159,6 +167,32 @@ public function handle(): void
         }
     }
 
+    /**
+     * Run the anomaly rules over newly created attendance events.
+     *
+     * The ledger entries are already marked processed at this point, so a
+     * detection failure is logged rather than rethrown: a retry would not
+     * reprocess them and would only re-alert.
+     *
+     * @param Collection $attendanceEvents
+     * @return void
+     */
+    private function detectAnomalies(Collection $attendanceEvents): void
+    {
+        try {
+            $created = (new AnomalyDetectionService())->detectForEvents($attendanceEvents);
+
+            if (array_sum($created) > 0) {
+                Log::warning('[ProcessRfidLedgerJob] Attendance anomalies flagged for review', $created);
+            }
+        } catch (Exception $e) {
+            Log::error('[ProcessRfidLedgerJob] Anomaly detection failed', [
+                'error_message' => $e->getMessage(),
+                'events' => $attendanceEvents->count(),
+            ]);
+        }
+    }
+
     /**
      * Handle hash chain validation failures.
      * Task 6.1.3: Critical alert for data integrity issues
@@ -0,0 +1,132 @@
+<?php
+
+namespace App\Models;
+
+use Illuminate\Database\Eloquent\Model;
+use Illuminate\Database\Eloquent\Relations\BelongsTo;
+
+/**
+ * AttendanceAnomaly Model
+ *
+ * A physically impossible or suspicious attendance pattern flagged by
+ * AnomalyDetectionService, waiting for (or closed by) HR review.
+ *
+ * @property int $id
+ * @property string $type impossible_travel, missing_exit, buddy_punching
+ * @property string $severity low, medium, high
+ * @property string $status open, confirmed, dismissed
+ * @property string $fingerprint Type-specific dedup key
+ * @property int $employee_id
+ * @property int|null $related_employee_id Other employee of a buddy-punching pair
+ * @property \Carbon\Carbon $attendance_date
+ * @property string|null $device_id
+ * @property string|null $related_device_id Previous device of an impossible-travel pair
+ * @property int|null $ledger_sequence_id
+ * @property int|null $related_ledger_sequence_id
+ * @property int|null $attendance_event_id
+ * @property string $summary Human-readable description
+ * @property array|null $details Measured values and thresholds at detection time
+ * @property \Carbon\Carbon $detected_at
+ * @property int|null $reviewed_by
+ * @property \Carbon\Carbon|null $reviewed_at
+ * @property string|null $review_notes
+ * @property \Carbon\Carbon|null $created_at
+ * @property \Carbon\Carbon|null $updated_at
+ */
+class AttendanceAnomaly extends Model
+{
+    public const TYPES = ['impossible_travel', 'missing_exit', 'buddy_punching'];
+    public const STATUSES = ['open', 'confirmed', 'dismissed'];
+
+    protected $table = 'attendance_anomalies';
+
+    protected $fillable = [
+        'type',
+        'severity',
+        'status',
+        'fingerprint',
+        'employee_id',
+        'related_employee_id',
+        'attendance_date',
+        'device_id',
+        'related_device_id',
+        'ledger_sequence_id',
+        'related_ledger_sequence_id',
+        'attendance_event_id',
+        'summary',
+        'details',
+        'detected_at',
+        'reviewed_by',
+        'reviewed_at',
+        'review_notes',
+    ];
+
+    protected $casts = [
+        'attendance_date' => 'date',
+        'details' => 'array',
+        'detected_at' => 'datetime',
+        'reviewed_at' => 'datetime',
+    ];
+
+    /**
+     * Get the flagged employee.
+     */
+    public function employee(): BelongsTo
+    {
+        return $this->belongsTo(Employee::class);
+    }
+
+    /**
+     * Get the other employee of a buddy-punching pair.
+     */
+    public function relatedEmployee(): BelongsTo
+    {
+        return $this->belongsTo(Employee::class, 'related_employee_id');
+    }
+
+    /**
+     * Get the attendance event that triggered the anomaly.
+     */
+    public function attendanceEvent(): BelongsTo
+    {
+        return $this->belongsTo(AttendanceEvent::class);
+    }
+
+    /**
+     * Get the user who reviewed the anomaly.
+     */
+    public function reviewer(): BelongsTo
+    {
+        return $this->belongsTo(User::class, 'reviewed_by');
+    }
+
+    /**
+     * Scope to get anomalies waiting for review.
+     */
+    public function scopeOpen($query)
+    {
+        return $query->where('status', 'open');
+    }
+
+    /**
+     * Scope to get anomalies not dismissed by HR (open or confirmed).
+     */
+    public function scopeActive($query)
+    {
+        return $query->where('status', '!=', 'dismissed');
+    }
+
+    /**
+     * Compact flag for ledger rows and attendance records.
+     */
+    public function toFlag(): array
+    {
+        return [
+            'id' => $this->id,
+            'type' => $this->type,
+            'severity' => $this->severity,
+            'status' => $this->status,
+            'summary' => $this->summary,
+        ];
+    }
+}
@@ -22,7 +22,7 @@
  * @property int|null $ledger_sequence_id Reference to rfid_ledger.sequence_id
  * @property bool $is_deduplicated Whether duplicate tap was detected/handled
  * @property bool $ledger_hash_verified Whether SHA-256 hash chain validation passed
- * @property string $source edge_machine, manual, imported
+ * @property string $source edge_machine, manual, imported, mobile
  * @property int|null $imported_batch_id Reference to import batch
  * @property bool $is_corrected Whether event has been corrected
  * @property \Carbon\Carbon|null $original_time Original timestamp before correction
@@ -128,6 +128,11 @@ public function scopeImported($query)
         return $query->where('source', 'imported');
     }
 
+    public function scopeFromMobile($query)
+    {
+        return $query->where('source', 'mobile');
+    }
+
     public function scopeHashVerified($query)
     {
         return $query->where('ledger_hash_verified', true);
@@ -0,0 +1,68 @@
+<?php
+
+namespace App\Models;
+
+use Illuminate\Database\Eloquent\Model;
+use Illuminate\Database\Eloquent\Relations\BelongsTo;
+
+/**
+ * CalendarFeedToken Model
+ *
+ * A secret iCalendar feed URL of one user. Only the SHA-256 of the token is
+ * stored; the URL is shown once when the feed is created. Revoking a token
+ * keeps the row so the settings page can list when it was last used.
+ *
+ * @property int $id
+ * @property int $user_id
+ * @property string $name
+ * @property string $token_hash
+ * @property string $token_prefix
+ * @property \Carbon\Carbon|null $last_used_at
+ * @property \Carbon\Carbon|null $revoked_at
+ * @property \Carbon\Carbon|null $created_at
+ * @property \Carbon\Carbon|null $updated_at
+ */
+class CalendarFeedToken extends Model
+{
+    protected $fillable = [
+        'user_id',
+        'name',
+        'token_hash',
+        'token_prefix',
+        'last_used_at',
+        'revoked_at',
+    ];
+
+    protected $hidden = [
+        'token_hash',
+    ];
+
+    protected $casts = [
+        'last_used_at' => 'datetime',
+        'revoked_at' => 'datetime',
+    ];
+
+    /**
+     * Get the user whose calendar the feed shows.
+     */
+    public function user(): BelongsTo
+    {
+        return $this->belongsTo(User::class);
+    }
+
+    /**
+     * Scope to feeds that have not been revoked.
+     */
+    public function scopeActive($query)
+    {
+        return $query->whereNull('revoked_at');
+    }
+
+    /**
+     * Hash a token as stored.
+     */
+    public static function hashToken(string $token): string
+    {
+        return hash('sha256', $token);
+    }
+}
@@ -18,6 +18,7 @@
  * @property int $employee_id Reference to employee
  * @property \Carbon\Carbon $attendance_date Date of attendance
  * @property int $work_schedule_id Applied work schedule
+ * @property int|null $shift_assignment_id Shift the day's punches were paired against
  * @property \Carbon\Carbon|null $time_in Clock-in timestamp
  * @property \Carbon\Carbon|null $time_out Clock-out timestamp
  * @property \Carbon\Carbon|null $break_start Break start time
@@ -25,6 +26,8 @@
  * @property float|null $total_hours_worked Total hours for the day
  * @property float|null $regular_hours Regular (non-overtime) hours
  * @property float|null $overtime_hours Overtime hours
+ * @property int $night_diff_minutes Worked minutes inside the night differential window
+ * @property int $night_diff_overtime_minutes Of those, the minutes worked as overtime
  * @property int|null $break_duration Total break duration in minutes
  * @property bool $is_present Employee was present
  * @property bool $is_late Employee clocked in late
@@ -54,6 +57,7 @@ class DailyAttendanceSummary extends Model
         'employee_id',
         'attendance_date',
         'work_schedule_id',
+        'shift_assignment_id',
         'time_in',
         'time_out',
         'break_start',
@@ -61,6 +65,8 @@ class DailyAttendanceSummary extends Model
         'total_hours_worked',
         'regular_hours',
         'overtime_hours',
+        'night_diff_minutes',
+        'night_diff_overtime_minutes',
         'break_duration',
         'is_present',
         'is_late',
@@ -89,6 +95,8 @@ class DailyAttendanceSummary extends Model
         'total_hours_worked' => 'float',
         'regular_hours' => 'float',
         'overtime_hours' => 'float',
+        'night_diff_minutes' => 'integer',
+        'night_diff_overtime_minutes' => 'integer',
         'break_duration' => 'integer',
         'late_minutes' => 'integer',
         'undertime_minutes' => 'integer',
@@ -117,6 +125,11 @@ public function workSchedule(): BelongsTo
         return $this->belongsTo(WorkSchedule::class);
     }
 
+    public function shiftAssignment(): BelongsTo
+    {
+        return $this->belongsTo(ShiftAssignment::class);
+    }
+
     public function leaveRequest(): BelongsTo
     {
         return $this->belongsTo(LeaveRequest::class);
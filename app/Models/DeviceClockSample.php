@@ -0,0 +1,40 @@
+<?php
+
+namespace App\Models;
+
+use Illuminate\Database\Eloquent\Model;
+use Illuminate\Database\Eloquent\Relations\BelongsTo;
+
+/**
+ * DeviceClockSample Model
+ *
+ * A device clock drift measurement taken from a heartbeat. Samples are kept
+ * sparsely (see DeviceClockService) to chart how a device's clock wanders.
+ *
+ * @property int $id
+ * @property string $device_id rfid_devices.device_id
+ * @property int $drift_seconds Device clock minus server clock
+ * @property \Carbon\Carbon $sampled_at
+ */
+class DeviceClockSample extends Model
+{
+    public $timestamps = false;
+
+    protected $table = 'device_clock_samples';
+
+    protected $fillable = [
+        'device_id',
+        'drift_seconds',
+        'sampled_at',
+    ];
+
+    protected $casts = [
+        'drift_seconds' => 'integer',
+        'sampled_at' => 'datetime',
+    ];
+
+    public function device(): BelongsTo
+    {
+        return $this->belongsTo(RfidDevice::class, 'device_id', 'device_id');
+    }
+}
@@ -0,0 +1,93 @@
+<?php
+
+namespace App\Models;
+
+use Illuminate\Database\Eloquent\Model;
+use Illuminate\Database\Eloquent\Relations\BelongsTo;
+
+/**
+ * DeviceCommand Model
+ *
+ * A command queued for an RFID gate PC or kiosk. It is handed to the device
+ * with its next heartbeat (delivered) and closed by the device's
+ * acknowledgement (succeeded / failed), or times out at expires_at.
+ *
+ * @property int $id
+ * @property string $device_id rfid_devices.device_id
+ * @property string $command force_sync, restart_service, clear_photo_cache, push_config, rotate_key
+ * @property array|null $payload Command arguments
+ * @property string|null $secret New API key for rotate_key (encrypted at rest)
+ * @property string $status pending, delivered, succeeded, failed, timed_out, cancelled
+ * @property int|null $issued_by
+ * @property \Carbon\Carbon|null $delivered_at
+ * @property \Carbon\Carbon|null $acknowledged_at
+ * @property \Carbon\Carbon $expires_at
+ * @property array|null $result Message and details reported by the device
+ * @property \Carbon\Carbon|null $created_at
+ * @property \Carbon\Carbon|null $updated_at
+ */
+class DeviceCommand extends Model
+{
+    public const COMMANDS = ['force_sync', 'restart_service', 'clear_photo_cache', 'push_config', 'rotate_key'];
+    public const OPEN_STATUSES = ['pending', 'delivered'];
+
+    protected $table = 'device_commands';
+
+    protected $fillable = [
+        'device_id',
+        'command',
+        'payload',
+        'secret',
+        'status',
+        'issued_by',
+        'delivered_at',
+        'acknowledged_at',
+        'expires_at',
+        'result',
+    ];
+
+    protected $hidden = [
+        'secret',
+    ];
+
+    protected $casts = [
+        'payload' => 'array',
+        'secret' => 'encrypted',
+        'result' => 'array',
+        'delivered_at' => 'datetime',
+        'acknowledged_at' => 'datetime',
+        'expires_at' => 'datetime',
+    ];
+
+    /**
+     * Get the device the command is for.
+     */
+    public function device(): BelongsTo
+    {
+        return $this->belongsTo(RfidDevice::class, 'device_id', 'device_id');
+    }
+
+    /**
+     * Get the user who issued the command.
+     */
+    public function issuer(): BelongsTo
+    {
+        return $this->belongsTo(User::class, 'issued_by');
+    }
+
+    /**
+     * Scope to get commands still waiting for the device.
+     */
+    public function scopeOpen($query)
+    {
+        return $query->whereIn('status', self::OPEN_STATUSES);
+    }
+
+    /**
+     * Whether the device has yet to report on the command.
+     */
+    public function isOpen(): bool
+    {
+        return in_array($this->status, self::OPEN_STATUSES, true);
+    }
+}
@@ -0,0 +1,66 @@
+<?php
+
+namespace App\Models;
+
+use Illuminate\Database\Eloquent\Model;
+use Illuminate\Database\Eloquent\Relations\BelongsTo;
+use Illuminate\Database\Eloquent\Relations\HasMany;
+
+/**
+ * DeviceFloorPlan Model
+ * 
+ * An uploaded floor-plan drawing (raster image or SVG) for one floor of a site.
+ * RFID devices are positioned on it by percentage coordinates.
+ * 
+ * @property int $id
+ * @property string $site Building or site name
+ * @property string $floor Floor label
+ * @property string|null $name Optional display name
+ * @property string $image_path Path on the local (private) disk
+ * @property string $mime_type
+ * @property int|null $width Intrinsic drawing width in px
+ * @property int|null $height Intrinsic drawing height in px
+ * @property int|null $uploaded_by
+ * @property \Carbon\Carbon|null $created_at
+ * @property \Carbon\Carbon|null $updated_at
+ */
+class DeviceFloorPlan extends Model
+{
+    protected $table = 'device_floor_plans';
+
+    protected $fillable = [
+        'site',
+        'floor',
+        'name',
+        'image_path',
+        'mime_type',
+        'width',
+        'height',
+        'uploaded_by',
+    ];
+
+    protected $casts = [
+        'width' => 'integer',
+        'height' => 'integer',
+    ];
+
+    // Relationship: Devices placed on this floor plan
+    public function devices(): HasMany
+    {
+        return $this->hasMany(RfidDevice::class, 'floor_plan_id');
+    }
+
+    // Relationship: User who uploaded the drawing
+    public function uploader(): BelongsTo
+    {
+        return $this->belongsTo(User::class, 'uploaded_by');
+    }
+
+    /**
+     * URL of the drawing, served by FloorPlanController::image()
+     */
+    public function imageUrl(): string
+    {
+        return route('hr.timekeeping.floor-plans.image', $this);
+    }
+}
@@ -0,0 +1,65 @@
+<?php
+
+namespace App\Models;
+
+use Illuminate\Database\Eloquent\Model;
+use Illuminate\Database\Eloquent\Relations\BelongsTo;
+
+/**
+ * DevicePairAnomalyRule Model
+ *
+ * Overrides the anomaly detection thresholds for a pair of RFID devices.
+ * The pair is stored in device_id order, so (A, B) and (B, A) are one rule;
+ * a rule with device_a_id = device_b_id applies to a single device.
+ *
+ * @property int $id
+ * @property string $device_a_id
+ * @property string $device_b_id
+ * @property int|null $min_travel_seconds Fastest plausible walk between the devices
+ * @property int|null $buddy_window_seconds Back-to-back tap window on the device
+ * @property bool $is_enabled
+ * @property string|null $notes
+ * @property int|null $updated_by
+ * @property \Carbon\Carbon|null $created_at
+ * @property \Carbon\Carbon|null $updated_at
+ */
+class DevicePairAnomalyRule extends Model
+{
+    protected $table = 'device_pair_anomaly_rules';
+
+    protected $fillable = [
+        'device_a_id',
+        'device_b_id',
+        'min_travel_seconds',
+        'buddy_window_seconds',
+        'is_enabled',
+        'notes',
+        'updated_by',
+    ];
+
+    protected $casts = [
+        'min_travel_seconds' => 'integer',
+        'buddy_window_seconds' => 'integer',
+        'is_enabled' => 'boolean',
+    ];
+
+    /**
+     * Get the user who last changed the rule.
+     */
+    public function updater(): BelongsTo
+    {
+        return $this->belongsTo(User::class, 'updated_by');
+    }
+
+    /**
+     * Device IDs in stored order.
+     *
+     * @param string $deviceA
+     * @param string $deviceB
+     * @return array{0: string, 1: string}
+     */
+    public static function orderedPair(string $deviceA, string $deviceB): array
+    {
+        return strcmp($deviceA, $deviceB) <= 0 ? [$deviceA, $deviceB] : [$deviceB, $deviceA];
+    }
+}
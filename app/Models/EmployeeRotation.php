@@ -12,6 +12,11 @@ class EmployeeRotation extends Model
 {
     use HasFactory, SoftDeletes;
 
+    /**
+     * Maximum number of shift definitions in a multi-shift pattern.
+     */
+    public const MAX_SHIFT_DEFINITIONS = 6;
+
     /**
      * The attributes that are mass assignable.
      *
@@ -121,6 +126,32 @@ public function calculateWorkDay($startDate, $dayOffset): bool
         return $pattern[$cyclePosition] == 1;
     }
 
+    /**
+     * Check if the pattern assigns a specific shift to each work day.
+     */
+    public function isMultiShift(): bool
+    {
+        return !empty($this->pattern_json['shifts']) && !empty($this->pattern_json['day_shifts']);
+    }
+
+    /**
+     * Get the shift worked on a day of a multi-shift pattern.
+     *
+     * @param int $dayOffset The number of days offset from the start date
+     * @return array|null The shift definition, or null on rest days and for plain work/rest patterns
+     */
+    public function shiftForDay(int $dayOffset): ?array
+    {
+        if (!$this->isMultiShift() || !$this->calculateWorkDay(null, $dayOffset)) {
+            return null;
+        }
+
+        $dayShifts = $this->pattern_json['day_shifts'];
+        $code = $dayShifts[$dayOffset % count($dayShifts)] ?? null;
+
+        return collect($this->pattern_json['shifts'])->firstWhere('code', $code);
+    }
+
     /**
      * Generate a work/rest schedule for a date range.
      * 
@@ -189,12 +220,83 @@ public function validatePatternStructure(): array
             ];
         }
 
+        $shiftError = self::validateShiftDefinitions($this->pattern_json);
+        if ($shiftError !== null) {
+            return [
+                'valid' => false,
+                'message' => $shiftError,
+            ];
+        }
+
         return [
             'valid' => true,
             'message' => 'Pattern is valid',
         ];
     }
 
+    /**
+     * Validate the shift definitions of a multi-shift pattern.
+     * Patterns without shifts are plain work/rest patterns and always pass.
+     *
+     * @param array $patternJson
+     * @return string|null The error message, or null when valid
+     */
+    public static function validateShiftDefinitions(array $patternJson): ?string
+    {
+        $shifts = $patternJson['shifts'] ?? null;
+        $dayShifts = $patternJson['day_shifts'] ?? null;
+
+        if (empty($shifts) && empty($dayShifts)) {
+            return null;
+        }
+
+        if (!is_array($shifts) || empty($shifts) || !is_array($dayShifts)) {
+            return 'A multi-shift pattern needs both shift definitions and a shift for each day';
+        }
+
+        if (count($shifts) > self::MAX_SHIFT_DEFINITIONS) {
+            return 'A pattern can define at most ' . self::MAX_SHIFT_DEFINITIONS . ' shifts';
+        }
+
+        $codes = [];
+        foreach ($shifts as $shift) {
+            $code = $shift['code'] ?? null;
+            if (!is_string($code) || !preg_match('/^[A-Za-z0-9]{1,3}$/', $code)) {
+                return 'Shift codes must be 1 to 3 letters or digits';
+            }
+            if (in_array($code, $codes, true)) {
+                return "Shift code {$code} is used more than once";
+            }
+            if (!in_array($shift['shift_type'] ?? null, ['morning', 'afternoon', 'night', 'split', 'custom'], true)) {
+                return "Shift {$code} has an invalid shift type";
+            }
+            foreach (['shift_start', 'shift_end'] as $field) {
+                if (!is_string($shift[$field] ?? null) || !preg_match('/^([01]\d|2[0-3]):[0-5]\d(:[0-5]\d)?$/', $shift[$field])) {
+                    return "Shift {$code} needs a start and end time (HH:MM)";
+                }
+            }
+            $codes[] = $code;
+        }
+
+        $pattern = $patternJson['pattern'] ?? [];
+        if (count($dayShifts) !== count($pattern)) {
+            return 'Each day of the pattern needs a shift or a rest day';
+        }
+
+        foreach ($pattern as $index => $isWork) {
+            $code = $dayShifts[$index] ?? null;
+            $day = $index + 1;
+            if ($isWork == 1 && !in_array($code, $codes, true)) {
+                return "Work day {$day} must reference one of the defined shifts";
+            }
+            if ($isWork == 0 && $code !== null) {
+                return "Rest day {$day} cannot have a shift";
+            }
+        }
+
+        return null;
+    }
+
     /**
      * Get the cycle length (pattern length).
      */
@@ -0,0 +1,72 @@
+<?php
+
+namespace App\Models;
+
+use Illuminate\Database\Eloquent\Model;
+use Illuminate\Database\Eloquent\Relations\BelongsTo;
+use Illuminate\Database\Eloquent\Relations\HasMany;
+
+/**
+ * Geofence Model
+ *
+ * A site employees may clock in from on the employee portal: a centre and a
+ * radius. See MobileClockInService for how punches are checked against it.
+ *
+ * @property int $id
+ * @property string $name
+ * @property string|null $address
+ * @property float $latitude
+ * @property float $longitude
+ * @property int $radius_meters
+ * @property bool $is_active
+ * @property int|null $created_by
+ * @property int|null $updated_by
+ * @property \Carbon\Carbon|null $created_at
+ * @property \Carbon\Carbon|null $updated_at
+ */
+class Geofence extends Model
+{
+    protected $table = 'geofences';
+
+    protected $fillable = [
+        'name',
+        'address',
+        'latitude',
+        'longitude',
+        'radius_meters',
+        'is_active',
+        'created_by',
+        'updated_by',
+    ];
+
+    protected $casts = [
+        'latitude' => 'float',
+        'longitude' => 'float',
+        'radius_meters' => 'integer',
+        'is_active' => 'boolean',
+    ];
+
+    /**
+     * Get the user who last changed the geofence.
+     */
+    public function updater(): BelongsTo
+    {
+        return $this->belongsTo(User::class, 'updated_by');
+    }
+
+    /**
+     * Get the punches matched to this geofence.
+     */
+    public function mobilePunches(): HasMany
+    {
+        return $this->hasMany(MobilePunch::class);
+    }
+
+    /**
+     * Scope to get geofences employees can currently punch from.
+     */
+    public function scopeActive($query)
+    {
+        return $query->where('is_active', true);
+    }
+}
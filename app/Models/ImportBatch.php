@@ -19,6 +19,8 @@
  * @property string $file_path Path where file is stored
  * @property int $file_size Size in bytes
  * @property string $import_type attendance, schedule, correction
+ * @property int|null $mapping_profile_id Saved mapping the batch was processed with
+ * @property array|null $mapping Mapping snapshot; null for the fixed CSV layout
  * @property int $total_records Total records in file
  * @property int $processed_records Records processed
  * @property int $successful_records Records successfully imported
@@ -42,6 +44,8 @@ class ImportBatch extends Model
         'file_path',
         'file_size',
         'import_type',
+        'mapping_profile_id',
+        'mapping',
         'total_records',
         'processed_records',
         'successful_records',
@@ -56,6 +60,7 @@ class ImportBatch extends Model
     // Cast attributes to appropriate types
     protected $casts = [
         'file_size' => 'integer',
+        'mapping' => 'array',
         'total_records' => 'integer',
         'processed_records' => 'integer',
         'successful_records' => 'integer',
@@ -72,6 +77,11 @@ public function importedByUser(): BelongsTo
         return $this->belongsTo(User::class, 'imported_by');
     }
 
+    public function mappingProfile(): BelongsTo
+    {
+        return $this->belongsTo(ImportMappingProfile::class, 'mapping_profile_id');
+    }
+
     public function attendanceEvents(): HasMany
     {
         return $this->hasMany(AttendanceEvent::class);
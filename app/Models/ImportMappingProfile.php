@@ -0,0 +1,60 @@
+<?php
+
+namespace App\Models;
+
+use Illuminate\Database\Eloquent\Model;
+use Illuminate\Database\Eloquent\Relations\BelongsTo;
+use Illuminate\Database\Eloquent\Relations\HasMany;
+
+/**
+ * ImportMappingProfile Model
+ *
+ * Reusable column mapping for attendance files from one source, such as a
+ * branch's biometric terminal. See AttendanceImportParser for the mapping shape.
+ *
+ * @property int $id
+ * @property string $source
+ * @property string $format delimited, zkteco_dat, fixed_width
+ * @property array $mapping
+ * @property string|null $description
+ * @property int|null $created_by
+ * @property int|null $updated_by
+ * @property \Carbon\Carbon|null $last_used_at
+ * @property \Carbon\Carbon|null $created_at
+ * @property \Carbon\Carbon|null $updated_at
+ */
+class ImportMappingProfile extends Model
+{
+    protected $table = 'import_mapping_profiles';
+
+    protected $fillable = [
+        'source',
+        'format',
+        'mapping',
+        'description',
+        'created_by',
+        'updated_by',
+        'last_used_at',
+    ];
+
+    protected $casts = [
+        'mapping' => 'array',
+        'last_used_at' => 'datetime',
+    ];
+
+    /**
+     * Get the user who last changed the profile.
+     */
+    public function updater(): BelongsTo
+    {
+        return $this->belongsTo(User::class, 'updated_by');
+    }
+
+    /**
+     * Get the batches imported with this profile.
+     */
+    public function importBatches(): HasMany
+    {
+        return $this->hasMany(ImportBatch::class, 'mapping_profile_id');
+    }
+}
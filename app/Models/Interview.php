@@ -19,6 +19,9 @@ class Interview extends Model
         'status',
         'score',
         'interviewer_name',
+        'interviewer_id',
+        'location',
+        'meeting_link',
         'recommendation',
         'feedback',
         'cancellation_reason',
@@ -42,5 +45,10 @@ public function candidate()
     {
         return $this->belongsTo(Candidate::class);
     }
+
+    public function interviewer()
+    {
+        return $this->belongsTo(User::class, 'interviewer_id');
+    }
 }
 
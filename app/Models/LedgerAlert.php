@@ -0,0 +1,117 @@
+<?php
+
+namespace App\Models;
+
+use Illuminate\Database\Eloquent\Model;
+use Illuminate\Database\Eloquent\Relations\BelongsTo;
+
+/**
+ * LedgerAlert Model
+ *
+ * An alert raised by a LedgerAlertRule for one subject (the ledger, a device,
+ * or a device at a shift start). It stays open until the breach clears, when
+ * it is resolved and kept as history. Acknowledging stops repeat
+ * notifications; snoozing hides it until snoozed_until, after which a breach
+ * that is still there notifies again.
+ *
+ * @property int $id
+ * @property int|null $ledger_alert_rule_id
+ * @property string $rule_name
+ * @property string $metric
+ * @property string $subject
+ * @property string $severity info, warning, critical
+ * @property string $status open, acknowledged, snoozed, resolved
+ * @property string $message
+ * @property int|null $value
+ * @property array|null $context
+ * @property \Carbon\Carbon $triggered_at
+ * @property \Carbon\Carbon $last_seen_at
+ * @property \Carbon\Carbon|null $notified_at
+ * @property int $notification_count
+ * @property int|null $acknowledged_by
+ * @property \Carbon\Carbon|null $acknowledged_at
+ * @property int|null $snoozed_by
+ * @property \Carbon\Carbon|null $snoozed_until
+ * @property \Carbon\Carbon|null $resolved_at
+ * @property \Carbon\Carbon|null $created_at
+ * @property \Carbon\Carbon|null $updated_at
+ */
+class LedgerAlert extends Model
+{
+    public const ACTIVE_STATUSES = ['open', 'acknowledged', 'snoozed'];
+
+    protected $table = 'ledger_alerts';
+
+    protected $fillable = [
+        'ledger_alert_rule_id',
+        'rule_name',
+        'metric',
+        'subject',
+        'severity',
+        'status',
+        'message',
+        'value',
+        'context',
+        'triggered_at',
+        'last_seen_at',
+        'notified_at',
+        'notification_count',
+        'acknowledged_by',
+        'acknowledged_at',
+        'snoozed_by',
+        'snoozed_until',
+        'resolved_at',
+    ];
+
+    protected $casts = [
+        'value' => 'integer',
+        'context' => 'array',
+        'triggered_at' => 'datetime',
+        'last_seen_at' => 'datetime',
+        'notified_at' => 'datetime',
+        'notification_count' => 'integer',
+        'acknowledged_at' => 'datetime',
+        'snoozed_until' => 'datetime',
+        'resolved_at' => 'datetime',
+    ];
+
+    /**
+     * Get the rule that raised the alert.
+     */
+    public function rule(): BelongsTo
+    {
+        return $this->belongsTo(LedgerAlertRule::class, 'ledger_alert_rule_id');
+    }
+
+    /**
+     * Get the user who acknowledged the alert.
+     */
+    public function acknowledger(): BelongsTo
+    {
+        return $this->belongsTo(User::class, 'acknowledged_by');
+    }
+
+    /**
+     * Get the user who snoozed the alert.
+     */
+    public function snoozer(): BelongsTo
+    {
+        return $this->belongsTo(User::class, 'snoozed_by');
+    }
+
+    /**
+     * Scope to alerts whose breach has not cleared.
+     */
+    public function scopeActive($query)
+    {
+        return $query->whereIn('status', self::ACTIVE_STATUSES);
+    }
+
+    /**
+     * Scope to active alerts that are not snoozed.
+     */
+    public function scopeUnsnoozed($query)
+    {
+        return $query->whereIn('status', ['open', 'acknowledged']);
+    }
+}
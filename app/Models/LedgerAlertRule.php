@@ -0,0 +1,92 @@
+<?php
+
+namespace App\Models;
+
+use Illuminate\Database\Eloquent\Model;
+use Illuminate\Database\Eloquent\Relations\BelongsTo;
+use Illuminate\Database\Eloquent\Relations\HasMany;
+
+/**
+ * LedgerAlertRule Model
+ *
+ * An admin-defined alert on a ledger health metric. The threshold's unit
+ * depends on the metric:
+ *
+ * - backlog_depth:              unprocessed ledger entries above the threshold
+ * - processing_rate:            entries processed in the last hour below the threshold while a backlog waits
+ * - hash_failures:              hash verification failures today at or above the threshold
+ * - device_offline:             minutes since a device's last heartbeat above the threshold
+ * - gate_silent_at_shift_start: no taps from a gate for threshold minutes after a shift starts
+ *
+ * @property int $id
+ * @property string $name
+ * @property string $metric
+ * @property int $threshold
+ * @property string|null $device_id Limits device metrics to one device
+ * @property string $severity info, warning, critical
+ * @property bool $notify_in_app
+ * @property bool $notify_email
+ * @property array|null $recipient_user_ids
+ * @property array|null $email_addresses
+ * @property bool $is_enabled
+ * @property int|null $created_by
+ * @property int|null $updated_by
+ * @property \Carbon\Carbon|null $created_at
+ * @property \Carbon\Carbon|null $updated_at
+ */
+class LedgerAlertRule extends Model
+{
+    public const METRICS = ['backlog_depth', 'processing_rate', 'hash_failures', 'device_offline', 'gate_silent_at_shift_start'];
+    public const DEVICE_METRICS = ['device_offline', 'gate_silent_at_shift_start'];
+    public const SEVERITIES = ['info', 'warning', 'critical'];
+
+    protected $table = 'ledger_alert_rules';
+
+    protected $fillable = [
+        'name',
+        'metric',
+        'threshold',
+        'device_id',
+        'severity',
+        'notify_in_app',
+        'notify_email',
+        'recipient_user_ids',
+        'email_addresses',
+        'is_enabled',
+        'created_by',
+        'updated_by',
+    ];
+
+    protected $casts = [
+        'threshold' => 'integer',
+        'notify_in_app' => 'boolean',
+        'notify_email' => 'boolean',
+        'recipient_user_ids' => 'array',
+        'email_addresses' => 'array',
+        'is_enabled' => 'boolean',
+    ];
+
+    /**
+     * Get the alerts raised by this rule.
+     */
+    public function alerts(): HasMany
+    {
+        return $this->hasMany(LedgerAlert::class);
+    }
+
+    /**
+     * Get the user who last changed the rule.
+     */
+    public function updater(): BelongsTo
+    {
+        return $this->belongsTo(User::class, 'updated_by');
+    }
+
+    /**
+     * Scope to rules that are evaluated.
+     */
+    public function scopeEnabled($query)
+    {
+        return $query->where('is_enabled', true);
+    }
+}
@@ -0,0 +1,95 @@
+<?php
+
+namespace App\Models;
+
+use Carbon\Carbon;
+use Illuminate\Database\Eloquent\Model;
+use Illuminate\Database\Eloquent\Relations\BelongsTo;
+
+/**
+ * LedgerAnnotation Model
+ *
+ * An audited note over a window of one device's ledger entries. The ledger is
+ * append-only, so corrections live here instead: a clock_correction re-bases
+ * the attendance events derived from the window by offset_seconds, including
+ * events processed from that window later on.
+ *
+ * @property int $id
+ * @property string $device_id rfid_devices.device_id
+ * @property string $type clock_correction
+ * @property \Carbon\Carbon $window_start First scan_timestamp covered (device time)
+ * @property \Carbon\Carbon $window_end Last scan_timestamp covered (device time)
+ * @property int|null $offset_seconds Seconds added to device time
+ * @property int|null $first_sequence_id
+ * @property int|null $last_sequence_id
+ * @property int $ledger_entries
+ * @property int $events_corrected
+ * @property string $reason
+ * @property int|null $created_by
+ * @property \Carbon\Carbon|null $created_at
+ * @property \Carbon\Carbon|null $updated_at
+ */
+class LedgerAnnotation extends Model
+{
+    public const TYPE_CLOCK_CORRECTION = 'clock_correction';
+
+    protected $table = 'ledger_annotations';
+
+    protected $fillable = [
+        'device_id',
+        'type',
+        'window_start',
+        'window_end',
+        'offset_seconds',
+        'first_sequence_id',
+        'last_sequence_id',
+        'ledger_entries',
+        'events_corrected',
+        'reason',
+        'created_by',
+    ];
+
+    protected $casts = [
+        'window_start' => 'datetime',
+        'window_end' => 'datetime',
+        'offset_seconds' => 'integer',
+        'first_sequence_id' => 'integer',
+        'last_sequence_id' => 'integer',
+        'ledger_entries' => 'integer',
+        'events_corrected' => 'integer',
+    ];
+
+    /**
+     * Get the device the annotation covers.
+     */
+    public function device(): BelongsTo
+    {
+        return $this->belongsTo(RfidDevice::class, 'device_id', 'device_id');
+    }
+
+    /**
+     * Get the user who made the annotation.
+     */
+    public function creator(): BelongsTo
+    {
+        return $this->belongsTo(User::class, 'created_by');
+    }
+
+    /**
+     * Scope to clock corrections.
+     */
+    public function scopeClockCorrections($query)
+    {
+        return $query->where('type', self::TYPE_CLOCK_CORRECTION);
+    }
+
+    /**
+     * Scope to annotations of a device whose window contains a device-time scan timestamp.
+     */
+    public function scopeCovering($query, string $deviceId, Carbon $scanTimestamp)
+    {
+        return $query->where('device_id', $deviceId)
+            ->where('window_start', '<=', $scanTimestamp)
+            ->where('window_end', '>=', $scanTimestamp);
+    }
+}
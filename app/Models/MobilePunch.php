@@ -0,0 +1,110 @@
+<?php
+
+namespace App\Models;
+
+use Illuminate\Database\Eloquent\Model;
+use Illuminate\Database\Eloquent\Relations\BelongsTo;
+
+/**
+ * MobilePunch Model
+ *
+ * A clock-in from the employee portal with the position the browser reported.
+ * Punches inside a geofence are approved on arrival; the rest wait for HR.
+ * An approved punch is backed by an attendance event with source "mobile".
+ *
+ * @property int $id
+ * @property int $employee_id
+ * @property string $event_type time_in, time_out, break_start, break_end
+ * @property \Carbon\Carbon $punched_at
+ * @property float $latitude
+ * @property float $longitude
+ * @property float|null $accuracy_meters
+ * @property int|null $geofence_id Nearest active geofence at punch time
+ * @property int|null $distance_meters Distance from that geofence's centre
+ * @property bool $within_geofence
+ * @property string|null $selfie_path Path on the local disk
+ * @property string|null $user_agent
+ * @property string $status pending, approved, rejected
+ * @property int|null $attendance_event_id
+ * @property int|null $reviewed_by
+ * @property \Carbon\Carbon|null $reviewed_at
+ * @property string|null $review_notes
+ * @property \Carbon\Carbon|null $created_at
+ * @property \Carbon\Carbon|null $updated_at
+ */
+class MobilePunch extends Model
+{
+    public const EVENT_TYPES = ['time_in', 'time_out', 'break_start', 'break_end'];
+    public const STATUSES = ['pending', 'approved', 'rejected'];
+
+    protected $table = 'mobile_punches';
+
+    protected $fillable = [
+        'employee_id',
+        'event_type',
+        'punched_at',
+        'latitude',
+        'longitude',
+        'accuracy_meters',
+        'geofence_id',
+        'distance_meters',
+        'within_geofence',
+        'selfie_path',
+        'user_agent',
+        'status',
+        'attendance_event_id',
+        'reviewed_by',
+        'reviewed_at',
+        'review_notes',
+    ];
+
+    protected $casts = [
+        'punched_at' => 'datetime',
+        'latitude' => 'float',
+        'longitude' => 'float',
+        'accuracy_meters' => 'float',
+        'distance_meters' => 'integer',
+        'within_geofence' => 'boolean',
+        'reviewed_at' => 'datetime',
+    ];
+
+    /**
+     * Get the employee who punched.
+     */
+    public function employee(): BelongsTo
+    {
+        return $this->belongsTo(Employee::class);
+    }
+
+    /**
+     * Get the nearest geofence at punch time.
+     */
+    public function geofence(): BelongsTo
+    {
+        return $this->belongsTo(Geofence::class);
+    }
+
+    /**
+     * Get the attendance event created once the punch was approved.
+     */
+    public function attendanceEvent(): BelongsTo
+    {
+        return $this->belongsTo(AttendanceEvent::class);
+    }
+
+    /**
+     * Get the HR user who approved or rejected the punch.
+     */
+    public function reviewer(): BelongsTo
+    {
+        return $this->belongsTo(User::class, 'reviewed_by');
+    }
+
+    /**
+     * Scope to get out-of-fence punches waiting for HR.
+     */
+    public function scopePending($query)
+    {
+        return $query->where('status', 'pending');
+    }
+}
@@ -0,0 +1,104 @@
+<?php
+
+namespace App\Models;
+
+use Illuminate\Database\Eloquent\Model;
+use Illuminate\Database\Eloquent\Relations\BelongsTo;
+
+/**
+ * PunchPhoto Model
+ *
+ * A camera photo taken by a gate PC or kiosk when a card was tapped. Photos
+ * picked by the sampling rules or flagged by an anomaly wait in the review
+ * queue (pending) until HR approves them or flags the punch as a proxy.
+ *
+ * @property int $id
+ * @property string $device_id rfid_devices.device_id
+ * @property int $local_id Local store id of the tap
+ * @property int|null $sequence_id rfid_ledger.sequence_id
+ * @property int|null $employee_id Card holder at the time of the tap
+ * @property \Carbon\Carbon $captured_at Device time of the tap
+ * @property string $path Path on the local disk
+ * @property string $review_status not_selected, pending, approved, proxy
+ * @property string|null $review_reason random_sample, late_night, anomaly
+ * @property int|null $reviewed_by
+ * @property \Carbon\Carbon|null $reviewed_at
+ * @property string|null $review_notes
+ * @property \Carbon\Carbon|null $created_at
+ * @property \Carbon\Carbon|null $updated_at
+ */
+class PunchPhoto extends Model
+{
+    public const REVIEWED_STATUSES = ['approved', 'proxy'];
+
+    protected $table = 'punch_photos';
+
+    protected $fillable = [
+        'device_id',
+        'local_id',
+        'sequence_id',
+        'employee_id',
+        'captured_at',
+        'path',
+        'review_status',
+        'review_reason',
+        'reviewed_by',
+        'reviewed_at',
+        'review_notes',
+    ];
+
+    protected $casts = [
+        'local_id' => 'integer',
+        'sequence_id' => 'integer',
+        'captured_at' => 'datetime',
+        'reviewed_at' => 'datetime',
+    ];
+
+    /**
+     * Get the employee whose card was tapped.
+     */
+    public function employee(): BelongsTo
+    {
+        return $this->belongsTo(Employee::class);
+    }
+
+    /**
+     * Get the device that took the photo.
+     */
+    public function device(): BelongsTo
+    {
+        return $this->belongsTo(RfidDevice::class, 'device_id', 'device_id');
+    }
+
+    /**
+     * Get the ledger entry of the tap.
+     */
+    public function ledgerEntry(): BelongsTo
+    {
+        return $this->belongsTo(RfidLedger::class, 'sequence_id', 'sequence_id');
+    }
+
+    /**
+     * Get the user who reviewed the photo.
+     */
+    public function reviewer(): BelongsTo
+    {
+        return $this->belongsTo(User::class, 'reviewed_by');
+    }
+
+    /**
+     * Scope to photos waiting in the review queue.
+     */
+    public function scopePending($query)
+    {
+        return $query->where('review_status', 'pending');
+    }
+
+    /**
+     * Scope to photos HR has approved or flagged.
+     */
+    public function scopeReviewed($query)
+    {
+        return $query->whereIn('review_status', self::REVIEWED_STATUSES);
+    }
+}
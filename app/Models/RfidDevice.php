@@ -4,6 +4,7 @@
 
 use Illuminate\Database\Eloquent\Factories\HasFactory;
 use Illuminate\Database\Eloquent\Model;
+use Illuminate\Database\Eloquent\Relations\BelongsTo;
 use Illuminate\Database\Eloquent\Relations\HasMany;
 
 /**
@@ -15,10 +16,19 @@
  * @property int $id
  * @property string $device_id Unique device identifier (e.g., GATE-01)
  * @property string|null $api_key Bearer token for gate PC authentication
+ * @property string|null $previous_api_key Key replaced by rotate_key, valid until the new key is first used
+ * @property string|null $public_key Base64 Ed25519 public key for ledger signatures
+ * @property \Carbon\Carbon|null $public_key_registered_at When the public key was registered
  * @property string $device_name Human-readable device name
  * @property string $location Physical location of device
+ * @property int|null $floor_plan_id Floor plan the device is drawn on
+ * @property float|null $map_x Marker x position, percent of floor plan width
+ * @property float|null $map_y Marker y position, percent of floor plan height
  * @property string $status online, offline, maintenance
  * @property \Carbon\Carbon|null $last_heartbeat Last heartbeat timestamp
+ * @property int|null $clock_drift_seconds Device clock minus server clock at the last heartbeat
+ * @property \Carbon\Carbon|null $clock_checked_at When the drift was last measured
+ * @property \Carbon\Carbon|null $clock_drift_alerted_at When HR was alerted about the current drift
  * @property array|null $config Device configuration JSON
  * @property \Carbon\Carbon|null $created_at
  * @property \Carbon\Carbon|null $updated_at
@@ -32,16 +42,31 @@ class RfidDevice extends Model
     protected $fillable = [
         'device_id',
         'api_key',
+        'previous_api_key',
+        'public_key',
+        'public_key_registered_at',
         'device_name',
         'location',
+        'floor_plan_id',
+        'map_x',
+        'map_y',
         'status',
         'last_heartbeat',
+        'clock_drift_seconds',
+        'clock_checked_at',
+        'clock_drift_alerted_at',
         'config',
     ];
 
     protected $casts = [
         'last_heartbeat' => 'datetime',
+        'clock_drift_seconds' => 'integer',
+        'clock_checked_at' => 'datetime',
+        'clock_drift_alerted_at' => 'datetime',
+        'public_key_registered_at' => 'datetime',
         'config' => 'array',
+        'map_x' => 'float',
+        'map_y' => 'float',
         'created_at' => 'datetime',
         'updated_at' => 'datetime',
     ];
@@ -52,6 +77,30 @@ public function ledgerEntries(): HasMany
         return $this->hasMany(RfidLedger::class, 'device_id', 'device_id');
     }
 
+    // Relationship: Commands queued for this device, newest first
+    public function commands(): HasMany
+    {
+        return $this->hasMany(DeviceCommand::class, 'device_id', 'device_id')->latest();
+    }
+
+    // Relationship: Clock drift samples taken from heartbeats
+    public function clockSamples(): HasMany
+    {
+        return $this->hasMany(DeviceClockSample::class, 'device_id', 'device_id');
+    }
+
+    // Relationship: Annotations over this device's ledger entries, newest first
+    public function ledgerAnnotations(): HasMany
+    {
+        return $this->hasMany(LedgerAnnotation::class, 'device_id', 'device_id')->latest();
+    }
+
+    // Relationship: Floor plan the device is drawn on
+    public function floorPlan(): BelongsTo
+    {
+        return $this->belongsTo(DeviceFloorPlan::class, 'floor_plan_id');
+    }
+
     // Scope: Get online devices
     public function scopeOnline($query)
     {
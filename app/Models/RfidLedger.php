@@ -24,6 +24,7 @@
  * @property string $hash_chain SHA-256 hash of (prev_hash || payload)
  * @property string|null $hash_previous Hash of previous entry
  * @property string|null $device_signature Optional Ed25519 signature
+ * @property string|null $idempotency_key Client-generated key for retried taps (kiosks)
  * @property int|null $latency_ms Processing latency in milliseconds
  * @property bool $processed Whether entry has been processed
  * @property \Carbon\Carbon|null $processed_at When entry was processed
@@ -53,6 +54,7 @@ class RfidLedger extends Model
         'hash_chain',
         'hash_previous',
         'device_signature',
+        'idempotency_key',
         'latency_ms',
         'processed',
         'processed_at',
@@ -93,6 +95,30 @@ public function scopeInDateRange($query, \Carbon\Carbon $from, \Carbon\Carbon $t
         return $query->whereBetween('scan_timestamp', [$from, $to]);
     }
 
+    // Scope: Get every entry of each device chain between its first and last
+    // entry scanned in the date range. Backfilled taps keep their scan time but
+    // get a later sequence_id, so a plain date filter would leave holes in a chain.
+    public function scopeChainSpanInDateRange($query, ?\Carbon\Carbon $from, ?\Carbon\Carbon $to)
+    {
+        $spans = static::query()
+            ->when($from, fn ($q) => $q->where('scan_timestamp', '>=', $from))
+            ->when($to, fn ($q) => $q->where('scan_timestamp', '<=', $to))
+            ->groupBy('device_id')
+            ->selectRaw('device_id, MIN(sequence_id) as first_sequence_id, MAX(sequence_id) as last_sequence_id')
+            ->get();
+
+        return $query->where(function ($query) use ($spans) {
+            if ($spans->isEmpty()) {
+                $query->whereRaw('1 = 0');
+            }
+
+            foreach ($spans as $span) {
+                $query->orWhere(fn ($q) => $q->where('device_id', $span->device_id)
+                    ->whereBetween('sequence_id', [$span->first_sequence_id, $span->last_sequence_id]));
+            }
+        });
+    }
+
     // Scope: Order by sequence ID (ascending)
     public function scopeOrderBySequence($query)
     {
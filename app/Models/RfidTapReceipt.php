@@ -0,0 +1,55 @@
+<?php
+
+namespace App\Models;
+
+use Illuminate\Database\Eloquent\Model;
+use Illuminate\Database\Eloquent\Relations\BelongsTo;
+
+/**
+ * RfidTapReceipt Model
+ *
+ * Records that the server received a device's local store row, whatever
+ * became of it. Gaps in local_id per device are taps that never arrived.
+ *
+ * @property int $id
+ * @property string $device_id rfid_devices.device_id
+ * @property int $local_id Row id in the device's local store
+ * @property string $card_uid
+ * @property \Carbon\Carbon $tapped_at
+ * @property string $outcome recorded, unknown_card, duplicate, backfilled
+ * @property int|null $sequence_id rfid_ledger.sequence_id
+ * @property \Carbon\Carbon $received_at
+ */
+class RfidTapReceipt extends Model
+{
+    public $timestamps = false;
+
+    protected $table = 'rfid_tap_receipts';
+
+    protected $fillable = [
+        'device_id',
+        'local_id',
+        'card_uid',
+        'tapped_at',
+        'outcome',
+        'sequence_id',
+        'received_at',
+    ];
+
+    protected $casts = [
+        'local_id' => 'integer',
+        'sequence_id' => 'integer',
+        'tapped_at' => 'datetime',
+        'received_at' => 'datetime',
+    ];
+
+    public function device(): BelongsTo
+    {
+        return $this->belongsTo(RfidDevice::class, 'device_id', 'device_id');
+    }
+
+    public function ledgerEntry(): BelongsTo
+    {
+        return $this->belongsTo(RfidLedger::class, 'sequence_id', 'sequence_id');
+    }
+}
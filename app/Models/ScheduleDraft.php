@@ -0,0 +1,110 @@
+<?php
+
+namespace App\Models;
+
+use Illuminate\Database\Eloquent\Model;
+use Illuminate\Database\Eloquent\Relations\BelongsTo;
+use Illuminate\Database\Eloquent\Relations\HasMany;
+
+/**
+ * ScheduleDraft Model
+ *
+ * A department schedule proposed by the ScheduleGeneratorService for a date
+ * range. HR reviews and adjusts the draft shifts, then publishes them as
+ * shift assignments.
+ *
+ * Each coverage target is one shift of the day with its required headcount
+ * per weekday:
+ *
+ *   {shift_type, schedule_id, shift_start, shift_end,
+ *    headcount: {monday: 3, tuesday: 3, ..., sunday: 1}}
+ *
+ * Each gap is a date and shift type left short:
+ *
+ *   {date, shift_type, shift_start, shift_end, required, assigned, shortage}
+ *
+ * @property int $id
+ * @property int $department_id
+ * @property \Carbon\Carbon $date_from
+ * @property \Carbon\Carbon $date_to
+ * @property array $coverage_targets
+ * @property array|null $gaps
+ * @property string $status draft, published, discarded
+ * @property int|null $created_by
+ * @property int|null $published_by
+ * @property \Carbon\Carbon|null $published_at
+ * @property \Carbon\Carbon|null $created_at
+ * @property \Carbon\Carbon|null $updated_at
+ */
+class ScheduleDraft extends Model
+{
+    public const WEEKDAYS = ['monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday', 'sunday'];
+
+    protected $fillable = [
+        'department_id',
+        'date_from',
+        'date_to',
+        'coverage_targets',
+        'gaps',
+        'status',
+        'created_by',
+        'published_by',
+        'published_at',
+    ];
+
+    protected $casts = [
+        'date_from' => 'date',
+        'date_to' => 'date',
+        'coverage_targets' => 'array',
+        'gaps' => 'array',
+        'published_at' => 'datetime',
+    ];
+
+    /**
+     * Get the department the schedule is for.
+     */
+    public function department(): BelongsTo
+    {
+        return $this->belongsTo(Department::class);
+    }
+
+    /**
+     * Get the proposed shifts.
+     */
+    public function shifts(): HasMany
+    {
+        return $this->hasMany(ScheduleDraftShift::class);
+    }
+
+    /**
+     * Get the user who generated the draft.
+     */
+    public function creator(): BelongsTo
+    {
+        return $this->belongsTo(User::class, 'created_by');
+    }
+
+    /**
+     * Get the user who published the draft.
+     */
+    public function publisher(): BelongsTo
+    {
+        return $this->belongsTo(User::class, 'published_by');
+    }
+
+    /**
+     * Whether the draft can still be changed or published.
+     */
+    public function isEditable(): bool
+    {
+        return $this->status === 'draft';
+    }
+
+    /**
+     * Total shifts still missing across all gaps.
+     */
+    public function getShortageAttribute(): int
+    {
+        return (int) array_sum(array_column($this->gaps ?? [], 'shortage'));
+    }
+}
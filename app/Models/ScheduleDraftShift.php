@@ -0,0 +1,80 @@
+<?php
+
+namespace App\Models;
+
+use Illuminate\Database\Eloquent\Model;
+use Illuminate\Database\Eloquent\Relations\BelongsTo;
+
+/**
+ * ScheduleDraftShift Model
+ *
+ * One proposed shift of a ScheduleDraft. The source records why it is there:
+ * a work day of the employee's rotation, a shift filled by the generator to
+ * meet coverage, or a shift added by hand during review.
+ *
+ * @property int $id
+ * @property int $schedule_draft_id
+ * @property int $employee_id
+ * @property int $schedule_id
+ * @property int|null $rotation_assignment_id
+ * @property \Carbon\Carbon $date
+ * @property string $shift_type
+ * @property string $shift_start
+ * @property string $shift_end
+ * @property string $source rotation, generated, manual
+ * @property bool $has_conflict
+ * @property string|null $conflict_reason
+ */
+class ScheduleDraftShift extends Model
+{
+    protected $fillable = [
+        'schedule_draft_id',
+        'employee_id',
+        'schedule_id',
+        'rotation_assignment_id',
+        'date',
+        'shift_type',
+        'shift_start',
+        'shift_end',
+        'source',
+        'has_conflict',
+        'conflict_reason',
+    ];
+
+    protected $casts = [
+        'date' => 'date',
+        'has_conflict' => 'boolean',
+    ];
+
+    /**
+     * Get the draft this shift belongs to.
+     */
+    public function draft(): BelongsTo
+    {
+        return $this->belongsTo(ScheduleDraft::class, 'schedule_draft_id');
+    }
+
+    /**
+     * Get the employee proposed for the shift.
+     */
+    public function employee(): BelongsTo
+    {
+        return $this->belongsTo(Employee::class);
+    }
+
+    /**
+     * Get the work schedule the shift comes from.
+     */
+    public function schedule(): BelongsTo
+    {
+        return $this->belongsTo(WorkSchedule::class, 'schedule_id');
+    }
+
+    /**
+     * Get the rotation assignment that made this a work day, if any.
+     */
+    public function rotationAssignment(): BelongsTo
+    {
+        return $this->belongsTo(RotationAssignment::class, 'rotation_assignment_id');
+    }
+}
@@ -0,0 +1,111 @@
+<?php
+
+namespace App\Models;
+
+use Illuminate\Database\Eloquent\Model;
+use Illuminate\Database\Eloquent\Relations\BelongsTo;
+
+/**
+ * ScheduleVersion Model
+ *
+ * An immutable published version of a work schedule. A version without a
+ * week covers the schedule's own hours; a weekly version also covers that
+ * week's shift assignments. Versions are numbered per schedule and week.
+ *
+ * The snapshot holds the schedule as published:
+ *
+ *   {name, hours: {monday: {start, end}, ...},
+ *    shifts: [{employee_id, employee_name, date, shift_start, shift_end, shift_type}]}
+ *
+ * The diff lists the changes against the previous version of the same scope:
+ *
+ *   {hours: [{day, from, to}], gained: [shift], lost: [shift],
+ *    changed: [{employee_id, employee_name, date, from, to}], employee_ids: [int]}
+ *
+ * @property int $id
+ * @property int $work_schedule_id
+ * @property \Carbon\Carbon|null $week_start
+ * @property int $version
+ * @property array $snapshot
+ * @property array $diff
+ * @property int $notified_count
+ * @property string|null $note
+ * @property int|null $published_by
+ * @property \Carbon\Carbon $published_at
+ * @property \Carbon\Carbon|null $created_at
+ * @property \Carbon\Carbon|null $updated_at
+ */
+class ScheduleVersion extends Model
+{
+    protected $fillable = [
+        'work_schedule_id',
+        'week_start',
+        'version',
+        'snapshot',
+        'diff',
+        'notified_count',
+        'note',
+        'published_by',
+        'published_at',
+    ];
+
+    protected $casts = [
+        'week_start' => 'date',
+        'snapshot' => 'array',
+        'diff' => 'array',
+        'notified_count' => 'integer',
+        'published_at' => 'datetime',
+    ];
+
+    protected static function boot()
+    {
+        parent::boot();
+
+        // Published versions are a record of what employees were shown
+        static::updating(function (ScheduleVersion $version) {
+            if ($version->isDirty(['snapshot', 'diff', 'version', 'week_start', 'work_schedule_id', 'published_at'])) {
+                throw new \LogicException('Published schedule versions cannot be changed.');
+            }
+        });
+
+        static::deleting(function () {
+            throw new \LogicException('Published schedule versions cannot be deleted.');
+        });
+    }
+
+    /**
+     * Get the published work schedule.
+     */
+    public function workSchedule(): BelongsTo
+    {
+        return $this->belongsTo(WorkSchedule::class);
+    }
+
+    /**
+     * Get the user who published the version.
+     */
+    public function publisher(): BelongsTo
+    {
+        return $this->belongsTo(User::class, 'published_by');
+    }
+
+    /**
+     * Scope to versions of the schedule hours, or of one week.
+     */
+    public function scopeForScope($query, int $workScheduleId, ?string $weekStart)
+    {
+        $query->where('work_schedule_id', $workScheduleId);
+
+        return $weekStart === null
+            ? $query->whereNull('week_start')
+            : $query->whereDate('week_start', $weekStart);
+    }
+
+    /**
+     * Whether the version covers a week of shift assignments.
+     */
+    public function isWeekly(): bool
+    {
+        return $this->week_start !== null;
+    }
+}
@@ -0,0 +1,136 @@
+<?php
+
+namespace App\Models;
+
+use Illuminate\Database\Eloquent\Model;
+use Illuminate\Database\Eloquent\Relations\BelongsTo;
+
+/**
+ * ShiftSwapRequest Model
+ *
+ * An employee's offer to hand over one of their shifts. A giveaway is open to
+ * any eligible coworker until someone picks it up; a swap names the coworker
+ * and the coworker shift taken in return, and waits for that coworker to
+ * accept. Either way the department head gives the final approval, and only
+ * then do the shift assignments change hands.
+ *
+ * Each eligibility issue is recorded as:
+ *
+ *   {employee_id, type, message, blocking}
+ *
+ * @property int $id
+ * @property string $type giveaway, swap
+ * @property int $shift_assignment_id
+ * @property int $requester_id
+ * @property int|null $department_id
+ * @property int|null $target_employee_id
+ * @property int|null $target_shift_assignment_id
+ * @property string $status open, pending_coworker, pending_approval, approved, rejected, declined, cancelled
+ * @property array|null $eligibility
+ * @property string|null $note
+ * @property \Carbon\Carbon|null $responded_at
+ * @property int|null $decided_by
+ * @property \Carbon\Carbon|null $decided_at
+ * @property string|null $decision_note
+ * @property \Carbon\Carbon|null $created_at
+ * @property \Carbon\Carbon|null $updated_at
+ */
+class ShiftSwapRequest extends Model
+{
+    public const TYPES = ['giveaway', 'swap'];
+    public const ACTIVE_STATUSES = ['open', 'pending_coworker', 'pending_approval'];
+
+    protected $fillable = [
+        'type',
+        'shift_assignment_id',
+        'requester_id',
+        'department_id',
+        'target_employee_id',
+        'target_shift_assignment_id',
+        'status',
+        'eligibility',
+        'note',
+        'responded_at',
+        'decided_by',
+        'decided_at',
+        'decision_note',
+    ];
+
+    protected $casts = [
+        'eligibility' => 'array',
+        'responded_at' => 'datetime',
+        'decided_at' => 'datetime',
+    ];
+
+    /**
+     * Get the shift being handed over.
+     */
+    public function shift(): BelongsTo
+    {
+        return $this->belongsTo(ShiftAssignment::class, 'shift_assignment_id');
+    }
+
+    /**
+     * Get the employee handing over the shift.
+     */
+    public function requester(): BelongsTo
+    {
+        return $this->belongsTo(Employee::class, 'requester_id');
+    }
+
+    /**
+     * Get the department whose head approves the request.
+     */
+    public function department(): BelongsTo
+    {
+        return $this->belongsTo(Department::class);
+    }
+
+    /**
+     * Get the coworker taking the shift.
+     */
+    public function targetEmployee(): BelongsTo
+    {
+        return $this->belongsTo(Employee::class, 'target_employee_id');
+    }
+
+    /**
+     * Get the coworker shift offered in return, for swaps.
+     */
+    public function targetShift(): BelongsTo
+    {
+        return $this->belongsTo(ShiftAssignment::class, 'target_shift_assignment_id');
+    }
+
+    /**
+     * Get the user who approved or rejected the request.
+     */
+    public function decider(): BelongsTo
+    {
+        return $this->belongsTo(User::class, 'decided_by');
+    }
+
+    /**
+     * Scope to requests still open, waiting for the coworker or for approval.
+     */
+    public function scopeActive($query)
+    {
+        return $query->whereIn('status', self::ACTIVE_STATUSES);
+    }
+
+    /**
+     * Whether the request is still open, waiting for the coworker or for approval.
+     */
+    public function isActive(): bool
+    {
+        return in_array($this->status, self::ACTIVE_STATUSES, true);
+    }
+
+    /**
+     * Whether any eligibility issue blocks the request.
+     */
+    public function isBlocked(): bool
+    {
+        return collect($this->eligibility ?? [])->contains('blocking', true);
+    }
+}
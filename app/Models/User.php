@@ -95,6 +95,14 @@ public function auditLogs()
         return $this->hasMany(SecurityAuditLog::class);
     }
 
+    /**
+     * One-to-many relation to CalendarFeedToken (secret iCal feed URLs)
+     */
+    public function calendarFeedTokens()
+    {
+        return $this->hasMany(CalendarFeedToken::class);
+    }
+
     /**
      * Accessor for full_name which prefers profile values and falls back to users.name or username
      */
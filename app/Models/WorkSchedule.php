@@ -95,6 +95,14 @@ public function shiftAssignments(): HasMany
         return $this->hasMany(ShiftAssignment::class, 'schedule_id');
     }
 
+    /**
+     * Get the published versions of this work schedule.
+     */
+    public function versions(): HasMany
+    {
+        return $this->hasMany(ScheduleVersion::class);
+    }
+
     /**
      * Scope to get active schedules.
      */
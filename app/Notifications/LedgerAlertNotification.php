@@ -0,0 +1,103 @@
+<?php
+
+namespace App\Notifications;
+
+use App\Models\LedgerAlert;
+use Illuminate\Bus\Queueable;
+use Illuminate\Contracts\Queue\ShouldQueue;
+use Illuminate\Notifications\Messages\MailMessage;
+use Illuminate\Notifications\Notification;
+
+/**
+ * LedgerAlertNotification
+ *
+ * Sent to the recipients of a LedgerAlertRule when it raises an alert, or
+ * when a snoozed alert is still breaching at the end of its snooze.
+ * The channels come from the rule (in-app and/or email).
+ *
+ * @package App\Notifications
+ */
+class LedgerAlertNotification extends Notification implements ShouldQueue
+{
+    use Queueable;
+
+    /**
+     * Create a new notification instance.
+     *
+     * @param LedgerAlert $alert
+     * @param array<int, string> $channels database and/or mail
+     */
+    public function __construct(
+        private LedgerAlert $alert,
+        private array $channels = ['database']
+    ) {}
+
+    /**
+     * Get the notification's delivery channels.
+     *
+     * @return array<int, string>
+     */
+    public function via(object $notifiable): array
+    {
+        return $this->channels;
+    }
+
+    /**
+     * Get the mail representation of the notification.
+     */
+    public function toMail(object $notifiable): MailMessage
+    {
+        $severityLabels = [
+            'critical' => '🔴 CRITICAL',
+            'warning' => '🟡 WARNING',
+            'info' => '⚪ INFO',
+        ];
+
+        $label = $severityLabels[$this->alert->severity] ?? '⚪ INFO';
+        $mail = (new MailMessage)
+            ->subject("{$label}: {$this->alert->rule_name}")
+            ->greeting(isset($notifiable->name) ? "Hello {$notifiable->name}," : 'Hello,')
+            ->line("A ledger health alert rule has been triggered:")
+            ->line("**Alert:** {$this->alert->message}")
+            ->line("**Rule:** {$this->alert->rule_name}")
+            ->line("**Severity:** {$label}")
+            ->line("**Since:** " . $this->alert->triggered_at->toDateTimeString())
+            ->action('View Ledger Alerts', url('/hr/timekeeping/ledger-alerts'))
+            ->line('Acknowledge or snooze the alert on the alerts page to stop repeat notifications.');
+
+        return $this->alert->severity === 'critical' ? $mail->error() : $mail;
+    }
+
+    /**
+     * Get the array representation of the notification (for database storage).
+     *
+     * @return array<string, mixed>
+     */
+    public function toArray(object $notifiable): array
+    {
+        return [
+            'type' => 'ledger_alert',
+            'severity' => $this->alert->severity,
+            'message' => $this->alert->message,
+            'context' => [
+                'ledger_alert_id' => $this->alert->id,
+                'rule' => $this->alert->rule_name,
+                'metric' => $this->alert->metric,
+                'subject' => $this->alert->subject,
+                'value' => $this->alert->value,
+            ],
+            'action_url' => url('/hr/timekeeping/ledger-alerts'),
+            'timestamp' => now()->toDateTimeString(),
+        ];
+    }
+
+    /**
+     * Get the notification's database type (for filtering).
+     *
+     * @return string
+     */
+    public function databaseType(object $notifiable): string
+    {
+        return 'timekeeping.ledger.alert';
+    }
+}
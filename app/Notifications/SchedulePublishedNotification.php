@@ -0,0 +1,160 @@
+<?php
+
+namespace App\Notifications;
+
+use App\Models\ScheduleVersion;
+use Illuminate\Bus\Queueable;
+use Illuminate\Contracts\Queue\ShouldQueue;
+use Illuminate\Notifications\Messages\MailMessage;
+use Illuminate\Notifications\Notification;
+
+/**
+ * SchedulePublishedNotification
+ *
+ * Sent to each employee affected by a newly published schedule version,
+ * listing the changes that concern them: new schedule hours, or the shifts
+ * they gained, lost or had moved in the published week.
+ *
+ * @package App\Notifications
+ */
+class SchedulePublishedNotification extends Notification implements ShouldQueue
+{
+    use Queueable;
+
+    /**
+     * Create a new notification instance.
+     *
+     * @param ScheduleVersion $version
+     * @param array $changes The employee's changes: hours, gained, lost, changed
+     */
+    public function __construct(
+        private ScheduleVersion $version,
+        private array $changes
+    ) {}
+
+    /**
+     * Get the notification's delivery channels.
+     *
+     * @return array<int, string>
+     */
+    public function via(object $notifiable): array
+    {
+        return ['mail', 'database'];
+    }
+
+    /**
+     * Get the mail representation of the notification.
+     */
+    public function toMail(object $notifiable): MailMessage
+    {
+        $mail = (new MailMessage)
+            ->subject($this->title())
+            ->greeting("Hello {$notifiable->name},")
+            ->line($this->message());
+
+        foreach ($this->lines() as $line) {
+            $mail->line("- {$line}");
+        }
+
+        if ($this->version->note) {
+            $mail->line("**Note:** {$this->version->note}");
+        }
+
+        return $mail->action('View My Schedule', url('/employee/shifts'));
+    }
+
+    /**
+     * Get the array representation of the notification (for database storage).
+     *
+     * @return array<string, mixed>
+     */
+    public function toArray(object $notifiable): array
+    {
+        return [
+            'type' => 'schedule_published',
+            'title' => $this->title(),
+            'message' => $this->message(),
+            'context' => [
+                'schedule_version_id' => $this->version->id,
+                'work_schedule_id' => $this->version->work_schedule_id,
+                'week_start' => $this->version->week_start?->toDateString(),
+                'version' => $this->version->version,
+                'changes' => $this->lines(),
+            ],
+            'action_url' => url('/employee/shifts'),
+            'timestamp' => now()->toDateTimeString(),
+        ];
+    }
+
+    /**
+     * Get the notification's database type (for filtering).
+     *
+     * @return string
+     */
+    public function databaseType(object $notifiable): string
+    {
+        return 'workforce.schedule_published';
+    }
+
+    private function title(): string
+    {
+        return $this->version->isWeekly()
+            ? 'Schedule Published: Week of ' . $this->version->week_start->format('M j')
+            : 'Schedule Hours Published: ' . ($this->version->snapshot['name'] ?? 'Work Schedule');
+    }
+
+    private function message(): string
+    {
+        $name = $this->version->snapshot['name'] ?? 'your work schedule';
+
+        if (!$this->version->isWeekly()) {
+            return empty($this->changes['hours'])
+                ? "The hours of {$name} were published."
+                : "The hours of {$name} changed on " . count($this->changes['hours']) . ' day(s).';
+        }
+
+        $counts = array_filter([
+            count($this->changes['gained']) ? count($this->changes['gained']) . ' shift(s) added' : null,
+            count($this->changes['lost']) ? count($this->changes['lost']) . ' removed' : null,
+            count($this->changes['changed']) ? count($this->changes['changed']) . ' changed' : null,
+        ]);
+
+        return "Your {$name} schedule for the week of " . $this->version->week_start->format('M j, Y')
+            . ' was published: ' . implode(', ', $counts) . '.';
+    }
+
+    /**
+     * One line per change.
+     *
+     * @return array<int, string>
+     */
+    private function lines(): array
+    {
+        $lines = [];
+
+        foreach ($this->changes['hours'] as $change) {
+            $lines[] = ucfirst($change['day']) . ': ' . $this->times($change['from']) . ' → ' . $this->times($change['to']);
+        }
+        foreach ($this->changes['gained'] as $shift) {
+            $lines[] = 'Added ' . $this->shift($shift);
+        }
+        foreach ($this->changes['lost'] as $shift) {
+            $lines[] = 'Removed ' . $this->shift($shift);
+        }
+        foreach ($this->changes['changed'] as $change) {
+            $lines[] = 'Moved ' . $this->shift($change['from']) . ' to ' . "{$change['to']['shift_start']}–{$change['to']['shift_end']}";
+        }
+
+        return $lines;
+    }
+
+    private function shift(array $shift): string
+    {
+        return \Carbon\Carbon::parse($shift['date'])->format('D M j') . " {$shift['shift_start']}–{$shift['shift_end']}";
+    }
+
+    private function times(?array $times): string
+    {
+        return $times ? "{$times['start']}–{$times['end']}" : 'rest day';
+    }
+}
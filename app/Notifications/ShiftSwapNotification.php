@@ -0,0 +1,146 @@
+<?php
+
+namespace App\Notifications;
+
+use App\Models\ShiftSwapRequest;
+use Illuminate\Bus\Queueable;
+use Illuminate\Contracts\Queue\ShouldQueue;
+use Illuminate\Notifications\Messages\MailMessage;
+use Illuminate\Notifications\Notification;
+
+/**
+ * ShiftSwapNotification
+ *
+ * Sent at each step of a shift swap request:
+ *
+ * - proposed: to the coworker asked to swap
+ * - awaiting_approval: to the department head once a coworker has agreed
+ * - approved, rejected: to both employees when the department head decides
+ * - declined: to the requester when the coworker says no
+ *
+ * @package App\Notifications
+ */
+class ShiftSwapNotification extends Notification implements ShouldQueue
+{
+    use Queueable;
+
+    /**
+     * Create a new notification instance.
+     *
+     * @param ShiftSwapRequest $swap
+     * @param string $event proposed, awaiting_approval, approved, rejected, declined
+     */
+    public function __construct(
+        private ShiftSwapRequest $swap,
+        private string $event
+    ) {}
+
+    /**
+     * Get the notification's delivery channels.
+     *
+     * @return array<int, string>
+     */
+    public function via(object $notifiable): array
+    {
+        return ['mail', 'database'];
+    }
+
+    /**
+     * Get the mail representation of the notification.
+     */
+    public function toMail(object $notifiable): MailMessage
+    {
+        $mail = (new MailMessage)
+            ->subject($this->title())
+            ->greeting("Hello {$notifiable->name},")
+            ->line($this->message());
+
+        if ($this->swap->decision_note && in_array($this->event, ['approved', 'rejected'], true)) {
+            $mail->line("**Note:** {$this->swap->decision_note}");
+        }
+
+        return $mail->action(
+            $this->event === 'awaiting_approval' ? 'Review Shift Swaps' : 'View My Shifts',
+            $this->actionUrl()
+        );
+    }
+
+    /**
+     * Get the array representation of the notification (for database storage).
+     *
+     * @return array<string, mixed>
+     */
+    public function toArray(object $notifiable): array
+    {
+        return [
+            'type' => 'shift_swap',
+            'event' => $this->event,
+            'title' => $this->title(),
+            'message' => $this->message(),
+            'context' => [
+                'shift_swap_request_id' => $this->swap->id,
+                'swap_type' => $this->swap->type,
+                'status' => $this->swap->status,
+            ],
+            'action_url' => $this->actionUrl(),
+            'timestamp' => now()->toDateTimeString(),
+        ];
+    }
+
+    /**
+     * Get the notification's database type (for filtering).
+     *
+     * @return string
+     */
+    public function databaseType(object $notifiable): string
+    {
+        return 'workforce.shift_swap.' . $this->event;
+    }
+
+    private function title(): string
+    {
+        return match ($this->event) {
+            'proposed' => 'Shift Swap Proposed',
+            'awaiting_approval' => 'Shift Swap Awaiting Approval',
+            'approved' => 'Shift Swap Approved',
+            'rejected' => 'Shift Swap Rejected',
+            'declined' => 'Shift Swap Declined',
+            default => 'Shift Swap Update',
+        };
+    }
+
+    private function message(): string
+    {
+        $swap = $this->swap;
+        $requester = $swap->requester?->profile?->full_name ?? 'A coworker';
+        $target = $swap->targetEmployee?->profile?->full_name ?? 'a coworker';
+        $shift = $this->describe($swap->shift);
+
+        return match ($this->event) {
+            'proposed' => "{$requester} wants to swap their {$shift} shift for your " . $this->describe($swap->targetShift) . ' shift.',
+            'awaiting_approval' => $swap->type === 'swap'
+                ? "{$requester} and {$target} agreed to swap shifts ({$shift} for " . $this->describe($swap->targetShift) . ').'
+                : "{$target} picked up the {$shift} shift given away by {$requester}.",
+            'approved' => $swap->type === 'swap'
+                ? "The swap of the {$shift} and " . $this->describe($swap->targetShift) . ' shifts was approved. Your schedule has been updated.'
+                : "The {$shift} shift moving from {$requester} to {$target} was approved. Your schedule has been updated.",
+            'rejected' => "The department head rejected the request for the {$shift} shift. Your schedule is unchanged.",
+            'declined' => "{$target} declined your swap request for the {$shift} shift.",
+            default => "The request for the {$shift} shift was updated.",
+        };
+    }
+
+    private function describe($shift): string
+    {
+        if (!$shift) {
+            return 'offered';
+        }
+
+        return $shift->date->format('M j') . ' ' . substr($shift->shift_start, 0, 5) . '–' . substr($shift->shift_end, 0, 5);
+    }
+
+    private function actionUrl(): string
+    {
+        return url($this->event === 'awaiting_approval' ? '/hr/workforce/shift-swaps' : '/employee/shifts');
+    }
+}
@@ -0,0 +1,41 @@
+<?php
+
+namespace App\Rules;
+
+use App\Models\RfidCardMapping;
+use App\Services\Timekeeping\CardUidNormalizer;
+use Closure;
+use Illuminate\Contracts\Validation\ValidationRule;
+use Illuminate\Support\Facades\DB;
+
+class UnassignedCardUid implements ValidationRule
+{
+    /**
+     * Run the validation rule.
+     *
+     * Fails when the card is already mapped in any format or byte order
+     * (hex, decimal, reversed), not just when the exact string exists.
+     *
+     * @param  \Closure(string, ?string=): \Illuminate\Translation\PotentiallyTranslatedString  $fail
+     */
+    public function validate(string $attribute, mixed $value, Closure $fail): void
+    {
+        if (!is_string($value) || trim($value) === '') {
+            return;
+        }
+
+        $existing = RfidCardMapping::with('employee.profile')
+            ->whereIn(DB::raw('UPPER(card_uid)'), (new CardUidNormalizer())->variants($value))
+            ->first();
+
+        if (!$existing) {
+            return;
+        }
+
+        $holder = $existing->employee?->profile
+            ? "{$existing->employee->profile->first_name} {$existing->employee->profile->last_name}"
+            : 'another employee';
+
+        $fail("This card is already registered as {$existing->card_uid} to {$holder}.");
+    }
+}
@@ -0,0 +1,378 @@
+<?php
+
+namespace App\Services;
+
+use App\Models\CalendarFeedToken;
+use App\Models\Interview;
+use App\Models\LeaveRequest;
+use App\Models\ScheduleVersion;
+use App\Models\User;
+use App\Services\HR\Workforce\SchedulePublishingService;
+use Carbon\Carbon;
+use Illuminate\Support\Arr;
+use Illuminate\Support\Str;
+
+/**
+ * CalendarFeedService
+ *
+ * Secret iCalendar (.ics) feeds that calendar apps subscribe to. A feed
+ * covers one user:
+ *
+ * - the shifts of their employee record, as last published; drafts HR has
+ *   not published yet stay out of the feed
+ * - their approved leave, as all-day events
+ * - the ATS interviews they are the interviewer of; users who schedule
+ *   interviews (hr.ats.interviews.schedule) get every interview
+ *
+ * Every event keeps the same UID across refreshes, and cancelled or deleted
+ * shifts, leave and interviews stay in the feed as cancelled events for a
+ * while, so calendar apps update and remove them instead of duplicating.
+ * A published shift is identified by its schedule, employee and date, so a
+ * republished change of its times updates the same event.
+ */
+class CalendarFeedService
+{
+    public const MAX_ACTIVE_FEEDS = 5;
+
+    private const PAST_DAYS = 30;
+    private const FUTURE_DAYS = 180;
+
+    public function __construct(
+        private SchedulePublishingService $publishing
+    ) {}
+
+    /**
+     * Create a feed for a user.
+     *
+     * @return array{feed: CalendarFeedToken, token: string} The token is only available here
+     * @throws \InvalidArgumentException
+     */
+    public function issue(User $user, string $name): array
+    {
+        if ($user->calendarFeedTokens()->active()->count() >= self::MAX_ACTIVE_FEEDS) {
+            throw new \InvalidArgumentException('You can have up to ' . self::MAX_ACTIVE_FEEDS . ' calendar feeds. Revoke one you no longer use first.');
+        }
+
+        $token = Str::random(48);
+
+        $feed = $user->calendarFeedTokens()->create([
+            'name' => $name,
+            'token_hash' => CalendarFeedToken::hashToken($token),
+            'token_prefix' => substr($token, 0, 8),
+        ]);
+
+        return ['feed' => $feed, 'token' => $token];
+    }
+
+    /**
+     * The active feed for a token from a feed URL.
+     */
+    public function resolve(string $token): ?CalendarFeedToken
+    {
+        $feed = CalendarFeedToken::with('user')
+            ->active()
+            ->where('token_hash', CalendarFeedToken::hashToken($token))
+            ->first();
+
+        // Calendar apps poll often; a rough last-used time is enough
+        if ($feed && (!$feed->last_used_at || $feed->last_used_at->lt(now()->subMinutes(15)))) {
+            $feed->forceFill(['last_used_at' => now()])->saveQuietly();
+        }
+
+        return $feed;
+    }
+
+    /**
+     * Render a user's feed as an iCalendar document.
+     */
+    public function render(User $user): string
+    {
+        $host = parse_url(config('app.url'), PHP_URL_HOST) ?: 'localhost';
+        $now = now();
+
+        $lines = [
+            'BEGIN:VCALENDAR',
+            'VERSION:2.0',
+            'PRODID:-//' . $this->escape(config('app.name')) . '//Calendar Feed//EN',
+            'CALSCALE:GREGORIAN',
+            'METHOD:PUBLISH',
+            'X-WR-CALNAME:' . $this->escape(config('app.name') . ' - ' . $user->name),
+            'X-PUBLISHED-TTL:PT1H',
+            'REFRESH-INTERVAL;VALUE=DURATION:PT1H',
+        ];
+
+        foreach ($this->events($user) as $event) {
+            $lines[] = 'BEGIN:VEVENT';
+            $lines[] = "UID:{$event['uid']}@{$host}";
+            $lines[] = 'DTSTAMP:' . $this->utc($now);
+            $lines[] = 'LAST-MODIFIED:' . $this->utc($event['updated_at']);
+            $lines[] = "SEQUENCE:{$event['sequence']}";
+
+            if ($event['all_day']) {
+                $lines[] = 'DTSTART;VALUE=DATE:' . $event['start']->format('Ymd');
+                $lines[] = 'DTEND;VALUE=DATE:' . $event['end']->format('Ymd');
+                $lines[] = 'TRANSP:TRANSPARENT';
+            } else {
+                $lines[] = 'DTSTART:' . $this->utc($event['start']);
+                $lines[] = 'DTEND:' . $this->utc($event['end']);
+            }
+
+            $lines[] = 'SUMMARY:' . $this->escape($event['summary']);
+            $lines[] = "STATUS:{$event['status']}";
+
+            if ($event['description']) {
+                $lines[] = 'DESCRIPTION:' . $this->escape($event['description']);
+            }
+            if ($event['location']) {
+                $lines[] = 'LOCATION:' . $this->escape($event['location']);
+            }
+            if ($event['url']) {
+                $lines[] = 'URL:' . $event['url'];
+            }
+
+            $lines[] = 'END:VEVENT';
+        }
+
+        $lines[] = 'END:VCALENDAR';
+
+        return implode("\r\n", array_map(fn (string $line) => $this->fold($line), $lines)) . "\r\n";
+    }
+
+    /**
+     * The events of a user's feed.
+     *
+     * @return array<int, array{uid: string, summary: string, description: string|null, location: string|null, url: string|null, start: Carbon, end: Carbon, all_day: bool, status: string, sequence: int, updated_at: Carbon}>
+     */
+    public function events(User $user): array
+    {
+        $from = today()->subDays(self::PAST_DAYS);
+        $to = today()->addDays(self::FUTURE_DAYS);
+
+        return [
+            ...$this->shiftEvents($user, $from, $to),
+            ...$this->leaveEvents($user, $from, $to),
+            ...$this->interviewEvents($user, $from, $to),
+        ];
+    }
+
+    private function shiftEvents(User $user, Carbon $from, Carbon $to): array
+    {
+        $employee = $user->employee;
+        if (!$employee) {
+            return [];
+        }
+
+        $weekStarts = [];
+        for ($week = $from->copy()->startOfWeek(Carbon::MONDAY); $week->lte($to); $week->addWeek()) {
+            $weekStarts[] = $week->toDateString();
+        }
+
+        return $this->publishing->latestWeekVersions($weekStarts)
+            ->flatMap(function (ScheduleVersion $version) use ($employee) {
+                $scheduleName = $version->workSchedule?->name ?? $version->snapshot['name'] ?? null;
+                $mine = fn (array $shifts) => collect($shifts)->where('employee_id', $employee->id);
+
+                $published = $mine($version->snapshot['shifts'] ?? [])
+                    ->groupBy('date')
+                    ->flatMap(fn ($shifts) => $shifts->sortBy('shift_start')->values()
+                        ->map(fn (array $shift, int $index) => $this->shiftEvent($version, $shift, $index, $scheduleName, 'CONFIRMED')));
+
+                // Shifts this version dropped from a day the employee no longer works on that schedule
+                $publishedDates = $published->map(fn (array $event) => $event['date'])->unique();
+                $dropped = $mine($version->diff['lost'] ?? [])
+                    ->reject(fn (array $shift) => $publishedDates->contains($shift['date']))
+                    ->groupBy('date')
+                    ->flatMap(fn ($shifts) => $shifts->sortBy('shift_start')->values()
+                        ->map(fn (array $shift, int $index) => $this->shiftEvent($version, $shift, $index, $scheduleName, 'CANCELLED')));
+
+                return $published->merge($dropped);
+            })
+            ->filter(fn (array $event) => $event['date'] >= $from->toDateString() && $event['date'] <= $to->toDateString())
+            ->sortBy(fn (array $event) => $event['start']->getTimestamp())
+            ->map(fn (array $event) => Arr::except($event, 'date'))
+            ->values()
+            ->all();
+    }
+
+    /**
+     * An event for a shift of a published week; the nth shift of a day keeps its UID when its times change.
+     */
+    private function shiftEvent(ScheduleVersion $version, array $shift, int $index, ?string $scheduleName, string $status): array
+    {
+        $start = $this->at(Carbon::parse($shift['date']), $shift['shift_start']);
+        $end = $this->at(Carbon::parse($shift['date']), $shift['shift_end']);
+        if ($end->lte($start)) {
+            $end->addDay();
+        }
+
+        $type = !empty($shift['shift_type']) ? ucfirst($shift['shift_type']) . ' shift' : 'Shift';
+
+        return [
+            ...$this->event(
+                "shift-{$version->work_schedule_id}-{$shift['employee_id']}-{$shift['date']}" . ($index > 0 ? "-{$index}" : ''),
+                $scheduleName ? "{$type} - {$scheduleName}" : $type,
+                $start,
+                $end,
+                $status,
+                $version,
+                url: url('/employee/shifts'),
+                sequence: $version->version,
+            ),
+            'date' => $shift['date'],
+        ];
+    }
+
+    private function leaveEvents(User $user, Carbon $from, Carbon $to): array
+    {
+        $employee = $user->employee;
+        if (!$employee) {
+            return [];
+        }
+
+        return LeaveRequest::withTrashed()
+            ->with('leavePolicy:id,name')
+            ->where('employee_id', $employee->id)
+            ->whereIn('status', ['approved', 'cancelled'])
+            ->whereDate('end_date', '>=', $from)
+            ->whereDate('start_date', '<=', $to)
+            ->get()
+            ->map(function (LeaveRequest $leave) {
+                $summary = ($leave->leavePolicy?->name ?? 'Leave')
+                    . ($leave->isHalfDayLeave() ? " ({$leave->getHalfDayLabel()})" : '');
+
+                return $this->event(
+                    "leave-{$leave->id}",
+                    $summary,
+                    $leave->start_date->copy()->startOfDay(),
+                    $leave->end_date->copy()->addDay()->startOfDay(),
+                    $leave->trashed() || $leave->status === 'cancelled' ? 'CANCELLED' : 'CONFIRMED',
+                    $leave,
+                    allDay: true,
+                    url: url("/employee/leave/request/{$leave->id}"),
+                );
+            })
+            ->all();
+    }
+
+    private function interviewEvents(User $user, Carbon $from, Carbon $to): array
+    {
+        $query = Interview::with('application.candidate')
+            ->whereDate('scheduled_date', '>=', $from)
+            ->whereDate('scheduled_date', '<=', $to);
+
+        if (!$user->can('hr.ats.interviews.schedule')) {
+            $query->where('interviewer_id', $user->id);
+        }
+
+        return $query->get()
+            ->map(function (Interview $interview) {
+                $start = $this->at($interview->scheduled_date, $interview->scheduled_time);
+                $candidate = $interview->application?->candidate;
+                $candidateName = $candidate ? trim("{$candidate->first_name} {$candidate->last_name}") : 'Candidate';
+
+                $description = implode("\n", array_filter([
+                    "Candidate: {$candidateName}",
+                    "Position: {$interview->job_title}",
+                    "Interviewer: {$interview->interviewer_name}",
+                    'Format: ' . str_replace('_', ' ', (string) $interview->location_type),
+                    $interview->meeting_link ? "Join: {$interview->meeting_link}" : null,
+                ]));
+
+                return $this->event(
+                    "interview-{$interview->id}",
+                    "Interview: {$candidateName} - {$interview->job_title}",
+                    $start,
+                    $start->copy()->addMinutes($interview->duration_minutes ?: 30),
+                    in_array($interview->status, ['canceled', 'cancelled'], true) ? 'CANCELLED' : 'CONFIRMED',
+                    $interview,
+                    description: $description,
+                    location: $interview->location ?: $interview->meeting_link,
+                    url: $interview->meeting_link ?: url("/hr/ats/interviews/{$interview->id}"),
+                );
+            })
+            ->all();
+    }
+
+    /**
+     * An event; unless given, the sequence grows each time the record is updated.
+     */
+    private function event(
+        string $uid,
+        string $summary,
+        Carbon $start,
+        Carbon $end,
+        string $status,
+        $record,
+        bool $allDay = false,
+        ?string $description = null,
+        ?string $location = null,
+        ?string $url = null,
+        ?int $sequence = null
+    ): array {
+        $created = $record->created_at ?? now();
+        $updated = $record->updated_at ?? $created;
+
+        return [
+            'uid' => $uid,
+            'summary' => $summary,
+            'description' => $description,
+            'location' => $location,
+            'url' => $url,
+            'start' => $start,
+            'end' => $end,
+            'all_day' => $allDay,
+            'status' => $status,
+            'sequence' => $sequence ?? max(0, $updated->getTimestamp() - $created->getTimestamp()),
+            'updated_at' => $updated,
+        ];
+    }
+
+    /**
+     * A date at a time of day, in the application timezone.
+     */
+    private function at(Carbon $date, string $time): Carbon
+    {
+        return Carbon::parse($date->toDateString() . ' ' . $time, config('app.timezone'));
+    }
+
+    private function utc(Carbon $time): string
+    {
+        return $time->copy()->utc()->format('Ymd\THis\Z');
+    }
+
+    /**
+     * Escape a text value (RFC 5545, section 3.3.11).
+     */
+    private function escape(?string $text): string
+    {
+        return str_replace(
+            ['\\', ';', ',', "\r\n", "\n", "\r"],
+            ['\\\\', '\;', '\,', '\n', '\n', '\n'],
+            (string) $text
+        );
+    }
+
+    /**
+     * Fold a content line longer than 75 octets (RFC 5545, section 3.1).
+     */
+    private function fold(string $line): string
+    {
+        if (strlen($line) <= 75) {
+            return $line;
+        }
+
+        $folded = [];
+        $current = '';
+        // Split between characters, never inside a multi-byte one
+        foreach (mb_str_split($line) as $char) {
+            if (strlen($current) + strlen($char) > ($folded ? 74 : 75)) {
+                $folded[] = $current;
+                $current = '';
+            }
+            $current .= $char;
+        }
+        $folded[] = $current;
+
+        return implode("\r\n ", $folded);
+    }
+}
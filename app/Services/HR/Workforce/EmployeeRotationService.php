@@ -117,6 +117,12 @@ public function validatePattern(array $patternJson): array
             ];
         }
 
+        // Multi-shift patterns name the shift worked on each work day
+        $shiftError = EmployeeRotation::validateShiftDefinitions($patternJson);
+        if ($shiftError !== null) {
+            return ['valid' => false, 'message' => $shiftError];
+        }
+
         return ['valid' => true, 'message' => 'Pattern is valid'];
     }
 
@@ -249,6 +255,10 @@ public function unassignFromEmployee(EmployeeRotation $rotation, Employee $emplo
      * 
      * This prevents shifts being created on rotation rest days, even if the schedule
      * would normally have a shift on that day-of-week.
+     *
+     * Multi-shift rotations carry the shift times and type for each work day, so
+     * those days are created from the rotation regardless of the schedule's
+     * day-of-week hours. Days the employee already has that shift are skipped.
      */
     public function generateShiftAssignments(
         RotationAssignment $assignment,
@@ -273,38 +283,51 @@ public function generateShiftAssignments(
         $createdBy = $createdBy?->id ?? auth()->id();
         $assignments = [];
         $rotation = $assignment->rotation;
+        $startDate = Carbon::parse($assignment->start_date);
         $currentDate = $fromDate->copy();
 
         while ($currentDate <= $toDate) {
             // STEP 1: Check rotation pattern FIRST (rotation pattern takes precedence)
             // Skip if rotation says this is a rest day
-            if (!$this->isWorkDay($rotation, $currentDate, Carbon::parse($assignment->start_date))) {
+            if (!$this->isWorkDay($rotation, $currentDate, $startDate)) {
                 $currentDate->addDay();
                 continue; // Skip rest days - no shift created
             }
 
-            // STEP 2: Then check schedule day-of-week (schedule applies to work days)
-            // Get day name and check if schedule has shift times for this day
+            // STEP 2: Use the rotation's shift for the day, or else the schedule's
+            // day-of-week hours (schedule applies to work days)
+            $rotationShift = $rotation->shiftForDay((int) $startDate->diffInDays($currentDate));
             $day = strtolower($currentDate->format('l'));
-            $startField = $day . '_start';
-            $endField = $day . '_end';
-
-            // Only create shift if schedule has times defined for this day of week
-            if ($schedule->{$startField} && $schedule->{$endField}) {
+            $shiftStart = $rotationShift
+                ? Carbon::parse($rotationShift['shift_start'])->format('H:i:s')
+                : $schedule->{$day . '_start'};
+            $shiftEnd = $rotationShift
+                ? Carbon::parse($rotationShift['shift_end'])->format('H:i:s')
+                : $schedule->{$day . '_end'};
+
+            $alreadyAssigned = $shiftStart && ShiftAssignment::withTrashed()
+                ->where('employee_id', $assignment->employee_id)
+                ->whereDate('date', $currentDate)
+                ->where('shift_start', $shiftStart)
+                ->exists();
+
+            // Only create shift if there are times for this day and it isn't there yet
+            if ($shiftStart && $shiftEnd && !$alreadyAssigned) {
                 $assignments[] = [
                     'employee_id' => $assignment->employee_id,
                     'schedule_id' => $schedule->id,
                     'rotation_assignment_id' => $assignment->id, // NEW: Track rotation source
                     'date' => $currentDate->toDateString(),
-                    'shift_start' => $schedule->{$startField},
-                    'shift_end' => $schedule->{$endField},
-                    'shift_type' => 'regular',
+                    'shift_start' => $shiftStart,
+                    'shift_end' => $shiftEnd,
+                    'shift_type' => $rotationShift['shift_type'] ?? null,
                     'assignment_source' => 'rotation', // NEW: Source tracking
-                    'source_details' => json_encode([ // NEW: Additional context
+                    'source_details' => json_encode(array_filter([ // NEW: Additional context
                         'rotation_id' => $rotation->id,
                         'rotation_name' => $rotation->name,
                         'schedule_name' => $schedule->name,
-                    ]),
+                        'rotation_shift' => $rotationShift['code'] ?? null,
+                    ])),
                     'department_id' => $schedule->department_id,
                     'status' => 'scheduled',
                     'has_conflict' => false,
@@ -324,10 +347,10 @@ public function generateShiftAssignments(
             ShiftAssignment::insert($assignments);
         }
 
-        // Return the created shifts for this employee and date range
+        // Return the shifts created for this employee and date range
         return ShiftAssignment::where('employee_id', $assignment->employee_id)
-            ->where('date', '>=', $fromDate->toDateString())
-            ->where('date', '<=', $toDate->toDateString())
+            ->where('rotation_assignment_id', $assignment->id)
+            ->whereIn('date', array_column($assignments, 'date'))
             ->get();
     }
 
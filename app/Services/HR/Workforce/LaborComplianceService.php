@@ -0,0 +1,518 @@
+<?php
+
+namespace App\Services\HR\Workforce;
+
+use App\Models\DailyAttendanceSummary;
+use App\Models\Employee;
+use App\Models\ShiftAssignment;
+use App\Models\SystemSetting;
+use Carbon\Carbon;
+use Illuminate\Support\Collection;
+
+/**
+ * LaborComplianceService
+ *
+ * Checks scheduled shifts and actual attendance against DOLE labor standards
+ * and the overtime business rules. Violations are:
+ *
+ * - consecutive_workdays: more than 6 workdays in a row without the weekly
+ *   rest day (Labor Code Art. 91)
+ * - insufficient_rest: less than the minimum rest period between two shifts
+ * - daily_hours / weekly_hours: more than the normal hours plus the overtime
+ *   caps of the overtime rules (business_rules.overtime.*); a normal week is
+ *   six normal days
+ * - minor_hours / minor_night_work: working hours and night work limits for
+ *   employees under 18 (RA 9231): under 15, at most 4 hours a day and 20 a
+ *   week, none from 8 PM to 6 AM; 15 to 17, at most 8 hours a day and 40 a
+ *   week, none from 10 PM to 6 AM
+ *
+ * Schedule scans read ShiftAssignments (plus shifts not saved yet, such as a
+ * schedule draft); attendance scans read the time in and out of
+ * DailyAttendanceSummary.
+ */
+class LaborComplianceService
+{
+    public const MAX_CONSECUTIVE_WORKDAYS = 6;
+
+    /**
+     * Label and legal basis of each violation type.
+     */
+    public const RULES = [
+        'consecutive_workdays' => [
+            'label' => 'No weekly rest day',
+            'requirement' => 'Labor Code Art. 91: a rest day of 24 consecutive hours after every 6 consecutive workdays',
+        ],
+        'insufficient_rest' => [
+            'label' => 'Insufficient rest between shifts',
+            'requirement' => 'Minimum rest period between shifts (workforce.min_rest_hours)',
+        ],
+        'daily_hours' => [
+            'label' => 'Daily hours cap',
+            'requirement' => 'Labor Code Art. 83 and 87: normal hours plus the maximum overtime per day',
+        ],
+        'weekly_hours' => [
+            'label' => 'Weekly hours cap',
+            'requirement' => 'Normal weekly hours plus the maximum overtime per week',
+        ],
+        'minor_hours' => [
+            'label' => "Minor's working hours",
+            'requirement' => 'RA 9231: at most 4 h/day and 20 h/week under 15; at most 8 h/day and 40 h/week from 15 to 17',
+        ],
+        'minor_night_work' => [
+            'label' => "Minor's night work",
+            'requirement' => 'RA 9231: no work from 8 PM to 6 AM under 15, or from 10 PM to 6 AM from 15 to 17',
+        ],
+    ];
+
+    public function __construct(
+        private ScheduleConflictService $conflicts
+    ) {}
+
+    /**
+     * Hours caps from the overtime rules.
+     *
+     * @return array{daily: float, weekly: float}
+     */
+    public function hourCaps(): array
+    {
+        $normal = (float) SystemSetting::getValue('business_rules.overtime.threshold_hours', 8.0);
+
+        return [
+            'daily' => $normal + (float) SystemSetting::getValue('business_rules.overtime.max_hours_per_day', 4.0),
+            'weekly' => $normal * self::MAX_CONSECUTIVE_WORKDAYS + (float) SystemSetting::getValue('business_rules.overtime.max_hours_per_week', 20.0),
+        ];
+    }
+
+    /**
+     * Violations of the scheduled shifts in a date range.
+     *
+     * @param Carbon $from
+     * @param Carbon $to
+     * @param array<int, int>|null $employeeIds Every scheduled employee when null
+     * @param array<int, array{employee_id: int, date: string, shift_start: string, shift_end: string}> $plannedShifts Shifts not saved yet
+     * @return array<int, array>
+     */
+    public function scanSchedule(Carbon $from, Carbon $to, ?array $employeeIds = null, array $plannedShifts = []): array
+    {
+        [$loadFrom, $loadTo] = $this->loadRange($from, $to);
+
+        $windows = ShiftAssignment::whereBetween('date', [$loadFrom->toDateString(), $loadTo->toDateString()])
+            ->where('status', '!=', 'cancelled')
+            ->when($employeeIds !== null, fn ($query) => $query->whereIn('employee_id', $employeeIds))
+            ->get(['id', 'employee_id', 'date', 'shift_start', 'shift_end'])
+            ->map(fn (ShiftAssignment $assignment) => $this->shiftWindow(
+                $assignment->employee_id,
+                $assignment->date,
+                $assignment->shift_start,
+                $assignment->shift_end
+            ));
+
+        foreach ($plannedShifts as $shift) {
+            $windows->push($this->shiftWindow($shift['employee_id'], $shift['date'], $shift['shift_start'], $shift['shift_end']));
+        }
+
+        return $this->evaluate($windows, $from, $to, 'schedule');
+    }
+
+    /**
+     * Violations of the actual attendance in a date range.
+     *
+     * @param Carbon $from
+     * @param Carbon $to
+     * @param array<int, int>|null $employeeIds Every employee with attendance when null
+     * @return array<int, array>
+     */
+    public function scanAttendance(Carbon $from, Carbon $to, ?array $employeeIds = null): array
+    {
+        [$loadFrom, $loadTo] = $this->loadRange($from, $to);
+
+        $windows = DailyAttendanceSummary::whereBetween('attendance_date', [$loadFrom->toDateString(), $loadTo->toDateString()])
+            ->where('is_present', true)
+            ->whereNotNull('time_in')
+            ->whereNotNull('time_out')
+            ->when($employeeIds !== null, fn ($query) => $query->whereIn('employee_id', $employeeIds))
+            ->get(['id', 'employee_id', 'attendance_date', 'time_in', 'time_out', 'total_hours_worked'])
+            ->map(function (DailyAttendanceSummary $summary) {
+                $start = Carbon::parse($summary->time_in);
+                $end = Carbon::parse($summary->time_out);
+
+                return [
+                    'employee_id' => (int) $summary->employee_id,
+                    'date' => $summary->attendance_date->toDateString(),
+                    'start' => $start,
+                    'end' => $end,
+                    'hours' => $summary->total_hours_worked !== null
+                        ? (float) $summary->total_hours_worked
+                        : $start->diffInMinutes($end, true) / 60,
+                ];
+            })
+            ->filter(fn (array $window) => $window['end']->gt($window['start']));
+
+        return $this->evaluate($windows, $from, $to, 'attendance');
+    }
+
+    /**
+     * Schedule and attendance violations of a date range, for the compliance report.
+     *
+     * @return array{total_violations: int, by_rule: array<string, int>, by_source: array<string, int>, by_severity: array<string, int>, employees_affected: int, limits: array, rules: array, violations: array<int, array>}
+     */
+    public function report(Carbon $from, Carbon $to): array
+    {
+        $violations = collect([
+            ...$this->scanSchedule($from, $to),
+            ...$this->scanAttendance($from, $to),
+        ])->sortBy([['date', 'desc'], ['employee_name', 'asc']])->values();
+
+        $caps = $this->hourCaps();
+
+        return [
+            'total_violations' => $violations->count(),
+            'by_rule' => collect(self::RULES)->map(fn (array $rule, string $type) => $violations->where('type', $type)->count())->all(),
+            'by_source' => [
+                'schedule' => $violations->where('source', 'schedule')->count(),
+                'attendance' => $violations->where('source', 'attendance')->count(),
+            ],
+            'by_severity' => [
+                'critical' => $violations->where('severity', 'critical')->count(),
+                'warning' => $violations->where('severity', 'warning')->count(),
+            ],
+            'employees_affected' => $violations->pluck('employee_id')->unique()->count(),
+            'limits' => [
+                'max_consecutive_workdays' => self::MAX_CONSECUTIVE_WORKDAYS,
+                'min_rest_hours' => $this->conflicts->minRestHours(),
+                'max_daily_hours' => $caps['daily'],
+                'max_weekly_hours' => $caps['weekly'],
+            ],
+            'rules' => collect(self::RULES)->map(fn (array $rule, string $type) => ['type' => $type, ...$rule])->values()->all(),
+            'violations' => $violations->take(200)->all(),
+        ];
+    }
+
+    /**
+     * Violations grouped by date, for inline warnings on a calendar.
+     *
+     * @param array<int, array> $violations
+     * @return array<string, array<int, array>>
+     */
+    public function groupByDate(array $violations): array
+    {
+        return collect($violations)->groupBy('date')->map(fn (Collection $items) => $items->values()->all())->all();
+    }
+
+    /**
+     * Violations of the work windows of many employees, dated within the range.
+     *
+     * @param Collection $windows Windows with employee_id, date, start, end and hours
+     */
+    private function evaluate(Collection $windows, Carbon $from, Carbon $to, string $source): array
+    {
+        if ($windows->isEmpty()) {
+            return [];
+        }
+
+        $employees = Employee::with('profile:id,first_name,last_name,date_of_birth')
+            ->whereIn('id', $windows->pluck('employee_id')->unique()->all())
+            ->get(['id', 'employee_number', 'profile_id'])
+            ->keyBy('id');
+
+        $caps = $this->hourCaps();
+        $minRest = $this->conflicts->minRestHours();
+        $violations = [];
+
+        foreach ($windows->groupBy('employee_id') as $employeeId => $employeeWindows) {
+            $employee = $employees->get($employeeId);
+            if (!$employee) {
+                continue;
+            }
+
+            $employeeWindows = $employeeWindows->sortBy(fn (array $window) => $window['start']->getTimestamp())->values();
+            $context = [
+                'employee' => $employee,
+                'source' => $source,
+                'from' => $from->copy()->startOfDay(),
+                'to' => $to->copy()->startOfDay(),
+            ];
+
+            array_push($violations,
+                ...$this->checkConsecutiveWorkdays($employeeWindows, $context),
+                ...$this->checkRest($employeeWindows, $minRest, $context),
+                ...$this->checkHours($employeeWindows, $caps, $context),
+                ...$this->checkMinor($employeeWindows, $context),
+            );
+        }
+
+        // Violations dated outside the range come back empty
+        return array_values(array_filter($violations));
+    }
+
+    private function checkConsecutiveWorkdays(Collection $windows, array $context): array
+    {
+        $dates = $windows->pluck('date')->unique()->sort()->values();
+        $violations = [];
+        $streakStart = null;
+        $previous = null;
+        $length = 0;
+
+        foreach ([...$dates->all(), null] as $date) {
+            $day = $date ? Carbon::parse($date) : null;
+
+            if ($day && $previous && $previous->copy()->addDay()->isSameDay($day)) {
+                $length++;
+            } else {
+                if ($length > self::MAX_CONSECUTIVE_WORKDAYS) {
+                    // Dated on the first day that should have been the rest day, or
+                    // the start of the range for a streak that began before it
+                    $flagged = $streakStart->copy()->addDays(self::MAX_CONSECUTIVE_WORKDAYS);
+                    if ($flagged->lt($context['from']) && $previous->gte($context['from'])) {
+                        $flagged = $context['from']->copy();
+                    }
+                    $violations[] = $this->violation('consecutive_workdays', 'critical', $flagged, $context,
+                        "Works {$length} consecutive days ({$streakStart->format('M j')} – {$previous->format('M j')}) without a rest day",
+                        'Employees must get a rest day of at least 24 consecutive hours after 6 consecutive workdays.',
+                        $length,
+                        self::MAX_CONSECUTIVE_WORKDAYS
+                    );
+                }
+                $streakStart = $day;
+                $length = 1;
+            }
+
+            $previous = $day;
+        }
+
+        return $violations;
+    }
+
+    private function checkRest(Collection $windows, float $minRest, array $context): array
+    {
+        $violations = [];
+
+        foreach ($windows as $index => $window) {
+            $next = $windows->get($index + 1);
+            // Overlapping shifts are conflicts of the schedule, not a rest period
+            if (!$next || $next['start']->lt($window['end'])) {
+                continue;
+            }
+
+            $restMinutes = $window['end']->diffInMinutes($next['start'], true);
+            if ($restMinutes >= $minRest * 60) {
+                continue;
+            }
+
+            $rest = round($restMinutes / 60, 1);
+            $violations[] = $this->violation('insufficient_rest', 'warning', Carbon::parse($next['date']), $context,
+                "Only {$rest}h rest between the shift ending {$window['end']->format('M j g:i A')} and the next one",
+                "Shifts should be at least {$minRest} hours apart.",
+                $rest,
+                $minRest
+            );
+        }
+
+        return $violations;
+    }
+
+    private function checkHours(Collection $windows, array $caps, array $context): array
+    {
+        $violations = [];
+
+        foreach ($windows->groupBy('date') as $date => $dayWindows) {
+            $hours = round($dayWindows->sum('hours'), 2);
+            if ($hours > $caps['daily']) {
+                $violations[] = $this->violation('daily_hours', 'warning', Carbon::parse($date), $context,
+                    "{$hours}h in one day, over the {$caps['daily']}h cap",
+                    'Normal hours plus the maximum overtime per day of the overtime rules.',
+                    $hours,
+                    $caps['daily']
+                );
+            }
+        }
+
+        foreach ($this->weeks($windows) as $weekStart => $weekWindows) {
+            $hours = round($weekWindows->sum('hours'), 2);
+            if ($hours > $caps['weekly']) {
+                $violations[] = $this->violation('weekly_hours', 'warning', $this->weekDate($weekStart, $context), $context,
+                    "{$hours}h in the week of " . Carbon::parse($weekStart)->format('M j') . ", over the {$caps['weekly']}h cap",
+                    'Normal hours of a six-day week plus the maximum overtime per week of the overtime rules.',
+                    $hours,
+                    $caps['weekly']
+                );
+            }
+        }
+
+        return $violations;
+    }
+
+    private function checkMinor(Collection $windows, array $context): array
+    {
+        $birthDate = $context['employee']->profile?->date_of_birth;
+        if (!$birthDate) {
+            return [];
+        }
+        $birthDate = Carbon::parse($birthDate);
+
+        $violations = [];
+
+        foreach ($windows->groupBy('date') as $date => $dayWindows) {
+            $limits = $this->minorLimits($birthDate, Carbon::parse($date));
+            if (!$limits) {
+                continue;
+            }
+
+            $hours = round($dayWindows->sum('hours'), 2);
+            if ($hours > $limits['daily']) {
+                $violations[] = $this->violation('minor_hours', 'critical', Carbon::parse($date), $context,
+                    "Minor ({$limits['age']}) works {$hours}h in one day, over the {$limits['daily']}h limit",
+                    self::RULES['minor_hours']['requirement'] . '.',
+                    $hours,
+                    $limits['daily']
+                );
+            }
+
+            foreach ($dayWindows as $window) {
+                if ($this->overlapsNight($window, $limits['night_start'])) {
+                    $violations[] = $this->violation('minor_night_work', 'critical', Carbon::parse($date), $context,
+                        "Minor ({$limits['age']}) works {$window['start']->format('g:i A')}–{$window['end']->format('g:i A')}, inside the night hours from {$limits['night_start']}:00",
+                        self::RULES['minor_night_work']['requirement'] . '.',
+                        null,
+                        null
+                    );
+                    break;
+                }
+            }
+        }
+
+        foreach ($this->weeks($windows) as $weekStart => $weekWindows) {
+            $limits = $this->minorLimits($birthDate, Carbon::parse($weekStart));
+            if (!$limits) {
+                continue;
+            }
+
+            $hours = round($weekWindows->sum('hours'), 2);
+            if ($hours > $limits['weekly']) {
+                $violations[] = $this->violation('minor_hours', 'critical', $this->weekDate($weekStart, $context), $context,
+                    "Minor ({$limits['age']}) works {$hours}h in the week of " . Carbon::parse($weekStart)->format('M j') . ", over the {$limits['weekly']}h limit",
+                    self::RULES['minor_hours']['requirement'] . '.',
+                    $hours,
+                    $limits['weekly']
+                );
+            }
+        }
+
+        return $violations;
+    }
+
+    /**
+     * Limits for an employee of this birth date on a date, or null for an adult.
+     *
+     * @return array{age: int, daily: float, weekly: float, night_start: int}|null
+     */
+    private function minorLimits(Carbon $birthDate, Carbon $date): ?array
+    {
+        $age = (int) $birthDate->diffInYears($date);
+
+        return match (true) {
+            $age >= 18 => null,
+            $age < 15 => ['age' => $age, 'daily' => 4.0, 'weekly' => 20.0, 'night_start' => 20],
+            default => ['age' => $age, 'daily' => 8.0, 'weekly' => 40.0, 'night_start' => 22],
+        };
+    }
+
+    /**
+     * Whether a work window overlaps the night hours, from the start hour to 6 AM.
+     */
+    private function overlapsNight(array $window, int $nightStart): bool
+    {
+        for ($day = $window['start']->copy()->subDay()->startOfDay(); $day->lte($window['end']); $day->addDay()) {
+            $nightFrom = $day->copy()->setTime($nightStart, 0);
+            $nightTo = $day->copy()->addDay()->setTime(6, 0);
+
+            if ($window['start']->lt($nightTo) && $window['end']->gt($nightFrom)) {
+                return true;
+            }
+        }
+
+        return false;
+    }
+
+    /**
+     * Windows grouped by the Monday of their week.
+     */
+    private function weeks(Collection $windows): Collection
+    {
+        return $windows->groupBy(fn (array $window) => Carbon::parse($window['date'])->startOfWeek(Carbon::MONDAY)->toDateString());
+    }
+
+    /**
+     * The date a weekly violation is reported on: the week start, kept within the scanned range.
+     */
+    private function weekDate(string $weekStart, array $context): Carbon
+    {
+        $date = Carbon::parse($weekStart);
+
+        return $date->lt($context['from']) ? $context['from']->copy() : $date;
+    }
+
+    /**
+     * Range to load so streaks and weeks reaching into the scanned range are complete.
+     *
+     * @return array{0: Carbon, 1: Carbon}
+     */
+    private function loadRange(Carbon $from, Carbon $to): array
+    {
+        $loadFrom = $from->copy()->startOfDay()->subDays(self::MAX_CONSECUTIVE_WORKDAYS + 1)->startOfWeek(Carbon::MONDAY);
+        $loadTo = $to->copy()->startOfDay()->addDays(self::MAX_CONSECUTIVE_WORKDAYS + 1)->endOfWeek(Carbon::SUNDAY);
+
+        return [$loadFrom, $loadTo];
+    }
+
+    private function shiftWindow(int $employeeId, Carbon|string $date, string $shiftStart, string $shiftEnd): array
+    {
+        $window = $this->conflicts->window($date, $shiftStart, $shiftEnd);
+
+        return [
+            'employee_id' => (int) $employeeId,
+            'date' => $window['date'],
+            'start' => $window['start'],
+            'end' => $window['end'],
+            'hours' => $window['start']->diffInMinutes($window['end'], true) / 60,
+        ];
+    }
+
+    /**
+     * A violation, or an empty array when it is dated outside the scanned range.
+     */
+    private function violation(
+        string $type,
+        string $severity,
+        Carbon $date,
+        array $context,
+        string $message,
+        string $details,
+        float|int|null $value,
+        float|int|null $limit
+    ): array {
+        /** @var Employee $employee */
+        $employee = $context['employee'];
+
+        if ($date->lt($context['from']) || $date->gt($context['to'])) {
+            return [];
+        }
+
+        return [
+            'id' => "{$context['source']}-{$type}-{$employee->id}-{$date->toDateString()}-" . substr(md5($message), 0, 8),
+            'type' => $type,
+            'label' => self::RULES[$type]['label'],
+            'severity' => $severity,
+            'source' => $context['source'],
+            'employee_id' => $employee->id,
+            'employee_name' => trim("{$employee->profile?->first_name} {$employee->profile?->last_name}"),
+            'employee_number' => $employee->employee_number,
+            'date' => $date->toDateString(),
+            'message' => $message,
+            'details' => $details,
+            'requirement' => self::RULES[$type]['requirement'],
+            'value' => $value,
+            'limit' => $limit,
+        ];
+    }
+}
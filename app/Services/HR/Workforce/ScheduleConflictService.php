@@ -0,0 +1,327 @@
+<?php
+
+namespace App\Services\HR\Workforce;
+
+use App\Models\Employee;
+use App\Models\LeaveRequest;
+use App\Models\RotationAssignment;
+use App\Models\ShiftAssignment;
+use App\Models\SystemSetting;
+use Carbon\Carbon;
+use Illuminate\Support\Collection;
+
+/**
+ * ScheduleConflictService
+ *
+ * Validates a shift an employee is about to be assigned against their
+ * schedule. A shift conflicts when it:
+ *
+ * - overlaps another assigned shift (critical), including overnight shifts
+ *   from the day before or after
+ * - falls on approved leave (critical)
+ * - leaves less than the minimum rest period before or after another shift (warning)
+ * - falls on a rest day of the employee's rotation (warning)
+ *
+ * Each conflict is returned as an array with type, severity, date, message,
+ * details and resolution, plus conflicting_shift for overlap and rest
+ * conflicts. The types match the ConflictData type used by the assignment screens.
+ */
+class ScheduleConflictService
+{
+    public const DEFAULT_MIN_REST_HOURS = 8;
+
+    /**
+     * Minimum hours between the end of one shift and the start of the next.
+     */
+    public function minRestHours(): float
+    {
+        return (float) SystemSetting::getValue('workforce.min_rest_hours', self::DEFAULT_MIN_REST_HOURS);
+    }
+
+    /**
+     * Conflicts of one shift for one employee.
+     *
+     * @param int $employeeId
+     * @param Carbon $date
+     * @param string $shiftStart
+     * @param string $shiftEnd
+     * @param int|null $excludeAssignmentId The assignment being edited
+     * @return array<int, array>
+     */
+    public function check(
+        int $employeeId,
+        Carbon $date,
+        string $shiftStart,
+        string $shiftEnd,
+        ?int $excludeAssignmentId = null
+    ): array {
+        $date = $date->copy()->startOfDay();
+        $schedule = $this->loadSchedule($employeeId, $date, $date, $excludeAssignmentId);
+
+        return $this->conflictsFor($date, $shiftStart, $shiftEnd, $schedule, [], $this->minRestHours());
+    }
+
+    /**
+     * Conflicts of the same shift assigned to several employees on every day
+     * of a date range, grouped per employee and date. The shifts of the batch
+     * count against each other for the rest period. An assignment already on
+     * a date of the batch at the same start time is replaced by the batch, so
+     * it is left out.
+     *
+     * @param array<int, int> $employeeIds
+     * @param Carbon $dateFrom
+     * @param Carbon $dateTo
+     * @param string $shiftStart
+     * @param string $shiftEnd
+     * @return array<int, array{employee_id: int, employee_name: string, conflicting_dates: array<int, string>, conflict_count: int, dates: array<int, array{date: string, conflicts: array<int, array>}>}>
+     */
+    public function checkBulk(
+        array $employeeIds,
+        Carbon $dateFrom,
+        Carbon $dateTo,
+        string $shiftStart,
+        string $shiftEnd
+    ): array {
+        $dateFrom = $dateFrom->copy()->startOfDay();
+        $dateTo = $dateTo->copy()->startOfDay();
+        $minRest = $this->minRestHours();
+
+        $dates = [];
+        for ($date = $dateFrom->copy(); $date->lte($dateTo); $date->addDay()) {
+            $dates[] = $date->copy();
+        }
+
+        $planned = array_map(fn (Carbon $date) => $this->window($date, $shiftStart, $shiftEnd), $dates);
+        $replaced = collect($planned)->map(fn (array $window) => "{$window['date']} {$window['shift_start']}")->flip();
+
+        $employees = Employee::with('profile:id,first_name,last_name')
+            ->whereIn('id', $employeeIds)
+            ->get()
+            ->keyBy('id');
+
+        $results = [];
+
+        foreach ($employeeIds as $employeeId) {
+            $schedule = $this->loadSchedule((int) $employeeId, $dateFrom, $dateTo);
+            $schedule['assignments'] = $schedule['assignments']
+                ->reject(fn (array $window) => $replaced->has("{$window['date']} {$window['shift_start']}"))
+                ->values();
+            $byDate = [];
+            $count = 0;
+
+            foreach ($dates as $index => $date) {
+                $others = array_values(array_filter($planned, fn ($window, $i) => $i !== $index, ARRAY_FILTER_USE_BOTH));
+                $conflicts = $this->conflictsFor($date, $shiftStart, $shiftEnd, $schedule, $others, $minRest);
+
+                if (!empty($conflicts)) {
+                    $byDate[] = ['date' => $date->toDateString(), 'conflicts' => $conflicts];
+                    $count += count($conflicts);
+                }
+            }
+
+            if (empty($byDate)) {
+                continue;
+            }
+
+            $profile = $employees->get($employeeId)?->profile;
+            $results[] = [
+                'employee_id' => (int) $employeeId,
+                'employee_name' => trim("{$profile?->first_name} {$profile?->last_name}"),
+                'conflicting_dates' => array_column($byDate, 'date'),
+                'conflict_count' => $count,
+                'dates' => $byDate,
+            ];
+        }
+
+        return $results;
+    }
+
+    /**
+     * One-line summary of a list of conflicts, for ShiftAssignment::conflict_reason.
+     *
+     * @param array<int, array> $conflicts
+     */
+    public function summarize(array $conflicts): ?string
+    {
+        if (empty($conflicts)) {
+            return null;
+        }
+
+        $summary = $conflicts[0]['message'];
+        if (count($conflicts) > 1) {
+            $summary .= ' (+' . (count($conflicts) - 1) . ' more)';
+        }
+
+        return mb_substr($summary, 0, 255);
+    }
+
+    /**
+     * Assignments, approved leave and rotations of an employee around a date range.
+     * Load once and pass to conflictsFor() when checking many shifts.
+     *
+     * @return array{assignments: Collection, leaves: Collection, rotations: Collection}
+     */
+    public function loadSchedule(int $employeeId, Carbon $dateFrom, Carbon $dateTo, ?int $excludeAssignmentId = null): array
+    {
+        // A day either side for overnight shifts and the rest period
+        $assignments = ShiftAssignment::where('employee_id', $employeeId)
+            ->whereBetween('date', [$dateFrom->copy()->subDay()->toDateString(), $dateTo->copy()->addDay()->toDateString()])
+            ->where('status', '!=', 'cancelled')
+            ->when($excludeAssignmentId, fn ($query) => $query->where('id', '!=', $excludeAssignmentId))
+            ->get(['id', 'date', 'shift_start', 'shift_end'])
+            ->map(fn (ShiftAssignment $assignment) => $this->window(
+                $assignment->date,
+                $assignment->shift_start,
+                $assignment->shift_end,
+                $assignment->id
+            ));
+
+        $leaves = LeaveRequest::with('leavePolicy:id,name')
+            ->where('employee_id', $employeeId)
+            ->where('status', 'approved')
+            ->whereDate('start_date', '<=', $dateTo)
+            ->whereDate('end_date', '>=', $dateFrom)
+            ->get(['id', 'leave_policy_id', 'start_date', 'end_date']);
+
+        $rotations = RotationAssignment::with('rotation')
+            ->where('employee_id', $employeeId)
+            ->where('is_active', true)
+            ->whereDate('start_date', '<=', $dateTo)
+            ->where(fn ($query) => $query->whereNull('end_date')->orWhereDate('end_date', '>=', $dateFrom))
+            ->get();
+
+        return ['assignments' => $assignments, 'leaves' => $leaves, 'rotations' => $rotations];
+    }
+
+    /**
+     * Conflicts of one shift against a loaded schedule and the other shifts
+     * planned for the employee but not saved yet.
+     *
+     * @param Carbon $date
+     * @param string $shiftStart
+     * @param string $shiftEnd
+     * @param array{assignments: Collection, leaves: Collection, rotations: Collection} $schedule
+     * @param array<int, array> $planned Windows of the other planned shifts
+     * @param float $minRest
+     * @return array<int, array>
+     */
+    public function conflictsFor(Carbon $date, string $shiftStart, string $shiftEnd, array $schedule, array $planned, float $minRest): array
+    {
+        $shift = $this->window($date, $shiftStart, $shiftEnd);
+        $conflicts = [];
+
+        foreach ($schedule['assignments']->concat($planned) as $other) {
+            $label = $this->label($other);
+
+            if ($shift['start']->lt($other['end']) && $shift['end']->gt($other['start'])) {
+                $conflicts[] = $this->conflict('overlap', 'critical', $date,
+                    $other['id'] ? "Overlaps the assigned {$label} shift" : "Overlaps the {$label} shift in this batch",
+                    'The employee cannot work two shifts at the same time.',
+                    'Edit or remove the other shift, or choose different shift times.',
+                    $other
+                );
+                continue;
+            }
+
+            $restMinutes = $other['end']->lte($shift['start'])
+                ? $other['end']->diffInMinutes($shift['start'], true)
+                : $shift['end']->diffInMinutes($other['start'], true);
+
+            if ($restMinutes < $minRest * 60) {
+                $hours = round($restMinutes / 60, 1);
+                $conflicts[] = $this->conflict('insufficient_rest', 'warning', $date,
+                    "Only {$hours}h rest " . ($other['end']->lte($shift['start']) ? 'after' : 'before') . " the {$label} shift",
+                    "Shifts should be at least {$minRest} hours apart.",
+                    'Move the shift so the employee gets the minimum rest period, or confirm the override.',
+                    $other
+                );
+            }
+        }
+
+        foreach ($schedule['leaves'] as $leave) {
+            if ($date->betweenIncluded($leave->start_date->copy()->startOfDay(), $leave->end_date->copy()->startOfDay())) {
+                $type = $leave->leavePolicy?->name ?? 'leave';
+                $conflicts[] = $this->conflict('unavailable', 'critical', $date,
+                    "On approved {$type} from {$leave->start_date->format('M j')} to {$leave->end_date->format('M j')}",
+                    'The employee is not available on this date.',
+                    'Assign another employee, or cancel the leave first.'
+                );
+            }
+        }
+
+        foreach ($schedule['rotations'] as $rotation) {
+            if (!$rotation->rotation
+                || $date->lt($rotation->start_date)
+                || ($rotation->end_date && $date->gt($rotation->end_date))) {
+                continue;
+            }
+
+            $offset = (int) abs($rotation->start_date->copy()->startOfDay()->diffInDays($date));
+            if (!$rotation->rotation->pattern_array || $rotation->rotation->calculateWorkDay($rotation->start_date, $offset)) {
+                continue;
+            }
+
+            $conflicts[] = $this->conflict('rotation_conflict', 'warning', $date,
+                "Rest day in the {$rotation->rotation->name} rotation",
+                'The rotation pattern gives the employee this day off.',
+                'Choose a work day of the rotation, or confirm the override.'
+            );
+        }
+
+        return $conflicts;
+    }
+
+    /**
+     * Start and end of a shift; an end at or before the start is the next day.
+     *
+     * @return array{id: int|null, date: string, shift_start: string, shift_end: string, start: Carbon, end: Carbon}
+     */
+    public function window(Carbon|string $date, string $shiftStart, string $shiftEnd, ?int $id = null): array
+    {
+        $day = Carbon::parse($date)->toDateString();
+        $start = Carbon::parse("{$day} {$shiftStart}");
+        $end = Carbon::parse("{$day} {$shiftEnd}");
+        if ($end->lte($start)) {
+            $end->addDay();
+        }
+
+        return [
+            'id' => $id,
+            'date' => $day,
+            'shift_start' => $start->format('H:i:s'),
+            'shift_end' => $end->format('H:i:s'),
+            'start' => $start,
+            'end' => $end,
+        ];
+    }
+
+    private function label(array $window): string
+    {
+        return Carbon::parse($window['date'])->format('M j') . ' ' . $window['start']->format('g:i A') . '–' . $window['end']->format('g:i A');
+    }
+
+    private function conflict(
+        string $type,
+        string $severity,
+        Carbon $date,
+        string $message,
+        string $details,
+        string $resolution,
+        ?array $other = null
+    ): array {
+        return [
+            'type' => $type,
+            'severity' => $severity,
+            'date' => $date->toDateString(),
+            'message' => $message,
+            'details' => $details,
+            'resolution' => $resolution,
+            'conflicting_shift' => $other ? [
+                'id' => $other['id'],
+                'date' => $other['date'],
+                'shift_start' => $other['shift_start'],
+                'shift_end' => $other['shift_end'],
+            ] : null,
+        ];
+    }
+}
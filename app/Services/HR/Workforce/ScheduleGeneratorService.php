@@ -0,0 +1,555 @@
+<?php
+
+namespace App\Services\HR\Workforce;
+
+use App\Models\Employee;
+use App\Models\RotationAssignment;
+use App\Models\ScheduleDraft;
+use App\Models\ScheduleDraftShift;
+use App\Models\ShiftAssignment;
+use App\Models\User;
+use Carbon\Carbon;
+use Illuminate\Support\Collection;
+use Illuminate\Support\Facades\DB;
+
+/**
+ * ScheduleGeneratorService
+ *
+ * Proposes a department's shifts for a date range from coverage targets
+ * (required headcount per shift type and weekday) and publishes the reviewed
+ * draft as shift assignments.
+ *
+ * The generator fills each date and shift in order, counting shifts already
+ * assigned in the department toward the headcount. A candidate must be free
+ * of every conflict the ScheduleConflictService knows about (overlaps,
+ * approved leave, the minimum rest period, rotation rest days) and have no
+ * other shift that day. Candidates are ranked by:
+ *
+ * 1. A work day of their rotation; for a multi-shift rotation, only when the
+ *    day's shift has the target's shift type (another type ranks last)
+ * 2. Fewest shifts in the draft so far, to spread the load
+ * 3. The same shift type as their previous drafted shift, to avoid flipping
+ *
+ * Whatever headcount cannot be met is recorded as a coverage gap.
+ */
+class ScheduleGeneratorService
+{
+    public const MAX_RANGE_DAYS = 62;
+
+    public function __construct(
+        private ScheduleConflictService $conflicts
+    ) {}
+
+    /**
+     * Generate a draft schedule.
+     *
+     * @param int $departmentId
+     * @param Carbon $dateFrom
+     * @param Carbon $dateTo
+     * @param array<int, array{shift_type: string, schedule_id: int, shift_start: string, shift_end: string, headcount: array<string, int>}> $targets
+     * @param User $createdBy
+     * @return ScheduleDraft
+     * @throws \InvalidArgumentException
+     */
+    public function generate(int $departmentId, Carbon $dateFrom, Carbon $dateTo, array $targets, User $createdBy): ScheduleDraft
+    {
+        $dateFrom = $dateFrom->copy()->startOfDay();
+        $dateTo = $dateTo->copy()->startOfDay();
+
+        if ($dateFrom->gt($dateTo)) {
+            throw new \InvalidArgumentException('The start date must be on or before the end date.');
+        }
+        if ($dateFrom->diffInDays($dateTo) + 1 > self::MAX_RANGE_DAYS) {
+            throw new \InvalidArgumentException('A schedule can be generated for at most ' . self::MAX_RANGE_DAYS . ' days at a time.');
+        }
+
+        $targets = $this->normalizeTargets($targets);
+        if (empty($targets)) {
+            throw new \InvalidArgumentException('Set a headcount for at least one shift.');
+        }
+
+        $employees = Employee::with('profile:id,first_name,last_name')
+            ->active()
+            ->where('department_id', $departmentId)
+            ->orderBy('employee_number')
+            ->get(['id', 'employee_number', 'profile_id', 'department_id']);
+
+        if ($employees->isEmpty()) {
+            throw new \InvalidArgumentException('The department has no active employees to schedule.');
+        }
+
+        $minRest = $this->conflicts->minRestHours();
+        $schedules = [];
+        $planned = [];
+        $shiftCounts = [];
+        $lastShiftType = [];
+
+        foreach ($employees as $employee) {
+            $schedules[$employee->id] = $this->conflicts->loadSchedule($employee->id, $dateFrom, $dateTo);
+            $planned[$employee->id] = [];
+            $shiftCounts[$employee->id] = 0;
+            $lastShiftType[$employee->id] = null;
+        }
+
+        $existing = $this->existingCoverage($departmentId, $dateFrom, $dateTo);
+        $shifts = [];
+
+        for ($date = $dateFrom->copy(); $date->lte($dateTo); $date->addDay()) {
+            $day = $date->toDateString();
+            $weekday = strtolower($date->format('l'));
+
+            foreach ($targets as $target) {
+                $needed = $target['headcount'][$weekday] - ($existing["{$day}|{$target['shift_type']}"] ?? 0);
+                if ($needed <= 0) {
+                    continue;
+                }
+
+                $candidates = [];
+
+                foreach ($employees as $employee) {
+                    if (collect($planned[$employee->id])->contains('date', $day)
+                        || $schedules[$employee->id]['assignments']->contains('date', $day)) {
+                        continue;
+                    }
+
+                    $conflicts = $this->conflicts->conflictsFor(
+                        $date, $target['shift_start'], $target['shift_end'],
+                        $schedules[$employee->id], $planned[$employee->id], $minRest
+                    );
+                    if (!empty($conflicts)) {
+                        continue;
+                    }
+
+                    $rotation = $this->rotationWorkDay($schedules[$employee->id]['rotations'], $date);
+                    $rotationShiftType = $rotation ? $this->rotationShiftType($rotation, $date) : null;
+                    $candidates[] = [
+                        'employee_id' => $employee->id,
+                        'rotation' => $rotation,
+                        'rank' => [
+                            match (true) {
+                                !$rotation => 1,
+                                $rotationShiftType === null, $rotationShiftType === $target['shift_type'] => 0,
+                                default => 2,
+                            },
+                            $shiftCounts[$employee->id],
+                            $lastShiftType[$employee->id] === $target['shift_type'] ? 0 : 1,
+                        ],
+                    ];
+                }
+
+                usort($candidates, fn ($a, $b) => $a['rank'] <=> $b['rank']);
+
+                foreach (array_slice($candidates, 0, $needed) as $candidate) {
+                    $employeeId = $candidate['employee_id'];
+                    $planned[$employeeId][] = $this->conflicts->window($date, $target['shift_start'], $target['shift_end']);
+                    $shiftCounts[$employeeId]++;
+                    $lastShiftType[$employeeId] = $target['shift_type'];
+
+                    $shifts[] = [
+                        'employee_id' => $employeeId,
+                        'schedule_id' => $target['schedule_id'],
+                        'rotation_assignment_id' => $candidate['rotation']?->id,
+                        'date' => $day,
+                        'shift_type' => $target['shift_type'],
+                        'shift_start' => $target['shift_start'],
+                        'shift_end' => $target['shift_end'],
+                        'source' => $candidate['rotation'] ? 'rotation' : 'generated',
+                        'has_conflict' => false,
+                        'conflict_reason' => null,
+                    ];
+                }
+            }
+        }
+
+        return DB::transaction(function () use ($departmentId, $dateFrom, $dateTo, $targets, $shifts, $createdBy) {
+            $draft = ScheduleDraft::create([
+                'department_id' => $departmentId,
+                'date_from' => $dateFrom->toDateString(),
+                'date_to' => $dateTo->toDateString(),
+                'coverage_targets' => $targets,
+                'status' => 'draft',
+                'created_by' => $createdBy->id,
+            ]);
+
+            $draft->shifts()->createMany($shifts);
+            $this->refreshGaps($draft);
+
+            return $draft;
+        });
+    }
+
+    /**
+     * Add a shift to a draft during review. The shift is kept even when it
+     * conflicts, flagged with the reason.
+     *
+     * @param ScheduleDraft $draft
+     * @param int $employeeId
+     * @param Carbon $date
+     * @param string $shiftType One of the draft's coverage targets
+     * @return ScheduleDraftShift
+     * @throws \InvalidArgumentException
+     */
+    public function addShift(ScheduleDraft $draft, int $employeeId, Carbon $date, string $shiftType): ScheduleDraftShift
+    {
+        $this->ensureEditable($draft);
+
+        $date = $date->copy()->startOfDay();
+        if ($date->lt($draft->date_from) || $date->gt($draft->date_to)) {
+            throw new \InvalidArgumentException('The date is outside the draft\'s date range.');
+        }
+
+        $target = collect($draft->coverage_targets)->firstWhere('shift_type', $shiftType);
+        if (!$target) {
+            throw new \InvalidArgumentException("The draft has no {$shiftType} shift.");
+        }
+
+        $this->ensureOneShiftPerDay($draft, $employeeId, $date);
+
+        $conflicts = $this->shiftConflicts($draft, $employeeId, $date, $target['shift_start'], $target['shift_end']);
+
+        $shift = $draft->shifts()->create([
+            'employee_id' => $employeeId,
+            'schedule_id' => $target['schedule_id'],
+            'rotation_assignment_id' => $this->rotationAssignmentOn($employeeId, $date)?->id,
+            'date' => $date->toDateString(),
+            'shift_type' => $target['shift_type'],
+            'shift_start' => $target['shift_start'],
+            'shift_end' => $target['shift_end'],
+            'source' => 'manual',
+            'has_conflict' => !empty($conflicts),
+            'conflict_reason' => $this->conflicts->summarize($conflicts),
+        ]);
+
+        $this->refreshGaps($draft);
+
+        return $shift;
+    }
+
+    /**
+     * Give a draft shift to another employee.
+     *
+     * @param ScheduleDraftShift $shift
+     * @param int $employeeId
+     * @return ScheduleDraftShift
+     * @throws \InvalidArgumentException
+     */
+    public function reassignShift(ScheduleDraftShift $shift, int $employeeId): ScheduleDraftShift
+    {
+        $draft = $shift->draft;
+        $this->ensureEditable($draft);
+
+        if ($shift->employee_id === $employeeId) {
+            return $shift;
+        }
+
+        $this->ensureOneShiftPerDay($draft, $employeeId, $shift->date);
+
+        $conflicts = $this->shiftConflicts($draft, $employeeId, $shift->date, $shift->shift_start, $shift->shift_end, $shift->id);
+
+        $shift->update([
+            'employee_id' => $employeeId,
+            'rotation_assignment_id' => $this->rotationAssignmentOn($employeeId, $shift->date)?->id,
+            'source' => 'manual',
+            'has_conflict' => !empty($conflicts),
+            'conflict_reason' => $this->conflicts->summarize($conflicts),
+        ]);
+
+        return $shift;
+    }
+
+    /**
+     * Remove a shift from a draft.
+     *
+     * @param ScheduleDraftShift $shift
+     * @throws \InvalidArgumentException
+     */
+    public function removeShift(ScheduleDraftShift $shift): void
+    {
+        $draft = $shift->draft;
+        $this->ensureEditable($draft);
+
+        $shift->delete();
+        $this->refreshGaps($draft);
+    }
+
+    /**
+     * Create the shift assignments of a draft. Each shift is checked again
+     * against the live schedule, since assignments and leave may have changed
+     * since the draft was generated. Shifts the employee already has are skipped.
+     *
+     * @param ScheduleDraft $draft
+     * @param User $publishedBy
+     * @return array{created: int, conflicts: int, skipped: int}
+     * @throws \InvalidArgumentException
+     */
+    public function publish(ScheduleDraft $draft, User $publishedBy): array
+    {
+        $this->ensureEditable($draft);
+
+        $shifts = $draft->shifts()->orderBy('date')->orderBy('shift_start')->get();
+        if ($shifts->isEmpty()) {
+            throw new \InvalidArgumentException('The draft has no shifts to publish.');
+        }
+
+        return DB::transaction(function () use ($draft, $shifts, $publishedBy) {
+            $result = ['created' => 0, 'conflicts' => 0, 'skipped' => 0];
+            $now = now();
+
+            foreach ($shifts as $shift) {
+                // The unique index covers soft-deleted assignments too
+                $exists = ShiftAssignment::withTrashed()
+                    ->where('employee_id', $shift->employee_id)
+                    ->whereDate('date', $shift->date)
+                    ->where('shift_start', $shift->shift_start)
+                    ->exists();
+
+                if ($exists) {
+                    $result['skipped']++;
+                    continue;
+                }
+
+                $conflicts = $this->conflicts->check($shift->employee_id, $shift->date, $shift->shift_start, $shift->shift_end);
+
+                ShiftAssignment::create([
+                    'employee_id' => $shift->employee_id,
+                    'schedule_id' => $shift->schedule_id,
+                    'rotation_assignment_id' => $shift->rotation_assignment_id,
+                    'date' => $shift->date->toDateString(),
+                    'shift_start' => $shift->shift_start,
+                    'shift_end' => $shift->shift_end,
+                    'shift_type' => $shift->shift_type,
+                    'department_id' => $draft->department_id,
+                    'status' => 'scheduled',
+                    'has_conflict' => !empty($conflicts),
+                    'conflict_reason' => $this->conflicts->summarize($conflicts),
+                    'conflict_detected' => !empty($conflicts),
+                    'assignment_source' => match ($shift->source) {
+                        'rotation' => 'rotation',
+                        'manual' => 'manual',
+                        default => 'schedule',
+                    },
+                    'source_details' => [
+                        'schedule_draft_id' => $draft->id,
+                        'draft_source' => $shift->source,
+                    ],
+                    'generated_at' => $now,
+                    'generated_by_user_id' => $publishedBy->id,
+                    'created_by' => $publishedBy->id,
+                ]);
+
+                $result['created']++;
+                if (!empty($conflicts)) {
+                    $result['conflicts']++;
+                }
+            }
+
+            $draft->update([
+                'status' => 'published',
+                'published_by' => $publishedBy->id,
+                'published_at' => $now,
+            ]);
+
+            return $result;
+        });
+    }
+
+    /**
+     * Discard a draft without creating assignments.
+     *
+     * @param ScheduleDraft $draft
+     * @throws \InvalidArgumentException
+     */
+    public function discard(ScheduleDraft $draft): void
+    {
+        $this->ensureEditable($draft);
+
+        $draft->update(['status' => 'discarded']);
+    }
+
+    /**
+     * Recompute the coverage gaps of a draft from its shifts and the shifts
+     * already assigned in the department.
+     *
+     * @param ScheduleDraft $draft
+     */
+    public function refreshGaps(ScheduleDraft $draft): void
+    {
+        $covered = $this->existingCoverage($draft->department_id, $draft->date_from, $draft->date_to);
+
+        foreach ($draft->shifts()->get(['date', 'shift_type']) as $shift) {
+            $key = $shift->date->toDateString() . '|' . $shift->shift_type;
+            $covered[$key] = ($covered[$key] ?? 0) + 1;
+        }
+
+        $gaps = [];
+
+        for ($date = $draft->date_from->copy(); $date->lte($draft->date_to); $date->addDay()) {
+            $day = $date->toDateString();
+            $weekday = strtolower($date->format('l'));
+
+            foreach ($draft->coverage_targets as $target) {
+                $required = (int) ($target['headcount'][$weekday] ?? 0);
+                $assigned = $covered["{$day}|{$target['shift_type']}"] ?? 0;
+
+                if ($assigned < $required) {
+                    $gaps[] = [
+                        'date' => $day,
+                        'shift_type' => $target['shift_type'],
+                        'shift_start' => $target['shift_start'],
+                        'shift_end' => $target['shift_end'],
+                        'required' => $required,
+                        'assigned' => $assigned,
+                        'shortage' => $required - $assigned,
+                    ];
+                }
+            }
+        }
+
+        $draft->update(['gaps' => $gaps]);
+    }
+
+    /**
+     * Conflicts of a draft shift against the employee's schedule and their
+     * other shifts in the draft.
+     *
+     * @return array<int, array>
+     */
+    private function shiftConflicts(
+        ScheduleDraft $draft,
+        int $employeeId,
+        Carbon $date,
+        string $shiftStart,
+        string $shiftEnd,
+        ?int $excludeShiftId = null
+    ): array {
+        $planned = $draft->shifts()
+            ->where('employee_id', $employeeId)
+            ->whereBetween('date', [$date->copy()->subDay()->toDateString(), $date->copy()->addDay()->toDateString()])
+            ->when($excludeShiftId, fn ($query) => $query->where('id', '!=', $excludeShiftId))
+            ->get()
+            ->map(fn (ScheduleDraftShift $shift) => $this->conflicts->window($shift->date, $shift->shift_start, $shift->shift_end))
+            ->all();
+
+        return $this->conflicts->conflictsFor(
+            $date,
+            $shiftStart,
+            $shiftEnd,
+            $this->conflicts->loadSchedule($employeeId, $date, $date),
+            $planned,
+            $this->conflicts->minRestHours()
+        );
+    }
+
+    /**
+     * The rotation assignment that makes a date a work day, if any.
+     */
+    private function rotationWorkDay(Collection $rotations, Carbon $date): ?RotationAssignment
+    {
+        foreach ($rotations as $assignment) {
+            if (!$assignment->rotation
+                || !$assignment->rotation->pattern_array
+                || $date->lt($assignment->start_date)
+                || ($assignment->end_date && $date->gt($assignment->end_date))) {
+                continue;
+            }
+
+            $offset = (int) abs($assignment->start_date->copy()->startOfDay()->diffInDays($date));
+            if ($assignment->rotation->calculateWorkDay($assignment->start_date, $offset)) {
+                return $assignment;
+            }
+        }
+
+        return null;
+    }
+
+    /**
+     * The shift type a multi-shift rotation works on a date, if it names one.
+     */
+    private function rotationShiftType(RotationAssignment $assignment, Carbon $date): ?string
+    {
+        $offset = (int) abs($assignment->start_date->copy()->startOfDay()->diffInDays($date));
+
+        return $assignment->rotation->shiftForDay($offset)['shift_type'] ?? null;
+    }
+
+    private function rotationAssignmentOn(int $employeeId, Carbon $date): ?RotationAssignment
+    {
+        $rotations = RotationAssignment::with('rotation')
+            ->where('employee_id', $employeeId)
+            ->where('is_active', true)
+            ->whereDate('start_date', '<=', $date)
+            ->where(fn ($query) => $query->whereNull('end_date')->orWhereDate('end_date', '>=', $date))
+            ->get();
+
+        return $this->rotationWorkDay($rotations, $date);
+    }
+
+    /**
+     * Shifts already assigned in the department, counted per "date|shift_type".
+     *
+     * @return array<string, int>
+     */
+    private function existingCoverage(int $departmentId, Carbon $dateFrom, Carbon $dateTo): array
+    {
+        return ShiftAssignment::forDepartment($departmentId)
+            ->whereBetween('date', [$dateFrom->toDateString(), $dateTo->toDateString()])
+            ->where('status', '!=', 'cancelled')
+            ->get(['date', 'shift_type'])
+            ->countBy(fn (ShiftAssignment $assignment) => $assignment->date->toDateString() . '|' . $assignment->shift_type)
+            ->all();
+    }
+
+    /**
+     * Drop targets without headcount and fill missing weekdays with zero.
+     *
+     * @return array<int, array>
+     */
+    private function normalizeTargets(array $targets): array
+    {
+        $normalized = [];
+
+        foreach ($targets as $target) {
+            $headcount = [];
+            foreach (ScheduleDraft::WEEKDAYS as $weekday) {
+                $headcount[$weekday] = max(0, (int) ($target['headcount'][$weekday] ?? 0));
+            }
+
+            if (array_sum($headcount) === 0) {
+                continue;
+            }
+
+            $normalized[] = [
+                'shift_type' => $target['shift_type'],
+                'schedule_id' => (int) $target['schedule_id'],
+                'shift_start' => Carbon::parse($target['shift_start'])->format('H:i:s'),
+                'shift_end' => Carbon::parse($target['shift_end'])->format('H:i:s'),
+                'headcount' => $headcount,
+            ];
+        }
+
+        if (count(array_unique(array_column($normalized, 'shift_type'))) !== count($normalized)) {
+            throw new \InvalidArgumentException('Each shift type can only have one coverage target.');
+        }
+
+        return $normalized;
+    }
+
+    private function ensureEditable(ScheduleDraft $draft): void
+    {
+        if (!$draft->isEditable()) {
+            throw new \InvalidArgumentException("The draft has already been {$draft->status}.");
+        }
+    }
+
+    private function ensureOneShiftPerDay(ScheduleDraft $draft, int $employeeId, Carbon $date): void
+    {
+        $taken = $draft->shifts()
+            ->where('employee_id', $employeeId)
+            ->whereDate('date', $date)
+            ->exists();
+
+        if ($taken) {
+            throw new \InvalidArgumentException('The employee already has a shift on ' . $date->format('M j') . ' in this draft.');
+        }
+    }
+}
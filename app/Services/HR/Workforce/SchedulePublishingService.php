@@ -0,0 +1,468 @@
+<?php
+
+namespace App\Services\HR\Workforce;
+
+use App\Models\Employee;
+use App\Models\EmployeeSchedule;
+use App\Models\ScheduleVersion;
+use App\Models\ShiftAssignment;
+use App\Models\User;
+use App\Models\WorkSchedule;
+use App\Notifications\SchedulePublishedNotification;
+use Carbon\Carbon;
+use Illuminate\Support\Collection;
+use Illuminate\Support\Facades\DB;
+use Illuminate\Support\Facades\Log;
+
+/**
+ * SchedulePublishingService
+ *
+ * Publishes work schedules as immutable versions. HR edits the live schedule
+ * and its shift assignments freely; employees only see what was published.
+ *
+ * A schedule can be published on two levels, each numbered separately:
+ *
+ * - the schedule itself: its hours per weekday
+ * - one week (Monday to Sunday) of its shift assignments
+ *
+ * Every version records what changed against the previous version of the
+ * same level, and the employees affected by the change are notified with
+ * their own changes.
+ */
+class SchedulePublishingService
+{
+    public const WEEKDAYS = ['monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday', 'sunday'];
+
+    /**
+     * Publish the schedule hours, or one week of shift assignments when a
+     * week is given.
+     *
+     * @throws \InvalidArgumentException
+     */
+    public function publish(WorkSchedule $schedule, ?Carbon $week, User $publisher, ?string $note = null): ScheduleVersion
+    {
+        if ($schedule->is_template) {
+            throw new \InvalidArgumentException('Templates cannot be published.');
+        }
+        if (in_array($schedule->status, ['expired', 'archived'], true)) {
+            throw new \InvalidArgumentException("An {$schedule->status} schedule cannot be published.");
+        }
+
+        $weekStart = $this->weekStart($week);
+        $snapshot = $this->snapshot($schedule, $weekStart);
+        $previous = $this->latest($schedule->id, $weekStart);
+
+        if ($previous && !$this->hasChanges($previous->snapshot, $snapshot)) {
+            throw new \InvalidArgumentException("Nothing has changed since version {$previous->version} was published.");
+        }
+        if (!$previous && $weekStart !== null && empty($snapshot['shifts'])) {
+            throw new \InvalidArgumentException('The week has no shift assignments to publish.');
+        }
+
+        $diff = $this->diff($previous?->snapshot, $snapshot, $schedule);
+
+        $version = DB::transaction(function () use ($schedule, $weekStart, $snapshot, $diff, $previous, $publisher, $note) {
+            $version = ScheduleVersion::create([
+                'work_schedule_id' => $schedule->id,
+                'week_start' => $weekStart,
+                'version' => ($previous?->version ?? 0) + 1,
+                'snapshot' => $snapshot,
+                'diff' => $diff,
+                'note' => $note,
+                'published_by' => $publisher->id,
+                'published_at' => now(),
+            ]);
+
+            // Publishing the hours of a draft schedule puts it into use
+            if ($weekStart === null && $schedule->status === 'draft') {
+                $schedule->activate();
+            }
+
+            return $version;
+        });
+
+        $version->update(['notified_count' => $this->notifyEmployees($version)]);
+
+        return $version;
+    }
+
+    /**
+     * Carry shifts that changed hands through an approved swap into the
+     * published schedule, as a new version of each week they are in.
+     *
+     * Only those shifts move to their new owners; other edits HR has not
+     * published yet stay unpublished. Shifts that were never published are
+     * left alone. The employees are not notified here, the swap already
+     * tells them.
+     *
+     * @param array<int, array{shift: ShiftAssignment, previous_employee_id: int}> $handOvers
+     * @return Collection<int, ScheduleVersion> The versions created
+     */
+    public function publishHandOvers(array $handOvers, User $publisher, ?string $note = null): Collection
+    {
+        return collect($handOvers)
+            ->groupBy(fn (array $handOver) => $handOver['shift']->schedule_id . '|' . $this->weekStart($handOver['shift']->date))
+            ->map(function (Collection $weekHandOvers) use ($publisher, $note) {
+                $first = $weekHandOvers->first()['shift'];
+                $weekStart = $this->weekStart($first->date);
+                $previous = $this->latest($first->schedule_id, $weekStart);
+                if (!$previous) {
+                    return null;
+                }
+
+                $shifts = $previous->snapshot['shifts'] ?? [];
+                foreach ($weekHandOvers as $handOver) {
+                    $shift = $handOver['shift']->load('employee.profile');
+                    $published = $this->shiftKey(['employee_id' => $handOver['previous_employee_id']] + $this->shiftSnapshot($shift));
+
+                    foreach ($shifts as $index => $publishedShift) {
+                        if ($this->shiftKey($publishedShift) === $published) {
+                            $shifts[$index] = $this->shiftSnapshot($shift);
+                            break;
+                        }
+                    }
+                }
+
+                $snapshot = array_merge($previous->snapshot, ['shifts' => $shifts]);
+                if (!$this->hasChanges($previous->snapshot, $snapshot)) {
+                    return null;
+                }
+
+                return ScheduleVersion::create([
+                    'work_schedule_id' => $first->schedule_id,
+                    'week_start' => $weekStart,
+                    'version' => $previous->version + 1,
+                    'snapshot' => $snapshot,
+                    'diff' => $this->diff($previous->snapshot, $snapshot, $first->schedule),
+                    'note' => $note,
+                    'published_by' => $publisher->id,
+                    'published_at' => now(),
+                ]);
+            })
+            ->filter()
+            ->values();
+    }
+
+    /**
+     * Changes of the live schedule against its latest published version,
+     * for review before publishing.
+     *
+     * @return array{latest_version: int|null, has_changes: bool, diff: array}
+     */
+    public function preview(WorkSchedule $schedule, ?Carbon $week): array
+    {
+        $weekStart = $this->weekStart($week);
+        $snapshot = $this->snapshot($schedule, $weekStart);
+        $previous = $this->latest($schedule->id, $weekStart);
+
+        return [
+            'latest_version' => $previous?->version,
+            'has_changes' => !$previous || $this->hasChanges($previous->snapshot, $snapshot),
+            'diff' => $this->diff($previous?->snapshot, $snapshot, $schedule),
+        ];
+    }
+
+    /**
+     * The latest published version of the schedule hours, or of one week.
+     */
+    public function latest(int $workScheduleId, ?string $weekStart): ?ScheduleVersion
+    {
+        return ScheduleVersion::forScope($workScheduleId, $weekStart)
+            ->orderByDesc('version')
+            ->first();
+    }
+
+    /**
+     * The schedule as it is now: its hours, or one week of its shifts.
+     */
+    public function snapshot(WorkSchedule $schedule, ?string $weekStart): array
+    {
+        if ($weekStart === null) {
+            $hours = [];
+            foreach (self::WEEKDAYS as $day) {
+                $times = $schedule->getDaySchedule($day);
+                $hours[$day] = $times
+                    ? ['start' => substr($times['start'], 0, 5), 'end' => substr($times['end'], 0, 5)]
+                    : null;
+            }
+
+            return ['name' => $schedule->name, 'hours' => $hours];
+        }
+
+        $shifts = ShiftAssignment::with('employee.profile')
+            ->where('schedule_id', $schedule->id)
+            ->whereDate('date', '>=', $weekStart)
+            ->whereDate('date', '<=', Carbon::parse($weekStart)->addDays(6))
+            ->where('status', '!=', 'cancelled')
+            ->orderBy('date')
+            ->orderBy('shift_start')
+            ->orderBy('employee_id')
+            ->get()
+            ->map(fn (ShiftAssignment $shift) => $this->shiftSnapshot($shift))
+            ->values()
+            ->all();
+
+        return ['name' => $schedule->name, 'shifts' => $shifts];
+    }
+
+    /**
+     * Changes from one snapshot to the next. Without a previous snapshot
+     * every shift counts as gained.
+     */
+    public function diff(?array $previous, array $current, WorkSchedule $schedule): array
+    {
+        $diff = ['hours' => [], 'gained' => [], 'lost' => [], 'changed' => [], 'employee_ids' => []];
+
+        if (array_key_exists('hours', $current)) {
+            foreach (self::WEEKDAYS as $day) {
+                $from = $previous['hours'][$day] ?? null;
+                $to = $current['hours'][$day] ?? null;
+
+                if ($previous !== null && $from != $to) {
+                    $diff['hours'][] = ['day' => $day, 'from' => $from, 'to' => $to];
+                }
+            }
+
+            // Changed hours concern everyone currently on the schedule
+            if ($previous === null || !empty($diff['hours'])) {
+                $diff['employee_ids'] = EmployeeSchedule::where('work_schedule_id', $schedule->id)
+                    ->active()
+                    ->forDate(today())
+                    ->pluck('employee_id')
+                    ->map(fn ($id) => (int) $id)
+                    ->unique()
+                    ->values()
+                    ->all();
+            }
+
+            return $diff;
+        }
+
+        $before = collect($previous['shifts'] ?? [])->groupBy(fn (array $shift) => $shift['employee_id'] . '|' . $shift['date']);
+        $after = collect($current['shifts'] ?? [])->groupBy(fn (array $shift) => $shift['employee_id'] . '|' . $shift['date']);
+
+        foreach ($before->keys()->merge($after->keys())->unique() as $key) {
+            $old = $before->get($key, collect())->values();
+            $new = $after->get($key, collect())->values();
+
+            // Shifts published unchanged drop out of both sides
+            $lost = $old->reject(fn (array $shift) => $new->contains(fn (array $other) => $this->sameShift($shift, $other)))->values();
+            $gained = $new->reject(fn (array $shift) => $old->contains(fn (array $other) => $this->sameShift($shift, $other)))->values();
+
+            if ($lost->count() === 1 && $gained->count() === 1) {
+                $diff['changed'][] = [
+                    'employee_id' => $gained[0]['employee_id'],
+                    'employee_name' => $gained[0]['employee_name'],
+                    'date' => $gained[0]['date'],
+                    'from' => $lost[0],
+                    'to' => $gained[0],
+                ];
+                continue;
+            }
+
+            array_push($diff['lost'], ...$lost->all());
+            array_push($diff['gained'], ...$gained->all());
+        }
+
+        $diff['employee_ids'] = collect([...$diff['gained'], ...$diff['lost'], ...$diff['changed']])
+            ->pluck('employee_id')
+            ->unique()
+            ->sort()
+            ->values()
+            ->all();
+
+        return $diff;
+    }
+
+    /**
+     * The published weeks an employee is on, from the given Monday on. Each
+     * week holds the employee's shifts of the latest version of every
+     * schedule published for that week.
+     *
+     * @return array<int, array{week_start: string, published: bool, shifts: array}>
+     */
+    public function publishedWeeksFor(Employee $employee, Carbon $from, int $weeks): array
+    {
+        $weekStarts = collect(range(0, $weeks - 1))
+            ->map(fn (int $offset) => $from->copy()->startOfWeek(Carbon::MONDAY)->addWeeks($offset)->toDateString());
+
+        $versions = $this->latestWeekVersions($weekStarts->all());
+
+        return $weekStarts->map(function (string $weekStart) use ($versions, $employee) {
+            $weekVersions = $versions->filter(fn (ScheduleVersion $version) => $version->week_start->toDateString() === $weekStart);
+
+            $shifts = $weekVersions
+                ->flatMap(fn (ScheduleVersion $version) => collect($version->snapshot['shifts'] ?? [])
+                    ->where('employee_id', $employee->id)
+                    ->map(fn (array $shift) => $shift + [
+                        'schedule_name' => $version->workSchedule?->name ?? $version->snapshot['name'] ?? null,
+                        'version' => $version->version,
+                        'published_at' => $version->published_at->toISOString(),
+                    ]))
+                ->sortBy(fn (array $shift) => $shift['date'] . ' ' . $shift['shift_start'])
+                ->values()
+                ->all();
+
+            return [
+                'week_start' => $weekStart,
+                'published' => $weekVersions->isNotEmpty(),
+                'shifts' => $shifts,
+            ];
+        })->all();
+    }
+
+    /**
+     * The latest version of every schedule published for the given weeks.
+     *
+     * @param array<int, string> $weekStarts Mondays as Y-m-d
+     * @return Collection<int, ScheduleVersion>
+     */
+    public function latestWeekVersions(array $weekStarts): Collection
+    {
+        return ScheduleVersion::with('workSchedule:id,name')
+            ->whereNotNull('week_start')
+            ->whereIn('week_start', $weekStarts)
+            ->orderByDesc('version')
+            ->get()
+            ->unique(fn (ScheduleVersion $version) => $version->work_schedule_id . '|' . $version->week_start->toDateString())
+            ->values();
+    }
+
+    /**
+     * The assignments that are in the latest published version of their
+     * schedule's week. Shifts HR has added or changed since are left out.
+     *
+     * @param Collection<int, ShiftAssignment> $assignments
+     * @return Collection<int, ShiftAssignment>
+     */
+    public function publishedShifts(Collection $assignments): Collection
+    {
+        $weekStarts = $assignments
+            ->map(fn (ShiftAssignment $shift) => $shift->date->copy()->startOfWeek(Carbon::MONDAY)->toDateString())
+            ->unique()
+            ->values()
+            ->all();
+
+        if (empty($weekStarts)) {
+            return $assignments;
+        }
+
+        $published = $this->latestWeekVersions($weekStarts)
+            ->flatMap(fn (ScheduleVersion $version) => collect($version->snapshot['shifts'] ?? [])
+                ->map(fn (array $shift) => $version->work_schedule_id . '|' . $this->shiftKey($shift)))
+            ->flip();
+
+        return $assignments
+            ->filter(fn (ShiftAssignment $shift) => $published->has($shift->schedule_id . '|' . $this->shiftKey($this->shiftSnapshot($shift))))
+            ->values();
+    }
+
+    /**
+     * The published hours of the employee's current work schedule.
+     *
+     * @return array{schedule_name: string|null, hours: array, version: int, published_at: string}|null
+     */
+    public function publishedHoursFor(Employee $employee): ?array
+    {
+        $current = EmployeeSchedule::where('employee_id', $employee->id)
+            ->active()
+            ->forDate(today())
+            ->orderByDesc('effective_date')
+            ->first();
+
+        $version = $current ? $this->latest($current->work_schedule_id, null) : null;
+
+        if (!$version) {
+            return null;
+        }
+
+        return [
+            'schedule_name' => $version->snapshot['name'] ?? null,
+            'hours' => $version->snapshot['hours'] ?? [],
+            'version' => $version->version,
+            'published_at' => $version->published_at->toISOString(),
+        ];
+    }
+
+    /**
+     * The changes of a version that concern one employee.
+     */
+    public function changesFor(ScheduleVersion $version, int $employeeId): array
+    {
+        $mine = fn (array $items) => array_values(array_filter($items, fn (array $item) => (int) $item['employee_id'] === $employeeId));
+
+        return [
+            'hours' => $version->diff['hours'] ?? [],
+            'gained' => $mine($version->diff['gained'] ?? []),
+            'lost' => $mine($version->diff['lost'] ?? []),
+            'changed' => $mine($version->diff['changed'] ?? []),
+        ];
+    }
+
+    private function weekStart(?Carbon $week): ?string
+    {
+        return $week?->copy()->startOfWeek(Carbon::MONDAY)->toDateString();
+    }
+
+    private function hasChanges(array $previous, array $current): bool
+    {
+        return ($previous['hours'] ?? null) != ($current['hours'] ?? null)
+            || collect($previous['shifts'] ?? [])->map(fn (array $shift) => $this->shiftKey($shift))->sort()->values()->all()
+                !== collect($current['shifts'] ?? [])->map(fn (array $shift) => $this->shiftKey($shift))->sort()->values()->all();
+    }
+
+    private function shiftSnapshot(ShiftAssignment $shift): array
+    {
+        return [
+            'employee_id' => (int) $shift->employee_id,
+            'employee_name' => $shift->employee?->profile?->full_name ?? $shift->employee?->employee_number,
+            'date' => $shift->date->toDateString(),
+            'shift_start' => substr($shift->shift_start, 0, 5),
+            'shift_end' => substr($shift->shift_end, 0, 5),
+            'shift_type' => $shift->shift_type,
+        ];
+    }
+
+    private function sameShift(array $a, array $b): bool
+    {
+        return $this->shiftKey($a) === $this->shiftKey($b);
+    }
+
+    private function shiftKey(array $shift): string
+    {
+        return implode('|', [$shift['employee_id'], $shift['date'], $shift['shift_start'], $shift['shift_end'], $shift['shift_type'] ?? '']);
+    }
+
+    /**
+     * Notify each affected employee of their own changes.
+     *
+     * @return int Number of employees notified
+     */
+    private function notifyEmployees(ScheduleVersion $version): int
+    {
+        $notified = 0;
+
+        $employees = Employee::with('user')
+            ->whereIn('id', $version->diff['employee_ids'] ?? [])
+            ->get();
+
+        foreach ($employees as $employee) {
+            if (!$employee->user) {
+                continue;
+            }
+
+            try {
+                $employee->user->notify(new SchedulePublishedNotification($version, $this->changesFor($version, $employee->id)));
+                $notified++;
+            } catch (\Exception $e) {
+                Log::warning('Schedule publish notification failed', [
+                    'schedule_version_id' => $version->id,
+                    'employee_id' => $employee->id,
+                    'error' => $e->getMessage(),
+                ]);
+            }
+        }
+
+        return $notified;
+    }
+}
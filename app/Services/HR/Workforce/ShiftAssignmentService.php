@@ -12,6 +12,10 @@
 
 class ShiftAssignmentService
 {
+    public function __construct(
+        private ScheduleConflictService $conflicts
+    ) {}
+
     /**
      * Create a single shift assignment
      */
@@ -28,10 +32,8 @@ public function createAssignment(array $data, User $createdBy): ShiftAssignment
             $data['shift_end']
         );
 
-        if (!empty($conflicts)) {
-            $data['has_conflict'] = true;
-            $data['conflict_reason'] = 'Shift overlaps with existing assignments';
-        }
+        $data['has_conflict'] = !empty($conflicts);
+        $data['conflict_reason'] = $this->conflicts->summarize($conflicts);
 
         return ShiftAssignment::create($data);
     }
@@ -41,14 +43,14 @@ public function createAssignment(array $data, User $createdBy): ShiftAssignment
      */
     public function updateAssignment(ShiftAssignment $assignment, array $data): ShiftAssignment
     {
-        // Re-check conflicts if times changed
-        if (isset($data['shift_start']) || isset($data['shift_end']) || isset($data['date'])) {
+        // Re-check conflicts if the employee or times changed
+        if (isset($data['employee_id']) || isset($data['shift_start']) || isset($data['shift_end']) || isset($data['date'])) {
             $date = Carbon::parse($data['date'] ?? $assignment->date);
             $start = $data['shift_start'] ?? $assignment->shift_start;
             $end = $data['shift_end'] ?? $assignment->shift_end;
 
             $conflicts = $this->detectConflicts(
-                $assignment->employee,
+                isset($data['employee_id']) ? Employee::find($data['employee_id']) : $assignment->employee,
                 $date,
                 $start,
                 $end,
@@ -56,7 +58,7 @@ public function updateAssignment(ShiftAssignment $assignment, array $data): Shif
             );
 
             $data['has_conflict'] = !empty($conflicts);
-            $data['conflict_reason'] = $data['has_conflict'] ? 'Shift overlaps with existing assignments' : null;
+            $data['conflict_reason'] = $this->conflicts->summarize($conflicts);
         }
 
         $assignment->update($data);
@@ -84,24 +86,24 @@ public function bulkCreateAssignments(array $assignmentsData, User $createdBy):
             $data['created_by'] = $createdById;
             $data['status'] = $data['status'] ?? 'scheduled';
 
-            // Check for conflicts
+            // Same employee, date and start time is the unique key, so such a row is updated
+            $existingAssignment = ShiftAssignment::where('employee_id', $data['employee_id'])
+                ->where('date', $data['date'])
+                ->where('shift_start', $data['shift_start'])
+                ->whereNull('deleted_at')
+                ->first();
+
+            // Check for conflicts, ignoring the assignment this row replaces
             $conflicts = $this->detectConflicts(
                 Employee::find($data['employee_id']),
                 Carbon::parse($data['date']),
                 $data['shift_start'],
-                $data['shift_end']
+                $data['shift_end'],
+                $existingAssignment?->id
             );
 
             $data['has_conflict'] = !empty($conflicts);
-            $data['conflict_reason'] = $data['has_conflict'] ? 'Shift overlaps with existing assignments' : null;
-
-            // Check if assignment already exists for this employee on this date
-            $existingAssignment = ShiftAssignment::where('employee_id', $data['employee_id'])
-                ->where('date', $data['date'])
-                ->where('shift_start', $data['shift_start'])
-                ->where('shift_end', $data['shift_end'])
-                ->whereNull('deleted_at')
-                ->first();
+            $data['conflict_reason'] = $this->conflicts->summarize($conflicts);
 
             if ($existingAssignment) {
                 // Update existing assignment instead of creating duplicate
@@ -151,7 +153,10 @@ public function bulkDeleteAssignments(array $assignmentIds): int
     }
 
     /**
-     * Detect conflicts for a potential assignment
+     * Detect conflicts for a potential assignment: overlapping shifts, approved
+     * leave, too little rest between shifts and rotation rest days.
+     *
+     * @return array<int, array> Structured conflicts, see ScheduleConflictService
      */
     public function detectConflicts(
         Employee $employee,
@@ -160,50 +165,22 @@ public function detectConflicts(
         string $shiftEnd,
         ?int $excludeAssignmentId = null
     ): array {
-        $query = ShiftAssignment::where('employee_id', $employee->id)
-            ->whereDate('date', $date);
-
-        if ($excludeAssignmentId) {
-            $query->where('id', '!=', $excludeAssignmentId);
-        }
-
-        $existingAssignments = $query->get();
-        $conflicts = [];
-
-        foreach ($existingAssignments as $existing) {
-            if ($this->shiftsOverlap($shiftStart, $shiftEnd, $existing->shift_start, $existing->shift_end)) {
-                $conflicts[] = [
-                    'id' => $existing->id,
-                    'date' => $existing->date,
-                    'shift_start' => $existing->shift_start,
-                    'shift_end' => $existing->shift_end,
-                    'shift_type' => $existing->shift_type,
-                ];
-            }
-        }
-
-        return $conflicts;
+        return $this->conflicts->check($employee->id, $date, $shiftStart, $shiftEnd, $excludeAssignmentId);
     }
 
     /**
-     * Check if two shifts overlap
+     * Detect conflicts of a bulk assignment, per employee and date.
+     *
+     * @return array<int, array>
      */
-    private function shiftsOverlap(string $start1, string $end1, string $start2, string $end2): bool
-    {
-        $s1 = Carbon::createFromFormat('H:i:s', $start1);
-        $e1 = Carbon::createFromFormat('H:i:s', $end1);
-        $s2 = Carbon::createFromFormat('H:i:s', $start2);
-        $e2 = Carbon::createFromFormat('H:i:s', $end2);
-
-        // Handle night shifts
-        if ($e1 < $s1) {
-            $e1->addDay();
-        }
-        if ($e2 < $s2) {
-            $e2->addDay();
-        }
-
-        return ($s1 < $e2) && ($e1 > $s2);
+    public function detectBulkConflicts(
+        array $employeeIds,
+        Carbon $dateFrom,
+        Carbon $dateTo,
+        string $shiftStart,
+        string $shiftEnd
+    ): array {
+        return $this->conflicts->checkBulk($employeeIds, $dateFrom, $dateTo, $shiftStart, $shiftEnd);
     }
 
     /**
@@ -0,0 +1,507 @@
+<?php
+
+namespace App\Services\HR\Workforce;
+
+use App\Models\Employee;
+use App\Models\ShiftAssignment;
+use App\Models\ShiftSwapRequest;
+use App\Models\SystemSetting;
+use App\Models\User;
+use App\Notifications\ShiftSwapNotification;
+use Carbon\Carbon;
+use Illuminate\Support\Facades\DB;
+use Illuminate\Support\Facades\Log;
+use Illuminate\Support\Facades\Notification;
+
+/**
+ * ShiftSwapService
+ *
+ * The shift swap marketplace. An employee can give one of their upcoming
+ * shifts away to any eligible coworker, or propose swapping it for a
+ * coworker's shift. Once a coworker picks up the giveaway or accepts the
+ * swap, the department head approves or rejects it; an approved request
+ * moves the shift assignments to their new owners and publishes the move.
+ * Only shifts of the published schedule can be offered or swapped.
+ *
+ * A coworker is eligible to take a shift when they:
+ *
+ * - are in the same department and hold the same position (the skill the
+ *   shift is staffed for)
+ * - have no overlapping shift or approved leave, and get the minimum rest
+ *   period (ScheduleConflictService)
+ * - stay within the weekly hours cap with the extra shift
+ *
+ * A rest day of the coworker's rotation is noted but does not block the
+ * request. Eligibility is checked when the coworker agrees and again when
+ * the department head approves.
+ */
+class ShiftSwapService
+{
+    public const DEFAULT_MAX_WEEKLY_HOURS = 48;
+
+    private const NON_BLOCKING_CONFLICTS = ['rotation_conflict'];
+
+    public function __construct(
+        private ScheduleConflictService $conflicts,
+        private SchedulePublishingService $publishing
+    ) {}
+
+    /**
+     * Most scheduled hours an employee may have in one week (Monday to Sunday).
+     */
+    public function maxWeeklyHours(): float
+    {
+        return (float) SystemSetting::getValue('workforce.max_weekly_hours', self::DEFAULT_MAX_WEEKLY_HOURS);
+    }
+
+    /**
+     * Offer a shift to any eligible coworker.
+     *
+     * @throws \InvalidArgumentException
+     */
+    public function offer(Employee $requester, ShiftAssignment $shift, ?string $note = null): ShiftSwapRequest
+    {
+        $this->ensureOwnUpcoming($requester, $shift);
+        $this->ensureNotOffered($shift);
+
+        return ShiftSwapRequest::create([
+            'type' => 'giveaway',
+            'shift_assignment_id' => $shift->id,
+            'requester_id' => $requester->id,
+            'department_id' => $shift->department_id ?? $requester->department_id,
+            'status' => 'open',
+            'note' => $note,
+        ]);
+    }
+
+    /**
+     * Propose swapping a shift for a coworker's shift.
+     *
+     * @throws \InvalidArgumentException
+     */
+    public function proposeSwap(Employee $requester, ShiftAssignment $shift, ShiftAssignment $theirShift, ?string $note = null): ShiftSwapRequest
+    {
+        $this->ensureOwnUpcoming($requester, $shift);
+
+        $coworker = $theirShift->employee;
+        if (!$coworker || $coworker->id === $requester->id) {
+            throw new \InvalidArgumentException('Choose a shift of a coworker to swap with.');
+        }
+        $this->ensureOwnUpcoming($coworker, $theirShift);
+
+        if ($shift->date->isSameDay($theirShift->date) && $shift->shift_start === $theirShift->shift_start) {
+            throw new \InvalidArgumentException('Both shifts are at the same time; there is nothing to swap.');
+        }
+
+        $this->ensureNotOffered($shift);
+        $this->ensureNotOffered($theirShift);
+
+        $issues = $this->swapIssues($requester, $shift, $coworker, $theirShift);
+        $this->ensureNotBlocked($issues);
+
+        $swap = ShiftSwapRequest::create([
+            'type' => 'swap',
+            'shift_assignment_id' => $shift->id,
+            'requester_id' => $requester->id,
+            'department_id' => $shift->department_id ?? $requester->department_id,
+            'target_employee_id' => $coworker->id,
+            'target_shift_assignment_id' => $theirShift->id,
+            'status' => 'pending_coworker',
+            'eligibility' => $issues,
+            'note' => $note,
+        ]);
+
+        $this->notifyEmployees($swap, [$coworker], 'proposed');
+
+        return $swap;
+    }
+
+    /**
+     * Pick up a shift given away by a coworker.
+     *
+     * @throws \InvalidArgumentException
+     */
+    public function pickUp(ShiftSwapRequest $swap, Employee $taker): ShiftSwapRequest
+    {
+        if ($swap->type !== 'giveaway' || $swap->status !== 'open') {
+            throw new \InvalidArgumentException('This shift is no longer open.');
+        }
+
+        if ((int) $swap->requester_id === $taker->id) {
+            throw new \InvalidArgumentException('You cannot pick up your own shift.');
+        }
+
+        $shift = $swap->shift;
+        $this->ensureUpcoming($shift);
+
+        $issues = $this->eligibilityIssues($taker, $shift, $swap->requester);
+        $this->ensureNotBlocked($issues);
+
+        $swap->update([
+            'target_employee_id' => $taker->id,
+            'status' => 'pending_approval',
+            'eligibility' => $issues,
+            'responded_at' => now(),
+        ]);
+
+        $this->notifyApprovers($swap);
+
+        return $swap;
+    }
+
+    /**
+     * Accept a proposed swap as the coworker.
+     *
+     * @throws \InvalidArgumentException
+     */
+    public function accept(ShiftSwapRequest $swap, Employee $coworker): ShiftSwapRequest
+    {
+        $this->ensureAwaitingCoworker($swap, $coworker);
+
+        $issues = $this->swapIssues($swap->requester, $swap->shift, $coworker, $swap->targetShift);
+        $this->ensureNotBlocked($issues);
+
+        $swap->update([
+            'status' => 'pending_approval',
+            'eligibility' => $issues,
+            'responded_at' => now(),
+        ]);
+
+        $this->notifyApprovers($swap);
+
+        return $swap;
+    }
+
+    /**
+     * Decline a proposed swap as the coworker.
+     *
+     * @throws \InvalidArgumentException
+     */
+    public function decline(ShiftSwapRequest $swap, Employee $coworker): ShiftSwapRequest
+    {
+        $this->ensureAwaitingCoworker($swap, $coworker);
+
+        $swap->update([
+            'status' => 'declined',
+            'responded_at' => now(),
+        ]);
+
+        $this->notifyEmployees($swap, [$swap->requester], 'declined');
+
+        return $swap;
+    }
+
+    /**
+     * Withdraw a request before it is decided.
+     *
+     * @throws \InvalidArgumentException
+     */
+    public function cancel(ShiftSwapRequest $swap, Employee $requester): ShiftSwapRequest
+    {
+        if ((int) $swap->requester_id !== $requester->id) {
+            throw new \InvalidArgumentException('Only the employee who made the request can cancel it.');
+        }
+
+        if (!$swap->isActive()) {
+            throw new \InvalidArgumentException('This request has already been ' . str_replace('_', ' ', $swap->status) . '.');
+        }
+
+        $swap->update(['status' => 'cancelled']);
+
+        return $swap;
+    }
+
+    /**
+     * Approve a request and hand the shifts over.
+     *
+     * @throws \InvalidArgumentException
+     */
+    public function approve(ShiftSwapRequest $swap, User $approver, ?string $note = null): ShiftSwapRequest
+    {
+        $this->ensureAwaitingApproval($swap, $approver);
+
+        $issues = $swap->type === 'swap'
+            ? $this->swapIssues($swap->requester, $swap->shift, $swap->targetEmployee, $swap->targetShift)
+            : $this->eligibilityIssues($swap->targetEmployee, $swap->shift, $swap->requester);
+
+        if (collect($issues)->contains('blocking', true)) {
+            $swap->update(['eligibility' => $issues]);
+            $this->ensureNotBlocked($issues);
+        }
+
+        DB::transaction(function () use ($swap, $approver, $note, $issues) {
+            $this->handOver($swap, $swap->shift, $swap->requester, $swap->targetEmployee, $issues);
+            $handOvers = [['shift' => $swap->shift, 'previous_employee_id' => $swap->requester->id]];
+            if ($swap->type === 'swap') {
+                $this->handOver($swap, $swap->targetShift, $swap->targetEmployee, $swap->requester, $issues);
+                $handOvers[] = ['shift' => $swap->targetShift, 'previous_employee_id' => $swap->targetEmployee->id];
+            }
+
+            // The published schedule follows, so the new owners see and can offer the shifts
+            $this->publishing->publishHandOvers($handOvers, $approver, "Shift swap #{$swap->id} approved");
+
+            $swap->update([
+                'status' => 'approved',
+                'eligibility' => $issues,
+                'decided_by' => $approver->id,
+                'decided_at' => now(),
+                'decision_note' => $note,
+            ]);
+
+            // Other requests for these shifts no longer make sense
+            ShiftSwapRequest::active()
+                ->where('id', '!=', $swap->id)
+                ->where(function ($query) use ($swap) {
+                    $shiftIds = array_filter([$swap->shift_assignment_id, $swap->target_shift_assignment_id]);
+                    $query->whereIn('shift_assignment_id', $shiftIds)
+                        ->orWhereIn('target_shift_assignment_id', $shiftIds);
+                })
+                ->update(['status' => 'cancelled']);
+        });
+
+        $this->notifyEmployees($swap, [$swap->requester, $swap->targetEmployee], 'approved');
+
+        return $swap;
+    }
+
+    /**
+     * Reject a request; the shifts stay with their owners.
+     *
+     * @throws \InvalidArgumentException
+     */
+    public function reject(ShiftSwapRequest $swap, User $approver, ?string $note = null): ShiftSwapRequest
+    {
+        $this->ensureAwaitingApproval($swap, $approver);
+
+        $swap->update([
+            'status' => 'rejected',
+            'decided_by' => $approver->id,
+            'decided_at' => now(),
+            'decision_note' => $note,
+        ]);
+
+        $this->notifyEmployees($swap, [$swap->requester, $swap->targetEmployee], 'rejected');
+
+        return $swap;
+    }
+
+    /**
+     * Whether a user gives the final approval for a request: the head of its
+     * department, or anyone allowed to approve swaps when the department has
+     * no head.
+     */
+    public function canApprove(ShiftSwapRequest $swap, User $user): bool
+    {
+        $managerId = $swap->department?->manager_id;
+
+        if ($managerId) {
+            return (int) $managerId === $user->id;
+        }
+
+        return $user->can('hr.workforce.shift-swaps.approve');
+    }
+
+    /**
+     * Issues with an employee taking a shift, optionally giving up one of
+     * their own shifts in return.
+     *
+     * @return array<int, array{employee_id: int, type: string, message: string, blocking: bool}>
+     */
+    public function eligibilityIssues(Employee $taker, ShiftAssignment $shift, Employee $owner, ?ShiftAssignment $givenUp = null): array
+    {
+        $issues = [];
+        $issue = fn (string $type, string $message, bool $blocking = true) => [
+            'employee_id' => $taker->id,
+            'type' => $type,
+            'message' => $message,
+            'blocking' => $blocking,
+        ];
+        $name = $taker->profile?->full_name ?? $taker->employee_number;
+
+        if ((int) $taker->department_id !== (int) $owner->department_id) {
+            $issues[] = $issue('department', "{$name} is not in the same department");
+        }
+
+        if ($owner->position_id && (int) $taker->position_id !== (int) $owner->position_id) {
+            $position = $owner->position?->title ?? 'required';
+            $issues[] = $issue('qualification', "{$name} does not hold the {$position} position this shift is staffed for");
+        }
+
+        $date = $shift->date->copy()->startOfDay();
+        $schedule = $this->conflicts->loadSchedule($taker->id, $date, $date, $givenUp?->id);
+        $conflicts = $this->conflicts->conflictsFor(
+            $date, $shift->shift_start, $shift->shift_end, $schedule, [], $this->conflicts->minRestHours()
+        );
+        foreach ($conflicts as $conflict) {
+            $issues[] = $issue(
+                $conflict['type'],
+                "{$name}: {$conflict['message']}",
+                !in_array($conflict['type'], self::NON_BLOCKING_CONFLICTS, true)
+            );
+        }
+
+        $weekHours = $this->weeklyHours($taker, $date, $givenUp?->id) + $this->hours($shift);
+        $cap = $this->maxWeeklyHours();
+        if ($weekHours > $cap) {
+            $issues[] = $issue('overtime_cap', "{$name} would be scheduled " . round($weekHours, 1) . "h that week, over the {$cap}h cap");
+        }
+
+        return $issues;
+    }
+
+    /**
+     * Eligibility of both sides of a swap.
+     *
+     * @return array<int, array{employee_id: int, type: string, message: string, blocking: bool}>
+     */
+    private function swapIssues(Employee $requester, ShiftAssignment $shift, Employee $coworker, ShiftAssignment $theirShift): array
+    {
+        return array_merge(
+            $this->eligibilityIssues($coworker, $shift, $requester, $theirShift),
+            $this->eligibilityIssues($requester, $theirShift, $coworker, $shift)
+        );
+    }
+
+    /**
+     * Move a shift to its new owner, keeping the non-blocking issues as its conflict.
+     */
+    private function handOver(ShiftSwapRequest $swap, ShiftAssignment $shift, Employee $owner, Employee $newOwner, array $issues): void
+    {
+        $shift->refresh();
+        if ($shift->status !== 'scheduled' || (int) $shift->employee_id !== $owner->id) {
+            throw new \InvalidArgumentException('The shifts have changed since the request was made; ask the employees to request again.');
+        }
+
+        $ownIssues = array_values(array_filter($issues, fn ($issue) => (int) $issue['employee_id'] === $newOwner->id));
+
+        $shift->update([
+            'employee_id' => $newOwner->id,
+            'assignment_source' => 'manual',
+            'source_details' => array_merge($shift->source_details ?? [], [
+                'shift_swap_request_id' => $swap->id,
+                'previous_employee_id' => $owner->id,
+            ]),
+            'has_conflict' => !empty($ownIssues),
+            'conflict_reason' => $this->conflicts->summarize($ownIssues),
+        ]);
+    }
+
+    /**
+     * Scheduled hours of an employee in the week of a date.
+     */
+    private function weeklyHours(Employee $employee, Carbon $date, ?int $excludeAssignmentId = null): float
+    {
+        return ShiftAssignment::where('employee_id', $employee->id)
+            ->whereBetween('date', [$date->copy()->startOfWeek()->toDateString(), $date->copy()->endOfWeek()->toDateString()])
+            ->where('status', '!=', 'cancelled')
+            ->when($excludeAssignmentId, fn ($query) => $query->where('id', '!=', $excludeAssignmentId))
+            ->get()
+            ->sum(fn (ShiftAssignment $assignment) => $this->hours($assignment));
+    }
+
+    private function hours(ShiftAssignment $shift): float
+    {
+        $window = $this->conflicts->window($shift->date, $shift->shift_start, $shift->shift_end);
+
+        return $window['start']->diffInMinutes($window['end'], true) / 60;
+    }
+
+    private function ensureOwnUpcoming(Employee $employee, ShiftAssignment $shift): void
+    {
+        if ((int) $shift->employee_id !== $employee->id) {
+            throw new \InvalidArgumentException('You can only offer your own shifts.');
+        }
+
+        $this->ensureUpcoming($shift);
+
+        if ($this->publishing->publishedShifts(collect([$shift]))->isEmpty()) {
+            throw new \InvalidArgumentException('The ' . $shift->date->format('M j') . ' shift is not published yet.');
+        }
+    }
+
+    private function ensureUpcoming(ShiftAssignment $shift): void
+    {
+        if ($shift->status !== 'scheduled' || $shift->date->lt(today())) {
+            throw new \InvalidArgumentException('Only upcoming scheduled shifts can be swapped.');
+        }
+    }
+
+    private function ensureNotOffered(ShiftAssignment $shift): void
+    {
+        $offered = ShiftSwapRequest::active()
+            ->where(fn ($query) => $query->where('shift_assignment_id', $shift->id)->orWhere('target_shift_assignment_id', $shift->id))
+            ->exists();
+
+        if ($offered) {
+            throw new \InvalidArgumentException('The ' . $shift->date->format('M j') . ' shift is already part of an open swap request.');
+        }
+    }
+
+    private function ensureNotBlocked(array $issues): void
+    {
+        $blocking = array_values(array_filter($issues, fn ($issue) => $issue['blocking']));
+
+        if (!empty($blocking)) {
+            throw new \InvalidArgumentException('Not eligible: ' . implode('; ', array_column($blocking, 'message')));
+        }
+    }
+
+    private function ensureAwaitingCoworker(ShiftSwapRequest $swap, Employee $coworker): void
+    {
+        if ($swap->status !== 'pending_coworker' || (int) $swap->target_employee_id !== $coworker->id) {
+            throw new \InvalidArgumentException('This swap request is not waiting for your answer.');
+        }
+    }
+
+    private function ensureAwaitingApproval(ShiftSwapRequest $swap, User $approver): void
+    {
+        if ($swap->status !== 'pending_approval') {
+            throw new \InvalidArgumentException('This request is not awaiting approval.');
+        }
+
+        if (!$this->canApprove($swap, $approver)) {
+            throw new \InvalidArgumentException('Only the head of the ' . ($swap->department?->name ?? 'employee\'s') . ' department can decide this request.');
+        }
+    }
+
+    /**
+     * Notify the department head, or the users allowed to approve swaps when
+     * the department has no head.
+     */
+    private function notifyApprovers(ShiftSwapRequest $swap): void
+    {
+        try {
+            $manager = $swap->department?->manager;
+            $users = $manager ? collect([$manager]) : User::permission('hr.workforce.shift-swaps.approve')->get();
+
+            if ($users->isNotEmpty()) {
+                Notification::send($users, new ShiftSwapNotification($swap, 'awaiting_approval'));
+            }
+        } catch (\Exception $e) {
+            Log::warning('Shift swap approver notification failed', [
+                'shift_swap_request_id' => $swap->id,
+                'error' => $e->getMessage(),
+            ]);
+        }
+    }
+
+    /**
+     * @param array<int, Employee|null> $employees
+     */
+    private function notifyEmployees(ShiftSwapRequest $swap, array $employees, string $event): void
+    {
+        try {
+            $users = collect($employees)->filter()->map(fn (Employee $employee) => $employee->user)->filter();
+
+            if ($users->isNotEmpty()) {
+                Notification::send($users, new ShiftSwapNotification($swap, $event));
+            }
+        } catch (\Exception $e) {
+            Log::warning('Shift swap notification failed', [
+                'shift_swap_request_id' => $swap->id,
+                'event' => $event,
+                'error' => $e->getMessage(),
+            ]);
+        }
+    }
+}
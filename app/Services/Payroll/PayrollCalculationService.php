@@ -8,6 +8,7 @@
 use App\Models\PayrollPeriod;
 use App\Models\DailyAttendanceSummary;
 use App\Models\User;
+use App\Services\Timekeeping\NightDifferentialService;
 use Carbon\Carbon;
 use Illuminate\Support\Facades\DB;
 use Illuminate\Support\Facades\Log;
@@ -25,13 +26,13 @@
  * - SalaryComponentService (earning/deduction components)
  * - AllowanceDeductionService (recurring allowances and deductions)
  * - LoanManagementService (loan deductions)
- * - Timekeeping (daily attendance data)
+ * - Timekeeping (daily attendance data, night differential rules)
  *
  * Calculation Flow:
  * 1. Fetch employee payroll info
  * 2. Get attendance data for period
  * 3. Calculate basic pay
- * 4. Calculate overtime pay
+ * 4. Calculate overtime and night differential pay
  * 5. Apply salary components
  * 6. Add allowances
  * 7. Calculate deductions (SSS, PhilHealth, Pag-IBIG, Tax)
@@ -40,6 +41,11 @@
  * 10. Save calculation record
  */
 class PayrollCalculationService {
+    /**
+     * Standard OT rate: 1.25x hourly rate
+     */
+    private const OVERTIME_RATE = 1.25;
+
     /**
      * Infer pay frequency from period date range.
      * @param PayrollPeriod $period
@@ -105,6 +111,7 @@ public function __construct(
         private SalaryComponentService $componentService,
         private AllowanceDeductionService $allowanceDeductionService,
         private LoanManagementService $loanManagementService,
+        private NightDifferentialService $nightDifferentialService,
     ) {}
 
     /**
@@ -177,12 +184,15 @@ public function calculateEmployee(Employee $employee, PayrollPeriod $period): Em
             $overtimeHours = $attendanceSummaries->sum('overtime_hours');
             $lateMinutes = $attendanceSummaries->sum('late_minutes');
             $undertimeMinutes = $attendanceSummaries->sum('undertime_minutes');
+            $nightDifferentialHours = round($attendanceSummaries->sum('night_diff_minutes') / 60, 2);
+            $nightDifferentialOvertimeHours = round($attendanceSummaries->sum('night_diff_overtime_minutes') / 60, 2);
 
             // Step 4: Calculate basic pay
             $basicPay = $this->calculateBasicPay($daysWorked, $payrollInfo, $period);
 
             // Step 5: Calculate overtime pay
             $overtimePay = $this->calculateOvertimePay($overtimeHours, $payrollInfo);
+            $nightDifferentialPay = $this->calculateNightDifferentialPay($nightDifferentialHours, $nightDifferentialOvertimeHours, $payrollInfo);
 
             // Step 6: Get active salary components
             $components = $this->componentService->getEmployeeComponents($employee, true);
@@ -193,7 +203,7 @@ public function calculateEmployee(Employee $employee, PayrollPeriod $period): Em
             $totalAllowances = $allowances->sum('amount');
 
             // Step 8: Calculate gross pay
-            $grossPay = $basicPay + $overtimePay + $componentAmounts + $totalAllowances;
+            $grossPay = $basicPay + $overtimePay + $nightDifferentialPay + $componentAmounts + $totalAllowances;
 
             // Step 9 & 10: Government contributions and tax — configurable timing
             $periodHalf = $this->getPeriodHalf($period);
@@ -303,6 +313,8 @@ public function calculateEmployee(Employee $employee, PayrollPeriod $period): Em
                 'basic_pay'                  => (float) $basicPay,
                 'regular_overtime_pay'       => (float) $overtimePay,
                 'total_overtime_pay'         => (float) $overtimePay,
+                'night_differential_hours'   => (float) $nightDifferentialHours,
+                'night_differential_pay'     => (float) $nightDifferentialPay,
                 'other_allowances'           => (float) $componentAmounts,
                 'total_allowances'           => (float) ($totalAllowances + $componentAmounts),
                 'gross_pay'                  => (float) $grossPay,
@@ -567,8 +579,35 @@ private function calculateOvertimePay(float $overtimeHours, EmployeePayrollInfo
             return 0;
         }
 
-        // Standard OT rate: 1.25x hourly rate
-        return $overtimeHours * $payrollInfo->hourly_rate * 1.25;
+        return $overtimeHours * $payrollInfo->hourly_rate * self::OVERTIME_RATE;
+    }
+
+    /**
+     * Calculate night differential pay
+     *
+     * Premium on hours worked inside the night differential window, at the
+     * configured rate (at least 10%) of the hourly rate, or of the overtime
+     * rate for the night hours that were overtime.
+     *
+     * @param float $nightDifferentialHours
+     * @param float $overtimeHours Of the night hours, those worked as overtime
+     * @param EmployeePayrollInfo $payrollInfo
+     * @return float
+     */
+    private function calculateNightDifferentialPay(float $nightDifferentialHours, float $overtimeHours, EmployeePayrollInfo $payrollInfo): float
+    {
+        if ($nightDifferentialHours <= 0 || !$payrollInfo->hourly_rate) {
+            return 0;
+        }
+
+        $overtimeHours = min($overtimeHours, $nightDifferentialHours);
+        $rate = $this->nightDifferentialService->settings()['rate'];
+
+        return round(
+            ($nightDifferentialHours - $overtimeHours) * $payrollInfo->hourly_rate * $rate
+                + $overtimeHours * $payrollInfo->hourly_rate * self::OVERTIME_RATE * $rate,
+            2
+        );
     }
 
     /**
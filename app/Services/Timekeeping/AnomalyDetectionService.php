@@ -0,0 +1,382 @@
+<?php
+
+namespace App\Services\Timekeeping;
+
+use App\Models\AttendanceAnomaly;
+use App\Models\AttendanceCorrection;
+use App\Models\AttendanceEvent;
+use App\Models\DevicePairAnomalyRule;
+use App\Models\RfidDevice;
+use Carbon\Carbon;
+use Illuminate\Support\Collection;
+
+/**
+ * AnomalyDetectionService
+ *
+ * Rules engine that flags physically impossible or suspicious RFID taps for HR
+ * review (attendance_anomalies):
+ *
+ * - impossible_travel: two consecutive taps of one employee on different
+ *   devices closer together than the fastest plausible walk between them
+ * - buddy_punching:    two employees tapping back to back on the same device
+ *   on several days within the lookback, suggesting one carries both badges
+ * - missing_exit:      a time_in with no time_out within the longest shift
+ *
+ * Thresholds default to the constants below and can be overridden per device
+ * pair (device_pair_anomaly_rules); a disabled rule turns a pair off, e.g. for
+ * readers mounted side by side. Every anomaly carries a fingerprint, so running
+ * the rules again over the same events never flags anything twice and a
+ * dismissed anomaly stays dismissed.
+ */
+class AnomalyDetectionService
+{
+    /**
+     * Fastest plausible walk between two different devices, in seconds.
+     */
+    public const DEFAULT_MIN_TRAVEL_SECONDS = 120;
+
+    /**
+     * Two taps of different employees this close together on one device are back to back.
+     */
+    public const DEFAULT_BUDDY_WINDOW_SECONDS = 5;
+
+    /**
+     * Days with back-to-back taps within the lookback before a pair is flagged.
+     */
+    public const BUDDY_MIN_DAYS = 3;
+    public const BUDDY_LOOKBACK_DAYS = 14;
+
+    /**
+     * Longest shift; a time_in without a time_out after this long is a missing exit.
+     */
+    public const MISSING_EXIT_HOURS = 16;
+
+    /**
+     * @var Collection<string, DevicePairAnomalyRule>|null Rules keyed "device_a|device_b"
+     */
+    private ?Collection $rules = null;
+
+    /**
+     * @var Collection<string, string>|null Device labels keyed by device_id
+     */
+    private ?Collection $deviceLabels = null;
+
+    /**
+     * Run the tap-level rules over newly created attendance events.
+     *
+     * @param Collection $events AttendanceEvent models from the ledger pipeline
+     * @return array<string, int> Anomalies created per type
+     */
+    public function detectForEvents(Collection $events): array
+    {
+        $created = ['impossible_travel' => 0, 'buddy_punching' => 0];
+
+        $events = $events
+            ->filter(fn (AttendanceEvent $event) => $event->device_id && $event->employee_id && !$event->is_deduplicated)
+            ->sortBy(fn (AttendanceEvent $event) => $event->event_time->getTimestamp());
+
+        foreach ($events as $event) {
+            if ($this->detectImpossibleTravel($event)) {
+                $created['impossible_travel']++;
+            }
+            $created['buddy_punching'] += $this->detectBuddyPunching($event);
+        }
+
+        return $created;
+    }
+
+    /**
+     * Flag an employee's tap that follows their previous tap on another device too quickly.
+     *
+     * @param AttendanceEvent $event
+     * @return AttendanceAnomaly|null The new anomaly, if one was flagged
+     */
+    public function detectImpossibleTravel(AttendanceEvent $event): ?AttendanceAnomaly
+    {
+        $previous = AttendanceEvent::where('employee_id', $event->employee_id)
+            ->where('id', '!=', $event->id)
+            ->whereNotNull('device_id')
+            ->where('is_deduplicated', false)
+            ->where('event_time', '<=', $event->event_time)
+            ->orderByDesc('event_time')
+            ->first();
+
+        if (!$previous || $previous->device_id === $event->device_id) {
+            return null;
+        }
+
+        $rule = $this->ruleFor($previous->device_id, $event->device_id);
+        if ($rule && !$rule->is_enabled) {
+            return null;
+        }
+
+        $threshold = $rule?->min_travel_seconds ?? self::DEFAULT_MIN_TRAVEL_SECONDS;
+        $gap = (int) $previous->event_time->diffInSeconds($event->event_time, true);
+
+        if ($gap >= $threshold) {
+            return null;
+        }
+
+        return $this->flag([
+            'type' => 'impossible_travel',
+            'severity' => match (true) {
+                $gap * 4 < $threshold => 'high',
+                $gap * 2 < $threshold => 'medium',
+                default => 'low',
+            },
+            'fingerprint' => "impossible_travel:{$previous->id}:{$event->id}",
+            'employee_id' => $event->employee_id,
+            'attendance_date' => $event->event_date,
+            'device_id' => $event->device_id,
+            'related_device_id' => $previous->device_id,
+            'ledger_sequence_id' => $event->ledger_sequence_id,
+            'related_ledger_sequence_id' => $previous->ledger_sequence_id,
+            'attendance_event_id' => $event->id,
+            'summary' => sprintf(
+                'Tapped at %s %ds after tapping at %s; the fastest plausible walk is %ds',
+                $this->deviceLabel($event->device_id),
+                $gap,
+                $this->deviceLabel($previous->device_id),
+                $threshold
+            ),
+            'details' => [
+                'gap_seconds' => $gap,
+                'min_travel_seconds' => $threshold,
+                'threshold_source' => $rule?->min_travel_seconds !== null ? 'device_pair_rule' : 'default',
+                'previous_event_id' => $previous->id,
+                'previous_event_time' => $previous->event_time->toISOString(),
+                'event_time' => $event->event_time->toISOString(),
+            ],
+        ]);
+    }
+
+    /**
+     * Flag employee pairs that keep tapping back to back on the event's device.
+     *
+     * @param AttendanceEvent $event
+     * @return int Anomalies created
+     */
+    public function detectBuddyPunching(AttendanceEvent $event): int
+    {
+        $rule = $this->ruleFor($event->device_id, $event->device_id);
+        if ($rule && !$rule->is_enabled) {
+            return 0;
+        }
+
+        $window = $rule?->buddy_window_seconds ?? self::DEFAULT_BUDDY_WINDOW_SECONDS;
+
+        $neighbours = AttendanceEvent::where('device_id', $event->device_id)
+            ->where('employee_id', '!=', $event->employee_id)
+            ->where('is_deduplicated', false)
+            ->whereBetween('event_time', [
+                $event->event_time->copy()->subSeconds($window),
+                $event->event_time->copy()->addSeconds($window),
+            ])
+            ->get();
+
+        $created = 0;
+        foreach ($neighbours->unique('employee_id') as $neighbour) {
+            [$employeeA, $employeeB] = $event->employee_id < $neighbour->employee_id
+                ? [$event->employee_id, $neighbour->employee_id]
+                : [$neighbour->employee_id, $event->employee_id];
+            $fingerprint = "buddy_punching:{$employeeA}:{$employeeB}:{$event->device_id}:{$event->event_date->toDateString()}";
+
+            if (AttendanceAnomaly::where('fingerprint', $fingerprint)->exists()) {
+                continue;
+            }
+
+            $days = $this->backToBackDays($employeeA, $employeeB, $event->device_id, $window, $event->event_date);
+            if (count($days) < self::BUDDY_MIN_DAYS) {
+                continue;
+            }
+
+            $anomaly = $this->flag([
+                'type' => 'buddy_punching',
+                'severity' => count($days) >= self::BUDDY_MIN_DAYS * 2 ? 'high' : 'medium',
+                'fingerprint' => $fingerprint,
+                'employee_id' => $event->employee_id,
+                'related_employee_id' => $neighbour->employee_id,
+                'attendance_date' => $event->event_date,
+                'device_id' => $event->device_id,
+                'ledger_sequence_id' => $event->ledger_sequence_id,
+                'related_ledger_sequence_id' => $neighbour->ledger_sequence_id,
+                'attendance_event_id' => $event->id,
+                'summary' => sprintf(
+                    'Tapped back to back with another employee at %s on %d of the last %d days',
+                    $this->deviceLabel($event->device_id),
+                    count($days),
+                    self::BUDDY_LOOKBACK_DAYS
+                ),
+                'details' => [
+                    'window_seconds' => $window,
+                    'threshold_source' => $rule?->buddy_window_seconds !== null ? 'device_pair_rule' : 'default',
+                    'days' => $days,
+                    'min_days' => self::BUDDY_MIN_DAYS,
+                    'lookback_days' => self::BUDDY_LOOKBACK_DAYS,
+                    'gap_seconds' => (int) $neighbour->event_time->diffInSeconds($event->event_time, true),
+                ],
+            ]);
+
+            if ($anomaly) {
+                $created++;
+            }
+        }
+
+        return $created;
+    }
+
+    /**
+     * Flag time_ins on a date that have no time_out within the longest shift.
+     *
+     * Only time_ins whose shift window has fully elapsed are checked, so run
+     * this for days at least MISSING_EXIT_HOURS in the past.
+     *
+     * @param Carbon $date Attendance date
+     * @return int Anomalies created
+     */
+    public function detectMissingExits(Carbon $date): int
+    {
+        $timeIns = AttendanceEvent::where('event_date', $date->toDateString())
+            ->where('event_type', 'time_in')
+            ->where('is_deduplicated', false)
+            ->orderBy('event_time')
+            ->get()
+            ->groupBy('employee_id');
+
+        $created = 0;
+        foreach ($timeIns as $employeeId => $events) {
+            // The day's last time_in; earlier ones are closed by it or by their own time_out
+            $timeIn = $events->last();
+            $deadline = $timeIn->event_time->copy()->addHours(self::MISSING_EXIT_HOURS);
+
+            if ($deadline->isFuture()) {
+                continue;
+            }
+
+            $hasExit = AttendanceEvent::where('employee_id', $employeeId)
+                ->where('event_type', 'time_out')
+                ->whereBetween('event_time', [$timeIn->event_time, $deadline])
+                ->exists();
+
+            // An approved correction supplying the time out closes the day as well
+            $correctedExit = AttendanceCorrection::approved()
+                ->whereIn('attendance_event_id', AttendanceEvent::where('employee_id', $employeeId)
+                    ->where('event_date', $date->toDateString())
+                    ->select('id'))
+                ->whereNotNull('corrected_time_out')
+                ->exists();
+
+            if ($hasExit || $correctedExit) {
+                continue;
+            }
+
+            $anomaly = $this->flag([
+                'type' => 'missing_exit',
+                'severity' => 'low',
+                'fingerprint' => "missing_exit:{$employeeId}:{$date->toDateString()}",
+                'employee_id' => $employeeId,
+                'attendance_date' => $date->toDateString(),
+                'device_id' => $timeIn->device_id,
+                'ledger_sequence_id' => $timeIn->ledger_sequence_id,
+                'attendance_event_id' => $timeIn->id,
+                'summary' => sprintf(
+                    'Time in at %s%s has no time out within %d hours',
+                    $timeIn->event_time->format('H:i'),
+                    $timeIn->device_id ? ' (' . $this->deviceLabel($timeIn->device_id) . ')' : '',
+                    self::MISSING_EXIT_HOURS
+                ),
+                'details' => [
+                    'time_in' => $timeIn->event_time->toISOString(),
+                    'max_shift_hours' => self::MISSING_EXIT_HOURS,
+                ],
+            ]);
+
+            if ($anomaly) {
+                $created++;
+            }
+        }
+
+        return $created;
+    }
+
+    /**
+     * Dates within the lookback on which two employees tapped back to back on a device.
+     *
+     * @param int $employeeA
+     * @param int $employeeB
+     * @param string $deviceId
+     * @param int $window Seconds
+     * @param Carbon $until Last attendance date of the lookback
+     * @return array<int, string> Dates (Y-m-d)
+     */
+    private function backToBackDays(int $employeeA, int $employeeB, string $deviceId, int $window, Carbon $until): array
+    {
+        $taps = AttendanceEvent::whereIn('employee_id', [$employeeA, $employeeB])
+            ->where('device_id', $deviceId)
+            ->where('is_deduplicated', false)
+            ->whereBetween('event_date', [
+                $until->copy()->subDays(self::BUDDY_LOOKBACK_DAYS - 1)->toDateString(),
+                $until->toDateString(),
+            ])
+            ->orderBy('event_time')
+            ->get(['employee_id', 'event_date', 'event_time'])
+            ->values();
+
+        $days = [];
+        for ($i = 1; $i < $taps->count(); $i++) {
+            $previous = $taps[$i - 1];
+            $current = $taps[$i];
+
+            if ($previous->employee_id !== $current->employee_id
+                && $previous->event_time->diffInSeconds($current->event_time, true) <= $window) {
+                $days[$current->event_date->toDateString()] = true;
+            }
+        }
+
+        return array_keys($days);
+    }
+
+    /**
+     * Create an anomaly unless one with the same fingerprint already exists.
+     *
+     * @param array $attributes
+     * @return AttendanceAnomaly|null The new anomaly, or null if it was already flagged
+     */
+    private function flag(array $attributes): ?AttendanceAnomaly
+    {
+        $anomaly = AttendanceAnomaly::firstOrCreate(
+            ['fingerprint' => $attributes['fingerprint']],
+            $attributes + ['status' => 'open', 'detected_at' => now()]
+        );
+
+        return $anomaly->wasRecentlyCreated ? $anomaly : null;
+    }
+
+    /**
+     * Threshold override for a device pair, in either order.
+     *
+     * @param string $deviceA
+     * @param string $deviceB
+     * @return DevicePairAnomalyRule|null
+     */
+    private function ruleFor(string $deviceA, string $deviceB): ?DevicePairAnomalyRule
+    {
+        $this->rules ??= DevicePairAnomalyRule::all()
+            ->keyBy(fn (DevicePairAnomalyRule $rule) => "{$rule->device_a_id}|{$rule->device_b_id}");
+
+        return $this->rules->get(implode('|', DevicePairAnomalyRule::orderedPair($deviceA, $deviceB)));
+    }
+
+    /**
+     * Device location (or ID) for anomaly summaries.
+     *
+     * @param string $deviceId
+     * @return string
+     */
+    private function deviceLabel(string $deviceId): string
+    {
+        $this->deviceLabels ??= RfidDevice::pluck('location', 'device_id');
+
+        return $this->deviceLabels->get($deviceId) ?: $deviceId;
+    }
+}
@@ -0,0 +1,938 @@
+<?php
+
+namespace App\Services\Timekeeping;
+
+use App\Models\AttendanceEvent;
+use App\Models\Employee;
+use App\Models\RfidDevice;
+use Carbon\Carbon;
+use Illuminate\Support\Collection;
+use InvalidArgumentException;
+
+/**
+ * AttendanceImportParser
+ *
+ * Detects the layout of attendance log files and turns their lines into
+ * attendance events through a column mapping. Handles delimited files
+ * (CSV, TSV, ...), ZKTeco-style attlog .dat exports and fixed-width logs.
+ *
+ * Mapping shape (also stored on import_mapping_profiles and import_batches):
+ * - format: delimited | zkteco_dat | fixed_width
+ * - delimiter: field separator, delimited files only
+ * - has_header, skip_lines: lines to skip before the data
+ * - columns: employee_number, timestamp (or date + time), event_type and
+ *   optional device, each null or {index} for split lines, {start, length}
+ *   (0-based characters) for fixed-width lines
+ * - timestamp_format: PHP date format, or null to parse leniently
+ * - event_codes: raw event code => event type
+ * - device_codes: raw device code => rfid_devices.device_id
+ * - default_device_id: device for rows without a device code
+ */
+class AttendanceImportParser
+{
+    public const FORMATS = ['delimited', 'zkteco_dat', 'fixed_width'];
+
+    public const FIELDS = ['employee_number', 'timestamp', 'date', 'time', 'event_type', 'device'];
+
+    public const EVENT_TYPES = ['time_in', 'time_out', 'break_start', 'break_end', 'overtime_start', 'overtime_end'];
+
+    /**
+     * ZKTeco punch state codes.
+     */
+    public const ZKTECO_EVENT_CODES = [
+        '0' => 'time_in',
+        '1' => 'time_out',
+        '2' => 'break_start',
+        '3' => 'break_end',
+        '4' => 'overtime_start',
+        '5' => 'overtime_end',
+    ];
+
+    /**
+     * Lines of an attlog.dat export: user ID, timestamp, device, punch state, verify mode, work code.
+     */
+    private const ZKTECO_LABELS = ['User ID', 'Timestamp', 'Device', 'Punch state', 'Verify mode', 'Work code'];
+
+    private const ZKTECO_LINE = '/^\s*(\S+)\s+(\d{4}-\d{2}-\d{2}\s+\d{1,2}:\d{2}(?::\d{2})?)\s*(.*)$/';
+
+    private const DELIMITERS = [',', "\t", ';', '|'];
+
+    /**
+     * Header names suggesting a column; date and time columns are found by their values.
+     */
+    private const HEADER_HINTS = [
+        'employee_number' => '/emp|pin|user|badge|staff|id ?no|card/i',
+        'event_type' => '/event|type|state|status|punch|in ?\/ ?out|mode/i',
+        'device' => '/device|machine|terminal|reader|sn|serial|station/i',
+    ];
+
+    private const DATE_TIME_VALUE = '/^\d{1,4}[-\/.]\d{1,2}[-\/.]\d{1,4}[ T]\d{1,2}:\d{2}(:\d{2})?( ?[AP]M)?$/i';
+
+    private const DATE_VALUE = '/^\d{1,4}[-\/.]\d{1,2}[-\/.]\d{1,4}$/';
+
+    private const TIME_VALUE = '/^\d{1,2}:\d{2}(:\d{2})?( ?[AP]M)?$/i';
+
+    /**
+     * Lines scanned to detect the layout and list column values.
+     */
+    private const SAMPLE_LINES = 500;
+
+    /**
+     * Distinct values listed per column.
+     */
+    private const MAX_DISTINCT_VALUES = 25;
+
+    /**
+     * Lines resolved against the database at a time.
+     */
+    private const CHUNK_SIZE = 500;
+
+    /**
+     * Column labels read from the header line of a delimited file.
+     *
+     * @var array<int, string>
+     */
+    private array $headerLabels = [];
+
+    /**
+     * Detect the layout of a file and suggest a mapping for it.
+     *
+     * Options the user already chose (format, delimiter, has_header,
+     * skip_lines) replace the detected ones, and columns are suggested again.
+     *
+     * @param string $path
+     * @param string $fileName
+     * @param array $options
+     * @return array{format: string, mapping: array, columns: array, sample_lines: array, line_count: int}
+     * @throws InvalidArgumentException When the file cannot be mapped
+     */
+    public function detect(string $path, string $fileName, array $options = []): array
+    {
+        if (in_array(strtolower(pathinfo($fileName, PATHINFO_EXTENSION)), ['xlsx', 'xls'], true)) {
+            throw new InvalidArgumentException('Excel workbooks cannot be mapped. Save the sheet as CSV and upload it again.');
+        }
+
+        $lines = $this->readLines($path, self::SAMPLE_LINES);
+        if ($lines === []) {
+            throw new InvalidArgumentException('The file has no data lines.');
+        }
+
+        $format = $options['format'] ?? $this->detectFormat($lines, $fileName);
+        $mapping = [
+            'format' => $format,
+            'delimiter' => null,
+            'has_header' => false,
+            'skip_lines' => 0,
+            'columns' => array_fill_keys(self::FIELDS, null),
+            'timestamp_format' => null,
+            'event_codes' => [],
+            'device_codes' => [],
+            'default_device_id' => null,
+        ];
+
+        if ($format === 'delimited') {
+            $mapping['delimiter'] = $options['delimiter'] ?? $this->detectDelimiter($lines) ?? ',';
+            $mapping['has_header'] = $this->looksLikeHeader($lines, $mapping['delimiter']);
+        } elseif ($format === 'zkteco_dat') {
+            // Some terminals write a title or column line first
+            while ($mapping['skip_lines'] < count($lines) && preg_match(self::ZKTECO_LINE, $lines[$mapping['skip_lines']]) !== 1) {
+                $mapping['skip_lines']++;
+            }
+        }
+
+        if (isset($options['has_header'])) {
+            $mapping['has_header'] = (bool) $options['has_header'];
+        }
+        if (isset($options['skip_lines'])) {
+            $mapping['skip_lines'] = (int) $options['skip_lines'];
+        }
+
+        $columns = $this->describeColumns($lines, $mapping);
+        $mapping['columns'] = $this->suggestColumns($columns, $mapping);
+        $mapping['event_codes'] = $this->suggestEventCodes($columns, $mapping);
+        $mapping['device_codes'] = $this->suggestDeviceCodes($columns, $mapping);
+
+        return [
+            'format' => $format,
+            'mapping' => $mapping,
+            'columns' => $columns,
+            'sample_lines' => array_slice($lines, 0, 10),
+            'line_count' => $this->countLines($path),
+        ];
+    }
+
+    /**
+     * Problems with a mapping that validation rules cannot express.
+     *
+     * @param array $mapping
+     * @return array<string, string> Field => message
+     */
+    public function mappingErrors(array $mapping): array
+    {
+        $errors = [];
+        $fixedWidth = $mapping['format'] === 'fixed_width';
+
+        foreach (self::FIELDS as $field) {
+            $spec = $mapping['columns'][$field] ?? null;
+            if ($spec === null) {
+                continue;
+            }
+            if ($fixedWidth && (!isset($spec['start'], $spec['length']))) {
+                $errors["mapping.columns.{$field}"] = 'Fixed-width columns need a start position and a length.';
+            } elseif (!$fixedWidth && !isset($spec['index'])) {
+                $errors["mapping.columns.{$field}"] = 'Choose a column.';
+            }
+        }
+
+        if (empty($mapping['columns']['timestamp']) && (empty($mapping['columns']['date']) || empty($mapping['columns']['time']))) {
+            $errors['mapping.columns.timestamp'] = 'Map a timestamp column, or both a date and a time column.';
+        }
+
+        return $errors;
+    }
+
+    /**
+     * Parse a file through a mapping, resolving employees, devices and duplicates.
+     *
+     * Calls $onChunk with the valid rows and the row errors of every chunk of
+     * lines; rows duplicating an existing event or an earlier line are reported
+     * as duplicate_entry errors.
+     *
+     * @param string $path
+     * @param array $mapping
+     * @param callable(array $rows, array $errors): void $onChunk
+     * @return int Data lines read
+     */
+    public function parse(string $path, array $mapping, callable $onChunk): int
+    {
+        $knownDevices = RfidDevice::pluck('device_id')->flip();
+        $seen = [];
+        $chunk = [];
+        $count = 0;
+
+        foreach ($this->dataLines($path, $mapping) as $lineNumber => $line) {
+            $chunk[$lineNumber] = $line;
+            $count++;
+
+            if (count($chunk) >= self::CHUNK_SIZE) {
+                $onChunk(...$this->resolveChunk($chunk, $mapping, $knownDevices, $seen));
+                $chunk = [];
+            }
+        }
+
+        if ($chunk !== []) {
+            $onChunk(...$this->resolveChunk($chunk, $mapping, $knownDevices, $seen));
+        }
+
+        return $count;
+    }
+
+    /**
+     * Resolve a chunk of lines into event rows and row errors.
+     *
+     * @param array<int, string> $lines Line number => line
+     * @param array $mapping
+     * @param Collection $knownDevices device_id => index
+     * @param array<string, true> $seen Event keys already read from the file
+     * @return array{0: array, 1: array}
+     */
+    private function resolveChunk(array $lines, array $mapping, Collection $knownDevices, array &$seen): array
+    {
+        $extracted = [];
+        foreach ($lines as $lineNumber => $line) {
+            $extracted[$lineNumber] = $this->extract($line, $mapping);
+        }
+
+        $employees = Employee::with('profile:id,first_name,last_name')
+            ->whereIn('employee_number', array_filter(array_column($extracted, 'employee_number')))
+            ->get(['id', 'employee_number', 'profile_id'])
+            ->keyBy('employee_number');
+
+        $rows = [];
+        $errors = [];
+
+        foreach ($extracted as $lineNumber => $values) {
+            $error = fn (string $type, string $message, ?string $fix = null) => [
+                'row_number' => $lineNumber,
+                'employee_identifier' => $values['employee_number'] ?: null,
+                'error_type' => $type,
+                'error_message' => $message,
+                'raw_data' => $values['raw_data'],
+                'suggested_fix' => $fix,
+            ];
+
+            if ($values['employee_number'] === '') {
+                $errors[] = $error('invalid_employee', 'Employee number is empty.', 'Check the column mapped to employee number.');
+                continue;
+            }
+
+            $employee = $employees->get($values['employee_number']);
+            if (!$employee) {
+                $errors[] = $error(
+                    'invalid_employee',
+                    "Employee '{$values['employee_number']}' not found.",
+                    'The ID on the terminal must match the employee number in HRIS.'
+                );
+                continue;
+            }
+
+            $eventTime = $this->parseTimestamp($values['timestamp'], $mapping['timestamp_format'] ?? null);
+            if (!$eventTime) {
+                $errors[] = $error(
+                    'invalid_time',
+                    $values['timestamp'] === '' ? 'Timestamp is empty.' : "Cannot read '{$values['timestamp']}' as a timestamp.",
+                    empty($mapping['timestamp_format']) ? 'Set the timestamp format, e.g. d/m/Y H:i.' : 'Check the timestamp format.'
+                );
+                continue;
+            }
+
+            $eventType = $mapping['event_codes'][$values['event_code']] ?? null;
+            if (!$eventType) {
+                $errors[] = $error(
+                    'validation_error',
+                    "Event code '{$values['event_code']}' is not mapped to an event type.",
+                    "Map code '{$values['event_code']}' in the event codes step."
+                );
+                continue;
+            }
+
+            $deviceId = $mapping['default_device_id'] ?? null;
+            if ($values['device_code'] !== null && $values['device_code'] !== '') {
+                $deviceId = $mapping['device_codes'][$values['device_code']]
+                    ?? ($knownDevices->has($values['device_code']) ? $values['device_code'] : null);
+
+                if (!$deviceId) {
+                    $errors[] = $error(
+                        'validation_error',
+                        "Device code '{$values['device_code']}' is not mapped to a device.",
+                        "Map code '{$values['device_code']}' in the device codes step."
+                    );
+                    continue;
+                }
+            }
+
+            $rows[] = [
+                'row_number' => $lineNumber,
+                'employee_id' => $employee->id,
+                'employee_number' => $employee->employee_number,
+                'employee_name' => $employee->profile
+                    ? trim("{$employee->profile->first_name} {$employee->profile->last_name}")
+                    : $employee->employee_number,
+                'event_time' => $eventTime,
+                'event_type' => $eventType,
+                'device_id' => $deviceId,
+                'raw_data' => $values['raw_data'],
+            ];
+        }
+
+        return $this->flagDuplicates($rows, $errors, $seen);
+    }
+
+    /**
+     * Move rows already recorded, or repeated earlier in the file, to the errors.
+     *
+     * @param array $rows
+     * @param array $errors
+     * @param array<string, true> $seen
+     * @return array{0: array, 1: array}
+     */
+    private function flagDuplicates(array $rows, array $errors, array &$seen): array
+    {
+        if ($rows === []) {
+            return [$rows, $errors];
+        }
+
+        $times = array_map(fn (array $row) => $row['event_time'], $rows);
+        $existing = AttendanceEvent::whereIn('employee_id', array_unique(array_column($rows, 'employee_id')))
+            ->whereBetween('event_time', [min($times), max($times)])
+            ->get(['employee_id', 'event_time', 'event_type'])
+            ->mapWithKeys(fn (AttendanceEvent $event) => [
+                $this->eventKey($event->employee_id, $event->event_time, $event->event_type) => true,
+            ]);
+
+        $unique = [];
+        foreach ($rows as $row) {
+            $key = $this->eventKey($row['employee_id'], $row['event_time'], $row['event_type']);
+
+            if ($existing->has($key) || isset($seen[$key])) {
+                $errors[] = [
+                    'row_number' => $row['row_number'],
+                    'employee_identifier' => $row['employee_number'],
+                    'error_type' => 'duplicate_entry',
+                    'error_message' => $existing->has($key)
+                        ? 'This event is already recorded.'
+                        : 'This event appears earlier in the file.',
+                    'raw_data' => $row['raw_data'],
+                    'suggested_fix' => 'The row will be skipped.',
+                ];
+                continue;
+            }
+
+            $seen[$key] = true;
+            $unique[] = $row;
+        }
+
+        return [$unique, $errors];
+    }
+
+    /**
+     * @param int $employeeId
+     * @param Carbon $time
+     * @param string $eventType
+     * @return string
+     */
+    private function eventKey(int $employeeId, Carbon $time, string $eventType): string
+    {
+        return "{$employeeId}|{$time->format('Y-m-d H:i:s')}|{$eventType}";
+    }
+
+    /**
+     * Pull the mapped values out of one line.
+     *
+     * @param string $line
+     * @param array $mapping
+     * @return array{employee_number: string, timestamp: string, event_code: string, device_code: string|null, raw_data: array}
+     */
+    private function extract(string $line, array $mapping): array
+    {
+        $fields = $this->split($line, $mapping);
+        $value = fn (string $field) => isset($mapping['columns'][$field])
+            ? $this->columnValue($line, $fields, $mapping['columns'][$field])
+            : null;
+
+        $timestamp = $value('timestamp') ?? trim(($value('date') ?? '') . ' ' . ($value('time') ?? ''));
+
+        return [
+            'employee_number' => $value('employee_number') ?? '',
+            'timestamp' => $timestamp,
+            'event_code' => $value('event_type') ?? '',
+            'device_code' => $value('device'),
+            'raw_data' => $fields === null ? ['line' => $line] : $this->labelFields($fields, $mapping),
+        ];
+    }
+
+    /**
+     * @param string $line
+     * @param array<int, string>|null $fields
+     * @param array $spec
+     * @return string
+     */
+    private function columnValue(string $line, ?array $fields, array $spec): string
+    {
+        if ($fields === null) {
+            return trim(substr($line, (int) $spec['start'], (int) $spec['length']));
+        }
+
+        return trim($fields[(int) $spec['index']] ?? '');
+    }
+
+    /**
+     * Split a line into fields; null for fixed-width lines.
+     *
+     * @param string $line
+     * @param array $mapping
+     * @return array<int, string>|null
+     */
+    private function split(string $line, array $mapping): ?array
+    {
+        return match ($mapping['format']) {
+            'delimited' => str_getcsv($line, $mapping['delimiter'] ?? ','),
+            'zkteco_dat' => $this->splitZkteco($line),
+            default => null,
+        };
+    }
+
+    /**
+     * @param string $line
+     * @return array<int, string>
+     */
+    private function splitZkteco(string $line): array
+    {
+        if (str_contains(trim($line), "\t")) {
+            return array_map('trim', explode("\t", trim($line)));
+        }
+
+        // Space-padded exports: the timestamp holds the only single space
+        if (preg_match(self::ZKTECO_LINE, $line, $match)) {
+            $rest = trim($match[3]) === '' ? [] : preg_split('/\s+/', trim($match[3]));
+            return [$match[1], preg_replace('/\s+/', ' ', $match[2]), ...$rest];
+        }
+
+        return preg_split('/\s+/', trim($line));
+    }
+
+    /**
+     * @param array<int, string> $fields
+     * @param array $mapping
+     * @return array<string, string>
+     */
+    private function labelFields(array $fields, array $mapping): array
+    {
+        $labels = $this->labels($mapping, count($fields));
+        $labelled = [];
+        foreach ($fields as $index => $field) {
+            $labelled[$labels[$index] ?? 'Column ' . ($index + 1)] = $field;
+        }
+
+        return $labelled;
+    }
+
+    /**
+     * @param array $mapping
+     * @param int $count
+     * @return array<int, string>
+     */
+    private function labels(array $mapping, int $count): array
+    {
+        $labels = [];
+        for ($i = 0; $i < $count; $i++) {
+            $labels[$i] = match (true) {
+                $mapping['format'] === 'zkteco_dat' => self::ZKTECO_LABELS[$i] ?? 'Column ' . ($i + 1),
+                ($this->headerLabels[$i] ?? '') !== '' => $this->headerLabels[$i],
+                default => 'Column ' . ($i + 1),
+            };
+        }
+
+        return $labels;
+    }
+
+    /**
+     * Data lines keyed by their 1-based line number, after the skipped and header lines.
+     * Blank lines are ignored and do not count towards skip_lines.
+     *
+     * @param string $path
+     * @param array $mapping
+     * @return \Generator<int, string>
+     */
+    private function dataLines(string $path, array $mapping): \Generator
+    {
+        $handle = $this->open($path);
+        $skip = (int) ($mapping['skip_lines'] ?? 0);
+        $this->headerLabels = [];
+        $lineNumber = 0;
+        $skipped = 0;
+        $headerRead = empty($mapping['has_header']);
+
+        try {
+            while (($line = fgets($handle)) !== false) {
+                $line = $this->cleanLine($line, ++$lineNumber);
+
+                if (trim($line) === '') {
+                    continue;
+                }
+                if ($skipped < $skip) {
+                    $skipped++;
+                    continue;
+                }
+                if (!$headerRead) {
+                    $this->headerLabels = array_map('trim', $this->split($line, $mapping) ?? []);
+                    $headerRead = true;
+                    continue;
+                }
+
+                yield $lineNumber => $line;
+            }
+        } finally {
+            fclose($handle);
+        }
+    }
+
+    /**
+     * First non-empty lines of a file.
+     *
+     * @param string $path
+     * @param int $limit
+     * @return array<int, string>
+     */
+    private function readLines(string $path, int $limit): array
+    {
+        $handle = $this->open($path);
+        $lines = [];
+        $lineNumber = 0;
+
+        while (count($lines) < $limit && ($line = fgets($handle)) !== false) {
+            $line = $this->cleanLine($line, ++$lineNumber);
+            if (trim($line) !== '') {
+                $lines[] = $line;
+            }
+        }
+        fclose($handle);
+
+        return $lines;
+    }
+
+    /**
+     * @param string $path
+     * @return int
+     */
+    private function countLines(string $path): int
+    {
+        $handle = $this->open($path);
+        $count = 0;
+        while (($line = fgets($handle)) !== false) {
+            if (trim($line) !== '') {
+                $count++;
+            }
+        }
+        fclose($handle);
+
+        return $count;
+    }
+
+    /**
+     * @param string $path
+     * @return resource
+     */
+    private function open(string $path)
+    {
+        $handle = file_exists($path) ? fopen($path, 'r') : false;
+        if ($handle === false) {
+            throw new \RuntimeException('Unable to open the import file.');
+        }
+
+        return $handle;
+    }
+
+    /**
+     * Strip the line break, a UTF-8 BOM on the first line and invalid bytes.
+     *
+     * @param string $line
+     * @param int $lineNumber
+     * @return string
+     */
+    private function cleanLine(string $line, int $lineNumber): string
+    {
+        $line = rtrim($line, "\r\n");
+        if ($lineNumber === 1 && str_starts_with($line, "\xEF\xBB\xBF")) {
+            $line = substr($line, 3);
+        }
+
+        return mb_check_encoding($line, 'UTF-8') ? $line : mb_convert_encoding($line, 'UTF-8', 'Windows-1252');
+    }
+
+    /**
+     * @param array<int, string> $lines
+     * @param string $fileName
+     * @return string
+     */
+    private function detectFormat(array $lines, string $fileName): string
+    {
+        $zktecoLines = count(array_filter($lines, fn (string $line) => preg_match(self::ZKTECO_LINE, $line) === 1));
+        if ($zktecoLines >= count($lines) * 0.8
+            || (strtolower(pathinfo($fileName, PATHINFO_EXTENSION)) === 'dat' && $zktecoLines > 0)) {
+            return 'zkteco_dat';
+        }
+
+        return $this->detectDelimiter($lines) !== null ? 'delimited' : 'fixed_width';
+    }
+
+    /**
+     * The separator that splits every sample line into the same number of fields.
+     *
+     * @param array<int, string> $lines
+     * @return string|null
+     */
+    private function detectDelimiter(array $lines): ?string
+    {
+        $sample = array_slice($lines, 0, 50);
+
+        foreach (self::DELIMITERS as $delimiter) {
+            $counts = array_unique(array_map(fn (string $line) => count(str_getcsv($line, $delimiter)), $sample));
+            if (count($counts) === 1 && reset($counts) > 1) {
+                return $delimiter;
+            }
+        }
+
+        return null;
+    }
+
+    /**
+     * A header line has no date or time values while the next line does.
+     *
+     * @param array<int, string> $lines
+     * @param string $delimiter
+     * @return bool
+     */
+    private function looksLikeHeader(array $lines, string $delimiter): bool
+    {
+        if (count($lines) < 2) {
+            return false;
+        }
+
+        $hasTemporal = fn (string $line) => collect(str_getcsv($line, $delimiter))
+            ->contains(fn (string $value) => $this->valueShape(trim($value)) !== null);
+
+        return !$hasTemporal($lines[0]) && $hasTemporal($lines[1]);
+    }
+
+    /**
+     * @param array<int, string> $lines
+     * @param array $mapping
+     * @return array<int, array{index: int, label: string, start: int|null, length: int|null, values: array<int, string>}>
+     */
+    private function describeColumns(array $lines, array $mapping): array
+    {
+        $lines = array_slice($lines, (int) ($mapping['skip_lines'] ?? 0));
+        $this->headerLabels = [];
+        if (!empty($mapping['has_header']) && $lines !== []) {
+            $this->headerLabels = array_map('trim', $this->split(array_shift($lines), $mapping) ?? []);
+        }
+
+        if ($mapping['format'] === 'fixed_width') {
+            return $this->describeSegments($lines);
+        }
+
+        $rows = array_map(fn (string $line) => $this->split($line, $mapping), $lines);
+        $width = $rows === [] ? 0 : max(array_map('count', $rows));
+        $labels = $this->labels($mapping, $width);
+
+        $columns = [];
+        for ($i = 0; $i < $width; $i++) {
+            $columns[] = [
+                'index' => $i,
+                'label' => $labels[$i],
+                'start' => null,
+                'length' => null,
+                'values' => $this->distinct(array_map(fn (array $fields) => trim($fields[$i] ?? ''), $rows)),
+            ];
+        }
+
+        return $columns;
+    }
+
+    /**
+     * Split fixed-width lines on the character positions that are blank in every line.
+     *
+     * @param array<int, string> $lines
+     * @return array<int, array{index: int, label: string, start: int, length: int, values: array<int, string>}>
+     */
+    private function describeSegments(array $lines): array
+    {
+        $width = max(array_map('strlen', $lines ?: ['']));
+        $occupied = array_fill(0, $width, false);
+        foreach ($lines as $line) {
+            for ($i = 0, $length = strlen($line); $i < $length; $i++) {
+                if ($line[$i] !== ' ') {
+                    $occupied[$i] = true;
+                }
+            }
+        }
+
+        $columns = [];
+        $start = null;
+        for ($i = 0; $i <= $width; $i++) {
+            $filled = $occupied[$i] ?? false;
+            if ($filled && $start === null) {
+                $start = $i;
+            } elseif (!$filled && $start !== null) {
+                $columns[] = [
+                    'index' => count($columns),
+                    'label' => 'Chars ' . ($start + 1) . '-' . $i,
+                    'start' => $start,
+                    'length' => $i - $start,
+                    'values' => $this->distinct(array_map(fn (string $line) => trim(substr($line, $start, $i - $start)), $lines)),
+                ];
+                $start = null;
+            }
+        }
+
+        return $columns;
+    }
+
+    /**
+     * @param array<int, string> $values
+     * @return array<int, string>
+     */
+    private function distinct(array $values): array
+    {
+        return array_slice(array_values(array_unique(array_filter($values, fn (string $value) => $value !== ''))), 0, self::MAX_DISTINCT_VALUES);
+    }
+
+    /**
+     * @param string $value
+     * @return string|null timestamp, date, time or null
+     */
+    private function valueShape(string $value): ?string
+    {
+        return match (true) {
+            preg_match(self::DATE_TIME_VALUE, $value) === 1 => 'timestamp',
+            preg_match(self::DATE_VALUE, $value) === 1 => 'date',
+            preg_match(self::TIME_VALUE, $value) === 1 => 'time',
+            default => null,
+        };
+    }
+
+    /**
+     * Suggest a column per field from header names, then from value shapes.
+     *
+     * @param array $columns
+     * @param array $mapping
+     * @return array<string, array|null>
+     */
+    private function suggestColumns(array $columns, array $mapping): array
+    {
+        $spec = fn (array $column) => $mapping['format'] === 'fixed_width'
+            ? ['start' => $column['start'], 'length' => $column['length']]
+            : ['index' => $column['index']];
+        $suggested = array_fill_keys(self::FIELDS, null);
+
+        if ($mapping['format'] === 'zkteco_dat') {
+            $suggested['employee_number'] = ['index' => 0];
+            $suggested['timestamp'] = ['index' => 1];
+            $suggested['device'] = count($columns) > 2 ? ['index' => 2] : null;
+            $suggested['event_type'] = count($columns) > 3 ? ['index' => 3] : null;
+
+            return $suggested;
+        }
+
+        $taken = [];
+        $assign = function (string $field, array $column) use (&$suggested, &$taken, $spec) {
+            if ($suggested[$field] === null && !in_array($column['index'], $taken, true)) {
+                $suggested[$field] = $spec($column);
+                $taken[] = $column['index'];
+            }
+        };
+
+        foreach ($columns as $column) {
+            $shape = $this->valueShape($column['values'][0] ?? '');
+            if ($shape !== null) {
+                $assign($shape, $column);
+            }
+        }
+
+        if (!empty($mapping['has_header'])) {
+            foreach (['employee_number', 'event_type', 'device'] as $field) {
+                foreach ($columns as $column) {
+                    if (preg_match(self::HEADER_HINTS[$field], $column['label'])) {
+                        $assign($field, $column);
+                    }
+                }
+            }
+        }
+
+        foreach ($columns as $column) {
+            $codes = array_map(fn (string $value) => $this->guessEventType($value), $column['values']);
+            if ($column['values'] !== [] && !in_array(null, $codes, true)) {
+                $assign('event_type', $column);
+            }
+        }
+
+        foreach ($columns as $column) {
+            $assign('employee_number', $column);
+        }
+
+        if ($suggested['timestamp'] !== null) {
+            $suggested['date'] = $suggested['time'] = null;
+        }
+
+        return $suggested;
+    }
+
+    /**
+     * @param array $columns
+     * @param array $mapping
+     * @return array<string, string>
+     */
+    private function suggestEventCodes(array $columns, array $mapping): array
+    {
+        $column = $this->columnFor($columns, $mapping['columns']['event_type']);
+        if ($column === null) {
+            return $mapping['format'] === 'zkteco_dat' ? self::ZKTECO_EVENT_CODES : [];
+        }
+
+        $codes = [];
+        foreach ($column['values'] as $value) {
+            $type = $mapping['format'] === 'zkteco_dat'
+                ? (self::ZKTECO_EVENT_CODES[$value] ?? null)
+                : $this->guessEventType($value);
+            if ($type !== null) {
+                $codes[$value] = $type;
+            }
+        }
+
+        return $codes;
+    }
+
+    /**
+     * Device codes that already are device IDs map to themselves.
+     *
+     * @param array $columns
+     * @param array $mapping
+     * @return array<string, string>
+     */
+    private function suggestDeviceCodes(array $columns, array $mapping): array
+    {
+        $column = $this->columnFor($columns, $mapping['columns']['device']);
+        if ($column === null) {
+            return [];
+        }
+
+        $known = RfidDevice::whereIn('device_id', $column['values'])->pluck('device_id')->all();
+
+        return array_combine($known, $known) ?: [];
+    }
+
+    /**
+     * @param array $columns
+     * @param array|null $spec
+     * @return array|null
+     */
+    private function columnFor(array $columns, ?array $spec): ?array
+    {
+        if ($spec === null) {
+            return null;
+        }
+
+        foreach ($columns as $column) {
+            if (isset($spec['index']) ? $column['index'] === $spec['index'] : $column['start'] === ($spec['start'] ?? null)) {
+                return $column;
+            }
+        }
+
+        return null;
+    }
+
+    /**
+     * @param string $value
+     * @return string|null
+     */
+    private function guessEventType(string $value): ?string
+    {
+        $normalized = preg_replace('/[^a-z]/', '', strtolower($value));
+
+        return match ($normalized) {
+            'timein', 'in', 'checkin', 'cin', 'i', 'login' => 'time_in',
+            'timeout', 'out', 'checkout', 'cout', 'o', 'logout' => 'time_out',
+            'breakstart', 'breakout', 'bout' => 'break_start',
+            'breakend', 'breakin', 'bin' => 'break_end',
+            'overtimestart', 'overtimein', 'otin', 'otstart' => 'overtime_start',
+            'overtimeend', 'overtimeout', 'otout', 'otend' => 'overtime_end',
+            default => null,
+        };
+    }
+
+    /**
+     * @param string $value
+     * @param string|null $format
+     * @return Carbon|null
+     */
+    private function parseTimestamp(string $value, ?string $format): ?Carbon
+    {
+        if ($value === '') {
+            return null;
+        }
+
+        // Without a reset, fields the format leaves out (e.g. seconds) come from the current time
+        if ($format && !str_starts_with($format, '!') && !str_contains($format, '|')) {
+            $format = '!' . $format;
+        }
+
+        try {
+            $time = $format ? Carbon::createFromFormat($format, $value) : Carbon::parse($value);
+        } catch (\Exception) {
+            return null;
+        }
+
+        return $time ?: null;
+    }
+}
@@ -0,0 +1,372 @@
+<?php
+
+namespace App\Services\Timekeeping;
+
+use App\Models\AttendanceCorrection;
+use App\Models\AttendanceEvent;
+use App\Models\DailyAttendanceSummary;
+use App\Models\Employee;
+use App\Models\ShiftAssignment;
+use Carbon\Carbon;
+use Illuminate\Support\Collection;
+
+/**
+ * AttendanceReconstructionService
+ *
+ * Reconstructs daily attendance summaries as they stood at an earlier moment,
+ * to explain why a payslip line changed between payroll runs.
+ *
+ * daily_attendance_summary rows are overwritten in place, so the past state is
+ * rebuilt from its inputs instead:
+ * - attendance events known at the time (created_at <= as_of), using the
+ *   original_time of events corrected afterwards
+ * - approved attendance corrections processed by then (processed_at <= as_of)
+ *
+ * Each later input is then replayed one at a time, recording which summary
+ * values it changed. Events are grouped by the work date they are attributed
+ * to, as when the summaries are generated.
+ */
+class AttendanceReconstructionService
+{
+    /**
+     * Summary values compared between states.
+     */
+    private const TRACKED_FIELDS = [
+        'status',
+        'time_in',
+        'time_out',
+        'break_duration',
+        'late_minutes',
+        'undertime_minutes',
+        'total_hours_worked',
+        'regular_hours',
+        'overtime_hours',
+    ];
+
+    /**
+     * Correction fields and the event type each one overrides.
+     */
+    private const CORRECTION_FIELDS = [
+        'corrected_time_in' => 'time_in',
+        'corrected_time_out' => 'time_out',
+        'corrected_break_start' => 'break_start',
+        'corrected_break_end' => 'break_end',
+    ];
+
+    public function __construct(
+        private AttendanceSummaryService $summaryService,
+        private ShiftPunchPairingService $pairing
+    ) {
+    }
+
+    /**
+     * Reconstruct summaries for employees over a date range as of a moment.
+     *
+     * @param Collection $employees Employees (with profile and department loaded)
+     * @param Carbon $dateFrom First attendance date
+     * @param Carbon $dateTo Last attendance date
+     * @param Carbon $asOf Moment to reconstruct
+     * @return array One row per employee-day that has events, corrections or a stored summary
+     */
+    public function reconstruct(Collection $employees, Carbon $dateFrom, Carbon $dateTo, Carbon $asOf): array
+    {
+        $employeeIds = $employees->pluck('id');
+
+        $events = AttendanceEvent::with('correctedByUser:id,name')
+            ->whereIn('employee_id', $employeeIds)
+            ->whereBetween('event_date', [$dateFrom->copy()->subDay()->toDateString(), $dateTo->copy()->addDay()->toDateString()])
+            ->orderBy('event_time')
+            ->get();
+
+        $assignments = $this->pairing->assignments($employeeIds, $dateFrom->copy()->subDay(), $dateTo->copy()->addDay());
+        $workDates = $this->pairing->attribute($events, $assignments);
+
+        $corrections = AttendanceCorrection::with(['requestedBy:id,name', 'approvedBy:id,name'])
+            ->whereIn('attendance_event_id', $events->pluck('id'))
+            ->where('status', 'approved')
+            ->whereNotNull('processed_at')
+            ->orderBy('processed_at')
+            ->get()
+            ->groupBy('attendance_event_id');
+
+        $stored = DailyAttendanceSummary::whereIn('employee_id', $employeeIds)
+            ->whereBetween('attendance_date', [$dateFrom->toDateString(), $dateTo->toDateString()])
+            ->get()
+            ->keyBy(fn (DailyAttendanceSummary $summary) => $summary->employee_id . '|' . $summary->attendance_date->toDateString());
+
+        $eventsByDay = $events->groupBy(fn (AttendanceEvent $event) => $event->employee_id . '|' . $workDates->get($event->id));
+
+        $rows = [];
+        foreach ($employees as $employee) {
+            for ($date = $dateFrom->copy(); $date->lte($dateTo); $date->addDay()) {
+                $key = $employee->id . '|' . $date->toDateString();
+                $dayEvents = $eventsByDay->get($key, collect());
+                $storedSummary = $stored->get($key);
+
+                if ($dayEvents->isEmpty() && !$storedSummary) {
+                    continue;
+                }
+
+                $dayCorrections = $dayEvents
+                    ->flatMap(fn (AttendanceEvent $event) => $corrections->get($event->id, collect()))
+                    ->sortBy('processed_at')
+                    ->values();
+
+                $rows[] = $this->reconstructDay($employee, $date->copy(), $dayEvents, $dayCorrections, $storedSummary, $assignments->get($key), $asOf);
+            }
+        }
+
+        return $rows;
+    }
+
+    /**
+     * Reconstruct one employee-day and explain every change after the moment.
+     *
+     * @param Employee $employee
+     * @param Carbon $date
+     * @param Collection $events Attendance events of the day
+     * @param Collection $corrections Approved corrections of those events
+     * @param DailyAttendanceSummary|null $stored Current stored summary
+     * @param ShiftAssignment|null $assignment Shift the events were paired against
+     * @param Carbon $asOf
+     * @return array
+     */
+    private function reconstructDay(
+        Employee $employee,
+        Carbon $date,
+        Collection $events,
+        Collection $corrections,
+        ?DailyAttendanceSummary $stored,
+        ?ShiftAssignment $assignment,
+        Carbon $asOf
+    ): array {
+        $asOfState = $this->stateAt($employee->id, $date, $events, $corrections, $assignment, $asOf);
+
+        $previous = $asOfState;
+        $laterChanges = [];
+        foreach ($this->changes($events, $corrections)->filter(fn (array $change) => $change['at']->gt($asOf)) as $change) {
+            $state = $this->stateAt($employee->id, $date, $events, $corrections, $assignment, $change['at']);
+            $laterChanges[] = [
+                'type' => $change['type'],
+                'at' => $change['at']->toISOString(),
+                'description' => $change['description'],
+                'actor' => $change['actor'],
+                'reference' => $change['reference'],
+                'changed_fields' => $this->diff($previous, $state),
+            ];
+            $previous = $state;
+        }
+
+        $current = $previous;
+        $storedState = $stored ? $this->snapshot($stored->toArray()) : null;
+
+        return [
+            'employee' => [
+                'id' => $employee->id,
+                'employee_number' => $employee->employee_number,
+                'name' => $employee->profile ? trim("{$employee->profile->first_name} {$employee->profile->last_name}") : null,
+                'department' => $employee->department?->name,
+            ],
+            'attendance_date' => $date->toDateString(),
+            'events_known_at_as_of' => $events->filter(fn (AttendanceEvent $event) => $this->knownAt($event, $asOf))->count(),
+            'as_of' => $asOfState,
+            'current' => $current,
+            'changed_since_as_of' => $this->diff($asOfState, $current) !== [],
+            'later_changes' => $laterChanges,
+            'stored' => $storedState ? $storedState + [
+                'calculated_at' => $stored->calculated_at?->toISOString(),
+                'is_finalized' => (bool) $stored->is_finalized,
+            ] : null,
+            // Stored rows are only refreshed on recalculation, so they can lag behind
+            'stored_matches_current' => $storedState === null || $this->diff($storedState, $current) === [],
+        ];
+    }
+
+    /**
+     * Summary state computed from the inputs known at a moment.
+     *
+     * @param int $employeeId
+     * @param Carbon $date
+     * @param Collection $events
+     * @param Collection $corrections
+     * @param ShiftAssignment|null $assignment
+     * @param Carbon $at
+     * @return array
+     */
+    private function stateAt(int $employeeId, Carbon $date, Collection $events, Collection $corrections, ?ShiftAssignment $assignment, Carbon $at): array
+    {
+        $window = $assignment ? $this->pairing->window($assignment) : null;
+
+        $known = $events
+            ->filter(fn (AttendanceEvent $event) => $this->knownAt($event, $at))
+            ->map(fn (AttendanceEvent $event) => (object) [
+                'event_type' => $event->event_type,
+                'event_time' => $event->is_corrected && $event->original_time && (!$event->corrected_at || $event->corrected_at->gt($at))
+                    ? $event->original_time
+                    : $event->event_time,
+            ]);
+
+        foreach ($corrections->filter(fn (AttendanceCorrection $correction) => $correction->processed_at->lte($at)) as $correction) {
+            foreach (self::CORRECTION_FIELDS as $field => $eventType) {
+                if (!$correction->{$field}) {
+                    continue;
+                }
+                $correctedTime = Carbon::parse($date->toDateString() . ' ' . $correction->{$field});
+                // Corrected times of an overnight shift before its window opens are after midnight
+                if ($window && $window['crosses_midnight'] && $correctedTime->lt($window['opens_at'])) {
+                    $correctedTime->addDay();
+                }
+                $known = $known->reject(fn ($event) => $event->event_type === $eventType)->push((object) [
+                    'event_type' => $eventType,
+                    'event_time' => $correctedTime,
+                ]);
+            }
+        }
+
+        $known = $known->sortBy(fn ($event) => Carbon::parse($event->event_time)->getTimestamp())->values();
+
+        $summary = $this->summaryService->applyBusinessRules(
+            $this->summaryService->computeSummaryFromEvents($employeeId, $date, $known, $assignment),
+            $date
+        );
+
+        return $this->snapshot($summary);
+    }
+
+    /**
+     * Whether an event had been recorded by a moment.
+     *
+     * @param AttendanceEvent $event
+     * @param Carbon $at
+     * @return bool
+     */
+    private function knownAt(AttendanceEvent $event, Carbon $at): bool
+    {
+        return !$event->created_at || $event->created_at->lte($at);
+    }
+
+    /**
+     * Every input that changed the day, in the order it took effect.
+     *
+     * @param Collection $events
+     * @param Collection $corrections
+     * @return Collection
+     */
+    private function changes(Collection $events, Collection $corrections): Collection
+    {
+        $changes = collect();
+
+        foreach ($events as $event) {
+            $recordedTime = ($event->is_corrected && $event->original_time) ? $event->original_time : $event->event_time;
+
+            if ($event->created_at) {
+                $changes->push([
+                    'type' => 'event_recorded',
+                    'at' => $event->created_at,
+                    'description' => sprintf(
+                        '%s at %s recorded (%s%s)',
+                        str_replace('_', ' ', $event->event_type),
+                        $recordedTime->format('H:i:s'),
+                        str_replace('_', ' ', $event->source),
+                        $event->ledger_sequence_id ? ", ledger #{$event->ledger_sequence_id}" : ''
+                    ),
+                    'actor' => null,
+                    'reference' => ['attendance_event_id' => $event->id, 'ledger_sequence_id' => $event->ledger_sequence_id],
+                ]);
+            }
+
+            if ($event->is_corrected && $event->corrected_at) {
+                $changes->push([
+                    'type' => 'event_corrected',
+                    'at' => $event->corrected_at,
+                    'description' => sprintf(
+                        '%s corrected from %s to %s%s',
+                        str_replace('_', ' ', $event->event_type),
+                        $event->original_time?->format('H:i:s') ?? 'none',
+                        $event->event_time->format('H:i:s'),
+                        $event->correction_reason ? ": {$event->correction_reason}" : ''
+                    ),
+                    'actor' => $event->correctedByUser?->name,
+                    'reference' => ['attendance_event_id' => $event->id],
+                ]);
+            }
+        }
+
+        foreach ($corrections as $correction) {
+            $fields = collect(self::CORRECTION_FIELDS)
+                ->filter(fn (string $eventType, string $field) => (bool) $correction->{$field})
+                ->map(fn (string $eventType, string $field) => str_replace('_', ' ', $eventType) . ' ' . $correction->{$field})
+                ->implode(', ');
+
+            $changes->push([
+                'type' => 'correction_approved',
+                'at' => $correction->processed_at,
+                'description' => sprintf(
+                    'Correction #%d approved (%s): %s',
+                    $correction->id,
+                    str_replace('_', ' ', $correction->correction_reason),
+                    $fields ?: 'no time changes'
+                ),
+                'actor' => $correction->approvedBy?->name,
+                'reference' => [
+                    'attendance_correction_id' => $correction->id,
+                    'requested_by' => $correction->requestedBy?->name,
+                    'justification' => $correction->justification,
+                ],
+            ]);
+        }
+
+        return $changes->sortBy(fn (array $change) => $change['at']->getTimestamp())->values();
+    }
+
+    /**
+     * Tracked summary values, normalized for comparison.
+     *
+     * @param array $summary Computed summary or stored summary attributes
+     * @return array
+     */
+    private function snapshot(array $summary): array
+    {
+        $time = fn ($value) => $value ? Carbon::parse($value)->format('Y-m-d H:i:s') : null;
+        $number = fn ($value) => $value === null ? null : round((float) $value, 2);
+
+        return [
+            'status' => match (true) {
+                !empty($summary['is_on_leave']) => 'on_leave',
+                empty($summary['is_present']) => 'absent',
+                !empty($summary['is_late']) => 'late',
+                !empty($summary['is_undertime']) => 'undertime',
+                !empty($summary['is_overtime']) => 'overtime',
+                default => 'present',
+            },
+            'time_in' => $time($summary['time_in'] ?? null),
+            'time_out' => $time($summary['time_out'] ?? null),
+            'break_duration' => isset($summary['break_duration']) ? (int) $summary['break_duration'] : null,
+            'late_minutes' => isset($summary['late_minutes']) ? (int) $summary['late_minutes'] : null,
+            'undertime_minutes' => isset($summary['undertime_minutes']) ? (int) $summary['undertime_minutes'] : null,
+            'total_hours_worked' => $number($summary['total_hours_worked'] ?? null),
+            'regular_hours' => $number($summary['regular_hours'] ?? null),
+            'overtime_hours' => $number($summary['overtime_hours'] ?? null),
+        ];
+    }
+
+    /**
+     * Tracked fields that differ between two states.
+     *
+     * @param array $from
+     * @param array $to
+     * @return array<string, array{from: mixed, to: mixed}>
+     */
+    private function diff(array $from, array $to): array
+    {
+        $changed = [];
+
+        foreach (self::TRACKED_FIELDS as $field) {
+            if (($from[$field] ?? null) !== ($to[$field] ?? null)) {
+                $changed[$field] = ['from' => $from[$field] ?? null, 'to' => $to[$field] ?? null];
+            }
+        }
+
+        return $changed;
+    }
+}
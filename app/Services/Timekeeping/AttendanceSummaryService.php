@@ -3,9 +3,9 @@
 namespace App\Services\Timekeeping;
 
 use App\Events\Timekeeping\AttendanceSummaryUpdated;
-use App\Models\AttendanceEvent;
 use App\Models\DailyAttendanceSummary;
 use App\Models\Employee;
+use App\Models\ShiftAssignment;
 use App\Models\WorkSchedule;
 use Carbon\Carbon;
 use Illuminate\Support\Collection;
@@ -22,6 +22,11 @@
  * - Absent: no time_in event by scheduled end time
  * - Overtime: time_out > scheduled_end + overtime_threshold
  * - Present: employee clocked in within grace period
+ *
+ * Punches are attributed to work dates by ShiftPunchPairingService, so a night
+ * shift's time out after midnight counts toward the day its shift started.
+ * Worked minutes inside the night differential window are split out by
+ * NightDifferentialService for payroll's night premium.
  */
 class AttendanceSummaryService
 {
@@ -37,11 +42,24 @@ class AttendanceSummaryService
      */
     const OVERTIME_THRESHOLD_MINUTES = 0;
 
+    private ShiftPunchPairingService $pairing;
+
+    private NightDifferentialService $nightDifferential;
+
+    public function __construct(
+        ?ShiftPunchPairingService $pairing = null,
+        ?NightDifferentialService $nightDifferential = null
+    ) {
+        $this->pairing = $pairing ?? new ShiftPunchPairingService();
+        $this->nightDifferential = $nightDifferential ?? new NightDifferentialService();
+    }
+
     /**
      * Task 5.3.1: Compute daily attendance summary for employee on specific date.
      * 
-     * Fetches all attendance events for the date, calculates time metrics,
-     * and determines attendance status (present, late, absent, etc).
+     * Fetches all attendance events attributed to the date (see
+     * ShiftPunchPairingService), calculates time metrics, and determines
+     * attendance status (present, late, absent, etc).
      * 
      * @param int $employeeId Employee ID
      * @param \Carbon\Carbon $date Attendance date
@@ -68,20 +86,37 @@ public function computeDailySummary(int $employeeId, Carbon $date): array
         $employee = Employee::findOrFail($employeeId);
 
         // Check events FIRST — so we never discard real scan data due to missing schedule
-        $events = AttendanceEvent::where('employee_id', $employeeId)
-            ->whereDate('event_date', $date)
-            ->orderBy('event_time', 'asc')
-            ->get();
+        $paired = $this->pairing->eventsForWorkDate($employeeId, $date);
 
+        return $this->computeSummaryFromEvents($employeeId, $date, $paired['events'], $paired['assignment']);
+    }
+
+    /**
+     * Compute a daily summary from a given set of events instead of the stored ones.
+     * 
+     * Used by point-in-time reconstruction, which replays the events and corrections
+     * known at an earlier moment. Events need event_type and event_time only.
+     * 
+     * When a shift assignment is given its shift times take precedence over the
+     * work schedule's, and its end falls on the next day for overnight shifts.
+     * 
+     * @param int $employeeId Employee ID
+     * @param \Carbon\Carbon $date Attendance date
+     * @param Collection $events Events attributed to the day, ordered by event_time
+     * @param \App\Models\ShiftAssignment|null $assignment Shift the events were paired against
+     * @return array Summary data, as computeDailySummary()
+     */
+    public function computeSummaryFromEvents(int $employeeId, Carbon $date, Collection $events, ?ShiftAssignment $assignment = null): array
+    {
         if ($events->isEmpty()) {
             // No events and we'll check schedule below; absent either way
             $workSchedule = $this->getWorkScheduleForDate($employeeId, $date);
-            return $this->buildEmptySummary($employeeId, $date, $workSchedule);
+            return $this->buildEmptySummary($employeeId, $date, $workSchedule, $assignment);
         }
 
         // Events exist — now get work schedule (may be null)
         $workSchedule = $this->getWorkScheduleForDate($employeeId, $date);
-        $needsScheduleReview = ($workSchedule === null);
+        $needsScheduleReview = ($workSchedule === null && $assignment === null);
 
         // Extract time_in and time_out from events
         $timeIn = $this->extractTimeIn($events);
@@ -89,14 +124,23 @@ public function computeDailySummary(int $employeeId, Carbon $date): array
         $breakDuration = $this->calculateBreakDuration($events);
 
         // Get scheduled start/end for this day (null when no schedule)
-        $scheduledStart = $workSchedule ? $this->getScheduledStart($workSchedule, $date) : null;
-        $scheduledEnd   = $workSchedule ? $this->getScheduledEnd($workSchedule, $date)   : null;
+        if ($assignment) {
+            $window = $this->pairing->window($assignment);
+            $scheduledStart = $window['start'];
+            $scheduledEnd   = $window['end'];
+        } else {
+            $scheduledStart = $workSchedule ? $this->getScheduledStart($workSchedule, $date) : null;
+            $scheduledEnd   = $workSchedule ? $this->getScheduledEnd($workSchedule, $date)   : null;
+        }
 
         // Build summary with time values
         $summary = [
             'employee_id'          => $employeeId,
             'attendance_date'      => $date->toDateString(),
             'work_schedule_id'     => $workSchedule?->id,
+            'shift_assignment_id'  => $assignment?->id,
+            'scheduled_start'      => $scheduledStart?->toDateTimeString(),
+            'scheduled_end'        => $scheduledEnd?->toDateTimeString(),
             'needs_schedule_review' => $needsScheduleReview,
             'time_in'              => $timeIn?->toDateTimeString(),
             'time_out'             => $timeOut?->toDateTimeString(),
@@ -104,6 +148,8 @@ public function computeDailySummary(int $employeeId, Carbon $date): array
             'total_hours_worked'   => null,
             'regular_hours'        => null,
             'overtime_hours'       => null,
+            'night_diff_minutes'   => 0,
+            'night_diff_overtime_minutes' => 0,
         ];
 
         // Calculate hours worked if both time_in and time_out exist
@@ -111,14 +157,22 @@ public function computeDailySummary(int $employeeId, Carbon $date): array
             $totalMinutes = $timeIn->diffInMinutes($timeOut) - $breakDuration;
             $totalHours   = $totalMinutes / 60;
             $summary['total_hours_worked'] = round($totalHours, 2);
+            $summary['night_diff_minutes'] = $this->nightDifferential->workedMinutes($timeIn, $timeOut, $this->breakSpans($events));
 
-            if ($workSchedule && $scheduledStart && $scheduledEnd) {
+            if ($scheduledStart && $scheduledEnd) {
                 // Split into regular vs overtime using schedule
                 $scheduledHours = $scheduledStart->diffInHours($scheduledEnd) - ($breakDuration / 60);
 
                 if ($totalHours > $scheduledHours) {
                     $summary['regular_hours']  = round($scheduledHours, 2);
                     $summary['overtime_hours'] = round($totalHours - $scheduledHours, 2);
+
+                    // Overtime is the tail of the day, so its night minutes are those of the last overtime hours
+                    $overtimeStart = $timeOut->copy()->subMinutes((int) round(($totalHours - $scheduledHours) * 60));
+                    $summary['night_diff_overtime_minutes'] = min(
+                        $summary['night_diff_minutes'],
+                        $this->nightDifferential->workedMinutes($overtimeStart->max($timeIn), $timeOut, $this->breakSpans($events))
+                    );
                 } else {
                     $summary['regular_hours']  = round($totalHours, 2);
                     $summary['overtime_hours'] = 0;
@@ -346,7 +400,11 @@ private function getScheduledEnd(?WorkSchedule $schedule, Carbon $date): ?Carbon
         if (isset($schedule->attributes[$endColumn])) {
             $endTime = $schedule->getAttribute($endColumn);
             if ($endTime) {
-                return $date->copy()->setTimeFromTimeString($endTime);
+                $end = $date->copy()->setTimeFromTimeString($endTime);
+                $start = $this->getScheduledStart($schedule, $date);
+
+                // Overnight schedules end on the next day
+                return $start && $end->lte($start) ? $end->addDay() : $end;
             }
         }
 
@@ -388,19 +446,35 @@ private function extractTimeOut(Collection $events): ?Carbon
     private function calculateBreakDuration(Collection $events): int
     {
         $breakDuration = 0;
+
+        foreach ($this->breakSpans($events) as [$breakStart, $breakEnd]) {
+            $breakDuration += $breakStart->diffInMinutes($breakEnd);
+        }
+
+        return $breakDuration;
+    }
+
+    /**
+     * Helper: Pair break_start/break_end events into break periods
+     * 
+     * @param Collection $events Attendance events for the day
+     * @return array<int, array{0: Carbon, 1: Carbon}> Break start/end pairs
+     */
+    private function breakSpans(Collection $events): array
+    {
+        $spans = [];
         $breakStart = null;
 
         foreach ($events as $event) {
             if ($event->event_type === 'break_start') {
                 $breakStart = Carbon::parse($event->event_time);
             } elseif ($event->event_type === 'break_end' && $breakStart) {
-                $breakEnd = Carbon::parse($event->event_time);
-                $breakDuration += $breakStart->diffInMinutes($breakEnd);
+                $spans[] = [$breakStart, Carbon::parse($event->event_time)];
                 $breakStart = null;
             }
         }
 
-        return $breakDuration;
+        return $spans;
     }
 
     /**
@@ -409,14 +483,16 @@ private function calculateBreakDuration(Collection $events): int
      * @param int $employeeId Employee ID
      * @param \Carbon\Carbon $date Attendance date
      * @param \App\Models\WorkSchedule|null $workSchedule Work schedule (optional)
+     * @param \App\Models\ShiftAssignment|null $assignment Shift assignment (optional)
      * @return array Empty summary with absent flags
      */
-    private function buildEmptySummary(int $employeeId, Carbon $date, ?WorkSchedule $workSchedule = null): array
+    private function buildEmptySummary(int $employeeId, Carbon $date, ?WorkSchedule $workSchedule = null, ?ShiftAssignment $assignment = null): array
     {
         return [
             'employee_id'           => $employeeId,
             'attendance_date'       => $date->toDateString(),
             'work_schedule_id'      => $workSchedule?->id,
+            'shift_assignment_id'   => $assignment?->id,
             'needs_schedule_review' => false,
             'time_in'               => null,
             'time_out'              => null,
@@ -424,6 +500,7 @@ private function buildEmptySummary(int $employeeId, Carbon $date, ?WorkSchedule
             'total_hours_worked'    => 0,
             'regular_hours'         => 0,
             'overtime_hours'        => 0,
+            'night_diff_minutes'    => 0,
             'is_present'            => false,
             'is_late'               => false,
             'is_undertime'          => false,
@@ -513,6 +590,7 @@ public function storeDailySummary(
             // Prepare data for storage - map computed summary to database columns
             $storageData = [
                 'work_schedule_id' => $summary['work_schedule_id'] ?? null,
+                'shift_assignment_id' => $summary['shift_assignment_id'] ?? null,
                 'time_in' => $summary['time_in'] ?? null,
                 'time_out' => $summary['time_out'] ?? null,
                 'break_start' => $summary['break_start'] ?? null,
@@ -520,6 +598,8 @@ public function storeDailySummary(
                 'total_hours_worked' => $summary['total_hours_worked'] ?? null,
                 'regular_hours' => $summary['regular_hours'] ?? null,
                 'overtime_hours' => $summary['overtime_hours'] ?? null,
+                'night_diff_minutes' => $summary['night_diff_minutes'] ?? 0,
+                'night_diff_overtime_minutes' => $summary['night_diff_overtime_minutes'] ?? 0,
                 'break_duration' => $summary['break_duration'] ?? null,
                 'is_present' => $summary['is_present'] ?? false,
                 'is_late' => $summary['is_late'] ?? false,
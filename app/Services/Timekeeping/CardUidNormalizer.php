@@ -0,0 +1,106 @@
+<?php
+
+namespace App\Services\Timekeeping;
+
+/**
+ * CardUidNormalizer
+ *
+ * Normalizes RFID card UIDs read in different formats so the same physical card
+ * is recognized regardless of how a reader reports it.
+ *
+ * Keyboard-wedge readers are configurable and commonly emit one of:
+ * - Hex bytes with separators: 04:3A:B2:C5 or 04-3A-B2-C5
+ * - Plain hex: 043AB2C5
+ * - Decimal ("plug-and-play" numeric IDs): 3317740292
+ * and may report the bytes in reverse order (little-endian).
+ *
+ * Mirrors resources/js/lib/rfid-uid.ts.
+ */
+class CardUidNormalizer
+{
+    /**
+     * Largest decimal UID converted to bytes (fits a signed 64-bit integer).
+     */
+    private const MAX_DECIMAL_DIGITS = 18;
+
+    /**
+     * Parse a UID into byte interpretations (uppercase hex strings, one per possible reading).
+     *
+     * Pure digits are read as decimal first, then as hex, since both are plausible.
+     *
+     * @param string $uid
+     * @return array<int, string> Hex strings without separators
+     */
+    public function interpretations(string $uid): array
+    {
+        $value = strtoupper(preg_replace('/\s+/', '', $uid));
+        $readings = [];
+
+        if (preg_match('/^[0-9A-F]{2}([:-][0-9A-F]{2})+$/', $value)) {
+            $readings[] = str_replace([':', '-'], '', $value);
+        } elseif (preg_match('/^\d+$/', $value)) {
+            if (strlen($value) <= self::MAX_DECIMAL_DIGITS) {
+                $readings[] = $this->decimalToHex($value);
+            }
+            $readings[] = $this->padHex($value);
+        } elseif (preg_match('/^[0-9A-F]+$/', $value)) {
+            $readings[] = $this->padHex($value);
+        }
+
+        return array_values(array_unique($readings));
+    }
+
+    /**
+     * Every textual form the same card may have been stored under.
+     *
+     * Covers both byte orders in colon, dash, plain hex and decimal notation,
+     * plus the input exactly as given (uppercased).
+     *
+     * @param string $uid
+     * @return array<int, string>
+     */
+    public function variants(string $uid): array
+    {
+        $variants = [strtoupper(trim($uid))];
+
+        foreach ($this->interpretations($uid) as $hex) {
+            $bytes = str_split($hex, 2);
+
+            foreach ([$bytes, array_reverse($bytes)] as $ordered) {
+                $plain = implode('', $ordered);
+                $variants[] = $plain;
+                $variants[] = implode(':', $ordered);
+                $variants[] = implode('-', $ordered);
+
+                if (strlen($plain) <= 14) {
+                    $variants[] = (string) hexdec($plain);
+                    $variants[] = str_pad((string) hexdec($plain), 10, '0', STR_PAD_LEFT);
+                }
+            }
+        }
+
+        return array_values(array_unique($variants));
+    }
+
+    /**
+     * Convert a decimal string to hex, padded to whole bytes (minimum 4 bytes).
+     *
+     * @param string $decimal
+     * @return string
+     */
+    private function decimalToHex(string $decimal): string
+    {
+        return str_pad($this->padHex(strtoupper(dechex((int) $decimal))), 8, '0', STR_PAD_LEFT);
+    }
+
+    /**
+     * Left-pad a hex string to an even number of characters.
+     *
+     * @param string $hex
+     * @return string
+     */
+    private function padHex(string $hex): string
+    {
+        return strlen($hex) % 2 === 0 ? $hex : '0' . $hex;
+    }
+}
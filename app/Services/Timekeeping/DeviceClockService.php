@@ -0,0 +1,259 @@
+<?php
+
+namespace App\Services\Timekeeping;
+
+use App\Models\AttendanceEvent;
+use App\Models\DailyAttendanceSummary;
+use App\Models\DeviceClockSample;
+use App\Models\LedgerAnnotation;
+use App\Models\RfidDevice;
+use App\Models\RfidLedger;
+use App\Models\User;
+use Carbon\Carbon;
+use Illuminate\Support\Collection;
+use Illuminate\Support\Facades\DB;
+use Illuminate\Support\Facades\Log;
+
+/**
+ * DeviceClockService
+ *
+ * Punch times are the device's wall-clock time, so a gate PC or kiosk whose
+ * clock drifts shifts every tap it records. Devices send their clock with each
+ * heartbeat (device_time); the difference from the server clock is kept on the
+ * device and sampled into device_clock_samples.
+ *
+ * A drift found after the fact is corrected by re-basing a window of the
+ * device's taps: the ledger is append-only, so the correction is written as a
+ * clock_correction LedgerAnnotation and applied to the attendance events
+ * derived from the window. Ledger entries in the window that are processed
+ * later pick up the offset in LedgerPollingService.
+ */
+class DeviceClockService
+{
+    /**
+     * Drift, either way, beyond which HR is alerted.
+     */
+    public const DRIFT_ALERT_SECONDS = 60;
+
+    /**
+     * Largest re-base allowed in one correction.
+     */
+    public const MAX_OFFSET_SECONDS = 86400;
+
+    /**
+     * Minutes between stored samples while the drift holds steady.
+     */
+    private const SAMPLE_INTERVAL_MINUTES = 15;
+
+    /**
+     * Change in drift that is sampled straight away.
+     */
+    private const SAMPLE_CHANGE_SECONDS = 5;
+
+    public function __construct(
+        private AttendanceSummaryService $summaries
+    ) {}
+
+    /**
+     * Measure the device's drift from the device_time of a heartbeat.
+     *
+     * Returns the rfid_devices columns to update. The alert marker is cleared
+     * once the clock is back within DRIFT_ALERT_SECONDS so a new drift alerts again.
+     *
+     * @param RfidDevice $device
+     * @param string $deviceTime Device local wall-clock time, as tapped_at
+     * @return array
+     */
+    public function measure(RfidDevice $device, string $deviceTime): array
+    {
+        $now = now();
+        $drift = (int) round($now->diffInSeconds(Carbon::parse($deviceTime), false));
+
+        $lastSample = DeviceClockSample::where('device_id', $device->device_id)
+            ->orderByDesc('sampled_at')
+            ->first();
+
+        if (!$lastSample
+            || $lastSample->sampled_at->lt($now->copy()->subMinutes(self::SAMPLE_INTERVAL_MINUTES))
+            || abs($lastSample->drift_seconds - $drift) >= self::SAMPLE_CHANGE_SECONDS) {
+            DeviceClockSample::create([
+                'device_id' => $device->device_id,
+                'drift_seconds' => $drift,
+                'sampled_at' => $now,
+            ]);
+        }
+
+        $updates = [
+            'clock_drift_seconds' => $drift,
+            'clock_checked_at' => $now,
+        ];
+
+        if (abs($drift) <= self::DRIFT_ALERT_SECONDS) {
+            $updates['clock_drift_alerted_at'] = null;
+        }
+
+        return $updates;
+    }
+
+    /**
+     * Whether the device's last measured drift exceeds the alert threshold.
+     */
+    public function isDrifting(RfidDevice $device): bool
+    {
+        return $device->clock_drift_seconds !== null
+            && abs($device->clock_drift_seconds) > self::DRIFT_ALERT_SECONDS;
+    }
+
+    /**
+     * Devices whose last measured drift exceeds the alert threshold.
+     *
+     * @return Collection<int, RfidDevice>
+     */
+    public function driftingDevices(): Collection
+    {
+        return RfidDevice::whereNotNull('clock_drift_seconds')
+            ->whereRaw('ABS(clock_drift_seconds) > ?', [self::DRIFT_ALERT_SECONDS])
+            ->orderBy('device_id')
+            ->get();
+    }
+
+    /**
+     * Re-base a window of a device's taps by an offset.
+     *
+     * Records the clock_correction annotation, moves the attendance events
+     * derived from the window (keeping their first original_time) and refreshes
+     * the daily summaries of the dates they moved between. Finalized summaries
+     * are left alone and counted. Corrections over the same window add up.
+     *
+     * @param RfidDevice $device
+     * @param Carbon $from Window start, device time
+     * @param Carbon $to Window end, device time
+     * @param int $offsetSeconds Seconds to add; negative for a clock that ran ahead
+     * @param string $reason
+     * @param User $user
+     * @return array{annotation: LedgerAnnotation, summaries_refreshed: int, summaries_finalized: int}
+     */
+    public function correct(RfidDevice $device, Carbon $from, Carbon $to, int $offsetSeconds, string $reason, User $user): array
+    {
+        if ($offsetSeconds === 0) {
+            throw new \InvalidArgumentException('The correction offset cannot be zero.');
+        }
+
+        if (abs($offsetSeconds) > self::MAX_OFFSET_SECONDS) {
+            throw new \InvalidArgumentException('A clock correction cannot move taps by more than a day.');
+        }
+
+        if ($to->lte($from)) {
+            throw new \InvalidArgumentException('The correction window must end after it starts.');
+        }
+
+        [$annotation, $touched] = DB::transaction(function () use ($device, $from, $to, $offsetSeconds, $reason, $user) {
+            $window = RfidLedger::where('device_id', $device->device_id)
+                ->whereBetween('scan_timestamp', [$from, $to]);
+
+            $range = (clone $window)
+                ->selectRaw('MIN(sequence_id) as first_id, MAX(sequence_id) as last_id, COUNT(*) as entries')
+                ->first();
+
+            $annotation = LedgerAnnotation::create([
+                'device_id' => $device->device_id,
+                'type' => LedgerAnnotation::TYPE_CLOCK_CORRECTION,
+                'window_start' => $from,
+                'window_end' => $to,
+                'offset_seconds' => $offsetSeconds,
+                'first_sequence_id' => $range?->first_id,
+                'last_sequence_id' => $range?->last_id,
+                'ledger_entries' => (int) ($range?->entries ?? 0),
+                'reason' => $reason,
+                'created_by' => $user->id,
+            ]);
+
+            $events = AttendanceEvent::where('device_id', $device->device_id)
+                ->whereIn('ledger_sequence_id', (clone $window)->select('sequence_id'))
+                ->lockForUpdate()
+                ->get();
+
+            $touched = [];
+            foreach ($events as $event) {
+                $touched[$event->employee_id . '|' . $event->event_date->toDateString()] = [$event->employee_id, $event->event_date->toDateString()];
+
+                $eventTime = $event->event_time->copy()->addSeconds($offsetSeconds);
+                $event->update([
+                    'event_time' => $eventTime,
+                    'event_date' => $eventTime->toDateString(),
+                    'is_corrected' => true,
+                    'original_time' => $event->original_time ?? $event->event_time,
+                    'correction_reason' => self::correctionReason($annotation),
+                    'corrected_by' => $user->id,
+                    'corrected_at' => now(),
+                ]);
+
+                $touched[$event->employee_id . '|' . $eventTime->toDateString()] = [$event->employee_id, $eventTime->toDateString()];
+            }
+
+            $annotation->update(['events_corrected' => $events->count()]);
+
+            return [$annotation, array_values($touched)];
+        });
+
+        return ['annotation' => $annotation] + $this->refreshSummaries($touched);
+    }
+
+    /**
+     * Correction reason written on attendance events re-based by an annotation.
+     */
+    public static function correctionReason(LedgerAnnotation $annotation): string
+    {
+        return sprintf(
+            'Clock correction #%d: %+ds on %s (%s)',
+            $annotation->id,
+            $annotation->offset_seconds,
+            $annotation->device_id,
+            $annotation->reason
+        );
+    }
+
+    /**
+     * Recompute the stored daily summaries of the given employee dates.
+     *
+     * Dates without a summary yet are left to the nightly generation.
+     *
+     * @param array<int, array{0: int, 1: string}> $employeeDates
+     * @return array{summaries_refreshed: int, summaries_finalized: int}
+     */
+    private function refreshSummaries(array $employeeDates): array
+    {
+        $refreshed = 0;
+        $finalized = 0;
+
+        foreach ($employeeDates as [$employeeId, $date]) {
+            $existing = DailyAttendanceSummary::where('employee_id', $employeeId)
+                ->whereDate('attendance_date', $date)
+                ->first();
+
+            if (!$existing) {
+                continue;
+            }
+
+            if ($existing->is_finalized) {
+                $finalized++;
+                continue;
+            }
+
+            try {
+                $summary = $this->summaries->computeDailySummary($employeeId, Carbon::parse($date));
+                $summary = $this->summaries->applyBusinessRules($summary, Carbon::parse($date));
+                $this->summaries->storeDailySummary($summary);
+                $refreshed++;
+            } catch (\Exception $e) {
+                Log::warning('Clock correction: summary refresh failed', [
+                    'employee_id' => $employeeId,
+                    'date' => $date,
+                    'error' => $e->getMessage(),
+                ]);
+            }
+        }
+
+        return ['summaries_refreshed' => $refreshed, 'summaries_finalized' => $finalized];
+    }
+}
@@ -0,0 +1,152 @@
+<?php
+
+namespace App\Services\Timekeeping;
+
+use App\Models\DeviceCommand;
+use App\Models\RfidDevice;
+use App\Models\User;
+use Illuminate\Support\Facades\DB;
+
+/**
+ * DeviceCommandService
+ *
+ * Remote commands for RFID gate PCs and kiosks. Devices have no inbound
+ * connection, so commands are queued here and handed over in the response to
+ * the device's next heartbeat (every 30 s on a gate PC, 60 s on a kiosk). The
+ * device then reports the outcome through POST /rfid/commands/{id}/ack.
+ *
+ * - force_sync:        drain the local tap buffer now
+ * - restart_service:   restart the reader service (gate PC) or reload the page (kiosk)
+ * - clear_photo_cache: drop cached employee photos
+ * - push_config:       change heartbeat_interval and/or display_text at runtime
+ * - rotate_key:        hand the device a new API key; the old key keeps working
+ *                      until the device first authenticates with the new one,
+ *                      so a lost acknowledgement response never locks it out
+ *
+ * A command not acknowledged by its expires_at is marked timed_out.
+ */
+class DeviceCommandService
+{
+    /**
+     * Minutes a device has to acknowledge a command.
+     */
+    public const TIMEOUT_MINUTES = 10;
+
+    /**
+     * Queue a command for a device.
+     *
+     * @param RfidDevice $device
+     * @param string $command One of DeviceCommand::COMMANDS
+     * @param array $payload Command arguments (push_config values)
+     * @param User $issuedBy
+     * @return DeviceCommand
+     */
+    public function issue(RfidDevice $device, string $command, array $payload, User $issuedBy): DeviceCommand
+    {
+        return DeviceCommand::create([
+            'device_id' => $device->device_id,
+            'command' => $command,
+            'payload' => $payload ?: null,
+            'secret' => $command === 'rotate_key' ? bin2hex(random_bytes(32)) : null,
+            'status' => 'pending',
+            'issued_by' => $issuedBy->id,
+            'expires_at' => now()->addMinutes(self::TIMEOUT_MINUTES),
+        ]);
+    }
+
+    /**
+     * Hand the device its pending commands, oldest first, and mark them delivered.
+     *
+     * @param RfidDevice $device
+     * @return array<int, array{id: int, command: string, payload: array}>
+     */
+    public function deliver(RfidDevice $device): array
+    {
+        $this->expireOverdue($device->device_id);
+
+        return DB::transaction(function () use ($device) {
+            $commands = DeviceCommand::where('device_id', $device->device_id)
+                ->where('status', 'pending')
+                ->orderBy('id')
+                ->lockForUpdate()
+                ->get();
+
+            return $commands->map(function (DeviceCommand $command) {
+                $command->update(['status' => 'delivered', 'delivered_at' => now()]);
+
+                $payload = $command->payload ?? [];
+                if ($command->command === 'rotate_key') {
+                    $payload['api_key'] = $command->secret;
+                }
+
+                return [
+                    'id' => $command->id,
+                    'command' => $command->command,
+                    'payload' => (object) $payload,
+                ];
+            })->values()->all();
+        });
+    }
+
+    /**
+     * Record the device's report on a command and apply its server-side effect.
+     *
+     * @param DeviceCommand $command
+     * @param bool $succeeded
+     * @param string|null $message
+     * @param array|null $details
+     * @return DeviceCommand
+     */
+    public function acknowledge(DeviceCommand $command, bool $succeeded, ?string $message = null, ?array $details = null): DeviceCommand
+    {
+        return DB::transaction(function () use ($command, $succeeded, $message, $details) {
+            $device = $command->device()->lockForUpdate()->firstOrFail();
+
+            if ($succeeded && $command->command === 'rotate_key') {
+                $device->update(['previous_api_key' => $device->api_key, 'api_key' => $command->secret]);
+            }
+
+            if ($succeeded && $command->command === 'push_config') {
+                $config = $device->config ?? [];
+                $config['pushed'] = array_merge($config['pushed'] ?? [], $command->payload ?? []);
+                $device->update(['config' => $config]);
+            }
+
+            $command->update([
+                'status' => $succeeded ? 'succeeded' : 'failed',
+                'acknowledged_at' => now(),
+                'result' => array_filter(['message' => $message, 'details' => $details], fn ($value) => $value !== null) ?: null,
+                'secret' => null,
+            ]);
+
+            return $command;
+        });
+    }
+
+    /**
+     * Cancel a command the device has not picked up yet.
+     *
+     * @param DeviceCommand $command
+     * @return DeviceCommand
+     */
+    public function cancel(DeviceCommand $command): DeviceCommand
+    {
+        $command->update(['status' => 'cancelled', 'secret' => null]);
+
+        return $command;
+    }
+
+    /**
+     * Mark open commands past their expires_at as timed out.
+     *
+     * @param string|null $deviceId Limit to one device
+     * @return int Number of commands timed out
+     */
+    public function expireOverdue(?string $deviceId = null): int
+    {
+        return DeviceCommand::open()
+            ->where('expires_at', '<', now())
+            ->when($deviceId, fn ($query) => $query->where('device_id', $deviceId))
+            ->update(['status' => 'timed_out', 'secret' => null, 'updated_at' => now()]);
+    }
+}
@@ -0,0 +1,372 @@
+<?php
+
+namespace App\Services\Timekeeping;
+
+use App\Models\LedgerAlert;
+use App\Models\LedgerAlertRule;
+use App\Models\LedgerHealthLog;
+use App\Models\RfidDevice;
+use App\Models\RfidLedger;
+use App\Models\ShiftAssignment;
+use App\Models\User;
+use App\Notifications\LedgerAlertNotification;
+use Carbon\Carbon;
+use Illuminate\Support\Collection;
+use Illuminate\Support\Facades\Log;
+use Illuminate\Support\Facades\Notification;
+
+/**
+ * LedgerAlertService
+ *
+ * Evaluates the admin-defined LedgerAlertRules against the ledger and device
+ * tables (timekeeping:evaluate-ledger-alerts, every minute). Each breach is
+ * tracked as one LedgerAlert per rule and subject:
+ *
+ * - a new breach raises an open alert and notifies the rule's recipients
+ * - a breach that clears resolves the alert, which stays as history
+ * - an acknowledged alert is not notified again while it stays active
+ * - a snoozed alert notifies again when the snooze ends if the breach is still there
+ *
+ * Alerts of rules that are disabled or deleted are resolved.
+ */
+class LedgerAlertService
+{
+    /**
+     * How early before a shift start taps count for the gate_silent metric.
+     */
+    private const SHIFT_LEAD_MINUTES = 30;
+
+    /**
+     * How long after a shift start a silent gate is still reported.
+     */
+    private const SHIFT_WATCH_MINUTES = 180;
+
+    /**
+     * Snooze lengths offered to reviewers, in minutes.
+     */
+    public const SNOOZE_OPTIONS = [15, 60, 240, 1440];
+
+    public function __construct(
+        private ShiftPunchPairingService $pairing
+    ) {
+    }
+
+    /**
+     * Evaluate every enabled rule.
+     *
+     * @return array{raised: int, renotified: int, resolved: int}
+     */
+    public function evaluate(): array
+    {
+        $counts = ['raised' => 0, 'renotified' => 0, 'resolved' => 0];
+        $now = now();
+
+        foreach (LedgerAlertRule::enabled()->get() as $rule) {
+            $breaches = $this->breaches($rule, $now);
+            $active = LedgerAlert::active()
+                ->where('ledger_alert_rule_id', $rule->id)
+                ->get()
+                ->keyBy('subject');
+
+            foreach ($breaches as $subject => $breach) {
+                $alert = $active->get($subject);
+
+                if (!$alert) {
+                    $alert = LedgerAlert::create([
+                        'ledger_alert_rule_id' => $rule->id,
+                        'rule_name' => $rule->name,
+                        'metric' => $rule->metric,
+                        'subject' => $subject,
+                        'severity' => $rule->severity,
+                        'status' => 'open',
+                        'message' => $breach['message'],
+                        'value' => $breach['value'],
+                        'context' => $breach['context'],
+                        'triggered_at' => $now,
+                        'last_seen_at' => $now,
+                    ]);
+                    $this->notify($alert, $rule);
+                    $counts['raised']++;
+                    continue;
+                }
+
+                $alert->fill([
+                    'severity' => $rule->severity,
+                    'message' => $breach['message'],
+                    'value' => $breach['value'],
+                    'context' => $breach['context'],
+                    'last_seen_at' => $now,
+                ]);
+
+                $snoozeOver = $alert->status === 'snoozed' && $alert->snoozed_until?->lte($now);
+                if ($snoozeOver) {
+                    $alert->fill(['status' => 'open', 'snoozed_until' => null]);
+                }
+                $alert->save();
+
+                if ($snoozeOver) {
+                    $this->notify($alert, $rule);
+                    $counts['renotified']++;
+                }
+            }
+
+            foreach ($active->except(array_keys($breaches)) as $alert) {
+                $alert->update(['status' => 'resolved', 'resolved_at' => $now, 'snoozed_until' => null]);
+                $counts['resolved']++;
+            }
+        }
+
+        $counts['resolved'] += LedgerAlert::active()
+            ->where(fn ($query) => $query->whereNull('ledger_alert_rule_id')
+                ->orWhereIn('ledger_alert_rule_id', LedgerAlertRule::where('is_enabled', false)->select('id')))
+            ->update(['status' => 'resolved', 'resolved_at' => $now, 'snoozed_until' => null]);
+
+        return $counts;
+    }
+
+    /**
+     * Acknowledge an active alert; it is not notified again while it stays active.
+     */
+    public function acknowledge(LedgerAlert $alert, User $user): LedgerAlert
+    {
+        if ($alert->status === 'resolved') {
+            throw new \InvalidArgumentException('This alert has already resolved.');
+        }
+
+        $alert->update([
+            'status' => 'acknowledged',
+            'acknowledged_by' => $user->id,
+            'acknowledged_at' => now(),
+            'snoozed_until' => null,
+        ]);
+
+        return $alert;
+    }
+
+    /**
+     * Hide an active alert for a while; it notifies again afterwards if still breaching.
+     */
+    public function snooze(LedgerAlert $alert, int $minutes, User $user): LedgerAlert
+    {
+        if ($alert->status === 'resolved') {
+            throw new \InvalidArgumentException('This alert has already resolved.');
+        }
+
+        if (!in_array($minutes, self::SNOOZE_OPTIONS, true)) {
+            throw new \InvalidArgumentException("Unsupported snooze length: {$minutes} minutes");
+        }
+
+        $alert->update([
+            'status' => 'snoozed',
+            'snoozed_by' => $user->id,
+            'snoozed_until' => now()->addMinutes($minutes),
+        ]);
+
+        return $alert;
+    }
+
+    /**
+     * Current breaches of a rule, keyed by subject.
+     *
+     * @param LedgerAlertRule $rule
+     * @param Carbon $now
+     * @return array<string, array{value: int, message: string, context: array}>
+     */
+    private function breaches(LedgerAlertRule $rule, Carbon $now): array
+    {
+        return match ($rule->metric) {
+            'backlog_depth' => $this->backlogBreaches($rule),
+            'processing_rate' => $this->processingRateBreaches($rule, $now),
+            'hash_failures' => $this->hashFailureBreaches($rule),
+            'device_offline' => $this->deviceOfflineBreaches($rule, $now),
+            'gate_silent_at_shift_start' => $this->silentGateBreaches($rule, $now),
+            default => [],
+        };
+    }
+
+    private function backlogBreaches(LedgerAlertRule $rule): array
+    {
+        $depth = RfidLedger::where('processed', false)->count();
+        if ($depth <= $rule->threshold) {
+            return [];
+        }
+
+        return ['ledger' => [
+            'value' => $depth,
+            'message' => "Processing backlog at {$depth} events (threshold {$rule->threshold})",
+            'context' => ['queue_depth' => $depth, 'threshold' => $rule->threshold],
+        ]];
+    }
+
+    /**
+     * A slow rate only matters while entries are waiting; a quiet night is not an alert.
+     */
+    private function processingRateBreaches(LedgerAlertRule $rule, Carbon $now): array
+    {
+        $depth = RfidLedger::where('processed', false)->count();
+        if ($depth === 0) {
+            return [];
+        }
+
+        $processed = RfidLedger::where('processed_at', '>=', $now->copy()->subHour())->count();
+        if ($processed >= $rule->threshold) {
+            return [];
+        }
+
+        return ['ledger' => [
+            'value' => $processed,
+            'message' => "Only {$processed} events processed in the last hour (threshold {$rule->threshold}) with {$depth} waiting",
+            'context' => ['processed_last_hour' => $processed, 'queue_depth' => $depth, 'threshold' => $rule->threshold],
+        ]];
+    }
+
+    private function hashFailureBreaches(LedgerAlertRule $rule): array
+    {
+        $failures = (int) LedgerHealthLog::whereDate('check_timestamp', today())->sum('hash_failure_count');
+        if ($failures < max(1, $rule->threshold)) {
+            return [];
+        }
+
+        return ['ledger' => [
+            'value' => $failures,
+            'message' => "{$failures} hash verification failure(s) recorded today",
+            'context' => ['hash_failures' => $failures, 'threshold' => $rule->threshold],
+        ]];
+    }
+
+    /**
+     * Devices in maintenance and devices that never sent a heartbeat are not reported.
+     */
+    private function deviceOfflineBreaches(LedgerAlertRule $rule, Carbon $now): array
+    {
+        return $this->watchedDevices($rule)
+            ->whereNotNull('last_heartbeat')
+            ->where('last_heartbeat', '<', $now->copy()->subMinutes($rule->threshold))
+            ->get()
+            ->mapWithKeys(function (RfidDevice $device) use ($now) {
+                $minutes = (int) $device->last_heartbeat->diffInMinutes($now, true);
+
+                return [$device->device_id => [
+                    'value' => $minutes,
+                    'message' => "{$device->device_id}" . ($device->location ? " ({$device->location})" : '') . " offline for {$minutes} minutes",
+                    'context' => [
+                        'device_id' => $device->device_id,
+                        'last_heartbeat' => $device->last_heartbeat->toISOString(),
+                    ],
+                ]];
+            })
+            ->all();
+    }
+
+    /**
+     * Gates with no taps since shortly before a shift start.
+     *
+     * Shift starts are taken from the pairing windows of yesterday's and
+     * today's assignments, so a night shift's start is still watched after
+     * midnight. A shift start is watched from threshold minutes after it until
+     * SHIFT_WATCH_MINUTES after it; the alert resolves when the gate records a tap.
+     */
+    private function silentGateBreaches(LedgerAlertRule $rule, Carbon $now): array
+    {
+        $shiftStarts = ShiftAssignment::whereBetween('date', [$now->copy()->subDay()->toDateString(), $now->toDateString()])
+            ->whereNotIn('status', ['cancelled'])
+            ->whereNotNull('shift_start')
+            ->whereNotNull('shift_end')
+            ->get()
+            ->map(fn (ShiftAssignment $assignment) => $this->pairing->window($assignment)['start'])
+            ->unique(fn (Carbon $start) => $start->toDateTimeString())
+            ->filter(fn (Carbon $start) => $now->gte($start->copy()->addMinutes($rule->threshold))
+                && $now->lt($start->copy()->addMinutes(self::SHIFT_WATCH_MINUTES)));
+
+        if ($shiftStarts->isEmpty()) {
+            return [];
+        }
+
+        $devices = $this->watchedDevices($rule)->get();
+        $breaches = [];
+
+        foreach ($shiftStarts as $start) {
+            foreach ($devices as $device) {
+                $tapped = RfidLedger::where('device_id', $device->device_id)
+                    ->where('scan_timestamp', '>=', $start->copy()->subMinutes(self::SHIFT_LEAD_MINUTES))
+                    ->exists();
+                if ($tapped) {
+                    continue;
+                }
+
+                $minutes = (int) $start->diffInMinutes($now, true);
+                $breaches[$device->device_id . '@' . $start->format('Y-m-d H:i')] = [
+                    'value' => $minutes,
+                    'message' => "No taps from {$device->device_id}" . ($device->location ? " ({$device->location})" : '')
+                        . " since the {$start->format('H:i')} shift start ({$minutes} minutes)",
+                    'context' => ['device_id' => $device->device_id, 'shift_start' => $start->toISOString()],
+                ];
+            }
+        }
+
+        return $breaches;
+    }
+
+    /**
+     * Devices a device metric watches: the rule's device, or every device not in maintenance.
+     */
+    private function watchedDevices(LedgerAlertRule $rule)
+    {
+        return RfidDevice::query()
+            ->where('status', '!=', 'maintenance')
+            ->when($rule->device_id, fn ($query) => $query->where('device_id', $rule->device_id));
+    }
+
+    /**
+     * Send an alert to the rule's recipients.
+     *
+     * Recipient users get it in-app and, when the email channel is on, by
+     * email; the rule's extra addresses get the email. A rule without
+     * recipients notifies HR Managers in-app.
+     */
+    private function notify(LedgerAlert $alert, LedgerAlertRule $rule): void
+    {
+        try {
+            $users = User::whereIn('id', $rule->recipient_user_ids ?? [])->get();
+            if ($users->isEmpty() && empty($rule->email_addresses)) {
+                $users = User::role('HR Manager')->get();
+                $channels = ['database'];
+            } else {
+                $channels = array_values(array_filter([
+                    $rule->notify_in_app ? 'database' : null,
+                    $rule->notify_email ? 'mail' : null,
+                ]));
+            }
+
+            if ($users->isNotEmpty() && !empty($channels)) {
+                Notification::send($users, new LedgerAlertNotification($alert, $channels));
+            }
+
+            $addresses = $this->emailAddresses($rule);
+            if ($rule->notify_email && $addresses->isNotEmpty()) {
+                Notification::route('mail', $addresses->all())->notify(new LedgerAlertNotification($alert, ['mail']));
+            }
+
+            $alert->update([
+                'notified_at' => now(),
+                'notification_count' => $alert->notification_count + 1,
+            ]);
+        } catch (\Exception $e) {
+            Log::warning('Ledger alert notification failed', [
+                'ledger_alert_id' => $alert->id,
+                'error' => $e->getMessage(),
+            ]);
+        }
+    }
+
+    /**
+     * @return Collection<int, string>
+     */
+    private function emailAddresses(LedgerAlertRule $rule): Collection
+    {
+        return collect($rule->email_addresses ?? [])
+            ->filter(fn ($address) => filter_var($address, FILTER_VALIDATE_EMAIL))
+            ->unique()
+            ->values();
+    }
+}
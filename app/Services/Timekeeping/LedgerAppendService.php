@@ -0,0 +1,83 @@
+<?php
+
+namespace App\Services\Timekeeping;
+
+use App\Models\RfidLedger;
+use Carbon\Carbon;
+
+/**
+ * LedgerAppendService
+ *
+ * Appends a tap to rfid_ledger: next global sequence_id and the device's hash
+ * chain link. Used for live taps (RfidTapController) and for taps recovered
+ * from a device's local store (LedgerGapService). Call inside a transaction;
+ * the last ledger row is locked until it commits.
+ */
+class LedgerAppendService
+{
+    /**
+     * @param string $deviceId
+     * @param string $cardUid
+     * @param string $eventType tap or unknown_card
+     * @param Carbon $tappedAt
+     * @param int|null $employeeId
+     * @param array|null $signedFields Fields the device signed, kept for re-verification
+     * @param string|null $signature
+     * @param string|null $idempotencyKey
+     * @param array $extra Additional payload keys (hashed with the rest of the payload)
+     * @return RfidLedger
+     */
+    public function append(
+        string $deviceId,
+        string $cardUid,
+        string $eventType,
+        Carbon $tappedAt,
+        ?int $employeeId,
+        ?array $signedFields = null,
+        ?string $signature = null,
+        ?string $idempotencyKey = null,
+        array $extra = []
+    ): RfidLedger {
+        // Lock the last row globally to get a unique next sequence_id across all devices
+        $last = RfidLedger::orderByDesc('sequence_id')
+            ->lockForUpdate()
+            ->first(['sequence_id', 'hash_chain', 'device_id']);
+
+        $nextSeq  = $last ? $last->sequence_id + 1 : 1;
+        // Hash chain is per-device: find the last hash for this specific device
+        $prevHash = RfidLedger::where('device_id', $deviceId)
+            ->orderByDesc('sequence_id')
+            ->value('hash_chain');
+
+        $payload = array_merge($extra, [
+            'card_uid'    => $cardUid,
+            'device_id'   => $deviceId,
+            'employee_id' => $employeeId,
+            'event_type'  => $eventType,
+            'timestamp'   => $tappedAt->toIso8601String(),
+        ]);
+        if ($signedFields !== null) {
+            ksort($signedFields);
+            $payload['signed_fields'] = $signedFields;
+        }
+        // Sort keys to match Python compact JSON
+        ksort($payload);
+        $payloadJson = json_encode($payload, JSON_UNESCAPED_UNICODE | JSON_UNESCAPED_SLASHES);
+        $hashChain   = hash('sha256', ($prevHash ?? '') . $payloadJson);
+
+        return RfidLedger::create([
+            'sequence_id'    => $nextSeq,
+            'employee_rfid'  => $cardUid,
+            'device_id'      => $deviceId,
+            'scan_timestamp' => $tappedAt,
+            'event_type'     => $eventType,
+            'raw_payload'    => $payload,
+            'hash_chain'     => $hashChain,
+            'hash_previous'  => $prevHash,
+            'device_signature' => $signature,
+            'idempotency_key' => $idempotencyKey,
+            'processed'      => false,
+            'created_at'     => $tappedAt,
+        ]);
+    }
+}
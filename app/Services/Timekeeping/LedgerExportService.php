@@ -0,0 +1,299 @@
+<?php
+
+namespace App\Services\Timekeeping;
+
+use App\Models\RfidDevice;
+use App\Models\RfidLedger;
+use App\Models\User;
+use Carbon\Carbon;
+use Illuminate\Database\Eloquent\Builder;
+use Illuminate\Support\Collection;
+use RuntimeException;
+use ZipArchive;
+
+/**
+ * LedgerExportService
+ *
+ * Builds tamper-evident export bundles of the RFID ledger for auditors and
+ * DOLE inspectors. A bundle is a ZIP with:
+ *
+ * - events.json   Raw ledger entries (payload, hash_chain, hash_previous, signature)
+ * - events.csv    The same entries as a spreadsheet-friendly table
+ * - anchors.json  Per-device chain anchors at both range boundaries + device public keys
+ * - manifest.json Filters, range, and the SHA-256 digest and size of every other file
+ *
+ * Everything needed to re-verify the bundle is inside it: the hash chain is
+ * recomputed from events.json, starting at the start anchors and ending on
+ * the end anchors, and the files are checked against the manifest digests.
+ *
+ * Card UIDs are included in full: raw_payload holds them and the hash chain is
+ * computed over it, so a bundle must be handled as personal data.
+ */
+class LedgerExportService
+{
+    /**
+     * Bundle format version, bumped on incompatible layout changes.
+     */
+    public const FORMAT_VERSION = 1;
+
+    /**
+     * Maximum entries in a single bundle.
+     */
+    public const MAX_ENTRIES = 50000;
+
+    private const CSV_COLUMNS = [
+        'sequence_id',
+        'scan_timestamp',
+        'device_id',
+        'employee_number',
+        'employee_name',
+        'card',
+        'event_type',
+        'hash_previous',
+        'hash_chain',
+        'device_signature',
+    ];
+
+    /**
+     * Build the bundle contents for a filtered ledger range.
+     *
+     * Filtering by employee selects individual entries out of each device
+     * chain, so such bundles are marked chain_complete = false: every entry
+     * hash can still be recomputed, but consecutive links cannot.
+     *
+     * @param array $filters date_from, date_to, device_id, employee_id, employee_number
+     * @param User|null $user User generating the export
+     * @return array{files: array<string, string>, manifest: array, manifest_json: string}
+     * @throws RuntimeException When the range is empty or too large
+     */
+    public function build(array $filters, ?User $user = null): array
+    {
+        $entries = $this->query($filters)->limit(self::MAX_ENTRIES + 1)->get();
+
+        if ($entries->isEmpty()) {
+            throw new RuntimeException('No ledger entries match the selected range.');
+        }
+        if ($entries->count() > self::MAX_ENTRIES) {
+            throw new RuntimeException('The selected range has more than ' . number_format(self::MAX_ENTRIES) . ' entries. Narrow the dates or pick a device.');
+        }
+
+        $chainComplete = empty($filters['employee_id']) && empty($filters['employee_number']);
+
+        $files = [
+            'events.json' => $this->encodeJson(['entries' => $entries->map(fn (RfidLedger $entry) => $this->entryRow($entry))->values()]),
+            'events.csv' => $this->eventsCsv($entries),
+            'anchors.json' => $this->encodeJson($this->anchors($entries)),
+        ];
+
+        $manifest = [
+            'bundle' => 'rfid-ledger-export',
+            'format_version' => self::FORMAT_VERSION,
+            'generated_at' => now()->toISOString(),
+            'generated_by' => $user ? ['id' => $user->id, 'name' => $user->name] : null,
+            'filters' => array_filter($filters, fn ($value) => $value !== null && $value !== ''),
+            'chain_complete' => $chainComplete,
+            'hash_algorithm' => 'sha256',
+            'hash_chain_rule' => 'sha256((hash_previous ?? "") + canonical_json(raw_payload)), per device',
+            'card_uids' => 'full (raw_payload holds them and is covered by the hash chain)',
+            'range' => [
+                'entry_count' => $entries->count(),
+                'first_sequence_id' => $entries->first()->sequence_id,
+                'last_sequence_id' => $entries->last()->sequence_id,
+                'first_scan_at' => $entries->min('scan_timestamp')?->toISOString(),
+                'last_scan_at' => $entries->max('scan_timestamp')?->toISOString(),
+                'devices' => $entries->pluck('device_id')->unique()->sort()->values(),
+            ],
+            'files' => collect($files)->map(fn (string $contents, string $name) => [
+                'name' => $name,
+                'sha256' => hash('sha256', $contents),
+                'bytes' => strlen($contents),
+            ])->values(),
+        ];
+
+        $manifestJson = $this->encodeJson($manifest);
+
+        return [
+            'files' => $files + ['manifest.json' => $manifestJson],
+            'manifest' => $manifest,
+            'manifest_json' => $manifestJson,
+        ];
+    }
+
+    /**
+     * Write a built bundle to a ZIP file.
+     *
+     * @param array $bundle Result of build()
+     * @param string $path Destination path
+     * @return void
+     * @throws RuntimeException When the archive cannot be written
+     */
+    public function writeZip(array $bundle, string $path): void
+    {
+        $zip = new ZipArchive();
+        if ($zip->open($path, ZipArchive::CREATE | ZipArchive::OVERWRITE) !== true) {
+            throw new RuntimeException('Unable to create export archive.');
+        }
+
+        foreach ($bundle['files'] as $name => $contents) {
+            $zip->addFromString($name, $contents);
+        }
+
+        $zip->close();
+    }
+
+    /**
+     * Ledger query for the export filters, in sequence order.
+     *
+     * The dates select each device's chain from its first to its last entry
+     * scanned in them, so backfilled taps inside that span are included even
+     * when they were scanned on another day.
+     *
+     * @param array $filters
+     * @return Builder
+     */
+    private function query(array $filters): Builder
+    {
+        $query = RfidLedger::with([
+            'rfidCardMapping.employee:id,employee_number,profile_id',
+            'rfidCardMapping.employee.profile:id,first_name,last_name',
+        ])->orderBy('sequence_id');
+
+        if (!empty($filters['date_from']) || !empty($filters['date_to'])) {
+            $query->chainSpanInDateRange(
+                !empty($filters['date_from']) ? Carbon::parse($filters['date_from'])->startOfDay() : null,
+                !empty($filters['date_to']) ? Carbon::parse($filters['date_to'])->endOfDay() : null
+            );
+        }
+        if (!empty($filters['device_id']) && $filters['device_id'] !== 'all') {
+            $query->where('device_id', $filters['device_id']);
+        }
+        if (!empty($filters['employee_id'])) {
+            $query->whereHas('rfidCardMapping', fn ($q) => $q->where('employee_id', (int) $filters['employee_id']));
+        }
+        if (!empty($filters['employee_number'])) {
+            $query->whereHas('rfidCardMapping.employee', fn ($q) => $q->where('employee_number', $filters['employee_number']));
+        }
+
+        return $query;
+    }
+
+    /**
+     * One ledger entry as stored, in the shape the browser verifier expects.
+     *
+     * @param RfidLedger $entry
+     * @return array
+     */
+    private function entryRow(RfidLedger $entry): array
+    {
+        $employee = $entry->rfidCardMapping?->employee;
+
+        return [
+            'sequence_id' => $entry->sequence_id,
+            'device_id' => $entry->device_id,
+            'employee_rfid' => $entry->employee_rfid,
+            'employee_number' => $employee?->employee_number,
+            'employee_name' => $employee?->profile ? trim("{$employee->profile->first_name} {$employee->profile->last_name}") : null,
+            'event_type' => $entry->event_type,
+            'scan_timestamp' => $entry->scan_timestamp->toISOString(),
+            'raw_payload' => $entry->raw_payload,
+            'hash_chain' => $entry->hash_chain,
+            'hash_previous' => $entry->hash_previous,
+            'device_signature' => $entry->device_signature,
+        ];
+    }
+
+    /**
+     * Entries as CSV, one row per ledger entry.
+     *
+     * @param Collection $entries
+     * @return string
+     */
+    private function eventsCsv(Collection $entries): string
+    {
+        $handle = fopen('php://temp', 'r+');
+        fputcsv($handle, self::CSV_COLUMNS);
+
+        foreach ($entries as $entry) {
+            $row = $this->entryRow($entry);
+            fputcsv($handle, [
+                $row['sequence_id'],
+                $row['scan_timestamp'],
+                $row['device_id'],
+                $row['employee_number'],
+                $row['employee_name'],
+                $row['employee_rfid'],
+                $row['event_type'],
+                $row['hash_previous'],
+                $row['hash_chain'],
+                $row['device_signature'],
+            ]);
+        }
+
+        rewind($handle);
+        $csv = stream_get_contents($handle);
+        fclose($handle);
+
+        return $csv;
+    }
+
+    /**
+     * Per-device chain anchors at the range boundaries, plus device public keys.
+     *
+     * start: last entry of the device chain before the range (null at genesis);
+     *        the first exported entry must link to it.
+     * end:   last exported entry of the device; the chain recomputed from the
+     *        bundle must arrive at this hash.
+     * next:  first entry of the device chain after the range at export time, if any;
+     *        lets an auditor check the live ledger still continues from the end anchor.
+     *
+     * @param Collection $entries
+     * @return array
+     */
+    private function anchors(Collection $entries): array
+    {
+        $devices = [];
+
+        foreach ($entries->groupBy('device_id') as $deviceId => $deviceEntries) {
+            $first = $deviceEntries->first();
+            $last = $deviceEntries->last();
+
+            $start = RfidLedger::where('device_id', $deviceId)
+                ->where('sequence_id', '<', $first->sequence_id)
+                ->orderByDesc('sequence_id')
+                ->first(['sequence_id', 'hash_chain']);
+
+            $next = RfidLedger::where('device_id', $deviceId)
+                ->where('sequence_id', '>', $last->sequence_id)
+                ->orderBy('sequence_id')
+                ->first(['sequence_id', 'hash_previous']);
+
+            $devices[$deviceId] = [
+                'entry_count' => $deviceEntries->count(),
+                'start' => $start ? ['sequence_id' => $start->sequence_id, 'hash_chain' => $start->hash_chain] : null,
+                'end' => ['sequence_id' => $last->sequence_id, 'hash_chain' => $last->hash_chain],
+                'next' => $next ? ['sequence_id' => $next->sequence_id, 'hash_previous' => $next->hash_previous] : null,
+            ];
+        }
+
+        return [
+            'devices' => $devices,
+            'device_keys' => RfidDevice::whereIn('device_id', array_keys($devices))
+                ->get(['device_id', 'public_key', 'public_key_registered_at'])
+                ->mapWithKeys(fn (RfidDevice $device) => [
+                    $device->device_id => [
+                        'public_key' => $device->public_key,
+                        'registered_at' => $device->public_key_registered_at?->toISOString(),
+                    ],
+                ]),
+        ];
+    }
+
+    /**
+     * @param mixed $data
+     * @return string
+     */
+    private function encodeJson($data): string
+    {
+        return json_encode($data, JSON_PRETTY_PRINT | JSON_UNESCAPED_SLASHES | JSON_UNESCAPED_UNICODE | JSON_THROW_ON_ERROR) . "\n";
+    }
+}
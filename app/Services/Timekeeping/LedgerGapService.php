@@ -0,0 +1,393 @@
+<?php
+
+namespace App\Services\Timekeeping;
+
+use App\Models\RfidCardMapping;
+use App\Models\RfidDevice;
+use App\Models\RfidLedger;
+use App\Models\RfidTapReceipt;
+use Carbon\Carbon;
+use Carbon\CarbonPeriod;
+use Illuminate\Http\UploadedFile;
+use Illuminate\Support\Facades\DB;
+use InvalidArgumentException;
+
+/**
+ * LedgerGapService
+ *
+ * Finds taps a device recorded but the ledger never received, and recovers
+ * them from an export of the device's local store.
+ *
+ * Every gate PC and kiosk numbers its taps with the row id of its local store
+ * (local_id) and sends them oldest first. The server keeps a receipt per
+ * local_id (rfid_tap_receipts), so a missing local_id is a lost tap: a
+ * permanent send failure, a wiped buffer, or a tap still waiting on the device.
+ * The last local_id the device reported in its heartbeat exposes the taps it
+ * holds but has not sent yet.
+ *
+ * Recovery re-appends the missing rows to the device's hash chain. A row whose
+ * fingerprint (device, card, tap time) is already in the ledger is rejected,
+ * so uploading the same export twice changes nothing.
+ */
+class LedgerGapService
+{
+    /**
+     * Days of receipts scanned for gaps.
+     */
+    public const WINDOW_DAYS = 14;
+
+    /**
+     * Same double-tap window as RfidTapController.
+     */
+    private const DUPLICATE_WINDOW_SECONDS = 15;
+
+    /**
+     * Dates listed per gap; a long outage is summarised by its first days.
+     */
+    private const MAX_GAP_DATES = 7;
+
+    public function __construct(
+        private LedgerAppendService $ledger
+    ) {}
+
+    /**
+     * Missing local_id ranges per device.
+     *
+     * @param string|null $deviceId Limit to one device
+     * @return array
+     */
+    public function detect(?string $deviceId = null): array
+    {
+        $since = now()->subDays(self::WINDOW_DAYS);
+
+        return RfidDevice::query()
+            ->when($deviceId, fn ($query) => $query->where('device_id', $deviceId))
+            ->orderBy('device_id')
+            ->get()
+            ->map(fn (RfidDevice $device) => $this->detectForDevice($device, $since))
+            ->all();
+    }
+
+    /**
+     * Read a local store export: buffer.db (SQLite) from a gate PC or the JSON backup.
+     *
+     * JSON is either a list of rows or {"device_id": "...", "taps": [...]}, each row
+     * with id (or local_id), card_uid, tapped_at and optionally synced and response.
+     *
+     * @param UploadedFile $file
+     * @return array{device_id: string|null, taps: array<int, array>}
+     * @throws InvalidArgumentException When the file is not a readable export
+     */
+    public function parseExport(UploadedFile $file): array
+    {
+        $path = $file->getRealPath();
+        $header = (string) file_get_contents($path, false, null, 0, 16);
+
+        if (str_starts_with($header, 'SQLite format 3')) {
+            return ['device_id' => null, 'taps' => $this->readSqliteExport($path)];
+        }
+
+        $json = json_decode((string) file_get_contents($path), true);
+        if (!is_array($json)) {
+            throw new InvalidArgumentException('The file is neither a buffer.db SQLite file nor a JSON export.');
+        }
+
+        $rows = array_is_list($json) ? $json : ($json['taps'] ?? null);
+        if (!is_array($rows)) {
+            throw new InvalidArgumentException('The JSON export has no "taps" list.');
+        }
+
+        return [
+            'device_id' => is_string($json['device_id'] ?? null) ? $json['device_id'] : null,
+            'taps' => array_map(fn ($row) => $this->normalizeExportRow((array) $row), $rows),
+        ];
+    }
+
+    /**
+     * Append exported taps the ledger does not have yet.
+     *
+     * @param RfidDevice $device
+     * @param array $taps Rows from parseExport()
+     * @return array{backfilled: int, duplicates: int, already_received: int, invalid: int, sequence_ids: array<int>}
+     */
+    public function backfill(RfidDevice $device, array $taps): array
+    {
+        $result = ['backfilled' => 0, 'duplicates' => 0, 'already_received' => 0, 'invalid' => 0, 'sequence_ids' => []];
+
+        $valid = [];
+        foreach ($taps as $tap) {
+            if ($tap['local_id'] === null || $tap['card_uid'] === '' || $tap['tapped_at'] === null) {
+                $result['invalid']++;
+                continue;
+            }
+            $valid[] = $tap;
+        }
+        if (empty($valid)) {
+            return $result;
+        }
+        usort($valid, fn ($a, $b) => $a['local_id'] <=> $b['local_id']);
+
+        return DB::transaction(function () use ($device, $valid, $result) {
+            $from = collect($valid)->min('tapped_at')->copy()->subSeconds(self::DUPLICATE_WINDOW_SECONDS);
+            $to = collect($valid)->max('tapped_at')->copy()->addSeconds(self::DUPLICATE_WINDOW_SECONDS);
+
+            $ledgerEntries = RfidLedger::where('device_id', $device->device_id)
+                ->whereBetween('scan_timestamp', [$from, $to])
+                ->get(['sequence_id', 'employee_rfid', 'scan_timestamp', 'event_type']);
+            $fingerprints = $ledgerEntries->mapWithKeys(fn (RfidLedger $entry) => [
+                $this->fingerprint($device->device_id, $entry->employee_rfid, $entry->scan_timestamp) => $entry->sequence_id,
+            ])->all();
+
+            $receipts = RfidTapReceipt::where('device_id', $device->device_id)
+                ->whereIn('local_id', array_column($valid, 'local_id'))
+                ->get(['local_id', 'card_uid', 'tapped_at'])
+                ->map(fn (RfidTapReceipt $receipt) => "{$receipt->local_id}|{$receipt->card_uid}|{$receipt->tapped_at->toIso8601String()}")
+                ->flip()
+                ->all();
+
+            foreach ($valid as $tap) {
+                $tappedAt = $tap['tapped_at'];
+
+                // A buffer.db that was reset reuses local ids, so match the whole row
+                if (isset($receipts["{$tap['local_id']}|{$tap['card_uid']}|{$tappedAt->toIso8601String()}"])) {
+                    $result['already_received']++;
+                    continue;
+                }
+
+                $fingerprint = $this->fingerprint($device->device_id, $tap['card_uid'], $tappedAt);
+                if (isset($fingerprints[$fingerprint])) {
+                    $this->recordReceipt($device, $tap, 'recorded', $fingerprints[$fingerprint]);
+                    $result['duplicates']++;
+                    continue;
+                }
+
+                $rejectedAsDoubleTap = ($tap['response']['status'] ?? null) === 'duplicate'
+                    || $ledgerEntries->contains(fn (RfidLedger $entry) => $entry->event_type === 'tap'
+                        && $entry->employee_rfid === $tap['card_uid']
+                        && $entry->scan_timestamp->lte($tappedAt)
+                        && $entry->scan_timestamp->gte($tappedAt->copy()->subSeconds(self::DUPLICATE_WINDOW_SECONDS)));
+                if ($rejectedAsDoubleTap) {
+                    $this->recordReceipt($device, $tap, 'duplicate');
+                    $result['duplicates']++;
+                    continue;
+                }
+
+                $mapping = RfidCardMapping::where('card_uid', $tap['card_uid'])
+                    ->whereNull('deleted_at')
+                    ->first();
+                $known = $mapping && $mapping->is_active;
+
+                $entry = $this->ledger->append(
+                    $device->device_id,
+                    $tap['card_uid'],
+                    $known ? 'tap' : 'unknown_card',
+                    $tappedAt,
+                    $known ? $mapping->employee_id : null,
+                    null,
+                    null,
+                    $fingerprint,
+                    ['backfilled' => true, 'local_id' => $tap['local_id']]
+                );
+
+                $this->recordReceipt($device, $tap, 'backfilled', $entry->sequence_id);
+                $fingerprints[$fingerprint] = $entry->sequence_id;
+                $ledgerEntries->push($entry);
+                $result['backfilled']++;
+                $result['sequence_ids'][] = $entry->sequence_id;
+            }
+
+            return $result;
+        });
+    }
+
+    /**
+     * @param RfidDevice $device
+     * @param Carbon $since
+     * @return array
+     */
+    private function detectForDevice(RfidDevice $device, Carbon $since): array
+    {
+        $receipts = RfidTapReceipt::where('device_id', $device->device_id)
+            ->where('received_at', '>=', $since)
+            ->orderBy('local_id')
+            ->get(['local_id', 'tapped_at'])
+            ->unique('local_id')
+            ->values();
+
+        $gaps = [];
+        $previous = null;
+        foreach ($receipts as $receipt) {
+            if ($previous !== null && $receipt->local_id > $previous->local_id + 1) {
+                $gaps[] = $this->describeGap($previous->local_id + 1, $receipt->local_id - 1, $previous->tapped_at, $receipt->tapped_at);
+            }
+            $previous = $receipt;
+        }
+
+        // Taps the device has numbered but not sent (still queued, or lost after the last one that arrived)
+        $localStore = data_get($device->config, 'local_store');
+        $lastReported = (int) ($localStore['last_local_id'] ?? 0);
+        if ($previous !== null && $lastReported > $previous->local_id) {
+            $gaps[] = $this->describeGap($previous->local_id + 1, $lastReported, $previous->tapped_at, null, true);
+        }
+
+        return [
+            'device_id' => $device->device_id,
+            'device_name' => $device->device_name,
+            'location' => $device->location,
+            'status' => $device->status,
+            'received' => $receipts->count(),
+            'last_received_local_id' => $previous?->local_id,
+            'local_store' => $localStore,
+            'missing_count' => array_sum(array_column($gaps, 'gap_size')),
+            'gaps' => $gaps,
+        ];
+    }
+
+    /**
+     * @param int $start First missing local_id
+     * @param int $end Last missing local_id
+     * @param Carbon $after Tap time of the local_id before the gap
+     * @param Carbon|null $before Tap time of the local_id after it; null when the gap runs to the device's latest tap
+     * @param bool $onDevice Whether the device still reports holding these ids
+     * @return array
+     */
+    private function describeGap(int $start, int $end, Carbon $after, ?Carbon $before, bool $onDevice = false): array
+    {
+        $until = $before ?? now();
+        $dates = collect(CarbonPeriod::create($after->copy()->startOfDay(), $until->copy()->startOfDay()))
+            ->take(self::MAX_GAP_DATES)
+            ->map(fn (Carbon $date) => $date->toDateString())
+            ->values()
+            ->all();
+
+        return [
+            'missing_start' => $start,
+            'missing_end' => $end,
+            'gap_size' => $end - $start + 1,
+            'after' => $after->toISOString(),
+            'before' => $before?->toISOString(),
+            'pending_on_device' => $onDevice,
+            'dates' => $dates,
+            'affected_employees' => $this->unpairedEmployees($dates),
+        ];
+    }
+
+    /**
+     * Employees with an odd number of taps on any of the dates (all devices), i.e. a
+     * time in without a time out or the reverse. These are the punches a lost tap
+     * most likely belonged to.
+     *
+     * @param array<string> $dates
+     * @return array
+     */
+    private function unpairedEmployees(array $dates): array
+    {
+        if (empty($dates)) {
+            return [];
+        }
+
+        $unpaired = RfidLedger::where('event_type', 'tap')
+            ->whereBetween('scan_timestamp', [Carbon::parse($dates[0])->startOfDay(), Carbon::parse(end($dates))->endOfDay()])
+            ->selectRaw('employee_rfid, DATE(scan_timestamp) as scan_date, COUNT(*) as taps')
+            ->groupBy('employee_rfid', DB::raw('DATE(scan_timestamp)'))
+            ->havingRaw('COUNT(*) % 2 = 1')
+            ->get();
+
+        $mappings = RfidCardMapping::with('employee.profile:id,first_name,last_name')
+            ->whereIn('card_uid', $unpaired->pluck('employee_rfid')->unique())
+            ->get()
+            ->keyBy('card_uid');
+
+        return $unpaired
+            ->map(function ($row) use ($mappings) {
+                $employee = $mappings->get($row->employee_rfid)?->employee;
+                if (!$employee) {
+                    return null;
+                }
+                $name = trim(($employee->profile?->first_name ?? '') . ' ' . ($employee->profile?->last_name ?? ''));
+
+                return [
+                    'employee_id' => $employee->id,
+                    'employee_number' => $employee->employee_number,
+                    'name' => $name ?: $employee->employee_number,
+                    'date' => Carbon::parse($row->scan_date)->toDateString(),
+                    'taps' => (int) $row->taps,
+                ];
+            })
+            ->filter()
+            ->sortBy(['date', 'name'])
+            ->values()
+            ->all();
+    }
+
+    /**
+     * @param string $path
+     * @return array
+     */
+    private function readSqliteExport(string $path): array
+    {
+        try {
+            $pdo = new \PDO('sqlite:' . $path, null, null, [\PDO::ATTR_ERRMODE => \PDO::ERRMODE_EXCEPTION]);
+            $rows = $pdo->query('SELECT id, card_uid, tapped_at, synced, response FROM tap_queue ORDER BY id')
+                ->fetchAll(\PDO::FETCH_ASSOC);
+        } catch (\PDOException $e) {
+            throw new InvalidArgumentException('buffer.db could not be read: ' . $e->getMessage());
+        }
+
+        return array_map(fn (array $row) => $this->normalizeExportRow($row), $rows);
+    }
+
+    /**
+     * @param array $row
+     * @return array{local_id: int|null, card_uid: string, tapped_at: Carbon|null, synced: bool, response: array|null}
+     */
+    private function normalizeExportRow(array $row): array
+    {
+        $localId = $row['local_id'] ?? $row['id'] ?? null;
+        $response = $row['response'] ?? null;
+        if (is_string($response)) {
+            $response = json_decode($response, true);
+        }
+
+        try {
+            $tappedAt = !empty($row['tapped_at']) ? Carbon::parse($row['tapped_at']) : null;
+        } catch (\Exception) {
+            $tappedAt = null;
+        }
+
+        return [
+            'local_id' => is_numeric($localId) ? (int) $localId : null,
+            'card_uid' => trim((string) ($row['card_uid'] ?? '')),
+            'tapped_at' => $tappedAt,
+            'synced' => (bool) ($row['synced'] ?? false),
+            'response' => is_array($response) ? $response : null,
+        ];
+    }
+
+    /**
+     * Content hash of a tap, also stored as the backfilled row's idempotency key.
+     */
+    private function fingerprint(string $deviceId, string $cardUid, Carbon $tappedAt): string
+    {
+        return hash('sha256', "{$deviceId}|{$cardUid}|{$tappedAt->toIso8601String()}");
+    }
+
+    /**
+     * @param RfidDevice $device
+     * @param array $tap
+     * @param string $outcome
+     * @param int|null $sequenceId
+     */
+    private function recordReceipt(RfidDevice $device, array $tap, string $outcome, ?int $sequenceId = null): void
+    {
+        RfidTapReceipt::create([
+            'device_id' => $device->device_id,
+            'local_id' => $tap['local_id'],
+            'card_uid' => $tap['card_uid'],
+            'tapped_at' => $tap['tapped_at'],
+            'outcome' => $outcome,
+            'sequence_id' => $sequenceId,
+            'received_at' => now(),
+        ]);
+    }
+}
@@ -4,6 +4,7 @@
 
 use App\Models\RfidLedger;
 use App\Models\AttendanceEvent;
+use App\Models\LedgerAnnotation;
 use Carbon\Carbon;
 use Illuminate\Support\Collection;
 use Illuminate\Database\Eloquent\Builder;
@@ -530,11 +531,17 @@ public function createAttendanceEventsFromLedger(Collection $ledgerEvents, bool
                     continue;
                 }
 
+                // Taps inside a clock correction window are re-based like those already processed
+                $corrections = $this->clockCorrectionsFor($ledgerEvent);
+                $offset = (int) $corrections->sum('offset_seconds');
+                $correction = $offset !== 0 ? $corrections->last() : null;
+                $eventTime = $ledgerEvent->scan_timestamp->copy()->addSeconds($offset);
+
                 // Create attendance event from ledger entry
                 $attendanceEvent = AttendanceEvent::create([
                     'employee_id' => $employeeId,
-                    'event_date' => $ledgerEvent->scan_timestamp->toDateString(),
-                    'event_time' => $ledgerEvent->scan_timestamp,
+                    'event_date' => $eventTime->toDateString(),
+                    'event_time' => $eventTime,
                     'event_type' => $ledgerEvent->event_type,
                     'ledger_sequence_id' => $ledgerEvent->sequence_id,
                     'is_deduplicated' => $ledgerEvent->getAttribute('is_deduplicated') ?? false,
@@ -542,6 +549,11 @@ public function createAttendanceEventsFromLedger(Collection $ledgerEvents, bool
                     'source' => 'edge_machine', // Ledger events are always from edge machine
                     'device_id' => $ledgerEvent->device_id,
                     'notes' => "Ledger sequence #{$ledgerEvent->sequence_id}",
+                    'is_corrected' => $correction !== null,
+                    'original_time' => $correction ? $ledgerEvent->scan_timestamp : null,
+                    'correction_reason' => $correction ? DeviceClockService::correctionReason($correction) : null,
+                    'corrected_by' => $correction?->created_by,
+                    'corrected_at' => $correction ? now() : null,
                 ]);
 
                 $created++;
@@ -565,6 +577,20 @@ public function createAttendanceEventsFromLedger(Collection $ledgerEvents, bool
         ];
     }
 
+    /**
+     * Clock corrections whose window covers a ledger entry, oldest first.
+     *
+     * @param RfidLedger $ledgerEvent
+     * @return Collection<int, LedgerAnnotation>
+     */
+    private function clockCorrectionsFor(RfidLedger $ledgerEvent): Collection
+    {
+        return LedgerAnnotation::clockCorrections()
+            ->covering($ledgerEvent->device_id, $ledgerEvent->scan_timestamp)
+            ->orderBy('id')
+            ->get();
+    }
+
     /**
      * Resolve employee ID from RFID card identifier.
      * 
@@ -0,0 +1,197 @@
+<?php
+
+namespace App\Services\Timekeeping;
+
+use App\Models\AttendanceEvent;
+use App\Models\Employee;
+use App\Models\Geofence;
+use App\Models\MobilePunch;
+use App\Models\User;
+use Illuminate\Http\UploadedFile;
+use Illuminate\Support\Facades\DB;
+
+/**
+ * MobileClockInService
+ *
+ * Records self-service punches from the employee portal for staff who cannot
+ * reach a gate reader (field sales, site engineers). Each punch carries the
+ * position reported by the browser and an optional selfie, and is matched to
+ * the nearest active geofence:
+ *
+ * - inside its radius, accuracy circle included: approved on arrival and
+ *   written to attendance_events with source "mobile"
+ * - outside every site, or too imprecise to tell: held as pending until HR
+ *   approves (the event is written then) or rejects it
+ *
+ * The punch time is always the server's clock, never the device's.
+ */
+class MobileClockInService
+{
+    /**
+     * Mean Earth radius used for great-circle distances, in metres.
+     */
+    private const EARTH_RADIUS_METERS = 6371000;
+
+    /**
+     * Nearest active geofence to a position and the distance to its centre.
+     * A position is only certain to be inside when its whole accuracy circle
+     * is; without a reported accuracy it never is.
+     *
+     * @param float $latitude
+     * @param float $longitude
+     * @param float|null $accuracyMeters
+     * @return array{geofence: Geofence|null, distance_meters: int|null, within: bool, certain: bool}
+     */
+    public function locate(float $latitude, float $longitude, ?float $accuracyMeters = null): array
+    {
+        $nearest = null;
+        $nearestDistance = null;
+
+        foreach (Geofence::active()->get() as $geofence) {
+            $distance = $this->distanceMeters($latitude, $longitude, $geofence->latitude, $geofence->longitude);
+            if ($nearestDistance === null || $distance < $nearestDistance) {
+                $nearest = $geofence;
+                $nearestDistance = $distance;
+            }
+        }
+
+        return [
+            'geofence' => $nearest,
+            'distance_meters' => $nearestDistance === null ? null : (int) round($nearestDistance),
+            'within' => $nearest !== null && $nearestDistance <= $nearest->radius_meters,
+            'certain' => $nearest !== null && $accuracyMeters !== null && $nearestDistance + $accuracyMeters <= $nearest->radius_meters,
+        ];
+    }
+
+    /**
+     * Record a portal punch, approving it straight away when it is certainly inside a geofence.
+     *
+     * @param Employee $employee
+     * @param User $user The employee's account
+     * @param string $eventType time_in, time_out, break_start, break_end
+     * @param float $latitude
+     * @param float $longitude
+     * @param float|null $accuracyMeters
+     * @param UploadedFile|null $selfie
+     * @param string|null $userAgent
+     * @return MobilePunch
+     */
+    public function record(
+        Employee $employee,
+        User $user,
+        string $eventType,
+        float $latitude,
+        float $longitude,
+        ?float $accuracyMeters = null,
+        ?UploadedFile $selfie = null,
+        ?string $userAgent = null
+    ): MobilePunch {
+        $location = $this->locate($latitude, $longitude, $accuracyMeters);
+        $punchedAt = now();
+
+        $selfiePath = $selfie?->storeAs(
+            "mobile-punches/{$employee->id}",
+            $punchedAt->format('Ymd_His') . '_' . $eventType . '.' . ($selfie->guessExtension() ?: 'jpg'),
+            'local'
+        );
+
+        return DB::transaction(function () use ($employee, $user, $eventType, $latitude, $longitude, $accuracyMeters, $userAgent, $location, $punchedAt, $selfiePath) {
+            $punch = MobilePunch::create([
+                'employee_id' => $employee->id,
+                'event_type' => $eventType,
+                'punched_at' => $punchedAt,
+                'latitude' => $latitude,
+                'longitude' => $longitude,
+                'accuracy_meters' => $accuracyMeters,
+                'geofence_id' => $location['geofence']?->id,
+                'distance_meters' => $location['distance_meters'],
+                'within_geofence' => $location['within'],
+                'selfie_path' => $selfiePath,
+                'user_agent' => $userAgent ? mb_substr($userAgent, 0, 255) : null,
+                'status' => $location['certain'] ? 'approved' : 'pending',
+            ]);
+
+            if ($location['certain']) {
+                $punch->update(['attendance_event_id' => $this->createEvent($punch, $user)->id]);
+            }
+
+            return $punch;
+        });
+    }
+
+    /**
+     * Approve or reject a pending punch; approval writes its attendance event.
+     *
+     * @param MobilePunch $punch
+     * @param string $status approved or rejected
+     * @param User $reviewer
+     * @param string|null $notes
+     * @return MobilePunch
+     */
+    public function review(MobilePunch $punch, string $status, User $reviewer, ?string $notes = null): MobilePunch
+    {
+        return DB::transaction(function () use ($punch, $status, $reviewer, $notes) {
+            $punch->update([
+                'status' => $status,
+                'reviewed_by' => $reviewer->id,
+                'reviewed_at' => now(),
+                'review_notes' => $notes,
+            ]);
+
+            if ($status === 'approved' && !$punch->attendance_event_id) {
+                $punch->update(['attendance_event_id' => $this->createEvent($punch, $reviewer)->id]);
+            }
+
+            return $punch;
+        });
+    }
+
+    /**
+     * Write the attendance event backing an approved punch.
+     *
+     * @param MobilePunch $punch
+     * @param User $createdBy
+     * @return AttendanceEvent
+     */
+    private function createEvent(MobilePunch $punch, User $createdBy): AttendanceEvent
+    {
+        $geofence = $punch->geofence;
+
+        return AttendanceEvent::create([
+            'employee_id' => $punch->employee_id,
+            'event_date' => $punch->punched_at->toDateString(),
+            'event_time' => $punch->punched_at,
+            'event_type' => $punch->event_type,
+            'source' => 'mobile',
+            'location' => $punch->within_geofence && $geofence
+                ? $geofence->name
+                : sprintf('%.6f, %.6f', $punch->latitude, $punch->longitude),
+            'notes' => match (true) {
+                $punch->within_geofence => "Mobile punch #{$punch->id}",
+                $geofence !== null => "Mobile punch #{$punch->id}, {$punch->distance_meters} m from {$geofence->name}, approved by HR",
+                default => "Mobile punch #{$punch->id}, no geofence configured, approved by HR",
+            },
+            'created_by' => $createdBy->id,
+        ]);
+    }
+
+    /**
+     * Great-circle distance between two positions (haversine), in metres.
+     *
+     * @param float $latitudeA
+     * @param float $longitudeA
+     * @param float $latitudeB
+     * @param float $longitudeB
+     * @return float
+     */
+    private function distanceMeters(float $latitudeA, float $longitudeA, float $latitudeB, float $longitudeB): float
+    {
+        $deltaLatitude = deg2rad($latitudeB - $latitudeA);
+        $deltaLongitude = deg2rad($longitudeB - $longitudeA);
+
+        $a = sin($deltaLatitude / 2) ** 2
+            + cos(deg2rad($latitudeA)) * cos(deg2rad($latitudeB)) * sin($deltaLongitude / 2) ** 2;
+
+        return self::EARTH_RADIUS_METERS * 2 * atan2(sqrt($a), sqrt(1 - $a));
+    }
+}
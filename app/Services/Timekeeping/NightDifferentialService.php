@@ -0,0 +1,104 @@
+<?php
+
+namespace App\Services\Timekeeping;
+
+use App\Models\SystemSetting;
+use Carbon\Carbon;
+
+/**
+ * NightDifferentialService
+ *
+ * Measures how much of a worked span falls inside the night differential
+ * window (10:00 PM to 6:00 AM under the Labor Code, Art. 86), which is paid
+ * at no less than 10% of the regular hourly rate on top of the hours' pay.
+ *
+ * The window and rate are overtime business rules (Admin > Business Rules),
+ * defaulting to the constants below. A window whose end is at or before its
+ * start runs past midnight into the next day.
+ */
+class NightDifferentialService
+{
+    public const DEFAULT_START = '22:00';
+
+    public const DEFAULT_END = '06:00';
+
+    /**
+     * Statutory minimum premium, as a fraction of the hourly rate.
+     */
+    public const DEFAULT_RATE = 0.10;
+
+    /**
+     * @var array{start: string, end: string, rate: float}|null
+     */
+    private ?array $settings = null;
+
+    /**
+     * Configured night differential window and rate.
+     *
+     * @return array{start: string, end: string, rate: float}
+     */
+    public function settings(): array
+    {
+        return $this->settings ??= [
+            'start' => (string) SystemSetting::getValue('business_rules.overtime.night_differential_start', self::DEFAULT_START),
+            'end' => (string) SystemSetting::getValue('business_rules.overtime.night_differential_end', self::DEFAULT_END),
+            'rate' => (float) SystemSetting::getValue('business_rules.overtime.night_differential_rate', self::DEFAULT_RATE),
+        ];
+    }
+
+    /**
+     * Minutes of a span that fall inside night differential windows.
+     *
+     * @param Carbon $from
+     * @param Carbon $to
+     * @return int
+     */
+    public function minutesBetween(Carbon $from, Carbon $to): int
+    {
+        if ($to->lte($from)) {
+            return 0;
+        }
+
+        $settings = $this->settings();
+        $seconds = 0;
+
+        // A window opening the day before can still be running at $from
+        for ($day = $from->copy()->subDay()->startOfDay(); $day->lte($to); $day->addDay()) {
+            $windowStart = $day->copy()->setTimeFromTimeString($settings['start']);
+            $windowEnd = $day->copy()->setTimeFromTimeString($settings['end']);
+            if ($windowEnd->lte($windowStart)) {
+                $windowEnd->addDay();
+            }
+
+            $overlapStart = $from->gt($windowStart) ? $from : $windowStart;
+            $overlapEnd = $to->lt($windowEnd) ? $to : $windowEnd;
+            if ($overlapEnd->gt($overlapStart)) {
+                $seconds += $overlapEnd->getTimestamp() - $overlapStart->getTimestamp();
+            }
+        }
+
+        return intdiv($seconds, 60);
+    }
+
+    /**
+     * Night differential minutes of a span, less those of the breaks taken in it.
+     *
+     * @param Carbon $from
+     * @param Carbon $to
+     * @param array<int, array{0: Carbon, 1: Carbon}> $breaks Break start/end pairs
+     * @return int
+     */
+    public function workedMinutes(Carbon $from, Carbon $to, array $breaks = []): int
+    {
+        $minutes = $this->minutesBetween($from, $to);
+
+        foreach ($breaks as [$breakStart, $breakEnd]) {
+            $minutes -= $this->minutesBetween(
+                $breakStart->gt($from) ? $breakStart : $from,
+                $breakEnd->lt($to) ? $breakEnd : $to
+            );
+        }
+
+        return max(0, $minutes);
+    }
+}
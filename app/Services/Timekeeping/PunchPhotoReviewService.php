@@ -0,0 +1,222 @@
+<?php
+
+namespace App\Services\Timekeeping;
+
+use App\Models\AttendanceAnomaly;
+use App\Models\PunchPhoto;
+use App\Models\RfidCardMapping;
+use App\Models\RfidTapReceipt;
+use App\Models\SystemSetting;
+use App\Models\User;
+use Carbon\Carbon;
+use Illuminate\Http\UploadedFile;
+
+/**
+ * PunchPhotoReviewService
+ *
+ * Gate PCs and kiosks with a camera upload a photo of each tap after the tap
+ * itself has synced. Most photos are only kept; a punch enters the review
+ * queue when the sampling rules pick it:
+ *
+ * - late_night:    every punch between the late-night start and end (device time)
+ * - random_sample: a configurable percentage of the remaining punches
+ * - anomaly:       any photographed punch an attendance anomaly points at
+ *
+ * HR compares the photo with the employee's profile photo and approves it or
+ * flags the punch as a proxy (someone else tapping the employee's card). The
+ * outcome shows on the employee's attendance record for the day.
+ */
+class PunchPhotoReviewService
+{
+    public const DEFAULT_SAMPLE_PERCENT = 2.0;
+    public const DEFAULT_LATE_NIGHT_START = '22:00';
+    public const DEFAULT_LATE_NIGHT_END = '05:00';
+
+    /**
+     * Store an uploaded photo for a received tap and apply the sampling rules.
+     *
+     * @param RfidTapReceipt $receipt Receipt of the tap the photo was taken with
+     * @param UploadedFile $photo
+     * @return PunchPhoto
+     */
+    public function store(RfidTapReceipt $receipt, UploadedFile $photo): PunchPhoto
+    {
+        $path = $photo->storeAs(
+            "punch-photos/{$receipt->device_id}/" . $receipt->tapped_at->format('Ymd'),
+            $receipt->local_id . '.' . ($photo->guessExtension() ?: 'jpg'),
+            'local'
+        );
+
+        $employeeId = RfidCardMapping::where('card_uid', $receipt->card_uid)
+            ->where('is_active', true)
+            ->value('employee_id');
+
+        $punchPhoto = PunchPhoto::create([
+            'device_id' => $receipt->device_id,
+            'local_id' => $receipt->local_id,
+            'sequence_id' => $receipt->sequence_id,
+            'employee_id' => $employeeId,
+            'captured_at' => $receipt->tapped_at,
+            'path' => $path,
+        ]);
+
+        $reason = $this->sampleReason($punchPhoto->captured_at);
+        if ($reason) {
+            $punchPhoto->update(['review_status' => 'pending', 'review_reason' => $reason]);
+        }
+
+        return $punchPhoto;
+    }
+
+    /**
+     * Queue unselected photos whose punch an active anomaly points at.
+     *
+     * Anomalies are detected after the photo arrives, so this runs when the
+     * queue is opened.
+     *
+     * @return int Photos queued
+     */
+    public function queueAnomalous(): int
+    {
+        if (!$this->rules()['flag_anomalies']) {
+            return 0;
+        }
+
+        $sequenceIds = AttendanceAnomaly::active()
+            ->where('detected_at', '>=', now()->subDays(30))
+            ->get(['ledger_sequence_id', 'related_ledger_sequence_id'])
+            ->flatMap(fn (AttendanceAnomaly $anomaly) => [$anomaly->ledger_sequence_id, $anomaly->related_ledger_sequence_id])
+            ->filter()
+            ->unique()
+            ->values();
+
+        if ($sequenceIds->isEmpty()) {
+            return 0;
+        }
+
+        return PunchPhoto::where('review_status', 'not_selected')
+            ->whereIn('sequence_id', $sequenceIds)
+            ->update(['review_status' => 'pending', 'review_reason' => 'anomaly']);
+    }
+
+    /**
+     * Record HR's verdict on a queued photo.
+     *
+     * @param PunchPhoto $photo
+     * @param string $status approved or proxy
+     * @param User $reviewer
+     * @param string|null $notes
+     * @return PunchPhoto
+     */
+    public function review(PunchPhoto $photo, string $status, User $reviewer, ?string $notes = null): PunchPhoto
+    {
+        if (!in_array($status, PunchPhoto::REVIEWED_STATUSES, true)) {
+            throw new \InvalidArgumentException("Unknown review status: {$status}");
+        }
+
+        $photo->update([
+            'review_status' => $status,
+            'reviewed_by' => $reviewer->id,
+            'reviewed_at' => now(),
+            'review_notes' => $notes,
+        ]);
+
+        return $photo;
+    }
+
+    /**
+     * Current sampling rules.
+     *
+     * @return array{sample_percent: float, late_night_enabled: bool, late_night_start: string, late_night_end: string, flag_anomalies: bool}
+     */
+    public function rules(): array
+    {
+        return [
+            'sample_percent' => (float) SystemSetting::getValue('timekeeping.photo_review.sample_percent', self::DEFAULT_SAMPLE_PERCENT),
+            'late_night_enabled' => (bool) SystemSetting::getValue('timekeeping.photo_review.late_night_enabled', true),
+            'late_night_start' => (string) SystemSetting::getValue('timekeeping.photo_review.late_night_start', self::DEFAULT_LATE_NIGHT_START),
+            'late_night_end' => (string) SystemSetting::getValue('timekeeping.photo_review.late_night_end', self::DEFAULT_LATE_NIGHT_END),
+            'flag_anomalies' => (bool) SystemSetting::getValue('timekeeping.photo_review.flag_anomalies', true),
+        ];
+    }
+
+    /**
+     * Save the sampling rules, logging each changed value.
+     *
+     * @param array $rules As rules()
+     * @param User $user
+     * @return void
+     */
+    public function updateRules(array $rules, User $user): void
+    {
+        $types = [
+            'sample_percent' => 'float',
+            'late_night_enabled' => 'boolean',
+            'late_night_start' => 'string',
+            'late_night_end' => 'string',
+            'flag_anomalies' => 'boolean',
+        ];
+        $current = $this->rules();
+
+        foreach ($types as $name => $type) {
+            if (!array_key_exists($name, $rules) || $rules[$name] === $current[$name]) {
+                continue;
+            }
+
+            $value = $type === 'boolean' ? ($rules[$name] ? 'true' : 'false') : (string) $rules[$name];
+            $setting = SystemSetting::updateOrCreate(
+                ['key' => "timekeeping.photo_review.{$name}"],
+                [
+                    'value' => $value,
+                    'type' => $type,
+                    'category' => 'timekeeping',
+                    'description' => 'Punch photo review sampling rule',
+                ]
+            );
+
+            activity('timekeeping')
+                ->causedBy($user)
+                ->performedOn($setting)
+                ->withProperties([
+                    'key' => $setting->key,
+                    'old_value' => $current[$name],
+                    'new_value' => $rules[$name],
+                ])
+                ->log("Updated punch photo sampling rule {$name}");
+        }
+    }
+
+    /**
+     * Why a punch taken at the given device time should be reviewed, if at all.
+     *
+     * @param Carbon $capturedAt
+     * @return string|null late_night, random_sample or null
+     */
+    private function sampleReason(Carbon $capturedAt): ?string
+    {
+        $rules = $this->rules();
+
+        if ($rules['late_night_enabled'] && $this->isLateNight($capturedAt, $rules['late_night_start'], $rules['late_night_end'])) {
+            return 'late_night';
+        }
+
+        // Percent to two decimals, e.g. 2.5% => 250 out of 10000
+        if ($rules['sample_percent'] > 0 && random_int(1, 10000) <= (int) round($rules['sample_percent'] * 100)) {
+            return 'random_sample';
+        }
+
+        return null;
+    }
+
+    /**
+     * Whether a time falls in the late-night window, which may cross midnight.
+     */
+    private function isLateNight(Carbon $time, string $start, string $end): bool
+    {
+        $clock = $time->format('H:i');
+
+        return $start <= $end
+            ? $clock >= $start && $clock < $end
+            : $clock >= $start || $clock < $end;
+    }
+}
@@ -0,0 +1,193 @@
+<?php
+
+namespace App\Services\Timekeeping;
+
+use App\Models\AttendanceEvent;
+use App\Models\ShiftAssignment;
+use App\Models\SystemSetting;
+use Carbon\Carbon;
+use Illuminate\Support\Collection;
+
+/**
+ * ShiftPunchPairingService
+ *
+ * Attributes attendance events to the work date they belong to, so punches of
+ * shifts that cross midnight (night and graveyard shifts) are paired with each
+ * other instead of split across two calendar days.
+ *
+ * Each shift assignment opens a window around its shift: from shift_start minus
+ * the early time-in tolerance to shift_end (on the next day when it ends at or
+ * before it starts) plus the late time-out tolerance. An event inside a window
+ * belongs to that assignment's date; when windows of consecutive shifts overlap,
+ * the event goes to the shift it is closest to. Events outside every window
+ * keep their calendar date.
+ *
+ * Tolerances are attendance business rules (Admin > Business Rules), defaulting
+ * to the constants below.
+ */
+class ShiftPunchPairingService
+{
+    /**
+     * How long before shift start a time in still counts toward the shift, in minutes.
+     */
+    public const DEFAULT_EARLY_IN_TOLERANCE_MINUTES = 120;
+
+    /**
+     * How long after shift end a time out still counts toward the shift, in minutes.
+     */
+    public const DEFAULT_LATE_OUT_TOLERANCE_MINUTES = 240;
+
+    /**
+     * @var array{early_in_minutes: int, late_out_minutes: int}|null
+     */
+    private ?array $tolerances = null;
+
+    /**
+     * Configured pairing tolerances.
+     *
+     * @return array{early_in_minutes: int, late_out_minutes: int}
+     */
+    public function tolerances(): array
+    {
+        return $this->tolerances ??= [
+            'early_in_minutes' => (int) SystemSetting::getValue(
+                'business_rules.attendance.shift_early_in_tolerance_minutes',
+                self::DEFAULT_EARLY_IN_TOLERANCE_MINUTES
+            ),
+            'late_out_minutes' => (int) SystemSetting::getValue(
+                'business_rules.attendance.shift_late_out_tolerance_minutes',
+                self::DEFAULT_LATE_OUT_TOLERANCE_MINUTES
+            ),
+        ];
+    }
+
+    /**
+     * Scheduled span of a shift and the window its punches are accepted in.
+     *
+     * @param ShiftAssignment $assignment
+     * @return array{start: Carbon, end: Carbon, opens_at: Carbon, closes_at: Carbon, crosses_midnight: bool}
+     */
+    public function window(ShiftAssignment $assignment): array
+    {
+        $tolerances = $this->tolerances();
+
+        $start = $assignment->date->copy()->setTimeFromTimeString($assignment->shift_start);
+        $end = $assignment->date->copy()->setTimeFromTimeString($assignment->shift_end);
+        $crossesMidnight = $end->lte($start);
+        if ($crossesMidnight) {
+            $end->addDay();
+        }
+
+        return [
+            'start' => $start,
+            'end' => $end,
+            'opens_at' => $start->copy()->subMinutes($tolerances['early_in_minutes']),
+            'closes_at' => $end->copy()->addMinutes($tolerances['late_out_minutes']),
+            'crosses_midnight' => $crossesMidnight,
+        ];
+    }
+
+    /**
+     * Active shift assignments of employees around a date range, keyed "employee_id|date".
+     *
+     * Loads a day either side, whose windows can reach into the range. A split
+     * shift's later assignment stands for its day.
+     *
+     * @param Collection|array $employeeIds
+     * @param Carbon $dateFrom
+     * @param Carbon $dateTo
+     * @return Collection<string, ShiftAssignment>
+     */
+    public function assignments(Collection|array $employeeIds, Carbon $dateFrom, Carbon $dateTo): Collection
+    {
+        return ShiftAssignment::whereIn('employee_id', $employeeIds)
+            ->whereBetween('date', [$dateFrom->copy()->subDay()->toDateString(), $dateTo->copy()->addDay()->toDateString()])
+            ->where('status', '!=', 'cancelled')
+            ->orderBy('shift_start')
+            ->get()
+            ->keyBy(fn (ShiftAssignment $assignment) => $assignment->employee_id . '|' . $assignment->date->toDateString());
+    }
+
+    /**
+     * Work date of each event, keyed by event id.
+     *
+     * @param Collection $events AttendanceEvent models
+     * @param Collection $assignments From assignments(), covering a day either side of the events
+     * @return Collection<int, string> Work dates (Y-m-d)
+     */
+    public function attribute(Collection $events, Collection $assignments): Collection
+    {
+        return $events->mapWithKeys(fn (AttendanceEvent $event) => [
+            $event->id => $this->workDate($event, $assignments),
+        ]);
+    }
+
+    /**
+     * Events attributed to one employee's work date, with the shift they were paired against.
+     *
+     * @param int $employeeId
+     * @param Carbon $date Work date
+     * @param array $with Relations to eager load on the events
+     * @return array{events: Collection, assignment: ShiftAssignment|null, window: array|null}
+     */
+    public function eventsForWorkDate(int $employeeId, Carbon $date, array $with = []): array
+    {
+        $assignments = $this->assignments([$employeeId], $date->copy()->subDay(), $date->copy()->addDay());
+
+        $events = AttendanceEvent::with($with)
+            ->where('employee_id', $employeeId)
+            ->whereBetween('event_date', [$date->copy()->subDay()->toDateString(), $date->copy()->addDay()->toDateString()])
+            ->orderBy('event_time', 'asc')
+            ->get();
+
+        $workDates = $this->attribute($events, $assignments);
+        $assignment = $assignments->get($employeeId . '|' . $date->toDateString());
+
+        return [
+            'events' => $events->filter(fn (AttendanceEvent $event) => $workDates->get($event->id) === $date->toDateString())->values(),
+            'assignment' => $assignment,
+            'window' => $assignment ? $this->window($assignment) : null,
+        ];
+    }
+
+    /**
+     * Work date of one event: the date of the closest shift whose window holds it.
+     *
+     * @param AttendanceEvent $event
+     * @param Collection $assignments
+     * @return string
+     */
+    private function workDate(AttendanceEvent $event, Collection $assignments): string
+    {
+        $calendarDate = $event->event_date->toDateString();
+        $best = null;
+        $bestDistance = null;
+
+        foreach ([-1, 0, 1] as $offset) {
+            $date = $event->event_date->copy()->addDays($offset)->toDateString();
+            $assignment = $assignments->get($event->employee_id . '|' . $date);
+            if (!$assignment) {
+                continue;
+            }
+
+            $window = $this->window($assignment);
+            if ($event->event_time->lt($window['opens_at']) || $event->event_time->gt($window['closes_at'])) {
+                continue;
+            }
+
+            // Seconds outside the scheduled span; zero while the shift is on
+            $distance = match (true) {
+                $event->event_time->lt($window['start']) => $window['start']->getTimestamp() - $event->event_time->getTimestamp(),
+                $event->event_time->gt($window['end']) => $event->event_time->getTimestamp() - $window['end']->getTimestamp(),
+                default => 0,
+            };
+
+            if ($bestDistance === null || $distance < $bestDistance) {
+                $best = $date;
+                $bestDistance = $distance;
+            }
+        }
+
+        return $best ?? $calendarDate;
+    }
+}
@@ -0,0 +1,33 @@
+<?php
+
+use Illuminate\Database\Migrations\Migration;
+use Illuminate\Database\Schema\Blueprint;
+use Illuminate\Support\Facades\Schema;
+
+return new class extends Migration
+{
+    /**
+     * Run the migrations.
+     *
+     * Registered Ed25519 public key per device, used by auditors to verify
+     * rfid_ledger.device_signature in the browser.
+     */
+    public function up(): void
+    {
+        Schema::table('rfid_devices', function (Blueprint $table) {
+            $table->string('public_key', 64)->nullable()->after('api_key')
+                ->comment('Base64 raw 32-byte Ed25519 public key for device signatures');
+            $table->timestamp('public_key_registered_at')->nullable()->after('public_key');
+        });
+    }
+
+    /**
+     * Reverse the migrations.
+     */
+    public function down(): void
+    {
+        Schema::table('rfid_devices', function (Blueprint $table) {
+            $table->dropColumn(['public_key', 'public_key_registered_at']);
+        });
+    }
+};
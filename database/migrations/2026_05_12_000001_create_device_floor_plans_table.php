@@ -0,0 +1,54 @@
+<?php
+
+use Illuminate\Database\Migrations\Migration;
+use Illuminate\Database\Schema\Blueprint;
+use Illuminate\Support\Facades\Schema;
+
+return new class extends Migration
+{
+    /**
+     * Run the migrations.
+     *
+     * One uploaded floor-plan drawing per site and floor, plus each device's
+     * marker position on it (percent of the drawing's width and height).
+     */
+    public function up(): void
+    {
+        Schema::create('device_floor_plans', function (Blueprint $table) {
+            $table->id();
+            $table->string('site', 100)->comment('Building or site name, e.g. Main Plant');
+            $table->string('floor', 50)->comment('Floor label, e.g. Ground, 2F');
+            $table->string('name')->nullable();
+            $table->string('image_path')->comment('Path on the local (private) disk');
+            $table->string('mime_type', 100);
+            $table->unsignedInteger('width')->nullable()->comment('Intrinsic drawing width in px, if known');
+            $table->unsignedInteger('height')->nullable()->comment('Intrinsic drawing height in px, if known');
+            $table->foreignId('uploaded_by')->nullable()->constrained('users')->nullOnDelete();
+            $table->timestamps();
+
+            $table->unique(['site', 'floor']);
+        });
+
+        Schema::table('rfid_devices', function (Blueprint $table) {
+            $table->foreignId('floor_plan_id')->nullable()->after('location')
+                ->constrained('device_floor_plans')->nullOnDelete();
+            $table->decimal('map_x', 5, 2)->nullable()->after('floor_plan_id')
+                ->comment('Marker x position, percent of floor plan width');
+            $table->decimal('map_y', 5, 2)->nullable()->after('map_x')
+                ->comment('Marker y position, percent of floor plan height');
+        });
+    }
+
+    /**
+     * Reverse the migrations.
+     */
+    public function down(): void
+    {
+        Schema::table('rfid_devices', function (Blueprint $table) {
+            $table->dropConstrainedForeignId('floor_plan_id');
+            $table->dropColumn(['map_x', 'map_y']);
+        });
+
+        Schema::dropIfExists('device_floor_plans');
+    }
+};
@@ -0,0 +1,74 @@
+<?php
+
+use Illuminate\Database\Migrations\Migration;
+use Illuminate\Database\Schema\Blueprint;
+use Illuminate\Support\Facades\Schema;
+
+return new class extends Migration
+{
+    /**
+     * Run the migrations.
+     *
+     * Attendance anomalies flagged by the detection rules (impossible travel,
+     * missing exit, suspected buddy punching) with their HR review outcome, and
+     * per device pair overrides of the detection thresholds.
+     */
+    public function up(): void
+    {
+        Schema::create('attendance_anomalies', function (Blueprint $table) {
+            $table->id();
+            $table->enum('type', ['impossible_travel', 'missing_exit', 'buddy_punching']);
+            $table->enum('severity', ['low', 'medium', 'high'])->default('medium');
+            $table->enum('status', ['open', 'confirmed', 'dismissed'])->default('open');
+            $table->string('fingerprint')->unique()->comment('Type-specific key so a rerun never flags the same anomaly twice');
+
+            $table->foreignId('employee_id')->constrained('employees')->cascadeOnDelete();
+            $table->foreignId('related_employee_id')->nullable()->constrained('employees')->nullOnDelete()
+                ->comment('Other employee of a buddy-punching pair');
+            $table->date('attendance_date');
+            $table->string('device_id')->nullable();
+            $table->string('related_device_id')->nullable()->comment('Previous device of an impossible-travel pair');
+            $table->unsignedBigInteger('ledger_sequence_id')->nullable();
+            $table->unsignedBigInteger('related_ledger_sequence_id')->nullable();
+            $table->foreignId('attendance_event_id')->nullable()->constrained('attendance_events')->nullOnDelete();
+            $table->string('summary');
+            $table->json('details')->nullable()->comment('Measured values and thresholds at detection time');
+            $table->timestamp('detected_at');
+
+            $table->foreignId('reviewed_by')->nullable()->constrained('users')->nullOnDelete();
+            $table->timestamp('reviewed_at')->nullable();
+            $table->text('review_notes')->nullable();
+            $table->timestamps();
+
+            $table->index(['status', 'detected_at']);
+            $table->index(['employee_id', 'attendance_date']);
+            $table->index('ledger_sequence_id');
+            $table->index('related_ledger_sequence_id');
+        });
+
+        Schema::create('device_pair_anomaly_rules', function (Blueprint $table) {
+            $table->id();
+            $table->string('device_a_id')->comment('Lower device_id of the pair');
+            $table->string('device_b_id')->comment('Higher device_id of the pair; equal to device_a_id for single-device rules');
+            $table->unsignedInteger('min_travel_seconds')->nullable()
+                ->comment('Fastest plausible walk between the devices; null uses the default');
+            $table->unsignedInteger('buddy_window_seconds')->nullable()
+                ->comment('Back-to-back tap window on the device; null uses the default');
+            $table->boolean('is_enabled')->default(true)->comment('False disables detection for the pair');
+            $table->string('notes')->nullable();
+            $table->foreignId('updated_by')->nullable()->constrained('users')->nullOnDelete();
+            $table->timestamps();
+
+            $table->unique(['device_a_id', 'device_b_id']);
+        });
+    }
+
+    /**
+     * Reverse the migrations.
+     */
+    public function down(): void
+    {
+        Schema::dropIfExists('device_pair_anomaly_rules');
+        Schema::dropIfExists('attendance_anomalies');
+    }
+};
@@ -0,0 +1,50 @@
+<?php
+
+use Illuminate\Database\Migrations\Migration;
+use Illuminate\Database\Schema\Blueprint;
+use Illuminate\Support\Facades\Schema;
+
+return new class extends Migration
+{
+    /**
+     * Run the migrations.
+     *
+     * Saved column mappings for timekeeping imports, one per source (e.g. a
+     * branch's biometric terminal export), and the mapping each batch was
+     * imported with. Batches may now come from .dat and fixed-width logs.
+     */
+    public function up(): void
+    {
+        Schema::create('import_mapping_profiles', function (Blueprint $table) {
+            $table->id();
+            $table->string('source', 100)->unique()->comment('Where the files come from, e.g. "Cebu branch ZKTeco"');
+            $table->enum('format', ['delimited', 'zkteco_dat', 'fixed_width']);
+            $table->json('mapping')->comment('Parser options, column, event code and device code mappings');
+            $table->string('description')->nullable();
+            $table->foreignId('created_by')->nullable()->constrained('users')->nullOnDelete();
+            $table->foreignId('updated_by')->nullable()->constrained('users')->nullOnDelete();
+            $table->timestamp('last_used_at')->nullable();
+            $table->timestamps();
+        });
+
+        Schema::table('import_batches', function (Blueprint $table) {
+            $table->foreignId('mapping_profile_id')->nullable()->after('import_type')
+                ->constrained('import_mapping_profiles')->nullOnDelete();
+            $table->json('mapping')->nullable()->after('mapping_profile_id')
+                ->comment('Mapping used to process the batch; null for the fixed CSV layout');
+        });
+    }
+
+    /**
+     * Reverse the migrations.
+     */
+    public function down(): void
+    {
+        Schema::table('import_batches', function (Blueprint $table) {
+            $table->dropConstrainedForeignId('mapping_profile_id');
+            $table->dropColumn('mapping');
+        });
+
+        Schema::dropIfExists('import_mapping_profiles');
+    }
+};
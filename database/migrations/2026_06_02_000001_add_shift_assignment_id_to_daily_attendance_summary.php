@@ -0,0 +1,33 @@
+<?php
+
+use Illuminate\Database\Migrations\Migration;
+use Illuminate\Database\Schema\Blueprint;
+use Illuminate\Support\Facades\Schema;
+
+return new class extends Migration
+{
+    /**
+     * Run the migrations.
+     *
+     * Records the shift assignment a summary's punches were paired against, so
+     * a night shift's next-morning time out can be shown against its work date.
+     */
+    public function up(): void
+    {
+        Schema::table('daily_attendance_summary', function (Blueprint $table) {
+            $table->foreignId('shift_assignment_id')->nullable()->after('work_schedule_id')
+                ->constrained('shift_assignments')->nullOnDelete()
+                ->comment('Shift whose window the punches were attributed to; null when paired by calendar date');
+        });
+    }
+
+    /**
+     * Reverse the migrations.
+     */
+    public function down(): void
+    {
+        Schema::table('daily_attendance_summary', function (Blueprint $table) {
+            $table->dropConstrainedForeignId('shift_assignment_id');
+        });
+    }
+};
@@ -0,0 +1,32 @@
+<?php
+
+use Illuminate\Database\Migrations\Migration;
+use Illuminate\Database\Schema\Blueprint;
+use Illuminate\Support\Facades\Schema;
+
+return new class extends Migration
+{
+    /**
+     * Run the migrations.
+     *
+     * Splits the worked minutes that fall inside the night differential window
+     * out of each summary, for payroll to pay the night premium on.
+     */
+    public function up(): void
+    {
+        Schema::table('daily_attendance_summary', function (Blueprint $table) {
+            $table->unsignedInteger('night_diff_minutes')->default(0)->after('overtime_hours')
+                ->comment('Worked minutes inside the night differential window, breaks excluded');
+        });
+    }
+
+    /**
+     * Reverse the migrations.
+     */
+    public function down(): void
+    {
+        Schema::table('daily_attendance_summary', function (Blueprint $table) {
+            $table->dropColumn('night_diff_minutes');
+        });
+    }
+};
@@ -0,0 +1,80 @@
+<?php
+
+use Illuminate\Database\Migrations\Migration;
+use Illuminate\Database\Schema\Blueprint;
+use Illuminate\Support\Facades\Schema;
+
+return new class extends Migration
+{
+    /**
+     * Run the migrations.
+     *
+     * Self-service clock-in from the employee portal: the sites employees may
+     * punch from (a centre and radius each), every punch with the browser's
+     * reported position and optional selfie, and a new "mobile" attendance
+     * event source. Punches outside every site wait for HR approval before
+     * they become attendance events.
+     */
+    public function up(): void
+    {
+        Schema::create('geofences', function (Blueprint $table) {
+            $table->id();
+            $table->string('name', 100)->comment('Site name shown to employees, e.g. "Cebu warehouse"');
+            $table->string('address')->nullable();
+            $table->decimal('latitude', 10, 7);
+            $table->decimal('longitude', 10, 7);
+            $table->unsignedInteger('radius_meters')->comment('Punches within this distance of the centre are accepted');
+            $table->boolean('is_active')->default(true);
+            $table->foreignId('created_by')->nullable()->constrained('users')->nullOnDelete();
+            $table->foreignId('updated_by')->nullable()->constrained('users')->nullOnDelete();
+            $table->timestamps();
+        });
+
+        Schema::create('mobile_punches', function (Blueprint $table) {
+            $table->id();
+            $table->foreignId('employee_id')->constrained('employees')->cascadeOnDelete();
+            $table->enum('event_type', ['time_in', 'time_out', 'break_start', 'break_end']);
+            $table->timestamp('punched_at')->comment('Server time of the punch');
+            $table->decimal('latitude', 10, 7);
+            $table->decimal('longitude', 10, 7);
+            $table->decimal('accuracy_meters', 8, 2)->nullable()->comment('Accuracy reported by the browser');
+            $table->foreignId('geofence_id')->nullable()->constrained('geofences')->nullOnDelete()
+                ->comment('Nearest active site at punch time');
+            $table->unsignedInteger('distance_meters')->nullable()->comment('Distance from the nearest site centre');
+            $table->boolean('within_geofence')->default(false);
+            $table->string('selfie_path')->nullable();
+            $table->string('user_agent')->nullable();
+            $table->enum('status', ['pending', 'approved', 'rejected'])->default('pending')
+                ->comment('Punches inside a site are approved on arrival');
+            $table->foreignId('attendance_event_id')->nullable()->constrained('attendance_events')->nullOnDelete();
+            $table->foreignId('reviewed_by')->nullable()->constrained('users')->nullOnDelete();
+            $table->timestamp('reviewed_at')->nullable();
+            $table->text('review_notes')->nullable();
+            $table->timestamps();
+
+            $table->index(['employee_id', 'punched_at']);
+            $table->index('status');
+        });
+
+        Schema::table('attendance_events', function (Blueprint $table) {
+            $table->enum('source', ['edge_machine', 'manual', 'imported', 'mobile'])->default('manual')
+                ->comment('Source of attendance data: RFID scanner, manual entry, bulk import, or portal clock-in')
+                ->change();
+        });
+    }
+
+    /**
+     * Reverse the migrations.
+     */
+    public function down(): void
+    {
+        Schema::table('attendance_events', function (Blueprint $table) {
+            $table->enum('source', ['edge_machine', 'manual', 'imported'])->default('manual')
+                ->comment('Source of attendance data: RFID scanner, manual entry, or bulk import')
+                ->change();
+        });
+
+        Schema::dropIfExists('mobile_punches');
+        Schema::dropIfExists('geofences');
+    }
+};
@@ -0,0 +1,34 @@
+<?php
+
+use Illuminate\Database\Migrations\Migration;
+use Illuminate\Database\Schema\Blueprint;
+use Illuminate\Support\Facades\Schema;
+
+return new class extends Migration
+{
+    /**
+     * Run the migrations.
+     *
+     * Client-generated key per tap, so a kiosk that retries a queued punch
+     * after a dropped connection never writes it to the ledger twice.
+     */
+    public function up(): void
+    {
+        Schema::table('rfid_ledger', function (Blueprint $table) {
+            $table->string('idempotency_key', 64)->nullable()->after('device_signature')
+                ->comment('Client-generated key; a retried tap with the same key is not re-inserted');
+            $table->unique(['device_id', 'idempotency_key'], 'uq_rfid_ledger_device_idempotency');
+        });
+    }
+
+    /**
+     * Reverse the migrations.
+     */
+    public function down(): void
+    {
+        Schema::table('rfid_ledger', function (Blueprint $table) {
+            $table->dropUnique('uq_rfid_ledger_device_idempotency');
+            $table->dropColumn('idempotency_key');
+        });
+    }
+};
@@ -0,0 +1,44 @@
+<?php
+
+use Illuminate\Database\Migrations\Migration;
+use Illuminate\Database\Schema\Blueprint;
+use Illuminate\Support\Facades\Schema;
+
+return new class extends Migration
+{
+    /**
+     * Run the migrations.
+     *
+     * Commands queued for RFID gate PCs and kiosks. Devices pick them up with
+     * their heartbeat and acknowledge each one; rows are kept as the device's
+     * command history.
+     */
+    public function up(): void
+    {
+        Schema::create('device_commands', function (Blueprint $table) {
+            $table->id();
+            $table->string('device_id', 255)->comment('rfid_devices.device_id the command is for');
+            $table->enum('command', ['force_sync', 'restart_service', 'clear_photo_cache', 'push_config', 'rotate_key']);
+            $table->json('payload')->nullable()->comment('Command arguments, e.g. pushed config values');
+            $table->text('secret')->nullable()->comment('Encrypted new API key for rotate_key; cleared once acknowledged');
+            $table->enum('status', ['pending', 'delivered', 'succeeded', 'failed', 'timed_out', 'cancelled'])->default('pending');
+            $table->foreignId('issued_by')->nullable()->constrained('users')->nullOnDelete();
+            $table->timestamp('delivered_at')->nullable()->comment('When a heartbeat handed it to the device');
+            $table->timestamp('acknowledged_at')->nullable();
+            $table->timestamp('expires_at')->comment('Unacknowledged by then = timed out');
+            $table->json('result')->nullable()->comment('Message and details reported by the device');
+            $table->timestamps();
+
+            $table->index(['device_id', 'status'], 'idx_device_commands_device_status');
+            $table->index(['device_id', 'created_at'], 'idx_device_commands_device_created');
+        });
+    }
+
+    /**
+     * Reverse the migrations.
+     */
+    public function down(): void
+    {
+        Schema::dropIfExists('device_commands');
+    }
+};
@@ -0,0 +1,42 @@
+<?php
+
+use Illuminate\Database\Migrations\Migration;
+use Illuminate\Database\Schema\Blueprint;
+use Illuminate\Support\Facades\Schema;
+
+return new class extends Migration
+{
+    /**
+     * Run the migrations.
+     *
+     * One row per tap a device sent, keyed by the row id in the device's local
+     * store (local_id). Duplicates never reach rfid_ledger, so the ledger alone
+     * cannot tell a rejected double tap from a tap that was lost; the receipts
+     * can, and missing local_ids are the device's sequence gaps.
+     */
+    public function up(): void
+    {
+        Schema::create('rfid_tap_receipts', function (Blueprint $table) {
+            $table->id();
+            $table->string('device_id', 255)->comment('rfid_devices.device_id that sent the tap');
+            $table->unsignedBigInteger('local_id')->comment('Row id in the device local store (buffer.db / kiosk IndexedDB)');
+            $table->string('card_uid', 255);
+            $table->timestamp('tapped_at')->comment('Device wall-clock time of the tap');
+            $table->enum('outcome', ['recorded', 'unknown_card', 'duplicate', 'backfilled'])
+                ->comment('recorded / unknown_card = written to the ledger live; backfilled = from a local store upload');
+            $table->unsignedBigInteger('sequence_id')->nullable()->comment('rfid_ledger.sequence_id, null for duplicates');
+            $table->timestamp('received_at')->useCurrent();
+
+            $table->index(['device_id', 'local_id'], 'idx_rfid_tap_receipts_device_local');
+            $table->index(['device_id', 'received_at'], 'idx_rfid_tap_receipts_device_received');
+        });
+    }
+
+    /**
+     * Reverse the migrations.
+     */
+    public function down(): void
+    {
+        Schema::dropIfExists('rfid_tap_receipts');
+    }
+};
@@ -0,0 +1,47 @@
+<?php
+
+use Illuminate\Database\Migrations\Migration;
+use Illuminate\Database\Schema\Blueprint;
+use Illuminate\Support\Facades\Schema;
+
+return new class extends Migration
+{
+    /**
+     * Run the migrations.
+     *
+     * Device clock drift as measured from the last heartbeat, and a sparse
+     * history of those measurements. Punch times come from the device clock,
+     * so a drifting clock shifts every tap it records.
+     */
+    public function up(): void
+    {
+        Schema::table('rfid_devices', function (Blueprint $table) {
+            $table->integer('clock_drift_seconds')->nullable()->after('last_heartbeat')
+                ->comment('Device clock minus server clock at the last heartbeat; positive = device runs ahead');
+            $table->timestamp('clock_checked_at')->nullable()->after('clock_drift_seconds');
+            $table->timestamp('clock_drift_alerted_at')->nullable()->after('clock_checked_at')
+                ->comment('When HR was told the clock is off; cleared once it is back within the threshold');
+        });
+
+        Schema::create('device_clock_samples', function (Blueprint $table) {
+            $table->id();
+            $table->string('device_id', 255)->comment('rfid_devices.device_id');
+            $table->integer('drift_seconds')->comment('Device clock minus server clock');
+            $table->timestamp('sampled_at')->comment('Server time of the heartbeat');
+
+            $table->index(['device_id', 'sampled_at'], 'idx_device_clock_samples_device_sampled');
+        });
+    }
+
+    /**
+     * Reverse the migrations.
+     */
+    public function down(): void
+    {
+        Schema::dropIfExists('device_clock_samples');
+
+        Schema::table('rfid_devices', function (Blueprint $table) {
+            $table->dropColumn(['clock_drift_seconds', 'clock_checked_at', 'clock_drift_alerted_at']);
+        });
+    }
+};
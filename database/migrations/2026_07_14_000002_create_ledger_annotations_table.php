@@ -0,0 +1,45 @@
+<?php
+
+use Illuminate\Database\Migrations\Migration;
+use Illuminate\Database\Schema\Blueprint;
+use Illuminate\Support\Facades\Schema;
+
+return new class extends Migration
+{
+    /**
+     * Run the migrations.
+     *
+     * Annotations over a device's ledger entries. rfid_ledger is append-only, so
+     * a correction such as re-basing a drifting clock is recorded here and
+     * applied to the attendance events derived from the ledger; the ledger rows
+     * and their hashes stay as the device wrote them.
+     */
+    public function up(): void
+    {
+        Schema::create('ledger_annotations', function (Blueprint $table) {
+            $table->id();
+            $table->string('device_id', 255)->comment('rfid_devices.device_id the annotation covers');
+            $table->enum('type', ['clock_correction']);
+            $table->timestamp('window_start')->comment('First scan_timestamp covered, in device time');
+            $table->timestamp('window_end')->comment('Last scan_timestamp covered, in device time');
+            $table->integer('offset_seconds')->nullable()->comment('clock_correction: seconds added to device time');
+            $table->unsignedBigInteger('first_sequence_id')->nullable()->comment('Lowest ledger sequence_id in the window when annotated');
+            $table->unsignedBigInteger('last_sequence_id')->nullable()->comment('Highest ledger sequence_id in the window when annotated');
+            $table->unsignedInteger('ledger_entries')->default(0)->comment('Ledger entries in the window when annotated');
+            $table->unsignedInteger('events_corrected')->default(0)->comment('Attendance events re-based');
+            $table->text('reason');
+            $table->foreignId('created_by')->nullable()->constrained('users')->nullOnDelete();
+            $table->timestamps();
+
+            $table->index(['device_id', 'type', 'window_start', 'window_end'], 'idx_ledger_annotations_device_window');
+        });
+    }
+
+    /**
+     * Reverse the migrations.
+     */
+    public function down(): void
+    {
+        Schema::dropIfExists('ledger_annotations');
+    }
+};
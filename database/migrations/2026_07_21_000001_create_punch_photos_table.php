@@ -0,0 +1,50 @@
+<?php
+
+use Illuminate\Database\Migrations\Migration;
+use Illuminate\Database\Schema\Blueprint;
+use Illuminate\Support\Facades\Schema;
+
+return new class extends Migration
+{
+    /**
+     * Run the migrations.
+     *
+     * Photos a gate PC or kiosk camera took at the moment of a tap, keyed like
+     * the tap by the device's local store id. Only punches picked by the
+     * sampling rules, or flagged by an anomaly, are queued for HR to compare
+     * with the employee's profile photo.
+     */
+    public function up(): void
+    {
+        Schema::create('punch_photos', function (Blueprint $table) {
+            $table->id();
+            $table->string('device_id', 255)->comment('rfid_devices.device_id that took the photo');
+            $table->unsignedBigInteger('local_id')->comment('Local store id of the tap the photo belongs to');
+            $table->unsignedBigInteger('sequence_id')->nullable()->comment('rfid_ledger.sequence_id of the tap');
+            $table->foreignId('employee_id')->nullable()->constrained('employees')->nullOnDelete()
+                ->comment('Card holder at the time of the tap');
+            $table->timestamp('captured_at')->comment('Device time of the tap');
+            $table->string('path')->comment('Path on the local disk');
+            $table->enum('review_status', ['not_selected', 'pending', 'approved', 'proxy'])->default('not_selected');
+            $table->enum('review_reason', ['random_sample', 'late_night', 'anomaly'])->nullable()
+                ->comment('Why the punch was queued for review');
+            $table->foreignId('reviewed_by')->nullable()->constrained('users')->nullOnDelete();
+            $table->timestamp('reviewed_at')->nullable();
+            $table->text('review_notes')->nullable();
+            $table->timestamps();
+
+            $table->unique(['device_id', 'local_id'], 'uniq_punch_photos_device_local');
+            $table->index('sequence_id');
+            $table->index(['review_status', 'captured_at'], 'idx_punch_photos_status_captured');
+            $table->index(['employee_id', 'captured_at'], 'idx_punch_photos_employee_captured');
+        });
+    }
+
+    /**
+     * Reverse the migrations.
+     */
+    public function down(): void
+    {
+        Schema::dropIfExists('punch_photos');
+    }
+};
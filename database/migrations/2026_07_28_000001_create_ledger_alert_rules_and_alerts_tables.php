@@ -0,0 +1,72 @@
+<?php
+
+use Illuminate\Database\Migrations\Migration;
+use Illuminate\Database\Schema\Blueprint;
+use Illuminate\Support\Facades\Schema;
+
+return new class extends Migration
+{
+    /**
+     * Run the migrations.
+     *
+     * Admin-defined alert rules on ledger health metrics and the alerts they
+     * raise. Alerts are kept after they resolve as the alert history; the rule
+     * name and metric are copied so history survives a deleted rule.
+     */
+    public function up(): void
+    {
+        Schema::create('ledger_alert_rules', function (Blueprint $table) {
+            $table->id();
+            $table->string('name', 100);
+            $table->enum('metric', ['backlog_depth', 'processing_rate', 'hash_failures', 'device_offline', 'gate_silent_at_shift_start']);
+            $table->unsignedInteger('threshold')->comment('Events, events/hour, failures or minutes, depending on the metric');
+            $table->string('device_id', 255)->nullable()->comment('Limits device metrics to one rfid_devices.device_id; null = every device');
+            $table->enum('severity', ['info', 'warning', 'critical'])->default('warning');
+            $table->boolean('notify_in_app')->default(true);
+            $table->boolean('notify_email')->default(false);
+            $table->json('recipient_user_ids')->nullable()->comment('Users notified in-app, and by email when notify_email is on');
+            $table->json('email_addresses')->nullable()->comment('Extra addresses for the email channel, e.g. an on-call mailbox');
+            $table->boolean('is_enabled')->default(true);
+            $table->foreignId('created_by')->nullable()->constrained('users')->nullOnDelete();
+            $table->foreignId('updated_by')->nullable()->constrained('users')->nullOnDelete();
+            $table->timestamps();
+
+            $table->index(['is_enabled', 'metric'], 'idx_ledger_alert_rules_enabled_metric');
+        });
+
+        Schema::create('ledger_alerts', function (Blueprint $table) {
+            $table->id();
+            $table->foreignId('ledger_alert_rule_id')->nullable()->constrained('ledger_alert_rules')->nullOnDelete();
+            $table->string('rule_name', 100);
+            $table->string('metric', 50);
+            $table->string('subject', 255)->comment('What breached: ledger, a device_id, or device_id@shift start');
+            $table->enum('severity', ['info', 'warning', 'critical']);
+            $table->enum('status', ['open', 'acknowledged', 'snoozed', 'resolved'])->default('open');
+            $table->string('message', 500);
+            $table->integer('value')->nullable()->comment('Metric value at the last evaluation');
+            $table->json('context')->nullable();
+            $table->timestamp('triggered_at');
+            $table->timestamp('last_seen_at')->comment('Last evaluation that found the breach');
+            $table->timestamp('notified_at')->nullable();
+            $table->unsignedInteger('notification_count')->default(0);
+            $table->foreignId('acknowledged_by')->nullable()->constrained('users')->nullOnDelete();
+            $table->timestamp('acknowledged_at')->nullable();
+            $table->foreignId('snoozed_by')->nullable()->constrained('users')->nullOnDelete();
+            $table->timestamp('snoozed_until')->nullable();
+            $table->timestamp('resolved_at')->nullable();
+            $table->timestamps();
+
+            $table->index(['ledger_alert_rule_id', 'subject', 'status'], 'idx_ledger_alerts_rule_subject_status');
+            $table->index(['status', 'triggered_at'], 'idx_ledger_alerts_status_triggered');
+        });
+    }
+
+    /**
+     * Reverse the migrations.
+     */
+    public function down(): void
+    {
+        Schema::dropIfExists('ledger_alerts');
+        Schema::dropIfExists('ledger_alert_rules');
+    }
+};
@@ -0,0 +1,62 @@
+<?php
+
+use Illuminate\Database\Migrations\Migration;
+use Illuminate\Database\Schema\Blueprint;
+use Illuminate\Support\Facades\Schema;
+
+return new class extends Migration
+{
+    /**
+     * Run the migrations.
+     *
+     * Generated schedule drafts: the coverage targets a department's schedule
+     * was generated for, the proposed shifts and the coverage gaps left over.
+     * Draft shifts only become shift_assignments when the draft is published.
+     */
+    public function up(): void
+    {
+        Schema::create('schedule_drafts', function (Blueprint $table) {
+            $table->id();
+            $table->foreignId('department_id')->constrained('departments')->cascadeOnDelete();
+            $table->date('date_from');
+            $table->date('date_to');
+            $table->json('coverage_targets')->comment('Rows of shift_type, schedule_id, shift_start, shift_end and headcount per weekday');
+            $table->json('gaps')->nullable()->comment('Unmet coverage per date and shift type, refreshed on every change');
+            $table->enum('status', ['draft', 'published', 'discarded'])->default('draft');
+            $table->foreignId('created_by')->nullable()->constrained('users')->nullOnDelete();
+            $table->foreignId('published_by')->nullable()->constrained('users')->nullOnDelete();
+            $table->timestamp('published_at')->nullable();
+            $table->timestamps();
+
+            $table->index(['department_id', 'status'], 'idx_schedule_drafts_department_status');
+        });
+
+        Schema::create('schedule_draft_shifts', function (Blueprint $table) {
+            $table->id();
+            $table->foreignId('schedule_draft_id')->constrained('schedule_drafts')->cascadeOnDelete();
+            $table->foreignId('employee_id')->constrained('employees')->cascadeOnDelete();
+            $table->foreignId('schedule_id')->constrained('work_schedules')->cascadeOnDelete();
+            $table->foreignId('rotation_assignment_id')->nullable()->constrained('rotation_assignments')->nullOnDelete();
+            $table->date('date');
+            $table->enum('shift_type', ['morning', 'afternoon', 'night', 'split', 'custom']);
+            $table->time('shift_start');
+            $table->time('shift_end');
+            $table->enum('source', ['rotation', 'generated', 'manual'])->comment('rotation = a rotation work day, generated = filled by the generator, manual = added during review');
+            $table->boolean('has_conflict')->default(false);
+            $table->string('conflict_reason', 255)->nullable();
+            $table->timestamps();
+
+            $table->unique(['schedule_draft_id', 'employee_id', 'date', 'shift_start'], 'uniq_schedule_draft_shifts_employee_shift');
+            $table->index(['schedule_draft_id', 'date'], 'idx_schedule_draft_shifts_draft_date');
+        });
+    }
+
+    /**
+     * Reverse the migrations.
+     */
+    public function down(): void
+    {
+        Schema::dropIfExists('schedule_draft_shifts');
+        Schema::dropIfExists('schedule_drafts');
+    }
+};
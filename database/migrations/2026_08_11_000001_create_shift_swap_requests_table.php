@@ -0,0 +1,51 @@
+<?php
+
+use Illuminate\Database\Migrations\Migration;
+use Illuminate\Database\Schema\Blueprint;
+use Illuminate\Support\Facades\Schema;
+
+return new class extends Migration
+{
+    /**
+     * Run the migrations.
+     *
+     * Shift swap marketplace: an employee gives a shift away to whoever picks
+     * it up, or proposes swapping it with a coworker's shift. The department
+     * head approves before the shift assignments change hands.
+     */
+    public function up(): void
+    {
+        Schema::create('shift_swap_requests', function (Blueprint $table) {
+            $table->id();
+            $table->enum('type', ['giveaway', 'swap']);
+            $table->foreignId('shift_assignment_id')->constrained('shift_assignments')->cascadeOnDelete();
+            $table->foreignId('requester_id')->constrained('employees')->cascadeOnDelete();
+            $table->foreignId('department_id')->nullable()->constrained('departments')->nullOnDelete();
+            $table->foreignId('target_employee_id')->nullable()->constrained('employees')->cascadeOnDelete()
+                ->comment('Swap partner, or the coworker who picked up a giveaway');
+            $table->foreignId('target_shift_assignment_id')->nullable()->constrained('shift_assignments')->cascadeOnDelete()
+                ->comment('The coworker shift offered in return (swaps only)');
+            $table->enum('status', ['open', 'pending_coworker', 'pending_approval', 'approved', 'rejected', 'declined', 'cancelled'])
+                ->comment('open = giveaway waiting for a taker, pending_coworker = swap waiting for the coworker');
+            $table->json('eligibility')->nullable()->comment('Issues found by the last eligibility check: type, message, blocking');
+            $table->string('note', 500)->nullable();
+            $table->timestamp('responded_at')->nullable()->comment('When the coworker picked up or answered');
+            $table->foreignId('decided_by')->nullable()->constrained('users')->nullOnDelete();
+            $table->timestamp('decided_at')->nullable();
+            $table->string('decision_note', 500)->nullable();
+            $table->timestamps();
+
+            $table->index(['department_id', 'status'], 'idx_shift_swaps_department_status');
+            $table->index(['requester_id', 'status'], 'idx_shift_swaps_requester_status');
+            $table->index(['target_employee_id', 'status'], 'idx_shift_swaps_target_status');
+        });
+    }
+
+    /**
+     * Reverse the migrations.
+     */
+    public function down(): void
+    {
+        Schema::dropIfExists('shift_swap_requests');
+    }
+};
@@ -0,0 +1,44 @@
+<?php
+
+use Illuminate\Database\Migrations\Migration;
+use Illuminate\Database\Schema\Blueprint;
+use Illuminate\Support\Facades\Schema;
+
+return new class extends Migration
+{
+    /**
+     * Run the migrations.
+     *
+     * Published versions of a work schedule: either the schedule's own hours
+     * (week_start null) or one week of its shift assignments. Versions are
+     * never edited; the employee portal shows the latest one while HR keeps
+     * editing the live schedule.
+     */
+    public function up(): void
+    {
+        Schema::create('schedule_versions', function (Blueprint $table) {
+            $table->id();
+            $table->foreignId('work_schedule_id')->constrained('work_schedules')->cascadeOnDelete();
+            $table->date('week_start')->nullable()->comment('Monday of the published week; null for the schedule hours');
+            $table->unsignedInteger('version');
+            $table->json('snapshot')->comment('Schedule hours and shifts as published');
+            $table->json('diff')->comment('Changes against the previous version: hours, gained, lost, changed');
+            $table->unsignedInteger('notified_count')->default(0);
+            $table->string('note', 500)->nullable();
+            $table->foreignId('published_by')->nullable()->constrained('users')->nullOnDelete();
+            $table->timestamp('published_at');
+            $table->timestamps();
+
+            $table->unique(['work_schedule_id', 'week_start', 'version'], 'uniq_schedule_versions_scope_version');
+            $table->index('week_start', 'idx_schedule_versions_week');
+        });
+    }
+
+    /**
+     * Reverse the migrations.
+     */
+    public function down(): void
+    {
+        Schema::dropIfExists('schedule_versions');
+    }
+};
@@ -0,0 +1,45 @@
+<?php
+
+use Illuminate\Database\Migrations\Migration;
+use Illuminate\Database\Schema\Blueprint;
+use Illuminate\Support\Facades\DB;
+use Illuminate\Support\Facades\Schema;
+
+return new class extends Migration
+{
+    /**
+     * Run the migrations.
+     *
+     * Links interviews to the interviewer's user account and records where
+     * they take place, so interviews can be published in the interviewer's
+     * calendar feed.
+     */
+    public function up(): void
+    {
+        Schema::table('interviews', function (Blueprint $table) {
+            if (!Schema::hasColumn('interviews', 'interviewer_id')) {
+                $table->foreignId('interviewer_id')->nullable()->after('interviewer_name')->constrained('users')->nullOnDelete();
+            }
+            if (!Schema::hasColumn('interviews', 'location')) {
+                $table->string('location')->nullable()->after('location_type')->comment('Room or address for office interviews');
+            }
+            if (!Schema::hasColumn('interviews', 'meeting_link')) {
+                $table->string('meeting_link', 500)->nullable()->after('location');
+            }
+        });
+
+        // Existing interviews only name the interviewer; link them only where exactly one user has that name
+        DB::statement('UPDATE interviews SET interviewer_id = (SELECT MIN(users.id) FROM users WHERE users.name = interviews.interviewer_name) WHERE interviewer_id IS NULL AND (SELECT COUNT(*) FROM users WHERE users.name = interviews.interviewer_name) = 1');
+    }
+
+    /**
+     * Reverse the migrations.
+     */
+    public function down(): void
+    {
+        Schema::table('interviews', function (Blueprint $table) {
+            $table->dropForeign(['interviewer_id']);
+            $table->dropColumn(['interviewer_id', 'location', 'meeting_link']);
+        });
+    }
+};
@@ -0,0 +1,38 @@
+<?php
+
+use Illuminate\Database\Migrations\Migration;
+use Illuminate\Database\Schema\Blueprint;
+use Illuminate\Support\Facades\Schema;
+
+return new class extends Migration
+{
+    /**
+     * Run the migrations.
+     *
+     * Secret iCalendar feed URLs: each token lets a calendar app read one
+     * user's shifts, approved leave and interviews without signing in.
+     */
+    public function up(): void
+    {
+        Schema::create('calendar_feed_tokens', function (Blueprint $table) {
+            $table->id();
+            $table->foreignId('user_id')->constrained('users')->cascadeOnDelete();
+            $table->string('name', 60)->comment('Label chosen by the user, e.g. the device');
+            $table->string('token_hash', 64)->unique()->comment('SHA-256 of the token in the feed URL');
+            $table->string('token_prefix', 8)->comment('Shown to tell feeds apart');
+            $table->timestamp('last_used_at')->nullable();
+            $table->timestamp('revoked_at')->nullable();
+            $table->timestamps();
+
+            $table->index(['user_id', 'revoked_at'], 'idx_calendar_feed_tokens_user');
+        });
+    }
+
+    /**
+     * Reverse the migrations.
+     */
+    public function down(): void
+    {
+        Schema::dropIfExists('calendar_feed_tokens');
+    }
+};
@@ -0,0 +1,32 @@
+<?php
+
+use Illuminate\Database\Migrations\Migration;
+use Illuminate\Database\Schema\Blueprint;
+use Illuminate\Support\Facades\Schema;
+
+return new class extends Migration
+{
+    /**
+     * Run the migrations.
+     *
+     * Key replaced by the last rotate_key command. It keeps authenticating the
+     * device until the device first uses its new key.
+     */
+    public function up(): void
+    {
+        Schema::table('rfid_devices', function (Blueprint $table) {
+            $table->string('previous_api_key', 64)->nullable()->unique()->after('api_key');
+        });
+    }
+
+    /**
+     * Reverse the migrations.
+     */
+    public function down(): void
+    {
+        Schema::table('rfid_devices', function (Blueprint $table) {
+            $table->dropUnique(['previous_api_key']);
+            $table->dropColumn('previous_api_key');
+        });
+    }
+};
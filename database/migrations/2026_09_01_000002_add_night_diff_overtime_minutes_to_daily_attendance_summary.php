@@ -0,0 +1,32 @@
+<?php
+
+use Illuminate\Database\Migrations\Migration;
+use Illuminate\Database\Schema\Blueprint;
+use Illuminate\Support\Facades\Schema;
+
+return new class extends Migration
+{
+    /**
+     * Run the migrations.
+     *
+     * The part of night_diff_minutes worked as overtime, whose night premium
+     * is paid on the overtime rate instead of the regular one.
+     */
+    public function up(): void
+    {
+        Schema::table('daily_attendance_summary', function (Blueprint $table) {
+            $table->unsignedInteger('night_diff_overtime_minutes')->default(0)->after('night_diff_minutes')
+                ->comment('Of night_diff_minutes, those inside the overtime hours');
+        });
+    }
+
+    /**
+     * Reverse the migrations.
+     */
+    public function down(): void
+    {
+        Schema::table('daily_attendance_summary', function (Blueprint $table) {
+            $table->dropColumn('night_diff_overtime_minutes');
+        });
+    }
+};
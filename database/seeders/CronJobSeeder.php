@@ -97,6 +97,30 @@ public function run(): void
                 'last_run_at' => null,
                 'last_exit_code' => null,
             ],
+            [
+                'name' => 'Evaluate Ledger Alert Rules',
+                'description' => 'Check the configured ledger health alert rules, notify recipients of new alerts and resolve cleared ones.',
+                'command' => 'timekeeping:evaluate-ledger-alerts',
+                'cron_expression' => '* * * * *', // Every minute
+                'is_enabled' => true,
+                'run_count' => 0,
+                'success_count' => 0,
+                'failure_count' => 0,
+                'last_run_at' => null,
+                'last_exit_code' => null,
+            ],
+            [
+                'name' => 'Detect Missing Exits',
+                'description' => 'Flag time-ins of the two previous days that have no matching time-out for HR review.',
+                'command' => 'timekeeping:detect-missing-exits',
+                'cron_expression' => '0 6 * * *', // Daily at 6 AM
+                'is_enabled' => true,
+                'run_count' => 0,
+                'success_count' => 0,
+                'failure_count' => 0,
+                'last_run_at' => null,
+                'last_exit_code' => null,
+            ],
             // --- Leave Management ---
             [
                 'name' => 'Process Monthly Leave Accrual',
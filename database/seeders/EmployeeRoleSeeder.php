@@ -31,6 +31,11 @@ public function run(): void
             // Attendance (Self-Service)
             'employee.attendance.view' => 'View own attendance records and time logs',
             'employee.attendance.report' => 'Report attendance issues (missing punch, wrong time)',
+            'employee.attendance.clock-in' => 'Clock in/out from the portal with location (field staff)',
+
+            // Shifts & Swaps (Self-Service)
+            'employee.shifts.view' => 'View own upcoming shifts and open shifts in own department',
+            'employee.shifts.swap' => 'Give away, swap and pick up shifts - requires department head approval',
 
             // Payslips (Self-Service)
             'employee.payslips.view' => 'View own payslips',
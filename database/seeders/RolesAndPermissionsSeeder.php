@@ -90,6 +90,7 @@ public function run(): void
             'hr.workforce.schedules.view',
             'hr.workforce.schedules.create',
             'hr.workforce.schedules.update',
+            'hr.workforce.schedules.publish',
             'hr.workforce.rotations.view',
             'hr.workforce.rotations.create',
             'hr.workforce.rotations.update',
@@ -97,6 +98,7 @@ public function run(): void
             'hr.workforce.assignments.create',
             'hr.workforce.assignments.update',
             'hr.workforce.assignments.manage',
+            'hr.workforce.shift-swaps.approve',
 
             // Appraisals
             'hr.appraisals.view',
@@ -42,13 +42,14 @@ public function run(): void
             ['key' => 'business_rules.working_hours.work_days',      'value' => '["Monday","Tuesday","Wednesday","Thursday","Friday"]', 'type' => 'json', 'category' => 'business_rules'],
             ['key' => 'business_rules.working_hours.hours_per_day',  'value' => '8',     'type' => 'integer', 'category' => 'business_rules'],
 
-            // ── BUSINESS RULES - OVERTIME (6 keys) ──────────────────────────────
+            // ── BUSINESS RULES - OVERTIME (7 keys) ──────────────────────────────
             ['key' => 'business_rules.overtime.enabled',             'value' => '1',     'type' => 'boolean', 'category' => 'business_rules'],
             ['key' => 'business_rules.overtime.min_hours',           'value' => '0.5',   'type' => 'float',   'category' => 'business_rules'],
             ['key' => 'business_rules.overtime.max_daily_overtime',  'value' => '4',     'type' => 'float',   'category' => 'business_rules'],
             ['key' => 'business_rules.overtime.requires_approval',   'value' => '1',     'type' => 'boolean', 'category' => 'business_rules'],
             ['key' => 'business_rules.overtime.night_differential_start', 'value' => '22:00', 'type' => 'string', 'category' => 'business_rules'],
             ['key' => 'business_rules.overtime.night_differential_end',   'value' => '06:00', 'type' => 'string', 'category' => 'business_rules'],
+            ['key' => 'business_rules.overtime.night_differential_rate',  'value' => '0.10',  'type' => 'float',  'category' => 'business_rules'],
 
             // ── BUSINESS RULES - ATTENDANCE (4 keys) ────────────────────────────
             ['key' => 'business_rules.attendance.grace_period_minutes', 'value' => '15', 'type' => 'integer', 'category' => 'business_rules'],
@@ -1,5 +1,5 @@
 import { useForm } from '@inertiajs/react';
-import { AlertCircle, Clock, DollarSign, UserX } from 'lucide-react';
+import { AlertCircle, Clock, DollarSign, MoonStar, UserX } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Card } from '@/components/ui/card';
 import { Input } from '@/components/ui/input';
@@ -24,6 +24,8 @@ interface AttendancePoliciesFormProps {
         undertime_deduction_type: 'proportional' | 'fixed' | 'none';
         absence_with_leave_deduction: number;
         absence_without_leave_deduction: number;
+        shift_early_in_tolerance_minutes: number;
+        shift_late_out_tolerance_minutes: number;
     };
 }
 
@@ -38,6 +40,8 @@ export function AttendancePoliciesForm({ attendanceRules }: AttendancePoliciesFo
         undertime_deduction_type: attendanceRules.undertime_deduction_type || 'proportional',
         absence_with_leave_deduction: attendanceRules.absence_with_leave_deduction !== undefined ? attendanceRules.absence_with_leave_deduction : 0,
         absence_without_leave_deduction: attendanceRules.absence_without_leave_deduction !== undefined ? attendanceRules.absence_without_leave_deduction : 1,
+        shift_early_in_tolerance_minutes: attendanceRules.shift_early_in_tolerance_minutes ?? 120,
+        shift_late_out_tolerance_minutes: attendanceRules.shift_late_out_tolerance_minutes ?? 240,
     });
 
     const handleSubmit = (e: React.FormEvent) => {
@@ -82,7 +86,7 @@ export function AttendancePoliciesForm({ attendanceRules }: AttendancePoliciesFo
                 <div>
                     <h3 className="text-lg font-semibold">Attendance Policies Configuration</h3>
                     <p className="text-sm text-muted-foreground">
-                        Define grace period, late deductions, undertime rules, and absence handling
+                        Define grace period, late deductions, undertime rules, absence handling, and shift punch pairing
                     </p>
                 </div>
 
@@ -319,6 +323,67 @@ export function AttendancePoliciesForm({ attendanceRules }: AttendancePoliciesFo
                     </Alert>
                 </div>
 
+                {/* Shift Punch Pairing */}
+                <div className="space-y-4">
+                    <h4 className="text-sm font-semibold flex items-center gap-2">
+                        <MoonStar className="h-4 w-4" />
+                        Shift Punch Pairing
+                    </h4>
+
+                    <div className="grid gap-4 md:grid-cols-2">
+                        <div className="space-y-2">
+                            <Label htmlFor="shift_early_in_tolerance_minutes">
+                                Early Time In Tolerance
+                                <span className="text-destructive ml-1">*</span>
+                            </Label>
+                            <div className="flex items-center gap-2">
+                                <Input
+                                    id="shift_early_in_tolerance_minutes"
+                                    type="number"
+                                    min="0"
+                                    max="480"
+                                    step="1"
+                                    value={data.shift_early_in_tolerance_minutes}
+                                    onChange={(e) => setData('shift_early_in_tolerance_minutes', parseInt(e.target.value))}
+                                    className={`w-32 ${errors.shift_early_in_tolerance_minutes ? 'border-destructive' : ''}`}
+                                />
+                                <span className="text-sm text-muted-foreground">minutes before shift start</span>
+                            </div>
+                            {errors.shift_early_in_tolerance_minutes && (
+                                <p className="text-sm text-destructive">{errors.shift_early_in_tolerance_minutes}</p>
+                            )}
+                        </div>
+
+                        <div className="space-y-2">
+                            <Label htmlFor="shift_late_out_tolerance_minutes">
+                                Late Time Out Tolerance
+                                <span className="text-destructive ml-1">*</span>
+                            </Label>
+                            <div className="flex items-center gap-2">
+                                <Input
+                                    id="shift_late_out_tolerance_minutes"
+                                    type="number"
+                                    min="0"
+                                    max="480"
+                                    step="1"
+                                    value={data.shift_late_out_tolerance_minutes}
+                                    onChange={(e) => setData('shift_late_out_tolerance_minutes', parseInt(e.target.value))}
+                                    className={`w-32 ${errors.shift_late_out_tolerance_minutes ? 'border-destructive' : ''}`}
+                                />
+                                <span className="text-sm text-muted-foreground">minutes after shift end</span>
+                            </div>
+                            {errors.shift_late_out_tolerance_minutes && (
+                                <p className="text-sm text-destructive">{errors.shift_late_out_tolerance_minutes}</p>
+                            )}
+                        </div>
+                    </div>
+
+                    <p className="text-sm text-muted-foreground">
+                        Punches within these limits of an assigned shift count toward the day the shift starts,
+                        so a night shift's time out after midnight is paired with its time in
+                    </p>
+                </div>
+
                 {/* Action Buttons */}
                 <div className="flex justify-end gap-2 pt-4 border-t">
                     <Button type="submit" disabled={processing}>
@@ -1,5 +1,5 @@
 import { useForm } from '@inertiajs/react';
-import { AlertCircle, Clock, DollarSign } from 'lucide-react';
+import { AlertCircle, Clock, DollarSign, MoonStar } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Card } from '@/components/ui/card';
 import { Input } from '@/components/ui/input';
@@ -18,6 +18,9 @@ interface OvertimeRulesFormProps {
         max_hours_per_week: number;
         auto_approve_threshold: number;
         requires_approval: boolean;
+        night_differential_start: string;
+        night_differential_end: string;
+        night_differential_rate: number;
     };
 }
 
@@ -33,6 +36,9 @@ export function OvertimeRulesForm({ overtimeRules }: OvertimeRulesFormProps) {
         max_hours_per_week: overtimeRules.max_hours_per_week || 20,
         auto_approve_threshold: overtimeRules.auto_approve_threshold || 2,
         requires_approval: overtimeRules.requires_approval !== undefined ? overtimeRules.requires_approval : true,
+        night_differential_start: overtimeRules.night_differential_start || '22:00',
+        night_differential_end: overtimeRules.night_differential_end || '06:00',
+        night_differential_rate: overtimeRules.night_differential_rate || 0.1,
     });
 
     const handleSubmit = (e: React.FormEvent) => {
@@ -65,10 +71,13 @@ export function OvertimeRulesForm({ overtimeRules }: OvertimeRulesFormProps) {
         const holidayOT = baseHourlyRate * data.rate_holiday * overtimeHours;
         const restDayOT = baseHourlyRate * data.rate_rest_day * overtimeHours;
 
+        const nightDiff = baseHourlyRate * data.night_differential_rate * overtimeHours;
+
         return {
             regular: regularOT.toFixed(2),
             holiday: holidayOT.toFixed(2),
             restDay: restDayOT.toFixed(2),
+            nightDiff: nightDiff.toFixed(2),
         };
     };
 
@@ -209,6 +218,80 @@ export function OvertimeRulesForm({ overtimeRules }: OvertimeRulesFormProps) {
                     </div>
                 </div>
 
+                {/* Night Differential */}
+                <div className="space-y-4">
+                    <h4 className="text-sm font-semibold flex items-center gap-2">
+                        <MoonStar className="h-4 w-4" />
+                        Night Differential
+                    </h4>
+
+                    <div className="grid gap-4 md:grid-cols-3">
+                        {/* Window Start */}
+                        <div className="space-y-2">
+                            <Label htmlFor="night_differential_start">
+                                Window Start
+                                <span className="text-destructive ml-1">*</span>
+                            </Label>
+                            <Input
+                                id="night_differential_start"
+                                type="time"
+                                value={data.night_differential_start}
+                                onChange={(e) => setData('night_differential_start', e.target.value)}
+                                className={`w-32 ${errors.night_differential_start ? 'border-destructive' : ''}`}
+                            />
+                            {errors.night_differential_start && (
+                                <p className="text-sm text-destructive">{errors.night_differential_start}</p>
+                            )}
+                        </div>
+
+                        {/* Window End */}
+                        <div className="space-y-2">
+                            <Label htmlFor="night_differential_end">
+                                Window End
+                                <span className="text-destructive ml-1">*</span>
+                            </Label>
+                            <Input
+                                id="night_differential_end"
+                                type="time"
+                                value={data.night_differential_end}
+                                onChange={(e) => setData('night_differential_end', e.target.value)}
+                                className={`w-32 ${errors.night_differential_end ? 'border-destructive' : ''}`}
+                            />
+                            {errors.night_differential_end && (
+                                <p className="text-sm text-destructive">{errors.night_differential_end}</p>
+                            )}
+                        </div>
+
+                        {/* Premium Rate */}
+                        <div className="space-y-2">
+                            <Label htmlFor="night_differential_rate">
+                                Premium
+                                <span className="text-destructive ml-1">*</span>
+                            </Label>
+                            <div className="flex items-center gap-2">
+                                <Input
+                                    id="night_differential_rate"
+                                    type="number"
+                                    min="10"
+                                    max="100"
+                                    step="1"
+                                    value={Math.round(data.night_differential_rate * 100)}
+                                    onChange={(e) => setData('night_differential_rate', parseFloat(e.target.value) / 100)}
+                                    className={`w-24 ${errors.night_differential_rate ? 'border-destructive' : ''}`}
+                                />
+                                <span className="text-sm text-muted-foreground">% of hourly rate</span>
+                            </div>
+                            {errors.night_differential_rate && (
+                                <p className="text-sm text-destructive">{errors.night_differential_rate}</p>
+                            )}
+                        </div>
+                    </div>
+                    <p className="text-sm text-muted-foreground">
+                        Hours worked inside this window earn the premium on top of their pay.
+                        Minimum: 10% from 10:00 PM to 6:00 AM (Philippine Labor Code, Art. 86)
+                    </p>
+                </div>
+
                 {/* Maximum Limits */}
                 <div className="space-y-4">
                     <h4 className="text-sm font-semibold flex items-center gap-2">
@@ -324,6 +407,7 @@ export function OvertimeRulesForm({ overtimeRules }: OvertimeRulesFormProps) {
                             <li>• Regular Day OT: ₱{samplePay.regular} ({data.rate_regular}x)</li>
                             <li>• Holiday OT: ₱{samplePay.holiday} ({data.rate_holiday}x)</li>
                             <li>• Rest Day OT: ₱{samplePay.restDay} ({data.rate_rest_day}x)</li>
+                            <li>• Night Differential: ₱{samplePay.nightDiff} ({Math.round(data.night_differential_rate * 100)}%)</li>
                         </ul>
                     </AlertDescription>
                 </Alert>
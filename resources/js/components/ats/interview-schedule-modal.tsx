@@ -18,7 +18,7 @@ import {
   SelectTrigger,
   SelectValue,
 } from '@/components/ui/select';
-import { Calendar, Clock, MapPin } from 'lucide-react';
+import { Calendar, Clock, Link2, MapPin } from 'lucide-react';
 import type { InterviewLocationType } from '@/types/ats-pages';
 
 export interface ScheduleInterviewData {
@@ -26,6 +26,8 @@ export interface ScheduleInterviewData {
   scheduled_time: string;
   duration_minutes: number;
   location_type: InterviewLocationType;
+  location?: string;
+  meeting_link?: string;
 }
 
 interface InterviewScheduleModalProps {
@@ -53,6 +55,8 @@ export function InterviewScheduleModal({
     scheduled_time: scheduledTime || '',
     duration_minutes: 30,
     location_type: 'office',
+    location: '',
+    meeting_link: '',
   });
   const [isLoading, setIsLoading] = useState(false);
 
@@ -70,13 +74,20 @@ export function InterviewScheduleModal({
     if (!formData.scheduled_date || !formData.scheduled_time) return;
     setIsLoading(true);
     try {
-      await onSubmit(formData);
+      // Leave blank fields out so a reschedule keeps the saved location and link
+      await onSubmit({
+        ...formData,
+        location: formData.location || undefined,
+        meeting_link: formData.meeting_link || undefined,
+      });
       onClose();
       setFormData({
         scheduled_date: '',
         scheduled_time: '',
         duration_minutes: 30,
         location_type: 'office',
+        location: '',
+        meeting_link: '',
       });
     } finally {
       setIsLoading(false);
@@ -160,10 +171,34 @@ export function InterviewScheduleModal({
               <SelectContent>
                 <SelectItem value="office">Office</SelectItem>
                 <SelectItem value="phone">Phone</SelectItem>
-                <SelectItem value="video">Video Conference</SelectItem>
+                <SelectItem value="video_call">Video Conference</SelectItem>
               </SelectContent>
             </Select>
           </div>
+
+          {formData.location_type === 'video_call' ? (
+            <div className="space-y-2">
+              <Label htmlFor="meeting_link" className="flex items-center gap-2"><Link2 className="h-4 w-4" />Meeting Link</Label>
+              <Input
+                id="meeting_link"
+                type="url"
+                placeholder="https://"
+                value={formData.meeting_link}
+                onChange={(e) => setFormData((prev) => ({ ...prev, meeting_link: e.target.value }))}
+                disabled={isLoading}
+              />
+            </div>
+          ) : (
+            <div className="space-y-2">
+              <Label htmlFor="location">{formData.location_type === 'phone' ? 'Phone Number' : 'Address / Room'}</Label>
+              <Input
+                id="location"
+                value={formData.location}
+                onChange={(e) => setFormData((prev) => ({ ...prev, location: e.target.value }))}
+                disabled={isLoading}
+              />
+            </div>
+          )}
         </div>
 
         <DialogFooter>
@@ -0,0 +1,227 @@
+import { router } from '@inertiajs/react';
+import { useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+    Select,
+    SelectContent,
+    SelectItem,
+    SelectTrigger,
+    SelectValue,
+} from '@/components/ui/select';
+import { AlertCircle, Loader2, MapPin, Smartphone } from 'lucide-react';
+import { format, parseISO } from 'date-fns';
+
+// ============================================================================
+// Type Definitions
+// ============================================================================
+
+type PunchType = 'time_in' | 'time_out' | 'break_start' | 'break_end';
+
+export interface MobileClockInState {
+    has_geofences: boolean;
+    punches_today: Array<{
+        id: number;
+        event_type: PunchType;
+        punched_at: string;
+        status: 'pending' | 'approved' | 'rejected';
+        within_geofence: boolean;
+        geofence_name: string | null;
+        distance_meters: number | null;
+        review_notes: string | null;
+    }>;
+}
+
+interface MobileClockInCardProps {
+    state: MobileClockInState;
+}
+
+const punchTypes: Array<{ value: PunchType; label: string }> = [
+    { value: 'time_in', label: 'Time In' },
+    { value: 'break_start', label: 'Break Start' },
+    { value: 'break_end', label: 'Break End' },
+    { value: 'time_out', label: 'Time Out' },
+];
+
+const statusConfig = {
+    approved: { label: 'Recorded', color: 'bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-400' },
+    pending: { label: 'Awaiting HR', color: 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900/30 dark:text-yellow-400' },
+    rejected: { label: 'Rejected', color: 'bg-red-100 text-red-800 dark:bg-red-900/30 dark:text-red-400' },
+};
+
+// Next punch after the latest one that was not rejected
+const nextPunchType = (state: MobileClockInState): PunchType => {
+    const last = state.punches_today.find(punch => punch.status !== 'rejected');
+    switch (last?.event_type) {
+        case 'time_in':
+        case 'break_end':
+            return 'time_out';
+        case 'break_start':
+            return 'break_end';
+        default:
+            return 'time_in';
+    }
+};
+
+// ============================================================================
+// Main Component
+// ============================================================================
+
+export function MobileClockInCard({ state }: MobileClockInCardProps) {
+    const [eventType, setEventType] = useState<PunchType>(nextPunchType(state));
+    const [selfie, setSelfie] = useState<File | null>(null);
+    const [locating, setLocating] = useState(false);
+    const [processing, setProcessing] = useState(false);
+    const [errors, setErrors] = useState<Record<string, string>>({});
+
+    const handleClockIn = () => {
+        setErrors({});
+
+        if (!navigator.geolocation) {
+            setErrors({ latitude: 'Your browser cannot share its location. Please tap a gate reader instead.' });
+            return;
+        }
+
+        setLocating(true);
+        navigator.geolocation.getCurrentPosition(
+            position => {
+                setLocating(false);
+                setProcessing(true);
+                router.post('/employee/attendance/clock-in', {
+                    event_type: eventType,
+                    latitude: position.coords.latitude,
+                    longitude: position.coords.longitude,
+                    accuracy: position.coords.accuracy,
+                    selfie,
+                }, {
+                    forceFormData: true,
+                    preserveScroll: true,
+                    onSuccess: page => {
+                        setSelfie(null);
+                        const next = (page.props as { mobileClockIn?: MobileClockInState | null }).mobileClockIn;
+                        if (next) setEventType(nextPunchType(next));
+                    },
+                    onError: setErrors,
+                    onFinish: () => setProcessing(false),
+                });
+            },
+            error => {
+                setLocating(false);
+                setErrors({
+                    latitude: error.code === error.PERMISSION_DENIED
+                        ? 'Location access was denied. Please allow it in your browser settings to clock in.'
+                        : 'Your location could not be determined. Please try again.',
+                });
+            },
+            { enableHighAccuracy: true, timeout: 20000, maximumAge: 0 }
+        );
+    };
+
+    const errorMessages = Object.values(errors);
+
+    return (
+        <Card>
+            <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                    <Smartphone className="h-5 w-5 text-blue-600 dark:text-blue-400" />
+                    Clock In From This Device
+                </CardTitle>
+                <CardDescription>
+                    For when you are away from a gate reader. Your location is checked against approved sites;
+                    punches from anywhere else are reviewed by HR Staff before they count.
+                </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+                {!state.has_geofences && (
+                    <div className="flex items-center gap-2 rounded-lg border border-yellow-200 bg-yellow-50 p-3 dark:border-yellow-900 dark:bg-yellow-900/10">
+                        <AlertCircle className="h-4 w-4 text-yellow-600 dark:text-yellow-400" />
+                        <p className="text-sm text-yellow-800 dark:text-yellow-200">
+                            No approved sites are set up yet, so every punch will need HR approval.
+                        </p>
+                    </div>
+                )}
+
+                <div className="grid grid-cols-1 gap-4 md:grid-cols-3 md:items-end">
+                    <div className="space-y-2">
+                        <Label htmlFor="mobile_event_type">Punch</Label>
+                        <Select value={eventType} onValueChange={value => setEventType(value as PunchType)}>
+                            <SelectTrigger id="mobile_event_type">
+                                <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                                {punchTypes.map(type => (
+                                    <SelectItem key={type.value} value={type.value}>
+                                        {type.label}
+                                    </SelectItem>
+                                ))}
+                            </SelectContent>
+                        </Select>
+                    </div>
+                    <div className="space-y-2">
+                        <Label htmlFor="mobile_selfie">Selfie (optional)</Label>
+                        <Input
+                            id="mobile_selfie"
+                            type="file"
+                            accept="image/*"
+                            capture="user"
+                            onChange={e => setSelfie(e.target.files?.[0] ?? null)}
+                        />
+                    </div>
+                    <Button onClick={handleClockIn} disabled={locating || processing}>
+                        {locating || processing ? (
+                            <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                        ) : (
+                            <MapPin className="mr-2 h-4 w-4" />
+                        )}
+                        {locating ? 'Getting location...' : processing ? 'Recording...' : 'Record Punch'}
+                    </Button>
+                </div>
+
+                {errorMessages.length > 0 && (
+                    <div className="space-y-1">
+                        {errorMessages.map(message => (
+                            <p key={message} className="text-sm text-red-600 dark:text-red-400">{message}</p>
+                        ))}
+                    </div>
+                )}
+
+                {state.punches_today.length > 0 && (
+                    <div className="space-y-2">
+                        <p className="text-sm font-medium text-gray-900 dark:text-white">Today's portal punches</p>
+                        {state.punches_today.map(punch => (
+                            <div
+                                key={punch.id}
+                                className="flex items-center justify-between rounded-lg border border-gray-200 p-3 dark:border-gray-700"
+                            >
+                                <div>
+                                    <p className="text-sm font-medium text-gray-900 dark:text-white">
+                                        {punchTypes.find(type => type.value === punch.event_type)?.label}{' '}
+                                        <span className="font-normal text-gray-600 dark:text-gray-400">
+                                            at {format(parseISO(punch.punched_at), 'h:mm a')}
+                                        </span>
+                                    </p>
+                                    <p className="text-xs text-gray-600 dark:text-gray-400">
+                                        {punch.within_geofence
+                                            ? punch.geofence_name
+                                            : punch.geofence_name
+                                                ? `${punch.distance_meters} m from ${punch.geofence_name}`
+                                                : 'Outside approved sites'}
+                                    </p>
+                                    {punch.review_notes && (
+                                        <p className="text-xs italic text-gray-600 dark:text-gray-400">{punch.review_notes}</p>
+                                    )}
+                                </div>
+                                <Badge className={statusConfig[punch.status].color}>
+                                    {statusConfig[punch.status].label}
+                                </Badge>
+                            </div>
+                        ))}
+                    </div>
+                )}
+            </CardContent>
+        </Card>
+    );
+}
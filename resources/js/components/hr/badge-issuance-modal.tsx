@@ -25,6 +25,9 @@ import {
 } from '@/components/ui/popover';
 import { AlertCircle, Loader2, QrCode, AlertTriangle, Check, Users } from 'lucide-react';
 import { BadgeScannerModal } from './badge-scanner-modal';
+import { CardAssignmentWarning } from './card-assignment-warning';
+import { useCardAssignmentCheck } from '@/hooks/use-card-assignment-check';
+import { isSameCard, normalizeCardUid } from '@/lib/rfid-uid';
 import { format } from 'date-fns';
 import { Calendar } from '@/components/ui/calendar';
 
@@ -101,14 +104,15 @@ export function BadgeIssuanceModal({
 
     const employeesWithActiveBadgesCount = employees.filter((emp) => emp.badge?.is_active).length;
 
-    // Validate card UID format
-    const validateCardUid = (uid: string) => {
-        // Accept plug-and-play numeric IDs (e.g. 1234567890) and hex UIDs with separators.
-        const numericUidRegex = /^\d{6,20}$/;
-        const hexUidRegex = /^[0-9A-F]{8,20}$/;
-        const hexSeparatedUidRegex = /^([0-9A-F]{2}[:-]){3,9}[0-9A-F]{2}$/;
-        return numericUidRegex.test(uid) || hexUidRegex.test(uid) || hexSeparatedUidRegex.test(uid);
-    };
+    // Existing assignments of this card in any format or byte order (server lookup)
+    const cardAssignmentCheck = useCardAssignmentCheck(formData.card_uid);
+    const isCardAlreadyAssigned = cardAssignmentCheck.assignments.length > 0;
+
+    // Validate card UID format: numeric reader IDs (e.g. 1234567890), plain hex, or hex bytes with separators
+    const validateCardUid = (uid: string) => normalizeCardUid(uid) !== null;
+
+    // Card UID uniqueness across formats and byte orders
+    const isKnownBadgeUid = (uid: string) => existingBadgeUids.some((existing) => isSameCard(existing, uid));
 
     // Subtask 1.3.4: Validate form before submission
     const validateForm = () => {
@@ -124,7 +128,7 @@ export function BadgeIssuanceModal({
             newErrors.card_uid = 'Card UID is required';
         } else if (!validateCardUid(formData.card_uid)) {
             newErrors.card_uid = 'Use numeric UID (e.g., 1234567890) or hex UID (e.g., 04:3A:B2:C5:D8)';
-        } else if (existingBadgeUids.includes(formData.card_uid)) {
+        } else if (isKnownBadgeUid(formData.card_uid) || isCardAlreadyAssigned) {
             // Subtask 1.3.4: Card UID uniqueness check
             newErrors.card_uid = 'This card UID is already assigned to another employee';
         }
@@ -153,7 +157,7 @@ export function BadgeIssuanceModal({
                     fieldErrors.card_uid = 'Card UID is required';
                 } else if (!validateCardUid(value)) {
                     fieldErrors.card_uid = 'Use numeric UID or hex UID';
-                } else if (existingBadgeUids.includes(value)) {
+                } else if (isKnownBadgeUid(value)) {
                     fieldErrors.card_uid = 'This card UID is already in use';
                 } else {
                     delete fieldErrors.card_uid;
@@ -181,12 +185,8 @@ export function BadgeIssuanceModal({
         setIsExistingBadgeWarningDismissed(false);
     };
 
-    const handleScanComplete = (cardUid: string, cardType: string) => {
-        setFormData((prev) => ({
-            ...prev,
-            card_uid: cardUid,
-            card_type: cardType as 'mifare' | 'desfire' | 'em4100',
-        }));
+    const handleScanComplete = (cardUid: string) => {
+        handleCardUidChange(cardUid);
         setShowScanner(false);
     };
 
@@ -452,7 +452,7 @@ export function BadgeIssuanceModal({
                                             variant="outline"
                                             size="icon"
                                             onClick={() => setShowScanner(true)}
-                                            title="Scan Badge (Opens scanner)"
+                                            title="Scan badge with the desk USB reader"
                                             className="flex-shrink-0"
                                         >
                                             <QrCode className="h-4 w-4" />
@@ -464,6 +464,7 @@ export function BadgeIssuanceModal({
                                             {errors.card_uid}
                                         </p>
                                     )}
+                                    <CardAssignmentWarning check={cardAssignmentCheck} />
                                 </div>
 
                                 {/* Card Type */}
@@ -621,7 +622,7 @@ export function BadgeIssuanceModal({
                         </Button>
                         <Button
                             onClick={handleSubmit}
-                            disabled={isLoading || !selectedEmployee || (hasExistingBadge && !isExistingBadgeWarningDismissed) || Object.keys(errors).length > 0}
+                            disabled={isLoading || !selectedEmployee || (hasExistingBadge && !isExistingBadgeWarningDismissed) || Object.keys(errors).length > 0 || isCardAlreadyAssigned || cardAssignmentCheck.checking}
                             className="gap-2"
                         >
                             {isLoading && <Loader2 className="h-4 w-4 animate-spin" />}
@@ -1,4 +1,4 @@
-import { useEffect, useState } from 'react';
+import { useCallback, useState } from 'react';
 import {
     Dialog,
     DialogContent,
@@ -7,54 +7,59 @@ import {
     DialogTitle,
 } from '@/components/ui/dialog';
 import { Button } from '@/components/ui/button';
-import { AlertCircle, Loader2, CheckCircle } from 'lucide-react';
+import { AlertCircle, CheckCircle, Keyboard, Nfc, RotateCcw } from 'lucide-react';
+import { useKeyboardWedge, type WedgeScan } from '@/hooks/use-keyboard-wedge';
+import { CARD_UID_FORMAT_LABELS, normalizeCardUid, type NormalizedCardUid } from '@/lib/rfid-uid';
 
 interface BadgeScannerModalProps {
     isOpen: boolean;
     onClose: () => void;
-    onScanComplete: (cardUid: string, cardType: string) => void;
+    onScanComplete: (cardUid: string) => void;
 }
 
-export function BadgeScannerModal({ isOpen, onClose, onScanComplete }: BadgeScannerModalProps) {
-    const [scanStatus, setScanStatus] = useState<'scanning' | 'success' | 'error'>('scanning');
-    const [scannedCard, setScannedCard] = useState<{ uid: string; type: string } | null>(null);
+type ScanState =
+    | { status: 'waiting' }
+    | { status: 'success'; card: NormalizedCardUid; averageIntervalMs: number }
+    | { status: 'error'; value: string };
 
-    // Simulate scanning process for Phase 1
-    useEffect(() => {
-        if (!isOpen) return;
+/**
+ * Reads a badge from the desk's USB keyboard-wedge RFID reader.
+ * The reader "types" the UID as a rapid keystroke burst; slower (human) typing is ignored.
+ */
+export function BadgeScannerModal({ isOpen, onClose, onScanComplete }: BadgeScannerModalProps) {
+    const [scan, setScan] = useState<ScanState>({ status: 'waiting' });
+    const [humanInputDetected, setHumanInputDetected] = useState(false);
 
-        // Mock scan - wait 2 seconds then generate mock card data
-        const scanTimer = setTimeout(() => {
-            const mockCardTypes = ['mifare', 'desfire', 'em4100'];
-            const randomType = mockCardTypes[Math.floor(Math.random() * mockCardTypes.length)];
-            
-            // Generate mock card UID in format XX:XX:XX:XX:XX
-            const generateMockCardUid = () => {
-                const bytes = [];
-                for (let i = 0; i < 5; i++) {
-                    bytes.push(Math.floor(Math.random() * 256).toString(16).padStart(2, '0').toUpperCase());
-                }
-                return bytes.join(':');
-            };
+    const handleScan = useCallback((wedgeScan: WedgeScan) => {
+        const card = normalizeCardUid(wedgeScan.value);
+        setHumanInputDetected(false);
+        setScan(card
+            ? { status: 'success', card, averageIntervalMs: wedgeScan.averageIntervalMs }
+            : { status: 'error', value: wedgeScan.value });
+    }, []);
 
-            const mockCardUid = generateMockCardUid();
-            setScannedCard({ uid: mockCardUid, type: randomType });
-            setScanStatus('success');
-        }, 2000);
+    const handleHumanInput = useCallback(() => setHumanInputDetected(true), []);
 
-        return () => clearTimeout(scanTimer);
-    }, [isOpen]);
+    useKeyboardWedge({
+        enabled: isOpen && scan.status === 'waiting',
+        onScan: handleScan,
+        onHumanInput: handleHumanInput,
+    });
 
     const handleConfirm = () => {
-        if (scannedCard) {
-            onScanComplete(scannedCard.uid, scannedCard.type);
+        if (scan.status === 'success') {
+            onScanComplete(scan.card.raw);
             handleClose();
         }
     };
 
+    const handleRescan = () => {
+        setScan({ status: 'waiting' });
+        setHumanInputDetected(false);
+    };
+
     const handleClose = () => {
-        setScanStatus('scanning');
-        setScannedCard(null);
+        handleRescan();
         onClose();
     };
 
@@ -64,49 +69,69 @@ export function BadgeScannerModal({ isOpen, onClose, onScanComplete }: BadgeScan
                 <DialogHeader>
                     <DialogTitle>Scan Badge</DialogTitle>
                     <DialogDescription>
-                        {scanStatus === 'scanning' && 'Please hold badge near reader...'}
-                        {scanStatus === 'success' && 'Badge scanned successfully ✅'}
-                        {scanStatus === 'error' && 'Scan failed, please try again'}
+                        {scan.status === 'waiting' && 'Tap the badge on the desk reader...'}
+                        {scan.status === 'success' && 'Badge read successfully ✅'}
+                        {scan.status === 'error' && 'The reader sent something that is not a card UID'}
                     </DialogDescription>
                 </DialogHeader>
 
                 <div className="flex flex-col items-center justify-center py-8">
-                    {scanStatus === 'scanning' && (
+                    {scan.status === 'waiting' && (
                         <>
-                            <Loader2 className="h-12 w-12 animate-spin text-blue-600 mb-4" />
+                            <Nfc className="h-12 w-12 animate-pulse text-blue-600 mb-4" />
                             <p className="text-sm text-muted-foreground text-center">
-                                Scanning in progress (2 seconds)...
+                                Waiting for the USB RFID reader. Keep this window focused while tapping.
                             </p>
+                            {humanInputDetected && (
+                                <p className="mt-3 flex items-center gap-1.5 text-xs text-amber-700">
+                                    <Keyboard className="h-3.5 w-3.5" />
+                                    That looked like typing, not a reader. Close this and type the UID in the form instead.
+                                </p>
+                            )}
                         </>
                     )}
 
-                    {scanStatus === 'success' && scannedCard && (
+                    {scan.status === 'success' && (
                         <>
                             <CheckCircle className="h-12 w-12 text-green-600 mb-4" />
                             <div className="space-y-3 w-full">
                                 <div className="bg-muted rounded-lg p-3">
-                                    <p className="text-xs text-muted-foreground mb-1">Card UID</p>
+                                    <p className="text-xs text-muted-foreground mb-1">
+                                        Card UID ({CARD_UID_FORMAT_LABELS[scan.card.format]}, as sent by the reader)
+                                    </p>
                                     <p className="font-mono text-sm font-semibold break-all">
-                                        {scannedCard.uid}
+                                        {scan.card.raw}
                                     </p>
                                 </div>
-                                <div className="bg-muted rounded-lg p-3">
-                                    <p className="text-xs text-muted-foreground mb-1">Detected Card Type</p>
-                                    <p className="text-sm font-semibold capitalize">
-                                        {scannedCard.type === 'mifare' && 'Mifare'}
-                                        {scannedCard.type === 'desfire' && 'DESFire'}
-                                        {scannedCard.type === 'em4100' && 'EM4100'}
-                                    </p>
+                                <div className="grid grid-cols-2 gap-3">
+                                    <div className="bg-muted rounded-lg p-3">
+                                        <p className="text-xs text-muted-foreground mb-1">Hex</p>
+                                        <p className="font-mono text-xs break-all">{scan.card.hex}</p>
+                                        <p className="font-mono text-xs text-muted-foreground break-all">
+                                            reversed {scan.card.hexReversed}
+                                        </p>
+                                    </div>
+                                    <div className="bg-muted rounded-lg p-3">
+                                        <p className="text-xs text-muted-foreground mb-1">Decimal</p>
+                                        <p className="font-mono text-xs break-all">{scan.card.decimal}</p>
+                                        <p className="font-mono text-xs text-muted-foreground break-all">
+                                            reversed {scan.card.decimalReversed}
+                                        </p>
+                                    </div>
                                 </div>
+                                <p className="text-xs text-muted-foreground text-center">
+                                    Read in {scan.card.raw.length} keystrokes, {Math.round(scan.averageIntervalMs)} ms apart
+                                </p>
                             </div>
                         </>
                     )}
 
-                    {scanStatus === 'error' && (
+                    {scan.status === 'error' && (
                         <>
                             <AlertCircle className="h-12 w-12 text-red-600 mb-4" />
                             <p className="text-sm text-muted-foreground text-center">
-                                Failed to scan badge. Please try again.
+                                Received <code className="font-mono">{scan.value}</code>. Check the reader's output
+                                format (hex or decimal UID) and try again.
                             </p>
                         </>
                     )}
@@ -116,19 +141,19 @@ export function BadgeScannerModal({ isOpen, onClose, onScanComplete }: BadgeScan
                     <Button variant="outline" onClick={handleClose}>
                         Cancel
                     </Button>
-                    {scanStatus === 'success' && (
-                        <Button onClick={handleConfirm} className="gap-2">
-                            Use This Badge
-                        </Button>
-                    )}
-                    {scanStatus === 'scanning' && (
-                        <Button disabled>
-                            <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-                            Scanning...
-                        </Button>
+                    {scan.status === 'success' && (
+                        <>
+                            <Button variant="outline" onClick={handleRescan} className="gap-2">
+                                <RotateCcw className="h-4 w-4" />
+                                Scan Again
+                            </Button>
+                            <Button onClick={handleConfirm} className="gap-2">
+                                Use This Badge
+                            </Button>
+                        </>
                     )}
-                    {scanStatus === 'error' && (
-                        <Button onClick={() => window.location.reload()} variant="destructive">
+                    {scan.status === 'error' && (
+                        <Button onClick={handleRescan} variant="destructive">
                             Try Again
                         </Button>
                     )}
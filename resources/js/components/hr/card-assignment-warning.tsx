@@ -0,0 +1,54 @@
+import { AlertTriangle, Loader2 } from 'lucide-react';
+import type { CardAssignmentCheck } from '@/hooks/use-card-assignment-check';
+
+interface CardAssignmentWarningProps {
+    check: CardAssignmentCheck;
+}
+
+/**
+ * Shows where a scanned or typed card is already registered, including matches
+ * stored in another format or byte order than the one just entered.
+ */
+export function CardAssignmentWarning({ check }: CardAssignmentWarningProps) {
+    if (check.checking) {
+        return (
+            <p className="text-xs text-muted-foreground flex items-center gap-1.5">
+                <Loader2 className="h-3 w-3 animate-spin" />
+                Checking existing assignments...
+            </p>
+        );
+    }
+
+    if (check.error) {
+        return (
+            <p className="text-xs text-amber-700 flex items-center gap-1.5">
+                <AlertTriangle className="h-3 w-3" />
+                Could not check existing assignments: {check.error}
+            </p>
+        );
+    }
+
+    if (check.assignments.length === 0) {
+        return null;
+    }
+
+    return (
+        <div className="rounded-md border border-red-200 bg-red-50 p-3 text-sm text-red-800 space-y-1">
+            <p className="font-semibold flex items-center gap-1.5">
+                <AlertTriangle className="h-4 w-4" />
+                This card is already registered
+            </p>
+            <ul className="text-xs space-y-0.5">
+                {check.assignments.map((assignment) => (
+                    <li key={assignment.id}>
+                        {assignment.employee_name ?? 'Unknown employee'}
+                        {assignment.employee_number && ` (${assignment.employee_number})`}
+                        {' '}as <code className="font-mono">{assignment.card_uid}</code>
+                        {' '}&middot; {assignment.is_active ? 'active' : 'inactive'}
+                        {assignment.issued_at && `, issued ${assignment.issued_at}`}
+                    </li>
+                ))}
+            </ul>
+        </div>
+    );
+}
@@ -7,6 +7,7 @@ import {
     Calendar,
     Bell,
     FileText,
+    CalendarClock,
 } from 'lucide-react';
 import {
     Collapsible,
@@ -43,6 +44,13 @@ export function NavEmployee() {
             description: 'View time logs and report issues',
             show: features?.timekeeping !== false,
         },
+        {
+            title: 'My Shifts',
+            icon: CalendarClock,
+            href: '/employee/shifts',
+            description: 'View shifts, swap or give them away',
+            show: features?.workforce !== false,
+        },
         {
             title: 'Payslips',
             icon: DollarSign,
@@ -20,9 +20,13 @@ import {
     UserCheck,
     ClipboardList,
     Shield,
+    ShieldAlert,
+    MapPin,
+    ScanFace,
     GitBranch,
     Repeat,
     ClipboardCheck,
+    ArrowLeftRight,
     Clock,
     Upload,
     TrendingUp,
@@ -80,12 +84,16 @@ export function NavHR() {
         { title: 'Work Schedules', icon: Calendar, href: '/hr/workforce/schedules', permission: 'hr.workforce.schedules.view' },
         { title: 'Employee Rotations', icon: Repeat, href: '/hr/workforce/rotations', permission: 'hr.workforce.rotations.view' },
         { title: 'Shift Assignments', icon: ClipboardCheck, href: '/hr/workforce/assignments', permission: 'hr.workforce.assignments.view' },
+        { title: 'Shift Swaps', icon: ArrowLeftRight, href: '/hr/workforce/shift-swaps', permission: 'hr.workforce.shift-swaps.approve' },
     ].filter(item => hasPermission(item.permission));
 
     const timekeepingItems = [
         { title: 'Attendance Overview', icon: Calendar, href: '/hr/timekeeping/overview', permission: 'hr.timekeeping.view' },
         { title: 'RFID Ledger', icon: Activity, href: '/hr/timekeeping/ledger', permission: 'hr.timekeeping.attendance.view' },
         { title: 'Attendance Records', icon: ClipboardList, href: '/hr/timekeeping/attendance', permission: 'hr.timekeeping.view' },
+        { title: 'Attendance Anomalies', icon: ShieldAlert, href: '/hr/timekeeping/anomalies', permission: 'hr.timekeeping.attendance.view' },
+        { title: 'Mobile Clock-In', icon: MapPin, href: '/hr/timekeeping/mobile-clock-in', permission: 'hr.timekeeping.attendance.view' },
+        { title: 'Punch Photos', icon: ScanFace, href: '/hr/timekeeping/punch-photos', permission: 'hr.timekeeping.attendance.view' },
         { title: 'RFID Badges', icon: Shield, href: '/hr/timekeeping/badges', permission: 'hr.timekeeping.badges.view' },
         { title: 'Overtime Requests', icon: Clock, href: '/hr/timekeeping/overtime', permission: 'hr.timekeeping.overtime.view' },
         { title: 'Import Management', icon: Upload, href: '/hr/timekeeping/import', permission: 'hr.timekeeping.manage' },
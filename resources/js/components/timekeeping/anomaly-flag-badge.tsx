@@ -0,0 +1,72 @@
+import { Tooltip, TooltipContent, TooltipTrigger } from '@/components/ui/tooltip';
+import { ShieldAlert } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { AnomalyFlag, AnomalySeverity, AttendanceAnomalyType } from '@/types/timekeeping-pages';
+
+export const ANOMALY_TYPE_LABELS: Record<AttendanceAnomalyType, string> = {
+    impossible_travel: 'Impossible travel',
+    missing_exit: 'Missing exit',
+    buddy_punching: 'Possible buddy punching',
+};
+
+export const ANOMALY_SEVERITY_STYLES: Record<AnomalySeverity, string> = {
+    high: 'bg-red-100 text-red-700 border-red-200',
+    medium: 'bg-orange-100 text-orange-700 border-orange-200',
+    low: 'bg-yellow-100 text-yellow-700 border-yellow-200',
+};
+
+const SEVERITY_RANK: Record<AnomalySeverity, number> = { low: 0, medium: 1, high: 2 };
+
+interface AnomalyFlagBadgeProps {
+    flags?: AnomalyFlag[];
+    // Off inside rows that already sit in a tooltip trigger
+    withTooltip?: boolean;
+    className?: string;
+}
+
+/**
+ * Anomaly flag badge
+ * Colored by the most severe flag; the tooltip lists every flag with its review status
+ */
+export function AnomalyFlagBadge({ flags = [], withTooltip = true, className }: AnomalyFlagBadgeProps) {
+    if (flags.length === 0) return null;
+
+    const worst = flags.reduce((a, b) => (SEVERITY_RANK[b.severity] > SEVERITY_RANK[a.severity] ? b : a));
+    const badge = (
+        <span className={cn(
+            'inline-flex items-center gap-1 rounded-full border px-2 py-0.5 text-[10px] font-semibold leading-none',
+            ANOMALY_SEVERITY_STYLES[worst.severity],
+            className
+        )}>
+            <ShieldAlert className="h-3 w-3" />
+            {flags.length === 1 ? ANOMALY_TYPE_LABELS[worst.type] : `${flags.length} anomalies`}
+        </span>
+    );
+
+    if (!withTooltip) return badge;
+
+    return (
+        <Tooltip>
+            <TooltipTrigger asChild>{badge}</TooltipTrigger>
+            <TooltipContent className="max-w-sm">
+                <AnomalyFlagList flags={flags} />
+            </TooltipContent>
+        </Tooltip>
+    );
+}
+
+/**
+ * Flag summaries, for tooltips
+ */
+export function AnomalyFlagList({ flags }: { flags: AnomalyFlag[] }) {
+    return (
+        <ul className="space-y-1 text-xs">
+            {flags.map(flag => (
+                <li key={flag.id}>
+                    <span className="font-semibold">{ANOMALY_TYPE_LABELS[flag.type]}</span>
+                    {flag.status === 'confirmed' && ' (confirmed)'}: {flag.summary}
+                </li>
+            ))}
+        </ul>
+    );
+}
@@ -0,0 +1,256 @@
+import { router } from '@inertiajs/react';
+import { useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Pencil, Trash2 } from 'lucide-react';
+import { AttendanceAnomaliesIndexProps, DevicePairAnomalyRule } from '@/types/timekeeping-pages';
+
+interface AnomalyThresholdRulesProps {
+    rules: DevicePairAnomalyRule[];
+    devices: AttendanceAnomaliesIndexProps['devices'];
+    defaults: AttendanceAnomaliesIndexProps['defaults'];
+    canManage: boolean;
+}
+
+interface RuleForm {
+    device_a_id: string;
+    device_b_id: string;
+    min_travel_seconds: string;
+    buddy_window_seconds: string;
+    is_enabled: boolean;
+    notes: string;
+}
+
+const EMPTY_FORM: RuleForm = {
+    device_a_id: '',
+    device_b_id: '',
+    min_travel_seconds: '',
+    buddy_window_seconds: '',
+    is_enabled: true,
+    notes: '',
+};
+
+/**
+ * Anomaly Threshold Rules
+ * Per device pair overrides of the impossible-travel and buddy-punching thresholds
+ */
+export function AnomalyThresholdRules({ rules, devices, defaults, canManage }: AnomalyThresholdRulesProps) {
+    const [form, setForm] = useState<RuleForm>(EMPTY_FORM);
+    const [errors, setErrors] = useState<Record<string, string>>({});
+    const [saving, setSaving] = useState(false);
+
+    const deviceLabel = (id: string) => {
+        const location = devices.find(device => device.id === id)?.location;
+        return location ? `${id} (${location})` : id;
+    };
+
+    const samePair = form.device_a_id !== '' && form.device_a_id === form.device_b_id;
+
+    const editRule = (rule: DevicePairAnomalyRule) => {
+        setErrors({});
+        setForm({
+            device_a_id: rule.device_a_id,
+            device_b_id: rule.device_b_id,
+            min_travel_seconds: rule.min_travel_seconds?.toString() ?? '',
+            buddy_window_seconds: rule.buddy_window_seconds?.toString() ?? '',
+            is_enabled: rule.is_enabled,
+            notes: rule.notes ?? '',
+        });
+    };
+
+    const saveRule = () => {
+        setSaving(true);
+        router.post(route('hr.timekeeping.anomalies.rules.store'), {
+            device_a_id: form.device_a_id,
+            device_b_id: form.device_b_id,
+            min_travel_seconds: samePair || form.min_travel_seconds === '' ? null : Number(form.min_travel_seconds),
+            buddy_window_seconds: form.buddy_window_seconds === '' ? null : Number(form.buddy_window_seconds),
+            is_enabled: form.is_enabled,
+            notes: form.notes || null,
+        }, {
+            preserveScroll: true,
+            onSuccess: () => {
+                setForm(EMPTY_FORM);
+                setErrors({});
+            },
+            onError: setErrors,
+            onFinish: () => setSaving(false),
+        });
+    };
+
+    const deleteRule = (rule: DevicePairAnomalyRule) => {
+        if (!confirm(`Remove the rule for ${rule.device_a_id} ↔ ${rule.device_b_id}? Default thresholds will apply.`)) return;
+        router.delete(route('hr.timekeeping.anomalies.rules.destroy', { ruleId: rule.id }), { preserveScroll: true });
+    };
+
+    const thresholdCell = (value: number | null, fallback: number) => (
+        value === null
+            ? <span className="text-muted-foreground">{fallback}s (default)</span>
+            : <span className="font-medium">{value}s</span>
+    );
+
+    return (
+        <Card>
+            <CardHeader>
+                <CardTitle>Detection Thresholds</CardTitle>
+                <CardDescription>
+                    Defaults: impossible travel under {defaults.min_travel_seconds}s between two devices;
+                    buddy punching when the same two employees tap within {defaults.buddy_window_seconds}s of each other
+                    on {defaults.buddy_min_days}+ days in {defaults.buddy_lookback_days} days;
+                    missing exit after {defaults.missing_exit_hours}h without a time out.
+                </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+                <Table>
+                    <TableHeader>
+                        <TableRow>
+                            <TableHead>Device pair</TableHead>
+                            <TableHead>Min travel time</TableHead>
+                            <TableHead>Buddy window</TableHead>
+                            <TableHead>Detection</TableHead>
+                            <TableHead>Notes</TableHead>
+                            {canManage && <TableHead className="w-24" />}
+                        </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                        {rules.length === 0 && (
+                            <TableRow>
+                                <TableCell colSpan={canManage ? 6 : 5} className="text-center text-sm text-muted-foreground py-6">
+                                    No overrides. Default thresholds apply to every device.
+                                </TableCell>
+                            </TableRow>
+                        )}
+                        {rules.map(rule => (
+                            <TableRow key={rule.id}>
+                                <TableCell className="text-sm">
+                                    {deviceLabel(rule.device_a_id)}
+                                    {rule.device_a_id !== rule.device_b_id && <> ↔ {deviceLabel(rule.device_b_id)}</>}
+                                </TableCell>
+                                <TableCell className="text-sm">
+                                    {rule.device_a_id === rule.device_b_id
+                                        ? <span className="text-muted-foreground">n/a</span>
+                                        : thresholdCell(rule.min_travel_seconds, defaults.min_travel_seconds)}
+                                </TableCell>
+                                <TableCell className="text-sm">
+                                    {thresholdCell(rule.buddy_window_seconds, defaults.buddy_window_seconds)}
+                                </TableCell>
+                                <TableCell>
+                                    <Badge variant={rule.is_enabled ? 'default' : 'secondary'}>
+                                        {rule.is_enabled ? 'Enabled' : 'Disabled'}
+                                    </Badge>
+                                </TableCell>
+                                <TableCell className="text-xs text-muted-foreground">
+                                    {rule.notes}
+                                    {rule.updated_by && <div>Updated by {rule.updated_by}</div>}
+                                </TableCell>
+                                {canManage && (
+                                    <TableCell className="text-right">
+                                        <Button variant="ghost" size="sm" onClick={() => editRule(rule)} title="Edit">
+                                            <Pencil className="h-4 w-4" />
+                                        </Button>
+                                        <Button variant="ghost" size="sm" onClick={() => deleteRule(rule)} title="Remove">
+                                            <Trash2 className="h-4 w-4 text-red-600" />
+                                        </Button>
+                                    </TableCell>
+                                )}
+                            </TableRow>
+                        ))}
+                    </TableBody>
+                </Table>
+
+                {canManage && (
+                    <div className="rounded-lg border p-4 space-y-4">
+                        <div className="text-sm font-semibold">Add or update a rule</div>
+                        <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-4">
+                            <div className="space-y-2">
+                                <Label>Device A</Label>
+                                <Select value={form.device_a_id} onValueChange={value => setForm({ ...form, device_a_id: value })}>
+                                    <SelectTrigger><SelectValue placeholder="Select device" /></SelectTrigger>
+                                    <SelectContent>
+                                        {devices.map(device => (
+                                            <SelectItem key={device.id} value={device.id}>{deviceLabel(device.id)}</SelectItem>
+                                        ))}
+                                    </SelectContent>
+                                </Select>
+                                {errors.device_a_id && <p className="text-xs text-red-600">{errors.device_a_id}</p>}
+                            </div>
+                            <div className="space-y-2">
+                                <Label>Device B</Label>
+                                <Select value={form.device_b_id} onValueChange={value => setForm({ ...form, device_b_id: value })}>
+                                    <SelectTrigger><SelectValue placeholder="Select device" /></SelectTrigger>
+                                    <SelectContent>
+                                        {devices.map(device => (
+                                            <SelectItem key={device.id} value={device.id}>{deviceLabel(device.id)}</SelectItem>
+                                        ))}
+                                    </SelectContent>
+                                </Select>
+                                {errors.device_b_id && <p className="text-xs text-red-600">{errors.device_b_id}</p>}
+                            </div>
+                            <div className="space-y-2">
+                                <Label htmlFor="min_travel_seconds">Min travel time (seconds)</Label>
+                                <Input
+                                    id="min_travel_seconds"
+                                    type="number"
+                                    min={0}
+                                    placeholder={samePair ? 'Not used for one device' : `${defaults.min_travel_seconds} (default)`}
+                                    disabled={samePair}
+                                    value={samePair ? '' : form.min_travel_seconds}
+                                    onChange={e => setForm({ ...form, min_travel_seconds: e.target.value })}
+                                />
+                                {errors.min_travel_seconds && <p className="text-xs text-red-600">{errors.min_travel_seconds}</p>}
+                            </div>
+                            <div className="space-y-2">
+                                <Label htmlFor="buddy_window_seconds">Buddy window (seconds)</Label>
+                                <Input
+                                    id="buddy_window_seconds"
+                                    type="number"
+                                    min={1}
+                                    placeholder={`${defaults.buddy_window_seconds} (default)`}
+                                    value={form.buddy_window_seconds}
+                                    onChange={e => setForm({ ...form, buddy_window_seconds: e.target.value })}
+                                />
+                                {errors.buddy_window_seconds && <p className="text-xs text-red-600">{errors.buddy_window_seconds}</p>}
+                            </div>
+                        </div>
+                        <div className="grid gap-4 md:grid-cols-[1fr_auto] items-end">
+                            <div className="space-y-2">
+                                <Label htmlFor="rule_notes">Notes</Label>
+                                <Input
+                                    id="rule_notes"
+                                    placeholder="e.g. Turnstiles on either side of the lobby"
+                                    value={form.notes}
+                                    onChange={e => setForm({ ...form, notes: e.target.value })}
+                                />
+                            </div>
+                            <div className="flex items-center gap-4">
+                                <div className="flex items-center gap-2">
+                                    <Switch
+                                        id="rule_enabled"
+                                        checked={form.is_enabled}
+                                        onCheckedChange={checked => setForm({ ...form, is_enabled: checked })}
+                                    />
+                                    <Label htmlFor="rule_enabled">Detection enabled</Label>
+                                </div>
+                                <Button variant="outline" onClick={() => { setForm(EMPTY_FORM); setErrors({}); }}>
+                                    Clear
+                                </Button>
+                                <Button onClick={saveRule} disabled={saving || !form.device_a_id || !form.device_b_id}>
+                                    {saving ? 'Saving...' : 'Save Rule'}
+                                </Button>
+                            </div>
+                        </div>
+                        <p className="text-xs text-muted-foreground">
+                            Pick the same device twice to set its buddy window only. Saving an existing pair replaces its rule.
+                        </p>
+                    </div>
+                )}
+            </CardContent>
+        </Card>
+    );
+}
@@ -37,7 +37,8 @@ export function AttendanceDetailModal({
     const calculateHours = (tIn: string | null | undefined, tOut: string | null | undefined, bStart?: string | null, bEnd?: string | null) => {
         if (!tIn || !tOut) return 0;
         const inDate = new Date(`2000-01-01T${tIn}`);
-        const outDate = new Date(`2000-01-01T${tOut}`);
+        // Overnight shifts time out on the next day
+        const outDate = new Date(`${record.time_out_next_day ? '2000-01-02' : '2000-01-01'}T${tOut}`);
         let hours = (outDate.getTime() - inDate.getTime()) / (1000 * 60 * 60);
 
         if (bStart && bEnd) {
@@ -94,6 +95,17 @@ export function AttendanceDetailModal({
                                         <p className="text-lg mt-2">{record.schedule_name}</p>
                                     </div>
                                 )}
+                                {record.shift && (
+                                    <div>
+                                        <p className="text-xs text-gray-600 font-semibold">Shift</p>
+                                        <p className="text-lg mt-2">
+                                            {record.shift.start.slice(0, 5)} – {record.shift.end.slice(0, 5)}
+                                            {record.shift.crosses_midnight && (
+                                                <span className="text-sm text-muted-foreground"> (ends next day)</span>
+                                            )}
+                                        </p>
+                                    </div>
+                                )}
                             </CardContent>
                         </Card>
 
@@ -125,7 +137,12 @@ export function AttendanceDetailModal({
                                     {record.time_out && (
                                         <div className="flex-1">
                                             <p className="text-xs text-gray-600 font-semibold">Time Out</p>
-                                            <p className="text-lg font-mono mt-2 text-green-600">{record.time_out}</p>
+                                            <p className="text-lg font-mono mt-2 text-green-600">
+                                                {record.time_out}
+                                                {record.time_out_next_day && (
+                                                    <span className="text-xs font-sans text-muted-foreground"> (next day)</span>
+                                                )}
+                                            </p>
                                         </div>
                                     )}
                                 </div>
@@ -151,7 +168,7 @@ export function AttendanceDetailModal({
                         </Card>
 
                         {/* Summary Stats */}
-                        <div className="grid grid-cols-3 gap-4">
+                        <div className="grid grid-cols-4 gap-4">
                             <Card className="bg-gradient-to-br from-blue-50 to-blue-100">
                                 <CardContent className="pt-4">
                                     <p className="text-xs text-gray-600 font-semibold">Total Hours</p>
@@ -166,6 +183,20 @@ export function AttendanceDetailModal({
                                 </CardContent>
                             </Card>
 
+                            <Card className="bg-gradient-to-br from-indigo-50 to-indigo-100">
+                                <CardContent className="pt-4">
+                                    <p className="text-xs text-gray-600 font-semibold">Night Differential</p>
+                                    <p className="text-2xl font-bold text-indigo-600 mt-2">
+                                        {((record.night_diff_minutes ?? 0) / 60).toFixed(2)}h
+                                    </p>
+                                    {!!record.night_diff_overtime_minutes && (
+                                        <p className="text-xs text-indigo-700 mt-1">
+                                            {(record.night_diff_overtime_minutes / 60).toFixed(2)}h on overtime
+                                        </p>
+                                    )}
+                                </CardContent>
+                            </Card>
+
                             <Card className="bg-gradient-to-br from-red-50 to-red-100">
                                 <CardContent className="pt-4">
                                     <p className="text-xs text-gray-600 font-semibold">Status</p>
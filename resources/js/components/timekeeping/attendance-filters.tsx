@@ -40,6 +40,7 @@ const sourceOptions = [
     { value: 'edge_machine', label: 'Edge Machine' },
     { value: 'manual', label: 'Manual Entry' },
     { value: 'imported', label: 'Imported' },
+    { value: 'mobile', label: 'Mobile' },
 ];
 
 export function AttendanceFilters({
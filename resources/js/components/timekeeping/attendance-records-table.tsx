@@ -1,7 +1,10 @@
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
 import { AttendanceStatusBadge } from './attendance-status-badge';
 import { SourceIndicator } from './source-indicator';
+import { AnomalyFlagBadge } from './anomaly-flag-badge';
+import { PunchPhotoBadge } from './punch-photo-badge';
 import { AttendanceRecord } from '@/types/timekeeping-pages';
 
 interface AttendanceRecordsTableProps {
@@ -54,11 +57,39 @@ export function AttendanceRecordsTable({
                                         <div className="font-medium">{record.employee_name}</div>
                                         <div className="text-xs text-muted-foreground">{record.employee_number}</div>
                                     </td>
-                                    <td className="py-3 px-4 text-sm">{record.date}</td>
+                                    <td className="py-3 px-4 text-sm">
+                                        <div>{record.date}</div>
+                                        {record.shift && (
+                                            <div className="text-xs text-muted-foreground">
+                                                Shift {record.shift.start.slice(0, 5)}–{record.shift.end.slice(0, 5)}
+                                                {record.shift.crosses_midnight && ' (overnight)'}
+                                            </div>
+                                        )}
+                                    </td>
                                     <td className="py-3 px-4 text-sm font-medium">{record.time_in}</td>
-                                    <td className="py-3 px-4 text-sm">{record.time_out || '-'}</td>
+                                    <td className="py-3 px-4 text-sm">
+                                        {record.time_out || '-'}
+                                        {record.time_out_next_day && (
+                                            <Badge
+                                                variant="outline"
+                                                className="ml-1.5 text-xs"
+                                                title={`Tapped the next day; paired with the shift starting ${record.date}`}
+                                            >
+                                                +1 day
+                                            </Badge>
+                                        )}
+                                        {!!record.night_diff_minutes && (
+                                            <div className="text-xs text-muted-foreground">
+                                                Night diff {(record.night_diff_minutes / 60).toFixed(1)}h
+                                            </div>
+                                        )}
+                                    </td>
                                     <td className="py-3 px-4">
-                                        <AttendanceStatusBadge status={record.status} />
+                                        <div className="flex flex-wrap items-center gap-1.5">
+                                            <AttendanceStatusBadge status={record.status} />
+                                            <AnomalyFlagBadge flags={record.anomalies} />
+                                            <PunchPhotoBadge review={record.photo_review} />
+                                        </div>
                                     </td>
                                     <td className="py-3 px-4">
                                         <SourceIndicator 
@@ -0,0 +1,259 @@
+import { router } from '@inertiajs/react';
+import { useState } from 'react';
+import { CartesianGrid, Line, LineChart, ReferenceLine, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts';
+import { format, formatDistanceToNow, parseISO } from 'date-fns';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Separator } from '@/components/ui/separator';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { AlertTriangle, History } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { DeviceClock } from '@/types/timekeeping-pages';
+
+interface DeviceClockPanelProps {
+    deviceId: string;
+    clock?: DeviceClock;
+    canCorrectClock: boolean;
+}
+
+/**
+ * Describe a drift for display, e.g. "75s ahead" or "4m 10s behind"
+ */
+export const formatDrift = (seconds: number): string => {
+    if (seconds === 0) return 'in sync';
+    const abs = Math.abs(seconds);
+    const amount = abs < 120 ? `${abs}s` : `${Math.floor(abs / 60)}m ${abs % 60}s`;
+    return `${amount} ${seconds > 0 ? 'ahead' : 'behind'}`;
+};
+
+const formatOffset = (seconds: number): string => `${seconds > 0 ? '+' : ''}${seconds}s`;
+
+/**
+ * Device Clock Panel
+ * Shows the device clock drift measured from heartbeats and re-bases a window of the
+ * device's taps. Corrections are recorded as ledger annotations; the ledger is not edited.
+ */
+export function DeviceClockPanel({ deviceId, clock, canCorrectClock }: DeviceClockPanelProps) {
+    const [windowStart, setWindowStart] = useState('');
+    const [windowEnd, setWindowEnd] = useState('');
+    const [offsetSeconds, setOffsetSeconds] = useState('');
+    const [reason, setReason] = useState('');
+    const [errors, setErrors] = useState<Record<string, string>>({});
+    const [submitting, setSubmitting] = useState(false);
+
+    const driftSeconds = clock?.driftSeconds ?? null;
+    const samples = (clock?.samples ?? []).map(sample => ({
+        time: format(parseISO(sample.sampledAt), 'HH:mm'),
+        drift: sample.driftSeconds,
+    }));
+
+    const submit = () => {
+        const offset = Number(offsetSeconds);
+        if (!confirm(`Move every tap ${deviceId} recorded in this window by ${formatOffset(offset)}? Attendance events and open daily summaries are updated; the ledger keeps the original times.`)) return;
+
+        setSubmitting(true);
+        setErrors({});
+        router.post(route('hr.timekeeping.devices.clock-corrections.store', { deviceId }), {
+            window_start: windowStart,
+            window_end: windowEnd,
+            offset_seconds: offset,
+            reason,
+        }, {
+            preserveScroll: true,
+            preserveState: true,
+            onSuccess: () => {
+                setWindowStart('');
+                setWindowEnd('');
+                setOffsetSeconds('');
+                setReason('');
+            },
+            onError: setErrors,
+            onFinish: () => setSubmitting(false),
+        });
+    };
+
+    return (
+        <div className="space-y-6 pr-4">
+            {/* Current drift */}
+            <div>
+                <h3 className="text-sm font-medium mb-3">Clock Drift</h3>
+                {driftSeconds === null ? (
+                    <p className="text-sm text-muted-foreground text-center py-6 bg-slate-50 rounded-lg">
+                        This device has not reported its clock yet
+                    </p>
+                ) : (
+                    <div className="space-y-3">
+                        <div className="flex items-center justify-between p-3 bg-slate-50 rounded-lg">
+                            <span className="text-sm text-muted-foreground">Device clock</span>
+                            <span className={cn('text-sm font-medium', clock?.drifting ? 'text-red-600' : 'text-green-600')}>
+                                {formatDrift(driftSeconds)}
+                            </span>
+                        </div>
+                        <div className="flex items-center justify-between p-3 bg-slate-50 rounded-lg">
+                            <span className="text-sm text-muted-foreground">Measured</span>
+                            <span className="text-sm">
+                                {clock?.checkedAt ? formatDistanceToNow(parseISO(clock.checkedAt), { addSuffix: true }) : '—'}
+                            </span>
+                        </div>
+                        {clock?.drifting && (
+                            <Alert variant="destructive">
+                                <AlertTriangle className="h-4 w-4" />
+                                <AlertTitle>Clock off by more than {clock.thresholdSeconds}s</AlertTitle>
+                                <AlertDescription>
+                                    Punch times from this device are shifted by the same amount. Fix the device clock
+                                    (NTP), then correct the taps recorded while it was off.
+                                </AlertDescription>
+                            </Alert>
+                        )}
+                    </div>
+                )}
+            </div>
+
+            {samples.length > 1 && (
+                <div>
+                    <h3 className="text-sm font-medium mb-3">Last 24 Hours</h3>
+                    <ResponsiveContainer width="100%" height={160}>
+                        <LineChart data={samples}>
+                            <CartesianGrid strokeDasharray="3 3" />
+                            <XAxis dataKey="time" fontSize={11} />
+                            <YAxis fontSize={11} unit="s" width={48} />
+                            <Tooltip formatter={value => [formatDrift(Number(value)), 'Drift']} />
+                            <ReferenceLine y={clock?.thresholdSeconds} stroke="#ef4444" strokeDasharray="4 4" />
+                            <ReferenceLine y={-(clock?.thresholdSeconds ?? 0)} stroke="#ef4444" strokeDasharray="4 4" />
+                            <Line type="stepAfter" dataKey="drift" stroke="#3b82f6" dot={false} />
+                        </LineChart>
+                    </ResponsiveContainer>
+                </div>
+            )}
+
+            {canCorrectClock && (
+                <>
+                    <Separator />
+
+                    <div className="space-y-3">
+                        <div>
+                            <h3 className="text-sm font-medium mb-1">Correct Recorded Taps</h3>
+                            <p className="text-xs text-muted-foreground">
+                                Re-bases the taps whose device time falls in the window. Use a negative offset for a
+                                clock that ran ahead. Taps from the window that are processed later are corrected too.
+                            </p>
+                        </div>
+                        <div className="grid grid-cols-2 gap-3">
+                            <div className="space-y-1">
+                                <Label htmlFor="window_start">From (device time)</Label>
+                                <Input
+                                    id="window_start"
+                                    type="datetime-local"
+                                    step={1}
+                                    value={windowStart}
+                                    onChange={e => setWindowStart(e.target.value)}
+                                />
+                                {errors.window_start && <p className="text-xs text-red-600">{errors.window_start}</p>}
+                            </div>
+                            <div className="space-y-1">
+                                <Label htmlFor="window_end">To (device time)</Label>
+                                <Input
+                                    id="window_end"
+                                    type="datetime-local"
+                                    step={1}
+                                    value={windowEnd}
+                                    onChange={e => setWindowEnd(e.target.value)}
+                                />
+                                {errors.window_end && <p className="text-xs text-red-600">{errors.window_end}</p>}
+                            </div>
+                        </div>
+                        <div className="space-y-1">
+                            <Label htmlFor="offset_seconds">Offset (seconds)</Label>
+                            <div className="flex gap-2">
+                                <Input
+                                    id="offset_seconds"
+                                    type="number"
+                                    placeholder="-90"
+                                    value={offsetSeconds}
+                                    onChange={e => setOffsetSeconds(e.target.value)}
+                                />
+                                {driftSeconds !== null && driftSeconds !== 0 && (
+                                    <Button variant="outline" size="sm" onClick={() => setOffsetSeconds(String(-driftSeconds))}>
+                                        Use current drift
+                                    </Button>
+                                )}
+                            </div>
+                            {errors.offset_seconds && <p className="text-xs text-red-600">{errors.offset_seconds}</p>}
+                        </div>
+                        <div className="space-y-1">
+                            <Label htmlFor="correction_reason">Reason</Label>
+                            <Textarea
+                                id="correction_reason"
+                                rows={2}
+                                maxLength={500}
+                                placeholder="e.g. CMOS battery failed, clock ran 4 minutes fast until NTP was restored"
+                                value={reason}
+                                onChange={e => setReason(e.target.value)}
+                            />
+                            {errors.reason && <p className="text-xs text-red-600">{errors.reason}</p>}
+                        </div>
+                        <Button
+                            size="sm"
+                            disabled={submitting || !windowStart || !windowEnd || !offsetSeconds || Number(offsetSeconds) === 0 || !reason.trim()}
+                            onClick={submit}
+                        >
+                            <History className="h-3 w-3 mr-2" />
+                            Record Correction
+                        </Button>
+                    </div>
+                </>
+            )}
+
+            <Separator />
+
+            <div>
+                <h3 className="text-sm font-medium mb-3">Correction History</h3>
+                {(clock?.corrections ?? []).length === 0 ? (
+                    <p className="text-sm text-muted-foreground text-center py-6 bg-slate-50 rounded-lg">
+                        No clock corrections recorded for this device
+                    </p>
+                ) : (
+                    <Table>
+                        <TableHeader>
+                            <TableRow>
+                                <TableHead>Window</TableHead>
+                                <TableHead>Offset</TableHead>
+                                <TableHead>Corrected</TableHead>
+                                <TableHead>By</TableHead>
+                            </TableRow>
+                        </TableHeader>
+                        <TableBody>
+                            {clock!.corrections.map(correction => (
+                                <TableRow key={correction.id}>
+                                    <TableCell>
+                                        <div className="text-xs">
+                                            {format(parseISO(correction.windowStart), 'MMM d, HH:mm:ss')} –{' '}
+                                            {format(parseISO(correction.windowEnd), 'MMM d, HH:mm:ss')}
+                                        </div>
+                                        <div className="text-xs text-muted-foreground max-w-[220px] truncate" title={correction.reason}>
+                                            #{correction.id} · {correction.reason}
+                                        </div>
+                                    </TableCell>
+                                    <TableCell className="font-mono text-xs">{formatOffset(correction.offsetSeconds)}</TableCell>
+                                    <TableCell className="text-xs">
+                                        {correction.eventsCorrected} event(s)
+                                        <div className="text-muted-foreground">{correction.ledgerEntries} ledger entr{correction.ledgerEntries === 1 ? 'y' : 'ies'}</div>
+                                    </TableCell>
+                                    <TableCell className="text-xs">
+                                        {correction.createdBy ?? 'Unknown'}
+                                        <div className="text-muted-foreground">
+                                            {correction.createdAt ? new Date(correction.createdAt).toLocaleString() : '—'}
+                                        </div>
+                                    </TableCell>
+                                </TableRow>
+                            ))}
+                        </TableBody>
+                    </Table>
+                )}
+            </div>
+        </div>
+    );
+}
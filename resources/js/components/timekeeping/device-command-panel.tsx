@@ -0,0 +1,230 @@
+import { router } from '@inertiajs/react';
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Separator } from '@/components/ui/separator';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Eraser, KeyRound, Power, RefreshCw, Send, X } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { DeviceCommand, DeviceCommandStatus, DeviceCommandType } from '@/types/timekeeping-pages';
+
+interface DeviceCommandPanelProps {
+    deviceId: string;
+    kind?: 'gate' | 'kiosk';
+    commands: DeviceCommand[];
+    canSendCommands: boolean;
+}
+
+export const COMMAND_LABELS: Record<DeviceCommandType, string> = {
+    force_sync: 'Force sync',
+    restart_service: 'Restart',
+    clear_photo_cache: 'Clear photo cache',
+    push_config: 'Push config',
+    rotate_key: 'Rotate key',
+};
+
+export const COMMAND_STATUS_CONFIG: Record<DeviceCommandStatus, { label: string; className: string }> = {
+    pending: { label: 'Pending', className: 'bg-slate-100 text-slate-700 border-slate-200' },
+    delivered: { label: 'Delivered', className: 'bg-blue-100 text-blue-700 border-blue-200' },
+    succeeded: { label: 'Succeeded', className: 'bg-green-100 text-green-700 border-green-200' },
+    failed: { label: 'Failed', className: 'bg-red-100 text-red-700 border-red-200' },
+    timed_out: { label: 'Timed out', className: 'bg-amber-100 text-amber-700 border-amber-200' },
+    cancelled: { label: 'Cancelled', className: 'bg-gray-100 text-gray-500 border-gray-200' },
+};
+
+// Sent without arguments; rotate_key and restart interrupt the device, so they ask first
+const QUICK_COMMANDS: { command: DeviceCommandType; icon: typeof RefreshCw; confirm?: string }[] = [
+    { command: 'force_sync', icon: RefreshCw },
+    { command: 'clear_photo_cache', icon: Eraser },
+    { command: 'restart_service', icon: Power, confirm: 'Restart this device? Taps are buffered locally while it comes back up.' },
+    { command: 'rotate_key', icon: KeyRound, confirm: 'Issue a new API key to this device? The current key stops working once the device confirms the switch.' },
+];
+
+const describePayload = (command: DeviceCommand): string | null => {
+    if (command.command !== 'push_config' || !command.payload) return null;
+    const parts: string[] = [];
+    if (command.payload.heartbeat_interval) parts.push(`heartbeat ${command.payload.heartbeat_interval}s`);
+    if (command.payload.display_text) parts.push(`"${command.payload.display_text}"`);
+    return parts.join(', ');
+};
+
+/**
+ * Device Command Panel
+ * Queues remote commands for a gate PC or kiosk and shows their delivery history.
+ * The device picks commands up with its next heartbeat, so results lag by up to a minute.
+ */
+export function DeviceCommandPanel({ deviceId, kind = 'gate', commands, canSendCommands }: DeviceCommandPanelProps) {
+    const [heartbeatInterval, setHeartbeatInterval] = useState('');
+    const [displayText, setDisplayText] = useState('');
+    const [errors, setErrors] = useState<Record<string, string>>({});
+    const [sending, setSending] = useState(false);
+
+    const openCommands = new Set(
+        commands.filter(command => command.status === 'pending' || command.status === 'delivered').map(command => command.command)
+    );
+
+    const send = (command: DeviceCommandType, payload: Record<string, unknown> = {}, onSuccess?: () => void) => {
+        setSending(true);
+        setErrors({});
+        router.post(route('hr.timekeeping.devices.commands.store', { deviceId }), { command, ...payload }, {
+            preserveScroll: true,
+            preserveState: true,
+            onSuccess,
+            onError: setErrors,
+            onFinish: () => setSending(false),
+        });
+    };
+
+    const sendQuick = (command: DeviceCommandType, confirmText?: string) => {
+        if (confirmText && !confirm(confirmText)) return;
+        send(command);
+    };
+
+    const pushConfig = () => {
+        send('push_config', {
+            heartbeat_interval: heartbeatInterval ? Number(heartbeatInterval) : null,
+            display_text: displayText || null,
+        }, () => {
+            setHeartbeatInterval('');
+            setDisplayText('');
+        });
+    };
+
+    const cancel = (command: DeviceCommand) => {
+        router.post(route('hr.timekeeping.devices.commands.cancel', { commandId: command.id }), {}, {
+            preserveScroll: true,
+            preserveState: true,
+        });
+    };
+
+    return (
+        <div className="space-y-6 pr-4">
+            {canSendCommands && (
+                <>
+                    <div>
+                        <h3 className="text-sm font-medium mb-1">Send Command</h3>
+                        <p className="text-xs text-muted-foreground mb-3">
+                            {kind === 'kiosk'
+                                ? 'The kiosk picks commands up with its next heartbeat (every minute). Restart reloads the kiosk page.'
+                                : 'The gate PC picks commands up with its next heartbeat (every 30 seconds). Restart restarts the reader service.'}
+                        </p>
+                        <div className="grid grid-cols-2 gap-2">
+                            {QUICK_COMMANDS.map(({ command, icon: Icon, confirm: confirmText }) => (
+                                <Button
+                                    key={command}
+                                    variant="outline"
+                                    size="sm"
+                                    disabled={sending || openCommands.has(command)}
+                                    onClick={() => sendQuick(command, confirmText)}
+                                >
+                                    <Icon className="h-3 w-3 mr-2" />
+                                    {COMMAND_LABELS[command]}
+                                </Button>
+                            ))}
+                        </div>
+                    </div>
+
+                    <div className="space-y-3">
+                        <h3 className="text-sm font-medium">Push Config</h3>
+                        <div className="grid grid-cols-2 gap-3">
+                            <div className="space-y-1">
+                                <Label htmlFor="heartbeat_interval">Heartbeat interval (seconds)</Label>
+                                <Input
+                                    id="heartbeat_interval"
+                                    type="number"
+                                    min={10}
+                                    max={600}
+                                    placeholder={kind === 'kiosk' ? '60' : '30'}
+                                    value={heartbeatInterval}
+                                    onChange={e => setHeartbeatInterval(e.target.value)}
+                                />
+                                {errors.heartbeat_interval && <p className="text-xs text-red-600">{errors.heartbeat_interval}</p>}
+                            </div>
+                            <div className="space-y-1">
+                                <Label htmlFor="display_text">Idle display text</Label>
+                                <Input
+                                    id="display_text"
+                                    maxLength={60}
+                                    placeholder="PLEASE TAP YOUR CARD"
+                                    value={displayText}
+                                    onChange={e => setDisplayText(e.target.value)}
+                                />
+                                {errors.display_text && <p className="text-xs text-red-600">{errors.display_text}</p>}
+                            </div>
+                        </div>
+                        <Button
+                            size="sm"
+                            disabled={sending || openCommands.has('push_config') || (!heartbeatInterval && !displayText)}
+                            onClick={pushConfig}
+                        >
+                            <Send className="h-3 w-3 mr-2" />
+                            Push Config
+                        </Button>
+                    </div>
+
+                    <Separator />
+                </>
+            )}
+
+            <div>
+                <h3 className="text-sm font-medium mb-3">Command History</h3>
+                {commands.length === 0 ? (
+                    <p className="text-sm text-muted-foreground text-center py-6 bg-slate-50 rounded-lg">
+                        No commands sent to this device yet
+                    </p>
+                ) : (
+                    <Table>
+                        <TableHeader>
+                            <TableRow>
+                                <TableHead>Command</TableHead>
+                                <TableHead>Status</TableHead>
+                                <TableHead>Issued</TableHead>
+                                <TableHead>Result</TableHead>
+                                <TableHead />
+                            </TableRow>
+                        </TableHeader>
+                        <TableBody>
+                            {commands.map(command => {
+                                const statusConfig = COMMAND_STATUS_CONFIG[command.status];
+                                const payloadText = describePayload(command);
+
+                                return (
+                                    <TableRow key={command.id}>
+                                        <TableCell>
+                                            <div className="text-sm font-medium">{COMMAND_LABELS[command.command]}</div>
+                                            {payloadText && <div className="text-xs text-muted-foreground">{payloadText}</div>}
+                                        </TableCell>
+                                        <TableCell>
+                                            <Badge variant="outline" className={cn('text-xs', statusConfig.className)}>
+                                                {statusConfig.label}
+                                            </Badge>
+                                        </TableCell>
+                                        <TableCell>
+                                            <div className="text-xs">
+                                                {command.issuedAt ? new Date(command.issuedAt).toLocaleString() : '—'}
+                                            </div>
+                                            <div className="text-xs text-muted-foreground">{command.issuedBy ?? 'Unknown'}</div>
+                                        </TableCell>
+                                        <TableCell className="text-xs text-muted-foreground max-w-[200px]">
+                                            {command.resultMessage
+                                                ?? (command.status === 'timed_out' ? 'No acknowledgement from the device' : '—')}
+                                        </TableCell>
+                                        <TableCell>
+                                            {canSendCommands && command.status === 'pending' && (
+                                                <Button variant="ghost" size="sm" onClick={() => cancel(command)}>
+                                                    <X className="h-3 w-3" />
+                                                </Button>
+                                            )}
+                                        </TableCell>
+                                    </TableRow>
+                                );
+                            })}
+                        </TableBody>
+                    </Table>
+                )}
+            </div>
+        </div>
+    );
+}
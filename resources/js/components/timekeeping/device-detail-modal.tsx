@@ -27,10 +27,14 @@ import {
     Download,
     RefreshCw,
     Hash,
-    Zap
+    Zap,
+    Terminal,
+    Timer
 } from 'lucide-react';
 import { cn } from '@/lib/utils';
-import { EventType } from '@/types/timekeeping-pages';
+import { DeviceClock, DeviceCommand, EventType } from '@/types/timekeeping-pages';
+import { DeviceClockPanel } from './device-clock-panel';
+import { DeviceCommandPanel } from './device-command-panel';
 
 /**
  * Device Status Types
@@ -59,12 +63,19 @@ interface Device {
     uptime: number;
     errorRate?: number;
     recentScans: RecentScan[];
+    kind?: 'gate' | 'kiosk';
+    commands?: DeviceCommand[];
+    clock?: DeviceClock;
 }
 
 interface DeviceDetailModalProps {
     device: Device | null;
     isOpen: boolean;
     onClose: () => void;
+    /** Allows queueing remote commands from the Commands tab */
+    canSendCommands?: boolean;
+    /** Allows recording clock corrections from the Clock tab */
+    canCorrectClock?: boolean;
 }
 
 /**
@@ -195,7 +206,7 @@ const generateExtendedEventLog = (device: Device): RecentScan[] => {
 /**
  * Device Detail Modal Component
  */
-export function DeviceDetailModal({ device, isOpen, onClose }: DeviceDetailModalProps) {
+export function DeviceDetailModal({ device, isOpen, onClose, canSendCommands = false, canCorrectClock = false }: DeviceDetailModalProps) {
     // Use lazy state initialization to generate random values only once on mount
     const [randomFirmwareVersion] = useState(() => Math.floor(Math.random() * 10));
     const [randomIpLastOctet] = useState(() => Math.floor(Math.random() * 254) + 1);
@@ -309,7 +320,7 @@ export function DeviceDetailModal({ device, isOpen, onClose }: DeviceDetailModal
 
                 {/* Tabs */}
                 <Tabs defaultValue="events" className="flex-1 flex flex-col overflow-hidden">
-                    <TabsList className="grid w-full grid-cols-3">
+                    <TabsList className="grid w-full grid-cols-5">
                         <TabsTrigger value="events">
                             <Activity className="h-4 w-4 mr-2" />
                             Event Log
@@ -322,6 +333,14 @@ export function DeviceDetailModal({ device, isOpen, onClose }: DeviceDetailModal
                             <Server className="h-4 w-4 mr-2" />
                             Device Info
                         </TabsTrigger>
+                        <TabsTrigger value="commands">
+                            <Terminal className="h-4 w-4 mr-2" />
+                            Commands
+                        </TabsTrigger>
+                        <TabsTrigger value="clock">
+                            <Timer className="h-4 w-4 mr-2" />
+                            Clock
+                        </TabsTrigger>
                     </TabsList>
 
                     {/* Event Log Tab */}
@@ -596,6 +615,29 @@ export function DeviceDetailModal({ device, isOpen, onClose }: DeviceDetailModal
                             </div>
                         </ScrollArea>
                     </TabsContent>
+
+                    {/* Commands Tab */}
+                    <TabsContent value="commands" className="flex-1 overflow-hidden mt-4">
+                        <ScrollArea className="h-[400px]">
+                            <DeviceCommandPanel
+                                deviceId={device.id}
+                                kind={device.kind}
+                                commands={device.commands ?? []}
+                                canSendCommands={canSendCommands}
+                            />
+                        </ScrollArea>
+                    </TabsContent>
+
+                    {/* Clock Tab */}
+                    <TabsContent value="clock" className="flex-1 overflow-hidden mt-4">
+                        <ScrollArea className="h-[400px]">
+                            <DeviceClockPanel
+                                deviceId={device.id}
+                                clock={device.clock}
+                                canCorrectClock={canCorrectClock}
+                            />
+                        </ScrollArea>
+                    </TabsContent>
                 </Tabs>
             </DialogContent>
         </Dialog>
@@ -1,20 +1,47 @@
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
-import { TooltipProvider } from '@/components/ui/tooltip';
-import {  
-    MapPin, 
-    ZoomIn, 
-    ZoomOut, 
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+    MapPin,
+    ZoomIn,
+    ZoomOut,
     Maximize2,
-    Info
+    Info,
+    Move,
+    Check,
+    Plus,
+    Trash2,
+    Upload,
+    X
 } from 'lucide-react';
+import { router } from '@inertiajs/react';
+import { toast } from 'sonner';
 import { cn } from '@/lib/utils';
 import { useState, useRef } from 'react';
 import { Device, DeviceStatus } from './device-status-dashboard';
+import { FloorPlanUploadDialog } from './floor-plan-upload-dialog';
+
+/**
+ * Uploaded floor plan for one floor of a site
+ */
+export interface FloorPlan {
+    id: number;
+    site: string;
+    floor: string;
+    name: string | null;
+    imageUrl: string;
+    mimeType: string;
+    /** Intrinsic drawing size, used for the aspect ratio when known */
+    width: number | null;
+    height: number | null;
+}
 
 interface DeviceMapViewProps {
     devices: Device[];
+    floorPlans?: FloorPlan[];
+    /** Allows uploading floor plans and dragging device markers */
+    canManage?: boolean;
     onDeviceClick?: (deviceId: string) => void;
     className?: string;
 }
@@ -23,22 +50,13 @@ interface DeviceMapViewProps {
  * Device position on floor plan (x, y in percentage)
  */
 interface DevicePosition {
-    deviceId: string;
     x: number;
     y: number;
 }
 
-/**
- * Mock floor plan positions for devices
- */
-const devicePositions: DevicePosition[] = [
-    { deviceId: "GATE-01", x: 15, y: 20 },          // Main entrance, top-left
-    { deviceId: "GATE-02", x: 85, y: 25 },          // Loading dock, top-right
-    { deviceId: "CAFETERIA-01", x: 50, y: 70 },     // Cafeteria, center-bottom
-    { deviceId: "OFFICE-01", x: 25, y: 50 },        // Office, left-middle
-    { deviceId: "WAREHOUSE-01", x: 75, y: 55 },     // Warehouse, right-middle
-    { deviceId: "PRODUCTION-01", x: 50, y: 35 },    // Production, center
-];
+/** The drawing is scaled to this viewBox width so marker sizes are the same on every plan */
+const VIEW_WIDTH = 1000;
+const DEFAULT_VIEW_HEIGHT = 700;
 
 /**
  * Get status color for map markers
@@ -76,15 +94,46 @@ const getStatusGlow = (status: DeviceStatus): string => {
     }
 };
 
+const clampPercent = (value: number): number => Math.min(100, Math.max(0, Math.round(value * 100) / 100));
+
+const planLabel = (plan: FloorPlan): string => `${plan.site} / ${plan.floor}`;
+
 /**
  * Device Map View Component
+ *
+ * Shows devices on uploaded per-site, per-floor drawings. In edit mode markers
+ * can be dragged, placed from the unplaced tray, or removed from the map.
  */
-export function DeviceMapView({ devices, onDeviceClick, className }: DeviceMapViewProps) {
+export function DeviceMapView({ devices, floorPlans = [], canManage = false, onDeviceClick, className }: DeviceMapViewProps) {
     const [zoom, setZoom] = useState(1);
     const [pan, setPan] = useState({ x: 0, y: 0 });
     const [isPanning, setIsPanning] = useState(false);
     const [lastPanPos, setLastPanPos] = useState({ x: 0, y: 0 });
+    const [selectedPlanId, setSelectedPlanId] = useState<number | null>(floorPlans[0]?.id ?? null);
+    const [isEditing, setIsEditing] = useState(false);
+    const [draggingId, setDraggingId] = useState<string | null>(null);
+    /** Positions moved locally and not yet confirmed by the server */
+    const [pendingPositions, setPendingPositions] = useState<Record<string, DevicePosition>>({});
+    const [isUploadOpen, setIsUploadOpen] = useState(false);
+    const [pendingPlan, setPendingPlan] = useState<{ site: string; floor: string } | null>(null);
     const mapRef = useRef<HTMLDivElement>(null);
+    const svgRef = useRef<SVGSVGElement>(null);
+
+    // Switch to a freshly uploaded plan once it arrives in props
+    const uploadedPlan = pendingPlan
+        ? floorPlans.find((plan) => plan.site === pendingPlan.site && plan.floor === pendingPlan.floor)
+        : undefined;
+    if (uploadedPlan) {
+        setSelectedPlanId(uploadedPlan.id);
+        setPendingPlan(null);
+    }
+
+    const currentPlan = floorPlans.find((plan) => plan.id === selectedPlanId) ?? floorPlans[0] ?? null;
+    const sites = Array.from(new Set(floorPlans.map((plan) => plan.site)));
+    const siteFloors = currentPlan ? floorPlans.filter((plan) => plan.site === currentPlan.site) : [];
+    const viewHeight = currentPlan?.width && currentPlan?.height
+        ? Math.round((VIEW_WIDTH * currentPlan.height) / currentPlan.width)
+        : DEFAULT_VIEW_HEIGHT;
 
     const handleZoomIn = () => {
         setZoom((prev) => Math.min(prev + 0.2, 2.5));
@@ -99,47 +148,196 @@ export function DeviceMapView({ devices, onDeviceClick, className }: DeviceMapVi
         setPan({ x: 0, y: 0 });
     };
 
+    const handleSiteChange = (site: string) => {
+        const firstFloor = floorPlans.find((plan) => plan.site === site);
+        if (firstFloor) setSelectedPlanId(firstFloor.id);
+    };
+
+    /**
+     * Convert a pointer position to percent of the drawing, honouring zoom and pan
+     */
+    const toPlanPercent = (clientX: number, clientY: number): DevicePosition | null => {
+        const svg = svgRef.current;
+        const matrix = svg?.getScreenCTM();
+        if (!svg || !matrix) return null;
+
+        const point = svg.createSVGPoint();
+        point.x = clientX;
+        point.y = clientY;
+        const local = point.matrixTransform(matrix.inverse());
+
+        return {
+            x: clampPercent((local.x / VIEW_WIDTH) * 100),
+            y: clampPercent((local.y / viewHeight) * 100),
+        };
+    };
+
+    const saveDevicePosition = (deviceId: string, planId: number | null, position: DevicePosition | null) => {
+        router.patch(
+            route('hr.timekeeping.devices.position', { deviceId }),
+            {
+                floor_plan_id: planId,
+                map_x: position?.x ?? null,
+                map_y: position?.y ?? null,
+            },
+            {
+                preserveScroll: true,
+                preserveState: true,
+                only: ['devices'],
+                onError: () => toast.error(`Could not save the position of ${deviceId}`),
+                onFinish: () => setPendingPositions((prev) => {
+                    const next = { ...prev };
+                    delete next[deviceId];
+                    return next;
+                }),
+            },
+        );
+    };
+
     const handleMouseDown = (e: React.MouseEvent) => {
         setIsPanning(true);
         setLastPanPos({ x: e.clientX, y: e.clientY });
     };
 
     const handleMouseMove = (e: React.MouseEvent) => {
+        if (draggingId) {
+            const position = toPlanPercent(e.clientX, e.clientY);
+            if (position) setPendingPositions((prev) => ({ ...prev, [draggingId]: position }));
+            return;
+        }
+
         if (!isPanning) return;
-        
+
         const deltaX = e.clientX - lastPanPos.x;
         const deltaY = e.clientY - lastPanPos.y;
-        
+
         setPan((prev) => ({
             x: prev.x + deltaX,
             y: prev.y + deltaY
         }));
-        
+
         setLastPanPos({ x: e.clientX, y: e.clientY });
     };
 
     const handleMouseUp = () => {
+        if (draggingId && currentPlan) {
+            const position = pendingPositions[draggingId];
+            if (position) saveDevicePosition(draggingId, currentPlan.id, position);
+        }
+        setDraggingId(null);
         setIsPanning(false);
     };
 
-    const getDevicePosition = (deviceId: string): DevicePosition | undefined => {
-        return devicePositions.find((pos) => pos.deviceId === deviceId);
+    const handleMarkerMouseDown = (e: React.MouseEvent, deviceId: string) => {
+        if (!isEditing) return;
+        e.stopPropagation();
+        setDraggingId(deviceId);
+    };
+
+    const handlePlaceDevice = (deviceId: string) => {
+        if (!currentPlan) return;
+        const position = { x: 50, y: 50 };
+        setPendingPositions((prev) => ({ ...prev, [deviceId]: position }));
+        saveDevicePosition(deviceId, currentPlan.id, position);
+    };
+
+    const handleDeletePlan = () => {
+        if (!currentPlan) return;
+        if (!confirm(`Delete the floor plan for ${planLabel(currentPlan)}? Devices on it will become unplaced.`)) return;
+
+        router.delete(route('hr.timekeeping.floor-plans.destroy', { floorPlan: currentPlan.id }), {
+            preserveScroll: true,
+            onSuccess: () => setSelectedPlanId(null),
+        });
     };
 
+    const getDevicePosition = (device: Device): DevicePosition | undefined => {
+        if (pendingPositions[device.id]) return pendingPositions[device.id];
+        if (!currentPlan || device.floorPlanId !== currentPlan.id) return undefined;
+        if (device.mapX == null || device.mapY == null) return undefined;
+        return { x: device.mapX, y: device.mapY };
+    };
+
+    const placedDevices = devices.filter((device) => getDevicePosition(device));
+    const unplacedDevices = devices.filter((device) => !getDevicePosition(device));
+
+    const uploadDialog = canManage && (
+        <FloorPlanUploadDialog
+            key={currentPlan?.site ?? ''}
+            isOpen={isUploadOpen}
+            onClose={() => setIsUploadOpen(false)}
+            defaultSite={currentPlan?.site}
+            onUploaded={(site, floor) => setPendingPlan({ site, floor })}
+        />
+    );
+
+    if (!currentPlan) {
+        return (
+            <Card className={cn('relative', className)}>
+                <CardHeader>
+                    <CardTitle className="flex items-center gap-2">
+                        <MapPin className="h-5 w-5" />
+                        Device Floor Plan
+                    </CardTitle>
+                    <CardDescription>
+                        No floor plans have been uploaded yet
+                    </CardDescription>
+                </CardHeader>
+                <CardContent>
+                    <div className="flex flex-col items-center justify-center gap-3 h-[300px] bg-slate-50 rounded-lg border-2 border-dashed border-slate-300 text-sm text-muted-foreground">
+                        <MapPin className="h-10 w-10 text-slate-400" />
+                        <p>Upload a floor plan image or SVG per site and floor, then drag devices onto it.</p>
+                        {canManage && (
+                            <Button size="sm" onClick={() => setIsUploadOpen(true)} className="gap-2">
+                                <Upload className="h-4 w-4" />
+                                Upload Floor Plan
+                            </Button>
+                        )}
+                    </div>
+                </CardContent>
+                {uploadDialog}
+            </Card>
+        );
+    }
+
     return (
         <Card className={cn('relative', className)}>
             <CardHeader>
-                <div className="flex items-center justify-between">
+                <div className="flex flex-wrap items-center justify-between gap-3">
                     <div>
                         <CardTitle className="flex items-center gap-2">
                             <MapPin className="h-5 w-5" />
-                            Device Floor Plan
+                            {currentPlan.name ?? 'Device Floor Plan'}
                         </CardTitle>
                         <CardDescription>
-                            Interactive map showing device locations and status
+                            {planLabel(currentPlan)} &middot; {placedDevices.length} device{placedDevices.length === 1 ? '' : 's'} on this floor
                         </CardDescription>
                     </div>
 
+                    {/* Site & Floor */}
+                    <div className="flex items-center gap-2">
+                        <Select value={currentPlan.site} onValueChange={handleSiteChange}>
+                            <SelectTrigger className="w-[160px]" aria-label="Site">
+                                <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                                {sites.map((site) => (
+                                    <SelectItem key={site} value={site}>{site}</SelectItem>
+                                ))}
+                            </SelectContent>
+                        </Select>
+                        <Select value={String(currentPlan.id)} onValueChange={(value) => setSelectedPlanId(Number(value))}>
+                            <SelectTrigger className="w-[120px]" aria-label="Floor">
+                                <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                                {siteFloors.map((plan) => (
+                                    <SelectItem key={plan.id} value={String(plan.id)}>{plan.floor}</SelectItem>
+                                ))}
+                            </SelectContent>
+                        </Select>
+                    </div>
+
                     {/* Map Controls */}
                     <div className="flex items-center gap-2">
                         <Button
@@ -168,6 +366,25 @@ export function DeviceMapView({ devices, onDeviceClick, className }: DeviceMapVi
                         <Badge variant="secondary" className="ml-2">
                             {Math.round(zoom * 100)}%
                         </Badge>
+                        {canManage && (
+                            <>
+                                <Button
+                                    variant={isEditing ? 'default' : 'outline'}
+                                    size="sm"
+                                    onClick={() => setIsEditing((prev) => !prev)}
+                                    className="gap-2 ml-2"
+                                >
+                                    {isEditing ? <Check className="h-4 w-4" /> : <Move className="h-4 w-4" />}
+                                    {isEditing ? 'Done' : 'Edit Layout'}
+                                </Button>
+                                <Button variant="outline" size="sm" onClick={() => setIsUploadOpen(true)}>
+                                    <Upload className="h-4 w-4" />
+                                </Button>
+                                <Button variant="outline" size="sm" onClick={handleDeletePlan}>
+                                    <Trash2 className="h-4 w-4 text-red-600" />
+                                </Button>
+                            </>
+                        )}
                     </div>
                 </div>
             </CardHeader>
@@ -193,12 +410,46 @@ export function DeviceMapView({ devices, onDeviceClick, className }: DeviceMapVi
                     </div>
                 </div>
 
-                {/* Floor Plan SVG */}
-                <div 
+                {/* Unplaced Devices Tray */}
+                {isEditing && (
+                    <div className="mb-4 p-3 rounded-lg border border-dashed border-slate-300 bg-slate-50">
+                        <p className="text-xs font-semibold text-slate-900 mb-2">
+                            Not on {planLabel(currentPlan)} ({unplacedDevices.length})
+                        </p>
+                        {unplacedDevices.length === 0 ? (
+                            <p className="text-xs text-muted-foreground">Every device is on this floor.</p>
+                        ) : (
+                            <div className="flex flex-wrap gap-2">
+                                {unplacedDevices.map((device) => {
+                                    const otherPlan = floorPlans.find((plan) => plan.id === device.floorPlanId);
+                                    return (
+                                        <Button
+                                            key={device.id}
+                                            variant="outline"
+                                            size="sm"
+                                            className="gap-1.5 h-auto py-1"
+                                            onClick={() => handlePlaceDevice(device.id)}
+                                            title={otherPlan ? `Move from ${planLabel(otherPlan)}` : 'Place on this floor'}
+                                        >
+                                            <Plus className="h-3 w-3" />
+                                            <span className="font-mono text-xs">{device.id}</span>
+                                            {otherPlan && (
+                                                <span className="text-[10px] text-muted-foreground">({planLabel(otherPlan)})</span>
+                                            )}
+                                        </Button>
+                                    );
+                                })}
+                            </div>
+                        )}
+                    </div>
+                )}
+
+                {/* Floor Plan */}
+                <div
                     ref={mapRef}
                     className={cn(
                         'relative w-full h-[600px] bg-slate-100 rounded-lg overflow-hidden border-2 border-slate-300',
-                        isPanning ? 'cursor-grabbing' : 'cursor-grab'
+                        draggingId ? 'cursor-move' : isPanning ? 'cursor-grabbing' : 'cursor-grab'
                     )}
                     onMouseDown={handleMouseDown}
                     onMouseMove={handleMouseMove}
@@ -206,136 +457,127 @@ export function DeviceMapView({ devices, onDeviceClick, className }: DeviceMapVi
                     onMouseLeave={handleMouseUp}
                 >
                     <svg
+                        ref={svgRef}
                         width="100%"
                         height="100%"
-                        viewBox="0 0 1000 700"
+                        viewBox={`0 0 ${VIEW_WIDTH} ${viewHeight}`}
                         className="select-none"
                         style={{
                             transform: `scale(${zoom}) translate(${pan.x / zoom}px, ${pan.y / zoom}px)`,
                             transformOrigin: 'center',
-                            transition: isPanning ? 'none' : 'transform 0.2s ease'
+                            transition: isPanning || draggingId ? 'none' : 'transform 0.2s ease'
                         }}
                     >
-                        {/* Floor Plan Background */}
-                        <rect x="50" y="50" width="900" height="600" fill="white" stroke="#cbd5e1" strokeWidth="2" />
-
-                        {/* Building Zones */}
-                        {/* Main Entrance */}
-                        <rect x="80" y="80" width="200" height="150" fill="#e0f2fe" stroke="#0284c7" strokeWidth="1" strokeDasharray="5,5" />
-                        <text x="180" y="145" textAnchor="middle" fill="#0284c7" fontSize="14" fontWeight="bold">Main Entrance</text>
-
-                        {/* Loading Dock */}
-                        <rect x="720" y="80" width="200" height="150" fill="#fef3c7" stroke="#ca8a04" strokeWidth="1" strokeDasharray="5,5" />
-                        <text x="820" y="145" textAnchor="middle" fill="#ca8a04" fontSize="14" fontWeight="bold">Loading Dock</text>
-
-                        {/* Office Area */}
-                        <rect x="80" y="280" width="300" height="200" fill="#f3e8ff" stroke="#7c3aed" strokeWidth="1" strokeDasharray="5,5" />
-                        <text x="230" y="370" textAnchor="middle" fill="#7c3aed" fontSize="14" fontWeight="bold">Office Area</text>
-
-                        {/* Production Floor */}
-                        <rect x="420" y="150" width="300" height="250" fill="#fee2e2" stroke="#dc2626" strokeWidth="1" strokeDasharray="5,5" />
-                        <text x="570" y="265" textAnchor="middle" fill="#dc2626" fontSize="14" fontWeight="bold">Production Floor</text>
-
-                        {/* Warehouse */}
-                        <rect x="620" y="280" width="300" height="200" fill="#dbeafe" stroke="#2563eb" strokeWidth="1" strokeDasharray="5,5" />
-                        <text x="770" y="370" textAnchor="middle" fill="#2563eb" fontSize="14" fontWeight="bold">Warehouse</text>
-
-                        {/* Cafeteria */}
-                        <rect x="420" y="450" width="300" height="180" fill="#dcfce7" stroke="#16a34a" strokeWidth="1" strokeDasharray="5,5" />
-                        <text x="570" y="530" textAnchor="middle" fill="#16a34a" fontSize="14" fontWeight="bold">Cafeteria</text>
+                        {/* Floor Plan Background (loaded as an image, so scripts in uploaded SVGs never run) */}
+                        <rect x="0" y="0" width={VIEW_WIDTH} height={viewHeight} fill="white" stroke="#cbd5e1" strokeWidth="2" />
+                        <image
+                            href={currentPlan.imageUrl}
+                            x="0"
+                            y="0"
+                            width={VIEW_WIDTH}
+                            height={viewHeight}
+                            preserveAspectRatio="xMidYMid meet"
+                        />
 
                         {/* Device Markers */}
-                        <TooltipProvider>
-                            {devices.map((device) => {
-                                const position = getDevicePosition(device.id);
-                                if (!position) return null;
-
-                                const x = 50 + (position.x / 100) * 900;
-                                const y = 50 + (position.y / 100) * 600;
-
-                                return (
-                                    <g 
-                                        key={device.id}
-                                        style={{ cursor: 'pointer' }}
-                                        onClick={(e) => {
-                                            e.stopPropagation();
-                                            if (onDeviceClick) {
-                                                onDeviceClick(device.id);
-                                            }
-                                        }}
-                                    >
-                                        {/* Device Marker with Glow */}
+                        {placedDevices.map((device) => {
+                            const position = getDevicePosition(device);
+                            if (!position) return null;
+
+                            const x = (position.x / 100) * VIEW_WIDTH;
+                            const y = (position.y / 100) * viewHeight;
+
+                            return (
+                                <g
+                                    key={device.id}
+                                    style={{ cursor: isEditing ? 'move' : 'pointer' }}
+                                    onMouseDown={(e) => handleMarkerMouseDown(e, device.id)}
+                                    onClick={(e) => {
+                                        e.stopPropagation();
+                                        if (!isEditing && onDeviceClick) {
+                                            onDeviceClick(device.id);
+                                        }
+                                    }}
+                                >
+                                    {/* Device Marker with Glow */}
+                                    <circle
+                                        cx={x}
+                                        cy={y}
+                                        r="20"
+                                        className={cn(getStatusColor(device.status), getStatusGlow(device.status))}
+                                        strokeWidth="3"
+                                    />
+
+                                    {/* Device Icon */}
+                                    <circle
+                                        cx={x}
+                                        cy={y}
+                                        r="12"
+                                        fill="white"
+                                    />
+
+                                    {/* Drag target highlight */}
+                                    {draggingId === device.id && (
+                                        <circle cx={x} cy={y} r="28" fill="none" stroke="#0f172a" strokeWidth="2" strokeDasharray="4,4" />
+                                    )}
+
+                                    {/* Pulse animation for online devices */}
+                                    {device.status === 'online' && (
                                         <circle
                                             cx={x}
                                             cy={y}
                                             r="20"
-                                            className={cn(getStatusColor(device.status), getStatusGlow(device.status))}
-                                            strokeWidth="3"
-                                        />
-
-                                        {/* Device Icon */}
-                                        <circle
-                                            cx={x}
-                                            cy={y}
-                                            r="12"
-                                            fill="white"
-                                        />
-                                        
-                                        {/* Pulse animation for online devices */}
-                                        {device.status === 'online' && (
-                                            <circle
-                                                cx={x}
-                                                cy={y}
-                                                r="20"
-                                                fill="none"
-                                                stroke="#22c55e"
-                                                strokeWidth="2"
-                                                opacity="0"
-                                            >
-                                                <animate
-                                                    attributeName="r"
-                                                    from="20"
-                                                    to="30"
-                                                    dur="2s"
-                                                    repeatCount="indefinite"
-                                                />
-                                                <animate
-                                                    attributeName="opacity"
-                                                    from="0.8"
-                                                    to="0"
-                                                    dur="2s"
-                                                    repeatCount="indefinite"
-                                                />
-                                            </circle>
-                                        )}
-
-                                        {/* Device Label */}
-                                        <text
-                                            x={x}
-                                            y={y + 35}
-                                            textAnchor="middle"
-                                            fill="#1e293b"
-                                            fontSize="12"
-                                            fontWeight="600"
-                                        >
-                                            {device.id}
-                                        </text>
-
-                                        {/* Status emoji above marker */}
-                                        <text
-                                            x={x}
-                                            y={y - 25}
-                                            textAnchor="middle"
-                                            fontSize="16"
+                                            fill="none"
+                                            stroke="#22c55e"
+                                            strokeWidth="2"
+                                            opacity="0"
                                         >
-                                            {device.status === 'online' ? '🟢' : 
-                                             device.status === 'idle' ? '🟡' : 
-                                             device.status === 'offline' ? '🔴' : '🔧'}
-                                        </text>
-                                    </g>
-                                );
-                            })}
-                        </TooltipProvider>
+                                            <animate
+                                                attributeName="r"
+                                                from="20"
+                                                to="30"
+                                                dur="2s"
+                                                repeatCount="indefinite"
+                                            />
+                                            <animate
+                                                attributeName="opacity"
+                                                from="0.8"
+                                                to="0"
+                                                dur="2s"
+                                                repeatCount="indefinite"
+                                            />
+                                        </circle>
+                                    )}
+
+                                    {/* Device Label */}
+                                    <text
+                                        x={x}
+                                        y={y + 35}
+                                        textAnchor="middle"
+                                        fill="#1e293b"
+                                        fontSize="12"
+                                        fontWeight="600"
+                                        stroke="white"
+                                        strokeWidth="3"
+                                        paintOrder="stroke"
+                                    >
+                                        {device.id}
+                                    </text>
+
+                                    {/* Status emoji above marker */}
+                                    <text
+                                        x={x}
+                                        y={y - 25}
+                                        textAnchor="middle"
+                                        fontSize="16"
+                                    >
+                                        {device.status === 'online' ? '🟢' :
+                                         device.status === 'idle' ? '🟡' :
+                                         device.status === 'offline' ? '🔴' : '🔧'}
+                                    </text>
+                                </g>
+                            );
+                        })}
                     </svg>
 
                     {/* Instructions Overlay */}
@@ -344,12 +586,20 @@ export function DeviceMapView({ devices, onDeviceClick, className }: DeviceMapVi
                             <Info className="h-4 w-4 flex-shrink-0 mt-0.5" />
                             <div>
                                 <p className="font-medium text-slate-900 mb-1">Map Controls:</p>
-                                <ul className="space-y-0.5">
-                                    <li>• Drag to pan around the floor plan</li>
-                                    <li>• Use zoom buttons to zoom in/out</li>
-                                    <li>• Click device markers for details</li>
-                                    <li>• Reset button returns to default view</li>
-                                </ul>
+                                {isEditing ? (
+                                    <ul className="space-y-0.5">
+                                        <li>• Drag markers to move devices</li>
+                                        <li>• Place devices from the tray above</li>
+                                        <li>• Positions save when you drop a marker</li>
+                                    </ul>
+                                ) : (
+                                    <ul className="space-y-0.5">
+                                        <li>• Drag to pan around the floor plan</li>
+                                        <li>• Use zoom buttons to zoom in/out</li>
+                                        <li>• Click device markers for details</li>
+                                        <li>• Reset button returns to default view</li>
+                                    </ul>
+                                )}
                             </div>
                         </div>
                     </div>
@@ -357,36 +607,45 @@ export function DeviceMapView({ devices, onDeviceClick, className }: DeviceMapVi
 
                 {/* Device Stats */}
                 <div className="grid grid-cols-2 md:grid-cols-6 gap-3 mt-4">
-                    {devices.map((device) => {
-                        const position = getDevicePosition(device.id);
-                        if (!position) return null;
-
-                        return (
-                            <div 
-                                key={device.id} 
-                                className="p-3 bg-slate-50 rounded-lg border border-slate-200 hover:border-slate-300 transition-colors cursor-pointer"
-                                onClick={() => onDeviceClick && onDeviceClick(device.id)}
-                            >
-                                <div className="flex items-center gap-2 mb-1">
-                                    <div className={cn(
-                                        'w-2 h-2 rounded-full',
-                                        device.status === 'online' ? 'bg-green-500' :
-                                        device.status === 'idle' ? 'bg-yellow-500' :
-                                        device.status === 'offline' ? 'bg-red-500' :
-                                        'bg-blue-500'
-                                    )}></div>
-                                    <span className="text-xs font-semibold text-slate-900">{device.id}</span>
-                                </div>
-                                <div className="text-xs text-muted-foreground truncate">{device.location}</div>
-                                <div className="mt-2 flex items-center justify-between text-xs">
-                                    <span className="text-muted-foreground">Scans:</span>
-                                    <span className="font-semibold">{device.scansToday}</span>
-                                </div>
+                    {placedDevices.map((device) => (
+                        <div
+                            key={device.id}
+                            className="relative p-3 bg-slate-50 rounded-lg border border-slate-200 hover:border-slate-300 transition-colors cursor-pointer"
+                            onClick={() => onDeviceClick && onDeviceClick(device.id)}
+                        >
+                            {isEditing && (
+                                <button
+                                    type="button"
+                                    className="absolute top-1.5 right-1.5 text-slate-400 hover:text-red-600"
+                                    title="Remove from map"
+                                    onClick={(e) => {
+                                        e.stopPropagation();
+                                        saveDevicePosition(device.id, null, null);
+                                    }}
+                                >
+                                    <X className="h-3.5 w-3.5" />
+                                </button>
+                            )}
+                            <div className="flex items-center gap-2 mb-1">
+                                <div className={cn(
+                                    'w-2 h-2 rounded-full',
+                                    device.status === 'online' ? 'bg-green-500' :
+                                    device.status === 'idle' ? 'bg-yellow-500' :
+                                    device.status === 'offline' ? 'bg-red-500' :
+                                    'bg-blue-500'
+                                )}></div>
+                                <span className="text-xs font-semibold text-slate-900">{device.id}</span>
+                            </div>
+                            <div className="text-xs text-muted-foreground truncate">{device.location}</div>
+                            <div className="mt-2 flex items-center justify-between text-xs">
+                                <span className="text-muted-foreground">Scans:</span>
+                                <span className="font-semibold">{device.scansToday}</span>
                             </div>
-                        );
-                    })}
+                        </div>
+                    ))}
                 </div>
             </CardContent>
+            {uploadDialog}
         </Card>
     );
 }
@@ -17,12 +17,16 @@ import {
     TrendingDown,
     ArrowRight,
     LayoutGrid,
-    Map as MapIcon
+    Map as MapIcon,
+    Terminal,
+    Timer
 } from 'lucide-react';
 import { cn } from '@/lib/utils';
-import { EventType } from '@/types/timekeeping-pages';
+import { DeviceClock, DeviceCommand, EventType } from '@/types/timekeeping-pages';
 import { DeviceDetailModal } from './device-detail-modal';
-import { DeviceMapView } from './device-map-view';
+import { formatDrift } from './device-clock-panel';
+import { COMMAND_LABELS, COMMAND_STATUS_CONFIG } from './device-command-panel';
+import { DeviceMapView, type FloorPlan } from './device-map-view';
 import { useState } from 'react';
 
 /**
@@ -52,10 +56,26 @@ interface Device {
     uptime: number;
     errorRate?: number;
     recentScans: RecentScan[];
+    /** Floor plan the device is drawn on, with its marker position in percent */
+    floorPlanId?: number | null;
+    mapX?: number | null;
+    mapY?: number | null;
+    kind?: 'gate' | 'kiosk';
+    /** Latest remote commands, newest first */
+    commands?: DeviceCommand[];
+    /** Clock drift measured from heartbeats, with its correction history */
+    clock?: DeviceClock;
 }
 
 interface DeviceStatusDashboardProps {
     devices?: Device[];
+    floorPlans?: FloorPlan[];
+    /** Allows editing the floor plan layout in map view */
+    canManageFloorPlans?: boolean;
+    /** Allows queueing remote commands from the device detail modal */
+    canSendCommands?: boolean;
+    /** Allows recording clock corrections from the device detail modal */
+    canCorrectClock?: boolean;
     onViewDeviceLog?: (deviceId: string) => void;
     showTitle?: boolean;
     className?: string;
@@ -525,6 +545,39 @@ function DeviceCard({ device, onViewLog }: { device: Device; onViewLog?: (device
                     </span>
                 </div>
 
+                {/* Clock Drift */}
+                {device.clock && device.clock.driftSeconds !== null && (
+                    <div className="flex items-center gap-2 text-sm">
+                        <Timer className="h-4 w-4 text-muted-foreground" />
+                        <span className="text-muted-foreground">Clock:</span>
+                        {device.clock.drifting ? (
+                            <Badge variant="outline" className="text-xs bg-red-100 text-red-700 border-red-200">
+                                {formatDrift(device.clock.driftSeconds)}
+                            </Badge>
+                        ) : (
+                            <span className="font-medium">{formatDrift(device.clock.driftSeconds)}</span>
+                        )}
+                    </div>
+                )}
+
+                {/* Latest Remote Command */}
+                {device.commands?.[0] && (() => {
+                    const command = device.commands[0];
+                    const commandStatus = COMMAND_STATUS_CONFIG[command.status];
+                    return (
+                        <div className="flex items-center gap-2 text-sm">
+                            <Terminal className="h-4 w-4 text-muted-foreground" />
+                            <span className="text-muted-foreground">{COMMAND_LABELS[command.command]}:</span>
+                            <Badge variant="outline" className={cn('text-xs', commandStatus.className)}>
+                                {commandStatus.label}
+                            </Badge>
+                            {command.resultMessage && (
+                                <span className="text-xs text-muted-foreground truncate">{command.resultMessage}</span>
+                            )}
+                        </div>
+                    );
+                })()}
+
                 <Separator />
 
                 {/* Recent Scans */}
@@ -604,6 +657,10 @@ function DeviceCard({ device, onViewLog }: { device: Device; onViewLog?: (device
  */
 export function DeviceStatusDashboard({
     devices = mockDevices,
+    floorPlans = [],
+    canManageFloorPlans = false,
+    canSendCommands = false,
+    canCorrectClock = false,
     onViewDeviceLog,
     showTitle = true,
     className
@@ -781,15 +838,20 @@ export function DeviceStatusDashboard({
             ) : (
                 <DeviceMapView 
                     devices={devices}
+                    floorPlans={floorPlans}
+                    canManage={canManageFloorPlans}
                     onDeviceClick={handleViewLog}
                 />
             )}
 
             {/* Device Detail Modal */}
             <DeviceDetailModal
-                device={selectedDevice}
+                // Re-read from props so command results refresh while the modal is open
+                device={selectedDevice ? devices.find(d => d.id === selectedDevice.id) ?? selectedDevice : null}
                 isOpen={isModalOpen}
                 onClose={handleCloseModal}
+                canSendCommands={canSendCommands}
+                canCorrectClock={canCorrectClock}
             />
         </div>
     );
@@ -21,6 +21,28 @@ interface TimelineEvent {
     scheduledTime?: string;
     variance?: number; // Minutes difference from scheduled (+ = late, - = early)
     violationType?: 'late_arrival' | 'early_departure' | 'missing_punch' | 'extended_break';
+    calendarDate?: string; // YYYY-MM-DD of the tap, when it differs from the work date
+}
+
+/**
+ * Timeline Shift Interface
+ * Assigned shift the day's punches were paired against
+ */
+interface TimelineShift {
+    start: string;
+    end: string;
+    opensAt: string;  // Earliest punch counted toward the shift
+    closesAt: string; // Latest punch counted toward the shift
+    crossesMidnight: boolean;
+}
+
+/**
+ * Timeline Range Interface
+ * Span of time drawn from the left to the right edge of the track
+ */
+interface TimelineRange {
+    start: Date;
+    end: Date;
 }
 
 /**
@@ -40,6 +62,7 @@ interface EmployeeTimelineViewProps {
     employeePhoto?: string;
     date?: string;
     events?: TimelineEvent[];
+    shift?: TimelineShift | null;
     className?: string;
 }
 
@@ -272,24 +295,33 @@ const calculateSummary = (events: TimelineEvent[]) => {
 };
 
 /**
- * Calculate position percentage on timeline (8 AM = 0%, 6 PM = 100%)
+ * Span of the timeline: the shift's pairing window, or 8 AM to 6 PM of the day
  */
-const calculatePosition = (timestamp: string): number => {
-    const date = new Date(timestamp);
-    const hours = date.getHours();
-    const minutes = date.getMinutes();
-    
-    // Timeline: 8:00 AM (0%) to 18:00 (6 PM) (100%)
-    const startHour = 8;
-    const endHour = 18;
-    const totalMinutes = (endHour - startHour) * 60; // 600 minutes
-    
-    const eventMinutes = (hours - startHour) * 60 + minutes;
-    const percentage = (eventMinutes / totalMinutes) * 100;
+const calculateRange = (date: string, shift?: TimelineShift | null): TimelineRange => {
+    if (shift) {
+        return { start: new Date(shift.opensAt), end: new Date(shift.closesAt) };
+    }
+    return { start: new Date(`${date}T08:00:00`), end: new Date(`${date}T18:00:00`) };
+};
+
+/**
+ * Calculate position percentage on timeline (range start = 0%, range end = 100%)
+ */
+const calculatePosition = (timestamp: string, range: TimelineRange): number => {
+    const elapsed = new Date(timestamp).getTime() - range.start.getTime();
+    const percentage = (elapsed / (range.end.getTime() - range.start.getTime())) * 100;
     
     return Math.max(0, Math.min(100, percentage));
 };
 
+/**
+ * Six evenly spaced time labels across the range
+ */
+const calculateTimeLabels = (range: TimelineRange): string[] => {
+    const step = (range.end.getTime() - range.start.getTime()) / 5;
+    return Array.from({ length: 6 }, (_, i) => formatTime(new Date(range.start.getTime() + step * i).toISOString()));
+};
+
 /**
  * Get segment color
  */
@@ -354,10 +386,21 @@ export function EmployeeTimelineView({
     employeePhoto,
     date = '2026-01-29',
     events = mockTimelineEvents,
+    shift,
     className
 }: EmployeeTimelineViewProps) {
     const summary = calculateSummary(events);
     const segments = calculateSegments(events);
+    const range = calculateRange(date, shift);
+    const scheduledTimes = shift
+        ? [
+            { eventType: 'time_in' as EventType, scheduledTime: shift.start },
+            { eventType: 'time_out' as EventType, scheduledTime: shift.end },
+        ]
+        : mockScheduledTimes;
+    const midnight = new Date(`${date}T00:00:00`);
+    midnight.setDate(midnight.getDate() + 1);
+    const isNextDay = (event: TimelineEvent) => event.calendarDate !== undefined && event.calendarDate !== date;
 
     return (
         <Card className={className}>
@@ -379,6 +422,12 @@ export function EmployeeTimelineView({
                                     month: 'long',
                                     day: 'numeric'
                                 })}
+                                {shift && (
+                                    <span className="block">
+                                        Shift {formatTime(shift.start)} – {formatTime(shift.end)}
+                                        {shift.crossesMidnight && ' (next day)'}
+                                    </span>
+                                )}
                             </CardDescription>
                         </div>
                     </div>
@@ -406,12 +455,9 @@ export function EmployeeTimelineView({
                 <div className="space-y-6">
                     {/* Time Labels */}
                     <div className="flex justify-between text-xs text-muted-foreground font-mono px-4">
-                        <span>8:00 AM</span>
-                        <span>10:00 AM</span>
-                        <span>12:00 PM</span>
-                        <span>2:00 PM</span>
-                        <span>4:00 PM</span>
-                        <span>6:00 PM</span>
+                        {calculateTimeLabels(range).map((label, idx) => (
+                            <span key={idx}>{label}</span>
+                        ))}
                     </div>
 
                     {/* Timeline Track */}
@@ -419,9 +465,19 @@ export function EmployeeTimelineView({
                         {/* Base Timeline Line */}
                         <div className="absolute top-1/2 left-4 right-4 h-2 bg-gray-200 rounded-full -translate-y-1/2" />
 
+                        {/* Midnight Marker for overnight shifts */}
+                        {shift?.crossesMidnight && (
+                            <div
+                                className="absolute -top-4 -bottom-4 border-l border-dashed border-gray-400"
+                                style={{ left: `${calculatePosition(midnight.toISOString(), range)}%` }}
+                            >
+                                <span className="absolute -top-4 -translate-x-1/2 text-[10px] text-muted-foreground">Midnight</span>
+                            </div>
+                        )}
+
                         {/* Scheduled Time Ghost Markers */}
-                        {mockScheduledTimes.map((scheduled, idx) => {
-                            const position = calculatePosition(scheduled.scheduledTime);
+                        {scheduledTimes.map((scheduled, idx) => {
+                            const position = calculatePosition(scheduled.scheduledTime, range);
                             return (
                                 <Tooltip key={`scheduled-${idx}`}>
                                     <TooltipTrigger asChild>
@@ -447,8 +503,8 @@ export function EmployeeTimelineView({
 
                         {/* Colored Segments */}
                         {segments.map((segment, idx) => {
-                            const startPos = calculatePosition(segment.start.toISOString());
-                            const endPos = calculatePosition(segment.end.toISOString());
+                            const startPos = calculatePosition(segment.start.toISOString(), range);
+                            const endPos = calculatePosition(segment.end.toISOString(), range);
                             const width = endPos - startPos;
                             
                             return (
@@ -465,7 +521,7 @@ export function EmployeeTimelineView({
 
                         {/* Event Markers */}
                         {events.map((event) => {
-                            const position = calculatePosition(event.timestamp);
+                            const position = calculatePosition(event.timestamp, range);
                             const hasViolation = event.violationType !== undefined;
                             const violationDetails = getViolationDetails(event.violationType);
                             const ViolationIcon = violationDetails?.icon;
@@ -538,6 +594,13 @@ export function EmployeeTimelineView({
                                                     <span className="font-mono font-semibold">{formatTime(event.timestamp)}</span>
                                                 </div>
                                                 
+                                                {isNextDay(event) && (
+                                                    <div className="flex justify-between">
+                                                        <span className="text-muted-foreground">Tapped on:</span>
+                                                        <span className="text-xs">{event.calendarDate} (paired with {date})</span>
+                                                    </div>
+                                                )}
+                                                
                                                 {event.scheduledTime && (
                                                     <div className="flex justify-between">
                                                         <span className="text-muted-foreground">Scheduled:</span>
@@ -574,7 +637,7 @@ export function EmployeeTimelineView({
                     {/* Event Labels Below Timeline */}
                     <div className="relative px-4 mt-12">
                         {events.map((event) => {
-                            const position = calculatePosition(event.timestamp);
+                            const position = calculatePosition(event.timestamp, range);
                             const violationDetails = getViolationDetails(event.violationType);
                             
                             return (
@@ -588,6 +651,9 @@ export function EmployeeTimelineView({
                                         <div className="text-muted-foreground whitespace-nowrap">
                                             {getEventTypeName(event.eventType)}
                                         </div>
+                                        {isNextDay(event) && (
+                                            <Badge variant="outline" className="text-[10px] px-1 py-0">Next day</Badge>
+                                        )}
                                         {event.violationType && violationDetails && (
                                             <div className={`${violationDetails.color.replace('text-', 'text-')} font-semibold px-2 py-0.5 rounded ${violationDetails.bgColor}`}>
                                                 {event.variance !== undefined && event.variance !== 0 && (
@@ -26,6 +26,7 @@ import {
 } from 'lucide-react';
 import { EventType } from '@/types/timekeeping-pages';
 import { useState } from 'react';
+import { LedgerEntryVerification } from './ledger-chain-verification';
 
 /**
  * Extended Event Data Interface
@@ -377,7 +378,7 @@ export function EventDetailModal({ open, onOpenChange, event, allLogs = [], onNa
                                 </div>
                             )}
                             <div className="flex items-center justify-between">
-                                <span className="text-sm text-muted-foreground">Verification Status:</span>
+                                <span className="text-sm text-muted-foreground">Server Status:</span>
                                 <Badge variant={event.verified ? 'default' : 'destructive'}>
                                     {event.verified ? (
                                         <>
@@ -392,6 +393,13 @@ export function EventDetailModal({ open, onOpenChange, event, allLogs = [], onNa
                                     )}
                                 </Badge>
                             </div>
+                            <Separator />
+                            <div className="space-y-2">
+                                <p className="text-xs font-semibold uppercase tracking-wide text-muted-foreground">
+                                    Browser Verification
+                                </p>
+                                {open && <LedgerEntryVerification sequenceId={event.sequenceId} />}
+                            </div>
                         </div>
                     </section>
 
@@ -13,11 +13,13 @@ import {
     Calendar,
     Clock,
     AlertTriangle,
-    Download
+    Download,
+    History
 } from 'lucide-react';
 import { useState, useEffect, useMemo } from 'react';
 import { cn } from '@/lib/utils';
 import { format, parseISO, isAfter, isBefore, isEqual } from 'date-fns';
+import { PointInTimeReconstruction, type ReconstructionDepartment } from '@/components/timekeeping/point-in-time-reconstruction';
 
 /**
  * Replay Control Component
@@ -33,6 +35,7 @@ import { format, parseISO, isAfter, isBefore, isEqual } from 'date-fns';
  * - Jump to Violation button (1.8.4)
  * - Export replay report (1.8.5)
  * - Smooth transitions between events (1.8.6)
+ * - Point-in-time mode: attendance summaries as they stood at a past moment
  */
 
 interface ReplayEvent {
@@ -51,11 +54,14 @@ interface EventReplayControlProps {
     onReplayEvent?: (event: ReplayEvent) => void;
     onReplayComplete?: () => void;
     onVisibleEventsChange?: (events: ReplayEvent[]) => void; // For animating event stream (1.8.3)
+    departments?: ReconstructionDepartment[]; // Department scope for point-in-time mode
     className?: string;
 }
 
 type PlaybackSpeed = 1 | 2 | 5 | 10;
 
+type ReplayMode = 'replay' | 'point_in_time';
+
 /**
  * Mock events for replay demonstration
  * Simulates a full workday of RFID events (08:00 - 18:00)
@@ -139,11 +145,13 @@ export function EventReplayControl({
     onReplayEvent,
     onReplayComplete,
     onVisibleEventsChange,
+    departments,
     className 
 }: EventReplayControlProps) {
     const events = propEvents || generateMockReplayEvents();
 
     // Replay state
+    const [mode, setMode] = useState<ReplayMode>('replay');
     const [isPlaying, setIsPlaying] = useState(false);
     const [playbackSpeed, setPlaybackSpeed] = useState<PlaybackSpeed>(1);
     const [sliderValue, setSliderValue] = useState(0);
@@ -404,13 +412,64 @@ export function EventReplayControl({
 
     const currentTimeStr = format(currentTimestamp, 'HH:mm:ss');
 
+    const modeToggle = (
+        <div className="flex items-center gap-1">
+            <Button
+                variant={mode === 'replay' ? 'default' : 'outline'}
+                size="sm"
+                onClick={() => setMode('replay')}
+                className="gap-1"
+            >
+                <Play className="h-3.5 w-3.5" />
+                Event Replay
+            </Button>
+            <Button
+                variant={mode === 'point_in_time' ? 'default' : 'outline'}
+                size="sm"
+                onClick={() => {
+                    setIsPlaying(false);
+                    setMode('point_in_time');
+                }}
+                className="gap-1"
+            >
+                <History className="h-3.5 w-3.5" />
+                Point in Time
+            </Button>
+        </div>
+    );
+
+    if (mode === 'point_in_time') {
+        return (
+            <Card className={cn('w-full', className)}>
+                <CardHeader className="pb-4">
+                    <CardTitle className="flex items-center justify-between">
+                        <div className="flex items-center gap-2">
+                            <History className="h-5 w-5" />
+                            Point-in-Time Reconstruction
+                        </div>
+                        {modeToggle}
+                    </CardTitle>
+                </CardHeader>
+                <CardContent>
+                    <PointInTimeReconstruction
+                        departments={departments}
+                        defaultAsOf={events.length > 0 ? currentTimestamp : undefined}
+                    />
+                </CardContent>
+            </Card>
+        );
+    }
+
     if (events.length === 0) {
         return (
             <Card className={cn('w-full', className)}>
                 <CardHeader>
-                    <CardTitle className="flex items-center gap-2">
-                        <Clock className="h-5 w-5" />
-                        Event Replay Control
+                    <CardTitle className="flex items-center justify-between">
+                        <div className="flex items-center gap-2">
+                            <Clock className="h-5 w-5" />
+                            Event Replay Control
+                        </div>
+                        {modeToggle}
                     </CardTitle>
                 </CardHeader>
                 <CardContent>
@@ -431,9 +490,12 @@ export function EventReplayControl({
                         <Clock className="h-5 w-5" />
                         Event Replay Control
                     </div>
-                    <Badge variant={isPlaying ? 'default' : 'secondary'} className="font-mono">
-                        {isPlaying ? '▶ PLAYING' : '⏸ PAUSED'}
-                    </Badge>
+                    <div className="flex items-center gap-3">
+                        <Badge variant={isPlaying ? 'default' : 'secondary'} className="font-mono">
+                            {isPlaying ? '▶ PLAYING' : '⏸ PAUSED'}
+                        </Badge>
+                        {modeToggle}
+                    </div>
                 </CardTitle>
             </CardHeader>
 
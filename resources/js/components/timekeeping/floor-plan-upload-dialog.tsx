@@ -0,0 +1,127 @@
+import { useForm } from '@inertiajs/react';
+import { toast } from 'sonner';
+import { Upload } from 'lucide-react';
+import {
+    Dialog,
+    DialogContent,
+    DialogDescription,
+    DialogFooter,
+    DialogHeader,
+    DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+
+interface FloorPlanUploadDialogProps {
+    isOpen: boolean;
+    onClose: () => void;
+    /** Prefilled site, e.g. the one currently shown on the map */
+    defaultSite?: string;
+    onUploaded?: (site: string, floor: string) => void;
+}
+
+/**
+ * Upload a floor-plan image or SVG for one site and floor.
+ * Uploading for an existing site/floor replaces its drawing and keeps the device markers.
+ */
+export function FloorPlanUploadDialog({ isOpen, onClose, defaultSite = '', onUploaded }: FloorPlanUploadDialogProps) {
+    const { data, setData, post, processing, errors, reset, clearErrors } = useForm({
+        site: defaultSite,
+        floor: '',
+        name: '',
+        image: null as File | null,
+    });
+
+    const handleClose = () => {
+        reset();
+        clearErrors();
+        onClose();
+    };
+
+    const handleSubmit = (e: React.FormEvent) => {
+        e.preventDefault();
+
+        post(route('hr.timekeeping.floor-plans.store'), {
+            forceFormData: true,
+            preserveScroll: true,
+            onSuccess: () => {
+                toast.success(`Floor plan for ${data.site} / ${data.floor} saved`);
+                onUploaded?.(data.site.trim(), data.floor.trim());
+                handleClose();
+            },
+        });
+    };
+
+    return (
+        <Dialog open={isOpen} onOpenChange={(open) => !open && handleClose()}>
+            <DialogContent className="sm:max-w-md">
+                <DialogHeader>
+                    <DialogTitle>Upload Floor Plan</DialogTitle>
+                    <DialogDescription>
+                        PNG, JPEG, WebP or SVG, up to 10 MB. Device markers are kept when a drawing is replaced.
+                    </DialogDescription>
+                </DialogHeader>
+
+                <form onSubmit={handleSubmit} className="space-y-4">
+                    <div className="grid grid-cols-2 gap-3">
+                        <div className="space-y-1.5">
+                            <Label htmlFor="floor-plan-site">Site</Label>
+                            <Input
+                                id="floor-plan-site"
+                                value={data.site}
+                                onChange={(e) => setData('site', e.target.value)}
+                                placeholder="Main Plant"
+                                required
+                            />
+                            {errors.site && <p className="text-xs text-red-600">{errors.site}</p>}
+                        </div>
+                        <div className="space-y-1.5">
+                            <Label htmlFor="floor-plan-floor">Floor</Label>
+                            <Input
+                                id="floor-plan-floor"
+                                value={data.floor}
+                                onChange={(e) => setData('floor', e.target.value)}
+                                placeholder="Ground"
+                                required
+                            />
+                            {errors.floor && <p className="text-xs text-red-600">{errors.floor}</p>}
+                        </div>
+                    </div>
+
+                    <div className="space-y-1.5">
+                        <Label htmlFor="floor-plan-name">Name (optional)</Label>
+                        <Input
+                            id="floor-plan-name"
+                            value={data.name}
+                            onChange={(e) => setData('name', e.target.value)}
+                            placeholder="Production & Warehouse"
+                        />
+                    </div>
+
+                    <div className="space-y-1.5">
+                        <Label htmlFor="floor-plan-image">Drawing</Label>
+                        <Input
+                            id="floor-plan-image"
+                            type="file"
+                            accept=".png,.jpg,.jpeg,.webp,.svg,image/png,image/jpeg,image/webp,image/svg+xml"
+                            onChange={(e) => setData('image', e.target.files?.[0] ?? null)}
+                            required
+                        />
+                        {errors.image && <p className="text-xs text-red-600">{errors.image}</p>}
+                    </div>
+
+                    <DialogFooter>
+                        <Button type="button" variant="outline" onClick={handleClose}>
+                            Cancel
+                        </Button>
+                        <Button type="submit" disabled={processing || !data.image} className="gap-2">
+                            <Upload className="h-4 w-4" />
+                            {processing ? 'Uploading...' : 'Upload'}
+                        </Button>
+                    </DialogFooter>
+                </form>
+            </DialogContent>
+        </Dialog>
+    );
+}
@@ -0,0 +1,271 @@
+import { router } from '@inertiajs/react';
+import { useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { LocateFixed, Pencil, Trash2 } from 'lucide-react';
+import { Geofence } from '@/types/timekeeping-pages';
+
+interface GeofenceManagerProps {
+    geofences: Geofence[];
+    canManage: boolean;
+}
+
+interface GeofenceForm {
+    id: number | null;
+    name: string;
+    address: string;
+    latitude: string;
+    longitude: string;
+    radius_meters: string;
+    is_active: boolean;
+}
+
+const EMPTY_FORM: GeofenceForm = {
+    id: null,
+    name: '',
+    address: '',
+    latitude: '',
+    longitude: '',
+    radius_meters: '150',
+    is_active: true,
+};
+
+export const mapUrl = (latitude: number, longitude: number) =>
+    `https://www.google.com/maps?q=${latitude},${longitude}`;
+
+/**
+ * Geofence Manager
+ * Sites employees may clock in from on the portal, each a centre and a radius
+ */
+export function GeofenceManager({ geofences, canManage }: GeofenceManagerProps) {
+    const [form, setForm] = useState<GeofenceForm>(EMPTY_FORM);
+    const [errors, setErrors] = useState<Record<string, string>>({});
+    const [saving, setSaving] = useState(false);
+    const [locating, setLocating] = useState(false);
+
+    const editGeofence = (geofence: Geofence) => {
+        setErrors({});
+        setForm({
+            id: geofence.id,
+            name: geofence.name,
+            address: geofence.address ?? '',
+            latitude: geofence.latitude.toString(),
+            longitude: geofence.longitude.toString(),
+            radius_meters: geofence.radius_meters.toString(),
+            is_active: geofence.is_active,
+        });
+    };
+
+    const resetForm = () => {
+        setForm(EMPTY_FORM);
+        setErrors({});
+    };
+
+    // Fill the centre from this browser's position, for HR standing on site
+    const useCurrentPosition = () => {
+        if (!navigator.geolocation) {
+            setErrors({ latitude: 'This browser cannot share its location.' });
+            return;
+        }
+        setLocating(true);
+        navigator.geolocation.getCurrentPosition(
+            position => {
+                setForm(current => ({
+                    ...current,
+                    latitude: position.coords.latitude.toFixed(7),
+                    longitude: position.coords.longitude.toFixed(7),
+                }));
+                setLocating(false);
+            },
+            error => {
+                setErrors({ latitude: error.message });
+                setLocating(false);
+            },
+            { enableHighAccuracy: true, timeout: 15000 }
+        );
+    };
+
+    const saveGeofence = () => {
+        const payload = {
+            name: form.name,
+            address: form.address || null,
+            latitude: Number(form.latitude),
+            longitude: Number(form.longitude),
+            radius_meters: Number(form.radius_meters),
+            is_active: form.is_active,
+        };
+        const options = {
+            preserveScroll: true,
+            onSuccess: resetForm,
+            onError: setErrors,
+            onFinish: () => setSaving(false),
+        };
+
+        setSaving(true);
+        if (form.id === null) {
+            router.post(route('hr.timekeeping.mobile-clock-in.geofences.store'), payload, options);
+        } else {
+            router.put(route('hr.timekeeping.mobile-clock-in.geofences.update', { geofenceId: form.id }), payload, options);
+        }
+    };
+
+    const deleteGeofence = (geofence: Geofence) => {
+        if (!confirm(`Remove ${geofence.name}? Employees will no longer be able to clock in there without HR approval.`)) return;
+        router.delete(route('hr.timekeeping.mobile-clock-in.geofences.destroy', { geofenceId: geofence.id }), { preserveScroll: true });
+    };
+
+    return (
+        <Card>
+            <CardHeader>
+                <CardTitle>Geofences</CardTitle>
+                <CardDescription>
+                    Punches within a site's radius count straight away. Punches outside every active site wait
+                    for HR approval.
+                </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+                <Table>
+                    <TableHeader>
+                        <TableRow>
+                            <TableHead>Site</TableHead>
+                            <TableHead>Centre</TableHead>
+                            <TableHead>Radius</TableHead>
+                            <TableHead>Status</TableHead>
+                            {canManage && <TableHead className="w-24" />}
+                        </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                        {geofences.length === 0 && (
+                            <TableRow>
+                                <TableCell colSpan={canManage ? 5 : 4} className="text-center text-sm text-muted-foreground py-6">
+                                    No geofences yet. Every portal punch will need HR approval.
+                                </TableCell>
+                            </TableRow>
+                        )}
+                        {geofences.map(geofence => (
+                            <TableRow key={geofence.id}>
+                                <TableCell className="text-sm">
+                                    <div className="font-medium">{geofence.name}</div>
+                                    {geofence.address && <div className="text-xs text-muted-foreground">{geofence.address}</div>}
+                                    {geofence.updated_by && <div className="text-[10px] text-muted-foreground">Updated by {geofence.updated_by}</div>}
+                                </TableCell>
+                                <TableCell className="text-xs font-mono">
+                                    <a href={mapUrl(geofence.latitude, geofence.longitude)} target="_blank" rel="noreferrer" className="hover:underline">
+                                        {geofence.latitude.toFixed(6)}, {geofence.longitude.toFixed(6)}
+                                    </a>
+                                </TableCell>
+                                <TableCell className="text-sm">{geofence.radius_meters} m</TableCell>
+                                <TableCell>
+                                    <Badge variant={geofence.is_active ? 'default' : 'secondary'}>
+                                        {geofence.is_active ? 'Active' : 'Inactive'}
+                                    </Badge>
+                                </TableCell>
+                                {canManage && (
+                                    <TableCell className="text-right">
+                                        <Button variant="ghost" size="sm" onClick={() => editGeofence(geofence)} title="Edit">
+                                            <Pencil className="h-4 w-4" />
+                                        </Button>
+                                        <Button variant="ghost" size="sm" onClick={() => deleteGeofence(geofence)} title="Remove">
+                                            <Trash2 className="h-4 w-4 text-red-600" />
+                                        </Button>
+                                    </TableCell>
+                                )}
+                            </TableRow>
+                        ))}
+                    </TableBody>
+                </Table>
+
+                {canManage && (
+                    <div className="rounded-lg border p-4 space-y-4">
+                        <div className="text-sm font-semibold">{form.id === null ? 'Add a geofence' : `Edit ${form.name}`}</div>
+                        <div className="grid gap-4 md:grid-cols-2">
+                            <div className="space-y-2">
+                                <Label htmlFor="geofence_name">Site name</Label>
+                                <Input
+                                    id="geofence_name"
+                                    placeholder="e.g. Cebu warehouse"
+                                    value={form.name}
+                                    onChange={e => setForm({ ...form, name: e.target.value })}
+                                />
+                                {errors.name && <p className="text-xs text-red-600">{errors.name}</p>}
+                            </div>
+                            <div className="space-y-2">
+                                <Label htmlFor="geofence_address">Address</Label>
+                                <Input
+                                    id="geofence_address"
+                                    value={form.address}
+                                    onChange={e => setForm({ ...form, address: e.target.value })}
+                                />
+                                {errors.address && <p className="text-xs text-red-600">{errors.address}</p>}
+                            </div>
+                        </div>
+                        <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-4 items-end">
+                            <div className="space-y-2">
+                                <Label htmlFor="geofence_latitude">Latitude</Label>
+                                <Input
+                                    id="geofence_latitude"
+                                    type="number"
+                                    step="0.0000001"
+                                    value={form.latitude}
+                                    onChange={e => setForm({ ...form, latitude: e.target.value })}
+                                />
+                                {errors.latitude && <p className="text-xs text-red-600">{errors.latitude}</p>}
+                            </div>
+                            <div className="space-y-2">
+                                <Label htmlFor="geofence_longitude">Longitude</Label>
+                                <Input
+                                    id="geofence_longitude"
+                                    type="number"
+                                    step="0.0000001"
+                                    value={form.longitude}
+                                    onChange={e => setForm({ ...form, longitude: e.target.value })}
+                                />
+                                {errors.longitude && <p className="text-xs text-red-600">{errors.longitude}</p>}
+                            </div>
+                            <div className="space-y-2">
+                                <Label htmlFor="geofence_radius">Radius (metres)</Label>
+                                <Input
+                                    id="geofence_radius"
+                                    type="number"
+                                    min={10}
+                                    max={10000}
+                                    value={form.radius_meters}
+                                    onChange={e => setForm({ ...form, radius_meters: e.target.value })}
+                                />
+                                {errors.radius_meters && <p className="text-xs text-red-600">{errors.radius_meters}</p>}
+                            </div>
+                            <Button variant="outline" onClick={useCurrentPosition} disabled={locating}>
+                                <LocateFixed className="h-4 w-4 mr-1" />
+                                {locating ? 'Locating...' : 'Use my location'}
+                            </Button>
+                        </div>
+                        <div className="flex items-center justify-end gap-4">
+                            <div className="flex items-center gap-2 mr-auto">
+                                <Switch
+                                    id="geofence_active"
+                                    checked={form.is_active}
+                                    onCheckedChange={checked => setForm({ ...form, is_active: checked })}
+                                />
+                                <Label htmlFor="geofence_active">Active</Label>
+                            </div>
+                            <Button variant="outline" onClick={resetForm}>
+                                {form.id === null ? 'Clear' : 'Cancel'}
+                            </Button>
+                            <Button
+                                onClick={saveGeofence}
+                                disabled={saving || !form.name || form.latitude === '' || form.longitude === '' || form.radius_meters === ''}
+                            >
+                                {saving ? 'Saving...' : 'Save Geofence'}
+                            </Button>
+                        </div>
+                    </div>
+                )}
+            </CardContent>
+        </Card>
+    );
+}
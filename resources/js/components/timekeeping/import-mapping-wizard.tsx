@@ -0,0 +1,759 @@
+import { useEffect, useState } from 'react';
+import { format as formatDate, parseISO } from 'date-fns';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { AlertCircle, CheckCircle, Loader2, Plus } from 'lucide-react';
+import {
+    detectImportFormat,
+    previewImport,
+    processImport,
+    saveImportProfile,
+    uploadImportFile,
+    type ImportColumn,
+    type ImportDetection,
+    type ImportDetectionOptions,
+    type ImportPreview,
+    type ImportProcessResult,
+} from '@/services/timekeeping-api';
+import type {
+    EventType,
+    ImportColumnSpec,
+    ImportField,
+    ImportFileFormat,
+    ImportMapping,
+    ImportMappingProfile,
+} from '@/types/timekeeping-pages';
+
+type WizardStep = 'upload' | 'columns' | 'codes' | 'preview';
+
+const STEPS: Array<{ key: WizardStep; label: string }> = [
+    { key: 'upload', label: 'Upload' },
+    { key: 'columns', label: 'Columns' },
+    { key: 'codes', label: 'Event & device codes' },
+    { key: 'preview', label: 'Preview' },
+];
+
+const FORMAT_LABELS: Record<ImportFileFormat, string> = {
+    delimited: 'Delimited (CSV, TSV)',
+    zkteco_dat: 'ZKTeco attendance log (.dat)',
+    fixed_width: 'Fixed-width text',
+};
+
+const DELIMITERS: Array<{ value: string; label: string }> = [
+    { value: ',', label: 'Comma' },
+    { value: '\t', label: 'Tab' },
+    { value: ';', label: 'Semicolon' },
+    { value: '|', label: 'Pipe' },
+];
+
+const FIELDS: Array<{ key: ImportField; label: string; hint?: string }> = [
+    { key: 'employee_number', label: 'Employee number' },
+    { key: 'timestamp', label: 'Date & time', hint: 'Or map date and time separately' },
+    { key: 'date', label: 'Date' },
+    { key: 'time', label: 'Time' },
+    { key: 'event_type', label: 'Event type' },
+    { key: 'device', label: 'Device', hint: 'Optional' },
+];
+
+const EVENT_TYPE_LABELS: Record<EventType, string> = {
+    time_in: 'Time In',
+    time_out: 'Time Out',
+    break_start: 'Break Start',
+    break_end: 'Break End',
+    overtime_start: 'Overtime Start',
+    overtime_end: 'Overtime End',
+};
+
+const ERROR_TYPE_LABELS: Record<string, string> = {
+    invalid_employee: 'Unknown employee',
+    invalid_time: 'Invalid time',
+    duplicate_entry: 'Duplicate',
+    validation_error: 'Unmapped code',
+};
+
+const UNMAPPED = '__none';
+
+interface ImportMappingWizardProps {
+    isOpen: boolean;
+    onClose: () => void;
+    onImported: (result: ImportProcessResult) => void;
+    profiles: ImportMappingProfile[];
+    devices: Array<{ id: string; location: string | null }>;
+}
+
+/**
+ * Import Mapping Wizard
+ * Uploads an attendance file, detects its layout, maps columns and event/device codes,
+ * previews the parsed rows with per-row errors and imports them
+ */
+export function ImportMappingWizard({ isOpen, onClose, onImported, profiles, devices }: ImportMappingWizardProps) {
+    const [step, setStep] = useState<WizardStep>('upload');
+    const [file, setFile] = useState<File | null>(null);
+    const [profileId, setProfileId] = useState<number | null>(null);
+    const [batchId, setBatchId] = useState<number | null>(null);
+    const [detection, setDetection] = useState<ImportDetection | null>(null);
+    const [mapping, setMapping] = useState<ImportMapping | null>(null);
+    const [preview, setPreview] = useState<ImportPreview | null>(null);
+    const [busy, setBusy] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const [profileSource, setProfileSource] = useState('');
+    const [profileSaved, setProfileSaved] = useState(false);
+
+    const selectedProfile = profiles.find(profile => profile.id === profileId) ?? null;
+
+    useEffect(() => {
+        if (!isOpen) {
+            setStep('upload');
+            setFile(null);
+            setProfileId(null);
+            setBatchId(null);
+            setDetection(null);
+            setMapping(null);
+            setPreview(null);
+            setError(null);
+            setProfileSource('');
+            setProfileSaved(false);
+        }
+    }, [isOpen]);
+
+    const run = async (action: () => Promise<void>) => {
+        setBusy(true);
+        setError(null);
+        try {
+            await action();
+        } catch (e) {
+            setError(e instanceof Error ? e.message : 'Something went wrong');
+        } finally {
+            setBusy(false);
+        }
+    };
+
+    const handleUpload = () => run(async () => {
+        if (!file) return;
+        const uploaded = await uploadImportFile(file);
+        const detected = await detectImportFormat(uploaded.batch_id, selectedProfile ? {
+            format: selectedProfile.mapping.format,
+            delimiter: selectedProfile.mapping.delimiter ?? undefined,
+            has_header: selectedProfile.mapping.has_header,
+            skip_lines: selectedProfile.mapping.skip_lines,
+        } : {});
+
+        setBatchId(uploaded.batch_id);
+        setDetection(detected);
+        setMapping(selectedProfile ? selectedProfile.mapping : detected.mapping);
+        setProfileSource(selectedProfile?.source ?? '');
+        setStep('columns');
+    });
+
+    // Re-split the file when the layout options change, keeping the codes mapped so far
+    const handleOptionsChange = (options: ImportDetectionOptions) => run(async () => {
+        if (!batchId || !mapping) return;
+        const detected = await detectImportFormat(batchId, {
+            format: mapping.format,
+            delimiter: mapping.delimiter ?? undefined,
+            has_header: mapping.has_header,
+            skip_lines: mapping.skip_lines,
+            ...options,
+        });
+        setDetection(detected);
+        setMapping({
+            ...detected.mapping,
+            timestamp_format: mapping.timestamp_format,
+            event_codes: { ...detected.mapping.event_codes, ...mapping.event_codes },
+            device_codes: { ...detected.mapping.device_codes, ...mapping.device_codes },
+            default_device_id: mapping.default_device_id,
+        });
+    });
+
+    const handlePreview = () => run(async () => {
+        if (!batchId || !mapping) return;
+        setPreview(await previewImport(batchId, mapping));
+        setProfileSaved(false);
+        setStep('preview');
+    });
+
+    const handleSaveProfile = () => run(async () => {
+        if (!mapping || profileSource.trim() === '') return;
+        const saved = await saveImportProfile(profileSource.trim(), mapping, selectedProfile?.description ?? null);
+        setProfileId(saved.id);
+        setProfileSaved(true);
+    });
+
+    const handleImport = () => run(async () => {
+        if (!batchId || !mapping) return;
+        onImported(await processImport(batchId, mapping, profileId));
+    });
+
+    const stepIndex = STEPS.findIndex(s => s.key === step);
+
+    return (
+        <Dialog open={isOpen} onOpenChange={open => !open && !busy && onClose()}>
+            <DialogContent className="max-w-5xl max-h-[90vh] overflow-y-auto">
+                <DialogHeader>
+                    <DialogTitle>Import Attendance File</DialogTitle>
+                    <DialogDescription>
+                        {STEPS.map((s, index) => (
+                            <span key={s.key} className={index === stepIndex ? 'font-semibold text-foreground' : ''}>
+                                {index > 0 && ' → '}{index + 1}. {s.label}
+                            </span>
+                        ))}
+                    </DialogDescription>
+                </DialogHeader>
+
+                {error && (
+                    <div className="flex items-start gap-2 rounded-md border border-red-200 bg-red-50 p-3 text-sm text-red-700">
+                        <AlertCircle className="h-4 w-4 mt-0.5 shrink-0" />
+                        {error}
+                    </div>
+                )}
+
+                {step === 'upload' && (
+                    <UploadStep
+                        file={file}
+                        onFileChange={setFile}
+                        profiles={profiles}
+                        profileId={profileId}
+                        onProfileChange={setProfileId}
+                    />
+                )}
+
+                {step === 'columns' && detection && mapping && (
+                    <ColumnStep
+                        detection={detection}
+                        mapping={mapping}
+                        onChange={setMapping}
+                        onOptionsChange={handleOptionsChange}
+                        busy={busy}
+                    />
+                )}
+
+                {step === 'codes' && detection && mapping && (
+                    <CodeStep detection={detection} mapping={mapping} onChange={setMapping} devices={devices} />
+                )}
+
+                {step === 'preview' && preview && (
+                    <PreviewStep
+                        preview={preview}
+                        profileSource={profileSource}
+                        onProfileSourceChange={value => { setProfileSource(value); setProfileSaved(false); }}
+                        onSaveProfile={handleSaveProfile}
+                        profileSaved={profileSaved}
+                        busy={busy}
+                    />
+                )}
+
+                <DialogFooter>
+                    {stepIndex > 1 && (
+                        <Button variant="outline" disabled={busy} onClick={() => setStep(STEPS[stepIndex - 1].key)}>
+                            Back
+                        </Button>
+                    )}
+                    {step === 'upload' && (
+                        <Button disabled={!file || busy} onClick={handleUpload}>
+                            {busy && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                            Upload & Detect
+                        </Button>
+                    )}
+                    {step === 'columns' && (
+                        <Button disabled={busy} onClick={() => setStep('codes')}>Next</Button>
+                    )}
+                    {step === 'codes' && (
+                        <Button disabled={busy} onClick={handlePreview}>
+                            {busy && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                            Preview
+                        </Button>
+                    )}
+                    {step === 'preview' && preview && (
+                        <Button disabled={busy || preview.meta.valid_rows === 0} onClick={handleImport}>
+                            {busy && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                            Import {preview.meta.valid_rows} rows
+                        </Button>
+                    )}
+                </DialogFooter>
+            </DialogContent>
+        </Dialog>
+    );
+}
+
+interface UploadStepProps {
+    file: File | null;
+    onFileChange: (file: File | null) => void;
+    profiles: ImportMappingProfile[];
+    profileId: number | null;
+    onProfileChange: (profileId: number | null) => void;
+}
+
+function UploadStep({ file, onFileChange, profiles, profileId, onProfileChange }: UploadStepProps) {
+    return (
+        <div className="space-y-4">
+            <div className="space-y-2">
+                <Label htmlFor="import_file">Attendance file</Label>
+                <Input
+                    id="import_file"
+                    type="file"
+                    accept=".csv,.txt,.dat"
+                    onChange={e => onFileChange(e.target.files?.[0] ?? null)}
+                />
+                <p className="text-xs text-muted-foreground">
+                    CSV or other delimited text, ZKTeco-style .dat logs and fixed-width logs, up to 10 MB.
+                    {file && ` Selected: ${file.name}`}
+                </p>
+            </div>
+            <div className="space-y-2">
+                <Label>Mapping profile</Label>
+                <Select
+                    value={profileId === null ? UNMAPPED : String(profileId)}
+                    onValueChange={value => onProfileChange(value === UNMAPPED ? null : Number(value))}
+                >
+                    <SelectTrigger><SelectValue /></SelectTrigger>
+                    <SelectContent>
+                        <SelectItem value={UNMAPPED}>Detect the layout</SelectItem>
+                        {profiles.map(profile => (
+                            <SelectItem key={profile.id} value={String(profile.id)}>
+                                {profile.source} · {FORMAT_LABELS[profile.format]}
+                            </SelectItem>
+                        ))}
+                    </SelectContent>
+                </Select>
+                <p className="text-xs text-muted-foreground">
+                    Pick the source's saved profile to reuse its column and code mapping.
+                </p>
+            </div>
+        </div>
+    );
+}
+
+interface ColumnStepProps {
+    detection: ImportDetection;
+    mapping: ImportMapping;
+    onChange: (mapping: ImportMapping) => void;
+    onOptionsChange: (options: ImportDetectionOptions) => void;
+    busy: boolean;
+}
+
+function ColumnStep({ detection, mapping, onChange, onOptionsChange, busy }: ColumnStepProps) {
+    const fixedWidth = mapping.format === 'fixed_width';
+
+    const columnKey = (spec: ImportColumnSpec | null) => {
+        if (!spec) return UNMAPPED;
+        const column = detection.columns.find(c => (fixedWidth ? c.start === spec.start && c.length === spec.length : c.index === spec.index));
+        return column ? String(column.index) : UNMAPPED;
+    };
+
+    const setColumn = (field: ImportField, spec: ImportColumnSpec | null) => {
+        onChange({ ...mapping, columns: { ...mapping.columns, [field]: spec } });
+    };
+
+    const selectColumn = (field: ImportField, value: string) => {
+        const column = detection.columns.find(c => String(c.index) === value);
+        if (!column) {
+            setColumn(field, null);
+        } else {
+            setColumn(field, fixedWidth ? { start: column.start ?? 0, length: column.length ?? 1 } : { index: column.index });
+        }
+    };
+
+    const describe = (column: ImportColumn) =>
+        `${column.label}${column.values.length > 0 ? ` — ${column.values.slice(0, 3).join(', ')}` : ''}`;
+
+    return (
+        <div className="space-y-4">
+            <div className="grid gap-4 md:grid-cols-4">
+                <div className="space-y-1">
+                    <Label className="text-xs">Format</Label>
+                    <Select value={mapping.format} disabled={busy} onValueChange={value => onOptionsChange({ format: value as ImportFileFormat })}>
+                        <SelectTrigger><SelectValue /></SelectTrigger>
+                        <SelectContent>
+                            {(Object.keys(FORMAT_LABELS) as ImportFileFormat[]).map(key => (
+                                <SelectItem key={key} value={key}>{FORMAT_LABELS[key]}</SelectItem>
+                            ))}
+                        </SelectContent>
+                    </Select>
+                    {detection.format !== mapping.format && (
+                        <p className="text-[10px] text-muted-foreground">Detected: {FORMAT_LABELS[detection.format]}</p>
+                    )}
+                </div>
+                {mapping.format === 'delimited' && (
+                    <div className="space-y-1">
+                        <Label className="text-xs">Delimiter</Label>
+                        <Select value={mapping.delimiter ?? ','} disabled={busy} onValueChange={value => onOptionsChange({ delimiter: value })}>
+                            <SelectTrigger><SelectValue /></SelectTrigger>
+                            <SelectContent>
+                                {DELIMITERS.map(d => <SelectItem key={d.label} value={d.value}>{d.label}</SelectItem>)}
+                            </SelectContent>
+                        </Select>
+                    </div>
+                )}
+                <div className="space-y-1">
+                    <Label className="text-xs" htmlFor="skip_lines">Skip first lines</Label>
+                    <Input
+                        id="skip_lines"
+                        type="number"
+                        min={0}
+                        disabled={busy}
+                        value={mapping.skip_lines}
+                        onChange={e => onOptionsChange({ skip_lines: Math.max(0, Number(e.target.value) || 0) })}
+                    />
+                </div>
+                <div className="flex items-center gap-2 pt-5">
+                    <Switch
+                        id="has_header"
+                        checked={mapping.has_header}
+                        disabled={busy}
+                        onCheckedChange={checked => onOptionsChange({ has_header: checked })}
+                    />
+                    <Label htmlFor="has_header" className="text-sm">First line is a header</Label>
+                </div>
+            </div>
+
+            <div>
+                <div className="text-xs font-semibold mb-1">
+                    First lines <span className="font-normal text-muted-foreground">({detection.line_count} lines in file)</span>
+                </div>
+                <pre className="max-h-40 overflow-auto rounded-md border bg-slate-50 p-2 text-[11px] leading-4">
+                    {detection.sample_lines.join('\n')}
+                </pre>
+            </div>
+
+            <Table>
+                <TableHeader>
+                    <TableRow>
+                        <TableHead className="w-48">Field</TableHead>
+                        <TableHead>Column</TableHead>
+                        {fixedWidth && <TableHead className="w-48">Characters (start / length)</TableHead>}
+                    </TableRow>
+                </TableHeader>
+                <TableBody>
+                    {FIELDS.map(field => {
+                        const spec = mapping.columns[field.key];
+                        return (
+                            <TableRow key={field.key}>
+                                <TableCell className="text-sm">
+                                    <div className="font-medium">{field.label}</div>
+                                    {field.hint && <div className="text-xs text-muted-foreground">{field.hint}</div>}
+                                </TableCell>
+                                <TableCell>
+                                    <Select value={columnKey(spec)} onValueChange={value => selectColumn(field.key, value)}>
+                                        <SelectTrigger className="h-8"><SelectValue /></SelectTrigger>
+                                        <SelectContent>
+                                            <SelectItem value={UNMAPPED}>Not mapped</SelectItem>
+                                            {detection.columns.map(column => (
+                                                <SelectItem key={column.index} value={String(column.index)}>{describe(column)}</SelectItem>
+                                            ))}
+                                        </SelectContent>
+                                    </Select>
+                                </TableCell>
+                                {fixedWidth && (
+                                    <TableCell>
+                                        <div className="flex gap-2">
+                                            <Input
+                                                type="number"
+                                                min={1}
+                                                className="h-8"
+                                                aria-label={`${field.label} start`}
+                                                value={spec?.start !== undefined ? spec.start + 1 : ''}
+                                                onChange={e => setColumn(field.key, { start: Math.max(0, Number(e.target.value) - 1), length: spec?.length ?? 1 })}
+                                            />
+                                            <Input
+                                                type="number"
+                                                min={1}
+                                                className="h-8"
+                                                aria-label={`${field.label} length`}
+                                                value={spec?.length ?? ''}
+                                                onChange={e => setColumn(field.key, { start: spec?.start ?? 0, length: Math.max(1, Number(e.target.value)) })}
+                                            />
+                                        </div>
+                                    </TableCell>
+                                )}
+                            </TableRow>
+                        );
+                    })}
+                </TableBody>
+            </Table>
+
+            <div className="space-y-1 max-w-sm">
+                <Label className="text-xs" htmlFor="timestamp_format">Timestamp format</Label>
+                <Input
+                    id="timestamp_format"
+                    placeholder="Automatic"
+                    value={mapping.timestamp_format ?? ''}
+                    onChange={e => onChange({ ...mapping, timestamp_format: e.target.value || null })}
+                />
+                <p className="text-[10px] text-muted-foreground">
+                    Leave empty unless dates are ambiguous, e.g. <code>d/m/Y H:i</code> for 15/01/2026 08:00.
+                </p>
+            </div>
+        </div>
+    );
+}
+
+interface CodeStepProps {
+    detection: ImportDetection;
+    mapping: ImportMapping;
+    onChange: (mapping: ImportMapping) => void;
+    devices: Array<{ id: string; location: string | null }>;
+}
+
+function CodeStep({ detection, mapping, onChange, devices }: CodeStepProps) {
+    const [newEventCode, setNewEventCode] = useState('');
+    const [newDeviceCode, setNewDeviceCode] = useState('');
+
+    const valuesOf = (spec: ImportColumnSpec | null) => {
+        if (!spec) return [];
+        const column = detection.columns.find(c => (spec.index !== undefined ? c.index === spec.index : c.start === spec.start));
+        return column?.values ?? [];
+    };
+
+    const eventCodes = Array.from(new Set([...valuesOf(mapping.columns.event_type), ...Object.keys(mapping.event_codes)]));
+    const deviceCodes = Array.from(new Set([...valuesOf(mapping.columns.device), ...Object.keys(mapping.device_codes)]));
+
+    const setEventCode = (code: string, value: string) => {
+        const next = { ...mapping.event_codes };
+        if (value === UNMAPPED) delete next[code]; else next[code] = value as EventType;
+        onChange({ ...mapping, event_codes: next });
+    };
+
+    const setDeviceCode = (code: string, value: string) => {
+        const next = { ...mapping.device_codes };
+        if (value === UNMAPPED) delete next[code]; else next[code] = value;
+        onChange({ ...mapping, device_codes: next });
+    };
+
+    const deviceLabel = (device: { id: string; location: string | null }) =>
+        device.location ? `${device.id} (${device.location})` : device.id;
+
+    return (
+        <div className="grid gap-6 md:grid-cols-2">
+            <div className="space-y-2">
+                <div className="text-sm font-semibold">Event codes</div>
+                <p className="text-xs text-muted-foreground">
+                    What each value of the event type column means. Rows with an unmapped code are reported as errors.
+                </p>
+                <Table>
+                    <TableHeader>
+                        <TableRow>
+                            <TableHead className="w-28">Code</TableHead>
+                            <TableHead>Event type</TableHead>
+                        </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                        {eventCodes.map(code => (
+                            <TableRow key={code}>
+                                <TableCell className="font-mono text-xs">{code}</TableCell>
+                                <TableCell>
+                                    <Select value={mapping.event_codes[code] ?? UNMAPPED} onValueChange={value => setEventCode(code, value)}>
+                                        <SelectTrigger className="h-8"><SelectValue /></SelectTrigger>
+                                        <SelectContent>
+                                            <SelectItem value={UNMAPPED}>Not mapped</SelectItem>
+                                            {(Object.keys(EVENT_TYPE_LABELS) as EventType[]).map(type => (
+                                                <SelectItem key={type} value={type}>{EVENT_TYPE_LABELS[type]}</SelectItem>
+                                            ))}
+                                        </SelectContent>
+                                    </Select>
+                                </TableCell>
+                            </TableRow>
+                        ))}
+                    </TableBody>
+                </Table>
+                <div className="flex gap-2">
+                    <Input className="h-8" placeholder="Another code" value={newEventCode} onChange={e => setNewEventCode(e.target.value)} />
+                    <Button
+                        variant="outline"
+                        size="sm"
+                        disabled={newEventCode.trim() === ''}
+                        onClick={() => { setEventCode(newEventCode.trim(), 'time_in'); setNewEventCode(''); }}
+                    >
+                        <Plus className="h-4 w-4" />
+                    </Button>
+                </div>
+            </div>
+
+            <div className="space-y-2">
+                <div className="text-sm font-semibold">Device codes</div>
+                <p className="text-xs text-muted-foreground">
+                    Match terminal numbers in the file to our devices. Codes that already are device IDs need no mapping.
+                </p>
+                {mapping.columns.device ? (
+                    <>
+                        <Table>
+                            <TableHeader>
+                                <TableRow>
+                                    <TableHead className="w-28">Code</TableHead>
+                                    <TableHead>Device</TableHead>
+                                </TableRow>
+                            </TableHeader>
+                            <TableBody>
+                                {deviceCodes.map(code => (
+                                    <TableRow key={code}>
+                                        <TableCell className="font-mono text-xs">{code}</TableCell>
+                                        <TableCell>
+                                            <Select value={mapping.device_codes[code] ?? UNMAPPED} onValueChange={value => setDeviceCode(code, value)}>
+                                                <SelectTrigger className="h-8"><SelectValue /></SelectTrigger>
+                                                <SelectContent>
+                                                    <SelectItem value={UNMAPPED}>Not mapped</SelectItem>
+                                                    {devices.map(device => (
+                                                        <SelectItem key={device.id} value={device.id}>{deviceLabel(device)}</SelectItem>
+                                                    ))}
+                                                </SelectContent>
+                                            </Select>
+                                        </TableCell>
+                                    </TableRow>
+                                ))}
+                            </TableBody>
+                        </Table>
+                        <div className="flex gap-2">
+                            <Input className="h-8" placeholder="Another code" value={newDeviceCode} onChange={e => setNewDeviceCode(e.target.value)} />
+                            <Button
+                                variant="outline"
+                                size="sm"
+                                disabled={newDeviceCode.trim() === '' || devices.length === 0}
+                                onClick={() => { setDeviceCode(newDeviceCode.trim(), devices[0].id); setNewDeviceCode(''); }}
+                            >
+                                <Plus className="h-4 w-4" />
+                            </Button>
+                        </div>
+                    </>
+                ) : (
+                    <p className="text-xs text-muted-foreground italic">No device column mapped.</p>
+                )}
+                <div className="space-y-1 pt-2">
+                    <Label className="text-xs">Device for rows without a device code</Label>
+                    <Select
+                        value={mapping.default_device_id ?? UNMAPPED}
+                        onValueChange={value => onChange({ ...mapping, default_device_id: value === UNMAPPED ? null : value })}
+                    >
+                        <SelectTrigger className="h-8"><SelectValue /></SelectTrigger>
+                        <SelectContent>
+                            <SelectItem value={UNMAPPED}>None</SelectItem>
+                            {devices.map(device => (
+                                <SelectItem key={device.id} value={device.id}>{deviceLabel(device)}</SelectItem>
+                            ))}
+                        </SelectContent>
+                    </Select>
+                </div>
+            </div>
+        </div>
+    );
+}
+
+interface PreviewStepProps {
+    preview: ImportPreview;
+    profileSource: string;
+    onProfileSourceChange: (value: string) => void;
+    onSaveProfile: () => void;
+    profileSaved: boolean;
+    busy: boolean;
+}
+
+function PreviewStep({ preview, profileSource, onProfileSourceChange, onSaveProfile, profileSaved, busy }: PreviewStepProps) {
+    const { meta } = preview;
+    const errorTotal = Object.values(meta.error_counts).reduce((sum, count) => sum + (count ?? 0), 0);
+
+    return (
+        <div className="space-y-4">
+            <div className="flex flex-wrap items-center gap-2 text-sm">
+                <Badge variant="outline">{meta.total_rows} rows read</Badge>
+                <Badge className="bg-green-100 text-green-700 hover:bg-green-100">{meta.valid_rows} ready to import</Badge>
+                {Object.entries(meta.error_counts).map(([type, count]) => (
+                    <Badge
+                        key={type}
+                        className={type === 'duplicate_entry' ? 'bg-slate-100 text-slate-700 hover:bg-slate-100' : 'bg-red-100 text-red-700 hover:bg-red-100'}
+                    >
+                        {count} {ERROR_TYPE_LABELS[type] ?? type}
+                    </Badge>
+                ))}
+            </div>
+
+            {preview.rows.length > 0 && (
+                <div>
+                    <div className="text-xs font-semibold mb-1">
+                        Parsed rows {meta.valid_rows > preview.rows.length && <span className="font-normal text-muted-foreground">(first {preview.rows.length})</span>}
+                    </div>
+                    <div className="max-h-64 overflow-auto rounded-md border">
+                        <Table>
+                            <TableHeader>
+                                <TableRow>
+                                    <TableHead className="w-16">Line</TableHead>
+                                    <TableHead>Employee</TableHead>
+                                    <TableHead>Time</TableHead>
+                                    <TableHead>Event</TableHead>
+                                    <TableHead>Device</TableHead>
+                                </TableRow>
+                            </TableHeader>
+                            <TableBody>
+                                {preview.rows.map(row => (
+                                    <TableRow key={row.row_number}>
+                                        <TableCell className="text-xs text-muted-foreground">{row.row_number}</TableCell>
+                                        <TableCell className="text-xs">
+                                            {row.employee_name} <span className="text-muted-foreground">({row.employee_number})</span>
+                                        </TableCell>
+                                        <TableCell className="text-xs">{formatDate(parseISO(row.event_time), 'MMM d, yyyy h:mm:ss a')}</TableCell>
+                                        <TableCell className="text-xs">{EVENT_TYPE_LABELS[row.event_type]}</TableCell>
+                                        <TableCell className="text-xs">{row.device_id ?? '—'}</TableCell>
+                                    </TableRow>
+                                ))}
+                            </TableBody>
+                        </Table>
+                    </div>
+                </div>
+            )}
+
+            {preview.errors.length > 0 && (
+                <div>
+                    <div className="text-xs font-semibold mb-1">
+                        Row errors {errorTotal > preview.errors.length && <span className="font-normal text-muted-foreground">(first {preview.errors.length} of {errorTotal})</span>}
+                    </div>
+                    <div className="max-h-64 overflow-auto rounded-md border">
+                        <Table>
+                            <TableHeader>
+                                <TableRow>
+                                    <TableHead className="w-16">Line</TableHead>
+                                    <TableHead>Error</TableHead>
+                                    <TableHead>Raw data</TableHead>
+                                </TableRow>
+                            </TableHeader>
+                            <TableBody>
+                                {preview.errors.map(rowError => (
+                                    <TableRow key={rowError.id}>
+                                        <TableCell className="text-xs text-muted-foreground">{rowError.row_number}</TableCell>
+                                        <TableCell className="text-xs">
+                                            <div className={rowError.error_type === 'duplicate_entry' ? 'text-slate-600' : 'text-red-700'}>
+                                                {rowError.error_message}
+                                            </div>
+                                            {rowError.suggested_fix && <div className="text-muted-foreground">{rowError.suggested_fix}</div>}
+                                        </TableCell>
+                                        <TableCell className="font-mono text-[10px] text-muted-foreground max-w-xs truncate">
+                                            {Object.values(rowError.raw_data).join(' | ')}
+                                        </TableCell>
+                                    </TableRow>
+                                ))}
+                            </TableBody>
+                        </Table>
+                    </div>
+                </div>
+            )}
+
+            <div className="rounded-md border p-3 space-y-2">
+                <Label htmlFor="profile_source" className="text-sm">Save this mapping for the source</Label>
+                <div className="flex gap-2">
+                    <Input
+                        id="profile_source"
+                        placeholder="e.g. Cebu branch ZKTeco"
+                        value={profileSource}
+                        onChange={e => onProfileSourceChange(e.target.value)}
+                    />
+                    <Button variant="outline" disabled={busy || profileSource.trim() === '' || profileSaved} onClick={onSaveProfile}>
+                        {profileSaved ? <><CheckCircle className="h-4 w-4 mr-2 text-green-600" />Saved</> : 'Save Profile'}
+                    </Button>
+                </div>
+                <p className="text-xs text-muted-foreground">Saving under an existing source replaces its profile.</p>
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,408 @@
+import { router } from '@inertiajs/react';
+import { useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Pencil, Trash2 } from 'lucide-react';
+import {
+    LedgerAlertMetric,
+    LedgerAlertRule,
+    LedgerAlertSeverity,
+    LedgerAlertsProps,
+} from '@/types/timekeeping-pages';
+
+export const LEDGER_ALERT_METRICS: Record<LedgerAlertMetric, { label: string; threshold: string; describe: (threshold: number) => string; perDevice: boolean }> = {
+    backlog_depth: {
+        label: 'Backlog depth',
+        threshold: 'Unprocessed events',
+        describe: threshold => `More than ${threshold} unprocessed events`,
+        perDevice: false,
+    },
+    processing_rate: {
+        label: 'Processing rate',
+        threshold: 'Events processed per hour',
+        describe: threshold => `Fewer than ${threshold} events processed in an hour while a backlog waits`,
+        perDevice: false,
+    },
+    hash_failures: {
+        label: 'Hash failures',
+        threshold: 'Failures today',
+        describe: threshold => `${Math.max(1, threshold)}+ hash verification failures today`,
+        perDevice: false,
+    },
+    device_offline: {
+        label: 'Device offline',
+        threshold: 'Minutes without heartbeat',
+        describe: threshold => `No heartbeat for more than ${threshold} minutes`,
+        perDevice: true,
+    },
+    gate_silent_at_shift_start: {
+        label: 'Gate silent at shift start',
+        threshold: 'Minutes after shift start',
+        describe: threshold => `No taps ${threshold} minutes after a shift starts`,
+        perDevice: true,
+    },
+};
+
+export const LEDGER_ALERT_SEVERITY_CLASSES: Record<LedgerAlertSeverity, string> = {
+    critical: 'bg-red-100 text-red-800 border-red-200',
+    warning: 'bg-yellow-100 text-yellow-800 border-yellow-200',
+    info: 'bg-gray-100 text-gray-700 border-gray-200',
+};
+
+interface LedgerAlertRulesProps {
+    rules: LedgerAlertRule[];
+    recipients: LedgerAlertsProps['recipients'];
+    devices: LedgerAlertsProps['devices'];
+    canManage: boolean;
+}
+
+interface RuleForm {
+    id: number | null;
+    name: string;
+    metric: LedgerAlertMetric;
+    threshold: string;
+    device_id: string;
+    severity: LedgerAlertSeverity;
+    notify_in_app: boolean;
+    notify_email: boolean;
+    recipient_user_ids: number[];
+    email_addresses: string;
+    is_enabled: boolean;
+}
+
+const ALL_DEVICES = 'all';
+
+const EMPTY_FORM: RuleForm = {
+    id: null,
+    name: '',
+    metric: 'backlog_depth',
+    threshold: '',
+    device_id: ALL_DEVICES,
+    severity: 'warning',
+    notify_in_app: true,
+    notify_email: false,
+    recipient_user_ids: [],
+    email_addresses: '',
+    is_enabled: true,
+};
+
+/**
+ * Ledger Alert Rules
+ * Thresholds on ledger health metrics and who is notified when they are crossed
+ */
+export function LedgerAlertRules({ rules, recipients, devices, canManage }: LedgerAlertRulesProps) {
+    const [form, setForm] = useState<RuleForm>(EMPTY_FORM);
+    const [errors, setErrors] = useState<Record<string, string>>({});
+    const [saving, setSaving] = useState(false);
+
+    const metric = LEDGER_ALERT_METRICS[form.metric];
+
+    const recipientNames = (rule: LedgerAlertRule) => rule.recipient_user_ids
+        .map(id => recipients.find(user => user.id === id)?.name)
+        .filter(Boolean)
+        .join(', ');
+
+    const toggleRecipient = (userId: number, checked: boolean) => {
+        setForm({
+            ...form,
+            recipient_user_ids: checked
+                ? [...form.recipient_user_ids, userId]
+                : form.recipient_user_ids.filter(id => id !== userId),
+        });
+    };
+
+    const resetForm = () => {
+        setForm(EMPTY_FORM);
+        setErrors({});
+    };
+
+    const editRule = (rule: LedgerAlertRule) => {
+        setErrors({});
+        setForm({
+            id: rule.id,
+            name: rule.name,
+            metric: rule.metric,
+            threshold: rule.threshold.toString(),
+            device_id: rule.device_id ?? ALL_DEVICES,
+            severity: rule.severity,
+            notify_in_app: rule.notify_in_app,
+            notify_email: rule.notify_email,
+            recipient_user_ids: rule.recipient_user_ids,
+            email_addresses: rule.email_addresses.join(', '),
+            is_enabled: rule.is_enabled,
+        });
+    };
+
+    const saveRule = () => {
+        const data = {
+            name: form.name,
+            metric: form.metric,
+            threshold: form.threshold === '' ? null : Number(form.threshold),
+            device_id: metric.perDevice && form.device_id !== ALL_DEVICES ? form.device_id : null,
+            severity: form.severity,
+            notify_in_app: form.notify_in_app,
+            notify_email: form.notify_email,
+            recipient_user_ids: form.recipient_user_ids,
+            email_addresses: form.email_addresses.split(/[\s,;]+/).filter(Boolean),
+            is_enabled: form.is_enabled,
+        };
+        const options = {
+            preserveScroll: true,
+            onSuccess: resetForm,
+            onError: setErrors,
+            onFinish: () => setSaving(false),
+        };
+
+        setSaving(true);
+        if (form.id === null) {
+            router.post(route('hr.timekeeping.ledger-alerts.rules.store'), data, options);
+        } else {
+            router.put(route('hr.timekeeping.ledger-alerts.rules.update', { ruleId: form.id }), data, options);
+        }
+    };
+
+    const deleteRule = (rule: LedgerAlertRule) => {
+        if (!confirm(`Delete the alert rule "${rule.name}"? Its active alerts will resolve.`)) return;
+        router.delete(route('hr.timekeeping.ledger-alerts.rules.destroy', { ruleId: rule.id }), { preserveScroll: true });
+    };
+
+    const emailErrors = Object.entries(errors).filter(([key]) => key.startsWith('email_addresses'));
+
+    return (
+        <Card>
+            <CardHeader>
+                <CardTitle>Alert Rules</CardTitle>
+                <CardDescription>
+                    Rules are checked every minute. Recipients are notified when an alert is raised and again when a
+                    snooze ends while the alert is still active. A rule with no recipients notifies HR Managers in-app.
+                </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+                <Table>
+                    <TableHeader>
+                        <TableRow>
+                            <TableHead>Rule</TableHead>
+                            <TableHead>Condition</TableHead>
+                            <TableHead>Severity</TableHead>
+                            <TableHead>Notify</TableHead>
+                            <TableHead>Status</TableHead>
+                            {canManage && <TableHead className="w-24" />}
+                        </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                        {rules.length === 0 && (
+                            <TableRow>
+                                <TableCell colSpan={canManage ? 6 : 5} className="text-center text-sm text-muted-foreground py-6">
+                                    No alert rules yet.
+                                </TableCell>
+                            </TableRow>
+                        )}
+                        {rules.map(rule => (
+                            <TableRow key={rule.id}>
+                                <TableCell className="text-sm">
+                                    <div className="font-medium">{rule.name}</div>
+                                    {rule.updated_by && (
+                                        <div className="text-xs text-muted-foreground">Updated by {rule.updated_by}</div>
+                                    )}
+                                </TableCell>
+                                <TableCell className="text-sm">
+                                    <div>{LEDGER_ALERT_METRICS[rule.metric].label}</div>
+                                    <div className="text-xs text-muted-foreground">
+                                        {LEDGER_ALERT_METRICS[rule.metric].describe(rule.threshold)}
+                                        {LEDGER_ALERT_METRICS[rule.metric].perDevice && ` · ${rule.device_id ?? 'all devices'}`}
+                                    </div>
+                                </TableCell>
+                                <TableCell>
+                                    <Badge variant="outline" className={LEDGER_ALERT_SEVERITY_CLASSES[rule.severity]}>
+                                        {rule.severity}
+                                    </Badge>
+                                </TableCell>
+                                <TableCell className="text-xs">
+                                    <div>
+                                        {[rule.notify_in_app && 'In-app', rule.notify_email && 'Email'].filter(Boolean).join(' + ') || 'None'}
+                                    </div>
+                                    <div className="text-muted-foreground">
+                                        {rule.recipient_user_ids.length === 0 && rule.email_addresses.length === 0
+                                            ? 'HR Managers (in-app)'
+                                            : [recipientNames(rule), ...rule.email_addresses].filter(Boolean).join(', ')}
+                                    </div>
+                                </TableCell>
+                                <TableCell>
+                                    <Badge variant={rule.is_enabled ? 'default' : 'secondary'}>
+                                        {rule.is_enabled ? 'Enabled' : 'Disabled'}
+                                    </Badge>
+                                </TableCell>
+                                {canManage && (
+                                    <TableCell className="text-right">
+                                        <Button variant="ghost" size="sm" onClick={() => editRule(rule)} title="Edit">
+                                            <Pencil className="h-4 w-4" />
+                                        </Button>
+                                        <Button variant="ghost" size="sm" onClick={() => deleteRule(rule)} title="Delete">
+                                            <Trash2 className="h-4 w-4 text-red-600" />
+                                        </Button>
+                                    </TableCell>
+                                )}
+                            </TableRow>
+                        ))}
+                    </TableBody>
+                </Table>
+
+                {canManage && (
+                    <div className="rounded-lg border p-4 space-y-4">
+                        <div className="text-sm font-semibold">{form.id === null ? 'Add a rule' : `Edit "${form.name}"`}</div>
+                        <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-4">
+                            <div className="space-y-2">
+                                <Label htmlFor="alert_rule_name">Name</Label>
+                                <Input
+                                    id="alert_rule_name"
+                                    placeholder="e.g. Main gate offline"
+                                    value={form.name}
+                                    onChange={e => setForm({ ...form, name: e.target.value })}
+                                />
+                                {errors.name && <p className="text-xs text-red-600">{errors.name}</p>}
+                            </div>
+                            <div className="space-y-2">
+                                <Label>Metric</Label>
+                                <Select
+                                    value={form.metric}
+                                    onValueChange={value => setForm({ ...form, metric: value as LedgerAlertMetric })}
+                                >
+                                    <SelectTrigger><SelectValue /></SelectTrigger>
+                                    <SelectContent>
+                                        {(Object.keys(LEDGER_ALERT_METRICS) as LedgerAlertMetric[]).map(key => (
+                                            <SelectItem key={key} value={key}>{LEDGER_ALERT_METRICS[key].label}</SelectItem>
+                                        ))}
+                                    </SelectContent>
+                                </Select>
+                                {errors.metric && <p className="text-xs text-red-600">{errors.metric}</p>}
+                            </div>
+                            <div className="space-y-2">
+                                <Label htmlFor="alert_rule_threshold">{metric.threshold}</Label>
+                                <Input
+                                    id="alert_rule_threshold"
+                                    type="number"
+                                    min={0}
+                                    value={form.threshold}
+                                    onChange={e => setForm({ ...form, threshold: e.target.value })}
+                                />
+                                {errors.threshold && <p className="text-xs text-red-600">{errors.threshold}</p>}
+                            </div>
+                            <div className="space-y-2">
+                                <Label>Severity</Label>
+                                <Select
+                                    value={form.severity}
+                                    onValueChange={value => setForm({ ...form, severity: value as LedgerAlertSeverity })}
+                                >
+                                    <SelectTrigger><SelectValue /></SelectTrigger>
+                                    <SelectContent>
+                                        <SelectItem value="info">Info</SelectItem>
+                                        <SelectItem value="warning">Warning</SelectItem>
+                                        <SelectItem value="critical">Critical</SelectItem>
+                                    </SelectContent>
+                                </Select>
+                            </div>
+                            {metric.perDevice && (
+                                <div className="space-y-2">
+                                    <Label>Device</Label>
+                                    <Select value={form.device_id} onValueChange={value => setForm({ ...form, device_id: value })}>
+                                        <SelectTrigger><SelectValue /></SelectTrigger>
+                                        <SelectContent>
+                                            <SelectItem value={ALL_DEVICES}>All devices</SelectItem>
+                                            {devices.map(device => (
+                                                <SelectItem key={device.id} value={device.id}>
+                                                    {device.location ? `${device.id} (${device.location})` : device.id}
+                                                </SelectItem>
+                                            ))}
+                                        </SelectContent>
+                                    </Select>
+                                    {errors.device_id && <p className="text-xs text-red-600">{errors.device_id}</p>}
+                                </div>
+                            )}
+                        </div>
+                        <p className="text-xs text-muted-foreground">
+                            {form.threshold !== '' && metric.describe(Number(form.threshold))}
+                        </p>
+
+                        <div className="grid gap-4 md:grid-cols-2">
+                            <div className="space-y-2">
+                                <Label>Recipients</Label>
+                                <div className="max-h-40 overflow-y-auto rounded-md border p-2 space-y-1.5">
+                                    {recipients.map(user => (
+                                        <label key={user.id} className="flex items-center gap-2 text-sm">
+                                            <Checkbox
+                                                checked={form.recipient_user_ids.includes(user.id)}
+                                                onCheckedChange={checked => toggleRecipient(user.id, checked === true)}
+                                            />
+                                            <span>{user.name}</span>
+                                            <span className="text-xs text-muted-foreground">{user.email}</span>
+                                        </label>
+                                    ))}
+                                </div>
+                                {errors.recipient_user_ids && <p className="text-xs text-red-600">{errors.recipient_user_ids}</p>}
+                            </div>
+                            <div className="space-y-4">
+                                <div className="space-y-2">
+                                    <Label htmlFor="alert_rule_emails">Extra email addresses</Label>
+                                    <Input
+                                        id="alert_rule_emails"
+                                        placeholder="e.g. it-oncall@example.com, security@example.com"
+                                        value={form.email_addresses}
+                                        onChange={e => setForm({ ...form, email_addresses: e.target.value })}
+                                    />
+                                    {emailErrors.map(([key, message]) => (
+                                        <p key={key} className="text-xs text-red-600">{message}</p>
+                                    ))}
+                                </div>
+                                <div className="flex flex-wrap items-center gap-4">
+                                    <div className="flex items-center gap-2">
+                                        <Switch
+                                            id="alert_rule_in_app"
+                                            checked={form.notify_in_app}
+                                            onCheckedChange={checked => setForm({ ...form, notify_in_app: checked })}
+                                        />
+                                        <Label htmlFor="alert_rule_in_app">In-app</Label>
+                                    </div>
+                                    <div className="flex items-center gap-2">
+                                        <Switch
+                                            id="alert_rule_email"
+                                            checked={form.notify_email}
+                                            onCheckedChange={checked => setForm({ ...form, notify_email: checked })}
+                                        />
+                                        <Label htmlFor="alert_rule_email">Email</Label>
+                                    </div>
+                                    <div className="flex items-center gap-2">
+                                        <Switch
+                                            id="alert_rule_enabled"
+                                            checked={form.is_enabled}
+                                            onCheckedChange={checked => setForm({ ...form, is_enabled: checked })}
+                                        />
+                                        <Label htmlFor="alert_rule_enabled">Rule enabled</Label>
+                                    </div>
+                                </div>
+                            </div>
+                        </div>
+
+                        <div className="flex justify-end gap-2">
+                            <Button variant="outline" onClick={resetForm}>
+                                {form.id === null ? 'Clear' : 'Cancel'}
+                            </Button>
+                            <Button onClick={saveRule} disabled={saving || !form.name || form.threshold === ''}>
+                                {saving ? 'Saving...' : 'Save Rule'}
+                            </Button>
+                        </div>
+                        <p className="text-xs text-muted-foreground">
+                            Extra addresses receive email only, and only while the email channel is on.
+                        </p>
+                    </div>
+                )}
+            </CardContent>
+        </Card>
+    );
+}
@@ -0,0 +1,301 @@
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { CheckCircle2, XCircle, AlertTriangle, Loader2, ShieldCheck, KeyRound } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { useEffect, useState } from 'react';
+import {
+    fetchLedgerVerificationRange,
+    verifyLedgerRange,
+    type EntryVerificationResult,
+    type RangeVerificationResult,
+    type SignatureStatus,
+} from '@/lib/ledger-verification';
+
+/**
+ * Get signature status display
+ */
+const getSignatureDisplay = (status: SignatureStatus) => {
+    const displays: Record<SignatureStatus, { label: string; className: string }> = {
+        valid: { label: 'Signature valid', className: 'bg-green-100 text-green-700 border-green-200' },
+        invalid: { label: 'Signature INVALID', className: 'bg-red-100 text-red-700 border-red-200' },
+        unsigned: { label: 'Unsigned', className: 'bg-gray-100 text-gray-700 border-gray-200' },
+        no_key: { label: 'No device key registered', className: 'bg-yellow-100 text-yellow-700 border-yellow-200' },
+        unsupported: { label: 'Ed25519 unsupported in this browser', className: 'bg-yellow-100 text-yellow-700 border-yellow-200' },
+        backfilled: { label: 'Backfilled (unsigned)', className: 'bg-yellow-100 text-yellow-700 border-yellow-200' },
+    };
+    return displays[status];
+};
+
+/**
+ * Check Row Component
+ */
+function CheckRow({ label, ok, detail }: { label: string; ok: boolean; detail?: string }) {
+    return (
+        <div className="flex items-start justify-between gap-2">
+            <span className="text-sm text-muted-foreground">{label}:</span>
+            <span className={cn('flex items-center gap-1 text-sm font-medium text-right', ok ? 'text-green-700' : 'text-red-700')}>
+                {ok ? <CheckCircle2 className="h-3.5 w-3.5" /> : <XCircle className="h-3.5 w-3.5" />}
+                {detail}
+            </span>
+        </div>
+    );
+}
+
+/**
+ * Ledger Entry Verification Component
+ * Re-fetches the raw ledger entry and recomputes its hash, chain link and signature in the browser
+ */
+export function LedgerEntryVerification({ sequenceId }: { sequenceId: number }) {
+    const [result, setResult] = useState<EntryVerificationResult | null>(null);
+    const [error, setError] = useState<string | null>(null);
+    const [loading, setLoading] = useState(true);
+
+    useEffect(() => {
+        let cancelled = false;
+
+        Promise.resolve().then(() => {
+            setLoading(true);
+            setError(null);
+            setResult(null);
+        });
+
+        fetchLedgerVerificationRange({ from_sequence: sequenceId, to_sequence: sequenceId })
+            .then(range => verifyLedgerRange(range))
+            .then(verification => {
+                if (cancelled) return;
+                const entryResult = verification.results.find(r => r.sequenceId === sequenceId) ?? null;
+                setResult(entryResult);
+                if (!entryResult) setError('Ledger entry not found');
+            })
+            .catch((e: Error) => {
+                if (!cancelled) setError(e.message);
+            })
+            .finally(() => {
+                if (!cancelled) setLoading(false);
+            });
+
+        return () => {
+            cancelled = true;
+        };
+    }, [sequenceId]);
+
+    if (loading) {
+        return (
+            <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                <Loader2 className="h-4 w-4 animate-spin" />
+                Recomputing hash chain in browser...
+            </div>
+        );
+    }
+
+    if (error || !result) {
+        return (
+            <div className="flex items-center gap-2 text-sm text-yellow-700">
+                <AlertTriangle className="h-4 w-4" />
+                Unable to verify: {error}
+            </div>
+        );
+    }
+
+    const signature = getSignatureDisplay(result.signatureStatus);
+
+    return (
+        <div className="space-y-2">
+            <CheckRow
+                label="Recomputed Hash"
+                ok={result.hashValid}
+                detail={result.computedHash ? `${result.computedHash.substring(0, 16)}…` : 'N/A'}
+            />
+            <CheckRow
+                label="Chain Link"
+                ok={result.linkValid}
+                detail={result.linkValid ? 'Links to previous device entry' : 'Broken link'}
+            />
+            <div className="flex items-center justify-between">
+                <span className="text-sm text-muted-foreground">Device Signature:</span>
+                <Badge variant="outline" className={signature.className}>
+                    <KeyRound className="h-3 w-3 mr-1" />
+                    {signature.label}
+                </Badge>
+            </div>
+            {result.issues.length > 0 && (
+                <ul className="text-xs text-red-700 list-disc pl-5 space-y-0.5">
+                    {result.issues.map((issue, index) => (
+                        <li key={index}>{issue.message}</li>
+                    ))}
+                </ul>
+            )}
+            {result.warnings.length > 0 && (
+                <ul className="text-xs text-yellow-700 list-disc pl-5 space-y-0.5">
+                    {result.warnings.map((warning, index) => (
+                        <li key={index}>{warning.message}</li>
+                    ))}
+                </ul>
+            )}
+        </div>
+    );
+}
+
+interface LedgerRangeVerificationDialogProps {
+    open: boolean;
+    onOpenChange: (open: boolean) => void;
+    defaultDateFrom?: string;
+    defaultDateTo?: string;
+    defaultDeviceId?: string;
+}
+
+/**
+ * Ledger Range Verification Dialog
+ * Lets auditors verify the chain for a date/device range and lists mismatches per sequence_id
+ */
+export function LedgerRangeVerificationDialog({
+    open,
+    onOpenChange,
+    defaultDateFrom = '',
+    defaultDateTo = '',
+    defaultDeviceId = '',
+}: LedgerRangeVerificationDialogProps) {
+    const today = new Date().toISOString().split('T')[0];
+    const [dateFrom, setDateFrom] = useState(defaultDateFrom || today);
+    const [dateTo, setDateTo] = useState(defaultDateTo || today);
+    const [deviceId, setDeviceId] = useState(defaultDeviceId);
+    const [running, setRunning] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const [truncated, setTruncated] = useState(false);
+    const [verification, setVerification] = useState<RangeVerificationResult | null>(null);
+
+    const handleVerify = async () => {
+        setRunning(true);
+        setError(null);
+        setVerification(null);
+
+        try {
+            const params: Record<string, string> = { date_from: dateFrom, date_to: dateTo };
+            if (deviceId) params.device_id = deviceId;
+
+            const range = await fetchLedgerVerificationRange(params);
+            setTruncated(range.truncated);
+            setVerification(await verifyLedgerRange(range));
+        } catch (e) {
+            setError(e instanceof Error ? e.message : 'Verification failed');
+        } finally {
+            setRunning(false);
+        }
+    };
+
+    return (
+        <Dialog open={open} onOpenChange={onOpenChange}>
+            <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+                <DialogHeader>
+                    <DialogTitle className="flex items-center gap-2">
+                        <ShieldCheck className="h-5 w-5" />
+                        Verify Ledger Range
+                    </DialogTitle>
+                    <DialogDescription>
+                        Recomputes every hash and checks device signatures in this browser. Nothing is taken on trust from the server.
+                    </DialogDescription>
+                </DialogHeader>
+
+                <div className="grid grid-cols-1 sm:grid-cols-4 gap-3 items-end">
+                    <div className="space-y-1">
+                        <Label htmlFor="verify-date-from" className="text-xs">From</Label>
+                        <Input id="verify-date-from" type="date" value={dateFrom} onChange={e => setDateFrom(e.target.value)} />
+                    </div>
+                    <div className="space-y-1">
+                        <Label htmlFor="verify-date-to" className="text-xs">To</Label>
+                        <Input id="verify-date-to" type="date" value={dateTo} onChange={e => setDateTo(e.target.value)} />
+                    </div>
+                    <div className="space-y-1">
+                        <Label htmlFor="verify-device" className="text-xs">Device (optional)</Label>
+                        <Input id="verify-device" placeholder="All devices" value={deviceId} onChange={e => setDeviceId(e.target.value)} />
+                    </div>
+                    <Button onClick={handleVerify} disabled={running || !dateFrom || !dateTo}>
+                        {running ? <Loader2 className="h-4 w-4 mr-1 animate-spin" /> : <ShieldCheck className="h-4 w-4 mr-1" />}
+                        Verify
+                    </Button>
+                </div>
+
+                {error && (
+                    <div className="flex items-center gap-2 text-sm text-red-700">
+                        <XCircle className="h-4 w-4" />
+                        {error}
+                    </div>
+                )}
+
+                {verification && (
+                    <div className="space-y-3">
+                        <div className={cn(
+                            'rounded-lg border p-3 flex items-center gap-2 text-sm font-semibold',
+                            verification.status === 'verified' && 'bg-green-50 border-green-200 text-green-800',
+                            verification.status === 'indeterminate' && 'bg-yellow-50 border-yellow-200 text-yellow-800',
+                            verification.status === 'failed' && 'bg-red-50 border-red-200 text-red-800'
+                        )}>
+                            {verification.status === 'verified' && <CheckCircle2 className="h-4 w-4" />}
+                            {verification.status === 'indeterminate' && <AlertTriangle className="h-4 w-4" />}
+                            {verification.status === 'failed' && <XCircle className="h-4 w-4" />}
+                            {verification.status === 'verified' && `All ${verification.totalChecked} entries verified${verification.backfilled > 0 ? `, ${verification.backfilled} of them backfilled without a device signature` : ''}`}
+                            {verification.status === 'indeterminate' && `Hashes and links intact, but ${verification.unverified} of ${verification.totalChecked} signatures could not be checked`}
+                            {verification.status === 'failed' && `${verification.mismatches.length} of ${verification.totalChecked} entries failed verification`}
+                        </div>
+
+                        <div className="grid grid-cols-2 sm:grid-cols-5 gap-2 text-xs">
+                            <div className="rounded border p-2"><div className="text-muted-foreground">Hash failures</div><div className="font-bold text-base">{verification.hashFailures}</div></div>
+                            <div className="rounded border p-2"><div className="text-muted-foreground">Broken links</div><div className="font-bold text-base">{verification.linkFailures}</div></div>
+                            <div className="rounded border p-2"><div className="text-muted-foreground">Bad signatures</div><div className="font-bold text-base">{verification.signatureFailures}</div></div>
+                            <div className="rounded border p-2"><div className="text-muted-foreground">Unsigned</div><div className="font-bold text-base">{verification.unsigned}</div></div>
+                            <div className="rounded border p-2"><div className="text-muted-foreground">Not checked</div><div className="font-bold text-base">{verification.unverified}</div></div>
+                        </div>
+
+                        {verification.backfilled > 0 && (
+                            <p className="text-xs text-yellow-700">
+                                {verification.backfilled} entries were backfilled by HR from a device export. Their hashes and links are checked, but no device signed them.
+                            </p>
+                        )}
+
+                        {truncated && (
+                            <p className="text-xs text-yellow-700">
+                                Range truncated to the first 5,000 entries. Narrow the dates or pick a device to verify the rest.
+                            </p>
+                        )}
+
+                        {(verification.mismatches.length > 0 || verification.warnings.length > 0) && (
+                            <Table>
+                                <TableHeader>
+                                    <TableRow>
+                                        <TableHead className="w-24">Sequence</TableHead>
+                                        <TableHead className="w-32">Device</TableHead>
+                                        <TableHead>Issues</TableHead>
+                                    </TableRow>
+                                </TableHeader>
+                                <TableBody>
+                                    {verification.mismatches.map(mismatch => (
+                                        <TableRow key={mismatch.sequenceId}>
+                                            <TableCell className="font-mono text-xs">#{mismatch.sequenceId}</TableCell>
+                                            <TableCell className="font-mono text-xs">{mismatch.deviceId}</TableCell>
+                                            <TableCell className="text-xs text-red-700">
+                                                {mismatch.issues.map(issue => issue.message).join('; ')}
+                                            </TableCell>
+                                        </TableRow>
+                                    ))}
+                                    {verification.warnings.map(warning => (
+                                        <TableRow key={warning.sequenceId}>
+                                            <TableCell className="font-mono text-xs">#{warning.sequenceId}</TableCell>
+                                            <TableCell className="font-mono text-xs">{warning.deviceId}</TableCell>
+                                            <TableCell className="text-xs text-yellow-700">
+                                                {warning.warnings.map(item => item.message).join('; ')}
+                                            </TableCell>
+                                        </TableRow>
+                                    ))}
+                                </TableBody>
+                            </Table>
+                        )}
+                    </div>
+                )}
+            </DialogContent>
+        </Dialog>
+    );
+}
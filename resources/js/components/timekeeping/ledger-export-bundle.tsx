@@ -0,0 +1,371 @@
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { AlertTriangle, CheckCircle2, XCircle, MinusCircle, Loader2, Download, FileCheck2, Upload } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { useState } from 'react';
+import {
+    crossCheckAnchorsWithLedger,
+    downloadLedgerExport,
+    loadBundleFiles,
+    verifyLedgerBundle,
+    type BundleCheck,
+    type BundleFileStatus,
+    type BundleVerificationResult,
+} from '@/lib/ledger-export-bundle';
+
+/**
+ * Check status icon
+ */
+function CheckIcon({ status }: { status: BundleCheck['status'] }) {
+    if (status === 'pass') return <CheckCircle2 className="h-4 w-4 text-green-600" />;
+    if (status === 'fail') return <XCircle className="h-4 w-4 text-red-600" />;
+    return <MinusCircle className="h-4 w-4 text-gray-400" />;
+}
+
+const FILE_STATUS_CLASSES: Record<BundleFileStatus, string> = {
+    ok: 'bg-green-100 text-green-700 border-green-200',
+    mismatch: 'bg-red-100 text-red-700 border-red-200',
+    missing: 'bg-red-100 text-red-700 border-red-200',
+    unlisted: 'bg-yellow-100 text-yellow-700 border-yellow-200',
+};
+
+interface ExportTabProps {
+    defaultDateFrom: string;
+    defaultDateTo: string;
+    defaultDeviceId: string;
+}
+
+/**
+ * Export Tab Component
+ * Downloads the bundle for a date/device/employee range
+ */
+function ExportTab({ defaultDateFrom, defaultDateTo, defaultDeviceId }: ExportTabProps) {
+    const [dateFrom, setDateFrom] = useState(defaultDateFrom);
+    const [dateTo, setDateTo] = useState(defaultDateTo);
+    const [deviceId, setDeviceId] = useState(defaultDeviceId);
+    const [employeeNumber, setEmployeeNumber] = useState('');
+    const [running, setRunning] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const [exported, setExported] = useState<{ filename: string; manifestSha256: string | null } | null>(null);
+
+    const handleExport = async () => {
+        setRunning(true);
+        setError(null);
+        setExported(null);
+
+        try {
+            setExported(await downloadLedgerExport({
+                date_from: dateFrom,
+                date_to: dateTo,
+                device_id: deviceId || undefined,
+                employee_number: employeeNumber || undefined,
+            }));
+        } catch (e) {
+            setError(e instanceof Error ? e.message : 'Export failed');
+        } finally {
+            setRunning(false);
+        }
+    };
+
+    return (
+        <div className="space-y-4">
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                <div className="space-y-1">
+                    <Label htmlFor="export-date-from" className="text-xs">From</Label>
+                    <Input id="export-date-from" type="date" value={dateFrom} onChange={e => setDateFrom(e.target.value)} />
+                </div>
+                <div className="space-y-1">
+                    <Label htmlFor="export-date-to" className="text-xs">To</Label>
+                    <Input id="export-date-to" type="date" value={dateTo} onChange={e => setDateTo(e.target.value)} />
+                </div>
+                <div className="space-y-1">
+                    <Label htmlFor="export-device" className="text-xs">Device (optional)</Label>
+                    <Input id="export-device" placeholder="All devices" value={deviceId} onChange={e => setDeviceId(e.target.value)} />
+                </div>
+                <div className="space-y-1">
+                    <Label htmlFor="export-employee" className="text-xs">Employee number (optional)</Label>
+                    <Input id="export-employee" placeholder="All employees" value={employeeNumber} onChange={e => setEmployeeNumber(e.target.value)} />
+                </div>
+            </div>
+
+            <p className="text-xs text-muted-foreground">
+                The bundle is a ZIP of events.csv, events.json, anchors.json (the hash chain anchors at both ends of the
+                range, per device) and manifest.json with a SHA-256 digest of every file.
+                {employeeNumber && ' Filtering by employee leaves gaps in each device chain, so only individual entry hashes can be re-verified.'}
+            </p>
+
+            <div className="flex justify-end">
+                <Button onClick={handleExport} disabled={running || !dateFrom || !dateTo}>
+                    {running ? <Loader2 className="h-4 w-4 mr-1 animate-spin" /> : <Download className="h-4 w-4 mr-1" />}
+                    Download Bundle
+                </Button>
+            </div>
+
+            {error && (
+                <div className="flex items-center gap-2 text-sm text-red-700">
+                    <XCircle className="h-4 w-4" />
+                    {error}
+                </div>
+            )}
+
+            {exported && (
+                <div className="rounded-lg border border-green-200 bg-green-50 p-3 text-sm text-green-800 space-y-1">
+                    <p className="font-semibold flex items-center gap-1.5">
+                        <CheckCircle2 className="h-4 w-4" />
+                        Saved {exported.filename}
+                    </p>
+                    {exported.manifestSha256 && (
+                        <p className="text-xs">
+                            Manifest SHA-256 (recorded in the audit log):{' '}
+                            <code className="font-mono break-all">{exported.manifestSha256}</code>
+                        </p>
+                    )}
+                </div>
+            )}
+        </div>
+    );
+}
+
+/**
+ * Verify Tab Component
+ * Re-imports a bundle (ZIP or extracted files) and verifies it in the browser
+ */
+function VerifyTab() {
+    const [running, setRunning] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const [result, setResult] = useState<BundleVerificationResult | null>(null);
+    const [liveCheck, setLiveCheck] = useState<BundleCheck | null>(null);
+    const [checkingLive, setCheckingLive] = useState(false);
+
+    const handleFiles = async (fileList: FileList | null) => {
+        if (!fileList || fileList.length === 0) return;
+
+        setRunning(true);
+        setError(null);
+        setResult(null);
+        setLiveCheck(null);
+
+        try {
+            setResult(await verifyLedgerBundle(await loadBundleFiles(Array.from(fileList))));
+        } catch (e) {
+            setError(e instanceof Error ? e.message : 'Could not read the bundle');
+        } finally {
+            setRunning(false);
+        }
+    };
+
+    const handleCrossCheck = async () => {
+        if (!result?.anchors) return;
+
+        setCheckingLive(true);
+        try {
+            setLiveCheck(await crossCheckAnchorsWithLedger(result.anchors));
+        } catch (e) {
+            setLiveCheck({ label: 'Live ledger', status: 'skipped', detail: e instanceof Error ? e.message : 'Unavailable' });
+        } finally {
+            setCheckingLive(false);
+        }
+    };
+
+    const checks = liveCheck && result ? [...result.checks, liveCheck] : result?.checks ?? [];
+    const valid = result?.valid && liveCheck?.status !== 'fail';
+    const failed = checks.some(check => check.status === 'fail');
+
+    return (
+        <div className="space-y-4">
+            <div className="space-y-1">
+                <Label htmlFor="verify-bundle-files" className="text-xs">Bundle ZIP, or all extracted files</Label>
+                <Input
+                    id="verify-bundle-files"
+                    type="file"
+                    multiple
+                    accept=".zip,.json,.csv"
+                    disabled={running}
+                    onChange={e => handleFiles(e.target.files)}
+                />
+                <p className="text-xs text-muted-foreground">
+                    Nothing is uploaded. Digests, hashes and signatures are recomputed in this browser.
+                </p>
+            </div>
+
+            {running && (
+                <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                    <Loader2 className="h-4 w-4 animate-spin" />
+                    Verifying bundle...
+                </div>
+            )}
+
+            {error && (
+                <div className="flex items-center gap-2 text-sm text-red-700">
+                    <XCircle className="h-4 w-4" />
+                    {error}
+                </div>
+            )}
+
+            {result && (
+                <div className="space-y-3">
+                    <div className={cn(
+                        'rounded-lg border p-3 flex items-center gap-2 text-sm font-semibold',
+                        valid ? 'bg-green-50 border-green-200 text-green-800'
+                            : failed ? 'bg-red-50 border-red-200 text-red-800'
+                            : 'bg-yellow-50 border-yellow-200 text-yellow-800'
+                    )}>
+                        {valid ? <CheckCircle2 className="h-4 w-4" /> : failed ? <XCircle className="h-4 w-4" /> : <AlertTriangle className="h-4 w-4" />}
+                        {valid ? 'Bundle is intact: nothing was altered since export'
+                            : failed ? 'Bundle failed verification'
+                            : 'Bundle could not be fully verified: some signatures were not checked'}
+                    </div>
+
+                    {result.manifest && (
+                        <div className="text-xs text-muted-foreground space-y-0.5">
+                            <p>
+                                Exported {new Date(result.manifest.generated_at).toLocaleString()}
+                                {result.manifest.generated_by && ` by ${result.manifest.generated_by.name}`}
+                                {' '}&middot; devices {result.manifest.range.devices.join(', ')}
+                            </p>
+                            <p>
+                                Manifest SHA-256: <code className="font-mono break-all">{result.manifestSha256}</code>
+                            </p>
+                        </div>
+                    )}
+
+                    <div className="rounded-lg border divide-y">
+                        {checks.map(check => (
+                            <div key={check.label} className="flex items-start justify-between gap-3 p-2.5 text-sm">
+                                <span className="flex items-center gap-2 font-medium">
+                                    <CheckIcon status={check.status} />
+                                    {check.label}
+                                </span>
+                                <span className="text-xs text-muted-foreground text-right">{check.detail}</span>
+                            </div>
+                        ))}
+                    </div>
+
+                    {result.anchors && !liveCheck && (
+                        <Button variant="outline" size="sm" onClick={handleCrossCheck} disabled={checkingLive}>
+                            {checkingLive ? <Loader2 className="h-4 w-4 mr-1 animate-spin" /> : <FileCheck2 className="h-4 w-4 mr-1" />}
+                            Compare anchors with live ledger
+                        </Button>
+                    )}
+
+                    {result.files.length > 0 && (
+                        <Table>
+                            <TableHeader>
+                                <TableRow>
+                                    <TableHead className="w-32">File</TableHead>
+                                    <TableHead className="w-24">Status</TableHead>
+                                    <TableHead>SHA-256</TableHead>
+                                </TableRow>
+                            </TableHeader>
+                            <TableBody>
+                                {result.files.map(file => (
+                                    <TableRow key={file.name}>
+                                        <TableCell className="font-mono text-xs">{file.name}</TableCell>
+                                        <TableCell>
+                                            <Badge variant="outline" className={FILE_STATUS_CLASSES[file.status]}>{file.status}</Badge>
+                                        </TableCell>
+                                        <TableCell className="font-mono text-[10px] break-all">
+                                            {file.actualSha256 ?? '—'}
+                                            {file.status === 'mismatch' && (
+                                                <div className="text-red-700">expected {file.expectedSha256}</div>
+                                            )}
+                                        </TableCell>
+                                    </TableRow>
+                                ))}
+                            </TableBody>
+                        </Table>
+                    )}
+
+                    {result.chain && result.chain.mismatches.length > 0 && (
+                        <Table>
+                            <TableHeader>
+                                <TableRow>
+                                    <TableHead className="w-24">Sequence</TableHead>
+                                    <TableHead className="w-32">Device</TableHead>
+                                    <TableHead>Issues</TableHead>
+                                </TableRow>
+                            </TableHeader>
+                            <TableBody>
+                                {result.chain.mismatches.map(mismatch => (
+                                    <TableRow key={mismatch.sequenceId}>
+                                        <TableCell className="font-mono text-xs">#{mismatch.sequenceId}</TableCell>
+                                        <TableCell className="font-mono text-xs">{mismatch.deviceId}</TableCell>
+                                        <TableCell className="text-xs text-red-700">
+                                            {mismatch.issues.map(issue => issue.message).join('; ')}
+                                        </TableCell>
+                                    </TableRow>
+                                ))}
+                            </TableBody>
+                        </Table>
+                    )}
+                </div>
+            )}
+        </div>
+    );
+}
+
+interface LedgerExportDialogProps {
+    open: boolean;
+    onOpenChange: (open: boolean) => void;
+    defaultDateFrom?: string;
+    defaultDateTo?: string;
+    defaultDeviceId?: string;
+}
+
+/**
+ * Ledger Export Dialog
+ * Exports tamper-evident bundles for auditors and re-verifies previously exported ones
+ */
+export function LedgerExportDialog({
+    open,
+    onOpenChange,
+    defaultDateFrom = '',
+    defaultDateTo = '',
+    defaultDeviceId = '',
+}: LedgerExportDialogProps) {
+    const today = new Date().toISOString().split('T')[0];
+
+    return (
+        <Dialog open={open} onOpenChange={onOpenChange}>
+            <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+                <DialogHeader>
+                    <DialogTitle className="flex items-center gap-2">
+                        <Download className="h-5 w-5" />
+                        Ledger Export Bundle
+                    </DialogTitle>
+                    <DialogDescription>
+                        Tamper-evident export for auditors and DOLE inspectors, and a verifier for bundles you receive back.
+                    </DialogDescription>
+                </DialogHeader>
+
+                <Tabs defaultValue="export">
+                    <TabsList>
+                        <TabsTrigger value="export" className="gap-1.5">
+                            <Download className="h-3.5 w-3.5" />
+                            Export
+                        </TabsTrigger>
+                        <TabsTrigger value="verify" className="gap-1.5">
+                            <Upload className="h-3.5 w-3.5" />
+                            Verify Bundle
+                        </TabsTrigger>
+                    </TabsList>
+                    <TabsContent value="export" className="pt-3">
+                        <ExportTab
+                            defaultDateFrom={defaultDateFrom || today}
+                            defaultDateTo={defaultDateTo || today}
+                            defaultDeviceId={defaultDeviceId}
+                        />
+                    </TabsContent>
+                    <TabsContent value="verify" className="pt-3">
+                        <VerifyTab />
+                    </TabsContent>
+                </Tabs>
+            </DialogContent>
+        </Dialog>
+    );
+}
@@ -2,10 +2,12 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/com
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from '@/components/ui/tooltip';
-import { Activity, CheckCircle2, AlertTriangle, XCircle, TrendingUp, Clock, Shield, Wifi, WifiOff, Layers, ExternalLink, HelpCircle } from 'lucide-react';
+import { Activity, CheckCircle2, AlertTriangle, XCircle, TrendingUp, Clock, Shield, Wifi, WifiOff, Layers, ExternalLink, HelpCircle, Bell } from 'lucide-react';
+import { Link } from '@inertiajs/react';
 import { cn } from '@/lib/utils';
 import { useState } from 'react';
 import { LedgerHealthDetailModal } from './ledger-health-detail-modal';
+import type { ActiveLedgerAlert } from '@/types/timekeeping-pages';
 
 /**
  * Ledger Health Status Types
@@ -33,6 +35,7 @@ interface LedgerHealthState {
  */
 interface LedgerHealthWidgetProps {
     healthState?: LedgerHealthState;
+    activeAlerts?: ActiveLedgerAlert[];   // Raised by the configured ledger alert rules
     className?: string;
 }
 
@@ -283,6 +286,7 @@ function generateDetailedHealthState(basicState: LedgerHealthState) {
  */
 export function LedgerHealthWidget({ 
     healthState = mockHealthStates.healthy,
+    activeAlerts = [],
     className 
 }: LedgerHealthWidgetProps) {
     const config = getStatusConfig(healthState.status);
@@ -504,6 +508,45 @@ export function LedgerHealthWidget({
                         </div>
                     </TooltipProvider>
 
+                    {/* Active Alert Rule Alerts */}
+                    {activeAlerts.length > 0 && (
+                        <div className="p-2.5 border rounded-lg bg-white/90 space-y-1.5">
+                            <div className="flex items-center justify-between">
+                                <div className="flex items-center gap-1 text-xs font-semibold text-gray-900">
+                                    <Bell className="h-3.5 w-3.5 text-gray-500" />
+                                    <span>Active Alerts ({activeAlerts.length})</span>
+                                </div>
+                                <Link
+                                    href={route('hr.timekeeping.ledger-alerts.index')}
+                                    className="text-[10px] font-medium text-blue-600 hover:underline"
+                                >
+                                    Manage alerts
+                                </Link>
+                            </div>
+                            {activeAlerts.map((alert) => (
+                                <div key={alert.id} className="flex items-center gap-2 text-xs">
+                                    <Badge
+                                        variant="outline"
+                                        className={cn(
+                                            'text-[10px] py-0 px-1.5 shrink-0',
+                                            alert.severity === 'critical' ? 'border-red-300 text-red-700' :
+                                            alert.severity === 'warning' ? 'border-yellow-300 text-yellow-700' :
+                                            'border-gray-300 text-gray-600'
+                                        )}
+                                    >
+                                        {alert.severity}
+                                    </Badge>
+                                    <span className={cn('flex-1 truncate', alert.status === 'open' ? 'text-gray-900' : 'text-gray-500')}>
+                                        {alert.message}
+                                    </span>
+                                    {alert.status !== 'open' && (
+                                        <span className="text-[10px] text-gray-500 shrink-0">{alert.status}</span>
+                                    )}
+                                </div>
+                            ))}
+                        </div>
+                    )}
+
                     {/* Processing Rate Mini-Chart */}
                     {healthState.processingRateHistory && healthState.processingRateHistory.length > 0 && (
                         <div className="p-2.5 border rounded-lg bg-white/90 flex items-center justify-between gap-4">
@@ -10,7 +10,7 @@ import {
 } from '@/components/ui/dialog';
 import { Badge } from '@/components/ui/badge';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
-import { Clock, User, Calendar, Edit } from 'lucide-react';
+import { Clock, User, Calendar, Edit, MoonStar } from 'lucide-react';
 import type { OvertimeRecord } from '@/types/timekeeping-pages';
 
 interface OvertimeDetailModalProps {
@@ -156,6 +156,17 @@ export function OvertimeDetailModal({
                                     )}
                                 </div>
 
+                                {/* Night Differential */}
+                                {!!record.night_diff_minutes && (
+                                    <div className="flex items-center gap-2 text-sm text-indigo-700">
+                                        <MoonStar className="h-4 w-4" />
+                                        <span>
+                                            {(record.night_diff_minutes / 60).toFixed(1)}h inside the night differential window
+                                            {!record.actual_hours && ' (planned)'}
+                                        </span>
+                                    </div>
+                                )}
+
                                 {/* Reason */}
                                 <div className="border-t pt-4">
                                     <p className="text-xs text-gray-600 font-semibold mb-2">Reason</p>
@@ -0,0 +1,307 @@
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { AlertTriangle, ArrowRight, History, Loader2, Search, XCircle } from 'lucide-react';
+import { useState } from 'react';
+import { format, parseISO } from 'date-fns';
+import { cn } from '@/lib/utils';
+import {
+    fetchAttendanceReconstruction,
+    type AttendanceReconstruction,
+    type AttendanceReconstructionResult,
+    type ReconstructedField,
+    type ReconstructedSummary,
+    type ReconstructionChangeType,
+} from '@/services/timekeeping-api';
+
+export interface ReconstructionDepartment {
+    id: number;
+    name: string;
+}
+
+interface PointInTimeReconstructionProps {
+    departments?: ReconstructionDepartment[];
+    defaultAsOf?: Date;
+}
+
+type ReconstructionScope = 'employee' | 'department';
+
+const FIELD_LABELS: Record<ReconstructedField, string> = {
+    status: 'Status',
+    time_in: 'Time in',
+    time_out: 'Time out',
+    break_duration: 'Break (min)',
+    late_minutes: 'Late (min)',
+    undertime_minutes: 'Undertime (min)',
+    total_hours_worked: 'Hours worked',
+    regular_hours: 'Regular hours',
+    overtime_hours: 'Overtime hours',
+};
+
+const CHANGE_TYPE_LABELS: Record<ReconstructionChangeType, string> = {
+    event_recorded: 'Event recorded',
+    event_corrected: 'Event corrected',
+    correction_approved: 'Correction approved',
+};
+
+const CHANGE_TYPE_CLASSES: Record<ReconstructionChangeType, string> = {
+    event_recorded: 'bg-blue-100 text-blue-700 border-blue-200',
+    event_corrected: 'bg-orange-100 text-orange-700 border-orange-200',
+    correction_approved: 'bg-purple-100 text-purple-700 border-purple-200',
+};
+
+const TIME_FIELDS: ReconstructedField[] = ['time_in', 'time_out'];
+
+/**
+ * Display a summary value; times come as "Y-m-d H:i:s"
+ */
+const formatValue = (field: ReconstructedField, value: string | number | null): string => {
+    if (value === null) return '—';
+    if (TIME_FIELDS.includes(field) && typeof value === 'string') {
+        return format(parseISO(value.replace(' ', 'T')), 'HH:mm');
+    }
+    if (field === 'status' && typeof value === 'string') {
+        return value.replace('_', ' ');
+    }
+    return String(value);
+};
+
+/**
+ * Reconstructed employee-day: values table and the changes after the moment
+ */
+function ReconstructionDay({ row }: { row: AttendanceReconstruction }) {
+    const fields = Object.keys(FIELD_LABELS) as ReconstructedField[];
+    const stored: ReconstructedSummary | null = row.stored;
+
+    return (
+        <div className="rounded-lg border p-3 space-y-3">
+            <div className="flex flex-wrap items-center justify-between gap-2">
+                <div>
+                    <div className="font-semibold text-sm">
+                        {row.employee.name ?? row.employee.employee_number}
+                        <span className="ml-2 font-mono text-xs text-muted-foreground">{row.employee.employee_number}</span>
+                    </div>
+                    <div className="text-xs text-muted-foreground">
+                        {format(parseISO(row.attendance_date), 'EEE, MMM d, yyyy')}
+                        {row.employee.department && ` · ${row.employee.department}`}
+                        {` · ${row.events_known_at_as_of} event${row.events_known_at_as_of === 1 ? '' : 's'} known at the time`}
+                    </div>
+                </div>
+                <div className="flex items-center gap-2">
+                    {row.stored?.is_finalized && <Badge variant="secondary">Finalized</Badge>}
+                    <Badge variant={row.changed_since_as_of ? 'default' : 'outline'}>
+                        {row.changed_since_as_of ? `Changed (${row.later_changes.length})` : 'Unchanged'}
+                    </Badge>
+                </div>
+            </div>
+
+            <Table>
+                <TableHeader>
+                    <TableRow>
+                        <TableHead className="h-8 text-xs">Value</TableHead>
+                        <TableHead className="h-8 text-xs">As of</TableHead>
+                        <TableHead className="h-8 text-xs">Now (recomputed)</TableHead>
+                        <TableHead className="h-8 text-xs">Stored summary</TableHead>
+                    </TableRow>
+                </TableHeader>
+                <TableBody>
+                    {fields.map(field => {
+                        const changed = row.as_of[field] !== row.current[field];
+                        const storedDiffers = stored !== null && stored[field] !== row.current[field];
+                        return (
+                            <TableRow key={field}>
+                                <TableCell className="py-1.5 text-xs text-muted-foreground">{FIELD_LABELS[field]}</TableCell>
+                                <TableCell className={cn('py-1.5 font-mono text-xs capitalize', changed && 'text-red-700 line-through')}>
+                                    {formatValue(field, row.as_of[field])}
+                                </TableCell>
+                                <TableCell className={cn('py-1.5 font-mono text-xs capitalize', changed && 'font-semibold text-green-700')}>
+                                    {formatValue(field, row.current[field])}
+                                </TableCell>
+                                <TableCell className={cn('py-1.5 font-mono text-xs capitalize', storedDiffers && 'text-yellow-700')}>
+                                    {stored ? formatValue(field, stored[field]) : '—'}
+                                </TableCell>
+                            </TableRow>
+                        );
+                    })}
+                </TableBody>
+            </Table>
+
+            {!row.stored_matches_current && (
+                <div className="flex items-start gap-2 text-xs text-yellow-800 bg-yellow-50 border border-yellow-200 rounded p-2">
+                    <AlertTriangle className="h-4 w-4 shrink-0" />
+                    <span>
+                        The stored summary differs from the values recomputed from events and approved corrections
+                        {row.stored?.calculated_at && ` (last calculated ${format(parseISO(row.stored.calculated_at), 'MMM d, HH:mm')})`}.
+                        It may need recalculation.
+                    </span>
+                </div>
+            )}
+
+            {row.later_changes.length > 0 && (
+                <div className="space-y-2">
+                    <div className="text-xs font-medium text-muted-foreground">Changes after the selected moment</div>
+                    <ol className="space-y-2 border-l pl-3">
+                        {row.later_changes.map((change, index) => (
+                            <li key={`${change.type}-${change.at}-${index}`} className="text-xs space-y-1">
+                                <div className="flex flex-wrap items-center gap-2">
+                                    <span className="font-mono text-muted-foreground">{format(parseISO(change.at), 'MMM d, HH:mm:ss')}</span>
+                                    <Badge variant="outline" className={CHANGE_TYPE_CLASSES[change.type]}>
+                                        {CHANGE_TYPE_LABELS[change.type]}
+                                    </Badge>
+                                    {change.actor && <span className="text-muted-foreground">by {change.actor}</span>}
+                                </div>
+                                <div>{change.description}</div>
+                                {Object.keys(change.changed_fields).length === 0 ? (
+                                    <div className="text-muted-foreground italic">No effect on summary values</div>
+                                ) : (
+                                    <div className="flex flex-wrap gap-x-4 gap-y-1">
+                                        {(Object.keys(change.changed_fields) as ReconstructedField[]).map(field => {
+                                            const diff = change.changed_fields[field]!;
+                                            return (
+                                                <span key={field} className="inline-flex items-center gap-1 font-mono capitalize">
+                                                    <span className="text-muted-foreground normal-case">{FIELD_LABELS[field]}:</span>
+                                                    {formatValue(field, diff.from)}
+                                                    <ArrowRight className="h-3 w-3" />
+                                                    {formatValue(field, diff.to)}
+                                                </span>
+                                            );
+                                        })}
+                                    </div>
+                                )}
+                            </li>
+                        ))}
+                    </ol>
+                </div>
+            )}
+        </div>
+    );
+}
+
+/**
+ * Point-in-Time Reconstruction Component
+ * Shows daily attendance summaries as they stood at a past moment, next to the
+ * current values, with every later event or correction that changed them
+ */
+export function PointInTimeReconstruction({ departments = [], defaultAsOf }: PointInTimeReconstructionProps) {
+    const initialAsOf = defaultAsOf ?? new Date();
+    const [scope, setScope] = useState<ReconstructionScope>('employee');
+    const [employeeNumber, setEmployeeNumber] = useState('');
+    const [departmentId, setDepartmentId] = useState('');
+    const [dateFrom, setDateFrom] = useState(format(initialAsOf, 'yyyy-MM-dd'));
+    const [dateTo, setDateTo] = useState(format(initialAsOf, 'yyyy-MM-dd'));
+    const [asOf, setAsOf] = useState(format(initialAsOf, "yyyy-MM-dd'T'HH:mm"));
+    const [loading, setLoading] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const [result, setResult] = useState<AttendanceReconstructionResult | null>(null);
+
+    const scopeSelected = scope === 'employee' ? employeeNumber.trim() !== '' : departmentId !== '';
+
+    const handleReconstruct = async () => {
+        setLoading(true);
+        setError(null);
+
+        try {
+            setResult(await fetchAttendanceReconstruction({
+                as_of: new Date(asOf).toISOString(),
+                date_from: dateFrom,
+                date_to: dateTo,
+                employee_number: scope === 'employee' ? employeeNumber.trim() : undefined,
+                department_id: scope === 'department' ? Number(departmentId) : undefined,
+            }));
+        } catch (e) {
+            setResult(null);
+            setError(e instanceof Error ? e.message : 'Reconstruction failed');
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    return (
+        <div className="space-y-4">
+            <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-5 gap-3 items-end">
+                <div className="space-y-1">
+                    <Label className="text-xs">Scope</Label>
+                    <Select value={scope} onValueChange={value => setScope(value as ReconstructionScope)}>
+                        <SelectTrigger>
+                            <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                            <SelectItem value="employee">Employee</SelectItem>
+                            <SelectItem value="department">Department</SelectItem>
+                        </SelectContent>
+                    </Select>
+                </div>
+                {scope === 'employee' ? (
+                    <div className="space-y-1">
+                        <Label htmlFor="reconstruct-employee" className="text-xs">Employee number</Label>
+                        <Input id="reconstruct-employee" placeholder="EMP-001" value={employeeNumber} onChange={e => setEmployeeNumber(e.target.value)} />
+                    </div>
+                ) : (
+                    <div className="space-y-1">
+                        <Label className="text-xs">Department</Label>
+                        <Select value={departmentId} onValueChange={setDepartmentId}>
+                            <SelectTrigger>
+                                <SelectValue placeholder="Select department" />
+                            </SelectTrigger>
+                            <SelectContent>
+                                {departments.map(department => (
+                                    <SelectItem key={department.id} value={String(department.id)}>{department.name}</SelectItem>
+                                ))}
+                            </SelectContent>
+                        </Select>
+                    </div>
+                )}
+                <div className="space-y-1">
+                    <Label htmlFor="reconstruct-date-from" className="text-xs">Attendance from</Label>
+                    <Input id="reconstruct-date-from" type="date" value={dateFrom} onChange={e => setDateFrom(e.target.value)} />
+                </div>
+                <div className="space-y-1">
+                    <Label htmlFor="reconstruct-date-to" className="text-xs">Attendance to</Label>
+                    <Input id="reconstruct-date-to" type="date" value={dateTo} onChange={e => setDateTo(e.target.value)} />
+                </div>
+                <div className="space-y-1">
+                    <Label htmlFor="reconstruct-as-of" className="text-xs">As of</Label>
+                    <Input id="reconstruct-as-of" type="datetime-local" value={asOf} onChange={e => setAsOf(e.target.value)} />
+                </div>
+            </div>
+
+            <div className="flex items-center justify-between gap-3">
+                <p className="text-xs text-muted-foreground">
+                    Recomputes each day from the events recorded and corrections approved by the selected moment,
+                    e.g. the cut-off of an earlier payroll run.
+                </p>
+                <Button onClick={handleReconstruct} disabled={loading || !scopeSelected || !dateFrom || !dateTo || !asOf}>
+                    {loading ? <Loader2 className="h-4 w-4 mr-1 animate-spin" /> : <Search className="h-4 w-4 mr-1" />}
+                    Reconstruct
+                </Button>
+            </div>
+
+            {error && (
+                <div className="flex items-center gap-2 text-sm text-red-700">
+                    <XCircle className="h-4 w-4" />
+                    {error}
+                </div>
+            )}
+
+            {result && (
+                <div className="space-y-3">
+                    <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                        <History className="h-4 w-4" />
+                        As of {format(parseISO(result.meta.as_of), 'MMM d, yyyy HH:mm')}: {result.meta.changed_count} of{' '}
+                        {result.meta.day_count} employee-day{result.meta.day_count === 1 ? '' : 's'} changed since
+                    </div>
+                    {result.data.length === 0 ? (
+                        <div className="text-center py-6 text-sm text-gray-500">No attendance in the selected range</div>
+                    ) : (
+                        result.data.map(row => (
+                            <ReconstructionDay key={`${row.employee.id}-${row.attendance_date}`} row={row} />
+                        ))
+                    )}
+                </div>
+            )}
+        </div>
+    );
+}
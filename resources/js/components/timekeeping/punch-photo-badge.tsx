@@ -0,0 +1,50 @@
+import { Camera, CameraOff, ScanFace } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { PunchPhotoReviewStatus, PunchPhotoReviewSummary } from '@/types/timekeeping-pages';
+
+export const PUNCH_PHOTO_STATUS_LABELS: Record<PunchPhotoReviewStatus, string> = {
+    proxy: 'Proxy punch',
+    pending: 'Photo review pending',
+    approved: 'Photo verified',
+};
+
+const STATUS_STYLES: Record<PunchPhotoReviewStatus, string> = {
+    proxy: 'bg-red-100 text-red-700 border-red-200',
+    pending: 'bg-slate-100 text-slate-700 border-slate-200',
+    approved: 'bg-green-100 text-green-700 border-green-200',
+};
+
+const STATUS_ICONS = {
+    proxy: CameraOff,
+    pending: ScanFace,
+    approved: Camera,
+};
+
+interface PunchPhotoBadgeProps {
+    review?: PunchPhotoReviewSummary | null;
+    className?: string;
+}
+
+/**
+ * Punch photo badge
+ * Worst review outcome of the day's queued punch photos
+ */
+export function PunchPhotoBadge({ review, className }: PunchPhotoBadgeProps) {
+    if (!review) return null;
+
+    const Icon = STATUS_ICONS[review.status];
+
+    return (
+        <span
+            className={cn(
+                'inline-flex items-center gap-1 rounded-full border px-2 py-0.5 text-[10px] font-semibold leading-none',
+                STATUS_STYLES[review.status],
+                className
+            )}
+            title={`${review.photos} punch photo(s) queued for review`}
+        >
+            <Icon className="h-3 w-3" />
+            {PUNCH_PHOTO_STATUS_LABELS[review.status]}
+        </span>
+    );
+}
@@ -0,0 +1,114 @@
+import { router } from '@inertiajs/react';
+import { useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { PunchPhotoRules } from '@/types/timekeeping-pages';
+
+interface PunchPhotoSamplingRulesProps {
+    rules: PunchPhotoRules;
+    canManage: boolean;
+}
+
+/**
+ * Punch Photo Sampling Rules
+ * Which photographed RFID punches are put in the review queue
+ */
+export function PunchPhotoSamplingRules({ rules, canManage }: PunchPhotoSamplingRulesProps) {
+    const [form, setForm] = useState({ ...rules, sample_percent: String(rules.sample_percent) });
+    const [errors, setErrors] = useState<Record<string, string>>({});
+    const [saving, setSaving] = useState(false);
+
+    const save = () => {
+        setSaving(true);
+        setErrors({});
+        router.put(route('hr.timekeeping.punch-photos.rules'), {
+            ...form,
+            sample_percent: Number(form.sample_percent),
+        }, {
+            preserveScroll: true,
+            preserveState: true,
+            onError: setErrors,
+            onFinish: () => setSaving(false),
+        });
+    };
+
+    return (
+        <Card>
+            <CardHeader>
+                <CardTitle>Sampling Rules</CardTitle>
+                <CardDescription>
+                    Photos outside these rules are kept but not queued. Changes apply to photos received from now on.
+                </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+                <div className="grid gap-4 md:grid-cols-3">
+                    <div className="space-y-1">
+                        <Label htmlFor="sample_percent">Random sample (% of punches)</Label>
+                        <Input
+                            id="sample_percent"
+                            type="number"
+                            min={0}
+                            max={100}
+                            step={0.1}
+                            disabled={!canManage}
+                            value={form.sample_percent}
+                            onChange={e => setForm({ ...form, sample_percent: e.target.value })}
+                        />
+                        {errors.sample_percent && <p className="text-xs text-red-600">{errors.sample_percent}</p>}
+                    </div>
+                    <div className="space-y-1">
+                        <div className="flex items-center justify-between">
+                            <Label htmlFor="late_night_start">Every late-night punch</Label>
+                            <Switch
+                                checked={form.late_night_enabled}
+                                disabled={!canManage}
+                                onCheckedChange={checked => setForm({ ...form, late_night_enabled: checked })}
+                            />
+                        </div>
+                        <div className="flex items-center gap-2">
+                            <Input
+                                id="late_night_start"
+                                type="time"
+                                disabled={!canManage || !form.late_night_enabled}
+                                value={form.late_night_start}
+                                onChange={e => setForm({ ...form, late_night_start: e.target.value })}
+                            />
+                            <span className="text-xs text-muted-foreground">to</span>
+                            <Input
+                                type="time"
+                                aria-label="Late night end"
+                                disabled={!canManage || !form.late_night_enabled}
+                                value={form.late_night_end}
+                                onChange={e => setForm({ ...form, late_night_end: e.target.value })}
+                            />
+                        </div>
+                        {(errors.late_night_start || errors.late_night_end) && (
+                            <p className="text-xs text-red-600">{errors.late_night_start ?? errors.late_night_end}</p>
+                        )}
+                    </div>
+                    <div className="space-y-1">
+                        <div className="flex items-center justify-between">
+                            <Label>Punches with an anomaly</Label>
+                            <Switch
+                                checked={form.flag_anomalies}
+                                disabled={!canManage}
+                                onCheckedChange={checked => setForm({ ...form, flag_anomalies: checked })}
+                            />
+                        </div>
+                        <p className="text-xs text-muted-foreground">
+                            Queues the photos of punches an open anomaly (e.g. buddy punching) points at.
+                        </p>
+                    </div>
+                </div>
+                {canManage && (
+                    <Button size="sm" disabled={saving || form.sample_percent === ''} onClick={save}>
+                        Save Rules
+                    </Button>
+                )}
+            </CardContent>
+        </Card>
+    );
+}
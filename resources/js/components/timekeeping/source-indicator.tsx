@@ -1,4 +1,4 @@
-import { Calendar, Edit3, Download } from 'lucide-react';
+import { Calendar, Edit3, Download, Smartphone } from 'lucide-react';
 import { cn } from '@/lib/utils';
 import { AttendanceSource } from '@/types/timekeeping-pages';
 
@@ -11,7 +11,8 @@ interface SourceIndicatorProps {
 
 /**
  * Reusable source indicator component
- * Shows the source of attendance record (RFID edge machine, manual entry, or imported)
+ * Shows the source of attendance record (RFID edge machine, manual entry, imported,
+ * or mobile clock-in from the employee portal)
  * with appropriate icon and styling
  */
 export function SourceIndicator({ source, deviceId, className, showLabel = true }: SourceIndicatorProps) {
@@ -37,6 +38,13 @@ export function SourceIndicator({ source, deviceId, className, showLabel = true
             bg: 'bg-purple-50',
             tooltip: 'Imported from file',
         },
+        mobile: {
+            icon: Smartphone,
+            label: 'Mobile',
+            color: 'text-teal-600',
+            bg: 'bg-teal-50',
+            tooltip: 'Clocked in from the employee portal with location',
+        },
     };
 
     const config = sourceConfig[source];
@@ -4,10 +4,12 @@ import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
 import { Tooltip, TooltipContent, TooltipTrigger } from '@/components/ui/tooltip';
 import { Clock, MapPin, Hash, Lock, AlertTriangle } from 'lucide-react';
 import { cn } from '@/lib/utils';
-import { EventType } from '@/types/timekeeping-pages';
+import { AnomalyFlag, EventType } from '@/types/timekeeping-pages';
 import { useEffect, useRef, useState } from 'react';
 import { EventDetailModal } from './event-detail-modal';
+import { AnomalyFlagBadge, AnomalyFlagList } from './anomaly-flag-badge';
 import type { EventDetailData } from './event-detail-modal';
+import type { LedgerStreamStatus } from '@/hooks/use-ledger-stream';
 
 /**
  * Time Log Entry Interface
@@ -26,7 +28,9 @@ interface TimeLogEntry {
     deviceLocation: string;
     verified: boolean;
     hashChain?: string;
+    signature?: string;
     latencyMs?: number;
+    anomalies?: AnomalyFlag[];
 }
 
 interface TimeLogsStreamProps {
@@ -36,6 +40,8 @@ interface TimeLogsStreamProps {
     className?: string;
     autoScroll?: boolean;
     headerActions?: React.ReactNode;
+    // Live connection state; when omitted the indicator is shown as live
+    connectionStatus?: LedgerStreamStatus;
 }
 
 /**
@@ -941,6 +947,40 @@ const getInitials = (name: string): string => {
         .slice(0, 2);
 };
 
+/**
+ * Get live indicator styling for the stream connection state
+ */
+const getLiveIndicatorConfig = (status?: LedgerStreamStatus) => {
+    switch (status) {
+        case 'connecting':
+        case 'reconnecting':
+            return {
+                label: status === 'connecting' ? 'Connecting' : 'Reconnecting',
+                container: 'bg-yellow-50 border-yellow-200',
+                dot: 'bg-yellow-500',
+                text: 'text-yellow-700',
+                pulse: true,
+            };
+        case 'idle':
+        case 'closed':
+            return {
+                label: 'Paused',
+                container: 'bg-gray-50 border-gray-200',
+                dot: 'bg-gray-400',
+                text: 'text-gray-600',
+                pulse: false,
+            };
+        default:
+            return {
+                label: 'Live',
+                container: 'bg-green-50 border-green-200',
+                dot: 'bg-green-500',
+                text: 'text-green-700',
+                pulse: true,
+            };
+    }
+};
+
 /**
  * Time Logs Stream Component
  * Displays chronological list of RFID tap events with real-time appearance
@@ -961,6 +1001,7 @@ export function TimeLogsStream({
     showLiveIndicator = true,
     autoScroll = true,
     headerActions,
+    connectionStatus,
     className 
 }: TimeLogsStreamProps) {
     const scrollContainerRef = useRef<HTMLDivElement>(null);
@@ -969,6 +1010,8 @@ export function TimeLogsStream({
     const [selectedEvent, setSelectedEvent] = useState<EventDetailData | null>(null);
     const [isModalOpen, setIsModalOpen] = useState(false);
 
+    const liveIndicator = getLiveIndicatorConfig(connectionStatus);
+
     // Handle log entry click
     const handleLogClick = (log: TimeLogEntry) => {
         // Enhance log data with additional mock details for the modal
@@ -981,7 +1024,7 @@ export function TimeLogsStream({
             verificationStatus: log.verified ? 'verified' : 'pending',
             processedAt: new Date(new Date(log.timestamp).getTime() + (log.latencyMs || 100)).toISOString(),
             summaryImpact: 'Added to daily attendance summary',
-            signature: 'ed25519:' + (log.hashChain?.substring(0, 32) || '0'.repeat(32))
+            signature: log.signature
         };
         setSelectedEvent(enhancedLog);
         setIsModalOpen(true);
@@ -997,7 +1040,7 @@ export function TimeLogsStream({
         verificationStatus: log.verified ? 'verified' as 'verified' | 'pending' | 'failed' : 'pending' as 'verified' | 'pending' | 'failed',
         processedAt: new Date(new Date(log.timestamp).getTime() + (log.latencyMs || 100)).toISOString(),
         summaryImpact: 'Added to daily attendance summary',
-        signature: 'ed25519:' + (log.hashChain?.substring(0, 32) || '0'.repeat(32))
+        signature: log.signature
     }));
 
     // Handle navigation to another event from modal
@@ -1047,13 +1090,15 @@ export function TimeLogsStream({
                         <CardTitle className="flex items-center gap-2 text-base">
                             {showLiveIndicator ? 'Live Event Stream' : 'Replay Event Stream'}
                             {showLiveIndicator && (
-                                <div className="flex items-center gap-1.5 px-2 py-0.5 rounded-full bg-green-50 border border-green-200">
+                                <div className={cn('flex items-center gap-1.5 px-2 py-0.5 rounded-full border', liveIndicator.container)}>
                                     <span className="relative flex h-2 w-2">
-                                        <span className="animate-ping absolute inline-flex h-full w-full rounded-full bg-green-500 opacity-75"></span>
-                                        <span className="relative inline-flex rounded-full h-2 w-2 bg-green-500"></span>
+                                        {liveIndicator.pulse && (
+                                            <span className={cn('animate-ping absolute inline-flex h-full w-full rounded-full opacity-75', liveIndicator.dot)}></span>
+                                        )}
+                                        <span className={cn('relative inline-flex rounded-full h-2 w-2', liveIndicator.dot)}></span>
                                     </span>
-                                    <span className="text-[10px] font-semibold text-green-700 uppercase tracking-wide">
-                                        Live
+                                    <span className={cn('text-[10px] font-semibold uppercase tracking-wide', liveIndicator.text)}>
+                                        {liveIndicator.label}
                                     </span>
                                 </div>
                             )}
@@ -1166,6 +1211,10 @@ export function TimeLogsStream({
                                                         </>
                                                     )}
                                                 </div>
+
+                                                {log.anomalies && log.anomalies.length > 0 && (
+                                                    <AnomalyFlagBadge flags={log.anomalies} withTooltip={false} />
+                                                )}
                                             </div>
                                         </div>
 
@@ -1231,6 +1280,12 @@ export function TimeLogsStream({
                                                 </>
                                             )}
                                         </div>
+
+                                        {log.anomalies && log.anomalies.length > 0 && (
+                                            <div className="border-t pt-2 mt-2">
+                                                <AnomalyFlagList flags={log.anomalies} />
+                                            </div>
+                                        )}
                                     </div>
                                 </TooltipContent>
                             </Tooltip>
@@ -2,22 +2,34 @@ import React, { useState } from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
-import { ChevronLeft, ChevronRight } from 'lucide-react';
-import { ShiftAssignment } from '@/types/workforce-pages';
+import { ChevronLeft, ChevronRight, ShieldAlert } from 'lucide-react';
+import { LaborComplianceViolation, ShiftAssignment } from '@/types/workforce-pages';
 import { formatTime, getShiftTypeColorClasses, getStatusColorClasses } from '@/lib/workforce-utils';
 
 interface AssignmentCalendarProps {
     assignments: ShiftAssignment[];
     onAssignmentClick?: (assignment: ShiftAssignment) => void;
     onDateClick?: (date: string) => void;
+    // Month to open on, as YYYY-MM-DD
+    initialDate?: string;
+    // Required headcount per date; defaults to 5 a day
+    requiredByDate?: Record<string, number>;
+    // Shifts still missing per date, e.g. the coverage gaps of a schedule draft
+    shortageByDate?: Record<string, number>;
+    // Labor-standards violations per date (LaborComplianceService)
+    complianceByDate?: Record<string, LaborComplianceViolation[]>;
 }
 
 export function AssignmentCalendar({
     assignments = [],
     onAssignmentClick,
     onDateClick,
+    initialDate,
+    requiredByDate,
+    shortageByDate,
+    complianceByDate,
 }: AssignmentCalendarProps) {
-    const [currentDate, setCurrentDate] = useState(new Date());
+    const [currentDate, setCurrentDate] = useState(() => (initialDate ? new Date(`${initialDate}T00:00:00`) : new Date()));
     const [selectedDate, setSelectedDate] = useState<string | null>(null);
 
     // Get all days in the current month
@@ -43,9 +55,10 @@ export function AssignmentCalendar({
     // Get total coverage for a date
     const getCoverageForDate = (dateString: string): { count: number; percentage: number } => {
         const dayAssignments = getAssignmentsForDate(dateString);
+        const required = requiredByDate ? (requiredByDate[dateString] ?? 0) : 5;
         return {
             count: dayAssignments.length,
-            percentage: Math.min(100, (dayAssignments.length / 5) * 100),
+            percentage: required > 0 ? Math.min(100, (dayAssignments.length / required) * 100) : 100,
         };
     };
 
@@ -141,6 +154,8 @@ export function AssignmentCalendar({
                             const dayAssignments = getAssignmentsForDate(dateString);
                             const coverage = getCoverageForDate(dateString);
                             const hasConflicts = hasConflictsOnDate(dateString);
+                            const shortage = shortageByDate?.[dateString] ?? 0;
+                            const violations = complianceByDate?.[dateString] ?? [];
                             const isToday =
                                 new Date().toDateString() === new Date(year, month, day).toDateString();
                             const isSelected = selectedDate === dateString;
@@ -205,6 +220,29 @@ export function AssignmentCalendar({
                                         </Badge>
                                     )}
 
+                                    {/* Unmet coverage */}
+                                    {shortage > 0 && (
+                                        <Badge variant="outline" className="text-xs mb-1 border-orange-300 text-orange-700">
+                                            {shortage} short
+                                        </Badge>
+                                    )}
+
+                                    {/* Labor-standards warnings */}
+                                    {violations.length > 0 && (
+                                        <Badge
+                                            variant="outline"
+                                            className={`text-xs mb-1 ${
+                                                violations.some((v) => v.severity === 'critical')
+                                                    ? 'border-red-300 text-red-700'
+                                                    : 'border-amber-300 text-amber-700'
+                                            }`}
+                                            title={violations.map((v) => `${v.employee_name}: ${v.message}`).join('\n')}
+                                        >
+                                            <ShieldAlert className="h-3 w-3 mr-1" />
+                                            {violations.length}
+                                        </Badge>
+                                    )}
+
                                     {/* Mini assignment cards (show max 2) */}
                                     <div className="space-y-1">
                                         {dayAssignments.slice(0, 2).map((assignment) => (
@@ -257,6 +295,29 @@ export function AssignmentCalendar({
                         </CardTitle>
                     </CardHeader>
                     <CardContent>
+                        {(complianceByDate?.[selectedDate] ?? []).length > 0 && (
+                            <div className="mb-4 space-y-2">
+                                {(complianceByDate?.[selectedDate] ?? []).map((violation) => (
+                                    <div
+                                        key={violation.id}
+                                        className={`flex items-start gap-2 rounded border p-2 text-xs ${
+                                            violation.severity === 'critical'
+                                                ? 'border-red-200 bg-red-50 text-red-800'
+                                                : 'border-amber-200 bg-amber-50 text-amber-800'
+                                        }`}
+                                    >
+                                        <ShieldAlert className="h-4 w-4 shrink-0" />
+                                        <div>
+                                            <p className="font-semibold">
+                                                {violation.employee_name} · {violation.label}
+                                            </p>
+                                            <p>{violation.message}</p>
+                                            <p className="opacity-75">{violation.requirement}</p>
+                                        </div>
+                                    </div>
+                                ))}
+                            </div>
+                        )}
                         {getAssignmentsForDate(selectedDate).length > 0 ? (
                             <div className="space-y-2">
                                 {getAssignmentsForDate(selectedDate).map((assignment) => (
@@ -13,7 +13,7 @@ import {
 } from 'lucide-react';
 
 export interface ConflictData {
-    type: 'overlap' | 'unavailable' | 'exceeded_hours' | 'rotation_conflict' | 'none';
+    type: 'overlap' | 'unavailable' | 'exceeded_hours' | 'insufficient_rest' | 'rotation_conflict' | 'none';
     severity: 'critical' | 'warning' | 'info' | 'none';
     message: string;
     details?: string;
@@ -22,7 +22,7 @@ export interface ConflictData {
         date: string;
         shift_start: string;
         shift_end: string;
-    };
+    } | null;
     resolution?: string;
 }
 
@@ -72,6 +72,8 @@ export default function AssignmentConflictIndicator({
                 return <User className="h-5 w-5" />;
             case 'exceeded_hours':
                 return <AlertCircle className="h-5 w-5" />;
+            case 'insufficient_rest':
+                return <Clock className="h-5 w-5" />;
             case 'rotation_conflict':
                 return <Calendar className="h-5 w-5" />;
             default:
@@ -133,6 +135,8 @@ export default function AssignmentConflictIndicator({
                 return 'Employee Unavailable';
             case 'exceeded_hours':
                 return 'Hour Limit Exceeded';
+            case 'insufficient_rest':
+                return 'Insufficient Rest';
             case 'rotation_conflict':
                 return 'Rotation Conflict';
             default:
@@ -32,7 +32,7 @@ import { Department, EmployeeReference } from '@/types/workforce-pages';
 import {
     formatTime,
     calculateShiftDuration,
-    detectConflicts,
+    detectBulkConflicts,
 } from '@/lib/workforce-utils';
 
 interface BulkAssignmentModalProps {
@@ -204,30 +204,29 @@ export default function BulkAssignmentModal({
         const checkConflicts = async () => {
             const conflicts: Record<number, boolean> = {};
 
-            for (const assignment of previewAssignments) {
-                try {
-                    const result = await detectConflicts(
-                        assignment.employee_id,
-                        assignment.date,
-                        assignment.shift_start,
-                        assignment.shift_end
-                    );
-
-                    if (result.hasConflict) {
-                        conflicts[assignment.employee_id] = true;
-                    }
-                } catch (err) {
-                    console.error('Conflict detection error:', err);
+            try {
+                const results = await detectBulkConflicts(
+                    formData.employees,
+                    formData.date_from,
+                    formData.date_to,
+                    selectedSchedule!.shift_start,
+                    selectedSchedule!.shift_end
+                );
+
+                for (const result of results) {
+                    conflicts[result.employee_id] = true;
                 }
+            } catch (err) {
+                console.error('Conflict detection error:', err);
             }
 
             setPreviewConflicts(conflicts);
         };
 
-        if (previewAssignments.length > 0) {
+        if (previewAssignments.length > 0 && selectedSchedule) {
             checkConflicts();
         }
-    }, [previewAssignments]);
+    }, [previewAssignments, formData.employees, formData.date_from, formData.date_to, selectedSchedule]);
 
     const handleEmployeeToggle = (employeeId: number) => {
         setFormData((prev) => ({
@@ -6,7 +6,7 @@ import { Button } from '@/components/ui/button';
 /**
  * Conflict type definitions
  */
-type ConflictType = 'overlap' | 'unavailable' | 'exceeded_hours' | 'rotation_conflict' | 'none';
+type ConflictType = 'overlap' | 'unavailable' | 'exceeded_hours' | 'insufficient_rest' | 'rotation_conflict' | 'none';
 
 /**
  * Props for a single conflict item
@@ -58,6 +58,7 @@ interface ConflictWarningProps {
  * - overlap: Employee already assigned to another shift at the same time
  * - unavailable: Employee marked as unavailable (on leave, sick, etc.)
  * - exceeded_hours: Assignment would exceed daily or weekly hour limits
+ * - insufficient_rest: Less than the minimum rest period before or after another shift
  * - rotation_conflict: Assignment conflicts with employee's rotation pattern
  * - none: No conflicts detected
  * 
@@ -91,7 +92,7 @@ export default function ConflictWarning({
     // Determine overall severity based on conflict types
     const hasOverlap = conflicts.some((c) => c.type === 'overlap');
     const hasUnavailable = conflicts.some((c) => c.type === 'unavailable');
-    const hasExceededHours = conflicts.some((c) => c.type === 'exceeded_hours');
+    const hasExceededHours = conflicts.some((c) => c.type === 'exceeded_hours' || c.type === 'insufficient_rest');
     const hasRotationConflict = conflicts.some((c) => c.type === 'rotation_conflict');
 
     // Set severity level (critical > warning > info)
@@ -216,6 +217,7 @@ function ConflictItem({ conflict, config }: ConflictItemProps) {
                     <AlertCircle className={`h-4 w-4 ${config.iconClass} flex-shrink-0`} />
                 );
             case 'exceeded_hours':
+            case 'insufficient_rest':
                 return (
                     <Clock className={`h-4 w-4 ${config.iconClass} flex-shrink-0`} />
                 );
@@ -238,6 +240,8 @@ function ConflictItem({ conflict, config }: ConflictItemProps) {
                 return 'Employee Unavailable';
             case 'exceeded_hours':
                 return 'Hour Limit Exceeded';
+            case 'insufficient_rest':
+                return 'Insufficient Rest';
             case 'rotation_conflict':
                 return 'Rotation Pattern Conflict';
             default:
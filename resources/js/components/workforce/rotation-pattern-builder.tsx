@@ -1,8 +1,17 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState } from 'react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
-import { RotationPattern, RotationPatternType } from '@/types/workforce-pages';
-import { Check, X, RotateCcw } from 'lucide-react';
+import { Input } from '@/components/ui/input';
+import {
+    Select,
+    SelectContent,
+    SelectItem,
+    SelectTrigger,
+    SelectValue,
+} from '@/components/ui/select';
+import { RotationPattern, RotationPatternType, RotationShiftDefinition, ShiftType } from '@/types/workforce-pages';
+import { getShiftTypeCellClasses } from '@/lib/workforce-utils';
+import { Check, X, RotateCcw, Plus, Trash2 } from 'lucide-react';
 
 interface RotationPatternBuilderProps {
     pattern: RotationPattern;
@@ -20,29 +29,67 @@ const PRESET_PATTERNS = {
     '3x2x2': { work_days: 5, rest_days: 4, pattern: [1, 1, 1, 0, 0, 1, 1, 0, 0] },
 };
 
+const MULTI_SHIFT_PRESETS: Record<string, { pattern: number[]; shifts: RotationShiftDefinition[]; day_shifts: (string | null)[] }> = {
+    'D-D-N-N-O-O': {
+        pattern: [1, 1, 1, 1, 0, 0],
+        shifts: [
+            { code: 'D', name: 'Day', shift_type: 'morning', shift_start: '06:00', shift_end: '18:00' },
+            { code: 'N', name: 'Night', shift_type: 'night', shift_start: '18:00', shift_end: '06:00' },
+        ],
+        day_shifts: ['D', 'D', 'N', 'N', null, null],
+    },
+};
+
+const SHIFT_TYPES: ShiftType[] = ['morning', 'afternoon', 'night', 'custom'];
+
+const MAX_SHIFTS = 6;
+
+/**
+ * Line up the day shifts with the pattern: rest days get no shift and work
+ * days without a known shift get the first one.
+ */
+function alignDayShifts(
+    pattern: number[],
+    dayShifts: (string | null)[] | undefined,
+    shifts: RotationShiftDefinition[]
+): (string | null)[] {
+    const codes = shifts.map((shift) => shift.code);
+
+    return pattern.map((day, index) => {
+        if (day !== 1) return null;
+        const code = dayShifts?.[index] ?? null;
+        return code !== null && codes.includes(code) ? code : codes[0];
+    });
+}
+
+/**
+ * Pick the next unused single-letter shift code.
+ */
+function nextShiftCode(shifts: RotationShiftDefinition[]): string {
+    const used = shifts.map((shift) => shift.code);
+    return ['D', 'N', 'A', 'M', 'E', 'S', 'X'].find((code) => !used.includes(code)) ?? `S${shifts.length + 1}`;
+}
+
 export function RotationPatternBuilder({
     pattern,
     patternType,
     onPatternChange,
     onPatternTypeChange,
 }: RotationPatternBuilderProps) {
-    const [displayPattern, setDisplayPattern] = useState<number[]>(pattern.pattern || []);
     const [expandPattern, setExpandPattern] = useState(false);
     const [jsonInput, setJsonInput] = useState('');
     const [editMode, setEditMode] = useState<'visual' | 'json'>('visual');
 
-    useEffect(() => {
-        setDisplayPattern(pattern.pattern);
-    }, [pattern]);
+    const displayPattern = pattern.pattern || [];
+    const shifts = pattern.shifts ?? [];
+    const isMultiShift = shifts.length > 0;
+    const dayShifts = alignDayShifts(displayPattern, pattern.day_shifts, shifts);
 
-    const toggleDay = (index: number) => {
-        const newPattern = [...displayPattern];
-        newPattern[index] = newPattern[index] === 1 ? 0 : 1;
-        setDisplayPattern(newPattern);
-        updatePattern(newPattern);
-    };
-
-    const updatePattern = (newPattern: number[]) => {
+    const updatePattern = (
+        newPattern: number[],
+        newDayShifts: (string | null)[] = dayShifts,
+        newShifts: RotationShiftDefinition[] = shifts
+    ) => {
         const workDays = newPattern.filter((d) => d === 1).length;
         const restDays = newPattern.filter((d) => d === 0).length;
 
@@ -52,49 +99,85 @@ export function RotationPatternBuilder({
             pattern: newPattern,
             cycle_length: newPattern.length,
             description: pattern.description,
+            ...(newShifts.length > 0 && {
+                shifts: newShifts,
+                day_shifts: alignDayShifts(newPattern, newDayShifts, newShifts),
+            }),
         });
     };
 
+    // Plain patterns flip work/rest; multi-shift patterns cycle rest -> each shift -> rest
+    const toggleDay = (index: number) => {
+        const newPattern = [...displayPattern];
+        const newDayShifts = [...dayShifts];
+
+        if (isMultiShift) {
+            const cycle = [null, ...shifts.map((shift) => shift.code)];
+            const next = cycle[(cycle.indexOf(dayShifts[index] ?? null) + 1) % cycle.length];
+            newPattern[index] = next === null ? 0 : 1;
+            newDayShifts[index] = next;
+        } else {
+            newPattern[index] = newPattern[index] === 1 ? 0 : 1;
+        }
+
+        updatePattern(newPattern, newDayShifts);
+    };
+
     const addDay = () => {
-        const newPattern = [...displayPattern, 0];
-        setDisplayPattern(newPattern);
-        updatePattern(newPattern);
+        updatePattern([...displayPattern, 0], [...dayShifts, null]);
     };
 
     const removeDay = () => {
         if (displayPattern.length > 1) {
-            const newPattern = displayPattern.slice(0, -1);
-            setDisplayPattern(newPattern);
-            updatePattern(newPattern);
+            updatePattern(displayPattern.slice(0, -1), dayShifts.slice(0, -1));
         }
     };
 
     const handleReset = () => {
         if (patternType && patternType in PRESET_PATTERNS) {
             const preset = PRESET_PATTERNS[patternType as keyof typeof PRESET_PATTERNS];
-            setDisplayPattern(preset.pattern);
             updatePattern(preset.pattern);
         }
     };
 
     const handleFillAll = () => {
-        const allWork = displayPattern.map(() => 1);
-        setDisplayPattern(allWork);
-        updatePattern(allWork);
+        updatePattern(displayPattern.map(() => 1));
     };
 
     const handleClearAll = () => {
-        const allRest = displayPattern.map(() => 0);
-        setDisplayPattern(allRest);
-        updatePattern(allRest);
+        updatePattern(displayPattern.map(() => 0));
+    };
+
+    const addShift = () => {
+        const code = nextShiftCode(shifts);
+        updatePattern(displayPattern, dayShifts, [
+            ...shifts,
+            { code, name: `Shift ${code}`, shift_type: 'custom', shift_start: '08:00', shift_end: '17:00' },
+        ]);
+    };
+
+    const updateShift = (index: number, changes: Partial<RotationShiftDefinition>) => {
+        const previousCode = shifts[index].code;
+        const newShifts = shifts.map((shift, i) => (i === index ? { ...shift, ...changes } : shift));
+        const newDayShifts =
+            changes.code !== undefined
+                ? dayShifts.map((code) => (code === previousCode ? changes.code! : code))
+                : dayShifts;
+        updatePattern(displayPattern, newDayShifts, newShifts);
+    };
+
+    // Days on a removed shift move to the first remaining one; removing the
+    // last shift turns the pattern back into plain work/rest
+    const removeShift = (index: number) => {
+        updatePattern(displayPattern, dayShifts, shifts.filter((_, i) => i !== index));
     };
 
     const handleJsonImport = () => {
         try {
             const parsed = JSON.parse(jsonInput);
             if (Array.isArray(parsed.pattern) && parsed.pattern.every((v: number) => v === 0 || v === 1)) {
-                setDisplayPattern(parsed.pattern);
-                updatePattern(parsed.pattern);
+                const importedShifts = Array.isArray(parsed.shifts) ? parsed.shifts : [];
+                updatePattern(parsed.pattern, parsed.day_shifts, importedShifts);
                 setEditMode('visual');
                 setJsonInput('');
             } else {
@@ -172,8 +255,7 @@ export function RotationPatternBuilder({
                                         variant="outline"
                                         size="sm"
                                         onClick={() => {
-                                            setDisplayPattern(value.pattern);
-                                            updatePattern(value.pattern);
+                                            updatePattern(value.pattern, [], []);
                                             if (onPatternTypeChange) {
                                                 onPatternTypeChange(key as RotationPatternType);
                                             }
@@ -182,35 +264,145 @@ export function RotationPatternBuilder({
                                         {key === '3x2x2' ? '3-2-2' : key.toUpperCase()}
                                     </Button>
                                 ))}
+                                {Object.entries(MULTI_SHIFT_PRESETS).map(([key, value]) => (
+                                    <Button
+                                        key={key}
+                                        type="button"
+                                        variant="outline"
+                                        size="sm"
+                                        onClick={() => {
+                                            updatePattern(value.pattern, value.day_shifts, value.shifts);
+                                            if (onPatternTypeChange) {
+                                                onPatternTypeChange('custom');
+                                            }
+                                        }}
+                                    >
+                                        {key}
+                                    </Button>
+                                ))}
                             </div>
                         </div>
 
+                        {/* Shift Definitions */}
+                        <div className="space-y-2">
+                            <div className="flex items-center justify-between">
+                                <p className="text-xs font-medium text-gray-600">
+                                    Shifts {isMultiShift ? `(${shifts.length})` : '(none: plain work/rest pattern)'}
+                                </p>
+                                <Button
+                                    type="button"
+                                    variant="outline"
+                                    size="sm"
+                                    onClick={addShift}
+                                    disabled={shifts.length >= MAX_SHIFTS}
+                                    className="gap-1"
+                                >
+                                    <Plus className="h-3 w-3" />
+                                    Shift
+                                </Button>
+                            </div>
+                            {shifts.map((shift, index) => (
+                                <div key={index} className="grid grid-cols-12 gap-1 items-center">
+                                    <Input
+                                        value={shift.code}
+                                        maxLength={3}
+                                        onChange={(e) => updateShift(index, { code: e.target.value.toUpperCase() })}
+                                        className="col-span-2 h-8 text-xs font-bold text-center"
+                                        aria-label="Shift code"
+                                    />
+                                    <Input
+                                        value={shift.name}
+                                        onChange={(e) => updateShift(index, { name: e.target.value })}
+                                        className="col-span-3 h-8 text-xs"
+                                        aria-label="Shift name"
+                                    />
+                                    <div className="col-span-2">
+                                        <Select
+                                            value={shift.shift_type}
+                                            onValueChange={(value) => updateShift(index, { shift_type: value as ShiftType })}
+                                        >
+                                            <SelectTrigger className="h-8 text-xs capitalize">
+                                                <SelectValue />
+                                            </SelectTrigger>
+                                            <SelectContent>
+                                                {SHIFT_TYPES.map((type) => (
+                                                    <SelectItem key={type} value={type} className="capitalize">
+                                                        {type}
+                                                    </SelectItem>
+                                                ))}
+                                            </SelectContent>
+                                        </Select>
+                                    </div>
+                                    <Input
+                                        type="time"
+                                        value={shift.shift_start}
+                                        onChange={(e) => updateShift(index, { shift_start: e.target.value })}
+                                        className="col-span-2 h-8 text-xs"
+                                        aria-label="Shift start"
+                                    />
+                                    <Input
+                                        type="time"
+                                        value={shift.shift_end}
+                                        onChange={(e) => updateShift(index, { shift_end: e.target.value })}
+                                        className="col-span-2 h-8 text-xs"
+                                        aria-label="Shift end"
+                                    />
+                                    <Button
+                                        type="button"
+                                        variant="ghost"
+                                        size="sm"
+                                        onClick={() => removeShift(index)}
+                                        className="col-span-1 h-8 px-0"
+                                        title="Remove shift"
+                                    >
+                                        <Trash2 className="h-3 w-3" />
+                                    </Button>
+                                </div>
+                            ))}
+                            {isMultiShift && (
+                                <p className="text-xs text-gray-500">Click a day to cycle it through rest and each shift.</p>
+                            )}
+                        </div>
+
                         {/* Days Grid */}
                         <div className="space-y-2">
                             <p className="text-xs font-medium text-gray-600">Pattern ({DAYS.length} days):</p>
                             <div className="grid grid-cols-7 gap-1">
-                                {DAYS.map((day, index) => (
-                                    <button
-                                        key={index}
-                                        type="button"
-                                        onClick={() => toggleDay(index)}
-                                        className={`p-2 rounded font-medium text-xs transition-colors flex flex-col items-center justify-center gap-1 min-h-12 ${
-                                            displayPattern[index] === 1
-                                                ? 'bg-blue-500 text-white shadow-md'
-                                                : 'bg-gray-200 text-gray-700'
-                                        }`}
-                                        title={displayPattern[index] === 1 ? 'Work Day' : 'Rest Day'}
-                                    >
-                                        <span>{day}</span>
-                                        <span className="text-xs">
-                                            {displayPattern[index] === 1 ? (
-                                                <Check className="h-3 w-3" />
-                                            ) : (
-                                                <X className="h-3 w-3" />
-                                            )}
-                                        </span>
-                                    </button>
-                                ))}
+                                {DAYS.map((day, index) => {
+                                    const shift = shifts.find((s) => s.code === dayShifts[index]);
+                                    return (
+                                        <button
+                                            key={index}
+                                            type="button"
+                                            onClick={() => toggleDay(index)}
+                                            className={`p-2 rounded font-medium text-xs transition-colors flex flex-col items-center justify-center gap-1 min-h-12 ${
+                                                displayPattern[index] !== 1
+                                                    ? 'bg-gray-200 text-gray-700'
+                                                    : shift
+                                                      ? `${getShiftTypeCellClasses(shift.shift_type)} shadow-md`
+                                                      : 'bg-blue-500 text-white shadow-md'
+                                            }`}
+                                            title={
+                                                displayPattern[index] !== 1
+                                                    ? 'Rest Day'
+                                                    : shift
+                                                      ? `${shift.name} (${shift.shift_start}-${shift.shift_end})`
+                                                      : 'Work Day'
+                                            }
+                                        >
+                                            <span>{day}</span>
+                                            <span className="text-xs">
+                                                {displayPattern[index] !== 1 ? (
+                                                    <X className="h-3 w-3" />
+                                                ) : shift ? (
+                                                    <span className="font-bold">{shift.code}</span>
+                                                ) : (
+                                                    <Check className="h-3 w-3" />
+                                                )}
+                                            </span>
+                                        </button>
+                                    );
+                                })}
                             </div>
                         </div>
 
@@ -229,19 +421,22 @@ export function RotationPatternBuilder({
                                     <div className="grid gap-1" style={{ gridTemplateColumns: 'repeat(auto-fill, minmax(40px, 1fr))' }}>
                                         {displayPattern.map((day, index) => {
                                             if (index < 7) return null;
+                                            const shift = shifts.find((s) => s.code === dayShifts[index]);
                                             return (
                                                 <button
                                                     key={index}
                                                     type="button"
                                                     onClick={() => toggleDay(index)}
                                                     className={`p-1 rounded text-xs font-medium transition-colors ${
-                                                        day === 1
-                                                            ? 'bg-blue-500 text-white'
-                                                            : 'bg-gray-200 text-gray-700'
+                                                        day !== 1
+                                                            ? 'bg-gray-200 text-gray-700'
+                                                            : shift
+                                                              ? getShiftTypeCellClasses(shift.shift_type)
+                                                              : 'bg-blue-500 text-white'
                                                     }`}
-                                                    title={`Day ${index + 1}`}
+                                                    title={shift ? `Day ${index + 1}: ${shift.name}` : `Day ${index + 1}`}
                                                 >
-                                                    {index + 1}
+                                                    {shift ? `${index + 1} ${shift.code}` : index + 1}
                                                 </button>
                                             );
                                         })}
@@ -337,6 +532,7 @@ export function RotationPatternBuilder({
                                 work_days: patternStats.workDays,
                                 rest_days: patternStats.restDays,
                                 cycle_length: patternStats.cycleLength,
+                                ...(isMultiShift && { shifts, day_shifts: dayShifts }),
                             },
                             null,
                             2
@@ -2,7 +2,8 @@ import React, { useState, useMemo } from 'react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
-import { RotationPattern } from '@/types/workforce-pages';
+import { RotationPattern, RotationShiftDefinition } from '@/types/workforce-pages';
+import { getRotationDayShift, getShiftTypeCellClasses } from '@/lib/workforce-utils';
 import { ChevronLeft, ChevronRight, Calendar } from 'lucide-react';
 
 interface RotationPatternPreviewProps {
@@ -22,6 +23,7 @@ interface CalendarDay {
     date: number;
     patternIndex: number;
     isWorkDay: boolean;
+    shift?: RotationShiftDefinition | null;
     isToday?: boolean;
     isCurrentMonth: boolean;
 }
@@ -94,6 +96,7 @@ export function RotationPatternPreview({
                 date: i,
                 patternIndex: dayIndex,
                 isWorkDay: getPatternDayStatus(dayIndex),
+                shift: getRotationDayShift(pattern, dayIndex),
                 isToday,
                 isCurrentMonth: true,
             });
@@ -133,6 +136,21 @@ export function RotationPatternPreview({
     const restDaysInView = calendarDays
         .filter((day) => day.isCurrentMonth && !day.isWorkDay).length;
 
+    const shifts = pattern.shifts ?? [];
+
+    const shiftDaysInView = shifts.map((shift) => ({
+        shift,
+        count: calendarDays.filter((day) => day.isCurrentMonth && day.shift?.code === shift.code).length,
+    }));
+
+    const cycleSequence = pattern.pattern
+        .map((day, index) => (day === 1 ? (pattern.day_shifts?.[index] ?? 'W') : 'O'))
+        .join('-');
+
+    const selectedDay = selectedDate
+        ? calendarDays.find((d) => d.isCurrentMonth && d.date === selectedDate.getDate())
+        : undefined;
+
     const coveragePercentage = calendarDays.filter((day) => day.isCurrentMonth).length > 0
         ? Math.round((workDaysInView / calendarDays.filter((day) => day.isCurrentMonth).length) * 100)
         : 0;
@@ -201,6 +219,17 @@ export function RotationPatternPreview({
                     </div>
                 </div>
 
+                {/* Shift Breakdown (multi-shift patterns) */}
+                {shiftDaysInView.length > 0 && (
+                    <div className="flex flex-wrap gap-2">
+                        {shiftDaysInView.map(({ shift, count }) => (
+                            <Badge key={shift.code} className={getShiftTypeCellClasses(shift.shift_type)}>
+                                {shift.code} · {shift.name}: {count}
+                            </Badge>
+                        ))}
+                    </div>
+                )}
+
                 {/* Calendar Grid */}
                 <div className="space-y-2">
                     {/* Day Headers */}
@@ -239,19 +268,28 @@ export function RotationPatternPreview({
                                     className={`aspect-square rounded text-xs font-medium transition-colors flex items-center justify-center relative ${
                                         !day.isCurrentMonth
                                             ? 'text-gray-300 bg-gray-50 cursor-default'
-                                            : day.isWorkDay
-                                                ? 'bg-blue-500 text-white hover:bg-blue-600'
-                                                : 'bg-gray-200 text-gray-700 hover:bg-gray-300'
+                                            : day.shift
+                                                ? `${getShiftTypeCellClasses(day.shift.shift_type)} flex-col hover:opacity-90`
+                                                : day.isWorkDay
+                                                    ? 'bg-blue-500 text-white hover:bg-blue-600'
+                                                    : 'bg-gray-200 text-gray-700 hover:bg-gray-300'
                                     } ${isSelected ? 'ring-2 ring-offset-2 ring-blue-400' : ''} ${
                                         day.isToday ? 'font-bold' : ''
                                     }`}
                                     title={
                                         day.isCurrentMonth
-                                            ? `${MONTHS[currentDate.getMonth()]} ${day.date}, ${currentDate.getFullYear()} - ${day.isWorkDay ? 'Work Day' : 'Rest Day'}`
+                                            ? `${MONTHS[currentDate.getMonth()]} ${day.date}, ${currentDate.getFullYear()} - ${
+                                                  day.shift
+                                                      ? `${day.shift.name} (${day.shift.shift_start}-${day.shift.shift_end})`
+                                                      : day.isWorkDay ? 'Work Day' : 'Rest Day'
+                                              }`
                                             : ''
                                     }
                                 >
                                     <span>{day.date}</span>
+                                    {day.shift && (
+                                        <span className="text-[10px] leading-none font-bold">{day.shift.code}</span>
+                                    )}
                                     {day.isToday && (
                                         <div className="absolute top-0.5 right-0.5 w-1.5 h-1.5 bg-yellow-300 rounded-full" />
                                     )}
@@ -270,11 +308,20 @@ export function RotationPatternPreview({
                 </div>
 
                 {/* Legend */}
-                <div className="flex gap-4 text-xs border-t pt-3">
-                    <div className="flex items-center gap-2">
-                        <div className="w-4 h-4 rounded bg-blue-500" />
-                        <span>Work Day</span>
-                    </div>
+                <div className="flex flex-wrap gap-4 text-xs border-t pt-3">
+                    {shifts.length > 0 ? (
+                        shifts.map((shift) => (
+                            <div key={shift.code} className="flex items-center gap-2">
+                                <div className={`w-4 h-4 rounded ${getShiftTypeCellClasses(shift.shift_type)}`} />
+                                <span>{shift.code} {shift.name} ({shift.shift_start}-{shift.shift_end})</span>
+                            </div>
+                        ))
+                    ) : (
+                        <div className="flex items-center gap-2">
+                            <div className="w-4 h-4 rounded bg-blue-500" />
+                            <span>Work Day</span>
+                        </div>
+                    )}
                     <div className="flex items-center gap-2">
                         <div className="w-4 h-4 rounded bg-gray-200" />
                         <span>Rest Day</span>
@@ -289,6 +336,7 @@ export function RotationPatternPreview({
                 <div className="p-3 bg-gray-50 rounded text-xs text-gray-700 space-y-1 border border-gray-200">
                     <p><strong>Pattern:</strong> {pattern.work_days}W/{pattern.rest_days}R</p>
                     <p><strong>Cycle:</strong> {pattern.cycle_length || pattern.pattern.length} days</p>
+                    {shifts.length > 0 && <p><strong>Sequence:</strong> {cycleSequence}</p>}
                     {pattern.description && <p><strong>Description:</strong> {pattern.description}</p>}
                 </div>
 
@@ -299,15 +347,9 @@ export function RotationPatternPreview({
                             Selected: {MONTHS[selectedDate.getMonth()]} {selectedDate.getDate()}, {selectedDate.getFullYear()}
                         </p>
                         <p className="text-blue-700">
-                            This is a {
-                                calendarDays.find(
-                                    (d) =>
-                                        d.isCurrentMonth &&
-                                        d.date === selectedDate.getDate()
-                                )?.isWorkDay
-                                    ? 'work day'
-                                    : 'rest day'
-                            }
+                            {selectedDay?.shift
+                                ? `This is a ${selectedDay.shift.name} shift (${selectedDay.shift.shift_start}-${selectedDay.shift.shift_end})`
+                                : `This is a ${selectedDay?.isWorkDay ? 'work day' : 'rest day'}`}
                         </p>
                     </div>
                 )}
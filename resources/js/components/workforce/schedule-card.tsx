@@ -2,7 +2,7 @@ import React from 'react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
-import { Edit, Trash2, Copy, Clock, Users, Calendar } from 'lucide-react';
+import { Edit, Trash2, Copy, Clock, Users, Calendar, History } from 'lucide-react';
 import { WorkSchedule } from '@/types/workforce-pages';
 
 interface ScheduleCardProps {
@@ -10,6 +10,7 @@ interface ScheduleCardProps {
     onEdit: (schedule: WorkSchedule) => void;
     onDelete: (id: number) => void;
     onDuplicate: (schedule: WorkSchedule) => void;
+    onVersions?: (schedule: WorkSchedule) => void;
 }
 
 export default function ScheduleCard({
@@ -17,6 +18,7 @@ export default function ScheduleCard({
     onEdit,
     onDelete,
     onDuplicate,
+    onVersions,
 }: ScheduleCardProps) {
     const getStatusColor = (status?: string): string => {
         switch (status) {
@@ -158,6 +160,17 @@ export default function ScheduleCard({
                         <Copy className="h-3 w-3" />
                         Duplicate
                     </Button>
+                    {onVersions && (
+                        <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => onVersions(schedule)}
+                            className="flex-1 gap-1 text-xs h-8"
+                        >
+                            <History className="h-3 w-3" />
+                            Versions
+                        </Button>
+                    )}
                     <Button
                         variant="ghost"
                         size="sm"
@@ -0,0 +1,96 @@
+import { format, parseISO } from 'date-fns';
+import { ArrowRight, Minus, Plus, RefreshCw } from 'lucide-react';
+import { PublishedShift, ScheduleVersionDiff as Diff } from '@/types/workforce-pages';
+
+interface ScheduleVersionDiffProps {
+    diff: Diff;
+    emptyMessage?: string;
+}
+
+const shiftLabel = (shift: PublishedShift) =>
+    `${format(parseISO(shift.date), 'EEE MMM d')}, ${shift.shift_start}–${shift.shift_end}`;
+
+const timesLabel = (times: { start: string; end: string } | null) => (times ? `${times.start}–${times.end}` : 'Rest day');
+
+/**
+ * Lists what changed between two versions of a schedule: hours per weekday,
+ * and who gained, lost or had shifts moved.
+ */
+export default function ScheduleVersionDiff({ diff, emptyMessage = 'No changes.' }: ScheduleVersionDiffProps) {
+    const isEmpty =
+        diff.hours.length === 0 && diff.gained.length === 0 && diff.lost.length === 0 && diff.changed.length === 0;
+
+    if (isEmpty) {
+        return <p className="text-sm text-gray-500">{emptyMessage}</p>;
+    }
+
+    return (
+        <div className="space-y-4 text-sm">
+            {diff.hours.length > 0 && (
+                <div>
+                    <h4 className="font-medium text-gray-900 mb-1">Hours</h4>
+                    <ul className="space-y-1">
+                        {diff.hours.map((change) => (
+                            <li key={change.day} className="flex items-center gap-2">
+                                <RefreshCw className="h-3.5 w-3.5 text-blue-600" />
+                                <span className="capitalize w-24">{change.day}</span>
+                                <span className="text-gray-500">{timesLabel(change.from)}</span>
+                                <ArrowRight className="h-3.5 w-3.5 text-gray-400" />
+                                <span className="font-medium">{timesLabel(change.to)}</span>
+                            </li>
+                        ))}
+                    </ul>
+                </div>
+            )}
+
+            {diff.gained.length > 0 && (
+                <div>
+                    <h4 className="font-medium text-green-700 mb-1">Gained shifts ({diff.gained.length})</h4>
+                    <ul className="space-y-1">
+                        {diff.gained.map((shift, index) => (
+                            <li key={index} className="flex items-center gap-2">
+                                <Plus className="h-3.5 w-3.5 text-green-600" />
+                                <span className="font-medium">{shift.employee_name}</span>
+                                <span className="text-gray-600">{shiftLabel(shift)}</span>
+                            </li>
+                        ))}
+                    </ul>
+                </div>
+            )}
+
+            {diff.lost.length > 0 && (
+                <div>
+                    <h4 className="font-medium text-red-700 mb-1">Lost shifts ({diff.lost.length})</h4>
+                    <ul className="space-y-1">
+                        {diff.lost.map((shift, index) => (
+                            <li key={index} className="flex items-center gap-2">
+                                <Minus className="h-3.5 w-3.5 text-red-600" />
+                                <span className="font-medium">{shift.employee_name}</span>
+                                <span className="text-gray-600 line-through">{shiftLabel(shift)}</span>
+                            </li>
+                        ))}
+                    </ul>
+                </div>
+            )}
+
+            {diff.changed.length > 0 && (
+                <div>
+                    <h4 className="font-medium text-amber-700 mb-1">Changed shifts ({diff.changed.length})</h4>
+                    <ul className="space-y-1">
+                        {diff.changed.map((change, index) => (
+                            <li key={index} className="flex items-center gap-2">
+                                <RefreshCw className="h-3.5 w-3.5 text-amber-600" />
+                                <span className="font-medium">{change.employee_name}</span>
+                                <span className="text-gray-500">{shiftLabel(change.from)}</span>
+                                <ArrowRight className="h-3.5 w-3.5 text-gray-400" />
+                                <span>
+                                    {change.to.shift_start}–{change.to.shift_end}
+                                </span>
+                            </li>
+                        ))}
+                    </ul>
+                </div>
+            )}
+        </div>
+    );
+}
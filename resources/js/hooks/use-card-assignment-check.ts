@@ -0,0 +1,45 @@
+import { useEffect, useState } from 'react';
+import { lookupCardAssignments, normalizeCardUid, type CardAssignment } from '@/lib/rfid-uid';
+
+const LOOKUP_DEBOUNCE_MS = 300;
+
+export interface CardAssignmentCheck {
+    /** Existing assignments of the card, in any format or byte order */
+    assignments: CardAssignment[];
+    checking: boolean;
+    error: string | null;
+}
+
+/**
+ * Look up whether a card UID is already assigned, as the UID is typed or scanned.
+ * Only well-formed UIDs are looked up.
+ */
+export function useCardAssignmentCheck(cardUid: string): CardAssignmentCheck {
+    const [check, setCheck] = useState<CardAssignmentCheck>({ assignments: [], checking: false, error: null });
+
+    useEffect(() => {
+        if (!normalizeCardUid(cardUid)) {
+            Promise.resolve().then(() => setCheck({ assignments: [], checking: false, error: null }));
+            return;
+        }
+
+        const controller = new AbortController();
+        Promise.resolve().then(() => setCheck((prev) => ({ ...prev, checking: true, error: null })));
+
+        const timer = setTimeout(() => {
+            lookupCardAssignments(cardUid, controller.signal)
+                .then((assignments) => setCheck({ assignments, checking: false, error: null }))
+                .catch((e: Error) => {
+                    if (e.name === 'AbortError') return;
+                    setCheck({ assignments: [], checking: false, error: e.message });
+                });
+        }, LOOKUP_DEBOUNCE_MS);
+
+        return () => {
+            clearTimeout(timer);
+            controller.abort();
+        };
+    }, [cardUid]);
+
+    return check;
+}
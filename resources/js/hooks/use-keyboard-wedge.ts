@@ -0,0 +1,150 @@
+import { useEffect, useRef } from 'react';
+
+/**
+ * Timing thresholds separating a keyboard-wedge reader from a person typing.
+ * Readers "type" the whole UID in well under 50ms per key; people rarely go below ~80ms.
+ */
+const MAX_KEY_INTERVAL_MS = 50;
+const MIN_UID_LENGTH = 6;
+const MAX_UID_LENGTH = 32;
+/** Readers configured without an Enter suffix are detected by the pause after the burst */
+const BURST_IDLE_MS = 120;
+
+export interface WedgeScan {
+    value: string;
+    /** Average milliseconds between keystrokes in the burst */
+    averageIntervalMs: number;
+}
+
+export interface UseKeyboardWedgeOptions {
+    enabled: boolean;
+    onScan: (scan: WedgeScan) => void;
+    /** Called when keystrokes arrive at human speed, so the UI can explain why they were ignored */
+    onHumanInput?: () => void;
+}
+
+/**
+ * Text field the swallowed keys are given back to when they turn out to be typing
+ */
+const textTarget = (element: Element | null): HTMLInputElement | HTMLTextAreaElement | null =>
+    (element instanceof HTMLInputElement || element instanceof HTMLTextAreaElement) && element.selectionStart !== null ? element : null;
+
+/**
+ * Capture card UIDs from a USB HID ("keyboard wedge") RFID reader.
+ *
+ * Listens on the window while enabled and only accepts rapid keystroke bursts,
+ * so typing in other fields is left alone. Keys of an accepted burst are
+ * swallowed so the UID does not also land in whichever input has focus. In a
+ * text field the first key of a sequence is held back as well, since it cannot
+ * be told apart yet, and is typed into the field after all if no burst follows.
+ */
+export function useKeyboardWedge({ enabled, onScan, onHumanInput }: UseKeyboardWedgeOptions): void {
+    const onScanRef = useRef(onScan);
+    const onHumanInputRef = useRef(onHumanInput);
+
+    useEffect(() => {
+        onScanRef.current = onScan;
+        onHumanInputRef.current = onHumanInput;
+    }, [onScan, onHumanInput]);
+
+    useEffect(() => {
+        if (!enabled) return;
+
+        let buffer = '';
+        let timestamps: number[] = [];
+        let idleTimer: ReturnType<typeof setTimeout> | null = null;
+        let held = '';
+        let heldTarget: HTMLInputElement | HTMLTextAreaElement | null = null;
+
+        const reset = () => {
+            buffer = '';
+            timestamps = [];
+            held = '';
+            heldTarget = null;
+            if (idleTimer) clearTimeout(idleTimer);
+            idleTimer = null;
+        };
+
+        // Type held-back keys into the field they were meant for; setRangeText + input keeps React state in sync
+        const release = () => {
+            if (held && heldTarget && document.activeElement === heldTarget) {
+                heldTarget.setRangeText(held, heldTarget.selectionStart ?? 0, heldTarget.selectionEnd ?? 0, 'end');
+                heldTarget.dispatchEvent(new Event('input', { bubbles: true }));
+            }
+            held = '';
+        };
+
+        const isBurst = () => {
+            if (buffer.length < MIN_UID_LENGTH || timestamps.length < 2) return false;
+            const intervals = timestamps.slice(1).map((time, i) => time - timestamps[i]);
+            return Math.max(...intervals) <= MAX_KEY_INTERVAL_MS * 2
+                && intervals.reduce((sum, interval) => sum + interval, 0) / intervals.length <= MAX_KEY_INTERVAL_MS;
+        };
+
+        const flush = () => {
+            if (isBurst()) {
+                const span = timestamps[timestamps.length - 1] - timestamps[0];
+                onScanRef.current({ value: buffer, averageIntervalMs: span / (timestamps.length - 1) });
+            } else {
+                release();
+                if (buffer.length >= MIN_UID_LENGTH) onHumanInputRef.current?.();
+            }
+            reset();
+        };
+
+        const handleKeyDown = (event: KeyboardEvent) => {
+            if (event.ctrlKey || event.altKey || event.metaKey) return;
+
+            const now = performance.now();
+
+            if (event.key === 'Enter') {
+                if (buffer.length > 0) {
+                    if (isBurst()) event.preventDefault();
+                    flush();
+                }
+                return;
+            }
+
+            if (event.key.length !== 1) return;
+
+            // A long pause means this key starts a new sequence
+            if (timestamps.length > 0 && now - timestamps[timestamps.length - 1] > BURST_IDLE_MS) {
+                flush();
+            }
+
+            buffer += event.key;
+            timestamps.push(now);
+
+            // Keys inside a fast burst belong to the reader, not the focused field; the first one may too
+            if (timestamps.length === 1) {
+                heldTarget = textTarget(document.activeElement);
+                if (heldTarget) {
+                    event.preventDefault();
+                    held += event.key;
+                }
+            } else if (now - timestamps[timestamps.length - 2] <= MAX_KEY_INTERVAL_MS) {
+                event.preventDefault();
+                if (heldTarget) held += event.key;
+            } else {
+                // A slow key lets the ones before it through, in order
+                release();
+            }
+
+            if (buffer.length > MAX_UID_LENGTH) {
+                release();
+                reset();
+                return;
+            }
+
+            if (idleTimer) clearTimeout(idleTimer);
+            idleTimer = setTimeout(flush, BURST_IDLE_MS);
+        };
+
+        window.addEventListener('keydown', handleKeyDown, true);
+
+        return () => {
+            window.removeEventListener('keydown', handleKeyDown, true);
+            reset();
+        };
+    }, [enabled]);
+}
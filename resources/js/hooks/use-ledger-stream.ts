@@ -0,0 +1,146 @@
+// hooks/use-ledger-stream.ts
+import { useCallback, useEffect, useRef, useState } from 'react';
+
+export type LedgerStreamStatus = 'idle' | 'connecting' | 'open' | 'reconnecting' | 'closed';
+
+interface LedgerStreamState<TEvent, THealth> {
+  events: TEvent[];
+  health: THealth | null;
+  status: LedgerStreamStatus;
+  lastSequenceId: number;
+  lastEventAt: Date | null;
+  reset: () => void;
+}
+
+interface UseLedgerStreamOptions {
+  url: string;
+  enabled: boolean;
+  initialSequenceId?: number;
+  maxEvents?: number;
+}
+
+const MAX_RECONNECT_DELAY_MS = 30000;
+
+/**
+ * useLedgerStream hook
+ * Subscribes to the RFID ledger server-sent events stream.
+ *
+ * - `ledger` events are appended newest-first and de-duplicated by sequence_id.
+ * - `health` events replace the current health snapshot.
+ * - The browser resends Last-Event-ID on its own reconnects; when the
+ *   EventSource gives up (closed), we reconnect with `after_sequence` and an
+ *   exponential backoff so events committed during the outage are backfilled.
+ */
+export function useLedgerStream<TEvent extends { sequence_id: number }, THealth = unknown>({
+  url,
+  enabled,
+  initialSequenceId = 0,
+  maxEvents = 500,
+}: UseLedgerStreamOptions): LedgerStreamState<TEvent, THealth> {
+  const [events, setEvents] = useState<TEvent[]>([]);
+  const [health, setHealth] = useState<THealth | null>(null);
+  const [status, setStatus] = useState<LedgerStreamStatus>('idle');
+  const [lastEventAt, setLastEventAt] = useState<Date | null>(null);
+
+  const lastSequenceRef = useRef(initialSequenceId);
+  const [lastSequenceId, setLastSequenceId] = useState(initialSequenceId);
+  const sourceRef = useRef<EventSource | null>(null);
+  const reconnectTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const reconnectAttemptsRef = useRef(0);
+
+  // Never move the cursor backwards when the page reloads with an older head
+  useEffect(() => {
+    if (initialSequenceId > lastSequenceRef.current) {
+      lastSequenceRef.current = initialSequenceId;
+    }
+  }, [initialSequenceId]);
+
+  const reset = useCallback(() => {
+    setEvents([]);
+  }, []);
+
+  useEffect(() => {
+    if (!enabled || !url) {
+      Promise.resolve().then(() => setStatus('idle'));
+      return;
+    }
+
+    let disposed = false;
+
+    // A new stream (e.g. different filters) starts with an empty buffer
+    Promise.resolve().then(() => setEvents([]));
+
+    const connect = () => {
+      if (disposed) return;
+
+      const separator = url.includes('?') ? '&' : '?';
+      const source = new EventSource(`${url}${separator}after_sequence=${lastSequenceRef.current}`);
+      sourceRef.current = source;
+      setStatus(reconnectAttemptsRef.current > 0 ? 'reconnecting' : 'connecting');
+
+      source.onopen = () => {
+        reconnectAttemptsRef.current = 0;
+        setStatus('open');
+      };
+
+      source.addEventListener('ledger', (message: MessageEvent) => {
+        let event: TEvent;
+        try {
+          event = JSON.parse(message.data) as TEvent;
+        } catch (e) {
+          console.warn('Ledger stream: malformed event', e);
+          return;
+        }
+
+        // Drop anything already seen (overlap after a reconnect)
+        if (event.sequence_id <= lastSequenceRef.current) return;
+        lastSequenceRef.current = event.sequence_id;
+
+        setLastSequenceId(event.sequence_id);
+        setLastEventAt(new Date());
+        setEvents(prev => [event, ...prev].slice(0, maxEvents));
+      });
+
+      source.addEventListener('health', (message: MessageEvent) => {
+        try {
+          setHealth(JSON.parse(message.data) as THealth);
+        } catch (e) {
+          console.warn('Ledger stream: malformed health snapshot', e);
+        }
+      });
+
+      source.onerror = () => {
+        if (disposed) return;
+
+        // CONNECTING: the browser is retrying by itself with Last-Event-ID
+        if (source.readyState === EventSource.CONNECTING) {
+          setStatus('reconnecting');
+          return;
+        }
+
+        // CLOSED: the browser gave up (e.g. HTTP error) — back off and resume by cursor
+        source.close();
+        setStatus('reconnecting');
+        const delay = Math.min(1000 * 2 ** reconnectAttemptsRef.current, MAX_RECONNECT_DELAY_MS);
+        reconnectAttemptsRef.current += 1;
+        reconnectTimerRef.current = setTimeout(connect, delay);
+      };
+    };
+
+    connect();
+
+    return () => {
+      disposed = true;
+      if (reconnectTimerRef.current) {
+        clearTimeout(reconnectTimerRef.current);
+        reconnectTimerRef.current = null;
+      }
+      sourceRef.current?.close();
+      sourceRef.current = null;
+      reconnectAttemptsRef.current = 0;
+      setStatus('closed');
+    };
+  }, [url, enabled, maxEvents]);
+
+  return { events, health, status, lastSequenceId, lastEventAt, reset };
+}
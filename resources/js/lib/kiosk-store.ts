@@ -0,0 +1,311 @@
+/**
+ * Kiosk Offline Store
+ * IndexedDB buffer for a browser kiosk, the tablet counterpart of rfid-server/local_store.py.
+ *
+ * Every tap is written here first, before any HTTP call, with a random idempotency key.
+ * The sync loop drains unsynced taps to POST /rfid/tap; the server ignores a key it has
+ * already stored, so a tap retried after a dropped response is never recorded twice.
+ * The card roster and employee photos are cached alongside so the kiosk can still
+ * say who tapped while the connection is down. Camera photos taken with taps wait in
+ * punch_photos until their tap has synced, then go to POST /rfid/punch-photos.
+ */
+
+import { cardUidReadings } from '@/lib/rfid-uid';
+
+const DB_NAME = 'kiosk';
+const DB_VERSION = 2;
+
+export interface QueuedTap {
+    id?: number;
+    card_uid: string;
+    tapped_at: string;          // Local wall-clock time, as the gate PCs send it
+    idempotency_key: string;
+    synced: 0 | 1;              // IndexedDB cannot index booleans
+    synced_at: string | null;
+    response: Record<string, unknown> | null;
+}
+
+export interface RosterCard {
+    card_uid: string;
+    employee_number: string;
+    employee_name: string;
+    photo_url: string | null;
+}
+
+interface StoredRosterCard extends RosterCard {
+    key: string;                // Normalized hex bytes, so any reader format or byte order matches
+}
+
+interface StoredPhoto {
+    employee_number: string;
+    url: string;
+    blob: Blob;
+}
+
+export interface PunchPhoto {
+    local_id: number;           // Id of the tap it was taken with
+    blob: Blob;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+    if (!dbPromise) {
+        dbPromise = new Promise((resolve, reject) => {
+            const request = indexedDB.open(DB_NAME, DB_VERSION);
+            request.onupgradeneeded = event => {
+                const db = request.result;
+                if (event.oldVersion < 1) {
+                    const taps = db.createObjectStore('taps', { keyPath: 'id', autoIncrement: true });
+                    taps.createIndex('synced', 'synced');
+                    taps.createIndex('card_uid', 'card_uid');
+                    db.createObjectStore('roster', { keyPath: 'key' });
+                    db.createObjectStore('photos', { keyPath: 'employee_number' });
+                    db.createObjectStore('meta');
+                }
+                if (event.oldVersion < 2) {
+                    db.createObjectStore('punch_photos', { keyPath: 'local_id' });
+                }
+            };
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => {
+                dbPromise = null;
+                reject(request.error);
+            };
+        });
+    }
+    return dbPromise;
+};
+
+const promisify = <T>(request: IDBRequest<T>): Promise<T> =>
+    new Promise((resolve, reject) => {
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+
+const transactionDone = (transaction: IDBTransaction): Promise<void> =>
+    new Promise((resolve, reject) => {
+        transaction.oncomplete = () => resolve();
+        transaction.onerror = () => reject(transaction.error);
+        transaction.onabort = () => reject(transaction.error);
+    });
+
+const rosterKey = (cardUid: string): string => cardUid.trim().toUpperCase();
+
+const newIdempotencyKey = (): string =>
+    typeof crypto.randomUUID === 'function'
+        ? crypto.randomUUID()
+        : Array.from(crypto.getRandomValues(new Uint8Array(16)), byte => byte.toString(16).padStart(2, '0')).join('');
+
+/**
+ * Insert a pending tap and return it with its local id. Must be fast; called on every scan.
+ */
+export async function enqueueTap(cardUid: string, tappedAt: string): Promise<QueuedTap> {
+    const db = await openDb();
+    const tap: QueuedTap = {
+        card_uid: cardUid,
+        tapped_at: tappedAt,
+        idempotency_key: newIdempotencyKey(),
+        synced: 0,
+        synced_at: null,
+        response: null,
+    };
+    const id = await promisify(db.transaction('taps', 'readwrite').objectStore('taps').add(tap));
+    return { ...tap, id: id as number };
+}
+
+/**
+ * Up to `limit` unsynced taps, oldest first.
+ */
+export async function getUnsynced(limit = 50): Promise<QueuedTap[]> {
+    const db = await openDb();
+    const rows = await promisify(
+        db.transaction('taps').objectStore('taps').index('synced').getAll(IDBKeyRange.only(0), limit)
+    ) as QueuedTap[];
+    return rows.sort((a, b) => (a.id ?? 0) - (b.id ?? 0));
+}
+
+export async function countUnsynced(): Promise<number> {
+    const db = await openDb();
+    return promisify(db.transaction('taps').objectStore('taps').index('synced').count(IDBKeyRange.only(0)));
+}
+
+/**
+ * Mark a tap as synced and keep the server's response (or the permanent error) with it.
+ */
+export async function markSynced(id: number, response: Record<string, unknown>): Promise<void> {
+    const db = await openDb();
+    const transaction = db.transaction('taps', 'readwrite');
+    const store = transaction.objectStore('taps');
+    const tap = await promisify(store.get(id)) as QueuedTap | undefined;
+    if (tap) {
+        store.put({ ...tap, synced: 1, synced_at: new Date().toISOString(), response });
+    }
+    await transactionDone(transaction);
+}
+
+/**
+ * A stored tap by local id, or null once it has been vacuumed.
+ */
+export async function getTap(id: number): Promise<QueuedTap | null> {
+    const db = await openDb();
+    return (await promisify(db.transaction('taps').objectStore('taps').get(id)) as QueuedTap | undefined) ?? null;
+}
+
+/**
+ * Highest local id still stored, unsynced count and oldest unsynced tap, reported with each
+ * heartbeat so the ledger gap report can tell taps queued here from lost ones.
+ */
+export async function localStoreStats(): Promise<{ last_local_id: number; pending: number; oldest_pending_at: string | null }> {
+    const db = await openDb();
+    const last = await promisify(db.transaction('taps').objectStore('taps').openCursor(null, 'prev'));
+    const [oldest] = await getUnsynced(1);
+    return {
+        last_local_id: (last?.key as number | undefined) ?? 0,
+        pending: await countUnsynced(),
+        oldest_pending_at: oldest?.tapped_at ?? null,
+    };
+}
+
+/**
+ * Every tap still stored, synced or not, oldest first; downloaded for ledger gap recovery.
+ */
+export async function exportTaps(): Promise<QueuedTap[]> {
+    const db = await openDb();
+    return promisify(db.transaction('taps').objectStore('taps').getAll()) as Promise<QueuedTap[]>;
+}
+
+/**
+ * Taps of one card on this kiosk since `since` (local time string), oldest first.
+ * Used to predict time in/out and to drop double taps while offline.
+ */
+export async function tapsForCardSince(cardUid: string, since: string): Promise<QueuedTap[]> {
+    const db = await openDb();
+    const rows = await promisify(
+        db.transaction('taps').objectStore('taps').index('card_uid').getAll(IDBKeyRange.only(cardUid))
+    ) as QueuedTap[];
+    return rows.filter(tap => tap.tapped_at >= since).sort((a, b) => (a.id ?? 0) - (b.id ?? 0));
+}
+
+/**
+ * Delete synced taps older than `days` days. Safe to call periodically.
+ */
+export async function vacuumOldSynced(days = 7): Promise<void> {
+    const db = await openDb();
+    const cutoff = new Date(Date.now() - days * 86_400_000).toISOString();
+    const transaction = db.transaction('taps', 'readwrite');
+    const request = transaction.objectStore('taps').index('synced').openCursor(IDBKeyRange.only(1));
+    request.onsuccess = () => {
+        const cursor = request.result;
+        if (!cursor) return;
+        const tap = cursor.value as QueuedTap;
+        if (tap.synced_at && tap.synced_at < cutoff) cursor.delete();
+        cursor.continue();
+    };
+    await transactionDone(transaction);
+}
+
+/**
+ * Replace the cached roster with a fresh download from the server.
+ */
+export async function replaceRoster(cards: RosterCard[], generatedAt: string): Promise<void> {
+    const db = await openDb();
+    const transaction = db.transaction(['roster', 'meta'], 'readwrite');
+    const roster = transaction.objectStore('roster');
+    roster.clear();
+    // One entry per reading, so an all-digit UID is found whether the reader sends it as decimal or hex
+    cards.forEach(card => {
+        const keys = cardUidReadings(card.card_uid);
+        (keys.length > 0 ? keys : [rosterKey(card.card_uid)]).forEach(key => roster.put({ ...card, key } satisfies StoredRosterCard));
+    });
+    transaction.objectStore('meta').put(generatedAt, 'roster_generated_at');
+    await transactionDone(transaction);
+}
+
+/**
+ * Look up a card in the cached roster, in whichever format or byte order the reader sent it.
+ */
+export async function findRosterCard(cardUid: string): Promise<RosterCard | null> {
+    const db = await openDb();
+    const store = db.transaction('roster').objectStore('roster');
+    const readings = cardUidReadings(cardUid);
+    const keys = readings.length > 0 ? readings : [rosterKey(cardUid)];
+
+    for (const key of keys) {
+        const card = await promisify(store.get(key)) as StoredRosterCard | undefined;
+        if (card) return card;
+    }
+    return null;
+}
+
+export async function rosterGeneratedAt(): Promise<string | null> {
+    const db = await openDb();
+    return (await promisify(db.transaction('meta').objectStore('meta').get('roster_generated_at')) as string | undefined) ?? null;
+}
+
+/**
+ * Cached photo for an employee as an object URL, or null when it has not been downloaded.
+ * The caller must revoke the URL when it stops showing it.
+ */
+export async function getPhotoUrl(employeeNumber: string): Promise<string | null> {
+    const db = await openDb();
+    const photo = await promisify(db.transaction('photos').objectStore('photos').get(employeeNumber)) as StoredPhoto | undefined;
+    return photo ? URL.createObjectURL(photo.blob) : null;
+}
+
+/**
+ * Drop every cached photo; the next roster refresh downloads them again.
+ */
+export async function clearPhotos(): Promise<void> {
+    const db = await openDb();
+    await promisify(db.transaction('photos', 'readwrite').objectStore('photos').clear());
+}
+
+/**
+ * Download photos that are missing or whose URL changed. Failures are skipped and retried next refresh.
+ */
+export async function cachePhotos(cards: RosterCard[]): Promise<void> {
+    const db = await openDb();
+    const cached = await promisify(db.transaction('photos').objectStore('photos').getAll()) as StoredPhoto[];
+    const cachedUrls = new Map(cached.map(photo => [photo.employee_number, photo.url]));
+
+    for (const card of cards) {
+        if (!card.photo_url || cachedUrls.get(card.employee_number) === card.photo_url) continue;
+        try {
+            const response = await fetch(card.photo_url, { credentials: 'omit' });
+            if (!response.ok) continue;
+            const blob = await response.blob();
+            await promisify(db.transaction('photos', 'readwrite').objectStore('photos').put({
+                employee_number: card.employee_number,
+                url: card.photo_url,
+                blob,
+            } satisfies StoredPhoto));
+        } catch {
+            // Offline or blocked; keep whatever is cached
+        }
+    }
+}
+
+/**
+ * Keep the camera photo taken with a tap until it can be uploaded.
+ */
+export async function savePunchPhoto(localId: number, blob: Blob): Promise<void> {
+    const db = await openDb();
+    await promisify(db.transaction('punch_photos', 'readwrite').objectStore('punch_photos').put({
+        local_id: localId,
+        blob,
+    } satisfies PunchPhoto));
+}
+
+/**
+ * Up to `limit` photos waiting for upload, oldest tap first.
+ */
+export async function getPunchPhotos(limit = 20): Promise<PunchPhoto[]> {
+    const db = await openDb();
+    return promisify(db.transaction('punch_photos').objectStore('punch_photos').getAll(null, limit)) as Promise<PunchPhoto[]>;
+}
+
+export async function deletePunchPhoto(localId: number): Promise<void> {
+    const db = await openDb();
+    await promisify(db.transaction('punch_photos', 'readwrite').objectStore('punch_photos').delete(localId));
+}
@@ -0,0 +1,443 @@
+/**
+ * Ledger Export Bundle Utilities
+ * Downloads tamper-evident ledger export bundles and re-verifies them in the browser:
+ * manifest digests per file, the hash chain between the boundary anchors, device
+ * signatures, CSV/JSON agreement, and (optionally) the anchors against the live ledger.
+ *
+ * Bundle layout is produced by app/Services/Timekeeping/LedgerExportService.php.
+ */
+
+import {
+    fetchLedgerVerificationRange,
+    summarizeResults,
+    verifyLedgerRange,
+    type DevicePublicKey,
+    type LedgerChainAnchor,
+    type LedgerVerificationEntry,
+    type RangeVerificationResult,
+} from '@/lib/ledger-verification';
+
+export const SUPPORTED_BUNDLE_VERSION = 1;
+
+export interface LedgerExportFilters {
+    date_from: string;
+    date_to: string;
+    device_id?: string;
+    employee_id?: number;
+    employee_number?: string;
+}
+
+export interface BundleManifestFile {
+    name: string;
+    sha256: string;
+    bytes: number;
+}
+
+export interface BundleManifest {
+    bundle: string;
+    format_version: number;
+    generated_at: string;
+    generated_by: { id: number; name: string } | null;
+    filters: Partial<LedgerExportFilters>;
+    /** False when filtered by employee: entry hashes are checked but not the links between them */
+    chain_complete: boolean;
+    hash_algorithm: string;
+    /** Card UIDs are exported in full, since the hashed raw_payload carries them */
+    card_uids?: string;
+    range: {
+        entry_count: number;
+        first_sequence_id: number;
+        last_sequence_id: number;
+        first_scan_at: string | null;
+        last_scan_at: string | null;
+        devices: string[];
+    };
+    files: BundleManifestFile[];
+}
+
+export interface BundleDeviceAnchors {
+    entry_count: number;
+    start: LedgerChainAnchor | null;
+    end: LedgerChainAnchor;
+    next: { sequence_id: number; hash_previous: string | null } | null;
+}
+
+export interface BundleAnchors {
+    devices: Record<string, BundleDeviceAnchors>;
+    device_keys: Record<string, DevicePublicKey>;
+}
+
+export interface BundleEntry extends LedgerVerificationEntry {
+    employee_number: string | null;
+    employee_name: string | null;
+}
+
+export type BundleFileStatus = 'ok' | 'mismatch' | 'missing' | 'unlisted';
+
+export interface BundleFileCheck {
+    name: string;
+    status: BundleFileStatus;
+    expectedSha256: string | null;
+    actualSha256: string | null;
+}
+
+export type BundleCheckStatus = 'pass' | 'fail' | 'skipped';
+
+export interface BundleCheck {
+    label: string;
+    status: BundleCheckStatus;
+    detail?: string;
+}
+
+export interface BundleVerificationResult {
+    manifest: BundleManifest | null;
+    /** Digest of manifest.json itself, to compare with the one recorded at export time */
+    manifestSha256: string | null;
+    files: BundleFileCheck[];
+    checks: BundleCheck[];
+    chain: RangeVerificationResult | null;
+    anchors: BundleAnchors | null;
+    valid: boolean;
+}
+
+export class LedgerBundleError extends Error {}
+
+const BUNDLE_FILES = ['events.json', 'events.csv', 'anchors.json'] as const;
+
+const textDecoder = new TextDecoder();
+
+/**
+ * SHA-256 hex digest of raw bytes (Web Crypto)
+ */
+async function sha256HexBytes(bytes: Uint8Array<ArrayBuffer>): Promise<string> {
+    const digest = await crypto.subtle.digest('SHA-256', bytes);
+    return Array.from(new Uint8Array(digest))
+        .map(byte => byte.toString(16).padStart(2, '0'))
+        .join('');
+}
+
+/**
+ * Download an export bundle and save it through the browser
+ */
+export async function downloadLedgerExport(filters: LedgerExportFilters): Promise<{ filename: string; manifestSha256: string | null }> {
+    const params: Record<string, string | number> = { date_from: filters.date_from, date_to: filters.date_to };
+    if (filters.device_id) params.device_id = filters.device_id;
+    if (filters.employee_id) params.employee_id = filters.employee_id;
+    if (filters.employee_number) params.employee_number = filters.employee_number;
+
+    const response = await fetch(route('hr.timekeeping.api.ledger.export', params), {
+        headers: { Accept: 'application/zip, application/json', 'X-Requested-With': 'XMLHttpRequest' },
+        credentials: 'same-origin',
+    });
+
+    if (!response.ok) {
+        const json = await response.json().catch(() => null);
+        throw new LedgerBundleError(json?.message ?? `Export failed (HTTP ${response.status})`);
+    }
+
+    const disposition = response.headers.get('Content-Disposition') ?? '';
+    const filename = /filename="?([^";]+)"?/.exec(disposition)?.[1] ?? `ledger-export-${filters.date_from}_${filters.date_to}.zip`;
+
+    const url = URL.createObjectURL(await response.blob());
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = filename;
+    a.click();
+    URL.revokeObjectURL(url);
+
+    return { filename, manifestSha256: response.headers.get('X-Bundle-Manifest-Sha256') };
+}
+
+/**
+ * Read the files of a ZIP archive (stored or deflated entries)
+ */
+async function readZip(buffer: ArrayBuffer): Promise<Map<string, Uint8Array<ArrayBuffer>>> {
+    const view = new DataView(buffer);
+    const bytes = new Uint8Array(buffer);
+
+    // End of central directory: scan back over a possible archive comment
+    let eocd = -1;
+    for (let i = buffer.byteLength - 22; i >= Math.max(0, buffer.byteLength - 22 - 0xffff); i--) {
+        if (view.getUint32(i, true) === 0x06054b50) {
+            eocd = i;
+            break;
+        }
+    }
+    if (eocd < 0) throw new LedgerBundleError('Not a ZIP archive');
+
+    const entryCount = view.getUint16(eocd + 10, true);
+    let offset = view.getUint32(eocd + 16, true);
+    const files = new Map<string, Uint8Array<ArrayBuffer>>();
+
+    for (let i = 0; i < entryCount; i++) {
+        if (view.getUint32(offset, true) !== 0x02014b50) throw new LedgerBundleError('Corrupt ZIP central directory');
+
+        const method = view.getUint16(offset + 10, true);
+        const compressedSize = view.getUint32(offset + 20, true);
+        const nameLength = view.getUint16(offset + 28, true);
+        const extraLength = view.getUint16(offset + 30, true);
+        const commentLength = view.getUint16(offset + 32, true);
+        const localOffset = view.getUint32(offset + 42, true);
+        const name = textDecoder.decode(bytes.subarray(offset + 46, offset + 46 + nameLength));
+        offset += 46 + nameLength + extraLength + commentLength;
+
+        if (name.endsWith('/')) continue;
+
+        const dataStart = localOffset + 30 + view.getUint16(localOffset + 26, true) + view.getUint16(localOffset + 28, true);
+        const data = bytes.slice(dataStart, dataStart + compressedSize);
+
+        if (method === 0) {
+            files.set(name, data);
+        } else if (method === 8) {
+            const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream('deflate-raw'));
+            files.set(name, new Uint8Array(await new Response(stream).arrayBuffer()));
+        } else {
+            throw new LedgerBundleError(`Unsupported ZIP compression for ${name}`);
+        }
+    }
+
+    return files;
+}
+
+/**
+ * Load a bundle from a ZIP or from its extracted files; entries are keyed by base file name
+ */
+export async function loadBundleFiles(selected: File[]): Promise<Map<string, Uint8Array<ArrayBuffer>>> {
+    const files = new Map<string, Uint8Array<ArrayBuffer>>();
+
+    for (const file of selected) {
+        const buffer = await file.arrayBuffer();
+        if (file.name.toLowerCase().endsWith('.zip')) {
+            for (const [name, data] of await readZip(buffer)) {
+                files.set(name.split('/').pop()!, data);
+            }
+        } else {
+            files.set(file.name, new Uint8Array(buffer));
+        }
+    }
+
+    return files;
+}
+
+/**
+ * Parse RFC 4180 CSV (as written by PHP fputcsv)
+ */
+function parseCsv(text: string): string[][] {
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let field = '';
+    let quoted = false;
+
+    for (let i = 0; i < text.length; i++) {
+        const char = text[i];
+        if (quoted) {
+            if (char === '"' && text[i + 1] === '"') {
+                field += '"';
+                i++;
+            } else if (char === '"') {
+                quoted = false;
+            } else {
+                field += char;
+            }
+        } else if (char === '"') {
+            quoted = true;
+        } else if (char === ',') {
+            row.push(field);
+            field = '';
+        } else if (char === '\n' || char === '\r') {
+            if (char === '\r' && text[i + 1] === '\n') i++;
+            row.push(field);
+            rows.push(row);
+            row = [];
+            field = '';
+        } else {
+            field += char;
+        }
+    }
+    if (field !== '' || row.length > 0) {
+        row.push(field);
+        rows.push(row);
+    }
+
+    return rows;
+}
+
+const parseJsonFile = <T>(files: Map<string, Uint8Array<ArrayBuffer>>, name: string): T | null => {
+    const data = files.get(name);
+    if (!data) return null;
+    try {
+        return JSON.parse(textDecoder.decode(data)) as T;
+    } catch {
+        return null;
+    }
+};
+
+/**
+ * Drop chain-link issues, for bundles that hold only some entries of each device chain
+ */
+function withoutLinkChecks(chain: RangeVerificationResult): RangeVerificationResult {
+    const results = chain.results.map(result => ({
+        ...result,
+        linkValid: true,
+        issues: result.issues.filter(issue => issue.code !== 'broken_link'),
+    }));
+
+    return { ...summarizeResults(results), linkFailures: 0 };
+}
+
+/**
+ * Verify an export bundle entirely in the browser
+ */
+export async function verifyLedgerBundle(files: Map<string, Uint8Array<ArrayBuffer>>): Promise<BundleVerificationResult> {
+    const checks: BundleCheck[] = [];
+    const manifestBytes = files.get('manifest.json');
+    const manifest = parseJsonFile<BundleManifest>(files, 'manifest.json');
+
+    if (!manifestBytes || !manifest || !Array.isArray(manifest.files)) {
+        return {
+            manifest: null,
+            manifestSha256: null,
+            files: [],
+            checks: [{ label: 'Manifest', status: 'fail', detail: 'manifest.json is missing or unreadable' }],
+            chain: null,
+            anchors: null,
+            valid: false,
+        };
+    }
+
+    const manifestSha256 = await sha256HexBytes(manifestBytes);
+    checks.push(manifest.format_version === SUPPORTED_BUNDLE_VERSION
+        ? { label: 'Bundle format', status: 'pass', detail: `version ${manifest.format_version}` }
+        : { label: 'Bundle format', status: 'fail', detail: `Unsupported version ${manifest.format_version}` });
+
+    // 1. Every file matches its manifest digest; nothing missing, nothing added
+    const fileChecks: BundleFileCheck[] = [];
+    for (const listed of manifest.files) {
+        const data = files.get(listed.name);
+        const actualSha256 = data ? await sha256HexBytes(data) : null;
+        fileChecks.push({
+            name: listed.name,
+            status: !data ? 'missing' : actualSha256 === listed.sha256 && data.byteLength === listed.bytes ? 'ok' : 'mismatch',
+            expectedSha256: listed.sha256,
+            actualSha256,
+        });
+    }
+    for (const name of files.keys()) {
+        if (name !== 'manifest.json' && !manifest.files.some(listed => listed.name === name)) {
+            fileChecks.push({ name, status: 'unlisted', expectedSha256: null, actualSha256: await sha256HexBytes(files.get(name)!) });
+        }
+    }
+    const missingRequired = BUNDLE_FILES.filter(name => !manifest.files.some(listed => listed.name === name));
+    checks.push(fileChecks.every(check => check.status === 'ok') && missingRequired.length === 0
+        ? { label: 'File digests', status: 'pass', detail: `${fileChecks.length} files match manifest.json` }
+        : { label: 'File digests', status: 'fail', detail: missingRequired.length > 0 ? `Manifest does not list ${missingRequired.join(', ')}` : 'One or more files differ from manifest.json' });
+
+    const events = parseJsonFile<{ entries: BundleEntry[] }>(files, 'events.json');
+    const anchors = parseJsonFile<BundleAnchors>(files, 'anchors.json');
+
+    if (!events || !Array.isArray(events.entries) || !anchors?.devices) {
+        checks.push({ label: 'Bundle contents', status: 'fail', detail: 'events.json or anchors.json is missing or unreadable' });
+        return { manifest, manifestSha256, files: fileChecks, checks, chain: null, anchors, valid: false };
+    }
+
+    const entries = [...events.entries].sort((a, b) => a.sequence_id - b.sequence_id);
+
+    // 2. Range matches the manifest
+    const rangeMatches = entries.length === manifest.range.entry_count
+        && entries[0]?.sequence_id === manifest.range.first_sequence_id
+        && entries[entries.length - 1]?.sequence_id === manifest.range.last_sequence_id;
+    checks.push(rangeMatches
+        ? { label: 'Range', status: 'pass', detail: `#${manifest.range.first_sequence_id} to #${manifest.range.last_sequence_id}, ${entries.length} entries` }
+        : { label: 'Range', status: 'fail', detail: 'Entries in events.json do not match the range in manifest.json' });
+
+    // 3. Hash chain from the start anchors, plus device signatures
+    const startAnchors: Record<string, LedgerChainAnchor | null> = {};
+    Object.entries(anchors.devices).forEach(([deviceId, device]) => {
+        startAnchors[deviceId] = device.start;
+    });
+    let chain = await verifyLedgerRange({ entries, anchors: startAnchors, device_keys: anchors.device_keys ?? {} });
+    if (!manifest.chain_complete) chain = withoutLinkChecks(chain);
+    checks.push(chain.status !== 'failed'
+        ? { label: 'Hash chain', status: 'pass', detail: manifest.chain_complete ? `${chain.totalChecked} entries recomputed and linked` : `${chain.totalChecked} entry hashes recomputed (links not checked: filtered by employee)` }
+        : { label: 'Hash chain', status: 'fail', detail: `${chain.mismatches.length} entries failed` });
+    if (chain.backfilled > 0) {
+        checks.push({ label: 'Backfilled entries', status: 'skipped', detail: `${chain.backfilled} entries were backfilled by HR from a device export and carry no device signature` });
+    }
+    if (chain.status === 'indeterminate') {
+        checks.push({ label: 'Device signatures', status: 'skipped', detail: `${chain.unverified} signatures could not be checked (no device key, or no Ed25519 in this browser)` });
+    }
+
+    // 4. Each device chain ends exactly on its end anchor
+    const endMismatches = Object.entries(anchors.devices).filter(([deviceId, device]) => {
+        const deviceEntries = entries.filter(entry => entry.device_id === deviceId);
+        const last = deviceEntries[deviceEntries.length - 1];
+        return deviceEntries.length !== device.entry_count
+            || last?.sequence_id !== device.end.sequence_id
+            || last?.hash_chain !== device.end.hash_chain;
+    });
+    const unanchoredDevices = [...new Set(entries.map(entry => entry.device_id))].filter(deviceId => !anchors.devices[deviceId]);
+    checks.push(endMismatches.length === 0 && unanchoredDevices.length === 0
+        ? { label: 'End anchors', status: 'pass', detail: `${Object.keys(anchors.devices).length} device chains end on their anchors` }
+        : { label: 'End anchors', status: 'fail', detail: `Mismatched: ${[...endMismatches.map(([deviceId]) => deviceId), ...unanchoredDevices].join(', ')}` });
+
+    // 5. The CSV says the same thing as the JSON
+    const csvRows = parseCsv(textDecoder.decode(files.get('events.csv') ?? new Uint8Array())).filter(row => row.length > 1);
+    const [header, ...rows] = csvRows;
+    const column = (name: string) => header?.indexOf(name) ?? -1;
+    const bySequence = new Map(entries.map(entry => [String(entry.sequence_id), entry]));
+    const csvMismatches = rows.filter(row => {
+        const entry = bySequence.get(row[column('sequence_id')]);
+        return !entry
+            || row[column('hash_chain')] !== entry.hash_chain
+            || row[column('hash_previous')] !== (entry.hash_previous ?? '')
+            || row[column('device_id')] !== entry.device_id
+            || row[column('event_type')] !== entry.event_type;
+    });
+    checks.push(rows.length === entries.length && csvMismatches.length === 0
+        ? { label: 'CSV matches JSON', status: 'pass', detail: `${rows.length} rows` }
+        : { label: 'CSV matches JSON', status: 'fail', detail: `${csvMismatches.length} differing rows, ${rows.length} rows vs ${entries.length} entries` });
+
+    return {
+        manifest,
+        manifestSha256,
+        files: fileChecks,
+        checks,
+        chain,
+        anchors,
+        valid: checks.every(check => check.status !== 'fail') && chain.status === 'verified',
+    };
+}
+
+/**
+ * Compare a bundle's boundary anchors with the live ledger.
+ * Confirms the bundle was cut from this ledger and that the ledger still
+ * continues from the bundle's end anchors.
+ */
+export async function crossCheckAnchorsWithLedger(anchors: BundleAnchors): Promise<BundleCheck> {
+    const mismatched: string[] = [];
+
+    for (const [deviceId, device] of Object.entries(anchors.devices)) {
+        const live = await fetchLedgerVerificationRange({
+            from_sequence: device.end.sequence_id,
+            to_sequence: device.end.sequence_id,
+            device_id: deviceId,
+        });
+        if (live.entries[0]?.hash_chain !== device.end.hash_chain) {
+            mismatched.push(deviceId);
+            continue;
+        }
+
+        if (device.start) {
+            const liveStart = await fetchLedgerVerificationRange({
+                from_sequence: device.start.sequence_id,
+                to_sequence: device.start.sequence_id,
+                device_id: deviceId,
+            });
+            if (liveStart.entries[0]?.hash_chain !== device.start.hash_chain) mismatched.push(deviceId);
+        }
+    }
+
+    return mismatched.length === 0
+        ? { label: 'Live ledger', status: 'pass', detail: 'Boundary anchors match the current ledger' }
+        : { label: 'Live ledger', status: 'fail', detail: `Anchors differ from the current ledger for ${mismatched.join(', ')}` };
+}
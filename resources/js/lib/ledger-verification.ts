@@ -0,0 +1,298 @@
+/**
+ * Ledger Verification Utilities
+ * Recomputes the RFID ledger hash chain and checks device signatures in the browser,
+ * so "verified" does not depend on a flag computed by the server.
+ *
+ * Hash chain (per device): hash_chain = SHA-256((hash_previous ?? '') + canonicalJson(raw_payload))
+ * Signature: Ed25519 over canonicalJson(raw_payload.signed_fields) with the device's registered key
+ * Backfilled entries (raw_payload.backfilled, appended by HR from a device export) carry no signature
+ */
+
+export interface LedgerVerificationEntry {
+    sequence_id: number;
+    device_id: string;
+    employee_rfid: string;
+    event_type: string;
+    scan_timestamp: string;
+    raw_payload: Record<string, unknown> | null;
+    hash_chain: string;
+    hash_previous: string | null;
+    device_signature: string | null;
+}
+
+export interface LedgerChainAnchor {
+    sequence_id: number;
+    hash_chain: string;
+}
+
+export interface DevicePublicKey {
+    public_key: string | null;
+    registered_at: string | null;
+}
+
+export interface LedgerVerificationRange {
+    entries: LedgerVerificationEntry[];
+    anchors: Record<string, LedgerChainAnchor | null>;
+    device_keys: Record<string, DevicePublicKey>;
+}
+
+export type SignatureStatus = 'valid' | 'invalid' | 'unsigned' | 'no_key' | 'unsupported' | 'backfilled';
+
+export type VerificationIssueCode =
+    | 'hash_mismatch'
+    | 'broken_link'
+    | 'missing_payload'
+    | 'signature_invalid'
+    | 'signature_missing'
+    | 'signed_fields_mismatch';
+
+export interface VerificationIssue {
+    code: VerificationIssueCode;
+    message: string;
+}
+
+export interface VerificationWarning {
+    code: 'backfilled';
+    message: string;
+}
+
+export interface EntryVerificationResult {
+    sequenceId: number;
+    deviceId: string;
+    computedHash: string | null;
+    hashValid: boolean;
+    linkValid: boolean;
+    signatureStatus: SignatureStatus;
+    issues: VerificationIssue[];
+    warnings: VerificationWarning[];
+}
+
+/**
+ * 'indeterminate' when nothing failed but some signatures could not be checked
+ */
+export type RangeVerificationStatus = 'verified' | 'failed' | 'indeterminate';
+
+export interface RangeVerificationResult {
+    results: EntryVerificationResult[];
+    mismatches: EntryVerificationResult[];
+    /** Entries that verified but deserve a second look */
+    warnings: EntryVerificationResult[];
+    totalChecked: number;
+    hashFailures: number;
+    linkFailures: number;
+    signatureFailures: number;
+    unsigned: number;
+    backfilled: number;
+    unverified: number;
+    status: RangeVerificationStatus;
+    valid: boolean;
+}
+
+/**
+ * Canonical JSON: keys sorted recursively, no whitespace.
+ * Matches PHP ksort + json_encode(UNESCAPED_UNICODE|UNESCAPED_SLASHES) and
+ * Python json.dumps(sort_keys=True, separators=(',', ':'), ensure_ascii=False).
+ */
+export function canonicalJson(value: unknown): string {
+    if (value === null || typeof value !== 'object') {
+        return JSON.stringify(value);
+    }
+    if (Array.isArray(value)) {
+        return `[${value.map(canonicalJson).join(',')}]`;
+    }
+    const record = value as Record<string, unknown>;
+    const keys = Object.keys(record).sort();
+    return `{${keys.map(key => `${JSON.stringify(key)}:${canonicalJson(record[key])}`).join(',')}}`;
+}
+
+/**
+ * SHA-256 hex digest of a UTF-8 string (Web Crypto)
+ */
+export async function sha256Hex(input: string): Promise<string> {
+    const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(input));
+    return Array.from(new Uint8Array(digest))
+        .map(byte => byte.toString(16).padStart(2, '0'))
+        .join('');
+}
+
+const base64ToBytes = (value: string): Uint8Array<ArrayBuffer> => {
+    const binary = atob(value.replace(/^ed25519:/, ''));
+    const bytes = new Uint8Array(binary.length);
+    for (let i = 0; i < binary.length; i++) {
+        bytes[i] = binary.charCodeAt(i);
+    }
+    return bytes;
+};
+
+const publicKeyCache = new Map<string, Promise<CryptoKey | null>>();
+
+/**
+ * Import a base64 raw Ed25519 public key; resolves null if the browser lacks Ed25519 support
+ */
+function importPublicKey(publicKey: string): Promise<CryptoKey | null> {
+    if (!publicKeyCache.has(publicKey)) {
+        publicKeyCache.set(
+            publicKey,
+            crypto.subtle
+                .importKey('raw', base64ToBytes(publicKey), { name: 'Ed25519' }, false, ['verify'])
+                .catch(() => null),
+        );
+    }
+    return publicKeyCache.get(publicKey)!;
+}
+
+/**
+ * Verify a device signature over the signed tap fields stored in the payload
+ */
+async function verifySignature(
+    entry: LedgerVerificationEntry,
+    deviceKey: DevicePublicKey | undefined,
+    issues: VerificationIssue[],
+    warnings: VerificationWarning[],
+): Promise<SignatureStatus> {
+    if (!entry.device_signature && entry.raw_payload?.backfilled === true) {
+        warnings.push({ code: 'backfilled', message: 'Backfilled by HR from a device export; no device signature' });
+        return 'backfilled';
+    }
+    if (!entry.device_signature) {
+        // The server refuses unsigned taps once a key is registered, so one here was not written by the tap API
+        if (deviceKey?.public_key && deviceKey.registered_at && new Date(entry.scan_timestamp) >= new Date(deviceKey.registered_at)) {
+            issues.push({ code: 'signature_missing', message: `Unsigned entry recorded after ${entry.device_id} registered its key` });
+        }
+        return 'unsigned';
+    }
+    if (!deviceKey?.public_key) return 'no_key';
+
+    const signedFields = entry.raw_payload?.signed_fields as Record<string, unknown> | undefined;
+    if (!signedFields) {
+        issues.push({ code: 'signature_invalid', message: 'Signature present but payload has no signed fields' });
+        return 'invalid';
+    }
+
+    // The signed fields must describe this very entry
+    if (signedFields.card_uid !== entry.raw_payload?.card_uid || signedFields.device_id !== entry.device_id) {
+        issues.push({ code: 'signed_fields_mismatch', message: 'Signed card/device does not match the ledger entry' });
+    }
+
+    const key = await importPublicKey(deviceKey.public_key);
+    if (!key) return 'unsupported';
+
+    let valid = false;
+    try {
+        valid = await crypto.subtle.verify(
+            { name: 'Ed25519' },
+            key,
+            base64ToBytes(entry.device_signature),
+            new TextEncoder().encode(canonicalJson(signedFields)),
+        );
+    } catch {
+        valid = false;
+    }
+
+    if (!valid) {
+        issues.push({ code: 'signature_invalid', message: `Ed25519 signature does not verify against ${entry.device_id}'s registered key` });
+        return 'invalid';
+    }
+    return 'valid';
+}
+
+/**
+ * Verify a contiguous ledger range.
+ *
+ * Each device has its own chain: every entry must hash correctly and link to the
+ * previous entry of the same device (or to the anchor just before the range).
+ */
+export async function verifyLedgerRange(range: LedgerVerificationRange): Promise<RangeVerificationResult> {
+    const entries = [...range.entries].sort((a, b) => a.sequence_id - b.sequence_id);
+    const lastHashByDevice = new Map<string, string | null>();
+    const results: EntryVerificationResult[] = [];
+
+    for (const entry of entries) {
+        const issues: VerificationIssue[] = [];
+        const warnings: VerificationWarning[] = [];
+
+        // Link check: previous hash of this device inside the range, else the anchor
+        const expectedPrevious = lastHashByDevice.has(entry.device_id)
+            ? lastHashByDevice.get(entry.device_id)!
+            : (range.anchors[entry.device_id]?.hash_chain ?? null);
+        const linkValid = (entry.hash_previous ?? null) === expectedPrevious;
+        if (!linkValid) {
+            issues.push({
+                code: 'broken_link',
+                message: `hash_previous does not match the preceding ${entry.device_id} entry`,
+            });
+        }
+
+        // Hash check: recompute from the stored payload
+        let computedHash: string | null = null;
+        if (entry.raw_payload) {
+            computedHash = await sha256Hex((entry.hash_previous ?? '') + canonicalJson(entry.raw_payload));
+        } else {
+            issues.push({ code: 'missing_payload', message: 'Raw payload missing; hash cannot be recomputed' });
+        }
+        const hashValid = computedHash !== null && computedHash === entry.hash_chain;
+        if (computedHash !== null && !hashValid) {
+            issues.push({ code: 'hash_mismatch', message: `Computed ${computedHash.substring(0, 16)}… but ledger has ${entry.hash_chain.substring(0, 16)}…` });
+        }
+
+        const signatureStatus = await verifySignature(entry, range.device_keys[entry.device_id], issues, warnings);
+
+        // Continue the chain from the stored hash so one bad entry is reported once
+        lastHashByDevice.set(entry.device_id, entry.hash_chain);
+
+        results.push({
+            sequenceId: entry.sequence_id,
+            deviceId: entry.device_id,
+            computedHash,
+            hashValid,
+            linkValid,
+            signatureStatus,
+            issues,
+            warnings,
+        });
+    }
+
+    return summarizeResults(results);
+}
+
+/**
+ * Count failures over entry results; signatures that could not be checked keep the range from reading as verified
+ */
+export function summarizeResults(results: EntryVerificationResult[]): RangeVerificationResult {
+    const mismatches = results.filter(result => result.issues.length > 0);
+    const unverified = results.filter(result => result.signatureStatus === 'unsupported' || result.signatureStatus === 'no_key').length;
+    const status: RangeVerificationStatus = mismatches.length > 0 ? 'failed' : unverified > 0 ? 'indeterminate' : 'verified';
+
+    return {
+        results,
+        mismatches,
+        warnings: results.filter(result => result.issues.length === 0 && result.warnings.length > 0),
+        totalChecked: results.length,
+        hashFailures: results.filter(result => !result.hashValid).length,
+        linkFailures: results.filter(result => !result.linkValid).length,
+        signatureFailures: results.filter(result => result.signatureStatus === 'invalid').length,
+        unsigned: results.filter(result => result.signatureStatus === 'unsigned').length,
+        backfilled: results.filter(result => result.signatureStatus === 'backfilled').length,
+        unverified,
+        status,
+        valid: status === 'verified',
+    };
+}
+
+/**
+ * Fetch a ledger range for verification from the server
+ */
+export async function fetchLedgerVerificationRange(params: Record<string, string | number>): Promise<LedgerVerificationRange & { truncated: boolean }> {
+    const query = new URLSearchParams(Object.entries(params).map(([key, value]) => [key, String(value)]));
+    const response = await fetch(`${route('hr.timekeeping.api.ledger.verification')}?${query.toString()}`, {
+        headers: { Accept: 'application/json', 'X-Requested-With': 'XMLHttpRequest' },
+        credentials: 'same-origin',
+    });
+
+    if (!response.ok) {
+        throw new Error(`Failed to load ledger range (HTTP ${response.status})`);
+    }
+
+    const json = await response.json();
+    return { ...json.data, truncated: Boolean(json.meta?.truncated) };
+}
@@ -0,0 +1,139 @@
+/**
+ * RFID Card UID Utilities
+ * Normalizes UIDs from keyboard-wedge readers, which may report the same card as
+ * hex bytes (04:3A:B2:C5), plain hex (043AB2C5) or decimal (3317740292), in either byte order.
+ *
+ * Mirrors app/Services/Timekeeping/CardUidNormalizer.php, which is authoritative for duplicate checks.
+ */
+
+export type CardUidFormat = 'hex_separated' | 'hex' | 'decimal';
+
+export interface NormalizedCardUid {
+    /** Input as read, uppercased without whitespace (what the gate readers will send) */
+    raw: string;
+    format: CardUidFormat;
+    /** Bytes in the order the reader reported them, e.g. 04:3A:B2:C5 */
+    hex: string;
+    /** Bytes in reverse order, for readers configured little-endian */
+    hexReversed: string;
+    decimal: string;
+    decimalReversed: string;
+}
+
+const MIN_UID_BYTES = 4;
+/** Longest all-digit UID read as decimal; longer ones can only be hex (CardUidNormalizer::MAX_DECIMAL_DIGITS) */
+const MAX_DECIMAL_DIGITS = 18;
+
+const toBytes = (hex: string): string[] => (hex.length % 2 === 0 ? hex : `0${hex}`).match(/.{2}/g) ?? [];
+
+const bytesToDecimal = (bytes: string[]): string => BigInt(`0x${bytes.join('') || '0'}`).toString();
+
+const decimalToBytes = (decimal: string): string[] => {
+    const bytes = toBytes(BigInt(decimal).toString(16).toUpperCase());
+    while (bytes.length < MIN_UID_BYTES) bytes.unshift('00');
+    return bytes;
+};
+
+/**
+ * Detect the UID format and normalize it. Returns null if the input is not a card UID.
+ *
+ * Pure digits are read as decimal, which is what "plug-and-play" wedge readers emit,
+ * unless they are too long to be one. cardUidReadings() also has their hex reading.
+ */
+export function normalizeCardUid(input: string): NormalizedCardUid | null {
+    const raw = input.replace(/\s+/g, '').toUpperCase();
+    let format: CardUidFormat;
+    let bytes: string[];
+
+    if (/^[0-9A-F]{2}([:-][0-9A-F]{2}){3,9}$/.test(raw)) {
+        format = 'hex_separated';
+        bytes = raw.split(/[:-]/);
+    } else if (/^\d{6,}$/.test(raw) && raw.length <= MAX_DECIMAL_DIGITS) {
+        format = 'decimal';
+        bytes = decimalToBytes(raw);
+    } else if (/^[0-9A-F]{8,20}$/.test(raw)) {
+        format = 'hex';
+        bytes = toBytes(raw);
+    } else {
+        return null;
+    }
+
+    const reversed = [...bytes].reverse();
+
+    return {
+        raw,
+        format,
+        hex: bytes.join(':'),
+        hexReversed: reversed.join(':'),
+        decimal: bytesToDecimal(bytes),
+        decimalReversed: bytesToDecimal(reversed),
+    };
+}
+
+/**
+ * Every byte reading of a UID as hex bytes (04:3A:B2:C5), in both byte orders.
+ *
+ * Same rule as CardUidNormalizer::interpretations(): pure digits are read both as
+ * decimal (up to 18 digits) and as hex, since a reader may emit either.
+ */
+export function cardUidReadings(input: string): string[] {
+    const raw = input.replace(/\s+/g, '').toUpperCase();
+    const readings: string[][] = [];
+
+    if (/^[0-9A-F]{2}([:-][0-9A-F]{2})+$/.test(raw)) {
+        readings.push(raw.split(/[:-]/));
+    } else if (/^\d+$/.test(raw)) {
+        if (raw.length <= MAX_DECIMAL_DIGITS) readings.push(decimalToBytes(raw));
+        readings.push(toBytes(raw));
+    } else if (/^[0-9A-F]+$/.test(raw)) {
+        readings.push(toBytes(raw));
+    }
+
+    return [...new Set(readings.flatMap(bytes => [bytes.join(':'), [...bytes].reverse().join(':')]))];
+}
+
+/**
+ * Whether two UIDs refer to the same card, in any supported format or byte order
+ */
+export function isSameCard(a: string, b: string): boolean {
+    const first = cardUidReadings(a);
+    const second = new Set(cardUidReadings(b));
+    if (first.length === 0 || second.size === 0) return a.trim().toUpperCase() === b.trim().toUpperCase();
+
+    return first.some(reading => second.has(reading));
+}
+
+export const CARD_UID_FORMAT_LABELS: Record<CardUidFormat, string> = {
+    hex_separated: 'Hex bytes',
+    hex: 'Hex',
+    decimal: 'Decimal',
+};
+
+export interface CardAssignment {
+    id: number;
+    card_uid: string;
+    is_active: boolean;
+    employee_id: number | null;
+    employee_number: string | null;
+    employee_name: string | null;
+    department: string | null;
+    issued_at: string | null;
+}
+
+/**
+ * Find existing assignments of a card (server-side, across all formats and byte orders)
+ */
+export async function lookupCardAssignments(cardUid: string, signal?: AbortSignal): Promise<CardAssignment[]> {
+    const response = await fetch(route('hr.timekeeping.badges.lookup', { card_uid: cardUid }), {
+        headers: { Accept: 'application/json', 'X-Requested-With': 'XMLHttpRequest' },
+        credentials: 'same-origin',
+        signal,
+    });
+
+    if (!response.ok) {
+        throw new Error(`Card lookup failed (HTTP ${response.status})`);
+    }
+
+    const json = await response.json();
+    return Array.isArray(json.data) ? json.data : [];
+}
@@ -3,6 +3,15 @@
  * Shared functions for shift assignments, schedules, and rotations
  */
 
+import type {
+    EmployeeScheduleConflicts,
+    RotationPattern,
+    RotationShiftDefinition,
+    ScheduleConflict,
+    ShiftSwapShift,
+    ShiftSwapStatus,
+} from '@/types/workforce-pages';
+
 /**
  * Format time from HH:MM:SS format to 12-hour display format
  * @param time - Time string in HH:MM:SS format
@@ -197,6 +206,42 @@ export function getShiftTypeColorClasses(shiftType: string): {
     };
 }
 
+/**
+ * Get filled CSS classes for shift type, for cells of a rotation pattern
+ * @param shiftType - Shift type
+ * @returns CSS class string with background and text color
+ */
+export function getShiftTypeCellClasses(shiftType: string): string {
+    const colors: Record<string, string> = {
+        morning: 'bg-yellow-400 text-yellow-950',
+        afternoon: 'bg-orange-500 text-white',
+        night: 'bg-indigo-700 text-white',
+        graveyard: 'bg-slate-700 text-white',
+    };
+
+    return colors[shiftType] || 'bg-blue-500 text-white';
+}
+
+/**
+ * Get the shift worked on a day of a multi-shift rotation pattern
+ * @param pattern - Rotation pattern
+ * @param dayIndex - Day offset from the rotation start (wraps around the cycle)
+ * @returns Shift definition, or null on rest days and for plain work/rest patterns
+ */
+export function getRotationDayShift(pattern: RotationPattern, dayIndex: number): RotationShiftDefinition | null {
+    if (!pattern.shifts?.length || !pattern.day_shifts?.length || !pattern.pattern.length) {
+        return null;
+    }
+
+    const position = dayIndex % pattern.pattern.length;
+    if (pattern.pattern[position] !== 1) {
+        return null;
+    }
+
+    const code = pattern.day_shifts[position];
+    return pattern.shifts.find((shift) => shift.code === code) ?? null;
+}
+
 /**
  * Get CSS color classes for assignment status
  * @param status - Assignment status
@@ -214,40 +259,135 @@ export function getStatusColorClasses(status: string): string {
 }
 
 /**
- * Simulate conflict detection (in real app, this would call backend API)
+ * Get label and badge classes for a shift swap request status
+ * @param status - Swap request status
+ * @returns Label and CSS class string for badge
+ */
+export function getSwapStatusBadge(status: ShiftSwapStatus): { label: string; className: string } {
+    const badges: Record<ShiftSwapStatus, { label: string; className: string }> = {
+        open: { label: 'Open', className: 'bg-blue-100 text-blue-800' },
+        pending_coworker: { label: 'Awaiting Coworker', className: 'bg-yellow-100 text-yellow-800' },
+        pending_approval: { label: 'Awaiting Approval', className: 'bg-purple-100 text-purple-800' },
+        approved: { label: 'Approved', className: 'bg-green-100 text-green-800' },
+        rejected: { label: 'Rejected', className: 'bg-red-100 text-red-800' },
+        declined: { label: 'Declined', className: 'bg-orange-100 text-orange-800' },
+        cancelled: { label: 'Cancelled', className: 'bg-gray-100 text-gray-800' },
+    };
+
+    return badges[status];
+}
+
+/**
+ * Format a shift in a swap request for display
+ * @param shift - Swap request shift
+ * @returns Formatted shift (e.g., "Nov 13, 06:00 AM – 02:00 PM")
+ */
+export function formatSwapShift(shift: ShiftSwapShift | null): string {
+    if (!shift) return '—';
+
+    const day = new Date(`${shift.date}T00:00:00`).toLocaleDateString('en-US', {
+        weekday: 'short',
+        month: 'short',
+        day: 'numeric',
+    });
+
+    return `${day}, ${formatTime(shift.shift_start)} – ${formatTime(shift.shift_end)}`;
+}
+
+/**
+ * POST JSON to a conflict check endpoint with the page's CSRF token
+ * @param url - Endpoint URL
+ * @param body - Request body
+ * @returns Parsed JSON response
+ */
+async function postConflictCheck<T>(url: string, body: Record<string, unknown>): Promise<T> {
+    const csrfToken = document.querySelector('meta[name="csrf-token"]')?.getAttribute('content') || '';
+
+    const response = await fetch(url, {
+        method: 'POST',
+        headers: {
+            'Content-Type': 'application/json',
+            'Accept': 'application/json',
+            'X-CSRF-TOKEN': csrfToken,
+        },
+        credentials: 'same-origin',
+        body: JSON.stringify(body),
+    });
+
+    if (!response.ok) {
+        throw new Error(`HTTP ${response.status}: Unable to check conflicts`);
+    }
+
+    return response.json();
+}
+
+/**
+ * Check a shift for conflicts: overlapping shifts, approved leave, minimum rest
+ * between shifts and rotation rest days
  * @param employeeId - Employee ID
  * @param date - Date in YYYY-MM-DD format
  * @param shiftStart - Start time in HH:MM:SS format
  * @param shiftEnd - End time in HH:MM:SS format
+ * @param excludeAssignmentId - Assignment being edited, ignored in the check
  * @returns Promise with conflict detection result
  */
 export async function detectConflicts(
     employeeId: number,
     date: string,
     shiftStart: string,
-    shiftEnd: string
+    shiftEnd: string,
+    excludeAssignmentId?: number
 ): Promise<{
     hasConflict: boolean;
     conflictMessage?: string;
+    conflicts: ScheduleConflict[];
 }> {
-    // Simulate API call delay
-    return new Promise((resolve) => {
-        setTimeout(() => {
-            // Simulate 10% conflict rate for demo
-            const hasConflict = Math.random() < 0.1;
-
-            if (hasConflict) {
-                resolve({
-                    hasConflict: true,
-                    conflictMessage: `Employee already has a shift assigned on ${formatDate(date)} (${formatTime(shiftStart)} - ${formatTime(shiftEnd)})`,
-                });
-            } else {
-                resolve({
-                    hasConflict: false,
-                });
-            }
-        }, 300);
-    });
+    const data = await postConflictCheck<{ has_conflicts: boolean; conflicts: ScheduleConflict[] }>(
+        '/hr/workforce/assignments/check-conflicts',
+        {
+            employee_id: employeeId,
+            date,
+            shift_start: shiftStart,
+            shift_end: shiftEnd,
+            exclude_assignment_id: excludeAssignmentId ?? null,
+        }
+    );
+
+    return {
+        hasConflict: data.has_conflicts,
+        conflictMessage: data.conflicts.map((conflict) => conflict.message).join('; ') || undefined,
+        conflicts: data.conflicts,
+    };
+}
+
+/**
+ * Check the same shift for several employees on every day of a date range
+ * @param employeeIds - Employee IDs
+ * @param dateFrom - First date in YYYY-MM-DD format
+ * @param dateTo - Last date in YYYY-MM-DD format
+ * @param shiftStart - Start time in HH:MM or HH:MM:SS format
+ * @param shiftEnd - End time in HH:MM or HH:MM:SS format
+ * @returns Promise with the conflicts of each employee that has any, per date
+ */
+export async function detectBulkConflicts(
+    employeeIds: number[],
+    dateFrom: string,
+    dateTo: string,
+    shiftStart: string,
+    shiftEnd: string
+): Promise<EmployeeScheduleConflicts[]> {
+    const data = await postConflictCheck<{ conflicts: EmployeeScheduleConflicts[] }>(
+        '/hr/workforce/assignments/check-bulk-conflicts',
+        {
+            employee_ids: employeeIds,
+            date_from: dateFrom,
+            date_to: dateTo,
+            shift_start: shiftStart,
+            shift_end: shiftEnd,
+        }
+    );
+
+    return Array.isArray(data.conflicts) ? data.conflicts : [];
 }
 
 /**
@@ -23,6 +23,9 @@ interface OvertimeRules {
     max_hours_per_week: number;
     auto_approve_threshold: number;
     requires_approval: boolean;
+    night_differential_start: string;
+    night_differential_end: string;
+    night_differential_rate: number;
 }
 
 interface AttendanceRules {
@@ -33,6 +36,8 @@ interface AttendanceRules {
     undertime_deduction_type: 'proportional' | 'fixed' | 'none';
     absence_with_leave_deduction: number;
     absence_without_leave_deduction: number;
+    shift_early_in_tolerance_minutes: number;
+    shift_late_out_tolerance_minutes: number;
 }
 
 interface HolidayMultipliers {
@@ -6,6 +6,7 @@ import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { AttendanceCalendar } from '@/components/employee/attendance-calendar';
 import { ReportAttendanceIssueModal } from '@/components/employee/report-attendance-issue-modal';
+import { MobileClockInCard, type MobileClockInState } from '@/components/employee/mobile-clock-in-card';
 import { 
     Clock,
     Calendar,
@@ -62,6 +63,7 @@ interface AttendanceIndexProps {
     attendanceRecords: AttendanceRecord[];
     attendanceSummary: AttendanceSummary;
     rfidPunchHistory: RFIDPunch[];
+    mobileClockIn?: MobileClockInState | null;
     filters: {
         view: string;
         start_date: string;
@@ -127,6 +129,7 @@ export default function AttendanceIndex({
     attendanceRecords, 
     attendanceSummary,
     rfidPunchHistory,
+    mobileClockIn,
     filters,
     error 
 }: AttendanceIndexProps) {
@@ -223,6 +226,9 @@ export default function AttendanceIndex({
                     </CardContent>
                 </Card>
 
+                {/* Portal Clock-In Card */}
+                {mobileClockIn && <MobileClockInCard state={mobileClockIn} />}
+
                 {/* Today's Attendance Card */}
                 {todayAttendance && (
                     <Card>
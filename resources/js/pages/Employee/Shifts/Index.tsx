@@ -0,0 +1,522 @@
+import AppLayout from '@/layouts/app-layout';
+import { type BreadcrumbItem } from '@/types';
+import { Head, router, usePage } from '@inertiajs/react';
+import { Card, CardHeader, CardTitle, CardContent } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import {
+    Dialog,
+    DialogContent,
+    DialogDescription,
+    DialogFooter,
+    DialogHeader,
+    DialogTitle,
+} from '@/components/ui/dialog';
+import {
+    Select,
+    SelectContent,
+    SelectItem,
+    SelectTrigger,
+    SelectValue,
+} from '@/components/ui/select';
+import {
+    AlertTriangle,
+    ArrowLeftRight,
+    CalendarClock,
+    CheckCircle2,
+    Clock,
+    Gift,
+    Hand,
+    XCircle,
+} from 'lucide-react';
+import { format, parseISO } from 'date-fns';
+import { useMemo, useState } from 'react';
+import { formatSwapShift, getSwapStatusBadge } from '@/lib/workforce-utils';
+import type {
+    DayOfWeek,
+    PublishedHours,
+    PublishedShift,
+    ShiftSwapRequest,
+    ShiftSwapShift,
+    ShiftSwapType,
+} from '@/types/workforce-pages';
+
+// ============================================================================
+// Type Definitions
+// ============================================================================
+
+interface MyShift extends ShiftSwapShift {
+    in_swap: boolean;
+}
+
+interface CoworkerShift extends ShiftSwapShift {
+    employee_id: number;
+    employee_name: string | null;
+}
+
+interface PublishedWeek {
+    week_start: string;
+    published: boolean;
+    shifts: Array<PublishedShift & { schedule_name: string | null; version: number; published_at: string }>;
+}
+
+interface ShiftsProps {
+    employee: {
+        id: number;
+        employee_number: string;
+        full_name: string;
+        department: string;
+        position: string | null;
+    };
+    publishedWeeks: PublishedWeek[];
+    publishedHours: {
+        schedule_name: string | null;
+        hours: PublishedHours;
+        version: number;
+        published_at: string;
+    } | null;
+    myShifts: MyShift[];
+    coworkers: Array<{ id: number; full_name: string | null }>;
+    coworkerShifts: CoworkerShift[];
+    openShifts: ShiftSwapRequest[];
+    incoming: ShiftSwapRequest[];
+    myRequests: ShiftSwapRequest[];
+    maxWeeklyHours: number;
+}
+
+const WEEKDAYS: DayOfWeek[] = ['monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday', 'sunday'];
+
+const breadcrumbs: BreadcrumbItem[] = [
+    {
+        title: 'Dashboard',
+        href: '/employee/dashboard',
+    },
+    {
+        title: 'My Shifts',
+        href: '/employee/shifts',
+    },
+];
+
+// ============================================================================
+// Main Component
+// ============================================================================
+
+export default function MyShifts({
+    employee,
+    publishedWeeks,
+    publishedHours,
+    myShifts,
+    coworkers,
+    coworkerShifts,
+    openShifts,
+    incoming,
+    myRequests,
+    maxWeeklyHours,
+}: ShiftsProps) {
+    const { flash } = usePage().props as unknown as {
+        flash?: { success?: string | null; error?: string | null };
+    };
+
+    const [offering, setOffering] = useState<{ shift: MyShift; type: ShiftSwapType } | null>(null);
+    const [coworkerId, setCoworkerId] = useState('');
+    const [targetShiftId, setTargetShiftId] = useState('');
+    const [note, setNote] = useState('');
+    const [isProcessing, setIsProcessing] = useState(false);
+
+    const targetShifts = useMemo(
+        () => coworkerShifts.filter((shift) => shift.employee_id.toString() === coworkerId),
+        [coworkerShifts, coworkerId]
+    );
+
+    const requestOptions = {
+        preserveScroll: true,
+        onStart: () => setIsProcessing(true),
+        onFinish: () => setIsProcessing(false),
+    };
+
+    const openDialog = (shift: MyShift, type: ShiftSwapType) => {
+        setOffering({ shift, type });
+        setCoworkerId('');
+        setTargetShiftId('');
+        setNote('');
+    };
+
+    const handleSubmit = () => {
+        if (!offering) return;
+        if (offering.type === 'swap' && !targetShiftId) return;
+
+        router.post(
+            '/employee/shifts/swaps',
+            {
+                type: offering.type,
+                shift_assignment_id: offering.shift.id,
+                target_shift_assignment_id: offering.type === 'swap' ? parseInt(targetShiftId) : null,
+                note: note || null,
+            },
+            { ...requestOptions, onSuccess: () => setOffering(null) }
+        );
+    };
+
+    const handleAction = (swap: ShiftSwapRequest, action: 'pick-up' | 'accept' | 'decline' | 'cancel') => {
+        router.post(`/employee/shifts/swaps/${swap.id}/${action}`, {}, requestOptions);
+    };
+
+    return (
+        <AppLayout breadcrumbs={breadcrumbs}>
+            <Head title="My Shifts" />
+
+            <div className="space-y-6 p-6">
+                <div>
+                    <h1 className="text-2xl font-bold text-gray-900 dark:text-white">My Shifts</h1>
+                    <p className="mt-1 text-sm text-gray-600 dark:text-gray-400">
+                        Your published schedule, and shifts to give away, swap with a coworker, or pick up. Your
+                        department head approves every change before your schedule is updated.
+                    </p>
+                </div>
+
+                {flash?.success && (
+                    <Alert>
+                        <CheckCircle2 className="h-4 w-4" />
+                        <AlertDescription>{flash.success}</AlertDescription>
+                    </Alert>
+                )}
+                {flash?.error && (
+                    <Alert variant="destructive">
+                        <AlertTriangle className="h-4 w-4" />
+                        <AlertDescription>{flash.error}</AlertDescription>
+                    </Alert>
+                )}
+
+                {/* Published Schedule */}
+                <Card>
+                    <CardHeader>
+                        <CardTitle className="flex items-center gap-2">
+                            <Clock className="h-5 w-5 text-indigo-600 dark:text-indigo-400" />
+                            Published Schedule
+                        </CardTitle>
+                    </CardHeader>
+                    <CardContent className="space-y-4">
+                        {publishedHours && (
+                            <div className="rounded-lg border p-3 text-sm">
+                                <p className="font-medium text-gray-900 dark:text-white">
+                                    {publishedHours.schedule_name}
+                                    <span className="ml-2 text-xs font-normal text-gray-500">
+                                        v{publishedHours.version} · published {format(parseISO(publishedHours.published_at), 'MMM d, yyyy')}
+                                    </span>
+                                </p>
+                                <div className="mt-2 grid grid-cols-7 gap-1 text-center text-xs">
+                                    {WEEKDAYS.map((day) => (
+                                        <div key={day} className="rounded bg-gray-50 p-1 dark:bg-gray-800">
+                                            <div className="font-medium capitalize">{day.slice(0, 3)}</div>
+                                            <div className="text-gray-600 dark:text-gray-400">
+                                                {publishedHours.hours[day]
+                                                    ? `${publishedHours.hours[day]?.start}–${publishedHours.hours[day]?.end}`
+                                                    : 'Rest'}
+                                            </div>
+                                        </div>
+                                    ))}
+                                </div>
+                            </div>
+                        )}
+
+                        <div className="grid grid-cols-1 gap-3 md:grid-cols-2">
+                            {publishedWeeks.map((week) => (
+                                <div key={week.week_start} className="rounded-lg border p-3 text-sm">
+                                    <p className="mb-2 font-medium text-gray-900 dark:text-white">
+                                        Week of {format(parseISO(week.week_start), 'MMM d')}
+                                    </p>
+                                    {!week.published ? (
+                                        <p className="text-gray-500">Not published yet.</p>
+                                    ) : week.shifts.length === 0 ? (
+                                        <p className="text-gray-500">No shifts.</p>
+                                    ) : (
+                                        <ul className="space-y-1">
+                                            {week.shifts.map((shift, index) => (
+                                                <li key={index} className="flex justify-between gap-2">
+                                                    <span>{format(parseISO(shift.date), 'EEE MMM d')}</span>
+                                                    <span className="text-gray-600 dark:text-gray-400">
+                                                        {shift.shift_start}–{shift.shift_end}
+                                                        {shift.schedule_name && ` · ${shift.schedule_name}`}
+                                                    </span>
+                                                </li>
+                                            ))}
+                                        </ul>
+                                    )}
+                                </div>
+                            ))}
+                        </div>
+                    </CardContent>
+                </Card>
+
+                {/* Incoming Swap Proposals */}
+                {incoming.length > 0 && (
+                    <Card className="border-yellow-200 dark:border-yellow-900">
+                        <CardHeader>
+                            <CardTitle className="flex items-center gap-2">
+                                <ArrowLeftRight className="h-5 w-5 text-yellow-600 dark:text-yellow-400" />
+                                Swap Requests for You
+                            </CardTitle>
+                        </CardHeader>
+                        <CardContent className="space-y-3">
+                            {incoming.map((swap) => (
+                                <div key={swap.id} className="flex items-center justify-between gap-4 rounded-lg border p-3">
+                                    <div className="text-sm">
+                                        <p className="font-medium text-gray-900 dark:text-white">
+                                            {swap.requester_name} offers {formatSwapShift(swap.shift)}
+                                        </p>
+                                        <p className="text-gray-600 dark:text-gray-400">
+                                            in exchange for your {formatSwapShift(swap.target_shift)}
+                                        </p>
+                                        {swap.note && <p className="italic text-gray-500">“{swap.note}”</p>}
+                                        <IssueList swap={swap} />
+                                    </div>
+                                    <div className="flex gap-2">
+                                        <Button variant="outline" size="sm" disabled={isProcessing} onClick={() => handleAction(swap, 'decline')}>
+                                            Decline
+                                        </Button>
+                                        <Button size="sm" disabled={isProcessing} onClick={() => handleAction(swap, 'accept')}>
+                                            Accept
+                                        </Button>
+                                    </div>
+                                </div>
+                            ))}
+                        </CardContent>
+                    </Card>
+                )}
+
+                {/* My Upcoming Shifts */}
+                <Card>
+                    <CardHeader>
+                        <CardTitle className="flex items-center gap-2">
+                            <CalendarClock className="h-5 w-5 text-blue-600 dark:text-blue-400" />
+                            Upcoming Shifts
+                        </CardTitle>
+                    </CardHeader>
+                    <CardContent>
+                        {myShifts.length === 0 ? (
+                            <p className="text-sm text-gray-500">You have no upcoming shifts.</p>
+                        ) : (
+                            <div className="divide-y">
+                                {myShifts.map((shift) => (
+                                    <div key={shift.id} className="flex items-center justify-between gap-4 py-3">
+                                        <div className="text-sm">
+                                            <p className="font-medium text-gray-900 dark:text-white">{formatSwapShift(shift)}</p>
+                                            <p className="text-gray-500">
+                                                {[shift.shift_type, shift.schedule_name].filter(Boolean).join(' · ')}
+                                            </p>
+                                        </div>
+                                        {shift.in_swap ? (
+                                            <Badge variant="outline">In a swap request</Badge>
+                                        ) : (
+                                            <div className="flex gap-2">
+                                                <Button variant="outline" size="sm" onClick={() => openDialog(shift, 'giveaway')}>
+                                                    <Gift className="mr-1 h-4 w-4" />
+                                                    Give Away
+                                                </Button>
+                                                <Button
+                                                    variant="outline"
+                                                    size="sm"
+                                                    disabled={coworkerShifts.length === 0}
+                                                    onClick={() => openDialog(shift, 'swap')}
+                                                >
+                                                    <ArrowLeftRight className="mr-1 h-4 w-4" />
+                                                    Swap
+                                                </Button>
+                                            </div>
+                                        )}
+                                    </div>
+                                ))}
+                            </div>
+                        )}
+                    </CardContent>
+                </Card>
+
+                {/* Open Shifts */}
+                <Card>
+                    <CardHeader>
+                        <CardTitle className="flex items-center gap-2">
+                            <Hand className="h-5 w-5 text-green-600 dark:text-green-400" />
+                            Open Shifts in {employee.department}
+                        </CardTitle>
+                    </CardHeader>
+                    <CardContent>
+                        {openShifts.length === 0 ? (
+                            <p className="text-sm text-gray-500">No coworker is giving a shift away right now.</p>
+                        ) : (
+                            <div className="divide-y">
+                                {openShifts.map((swap) => (
+                                    <div key={swap.id} className="flex items-center justify-between gap-4 py-3">
+                                        <div className="text-sm">
+                                            <p className="font-medium text-gray-900 dark:text-white">{formatSwapShift(swap.shift)}</p>
+                                            <p className="text-gray-500">Given away by {swap.requester_name}</p>
+                                            {swap.note && <p className="italic text-gray-500">“{swap.note}”</p>}
+                                        </div>
+                                        <Button size="sm" disabled={isProcessing} onClick={() => handleAction(swap, 'pick-up')}>
+                                            Pick Up
+                                        </Button>
+                                    </div>
+                                ))}
+                            </div>
+                        )}
+                        <p className="mt-4 text-xs text-gray-500">
+                            You can only take shifts that fit your rest periods, your position, and the {maxWeeklyHours}-hour weekly limit.
+                        </p>
+                    </CardContent>
+                </Card>
+
+                {/* My Requests */}
+                <Card>
+                    <CardHeader>
+                        <CardTitle>My Requests</CardTitle>
+                    </CardHeader>
+                    <CardContent>
+                        {myRequests.length === 0 ? (
+                            <p className="text-sm text-gray-500">No swap requests yet.</p>
+                        ) : (
+                            <div className="divide-y">
+                                {myRequests.map((swap) => {
+                                    const badge = getSwapStatusBadge(swap.status);
+                                    const canCancel =
+                                        swap.is_requester && ['open', 'pending_coworker', 'pending_approval'].includes(swap.status);
+
+                                    return (
+                                        <div key={swap.id} className="flex items-center justify-between gap-4 py-3">
+                                            <div className="text-sm">
+                                                <p className="font-medium text-gray-900 dark:text-white">
+                                                    {swap.type === 'swap' ? 'Swap' : 'Give-away'}: {formatSwapShift(swap.shift)}
+                                                    {swap.type === 'swap' && ` ⇄ ${formatSwapShift(swap.target_shift)}`}
+                                                </p>
+                                                <p className="text-gray-500">
+                                                    {swap.is_requester
+                                                        ? swap.target_employee_name
+                                                            ? `With ${swap.target_employee_name}`
+                                                            : 'Waiting for a coworker to pick it up'
+                                                        : `From ${swap.requester_name}`}
+                                                </p>
+                                                {swap.decision_note && <p className="italic text-gray-500">“{swap.decision_note}”</p>}
+                                                <IssueList swap={swap} />
+                                            </div>
+                                            <div className="flex items-center gap-2">
+                                                <Badge className={badge.className}>{badge.label}</Badge>
+                                                {canCancel && (
+                                                    <Button
+                                                        variant="ghost"
+                                                        size="sm"
+                                                        disabled={isProcessing}
+                                                        onClick={() => handleAction(swap, 'cancel')}
+                                                    >
+                                                        <XCircle className="mr-1 h-4 w-4" />
+                                                        Cancel
+                                                    </Button>
+                                                )}
+                                            </div>
+                                        </div>
+                                    );
+                                })}
+                            </div>
+                        )}
+                    </CardContent>
+                </Card>
+            </div>
+
+            {/* Give Away / Swap Dialog */}
+            <Dialog open={offering !== null} onOpenChange={(open) => !open && setOffering(null)}>
+                <DialogContent>
+                    <DialogHeader>
+                        <DialogTitle>{offering?.type === 'swap' ? 'Propose a Swap' : 'Give Away Shift'}</DialogTitle>
+                        <DialogDescription>
+                            {offering && formatSwapShift(offering.shift)}
+                            {offering?.type === 'giveaway' && ' will be offered to eligible coworkers in your department.'}
+                        </DialogDescription>
+                    </DialogHeader>
+
+                    <div className="space-y-4">
+                        {offering?.type === 'swap' && (
+                            <>
+                                <div className="space-y-2">
+                                    <Label>Coworker</Label>
+                                    <Select
+                                        value={coworkerId}
+                                        onValueChange={(value) => {
+                                            setCoworkerId(value);
+                                            setTargetShiftId('');
+                                        }}
+                                    >
+                                        <SelectTrigger>
+                                            <SelectValue placeholder="Choose a coworker" />
+                                        </SelectTrigger>
+                                        <SelectContent>
+                                            {coworkers
+                                                .filter((coworker) => coworkerShifts.some((shift) => shift.employee_id === coworker.id))
+                                                .map((coworker) => (
+                                                    <SelectItem key={coworker.id} value={coworker.id.toString()}>
+                                                        {coworker.full_name}
+                                                    </SelectItem>
+                                                ))}
+                                        </SelectContent>
+                                    </Select>
+                                </div>
+                                <div className="space-y-2">
+                                    <Label>Their shift you would take</Label>
+                                    <Select value={targetShiftId} onValueChange={setTargetShiftId} disabled={!coworkerId}>
+                                        <SelectTrigger>
+                                            <SelectValue placeholder="Choose a shift" />
+                                        </SelectTrigger>
+                                        <SelectContent>
+                                            {targetShifts.map((shift) => (
+                                                <SelectItem key={shift.id} value={shift.id.toString()}>
+                                                    {formatSwapShift(shift)}
+                                                </SelectItem>
+                                            ))}
+                                        </SelectContent>
+                                    </Select>
+                                </div>
+                            </>
+                        )}
+                        <div className="space-y-2">
+                            <Label>Note (optional)</Label>
+                            <Textarea value={note} onChange={(e) => setNote(e.target.value)} maxLength={500} rows={3} />
+                        </div>
+                    </div>
+
+                    <DialogFooter>
+                        <Button variant="outline" onClick={() => setOffering(null)}>
+                            Cancel
+                        </Button>
+                        <Button
+                            onClick={handleSubmit}
+                            disabled={isProcessing || (offering?.type === 'swap' && !targetShiftId)}
+                        >
+                            {offering?.type === 'swap' ? 'Send Request' : 'Offer Shift'}
+                        </Button>
+                    </DialogFooter>
+                </DialogContent>
+            </Dialog>
+        </AppLayout>
+    );
+}
+
+// ============================================================================
+// Eligibility Issues
+// ============================================================================
+
+function IssueList({ swap }: { swap: ShiftSwapRequest }) {
+    if (swap.eligibility.length === 0) return null;
+
+    return (
+        <ul className="mt-1 space-y-0.5">
+            {swap.eligibility.map((issue, index) => (
+                <li
+                    key={index}
+                    className={`flex items-center gap-1 text-xs ${issue.blocking ? 'text-red-600' : 'text-amber-600'}`}
+                >
+                    <AlertTriangle className="h-3 w-3" />
+                    {issue.message}
+                </li>
+            ))}
+        </ul>
+    );
+}
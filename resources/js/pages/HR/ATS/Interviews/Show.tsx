@@ -235,6 +235,9 @@ export default function InterviewShow({
                       <p className="text-slate-900 font-semibold capitalize">
                         {interview.location_type.replace(/_/g, ' ')}
                       </p>
+                      {interview.location && (
+                        <p className="text-sm text-slate-600">{interview.location}</p>
+                      )}
                     </div>
                   </div>
                 </div>
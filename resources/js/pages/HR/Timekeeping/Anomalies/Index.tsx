@@ -0,0 +1,350 @@
+import { Head, router, usePage } from '@inertiajs/react';
+import { useState } from 'react';
+import { format, parseISO } from 'date-fns';
+import AppLayout from '@/layouts/app-layout';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { usePermission } from '@/components/permission-gate';
+import { ANOMALY_SEVERITY_STYLES, ANOMALY_TYPE_LABELS } from '@/components/timekeeping/anomaly-flag-badge';
+import { AnomalyThresholdRules } from '@/components/timekeeping/anomaly-threshold-rules';
+import { Check, RotateCcw, X } from 'lucide-react';
+import {
+    AnomalyReviewStatus,
+    AttendanceAnomaliesIndexProps,
+    AttendanceAnomaly,
+    AttendanceAnomalyType,
+} from '@/types/timekeeping-pages';
+
+const STATUS_BADGE: Record<AnomalyReviewStatus, 'default' | 'secondary' | 'destructive' | 'outline'> = {
+    open: 'destructive',
+    confirmed: 'default',
+    dismissed: 'secondary',
+};
+
+const ANY = '__any';
+
+export default function AnomaliesIndex() {
+    const { anomalies, openCounts, rules, devices, defaults, filters } = usePage().props as unknown as AttendanceAnomaliesIndexProps;
+    const { hasPermission } = usePermission();
+    const canReview = hasPermission('hr.timekeeping.corrections.approve');
+    const canManage = hasPermission('hr.timekeeping.manage');
+
+    const [employeeNumber, setEmployeeNumber] = useState(filters.employee_number ?? '');
+    const [dismissing, setDismissing] = useState<AttendanceAnomaly | null>(null);
+    const [dismissNotes, setDismissNotes] = useState('');
+    const [dismissError, setDismissError] = useState<string | null>(null);
+
+    const breadcrumbs = [
+        { title: 'HR', href: '/hr' },
+        { title: 'Timekeeping', href: '/hr/timekeeping' },
+        { title: 'Attendance Anomalies', href: '/hr/timekeeping/anomalies' },
+    ];
+
+    const applyFilters = (changes: Partial<AttendanceAnomaliesIndexProps['filters']>) => {
+        const next = { ...filters, employee_number: employeeNumber, ...changes };
+        const params = Object.fromEntries(
+            Object.entries(next).filter(([, value]) => value !== null && value !== undefined && value !== '')
+        );
+        router.get(route('hr.timekeeping.anomalies.index'), params, { preserveState: true, preserveScroll: true });
+    };
+
+    const review = (anomaly: AttendanceAnomaly, status: AnomalyReviewStatus, notes?: string) => {
+        router.patch(route('hr.timekeeping.anomalies.review', { anomalyId: anomaly.id }), {
+            status,
+            review_notes: notes ?? null,
+        }, {
+            preserveScroll: true,
+            onSuccess: () => setDismissing(null),
+            onError: errors => setDismissError(errors.review_notes ?? errors.status ?? null),
+        });
+    };
+
+    const openDismiss = (anomaly: AttendanceAnomaly) => {
+        setDismissNotes('');
+        setDismissError(null);
+        setDismissing(anomaly);
+    };
+
+    const deviceCell = (anomaly: AttendanceAnomaly) => {
+        if (!anomaly.device_id) return <span className="text-muted-foreground">—</span>;
+        const label = (id: string, location: string | null) => (location ? `${location} (${id})` : id);
+        return (
+            <span>
+                {anomaly.related_device_id && <>{label(anomaly.related_device_id, anomaly.related_device_location)} → </>}
+                {label(anomaly.device_id, anomaly.device_location)}
+            </span>
+        );
+    };
+
+    return (
+        <AppLayout breadcrumbs={breadcrumbs}>
+            <Head title="Attendance Anomalies" />
+
+            <div className="space-y-6 p-6">
+                {/* Header */}
+                <div className="flex flex-col">
+                    <h1 className="text-3xl font-bold">Attendance Anomalies</h1>
+                    <p className="text-gray-600">
+                        Review impossible travel, missing exits and possible buddy punching flagged from RFID taps
+                    </p>
+                </div>
+
+                {/* Open counts */}
+                <div className="grid gap-4 md:grid-cols-3">
+                    {(Object.keys(ANOMALY_TYPE_LABELS) as AttendanceAnomalyType[]).map(type => (
+                        <Card
+                            key={type}
+                            className="cursor-pointer hover:border-primary"
+                            onClick={() => applyFilters({ status: 'open', type })}
+                        >
+                            <CardHeader className="pb-2">
+                                <CardTitle className="text-sm font-medium text-gray-600">{ANOMALY_TYPE_LABELS[type]}</CardTitle>
+                            </CardHeader>
+                            <CardContent>
+                                <div className="text-2xl font-bold">{openCounts[type] ?? 0}</div>
+                                <p className="text-xs text-gray-500">open</p>
+                            </CardContent>
+                        </Card>
+                    ))}
+                </div>
+
+                {/* Review queue */}
+                <Card>
+                    <CardHeader>
+                        <CardTitle>Review Queue</CardTitle>
+                    </CardHeader>
+                    <CardContent className="space-y-4">
+                        <div className="grid gap-3 md:grid-cols-3 lg:grid-cols-6 items-end">
+                            <div className="space-y-1">
+                                <Label className="text-xs">Status</Label>
+                                <Select value={filters.status} onValueChange={value => applyFilters({ status: value as AnomalyReviewStatus | 'all' })}>
+                                    <SelectTrigger><SelectValue /></SelectTrigger>
+                                    <SelectContent>
+                                        <SelectItem value="open">Open</SelectItem>
+                                        <SelectItem value="confirmed">Confirmed</SelectItem>
+                                        <SelectItem value="dismissed">Dismissed</SelectItem>
+                                        <SelectItem value="all">All</SelectItem>
+                                    </SelectContent>
+                                </Select>
+                            </div>
+                            <div className="space-y-1">
+                                <Label className="text-xs">Type</Label>
+                                <Select
+                                    value={filters.type ?? ANY}
+                                    onValueChange={value => applyFilters({ type: value === ANY ? null : value as AttendanceAnomalyType })}
+                                >
+                                    <SelectTrigger><SelectValue /></SelectTrigger>
+                                    <SelectContent>
+                                        <SelectItem value={ANY}>All types</SelectItem>
+                                        {(Object.keys(ANOMALY_TYPE_LABELS) as AttendanceAnomalyType[]).map(type => (
+                                            <SelectItem key={type} value={type}>{ANOMALY_TYPE_LABELS[type]}</SelectItem>
+                                        ))}
+                                    </SelectContent>
+                                </Select>
+                            </div>
+                            <div className="space-y-1">
+                                <Label className="text-xs">Severity</Label>
+                                <Select
+                                    value={filters.severity ?? ANY}
+                                    onValueChange={value => applyFilters({ severity: value === ANY ? null : value as AttendanceAnomaliesIndexProps['filters']['severity'] })}
+                                >
+                                    <SelectTrigger><SelectValue /></SelectTrigger>
+                                    <SelectContent>
+                                        <SelectItem value={ANY}>All severities</SelectItem>
+                                        <SelectItem value="high">High</SelectItem>
+                                        <SelectItem value="medium">Medium</SelectItem>
+                                        <SelectItem value="low">Low</SelectItem>
+                                    </SelectContent>
+                                </Select>
+                            </div>
+                            <div className="space-y-1">
+                                <Label className="text-xs" htmlFor="employee_number">Employee number</Label>
+                                <Input
+                                    id="employee_number"
+                                    value={employeeNumber}
+                                    placeholder="e.g. EMP-0001"
+                                    onChange={e => setEmployeeNumber(e.target.value)}
+                                    onKeyDown={e => e.key === 'Enter' && applyFilters({})}
+                                />
+                            </div>
+                            <div className="space-y-1">
+                                <Label className="text-xs" htmlFor="date_from">From</Label>
+                                <Input
+                                    id="date_from"
+                                    type="date"
+                                    value={filters.date_from ?? ''}
+                                    onChange={e => applyFilters({ date_from: e.target.value })}
+                                />
+                            </div>
+                            <div className="space-y-1">
+                                <Label className="text-xs" htmlFor="date_to">To</Label>
+                                <Input
+                                    id="date_to"
+                                    type="date"
+                                    value={filters.date_to ?? ''}
+                                    onChange={e => applyFilters({ date_to: e.target.value })}
+                                />
+                            </div>
+                        </div>
+
+                        <Table>
+                            <TableHeader>
+                                <TableRow>
+                                    <TableHead>Anomaly</TableHead>
+                                    <TableHead>Employee</TableHead>
+                                    <TableHead>Date</TableHead>
+                                    <TableHead>Device</TableHead>
+                                    <TableHead>Status</TableHead>
+                                    {canReview && <TableHead className="text-right">Actions</TableHead>}
+                                </TableRow>
+                            </TableHeader>
+                            <TableBody>
+                                {anomalies.data.length === 0 && (
+                                    <TableRow>
+                                        <TableCell colSpan={canReview ? 6 : 5} className="text-center text-sm text-muted-foreground py-8">
+                                            No anomalies match these filters.
+                                        </TableCell>
+                                    </TableRow>
+                                )}
+                                {anomalies.data.map(anomaly => (
+                                    <TableRow key={anomaly.id}>
+                                        <TableCell className="max-w-md">
+                                            <div className="flex items-center gap-2">
+                                                <span className="font-medium text-sm">{ANOMALY_TYPE_LABELS[anomaly.type]}</span>
+                                                <span className={`rounded-full border px-2 py-0.5 text-[10px] font-semibold capitalize ${ANOMALY_SEVERITY_STYLES[anomaly.severity]}`}>
+                                                    {anomaly.severity}
+                                                </span>
+                                            </div>
+                                            <p className="text-xs text-muted-foreground mt-1">{anomaly.summary}</p>
+                                            {anomaly.ledger_sequence_id && (
+                                                <p className="text-[10px] font-mono text-muted-foreground mt-0.5">
+                                                    Ledger #{anomaly.related_ledger_sequence_id ? `${anomaly.related_ledger_sequence_id} → #` : ''}{anomaly.ledger_sequence_id}
+                                                </p>
+                                            )}
+                                        </TableCell>
+                                        <TableCell className="text-sm">
+                                            <div className="font-medium">{anomaly.employee.name}</div>
+                                            <div className="text-xs text-muted-foreground">
+                                                {anomaly.employee.employee_number}{anomaly.employee.department && ` · ${anomaly.employee.department}`}
+                                            </div>
+                                            {anomaly.related_employee && (
+                                                <div className="text-xs mt-1">
+                                                    with <span className="font-medium">{anomaly.related_employee.name}</span>{' '}
+                                                    <span className="text-muted-foreground">({anomaly.related_employee.employee_number})</span>
+                                                </div>
+                                            )}
+                                        </TableCell>
+                                        <TableCell className="text-sm whitespace-nowrap">
+                                            {format(parseISO(anomaly.attendance_date), 'MMM d, yyyy')}
+                                            <div className="text-xs text-muted-foreground">
+                                                Flagged {format(parseISO(anomaly.detected_at), 'MMM d, h:mm a')}
+                                            </div>
+                                        </TableCell>
+                                        <TableCell className="text-xs">{deviceCell(anomaly)}</TableCell>
+                                        <TableCell>
+                                            <Badge variant={STATUS_BADGE[anomaly.status]} className="capitalize">{anomaly.status}</Badge>
+                                            {anomaly.reviewed_by && (
+                                                <div className="text-[10px] text-muted-foreground mt-1">by {anomaly.reviewed_by}</div>
+                                            )}
+                                            {anomaly.review_notes && (
+                                                <div className="text-[10px] text-muted-foreground italic max-w-[12rem]">{anomaly.review_notes}</div>
+                                            )}
+                                        </TableCell>
+                                        {canReview && (
+                                            <TableCell className="text-right whitespace-nowrap">
+                                                {anomaly.status === 'open' ? (
+                                                    <>
+                                                        <Button variant="outline" size="sm" className="mr-2" onClick={() => review(anomaly, 'confirmed')}>
+                                                            <Check className="h-4 w-4 mr-1" />
+                                                            Confirm
+                                                        </Button>
+                                                        <Button variant="outline" size="sm" onClick={() => openDismiss(anomaly)}>
+                                                            <X className="h-4 w-4 mr-1" />
+                                                            Dismiss
+                                                        </Button>
+                                                    </>
+                                                ) : (
+                                                    <Button variant="ghost" size="sm" onClick={() => review(anomaly, 'open')}>
+                                                        <RotateCcw className="h-4 w-4 mr-1" />
+                                                        Reopen
+                                                    </Button>
+                                                )}
+                                            </TableCell>
+                                        )}
+                                    </TableRow>
+                                ))}
+                            </TableBody>
+                        </Table>
+
+                        {/* Pagination */}
+                        {anomalies.total > anomalies.per_page && (
+                            <div className="flex items-center justify-between">
+                                <div className="text-xs text-muted-foreground">
+                                    Showing {anomalies.from} to {anomalies.to} of {anomalies.total} anomalies
+                                </div>
+                                <div className="flex items-center gap-2">
+                                    <Button
+                                        variant="outline"
+                                        size="sm"
+                                        disabled={!anomalies.prev_page_url}
+                                        onClick={() => router.visit(anomalies.prev_page_url!, { preserveState: true })}
+                                    >
+                                        ← Prev
+                                    </Button>
+                                    <span className="text-xs">Page {anomalies.current_page} of {anomalies.last_page}</span>
+                                    <Button
+                                        variant="outline"
+                                        size="sm"
+                                        disabled={!anomalies.next_page_url}
+                                        onClick={() => router.visit(anomalies.next_page_url!, { preserveState: true })}
+                                    >
+                                        Next →
+                                    </Button>
+                                </div>
+                            </div>
+                        )}
+                    </CardContent>
+                </Card>
+
+                <AnomalyThresholdRules rules={rules} devices={devices} defaults={defaults} canManage={canManage} />
+            </div>
+
+            {/* Dismiss dialog */}
+            <Dialog open={dismissing !== null} onOpenChange={open => !open && setDismissing(null)}>
+                <DialogContent>
+                    <DialogHeader>
+                        <DialogTitle>Dismiss anomaly</DialogTitle>
+                        <DialogDescription>{dismissing?.summary}</DialogDescription>
+                    </DialogHeader>
+                    <div className="space-y-2">
+                        <Label htmlFor="review_notes">Reason</Label>
+                        <Textarea
+                            id="review_notes"
+                            rows={3}
+                            placeholder="e.g. Employee was escorting a visitor through both gates"
+                            value={dismissNotes}
+                            onChange={e => setDismissNotes(e.target.value)}
+                        />
+                        {dismissError && <p className="text-xs text-red-600">{dismissError}</p>}
+                    </div>
+                    <DialogFooter>
+                        <Button variant="outline" onClick={() => setDismissing(null)}>Cancel</Button>
+                        <Button
+                            disabled={dismissNotes.trim() === ''}
+                            onClick={() => dismissing && review(dismissing, 'dismissed', dismissNotes.trim())}
+                        >
+                            Dismiss
+                        </Button>
+                    </DialogFooter>
+                </DialogContent>
+            </Dialog>
+        </AppLayout>
+    );
+}
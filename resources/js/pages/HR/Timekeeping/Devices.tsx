@@ -6,8 +6,10 @@ import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { DeviceStatusDashboard } from '@/components/timekeeping/device-status-dashboard';
-import { DeviceMapView } from '@/components/timekeeping/device-map-view';
+import { DeviceMapView, type FloorPlan } from '@/components/timekeeping/device-map-view';
+import { usePermission } from '@/components/permission-gate';
 import { ArrowLeft, LayoutGrid, Map as MapIcon } from 'lucide-react';
+import { DeviceClock, DeviceCommand } from '@/types/timekeeping-pages';
 
 interface RecentScan {
     employeeName: string;
@@ -25,6 +27,12 @@ interface Device {
     uptime: number;
     errorRate?: number;
     recentScans: RecentScan[];
+    floorPlanId: number | null;
+    mapX: number | null;
+    mapY: number | null;
+    kind: 'gate' | 'kiosk';
+    commands: DeviceCommand[];
+    clock: DeviceClock;
 }
 
 interface Summary {
@@ -38,14 +46,16 @@ interface Summary {
 
 interface DevicesProps {
     devices: Device[];
+    floorPlans: FloorPlan[];
     summary: Summary;
     filters: {
         status: string;
     };
 }
 
-export default function Devices({ devices, summary, filters }: DevicesProps) {
+export default function Devices({ devices, floorPlans, summary, filters }: DevicesProps) {
     const [view, setView] = useState<'grid' | 'map'>('grid');
+    const { hasPermission } = usePermission();
     
     const getStatusBadgeVariant = (status: string) => {
         const variants: Record<string, 'default' | 'secondary' | 'destructive' | 'outline'> = {
@@ -148,9 +158,17 @@ export default function Devices({ devices, summary, filters }: DevicesProps) {
 
                 {/* Device Status Content */}
                 {view === 'grid' ? (
-                    <DeviceStatusDashboard devices={devices} />
+                    <DeviceStatusDashboard
+                        devices={devices}
+                        canSendCommands={hasPermission('hr.timekeeping.manage')}
+                        canCorrectClock={hasPermission('hr.timekeeping.manage')}
+                    />
                 ) : (
-                    <DeviceMapView devices={devices} />
+                    <DeviceMapView
+                        devices={devices}
+                        floorPlans={floorPlans}
+                        canManage={hasPermission('hr.timekeeping.manage')}
+                    />
                 )}
 
                 {/* Device List Table */}
@@ -43,6 +43,17 @@ interface TimelineEvent {
     scheduledTime?: string;
     variance?: number;
     violationType?: 'late_arrival' | 'early_departure' | 'missing_punch' | 'extended_break';
+    calendarDate?: string;
+}
+
+interface Shift {
+    id: number;
+    shift_type: string | null;
+    start: string;
+    end: string;
+    window_opens_at: string;
+    window_closes_at: string;
+    crosses_midnight: boolean;
 }
 
 interface Schedule {
@@ -66,11 +77,13 @@ interface Summary {
     violationCount: number;
     timeInVariance: number;
     timeOutVariance: number;
+    nightDiffMinutes?: number;  // Worked minutes inside the night differential window
 }
 
 interface EmployeeTimelineProps {
     employee: Employee;
     events: TimelineEvent[];
+    shift: Shift | null;  // Null when punches are paired by calendar date
     schedule: Schedule;
     summary: Summary;
     date: string;
@@ -79,6 +92,7 @@ interface EmployeeTimelineProps {
 export default function EmployeeTimeline({ 
     employee, 
     events, 
+    shift,
     schedule, 
     summary, 
     date 
@@ -222,6 +236,12 @@ export default function EmployeeTimeline({
                                         {summary.timeOutVariance > 0 ? '+' : ''}{summary.timeOutVariance} min
                                     </span>
                                 </div>
+                                {!!summary.nightDiffMinutes && (
+                                    <div className="flex items-center justify-between text-sm">
+                                        <span className="text-muted-foreground">Night Differential</span>
+                                        <span className="font-medium text-indigo-600">{(summary.nightDiffMinutes / 60).toFixed(1)}h</span>
+                                    </div>
+                                )}
                             </div>
                         </CardContent>
                     </Card>
@@ -273,6 +293,13 @@ export default function EmployeeTimeline({
                     employeePhoto={employee.photo ?? undefined}
                     date={date}
                     events={events}
+                    shift={shift ? {
+                        start: shift.start,
+                        end: shift.end,
+                        opensAt: shift.window_opens_at,
+                        closesAt: shift.window_closes_at,
+                        crossesMidnight: shift.crosses_midnight,
+                    } : null}
                 />
 
                 {/* Schedule Card */}
@@ -33,6 +33,8 @@ interface AttendanceEvent {
     hash_chain?: string;
     latency_ms?: number;
     source: string;
+    received_at?: string | null;     // Server receipt time; timestamp is the device clock
+    clock_corrections?: { id: number; offset_seconds: number; reason: string; created_by: string | null; created_at: string | null }[];
 }
 
 interface RelatedEvents {
@@ -191,6 +193,46 @@ export default function EventDetail({ event, relatedEvents }: EventDetailProps)
                                     <Badge variant="outline">{event.source}</Badge>
                                 </div>
                                 
+                                {event.received_at && (() => {
+                                    const receivedAfter = Math.round((new Date(event.received_at).getTime() - new Date(event.timestamp).getTime()) / 1000);
+                                    return (
+                                        <>
+                                            <Separator />
+                                            <div className="flex items-start justify-between">
+                                                <span className="text-sm font-medium text-muted-foreground">Received by Server</span>
+                                                <div className="text-right">
+                                                    <div className="text-sm font-medium">{formatTimestamp(event.received_at)}</div>
+                                                    <div className={receivedAfter < 0 ? 'text-xs text-red-600' : 'text-xs text-muted-foreground'}>
+                                                        {receivedAfter < 0
+                                                            ? `${Math.abs(receivedAfter)}s before the device time - device clock ahead`
+                                                            : `${receivedAfter}s after the device time`}
+                                                    </div>
+                                                </div>
+                                            </div>
+                                        </>
+                                    );
+                                })()}
+
+                                {event.clock_corrections && event.clock_corrections.length > 0 && (
+                                    <>
+                                        <Separator />
+                                        <div className="flex items-start justify-between">
+                                            <span className="text-sm font-medium text-muted-foreground">Clock Correction</span>
+                                            <div className="text-right space-y-1">
+                                                {event.clock_corrections.map(correction => (
+                                                    <div key={correction.id} className="text-sm">
+                                                        <span className="font-mono font-medium">
+                                                            {correction.offset_seconds > 0 ? '+' : ''}{correction.offset_seconds}s
+                                                        </span>
+                                                        <span className="text-xs text-muted-foreground"> #{correction.id} · {correction.created_by ?? 'Unknown'}</span>
+                                                        <div className="text-xs text-muted-foreground">{correction.reason}</div>
+                                                    </div>
+                                                ))}
+                                            </div>
+                                        </div>
+                                    </>
+                                )}
+
                                 {event.latency_ms !== undefined && (
                                     <>
                                         <Separator />
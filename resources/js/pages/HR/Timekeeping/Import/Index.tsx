@@ -1,11 +1,13 @@
-import { Head, usePage } from '@inertiajs/react';
+import { Head, router, usePage } from '@inertiajs/react';
 import { useState } from 'react';
 import AppLayout from '@/layouts/app-layout';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
-import { Upload } from 'lucide-react';
+import { CheckCircle, Trash2, Upload } from 'lucide-react';
 import { ImportDetailModal } from '@/components/timekeeping/import-detail-modal';
-import { ImportBatch, ImportError } from '@/types/timekeeping-pages';
+import { ImportMappingWizard } from '@/components/timekeeping/import-mapping-wizard';
+import { deleteImportProfile, type ImportProcessResult } from '@/services/timekeeping-api';
+import { ImportBatch, ImportError, ImportMappingProfile } from '@/types/timekeeping-pages';
 
 interface ImportManagementProps {
     batches: ImportBatch[] | { data: ImportBatch[] };
@@ -16,16 +18,26 @@ interface ImportManagementProps {
         records_imported: number;
         failed: number;
     };
+    profiles: ImportMappingProfile[];
+    devices: Array<{ id: string; location: string | null }>;
 }
 
+const FORMAT_LABELS: Record<ImportMappingProfile['format'], string> = {
+    delimited: 'Delimited',
+    zkteco_dat: 'ZKTeco .dat',
+    fixed_width: 'Fixed-width',
+};
+
 export default function ImportManagement() {
-    const { batches, summary } = usePage().props as unknown as ImportManagementProps;
+    const { batches, summary, profiles = [], devices = [] } = usePage().props as unknown as ImportManagementProps;
     const batchList = Array.isArray(batches) ? batches : (batches?.data || []);
 
     // Modal states
     const [isDetailModalOpen, setIsDetailModalOpen] = useState(false);
     const [selectedBatch, setSelectedBatch] = useState<ImportBatch | null>(null);
     const [batchErrors, setBatchErrors] = useState<ImportError[]>([]);
+    const [isWizardOpen, setIsWizardOpen] = useState(false);
+    const [lastResult, setLastResult] = useState<ImportProcessResult | null>(null);
 
     const breadcrumbs = [
         { title: 'HR', href: '/hr' },
@@ -46,8 +58,24 @@ export default function ImportManagement() {
     };
 
     const handleUploadFile = () => {
-        console.log('Upload file clicked');
-        // File upload dialog would open here
+        setLastResult(null);
+        setIsWizardOpen(true);
+    };
+
+    const handleImported = (result: ImportProcessResult) => {
+        setIsWizardOpen(false);
+        setLastResult(result);
+        router.reload({ only: ['batches', 'summary', 'profiles'] });
+    };
+
+    const handleDeleteProfile = async (profile: ImportMappingProfile) => {
+        if (!confirm(`Delete the mapping profile for ${profile.source}?`)) return;
+        try {
+            await deleteImportProfile(profile.id);
+            router.reload({ only: ['profiles'] });
+        } catch (e) {
+            alert(e instanceof Error ? e.message : 'Unable to delete the profile');
+        }
     };
 
     return (
@@ -67,6 +95,15 @@ export default function ImportManagement() {
                     </Button>
                 </div>
 
+                {lastResult && (
+                    <div className="flex items-center gap-2 rounded-lg border border-green-200 bg-green-50 p-3 text-sm text-green-800">
+                        <CheckCircle className="h-4 w-4" />
+                        Imported {lastResult.success} of {lastResult.total} rows
+                        {lastResult.skipped > 0 && `, skipped ${lastResult.skipped} already recorded`}
+                        {lastResult.failed > 0 && `, ${lastResult.failed} failed (see batch details)`}.
+                    </div>
+                )}
+
                 {/* Summary Cards */}
                 <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-5">
                     <Card>
@@ -190,6 +227,48 @@ export default function ImportManagement() {
                     />
                 )}
 
+                {/* Mapping Profiles */}
+                <Card>
+                    <CardHeader>
+                        <CardTitle>Mapping Profiles</CardTitle>
+                        <CardDescription>Saved column and code mappings, one per file source</CardDescription>
+                    </CardHeader>
+                    <CardContent>
+                        {profiles.length === 0 ? (
+                            <p className="text-sm text-muted-foreground">
+                                No profiles yet. Save one from the preview step of the import wizard.
+                            </p>
+                        ) : (
+                            <div className="divide-y">
+                                {profiles.map(profile => (
+                                    <div key={profile.id} className="flex items-center justify-between py-2">
+                                        <div>
+                                            <div className="text-sm font-medium">{profile.source}</div>
+                                            <div className="text-xs text-muted-foreground">
+                                                {FORMAT_LABELS[profile.format]}
+                                                {' · '}{Object.keys(profile.mapping.event_codes).length} event codes
+                                                {profile.last_used_at && ` · last used ${new Date(profile.last_used_at).toLocaleDateString()}`}
+                                                {profile.updated_by && ` · updated by ${profile.updated_by}`}
+                                            </div>
+                                        </div>
+                                        <Button variant="ghost" size="sm" onClick={() => handleDeleteProfile(profile)} title="Delete profile">
+                                            <Trash2 className="h-4 w-4 text-red-600" />
+                                        </Button>
+                                    </div>
+                                ))}
+                            </div>
+                        )}
+                    </CardContent>
+                </Card>
+
+                <ImportMappingWizard
+                    isOpen={isWizardOpen}
+                    onClose={() => setIsWizardOpen(false)}
+                    onImported={handleImported}
+                    profiles={profiles}
+                    devices={devices}
+                />
+
                 {/* Upload Instructions */}
                 <Card>
                     <CardHeader>
@@ -200,17 +279,19 @@ export default function ImportManagement() {
                         <div>
                             <h4 className="font-semibold text-sm mb-2">Supported File Formats</h4>
                             <ul className="list-disc list-inside text-sm text-muted-foreground space-y-1">
-                                <li>CSV (.csv)</li>
-                                <li>Excel (.xlsx, .xls)</li>
+                                <li>CSV and other delimited text (.csv, .txt)</li>
+                                <li>ZKTeco-style biometric attendance logs (.dat)</li>
+                                <li>Fixed-width attendance logs (.txt, .dat)</li>
+                                <li>Excel workbooks must be saved as CSV first</li>
                             </ul>
                         </div>
                         <div>
                             <h4 className="font-semibold text-sm mb-2">Required Columns</h4>
                             <ul className="list-disc list-inside text-sm text-muted-foreground space-y-1">
-                                <li>Employee ID or Employee Number</li>
-                                <li>Attendance Date</li>
-                                <li>Time In</li>
-                                <li>Time Out</li>
+                                <li>Employee Number, matching the ID enrolled on the terminal</li>
+                                <li>Date and time of the punch, in one column or two</li>
+                                <li>Event type or punch state, mapped to Time In, Time Out, Break or Overtime</li>
+                                <li>Device or terminal number (optional), mapped to our device IDs</li>
                             </ul>
                         </div>
                     </CardContent>
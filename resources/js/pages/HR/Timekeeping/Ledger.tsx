@@ -1,5 +1,6 @@
-import { Head, usePage, router } from '@inertiajs/react';
-import { useState, useMemo, useEffect, useCallback } from 'react';
+import { Head, Link, usePage, router } from '@inertiajs/react';
+import { useState, useMemo, useCallback } from 'react';
+import { format } from 'date-fns';
 import AppLayout from '@/layouts/app-layout';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
@@ -8,9 +9,14 @@ import { LedgerHealthWidget } from '@/components/timekeeping/ledger-health-widge
 import { TimeLogsStream } from '@/components/timekeeping/time-logs-stream';
 import { LogsFilterPanel, LogsFilterConfig, defaultFilters } from '@/components/timekeeping/logs-filter-panel';
 import { EventReplayControl } from '@/components/timekeeping/event-replay-control';
+import type { ReconstructionDepartment } from '@/components/timekeeping/point-in-time-reconstruction';
+import type { ActiveLedgerAlert, AnomalyFlag } from '@/types/timekeeping-pages';
 import { DeviceStatusDashboard } from '@/components/timekeeping/device-status-dashboard';
-import { ChevronDown, ChevronUp, Filter, RefreshCw, Download } from 'lucide-react';
+import { LedgerRangeVerificationDialog } from '@/components/timekeeping/ledger-chain-verification';
+import { LedgerExportDialog } from '@/components/timekeeping/ledger-export-bundle';
+import { ChevronDown, ChevronUp, Filter, Radio, Download, ShieldCheck, Unlink, Bell } from 'lucide-react';
 import { cn } from '@/lib/utils';
+import { useLedgerStream } from '@/hooks/use-ledger-stream';
 
 // Declare route as a global function
 declare global {
@@ -29,8 +35,11 @@ interface AttendanceEvent {
     verified: boolean;
     rfid_card: string;
     hash_chain?: string;
+    hash_previous?: string | null;
+    device_signature?: string | null;
     latency_ms?: number;
     source: string;
+    anomalies?: AnomalyFlag[];  // Only on server-rendered rows
 }
 
 interface LedgerHealthStatus {
@@ -82,7 +91,9 @@ export default function TimekeepingLedger() {
         prev_page_url: null,
     };
     const ledgerHealth = (page.props as { ledgerHealth?: LedgerHealthStatus }).ledgerHealth || null;
+    const ledgerAlerts = (page.props as { ledgerAlerts?: ActiveLedgerAlert[] }).ledgerAlerts || [];
     const appliedFilters = (page.props as { filters?: Record<string, unknown> }).filters || {};
+    const departments = (page.props as { departments?: ReconstructionDepartment[] }).departments || [];
     
     // State for UI controls
     const [showFilterPanel, setShowFilterPanel] = useState(true);
@@ -91,8 +102,9 @@ export default function TimekeepingLedger() {
         ...defaultFilters,
         ...appliedFilters,
     });
-    const [autoRefresh, setAutoRefresh] = useState(false);
-    const [lastRefreshTime, setLastRefreshTime] = useState(new Date());
+    const [liveUpdates, setLiveUpdates] = useState(true);
+    const [showVerifyDialog, setShowVerifyDialog] = useState(false);
+    const [showExportDialog, setShowExportDialog] = useState(false);
     
     // State for Live/Replay mode toggle
     const [replayMode, setReplayMode] = useState(false);
@@ -112,23 +124,41 @@ export default function TimekeepingLedger() {
         latencyMs?: number;
     }>>([]);
 
-    // Auto-refresh effect (reload Inertia page every 30 seconds in Live mode)
-    useEffect(() => {
-        if (!autoRefresh || replayMode) return;
+    // Live push stream (SSE) - only meaningful on the first page, where new events land on top.
+    // A range that ended before today gets no new taps, so it does not hold a server worker open.
+    const rangeEnded = Boolean(appliedFilters.date_to) && String(appliedFilters.date_to) < format(new Date(), 'yyyy-MM-dd');
+    const streamEnabled = liveUpdates && !replayMode && logs.current_page === 1 && !rangeEnded;
+    const streamUrl = useMemo(() => {
+        const params: Record<string, string> = {};
+        if (appliedFilters.date_from) params.date_from = String(appliedFilters.date_from);
+        if (appliedFilters.date_to) params.date_to = String(appliedFilters.date_to);
+        if (appliedFilters.device_id) params.device_id = String(appliedFilters.device_id);
+        if (appliedFilters.event_type) params.event_type = String(appliedFilters.event_type);
+        if (appliedFilters.employee_rfid) params.employee_rfid = String(appliedFilters.employee_rfid);
+        if (appliedFilters.employee_search) params.employee_search = String(appliedFilters.employee_search);
+        return route('hr.timekeeping.api.ledger.stream', params);
+    }, [appliedFilters.date_from, appliedFilters.date_to, appliedFilters.device_id, appliedFilters.event_type, appliedFilters.employee_rfid, appliedFilters.employee_search]);
 
-        const interval = setInterval(() => {
-            router.reload({ only: ['logs', 'ledgerHealth'] });
-            setLastRefreshTime(new Date());
-        }, 30000); // 30 seconds
+    // Resume from the ledger head the page was rendered with so nothing committed since is missed
+    const pageHeadSequenceId = Math.max(
+        logs.data[0]?.sequence_id ?? 0,
+        ledgerHealth?.last_sequence_id ?? 0,
+    );
+
+    const ledgerStream = useLedgerStream<AttendanceEvent, LedgerHealthStatus>({
+        url: streamUrl,
+        enabled: streamEnabled,
+        initialSequenceId: pageHeadSequenceId,
+    });
 
-        return () => clearInterval(interval);
-    }, [autoRefresh, replayMode]);
+    // Pushed health snapshots take over from the server-rendered one
+    const currentHealth = ledgerStream.health ?? ledgerHealth;
 
     // Transform controller health status to widget format
     const transformedHealthState = useMemo(() => {
-        if (!ledgerHealth) return null;
+        if (!currentHealth) return null;
 
-        const lastSyncDate = new Date(ledgerHealth.last_sync);
+        const lastSyncDate = new Date(currentHealth.last_sync);
         const minutesAgo = Math.floor((new Date().getTime() - lastSyncDate.getTime()) / 60000);
 
         // Map controller status to widget status type
@@ -139,34 +169,40 @@ export default function TimekeepingLedger() {
         };
 
         return {
-            status: mapStatus(ledgerHealth.status),
-            lastSequence: ledgerHealth.last_sequence_id,
+            status: mapStatus(currentHealth.status),
+            lastSequence: currentHealth.last_sequence_id,
             lastProcessedAgo: `${minutesAgo}m ago`,
-            processingRate: ledgerHealth.performance.events_per_hour,
-            integrityStatus: ledgerHealth.hash_verification.failed === 0 ? 'verified' as const : 'hash_mismatch_detected' as const,
-            devicesOnline: ledgerHealth.devices_online,
-            devicesOffline: ledgerHealth.devices_offline,
-            backlog: ledgerHealth.performance.queue_depth,
+            processingRate: currentHealth.performance.events_per_hour,
+            integrityStatus: currentHealth.hash_verification.failed === 0 ? 'verified' as const : 'hash_mismatch_detected' as const,
+            devicesOnline: currentHealth.devices_online,
+            devicesOffline: currentHealth.devices_offline,
+            backlog: currentHealth.performance.queue_depth,
             processingRateHistory: [
-                ledgerHealth.performance.events_per_hour,
-                ledgerHealth.performance.events_per_hour - 5,
-                ledgerHealth.performance.events_per_hour + 3,
-                ledgerHealth.performance.events_per_hour - 2,
-                ledgerHealth.performance.events_per_hour + 1,
-                ledgerHealth.performance.events_per_hour,
-                ledgerHealth.performance.events_per_hour + 2,
-                ledgerHealth.performance.events_per_hour - 1,
-                ledgerHealth.performance.events_per_hour,
-                ledgerHealth.performance.events_per_hour + 3,
-                ledgerHealth.performance.events_per_hour - 2,
-                ledgerHealth.performance.events_per_hour,
+                currentHealth.performance.events_per_hour,
+                currentHealth.performance.events_per_hour - 5,
+                currentHealth.performance.events_per_hour + 3,
+                currentHealth.performance.events_per_hour - 2,
+                currentHealth.performance.events_per_hour + 1,
+                currentHealth.performance.events_per_hour,
+                currentHealth.performance.events_per_hour + 2,
+                currentHealth.performance.events_per_hour - 1,
+                currentHealth.performance.events_per_hour,
+                currentHealth.performance.events_per_hour + 3,
+                currentHealth.performance.events_per_hour - 2,
+                currentHealth.performance.events_per_hour,
             ]
         };
-    }, [ledgerHealth]);
+    }, [currentHealth]);
 
     // Convert controller logs to TimeLogEntry format for the stream
     const convertedLogs = useMemo(() => {
-        return logs.data.map(log => ({
+        // Streamed events go on top; skip any already present in the server-rendered page
+        const knownSequenceIds = new Set(logs.data.map(log => log.sequence_id));
+        const streamedEvents = streamEnabled
+            ? ledgerStream.events.filter(log => !knownSequenceIds.has(log.sequence_id))
+            : [];
+
+        return [...streamedEvents, ...logs.data].map(log => ({
             id: log.id,
             sequenceId: log.sequence_id,
             employeeId: log.employee_id,
@@ -179,9 +215,11 @@ export default function TimekeepingLedger() {
             deviceLocation: log.device_location,
             verified: log.verified,
             hashChain: log.hash_chain,
+            signature: log.device_signature ?? undefined,
             latencyMs: log.latency_ms,
+            anomalies: log.anomalies,
         }));
-    }, [logs.data]);
+    }, [logs.data, ledgerStream.events, streamEnabled]);
 
     // Handler for filter changes - reloads page with new filters as query params
     const handleFiltersChange = (newFilters: LogsFilterConfig) => {
@@ -247,49 +285,6 @@ export default function TimekeepingLedger() {
     // Toggle replay mode
     const handleToggleLiveReplayMode = () => {
         setReplayMode(!replayMode);
-        if (!replayMode) {
-            setAutoRefresh(false); // Disable auto-refresh when entering replay mode
-        }
-    };
-
-    // Export handler for CSV/JSON
-    const handleExport = (format: 'csv' | 'json') => {
-        const dataToExport = replayMode ? replayEvents : convertedLogs;
-        
-        if (format === 'json') {
-            const jsonStr = JSON.stringify(dataToExport, null, 2);
-            const blob = new Blob([jsonStr], { type: 'application/json' });
-            const url = URL.createObjectURL(blob);
-            const a = document.createElement('a');
-            a.href = url;
-            a.download = `ledger-events-${new Date().toISOString()}.json`;
-            a.click();
-            URL.revokeObjectURL(url);
-        } else {
-            // CSV export
-            const headers = ['Sequence ID', 'Employee ID', 'Employee Name', 'Event Type', 'Timestamp', 'Device ID', 'Device Location', 'Verified'];
-            const csvRows = [
-                headers.join(','),
-                ...dataToExport.map(log => [
-                    log.sequenceId,
-                    log.employeeId,
-                    `"${log.employeeName}"`,
-                    log.eventType,
-                    log.timestamp,
-                    log.deviceId,
-                    `"${log.deviceLocation}"`,
-                    log.verified
-                ].join(','))
-            ];
-            const csvStr = csvRows.join('\n');
-            const blob = new Blob([csvStr], { type: 'text/csv' });
-            const url = URL.createObjectURL(blob);
-            const a = document.createElement('a');
-            a.href = url;
-            a.download = `ledger-events-${new Date().toISOString()}.csv`;
-            a.click();
-            URL.revokeObjectURL(url);
-        }
     };
 
     // Stream Header Actions
@@ -309,34 +304,64 @@ export default function TimekeepingLedger() {
                 <span className="text-xs sm:hidden">Filters</span>
             </Button>
 
-            {/* Auto-Refresh Toggle (Live Mode Only) */}
+            {/* Live Updates Toggle (Live Mode Only) */}
             {!replayMode && (
                 <Button
-                    variant={autoRefresh ? 'default' : 'outline'}
+                    variant={liveUpdates ? 'default' : 'outline'}
                     size="sm"
-                    onClick={() => setAutoRefresh(!autoRefresh)}
+                    onClick={() => setLiveUpdates(!liveUpdates)}
                     className="h-7 px-2.5 gap-1.5"
                 >
-                    <RefreshCw className={cn("h-3.5 w-3.5", autoRefresh && "animate-spin")} />
+                    <Radio className={cn("h-3.5 w-3.5", liveUpdates && ledgerStream.status === 'open' && "animate-pulse")} />
                     <span className="text-xs hidden sm:inline">
-                        {autoRefresh ? 'Auto ON' : 'Auto OFF'}
+                        {liveUpdates ? 'Live ON' : 'Live OFF'}
                     </span>
-                    <span className="text-xs sm:hidden">Auto</span>
+                    <span className="text-xs sm:hidden">Live</span>
                 </Button>
             )}
 
+            {/* Verify Range Button */}
+            <Button
+                variant="outline"
+                size="sm"
+                className="h-7 px-2.5 gap-1.5"
+                onClick={() => setShowVerifyDialog(true)}
+            >
+                <ShieldCheck className="h-3.5 w-3.5" />
+                <span className="text-xs">Verify</span>
+            </Button>
+
             {/* Export Button */}
             <Button
                 variant="outline"
                 size="sm"
                 className="h-7 px-2.5 gap-1.5"
-                onClick={() => handleExport('json')}
+                onClick={() => setShowExportDialog(true)}
             >
                 <Download className="h-3.5 w-3.5" />
                 <span className="text-xs">Export</span>
             </Button>
+
+            {/* Sequence Gaps Link */}
+            <Button variant="outline" size="sm" className="h-7 px-2.5 gap-1.5" asChild>
+                <Link href={route('hr.timekeeping.ledger-gaps.index')}>
+                    <Unlink className="h-3.5 w-3.5" />
+                    <span className="text-xs">Gaps</span>
+                </Link>
+            </Button>
+
+            {/* Alert Rules Link */}
+            <Button variant="outline" size="sm" className="h-7 px-2.5 gap-1.5" asChild>
+                <Link href={route('hr.timekeeping.ledger-alerts.index')}>
+                    <Bell className="h-3.5 w-3.5" />
+                    <span className="text-xs">Alerts</span>
+                    {ledgerAlerts.length > 0 && (
+                        <Badge variant="destructive" className="h-4 px-1 text-[10px]">{ledgerAlerts.length}</Badge>
+                    )}
+                </Link>
+            </Button>
         </div>
-    ), [showFilterPanel, replayMode, autoRefresh]);
+    ), [showFilterPanel, replayMode, liveUpdates, ledgerStream.status, ledgerAlerts.length]);
 
     return (
         <AppLayout>
@@ -344,8 +369,8 @@ export default function TimekeepingLedger() {
 
             <div className="py-4 space-y-4">
                 {/* Ledger Health Widget */}
-                {ledgerHealth && transformedHealthState ? (
-                    <LedgerHealthWidget healthState={transformedHealthState} />
+                {currentHealth && transformedHealthState ? (
+                    <LedgerHealthWidget healthState={transformedHealthState} activeAlerts={ledgerAlerts} />
                 ) : null}
 
                 {/* Live Mode / Replay Mode Toggle */}
@@ -397,6 +422,7 @@ export default function TimekeepingLedger() {
                             logs={replayMode ? replayEvents : convertedLogs} 
                             maxHeight="calc(100vh - 420px)"
                             showLiveIndicator={!replayMode}
+                            connectionStatus={streamEnabled ? ledgerStream.status : 'idle'}
                             autoScroll={!replayMode}
                             headerActions={streamHeaderActions}
                         />
@@ -441,10 +467,29 @@ export default function TimekeepingLedger() {
                 {replayMode && (
                     <EventReplayControl 
                         className="mt-2" 
+                        departments={departments}
                         onVisibleEventsChange={handleReplayVisibleEventsChange}
                     />
                 )}
 
+                {/* In-browser hash chain / signature verification for a range */}
+                <LedgerRangeVerificationDialog
+                    open={showVerifyDialog}
+                    onOpenChange={setShowVerifyDialog}
+                    defaultDateFrom={appliedFilters.date_from ? String(appliedFilters.date_from) : undefined}
+                    defaultDateTo={appliedFilters.date_to ? String(appliedFilters.date_to) : undefined}
+                    defaultDeviceId={appliedFilters.device_id && appliedFilters.device_id !== 'all' ? String(appliedFilters.device_id) : undefined}
+                />
+
+                {/* Tamper-evident export bundle + bundle verifier */}
+                <LedgerExportDialog
+                    open={showExportDialog}
+                    onOpenChange={setShowExportDialog}
+                    defaultDateFrom={appliedFilters.date_from ? String(appliedFilters.date_from) : undefined}
+                    defaultDateTo={appliedFilters.date_to ? String(appliedFilters.date_to) : undefined}
+                    defaultDeviceId={appliedFilters.device_id && appliedFilters.device_id !== 'all' ? String(appliedFilters.device_id) : undefined}
+                />
+
                 {/* Device Status Dashboard (Collapsible) */}
                 <Card className="border shadow-sm">
                     <CardHeader 
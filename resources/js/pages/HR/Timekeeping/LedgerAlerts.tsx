@@ -0,0 +1,240 @@
+import { Head, router, usePage } from '@inertiajs/react';
+import { format, formatDistanceToNow, parseISO } from 'date-fns';
+import AppLayout from '@/layouts/app-layout';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { usePermission } from '@/components/permission-gate';
+import {
+    LEDGER_ALERT_METRICS,
+    LEDGER_ALERT_SEVERITY_CLASSES,
+    LedgerAlertRules,
+} from '@/components/timekeeping/ledger-alert-rules';
+import { Check } from 'lucide-react';
+import { LedgerAlert, LedgerAlertMetric, LedgerAlertsProps, LedgerAlertStatus } from '@/types/timekeeping-pages';
+
+const STATUS_BADGE: Record<LedgerAlertStatus, 'default' | 'secondary' | 'destructive' | 'outline'> = {
+    open: 'destructive',
+    acknowledged: 'default',
+    snoozed: 'secondary',
+    resolved: 'outline',
+};
+
+const snoozeLabel = (minutes: number) => (
+    minutes < 60 ? `${minutes} minutes` : minutes === 60 ? '1 hour' : minutes < 1440 ? `${minutes / 60} hours` : `${minutes / 1440} day`
+);
+
+export default function LedgerAlerts() {
+    const { alerts, activeCount, rules, recipients, devices, snoozeOptions, filters } = usePage().props as unknown as LedgerAlertsProps;
+    const { hasPermission } = usePermission();
+    const canRespond = hasPermission('hr.timekeeping.attendance.update');
+    const canManage = hasPermission('hr.timekeeping.manage');
+
+    const breadcrumbs = [
+        { title: 'HR', href: '/hr' },
+        { title: 'Timekeeping', href: '/hr/timekeeping' },
+        { title: 'Ledger', href: '/hr/timekeeping/ledger' },
+        { title: 'Alerts', href: '/hr/timekeeping/ledger-alerts' },
+    ];
+
+    const applyFilters = (changes: Partial<LedgerAlertsProps['filters']>) => {
+        const next: Record<string, string | null | undefined> = { ...filters, ...changes };
+        const params = Object.fromEntries(
+            Object.entries(next).filter(([, value]) => value !== null && value !== undefined && value !== '' && value !== 'any')
+        );
+        router.get(route('hr.timekeeping.ledger-alerts.index'), params, { preserveState: true, preserveScroll: true });
+    };
+
+    const acknowledge = (alert: LedgerAlert) => {
+        router.patch(route('hr.timekeeping.ledger-alerts.acknowledge', { alertId: alert.id }), {}, { preserveScroll: true });
+    };
+
+    const snooze = (alert: LedgerAlert, minutes: number) => {
+        router.patch(route('hr.timekeeping.ledger-alerts.snooze', { alertId: alert.id }), { minutes }, { preserveScroll: true });
+    };
+
+    const statusDetail = (alert: LedgerAlert) => {
+        switch (alert.status) {
+            case 'acknowledged':
+                return alert.acknowledged_at && `by ${alert.acknowledged_by ?? 'unknown'}, ${formatDistanceToNow(parseISO(alert.acknowledged_at), { addSuffix: true })}`;
+            case 'snoozed':
+                return alert.snoozed_until && `until ${format(parseISO(alert.snoozed_until), 'MMM d, h:mm a')} by ${alert.snoozed_by ?? 'unknown'}`;
+            case 'resolved':
+                return alert.resolved_at && format(parseISO(alert.resolved_at), 'MMM d, h:mm a');
+            default:
+                return `last seen ${formatDistanceToNow(parseISO(alert.last_seen_at), { addSuffix: true })}`;
+        }
+    };
+
+    return (
+        <AppLayout breadcrumbs={breadcrumbs}>
+            <Head title="Ledger Alerts" />
+
+            <div className="space-y-6 p-6">
+                {/* Header */}
+                <div className="flex flex-col">
+                    <h1 className="text-3xl font-bold">Ledger Alerts</h1>
+                    <p className="text-gray-600">
+                        Alerts raised by the ledger health rules, with who acknowledged or snoozed them
+                    </p>
+                </div>
+
+                <div className="grid gap-4 md:grid-cols-3">
+                    <Card className="cursor-pointer hover:border-primary" onClick={() => applyFilters({ status: 'active' })}>
+                        <CardHeader className="pb-2">
+                            <CardTitle className="text-sm font-medium text-gray-600">Active Alerts</CardTitle>
+                        </CardHeader>
+                        <CardContent>
+                            <div className="text-2xl font-bold">{activeCount}</div>
+                            <p className="text-xs text-gray-500">open, acknowledged or snoozed</p>
+                        </CardContent>
+                    </Card>
+                    <Card>
+                        <CardHeader className="pb-2">
+                            <CardTitle className="text-sm font-medium text-gray-600">Rules</CardTitle>
+                        </CardHeader>
+                        <CardContent>
+                            <div className="text-2xl font-bold">{rules.filter(rule => rule.is_enabled).length}</div>
+                            <p className="text-xs text-gray-500">enabled of {rules.length}</p>
+                        </CardContent>
+                    </Card>
+                </div>
+
+                <Card>
+                    <CardHeader>
+                        <CardTitle>Alert History</CardTitle>
+                    </CardHeader>
+                    <CardContent className="space-y-4">
+                        <div className="grid gap-3 md:grid-cols-2 lg:grid-cols-4 items-end">
+                            <div className="space-y-1">
+                                <Label className="text-xs">Status</Label>
+                                <Select value={filters.status} onValueChange={value => applyFilters({ status: value as LedgerAlertsProps['filters']['status'] })}>
+                                    <SelectTrigger><SelectValue /></SelectTrigger>
+                                    <SelectContent>
+                                        <SelectItem value="active">Active</SelectItem>
+                                        <SelectItem value="open">Open</SelectItem>
+                                        <SelectItem value="acknowledged">Acknowledged</SelectItem>
+                                        <SelectItem value="snoozed">Snoozed</SelectItem>
+                                        <SelectItem value="resolved">Resolved</SelectItem>
+                                        <SelectItem value="all">All</SelectItem>
+                                    </SelectContent>
+                                </Select>
+                            </div>
+                            <div className="space-y-1">
+                                <Label className="text-xs">Metric</Label>
+                                <Select value={filters.metric ?? 'any'} onValueChange={value => applyFilters({ metric: value as LedgerAlertMetric })}>
+                                    <SelectTrigger><SelectValue /></SelectTrigger>
+                                    <SelectContent>
+                                        <SelectItem value="any">Any metric</SelectItem>
+                                        {(Object.keys(LEDGER_ALERT_METRICS) as LedgerAlertMetric[]).map(key => (
+                                            <SelectItem key={key} value={key}>{LEDGER_ALERT_METRICS[key].label}</SelectItem>
+                                        ))}
+                                    </SelectContent>
+                                </Select>
+                            </div>
+                        </div>
+
+                        <Table>
+                            <TableHeader>
+                                <TableRow>
+                                    <TableHead>Alert</TableHead>
+                                    <TableHead>Severity</TableHead>
+                                    <TableHead>Triggered</TableHead>
+                                    <TableHead>Status</TableHead>
+                                    {canRespond && <TableHead className="w-64" />}
+                                </TableRow>
+                            </TableHeader>
+                            <TableBody>
+                                {alerts.data.length === 0 && (
+                                    <TableRow>
+                                        <TableCell colSpan={canRespond ? 5 : 4} className="text-center text-sm text-muted-foreground py-6">
+                                            No alerts match these filters.
+                                        </TableCell>
+                                    </TableRow>
+                                )}
+                                {alerts.data.map(alert => (
+                                    <TableRow key={alert.id}>
+                                        <TableCell className="text-sm">
+                                            <div className="font-medium">{alert.message}</div>
+                                            <div className="text-xs text-muted-foreground">
+                                                {alert.rule_name} · {LEDGER_ALERT_METRICS[alert.metric]?.label ?? alert.metric}
+                                                {alert.notification_count > 0 && ` · notified ${alert.notification_count}×`}
+                                            </div>
+                                        </TableCell>
+                                        <TableCell>
+                                            <Badge variant="outline" className={LEDGER_ALERT_SEVERITY_CLASSES[alert.severity]}>
+                                                {alert.severity}
+                                            </Badge>
+                                        </TableCell>
+                                        <TableCell className="text-sm">
+                                            {format(parseISO(alert.triggered_at), 'MMM d, h:mm a')}
+                                        </TableCell>
+                                        <TableCell className="text-sm">
+                                            <Badge variant={STATUS_BADGE[alert.status]}>{alert.status}</Badge>
+                                            <div className="text-xs text-muted-foreground mt-1">{statusDetail(alert)}</div>
+                                        </TableCell>
+                                        {canRespond && (
+                                            <TableCell>
+                                                {alert.status !== 'resolved' && (
+                                                    <div className="flex items-center justify-end gap-2">
+                                                        {alert.status !== 'acknowledged' && (
+                                                            <Button size="sm" variant="outline" onClick={() => acknowledge(alert)}>
+                                                                <Check className="h-4 w-4 mr-1" />
+                                                                Acknowledge
+                                                            </Button>
+                                                        )}
+                                                        <Select value="" onValueChange={value => snooze(alert, Number(value))}>
+                                                            <SelectTrigger className="h-8 w-28"><SelectValue placeholder="Snooze" /></SelectTrigger>
+                                                            <SelectContent>
+                                                                {snoozeOptions.map(minutes => (
+                                                                    <SelectItem key={minutes} value={minutes.toString()}>{snoozeLabel(minutes)}</SelectItem>
+                                                                ))}
+                                                            </SelectContent>
+                                                        </Select>
+                                                    </div>
+                                                )}
+                                            </TableCell>
+                                        )}
+                                    </TableRow>
+                                ))}
+                            </TableBody>
+                        </Table>
+
+                        {/* Pagination */}
+                        {alerts.total > alerts.per_page && (
+                            <div className="flex items-center justify-between">
+                                <div className="text-xs text-muted-foreground">
+                                    Showing {alerts.from} to {alerts.to} of {alerts.total} alerts
+                                </div>
+                                <div className="flex items-center gap-2">
+                                    <Button
+                                        variant="outline"
+                                        size="sm"
+                                        disabled={!alerts.prev_page_url}
+                                        onClick={() => router.visit(alerts.prev_page_url!, { preserveState: true })}
+                                    >
+                                        ← Prev
+                                    </Button>
+                                    <span className="text-xs">Page {alerts.current_page} of {alerts.last_page}</span>
+                                    <Button
+                                        variant="outline"
+                                        size="sm"
+                                        disabled={!alerts.next_page_url}
+                                        onClick={() => router.visit(alerts.next_page_url!, { preserveState: true })}
+                                    >
+                                        Next →
+                                    </Button>
+                                </div>
+                            </div>
+                        )}
+                    </CardContent>
+                </Card>
+
+                <LedgerAlertRules rules={rules} recipients={recipients} devices={devices} canManage={canManage} />
+            </div>
+        </AppLayout>
+    );
+}
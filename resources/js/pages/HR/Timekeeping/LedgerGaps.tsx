@@ -0,0 +1,261 @@
+import { Head, Link, router, usePage } from '@inertiajs/react';
+import { useState } from 'react';
+import { format, formatDistanceToNow, parseISO } from 'date-fns';
+import AppLayout from '@/layouts/app-layout';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { usePermission } from '@/components/permission-gate';
+import { ArrowLeft, CheckCircle2, HardDriveUpload, Server } from 'lucide-react';
+import { DeviceLedgerGaps, LedgerGap, LedgerGapsProps } from '@/types/timekeeping-pages';
+
+const gapRange = (gap: LedgerGap) =>
+    gap.gap_size === 1 ? `#${gap.missing_start}` : `#${gap.missing_start} – #${gap.missing_end}`;
+
+const gapWindow = (gap: LedgerGap) => {
+    const after = format(parseISO(gap.after), 'MMM d, h:mm a');
+    return gap.before ? `${after} → ${format(parseISO(gap.before), 'MMM d, h:mm a')}` : `after ${after}`;
+};
+
+export default function LedgerGaps() {
+    const { devices, deviceOptions, windowDays, filters, backfillResult } = usePage().props as unknown as LedgerGapsProps;
+    const { hasPermission } = usePermission();
+    const canBackfill = hasPermission('hr.timekeeping.manage');
+
+    const [uploadFor, setUploadFor] = useState<DeviceLedgerGaps | null>(null);
+    const [file, setFile] = useState<File | null>(null);
+    const [uploadError, setUploadError] = useState<string | null>(null);
+    const [uploading, setUploading] = useState(false);
+
+    const totalMissing = devices.reduce((sum, device) => sum + device.missing_count, 0);
+    const devicesWithGaps = devices.filter(device => device.gaps.length > 0);
+
+    const breadcrumbs = [
+        { title: 'HR', href: '/hr' },
+        { title: 'Timekeeping', href: '/hr/timekeeping' },
+        { title: 'Ledger', href: '/hr/timekeeping/ledger' },
+        { title: 'Sequence Gaps', href: '/hr/timekeeping/ledger-gaps' },
+    ];
+
+    const openUpload = (device: DeviceLedgerGaps) => {
+        setFile(null);
+        setUploadError(null);
+        setUploadFor(device);
+    };
+
+    const upload = () => {
+        if (!uploadFor || !file) return;
+        setUploading(true);
+        router.post(route('hr.timekeeping.ledger-gaps.backfill'), { device_id: uploadFor.device_id, file }, {
+            forceFormData: true,
+            preserveScroll: true,
+            onSuccess: () => setUploadFor(null),
+            onError: errors => setUploadError(errors.file ?? errors.device_id ?? 'Upload failed.'),
+            onFinish: () => setUploading(false),
+        });
+    };
+
+    return (
+        <AppLayout breadcrumbs={breadcrumbs}>
+            <Head title="Ledger Sequence Gaps - Timekeeping" />
+
+            <div className="space-y-6 p-6">
+                {/* Header */}
+                <div className="flex items-center justify-between">
+                    <div className="flex items-center gap-4">
+                        <Button variant="outline" size="sm" asChild>
+                            <Link href={route('hr.timekeeping.ledger.index')}>
+                                <ArrowLeft className="h-4 w-4 mr-2" />
+                                Back to Ledger
+                            </Link>
+                        </Button>
+                        <div>
+                            <h1 className="text-2xl font-bold">Ledger Sequence Gaps</h1>
+                            <p className="text-muted-foreground">
+                                Taps each device numbered in its local store but the server never received (last {windowDays} days)
+                            </p>
+                        </div>
+                    </div>
+                    <Select
+                        value={filters.device_id}
+                        onValueChange={value => router.get(route('hr.timekeeping.ledger-gaps.index'), value === 'all' ? {} : { device_id: value }, { preserveState: true })}
+                    >
+                        <SelectTrigger className="w-56">
+                            <SelectValue placeholder="All devices" />
+                        </SelectTrigger>
+                        <SelectContent>
+                            <SelectItem value="all">All devices</SelectItem>
+                            {deviceOptions.map(option => (
+                                <SelectItem key={option.id} value={option.id}>{option.id} · {option.name}</SelectItem>
+                            ))}
+                        </SelectContent>
+                    </Select>
+                </div>
+
+                {backfillResult && (
+                    <Alert>
+                        <CheckCircle2 className="h-4 w-4" />
+                        <AlertTitle>Backfill for {backfillResult.device_id}</AlertTitle>
+                        <AlertDescription>
+                            {backfillResult.rows} row(s) read: {backfillResult.backfilled} added to the ledger,{' '}
+                            {backfillResult.duplicates} duplicate(s) rejected, {backfillResult.already_received} already received
+                            {backfillResult.invalid > 0 && `, ${backfillResult.invalid} unreadable`}.
+                            {backfillResult.sequence_ids.length > 0 && (
+                                <> New sequence IDs #{backfillResult.sequence_ids[0]}
+                                    {backfillResult.sequence_ids.length > 1 && ` – #${backfillResult.sequence_ids[backfillResult.sequence_ids.length - 1]}`}.</>
+                            )}
+                        </AlertDescription>
+                    </Alert>
+                )}
+
+                {/* Summary */}
+                <div className="grid gap-4 md:grid-cols-3">
+                    <Card>
+                        <CardHeader className="pb-3">
+                            <CardDescription>Missing Taps</CardDescription>
+                            <CardTitle className={totalMissing > 0 ? 'text-3xl text-red-600' : 'text-3xl'}>{totalMissing}</CardTitle>
+                        </CardHeader>
+                    </Card>
+                    <Card>
+                        <CardHeader className="pb-3">
+                            <CardDescription>Devices With Gaps</CardDescription>
+                            <CardTitle className="text-3xl">{devicesWithGaps.length} / {devices.length}</CardTitle>
+                        </CardHeader>
+                    </Card>
+                    <Card>
+                        <CardHeader className="pb-3">
+                            <CardDescription>Waiting On Devices</CardDescription>
+                            <CardTitle className="text-3xl">
+                                {devices.reduce((sum, device) => sum + (device.local_store?.pending ?? 0), 0)}
+                            </CardTitle>
+                        </CardHeader>
+                        <CardContent className="text-xs text-muted-foreground">
+                            Unsent taps reported by device heartbeats
+                        </CardContent>
+                    </Card>
+                </div>
+
+                {/* Per-device gaps */}
+                {devices.map(device => (
+                    <Card key={device.device_id}>
+                        <CardHeader>
+                            <div className="flex items-start justify-between">
+                                <div>
+                                    <CardTitle className="flex items-center gap-2">
+                                        <Server className="h-5 w-5 text-muted-foreground" />
+                                        {device.device_id}
+                                        <span className="text-base font-normal text-muted-foreground">{device.device_name}</span>
+                                        {device.gaps.length === 0
+                                            ? <Badge variant="outline" className="text-green-700 border-green-200 bg-green-50">No gaps</Badge>
+                                            : <Badge variant="destructive">{device.missing_count} missing</Badge>}
+                                    </CardTitle>
+                                    <CardDescription className="mt-1">
+                                        {device.received} tap(s) received
+                                        {device.last_received_local_id !== null && `, up to local #${device.last_received_local_id}`}
+                                        {device.local_store && (
+                                            <>
+                                                {' '}· device reports {device.local_store.pending} unsent, last local #{device.local_store.last_local_id}
+                                                {' '}({formatDistanceToNow(parseISO(device.local_store.reported_at), { addSuffix: true })})
+                                            </>
+                                        )}
+                                    </CardDescription>
+                                </div>
+                                {canBackfill && (
+                                    <Button variant="outline" size="sm" onClick={() => openUpload(device)}>
+                                        <HardDriveUpload className="h-4 w-4 mr-2" />
+                                        Upload Local Store
+                                    </Button>
+                                )}
+                            </div>
+                        </CardHeader>
+                        {device.gaps.length > 0 && (
+                            <CardContent>
+                                <Table>
+                                    <TableHeader>
+                                        <TableRow>
+                                            <TableHead>Local IDs</TableHead>
+                                            <TableHead>Missing</TableHead>
+                                            <TableHead>Between</TableHead>
+                                            <TableHead>Likely Affected</TableHead>
+                                        </TableRow>
+                                    </TableHeader>
+                                    <TableBody>
+                                        {device.gaps.map(gap => (
+                                            <TableRow key={gap.missing_start}>
+                                                <TableCell className="font-mono text-sm align-top">
+                                                    {gapRange(gap)}
+                                                    {gap.pending_on_device && (
+                                                        <div><Badge variant="secondary" className="mt-1 text-xs">Not sent yet</Badge></div>
+                                                    )}
+                                                </TableCell>
+                                                <TableCell className="align-top">{gap.gap_size}</TableCell>
+                                                <TableCell className="text-sm align-top">
+                                                    {gapWindow(gap)}
+                                                    <div className="text-xs text-muted-foreground">
+                                                        {gap.dates.map(date => format(parseISO(date), 'MMM d')).join(', ')}
+                                                    </div>
+                                                </TableCell>
+                                                <TableCell className="align-top">
+                                                    {gap.affected_employees.length === 0 ? (
+                                                        <span className="text-xs text-muted-foreground">No unpaired punches on these dates</span>
+                                                    ) : (
+                                                        <div className="space-y-0.5 text-xs">
+                                                            {gap.affected_employees.map(employee => (
+                                                                <div key={`${employee.employee_id}-${employee.date}`}>
+                                                                    <span className="font-medium">{employee.name}</span>
+                                                                    <span className="text-muted-foreground">
+                                                                        {' '}({employee.employee_number}) · {format(parseISO(employee.date), 'MMM d')} · {employee.taps} tap(s)
+                                                                    </span>
+                                                                </div>
+                                                            ))}
+                                                        </div>
+                                                    )}
+                                                </TableCell>
+                                            </TableRow>
+                                        ))}
+                                    </TableBody>
+                                </Table>
+                            </CardContent>
+                        )}
+                    </Card>
+                ))}
+            </div>
+
+            {/* Backfill upload */}
+            <Dialog open={uploadFor !== null} onOpenChange={open => !open && setUploadFor(null)}>
+                <DialogContent>
+                    <DialogHeader>
+                        <DialogTitle>Backfill {uploadFor?.device_id} from its local store</DialogTitle>
+                        <DialogDescription>
+                            Upload the gate PC's <code>buffer.db</code> or a JSON export of its local store. Taps the
+                            ledger is missing are appended to the device's hash chain; taps already in the ledger are
+                            rejected by their hash, so uploading the same file twice adds nothing.
+                        </DialogDescription>
+                    </DialogHeader>
+                    <div className="space-y-2">
+                        <Label htmlFor="local_store_file">Local store export</Label>
+                        <Input
+                            id="local_store_file"
+                            type="file"
+                            accept=".db,.sqlite,.json"
+                            onChange={e => setFile(e.target.files?.[0] ?? null)}
+                        />
+                        {uploadError && <p className="text-sm text-red-600">{uploadError}</p>}
+                    </div>
+                    <DialogFooter>
+                        <Button variant="outline" onClick={() => setUploadFor(null)}>Cancel</Button>
+                        <Button onClick={upload} disabled={!file || uploading}>
+                            {uploading ? 'Uploading…' : 'Backfill'}
+                        </Button>
+                    </DialogFooter>
+                </DialogContent>
+            </Dialog>
+        </AppLayout>
+    );
+}
@@ -0,0 +1,333 @@
+import { Head, router, usePage } from '@inertiajs/react';
+import { useState } from 'react';
+import { format, parseISO } from 'date-fns';
+import AppLayout from '@/layouts/app-layout';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { usePermission } from '@/components/permission-gate';
+import { GeofenceManager, mapUrl } from '@/components/timekeeping/geofence-manager';
+import { Camera, Check, X } from 'lucide-react';
+import { MobileClockInIndexProps, MobilePunch, MobilePunchStatus } from '@/types/timekeeping-pages';
+
+const STATUS_BADGE: Record<MobilePunchStatus, 'default' | 'secondary' | 'destructive' | 'outline'> = {
+    pending: 'destructive',
+    approved: 'default',
+    rejected: 'secondary',
+};
+
+const EVENT_LABELS: Record<MobilePunch['event_type'], string> = {
+    time_in: 'Time In',
+    time_out: 'Time Out',
+    break_start: 'Break Start',
+    break_end: 'Break End',
+};
+
+export default function MobileClockInIndex() {
+    const { punches, pendingCount, geofences, filters } = usePage().props as unknown as MobileClockInIndexProps;
+    const { hasPermission } = usePermission();
+    const canReview = hasPermission('hr.timekeeping.corrections.approve');
+    const canManage = hasPermission('hr.timekeeping.manage');
+
+    const [employeeNumber, setEmployeeNumber] = useState(filters.employee_number ?? '');
+    const [rejecting, setRejecting] = useState<MobilePunch | null>(null);
+    const [rejectNotes, setRejectNotes] = useState('');
+    const [rejectError, setRejectError] = useState<string | null>(null);
+
+    const breadcrumbs = [
+        { title: 'HR', href: '/hr' },
+        { title: 'Timekeeping', href: '/hr/timekeeping' },
+        { title: 'Mobile Clock-In', href: '/hr/timekeeping/mobile-clock-in' },
+    ];
+
+    const applyFilters = (changes: Partial<MobileClockInIndexProps['filters']>) => {
+        const next = { ...filters, employee_number: employeeNumber, ...changes };
+        const params = Object.fromEntries(
+            Object.entries(next).filter(([, value]) => value !== null && value !== undefined && value !== '')
+        );
+        router.get(route('hr.timekeeping.mobile-clock-in.index'), params, { preserveState: true, preserveScroll: true });
+    };
+
+    const review = (punch: MobilePunch, status: Exclude<MobilePunchStatus, 'pending'>, notes?: string) => {
+        router.patch(route('hr.timekeeping.mobile-clock-in.review', { punchId: punch.id }), {
+            status,
+            review_notes: notes ?? null,
+        }, {
+            preserveScroll: true,
+            onSuccess: () => setRejecting(null),
+            onError: errors => setRejectError(errors.review_notes ?? errors.status ?? null),
+        });
+    };
+
+    const openReject = (punch: MobilePunch) => {
+        setRejectNotes('');
+        setRejectError(null);
+        setRejecting(punch);
+    };
+
+    const locationCell = (punch: MobilePunch) => (
+        <div className="text-xs space-y-0.5">
+            {punch.geofence ? (
+                <>
+                    <div className={punch.within_geofence ? 'text-green-700' : 'text-red-600'}>
+                        {punch.within_geofence
+                            ? `Inside ${punch.geofence.name}`
+                            : `${punch.distance_meters} m from ${punch.geofence.name} (radius ${punch.geofence.radius_meters} m)`}
+                    </div>
+                    {punch.within_geofence && (punch.accuracy_meters === null || (punch.distance_meters ?? 0) + punch.accuracy_meters > punch.geofence.radius_meters) && (
+                        <div className="text-yellow-700">Too imprecise to approve automatically</div>
+                    )}
+                </>
+            ) : (
+                <div className="text-red-600">No active geofence</div>
+            )}
+            <a
+                href={mapUrl(punch.latitude, punch.longitude)}
+                target="_blank"
+                rel="noreferrer"
+                className="font-mono text-muted-foreground hover:underline"
+            >
+                {punch.latitude.toFixed(6)}, {punch.longitude.toFixed(6)}
+            </a>
+            {punch.accuracy_meters !== null && (
+                <div className="text-muted-foreground">± {Math.round(punch.accuracy_meters)} m accuracy</div>
+            )}
+        </div>
+    );
+
+    return (
+        <AppLayout breadcrumbs={breadcrumbs}>
+            <Head title="Mobile Clock-In" />
+
+            <div className="space-y-6 p-6">
+                {/* Header */}
+                <div className="flex flex-col">
+                    <h1 className="text-3xl font-bold">Mobile Clock-In</h1>
+                    <p className="text-gray-600">
+                        Punches made from the employee portal, checked against each site's geofence
+                    </p>
+                </div>
+
+                {/* Pending count */}
+                <div className="grid gap-4 md:grid-cols-3">
+                    <Card className="cursor-pointer hover:border-primary" onClick={() => applyFilters({ status: 'pending' })}>
+                        <CardHeader className="pb-2">
+                            <CardTitle className="text-sm font-medium text-gray-600">Outside Geofence</CardTitle>
+                        </CardHeader>
+                        <CardContent>
+                            <div className="text-2xl font-bold">{pendingCount}</div>
+                            <p className="text-xs text-gray-500">awaiting approval</p>
+                        </CardContent>
+                    </Card>
+                    <Card>
+                        <CardHeader className="pb-2">
+                            <CardTitle className="text-sm font-medium text-gray-600">Active Geofences</CardTitle>
+                        </CardHeader>
+                        <CardContent>
+                            <div className="text-2xl font-bold">{geofences.filter(geofence => geofence.is_active).length}</div>
+                            <p className="text-xs text-gray-500">of {geofences.length} sites</p>
+                        </CardContent>
+                    </Card>
+                </div>
+
+                {/* Punch log */}
+                <Card>
+                    <CardHeader>
+                        <CardTitle>Portal Punches</CardTitle>
+                    </CardHeader>
+                    <CardContent className="space-y-4">
+                        <div className="grid gap-3 md:grid-cols-2 lg:grid-cols-4 items-end">
+                            <div className="space-y-1">
+                                <Label className="text-xs">Status</Label>
+                                <Select value={filters.status} onValueChange={value => applyFilters({ status: value as MobilePunchStatus | 'all' })}>
+                                    <SelectTrigger><SelectValue /></SelectTrigger>
+                                    <SelectContent>
+                                        <SelectItem value="pending">Pending</SelectItem>
+                                        <SelectItem value="approved">Approved</SelectItem>
+                                        <SelectItem value="rejected">Rejected</SelectItem>
+                                        <SelectItem value="all">All</SelectItem>
+                                    </SelectContent>
+                                </Select>
+                            </div>
+                            <div className="space-y-1">
+                                <Label className="text-xs" htmlFor="employee_number">Employee number</Label>
+                                <Input
+                                    id="employee_number"
+                                    value={employeeNumber}
+                                    placeholder="e.g. EMP-0001"
+                                    onChange={e => setEmployeeNumber(e.target.value)}
+                                    onKeyDown={e => e.key === 'Enter' && applyFilters({})}
+                                />
+                            </div>
+                            <div className="space-y-1">
+                                <Label className="text-xs" htmlFor="date_from">From</Label>
+                                <Input
+                                    id="date_from"
+                                    type="date"
+                                    value={filters.date_from ?? ''}
+                                    onChange={e => applyFilters({ date_from: e.target.value })}
+                                />
+                            </div>
+                            <div className="space-y-1">
+                                <Label className="text-xs" htmlFor="date_to">To</Label>
+                                <Input
+                                    id="date_to"
+                                    type="date"
+                                    value={filters.date_to ?? ''}
+                                    onChange={e => applyFilters({ date_to: e.target.value })}
+                                />
+                            </div>
+                        </div>
+
+                        <Table>
+                            <TableHeader>
+                                <TableRow>
+                                    <TableHead>Employee</TableHead>
+                                    <TableHead>Punch</TableHead>
+                                    <TableHead>Location</TableHead>
+                                    <TableHead>Selfie</TableHead>
+                                    <TableHead>Status</TableHead>
+                                    {canReview && <TableHead className="text-right">Actions</TableHead>}
+                                </TableRow>
+                            </TableHeader>
+                            <TableBody>
+                                {punches.data.length === 0 && (
+                                    <TableRow>
+                                        <TableCell colSpan={canReview ? 6 : 5} className="text-center text-sm text-muted-foreground py-8">
+                                            No punches match these filters.
+                                        </TableCell>
+                                    </TableRow>
+                                )}
+                                {punches.data.map(punch => (
+                                    <TableRow key={punch.id}>
+                                        <TableCell className="text-sm">
+                                            <div className="font-medium">{punch.employee.name}</div>
+                                            <div className="text-xs text-muted-foreground">
+                                                {punch.employee.employee_number}{punch.employee.department && ` · ${punch.employee.department}`}
+                                            </div>
+                                        </TableCell>
+                                        <TableCell className="text-sm whitespace-nowrap">
+                                            <div className="font-medium">{EVENT_LABELS[punch.event_type]}</div>
+                                            <div className="text-xs text-muted-foreground">
+                                                {format(parseISO(punch.punched_at), 'MMM d, yyyy h:mm a')}
+                                            </div>
+                                        </TableCell>
+                                        <TableCell>{locationCell(punch)}</TableCell>
+                                        <TableCell>
+                                            {punch.has_selfie ? (
+                                                <a
+                                                    href={route('hr.timekeeping.mobile-clock-in.selfie', { punchId: punch.id })}
+                                                    target="_blank"
+                                                    rel="noreferrer"
+                                                    className="inline-flex items-center gap-1 text-xs text-primary hover:underline"
+                                                >
+                                                    <Camera className="h-3.5 w-3.5" />
+                                                    View
+                                                </a>
+                                            ) : (
+                                                <span className="text-muted-foreground">—</span>
+                                            )}
+                                        </TableCell>
+                                        <TableCell>
+                                            <Badge variant={STATUS_BADGE[punch.status]} className="capitalize">{punch.status}</Badge>
+                                            {punch.reviewed_by && (
+                                                <div className="text-[10px] text-muted-foreground mt-1">by {punch.reviewed_by}</div>
+                                            )}
+                                            {punch.review_notes && (
+                                                <div className="text-[10px] text-muted-foreground italic max-w-[12rem]">{punch.review_notes}</div>
+                                            )}
+                                        </TableCell>
+                                        {canReview && (
+                                            <TableCell className="text-right whitespace-nowrap">
+                                                {punch.status === 'pending' && (
+                                                    <>
+                                                        <Button variant="outline" size="sm" className="mr-2" onClick={() => review(punch, 'approved')}>
+                                                            <Check className="h-4 w-4 mr-1" />
+                                                            Approve
+                                                        </Button>
+                                                        <Button variant="outline" size="sm" onClick={() => openReject(punch)}>
+                                                            <X className="h-4 w-4 mr-1" />
+                                                            Reject
+                                                        </Button>
+                                                    </>
+                                                )}
+                                            </TableCell>
+                                        )}
+                                    </TableRow>
+                                ))}
+                            </TableBody>
+                        </Table>
+
+                        {/* Pagination */}
+                        {punches.total > punches.per_page && (
+                            <div className="flex items-center justify-between">
+                                <div className="text-xs text-muted-foreground">
+                                    Showing {punches.from} to {punches.to} of {punches.total} punches
+                                </div>
+                                <div className="flex items-center gap-2">
+                                    <Button
+                                        variant="outline"
+                                        size="sm"
+                                        disabled={!punches.prev_page_url}
+                                        onClick={() => router.visit(punches.prev_page_url!, { preserveState: true })}
+                                    >
+                                        ← Prev
+                                    </Button>
+                                    <span className="text-xs">Page {punches.current_page} of {punches.last_page}</span>
+                                    <Button
+                                        variant="outline"
+                                        size="sm"
+                                        disabled={!punches.next_page_url}
+                                        onClick={() => router.visit(punches.next_page_url!, { preserveState: true })}
+                                    >
+                                        Next →
+                                    </Button>
+                                </div>
+                            </div>
+                        )}
+                    </CardContent>
+                </Card>
+
+                <GeofenceManager geofences={geofences} canManage={canManage} />
+            </div>
+
+            {/* Reject dialog */}
+            <Dialog open={rejecting !== null} onOpenChange={open => !open && setRejecting(null)}>
+                <DialogContent>
+                    <DialogHeader>
+                        <DialogTitle>Reject punch</DialogTitle>
+                        <DialogDescription>
+                            {rejecting && `${EVENT_LABELS[rejecting.event_type]} by ${rejecting.employee.name} at ${format(parseISO(rejecting.punched_at), 'MMM d, h:mm a')}`}
+                        </DialogDescription>
+                    </DialogHeader>
+                    <div className="space-y-2">
+                        <Label htmlFor="review_notes">Reason</Label>
+                        <Textarea
+                            id="review_notes"
+                            rows={3}
+                            placeholder="e.g. Not on an approved field assignment that day"
+                            value={rejectNotes}
+                            onChange={e => setRejectNotes(e.target.value)}
+                        />
+                        {rejectError && <p className="text-xs text-red-600">{rejectError}</p>}
+                    </div>
+                    <DialogFooter>
+                        <Button variant="outline" onClick={() => setRejecting(null)}>Cancel</Button>
+                        <Button
+                            disabled={rejectNotes.trim() === ''}
+                            onClick={() => rejecting && review(rejecting, 'rejected', rejectNotes.trim())}
+                        >
+                            Reject
+                        </Button>
+                    </DialogFooter>
+                </DialogContent>
+            </Dialog>
+        </AppLayout>
+    );
+}
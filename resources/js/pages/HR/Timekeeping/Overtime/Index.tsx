@@ -170,6 +170,7 @@ export default function OvertimeIndex() {
                                         <th className="text-left py-3 px-4 font-semibold">Date</th>
                                         <th className="text-left py-3 px-4 font-semibold">Planned Hours</th>
                                         <th className="text-left py-3 px-4 font-semibold">Actual Hours</th>
+                                        <th className="text-left py-3 px-4 font-semibold">Night Diff</th>
                                         <th className="text-left py-3 px-4 font-semibold">Reason</th>
                                         <th className="text-left py-3 px-4 font-semibold">Status</th>
                                         <th className="text-right py-3 px-4 font-semibold">Actions</th>
@@ -182,6 +183,7 @@ export default function OvertimeIndex() {
                                             <td className="py-3 px-4">{record.overtime_date}</td>
                                             <td className="py-3 px-4">{record.planned_hours}h</td>
                                             <td className="py-3 px-4">{record.actual_hours ? `${record.actual_hours}h` : '-'}</td>
+                                            <td className="py-3 px-4">{record.night_diff_minutes ? `${(record.night_diff_minutes / 60).toFixed(1)}h` : '-'}</td>
                                             <td className="py-3 px-4 text-xs">{record.reason.substring(0, 30)}...</td>
                                             <td className="py-3 px-4">
                                                 <span className={`inline-flex items-center px-2 py-1 rounded-full text-xs font-medium ${
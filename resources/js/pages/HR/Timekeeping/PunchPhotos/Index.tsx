@@ -0,0 +1,327 @@
+import { Head, router, usePage } from '@inertiajs/react';
+import { useState } from 'react';
+import { format, parseISO } from 'date-fns';
+import AppLayout from '@/layouts/app-layout';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { usePermission } from '@/components/permission-gate';
+import { PUNCH_PHOTO_STATUS_LABELS } from '@/components/timekeeping/punch-photo-badge';
+import { PunchPhotoSamplingRules } from '@/components/timekeeping/punch-photo-sampling-rules';
+import { Check, UserX } from 'lucide-react';
+import { PunchPhoto, PunchPhotoReviewIndexProps, PunchPhotoReviewReason, PunchPhotoReviewStatus } from '@/types/timekeeping-pages';
+
+const STATUS_BADGE: Record<PunchPhotoReviewStatus, 'default' | 'secondary' | 'destructive' | 'outline'> = {
+    pending: 'secondary',
+    approved: 'default',
+    proxy: 'destructive',
+};
+
+const REASON_LABELS: Record<PunchPhotoReviewReason, string> = {
+    random_sample: 'Random sample',
+    late_night: 'Late night',
+    anomaly: 'Anomaly',
+};
+
+const EVENT_LABELS: Record<string, string> = {
+    time_in: 'Time In',
+    time_out: 'Time Out',
+    break_start: 'Break Start',
+    break_end: 'Break End',
+};
+
+export default function PunchPhotoReviewIndex() {
+    const { photos, pendingCount, rules, filters } = usePage().props as unknown as PunchPhotoReviewIndexProps;
+    const { hasPermission } = usePermission();
+    const canReview = hasPermission('hr.timekeeping.corrections.approve');
+    const canManage = hasPermission('hr.timekeeping.manage');
+
+    const [employeeNumber, setEmployeeNumber] = useState(filters.employee_number ?? '');
+    const [flagging, setFlagging] = useState<PunchPhoto | null>(null);
+    const [flagNotes, setFlagNotes] = useState('');
+    const [flagError, setFlagError] = useState<string | null>(null);
+
+    const breadcrumbs = [
+        { title: 'HR', href: '/hr' },
+        { title: 'Timekeeping', href: '/hr/timekeeping' },
+        { title: 'Punch Photos', href: '/hr/timekeeping/punch-photos' },
+    ];
+
+    const applyFilters = (changes: Partial<PunchPhotoReviewIndexProps['filters']>) => {
+        const next = { ...filters, employee_number: employeeNumber, ...changes };
+        const params = Object.fromEntries(
+            Object.entries(next).filter(([, value]) => value !== null && value !== undefined && value !== '' && value !== 'any')
+        );
+        router.get(route('hr.timekeeping.punch-photos.index'), params, { preserveState: true, preserveScroll: true });
+    };
+
+    const review = (photo: PunchPhoto, status: Exclude<PunchPhotoReviewStatus, 'pending'>, notes?: string) => {
+        router.patch(route('hr.timekeeping.punch-photos.review', { photoId: photo.id }), {
+            status,
+            review_notes: notes ?? null,
+        }, {
+            preserveScroll: true,
+            onSuccess: () => setFlagging(null),
+            onError: errors => setFlagError(errors.review_notes ?? errors.status ?? null),
+        });
+    };
+
+    const openFlag = (photo: PunchPhoto) => {
+        setFlagNotes('');
+        setFlagError(null);
+        setFlagging(photo);
+    };
+
+    return (
+        <AppLayout breadcrumbs={breadcrumbs}>
+            <Head title="Punch Photos" />
+
+            <div className="space-y-6 p-6">
+                {/* Header */}
+                <div className="flex flex-col">
+                    <h1 className="text-3xl font-bold">Punch Photo Verification</h1>
+                    <p className="text-gray-600">
+                        Compare the camera photo of sampled RFID punches with the card holder's profile photo
+                    </p>
+                </div>
+
+                <div className="grid gap-4 md:grid-cols-3">
+                    <Card className="cursor-pointer hover:border-primary" onClick={() => applyFilters({ status: 'pending' })}>
+                        <CardHeader className="pb-2">
+                            <CardTitle className="text-sm font-medium text-gray-600">Review Queue</CardTitle>
+                        </CardHeader>
+                        <CardContent>
+                            <div className="text-2xl font-bold">{pendingCount}</div>
+                            <p className="text-xs text-gray-500">photos awaiting review</p>
+                        </CardContent>
+                    </Card>
+                    <Card>
+                        <CardHeader className="pb-2">
+                            <CardTitle className="text-sm font-medium text-gray-600">Sampling</CardTitle>
+                        </CardHeader>
+                        <CardContent>
+                            <div className="text-2xl font-bold">{rules.sample_percent}%</div>
+                            <p className="text-xs text-gray-500">
+                                {rules.late_night_enabled
+                                    ? `plus every punch from ${rules.late_night_start} to ${rules.late_night_end}`
+                                    : 'late-night punches not queued'}
+                            </p>
+                        </CardContent>
+                    </Card>
+                </div>
+
+                <Card>
+                    <CardHeader>
+                        <CardTitle>Photos</CardTitle>
+                    </CardHeader>
+                    <CardContent className="space-y-4">
+                        <div className="grid gap-3 md:grid-cols-2 lg:grid-cols-5 items-end">
+                            <div className="space-y-1">
+                                <Label className="text-xs">Status</Label>
+                                <Select value={filters.status} onValueChange={value => applyFilters({ status: value as PunchPhotoReviewStatus | 'all' })}>
+                                    <SelectTrigger><SelectValue /></SelectTrigger>
+                                    <SelectContent>
+                                        <SelectItem value="pending">Pending</SelectItem>
+                                        <SelectItem value="approved">Verified</SelectItem>
+                                        <SelectItem value="proxy">Proxy</SelectItem>
+                                        <SelectItem value="all">All</SelectItem>
+                                    </SelectContent>
+                                </Select>
+                            </div>
+                            <div className="space-y-1">
+                                <Label className="text-xs">Queued for</Label>
+                                <Select value={filters.reason ?? 'any'} onValueChange={value => applyFilters({ reason: value as PunchPhotoReviewReason })}>
+                                    <SelectTrigger><SelectValue /></SelectTrigger>
+                                    <SelectContent>
+                                        <SelectItem value="any">Any reason</SelectItem>
+                                        {Object.entries(REASON_LABELS).map(([value, label]) => (
+                                            <SelectItem key={value} value={value}>{label}</SelectItem>
+                                        ))}
+                                    </SelectContent>
+                                </Select>
+                            </div>
+                            <div className="space-y-1">
+                                <Label className="text-xs" htmlFor="employee_number">Employee number</Label>
+                                <Input
+                                    id="employee_number"
+                                    value={employeeNumber}
+                                    placeholder="e.g. EMP-0001"
+                                    onChange={e => setEmployeeNumber(e.target.value)}
+                                    onKeyDown={e => e.key === 'Enter' && applyFilters({})}
+                                />
+                            </div>
+                            <div className="space-y-1">
+                                <Label className="text-xs" htmlFor="date_from">From</Label>
+                                <Input
+                                    id="date_from"
+                                    type="date"
+                                    value={filters.date_from ?? ''}
+                                    onChange={e => applyFilters({ date_from: e.target.value })}
+                                />
+                            </div>
+                            <div className="space-y-1">
+                                <Label className="text-xs" htmlFor="date_to">To</Label>
+                                <Input
+                                    id="date_to"
+                                    type="date"
+                                    value={filters.date_to ?? ''}
+                                    onChange={e => applyFilters({ date_to: e.target.value })}
+                                />
+                            </div>
+                        </div>
+
+                        {photos.data.length === 0 && (
+                            <p className="text-center text-sm text-muted-foreground py-8">No photos match these filters.</p>
+                        )}
+
+                        <div className="grid gap-4 lg:grid-cols-2">
+                            {photos.data.map(photo => (
+                                <div key={photo.id} className="rounded-lg border p-4 space-y-3">
+                                    <div className="flex items-start justify-between gap-2">
+                                        <div className="text-sm">
+                                            <div className="font-medium">{photo.employee?.name ?? 'Unmapped card'}</div>
+                                            {photo.employee && (
+                                                <div className="text-xs text-muted-foreground">
+                                                    {photo.employee.employee_number}{photo.employee.department && ` · ${photo.employee.department}`}
+                                                </div>
+                                            )}
+                                        </div>
+                                        <div className="flex flex-wrap justify-end gap-1">
+                                            {photo.review_reason && <Badge variant="outline">{REASON_LABELS[photo.review_reason]}</Badge>}
+                                            <Badge variant={STATUS_BADGE[photo.review_status]}>{PUNCH_PHOTO_STATUS_LABELS[photo.review_status]}</Badge>
+                                        </div>
+                                    </div>
+
+                                    {/* Side by side: profile photo vs punch photo */}
+                                    <div className="grid grid-cols-2 gap-3">
+                                        <figure className="space-y-1">
+                                            {photo.employee?.profile_photo_url ? (
+                                                <img
+                                                    src={photo.employee.profile_photo_url}
+                                                    alt="Profile"
+                                                    className="aspect-square w-full rounded-md object-cover bg-slate-100"
+                                                />
+                                            ) : (
+                                                <div className="aspect-square w-full rounded-md bg-slate-100 flex items-center justify-center text-xs text-muted-foreground">
+                                                    No profile photo
+                                                </div>
+                                            )}
+                                            <figcaption className="text-xs text-muted-foreground text-center">Profile</figcaption>
+                                        </figure>
+                                        <figure className="space-y-1">
+                                            <a href={route('hr.timekeeping.punch-photos.photo', { photoId: photo.id })} target="_blank" rel="noreferrer">
+                                                <img
+                                                    src={route('hr.timekeeping.punch-photos.photo', { photoId: photo.id })}
+                                                    alt="Punch"
+                                                    className="aspect-square w-full rounded-md object-cover bg-slate-100"
+                                                />
+                                            </a>
+                                            <figcaption className="text-xs text-muted-foreground text-center">
+                                                {photo.event_type ? `${EVENT_LABELS[photo.event_type] ?? photo.event_type} · ` : ''}
+                                                {format(parseISO(photo.captured_at), 'MMM d, yyyy h:mm a')}
+                                            </figcaption>
+                                        </figure>
+                                    </div>
+
+                                    <div className="text-xs text-muted-foreground">
+                                        {photo.device_id}{photo.device_location && ` · ${photo.device_location}`}
+                                        {photo.sequence_id !== null && ` · ledger #${photo.sequence_id}`}
+                                    </div>
+
+                                    {photo.reviewed_by && (
+                                        <div className="text-xs text-muted-foreground">
+                                            Reviewed by {photo.reviewed_by}
+                                            {photo.reviewed_at && ` on ${format(parseISO(photo.reviewed_at), 'MMM d, h:mm a')}`}
+                                            {photo.review_notes && <div className="italic">{photo.review_notes}</div>}
+                                        </div>
+                                    )}
+
+                                    {canReview && photo.review_status === 'pending' && (
+                                        <div className="flex justify-end gap-2">
+                                            <Button variant="outline" size="sm" onClick={() => review(photo, 'approved')}>
+                                                <Check className="h-4 w-4 mr-1" />
+                                                Same person
+                                            </Button>
+                                            <Button variant="outline" size="sm" onClick={() => openFlag(photo)}>
+                                                <UserX className="h-4 w-4 mr-1" />
+                                                Flag as proxy
+                                            </Button>
+                                        </div>
+                                    )}
+                                </div>
+                            ))}
+                        </div>
+
+                        {/* Pagination */}
+                        {photos.total > photos.per_page && (
+                            <div className="flex items-center justify-between">
+                                <div className="text-xs text-muted-foreground">
+                                    Showing {photos.from} to {photos.to} of {photos.total} photos
+                                </div>
+                                <div className="flex items-center gap-2">
+                                    <Button
+                                        variant="outline"
+                                        size="sm"
+                                        disabled={!photos.prev_page_url}
+                                        onClick={() => router.visit(photos.prev_page_url!, { preserveState: true })}
+                                    >
+                                        ← Prev
+                                    </Button>
+                                    <span className="text-xs">Page {photos.current_page} of {photos.last_page}</span>
+                                    <Button
+                                        variant="outline"
+                                        size="sm"
+                                        disabled={!photos.next_page_url}
+                                        onClick={() => router.visit(photos.next_page_url!, { preserveState: true })}
+                                    >
+                                        Next →
+                                    </Button>
+                                </div>
+                            </div>
+                        )}
+                    </CardContent>
+                </Card>
+
+                <PunchPhotoSamplingRules rules={rules} canManage={canManage} />
+            </div>
+
+            {/* Proxy dialog */}
+            <Dialog open={flagging !== null} onOpenChange={open => !open && setFlagging(null)}>
+                <DialogContent>
+                    <DialogHeader>
+                        <DialogTitle>Flag as proxy punch</DialogTitle>
+                        <DialogDescription>
+                            {flagging && `${flagging.employee?.name ?? 'Unmapped card'}'s card at ${format(parseISO(flagging.captured_at), 'MMM d, h:mm a')} on ${flagging.device_id}. The flag shows on the attendance record for the day.`}
+                        </DialogDescription>
+                    </DialogHeader>
+                    <div className="space-y-2">
+                        <Label htmlFor="review_notes">Notes</Label>
+                        <Textarea
+                            id="review_notes"
+                            rows={3}
+                            placeholder="e.g. Photo shows a different person; looks like J. Cruz from the same team"
+                            value={flagNotes}
+                            onChange={e => setFlagNotes(e.target.value)}
+                        />
+                        {flagError && <p className="text-xs text-red-600">{flagError}</p>}
+                    </div>
+                    <DialogFooter>
+                        <Button variant="outline" onClick={() => setFlagging(null)}>Cancel</Button>
+                        <Button
+                            variant="destructive"
+                            disabled={flagNotes.trim() === ''}
+                            onClick={() => flagging && review(flagging, 'proxy', flagNotes.trim())}
+                        >
+                            Flag as proxy
+                        </Button>
+                    </DialogFooter>
+                </DialogContent>
+            </Dialog>
+        </AppLayout>
+    );
+}
@@ -16,7 +16,8 @@ import { Alert, AlertDescription } from '@/components/ui/alert';
 import { Checkbox } from '@/components/ui/checkbox';
 import { Badge } from '@/components/ui/badge';
 import { ArrowLeft, Search, Clock, MapPin, AlertTriangle, CheckCircle2 } from 'lucide-react';
-import { Department, EmployeeReference } from '@/types/workforce-pages';
+import { Department, EmployeeReference, EmployeeScheduleConflicts } from '@/types/workforce-pages';
+import { detectBulkConflicts } from '@/lib/workforce-utils';
 
 interface BulkAssignProps {
     departments: Department[];
@@ -38,13 +39,6 @@ interface BulkAssignFormData {
     allow_conflicts?: boolean;
 }
 
-interface ConflictInfo {
-    employee_id: number;
-    employee_name: string;
-    conflicting_dates: string[];
-    conflict_count: number;
-}
-
 export default function BulkAssignPage() {
     const { employees: initialEmployees, schedules } = usePage().props as unknown as BulkAssignProps;
 
@@ -67,7 +61,7 @@ export default function BulkAssignPage() {
     const [selectAll, setSelectAll] = useState(false);
     const [isLoading, setIsLoading] = useState(false);
     const [submitError, setSubmitError] = useState<string | null>(null);
-    const [detectedConflicts, setDetectedConflicts] = useState<ConflictInfo[]>([]);
+    const [detectedConflicts, setDetectedConflicts] = useState<EmployeeScheduleConflicts[]>([]);
     const [hasCheckedConflicts, setHasCheckedConflicts] = useState(false);
 
     const breadcrumb = [
@@ -153,50 +147,13 @@ export default function BulkAssignPage() {
         setSubmitError(null);
 
         try {
-            // Get CSRF token from meta tag
-            const csrfToken = document.querySelector('meta[name="csrf-token"]')?.getAttribute('content') || '';
-
-            if (!csrfToken) {
-                throw new Error('CSRF token not found in page');
-            }
-
-            const response = await fetch('/hr/workforce/assignments/check-bulk-conflicts', {
-                method: 'POST',
-                headers: {
-                    'Content-Type': 'application/json',
-                    'Accept': 'application/json',
-                    'X-CSRF-TOKEN': csrfToken,
-                },
-                credentials: 'same-origin',
-                body: JSON.stringify({
-                    employee_ids: formData.employee_ids,
-                    date_from: formData.date_from,
-                    date_to: formData.date_to,
-                    shift_start: formData.shift_start,
-                    shift_end: formData.shift_end,
-                }),
-            });
-
-            if (!response.ok) {
-                const errorData = await response.text();
-                console.error('Conflict check error:', {
-                    status: response.status,
-                    body: errorData,
-                });
-                throw new Error(`HTTP ${response.status}: Unable to check conflicts`);
-            }
-
-            const data = await response.json();
-            
-            // Ensure conflicts data is properly structured
-            const conflicts = Array.isArray(data.conflicts)
-                ? data.conflicts.map((conflict: any) => ({
-                    ...conflict,
-                    conflicting_dates: Array.isArray(conflict.conflicting_dates)
-                        ? conflict.conflicting_dates
-                        : [],
-                }))
-                : [];
+            const conflicts = await detectBulkConflicts(
+                formData.employee_ids,
+                formData.date_from,
+                formData.date_to,
+                formData.shift_start,
+                formData.shift_end
+            );
 
             setDetectedConflicts(conflicts);
             setHasCheckedConflicts(true);
@@ -326,7 +283,7 @@ export default function BulkAssignPage() {
                             </CardHeader>
                             <CardContent className="space-y-4">
                                 <p className="text-sm text-yellow-800">
-                                    {detectedConflicts.length} employee(s) have existing assignments that conflict with the requested dates:
+                                    {detectedConflicts.length} employee(s) have overlapping shifts, approved leave, too little rest between shifts or rotation rest days on the requested dates:
                                 </p>
                                 
                                 <div className="space-y-3 max-h-64 overflow-y-auto">
@@ -342,19 +299,26 @@ export default function BulkAssignPage() {
                                                 </Badge>
                                             </div>
                                             <div className="text-xs text-yellow-700 space-y-1">
-                                                <p className="font-semibold mb-1">Conflicting dates:</p>
-                                                <div className="flex flex-wrap gap-2">
-                                                    {conflict.conflicting_dates.slice(0, 5).map((date) => (
-                                                        <span key={date} className="bg-yellow-100 px-2 py-1 rounded">
-                                                            {date}
-                                                        </span>
-                                                    ))}
-                                                    {conflict.conflicting_dates.length > 5 && (
-                                                        <span className="bg-yellow-100 px-2 py-1 rounded">
-                                                            +{conflict.conflicting_dates.length - 5} more
-                                                        </span>
-                                                    )}
-                                                </div>
+                                                {conflict.dates.slice(0, 5).map(({ date, conflicts }) => (
+                                                    <div key={date} className="flex gap-2">
+                                                        <span className="bg-yellow-100 px-2 py-0.5 rounded h-fit shrink-0">{date}</span>
+                                                        <ul className="space-y-0.5">
+                                                            {conflicts.map((item, index) => (
+                                                                <li
+                                                                    key={index}
+                                                                    className={item.severity === 'critical' ? 'text-red-700 font-medium' : undefined}
+                                                                >
+                                                                    {item.message}
+                                                                </li>
+                                                            ))}
+                                                        </ul>
+                                                    </div>
+                                                ))}
+                                                {conflict.dates.length > 5 && (
+                                                    <span className="bg-yellow-100 px-2 py-1 rounded inline-block">
+                                                        +{conflict.dates.length - 5} more dates
+                                                    </span>
+                                                )}
                                             </div>
                                         </div>
                                     ))}
@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useCallback } from 'react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
@@ -22,7 +22,7 @@ import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Textarea } from '@/components/ui/textarea';
 import { AlertCircle, CheckCircle2, Clock } from 'lucide-react';
-import { ShiftAssignment, EmployeeReference, Department } from '@/types/workforce-pages';
+import { ShiftAssignment, EmployeeReference, Department, ScheduleConflict } from '@/types/workforce-pages';
 import {
     formatTime,
     calculateShiftDuration,
@@ -67,6 +67,7 @@ export default function CreateEditAssignmentModal({
 
     const [hasConflict, setHasConflict] = useState(false);
     const [conflictMessage, setConflictMessage] = useState('');
+    const [conflicts, setConflicts] = useState<ScheduleConflict[]>([]);
     const [isValidating, setIsValidating] = useState(false);
 
     useEffect(() => {
@@ -98,8 +99,30 @@ export default function CreateEditAssignmentModal({
         }
         setHasConflict(false);
         setConflictMessage('');
+        setConflicts([]);
     }, [assignment, isOpen]);
 
+    const assignmentId = assignment?.id;
+    const checkConflicts = useCallback(async (employeeId: number, date: string) => {
+        try {
+            const result = await detectConflicts(
+                employeeId,
+                date,
+                formData.shift_start || '06:00:00',
+                formData.shift_end || '14:00:00',
+                assignmentId
+            );
+
+            setConflicts(result.conflicts);
+            setHasConflict(result.hasConflict);
+            setConflictMessage(result.conflictMessage || '');
+        } catch {
+            setConflicts([]);
+            setHasConflict(false);
+            setConflictMessage('');
+        }
+    }, [formData.shift_start, formData.shift_end, assignmentId]);
+
     // Validate for conflicts when employee or date changes
     useEffect(() => {
         const employeeId = formData.employee_id;
@@ -109,23 +132,16 @@ export default function CreateEditAssignmentModal({
                 const timeValidation = validateShiftTimes(formData.shift_start || '06:00:00', formData.shift_end || '14:00:00');
                 if (!timeValidation.isValid) {
                     setConflictMessage(timeValidation.errorMessage || 'Invalid shift times');
+                    setConflicts([]);
                     setHasConflict(true);
                     return;
                 }
 
-                const conflicts = await detectConflicts(
-                    employeeId,
-                    date,
-                    formData.shift_start || '06:00:00',
-                    formData.shift_end || '14:00:00'
-                );
-
-                setHasConflict(conflicts.hasConflict);
-                setConflictMessage(conflicts.conflictMessage || '');
+                await checkConflicts(employeeId, date);
             };
             validateAsync();
         }
-    }, [formData.employee_id, formData.date, formData.shift_start, formData.shift_end]);
+    }, [formData.employee_id, formData.date, formData.shift_start, formData.shift_end, checkConflicts]);
 
     // Validate for conflicts when key fields change (legacy, kept for manual validation)
     const validateAssignment = async () => {
@@ -142,15 +158,7 @@ export default function CreateEditAssignmentModal({
         const employeeId = formData.employee_id;
         const date = formData.date;
         if (employeeId && date) {
-            const conflicts = await detectConflicts(
-                employeeId,
-                date,
-                formData.shift_start || '06:00:00',
-                formData.shift_end || '14:00:00'
-            );
-
-            setHasConflict(conflicts.hasConflict);
-            setConflictMessage(conflicts.conflictMessage || '');
+            await checkConflicts(employeeId, date);
         }
 
         setIsValidating(false);
@@ -376,37 +384,46 @@ export default function CreateEditAssignmentModal({
                     {/* Conflict Detection Component */}
                     {selectedEmployee && selectedSchedule && formData.date && (
                         <div className="space-y-4">
-                            <AssignmentConflictIndicator
-                                conflict={
-                                    hasConflict
-                                        ? {
-                                              type: 'overlap',
-                                              severity: 'warning',
-                                              message: 'Scheduling Conflict Detected',
-                                              details: conflictMessage,
-                                              resolution:
-                                                  'Click "Confirm" to override and assign this shift anyway.',
-                                          }
-                                        : assignment?.has_conflict
-                                        ? {
-                                              type: 'overlap',
-                                              severity: 'warning',
-                                              message: 'Existing Scheduling Conflict',
-                                              details: assignment.conflict_reason || 'This assignment has a recorded conflict.',
-                                              resolution:
-                                                  'This conflict was detected when the assignment was created.',
-                                          }
-                                        : {
-                                              type: 'none',
-                                              severity: 'none',
-                                              message: 'No conflicts',
-                                          }
-                                }
-                                canOverride={true}
-                            />
+                            {conflicts.map((conflict, index) => (
+                                <AssignmentConflictIndicator
+                                    key={`${conflict.type}-${index}`}
+                                    conflict={conflict}
+                                    canOverride={false}
+                                />
+                            ))}
+                            {conflicts.length === 0 && (
+                                <AssignmentConflictIndicator
+                                    conflict={
+                                        hasConflict
+                                            ? {
+                                                  type: 'overlap',
+                                                  severity: 'warning',
+                                                  message: 'Scheduling Conflict Detected',
+                                                  details: conflictMessage,
+                                                  resolution:
+                                                      'Click "Confirm" to override and assign this shift anyway.',
+                                              }
+                                            : assignment?.has_conflict
+                                            ? {
+                                                  type: 'overlap',
+                                                  severity: 'warning',
+                                                  message: 'Existing Scheduling Conflict',
+                                                  details: assignment.conflict_reason || 'This assignment has a recorded conflict.',
+                                                  resolution:
+                                                      'This conflict was detected when the assignment was created.',
+                                              }
+                                            : {
+                                                  type: 'none',
+                                                  severity: 'none',
+                                                  message: 'No conflicts',
+                                              }
+                                    }
+                                    canOverride={true}
+                                />
+                            )}
 
                             {/* Display conflicting shift details if available */}
-                            {(hasConflict || assignment?.has_conflict) && assignment?.conflicting_employee_name && (
+                            {conflicts.length === 0 && (hasConflict || assignment?.has_conflict) && assignment?.conflicting_employee_name && (
                                 <Card className="border-red-200 bg-red-50">
                                     <CardHeader className="pb-3">
                                         <CardTitle className="text-sm text-red-900">
@@ -0,0 +1,417 @@
+import React, { useState, useMemo } from 'react';
+import { Head, usePage, router } from '@inertiajs/react';
+import { format, parseISO } from 'date-fns';
+import AppLayout from '@/layouts/app-layout';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import {
+    Select,
+    SelectContent,
+    SelectItem,
+    SelectTrigger,
+    SelectValue,
+} from '@/components/ui/select';
+import {
+    Table,
+    TableBody,
+    TableCell,
+    TableHead,
+    TableHeader,
+    TableRow,
+} from '@/components/ui/table';
+import { ArrowLeft, AlertTriangle, CheckCircle2, Plus, Send, Trash2, X } from 'lucide-react';
+import AssignmentCalendar from '@/components/workforce/assignment-calendar';
+import { formatTime, getShiftTypeColorClasses } from '@/lib/workforce-utils';
+import { DayOfWeek, ScheduleDraftProps, ScheduleDraftShift, ShiftAssignment } from '@/types/workforce-pages';
+
+const SOURCE_LABELS: Record<ScheduleDraftShift['source'], string> = {
+    rotation: 'Rotation work day',
+    generated: 'Filled to meet coverage',
+    manual: 'Changed in review',
+};
+
+const weekdayOf = (date: string): DayOfWeek =>
+    format(parseISO(date), 'EEEE').toLowerCase() as DayOfWeek;
+
+export default function ScheduleDraftPage() {
+    const { draft, shifts, employees, compliance_warnings, flash } = usePage().props as unknown as ScheduleDraftProps & {
+        flash?: { success?: string | null; error?: string | null };
+    };
+
+    const [selectedShiftId, setSelectedShiftId] = useState<number | null>(null);
+    const [selectedDate, setSelectedDate] = useState<string | null>(null);
+    const [reassignTo, setReassignTo] = useState('');
+    const [newShiftType, setNewShiftType] = useState('');
+    const [newEmployeeId, setNewEmployeeId] = useState('');
+    const [isSaving, setIsSaving] = useState(false);
+
+    const isEditable = draft.status === 'draft';
+    const selectedShift = shifts.find((shift) => shift.id === selectedShiftId) ?? null;
+
+    const breadcrumb = [
+        { title: 'HR', href: '/hr' },
+        { title: 'Workforce', href: '/hr/workforce' },
+        { title: 'Shift Assignments', href: '/hr/workforce/assignments' },
+        { title: 'Generate Schedule', href: '/hr/workforce/assignments/drafts' },
+        { title: `Draft #${draft.id}`, href: `/hr/workforce/assignments/drafts/${draft.id}` },
+    ];
+
+    // The calendar takes shift assignments; draft shifts are shown as scheduled ones
+    const calendarShifts = useMemo<ShiftAssignment[]>(
+        () =>
+            shifts.map((shift) => ({
+                id: shift.id,
+                employee_id: shift.employee_id,
+                employee_name: shift.employee_name,
+                employee_number: shift.employee_number,
+                schedule_id: shift.schedule_id,
+                schedule_name: shift.schedule_name,
+                date: shift.date,
+                shift_start: shift.shift_start,
+                shift_end: shift.shift_end,
+                shift_type: shift.shift_type,
+                location: SOURCE_LABELS[shift.source],
+                department_id: draft.department_id,
+                is_overtime: false,
+                status: 'scheduled',
+                has_conflict: shift.has_conflict,
+                conflict_reason: shift.conflict_reason ?? undefined,
+                created_by: 0,
+                created_at: '',
+                updated_at: '',
+            })),
+        [shifts, draft.department_id]
+    );
+
+    const { requiredByDate, shortageByDate } = useMemo(() => {
+        const required: Record<string, number> = {};
+        const shortage: Record<string, number> = {};
+
+        for (let day = parseISO(draft.date_from); day <= parseISO(draft.date_to); day = new Date(day.getFullYear(), day.getMonth(), day.getDate() + 1)) {
+            const date = format(day, 'yyyy-MM-dd');
+            required[date] = draft.coverage_targets.reduce((sum, target) => sum + (target.headcount[weekdayOf(date)] ?? 0), 0);
+        }
+        draft.gaps.forEach((gap) => {
+            shortage[gap.date] = (shortage[gap.date] ?? 0) + gap.shortage;
+        });
+
+        return { requiredByDate: required, shortageByDate: shortage };
+    }, [draft]);
+
+    const conflictCount = shifts.filter((shift) => shift.has_conflict).length;
+    const rotationCount = shifts.filter((shift) => shift.source === 'rotation').length;
+
+    const requestOptions = {
+        preserveScroll: true,
+        preserveState: true,
+        onStart: () => setIsSaving(true),
+        onFinish: () => setIsSaving(false),
+    };
+
+    const handleReassign = () => {
+        if (!selectedShift || !reassignTo) return;
+        router.put(
+            `/hr/workforce/assignments/drafts/${draft.id}/shifts/${selectedShift.id}`,
+            { employee_id: parseInt(reassignTo) },
+            { ...requestOptions, onSuccess: () => setReassignTo('') }
+        );
+    };
+
+    const handleRemove = () => {
+        if (!selectedShift) return;
+        router.delete(`/hr/workforce/assignments/drafts/${draft.id}/shifts/${selectedShift.id}`, {
+            ...requestOptions,
+            onSuccess: () => setSelectedShiftId(null),
+        });
+    };
+
+    const handleAdd = () => {
+        if (!selectedDate || !newShiftType || !newEmployeeId) return;
+        router.post(
+            `/hr/workforce/assignments/drafts/${draft.id}/shifts`,
+            { date: selectedDate, shift_type: newShiftType, employee_id: parseInt(newEmployeeId) },
+            { ...requestOptions, onSuccess: () => setNewEmployeeId('') }
+        );
+    };
+
+    const handlePublish = () => {
+        const warning = draft.shortage > 0 ? ` ${draft.shortage} shift(s) are still uncovered.` : '';
+        if (!confirm(`Publish ${shifts.length} shift(s) as shift assignments?${warning}`)) return;
+        router.post(`/hr/workforce/assignments/drafts/${draft.id}/publish`, {}, requestOptions);
+    };
+
+    const handleDiscard = () => {
+        if (!confirm('Discard this draft? No shift assignments will be created.')) return;
+        router.delete(`/hr/workforce/assignments/drafts/${draft.id}`, requestOptions);
+    };
+
+    // Employees without a shift in the draft on the selected date
+    const freeEmployees = employees.filter(
+        (employee) => !shifts.some((shift) => shift.employee_id === employee.id && shift.date === selectedDate)
+    );
+
+    return (
+        <AppLayout breadcrumbs={breadcrumb}>
+            <Head title={`Schedule Draft #${draft.id}`} />
+
+            <div className="space-y-6 p-6">
+                {/* Header */}
+                <div className="flex items-center justify-between gap-4">
+                    <div className="flex items-center gap-4">
+                        <Button variant="ghost" size="sm" onClick={() => router.get('/hr/workforce/assignments/drafts')}>
+                            <ArrowLeft className="h-5 w-5" />
+                        </Button>
+                        <div>
+                            <div className="flex items-center gap-2">
+                                <h1 className="text-3xl font-bold">{draft.department_name} Schedule</h1>
+                                <Badge variant={isEditable ? 'default' : 'outline'}>{draft.status}</Badge>
+                            </div>
+                            <p className="text-gray-600 mt-1">
+                                {format(parseISO(draft.date_from), 'MMM d')} – {format(parseISO(draft.date_to), 'MMM d, yyyy')}
+                                {draft.created_by && ` · generated by ${draft.created_by}`}
+                                {draft.published_at && ` · published ${format(parseISO(draft.published_at), 'MMM d, h:mm a')} by ${draft.published_by ?? 'unknown'}`}
+                            </p>
+                        </div>
+                    </div>
+                    {isEditable && (
+                        <div className="flex gap-2">
+                            <Button variant="outline" onClick={handleDiscard} disabled={isSaving} className="gap-2">
+                                <X className="h-4 w-4" />
+                                Discard
+                            </Button>
+                            <Button onClick={handlePublish} disabled={isSaving || shifts.length === 0} className="gap-2">
+                                <Send className="h-4 w-4" />
+                                Publish
+                            </Button>
+                        </div>
+                    )}
+                </div>
+
+                {flash?.success && (
+                    <Alert>
+                        <CheckCircle2 className="h-4 w-4" />
+                        <AlertDescription>{flash.success}</AlertDescription>
+                    </Alert>
+                )}
+                {flash?.error && (
+                    <Alert variant="destructive">
+                        <AlertTriangle className="h-4 w-4" />
+                        <AlertDescription>{flash.error}</AlertDescription>
+                    </Alert>
+                )}
+
+                {/* Summary Cards */}
+                <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+                    <Card>
+                        <CardHeader className="pb-2">
+                            <CardTitle className="text-sm font-medium text-gray-600">Proposed Shifts</CardTitle>
+                        </CardHeader>
+                        <CardContent>
+                            <p className="text-3xl font-bold">{shifts.length}</p>
+                        </CardContent>
+                    </Card>
+                    <Card>
+                        <CardHeader className="pb-2">
+                            <CardTitle className="text-sm font-medium text-gray-600">From Rotations</CardTitle>
+                        </CardHeader>
+                        <CardContent>
+                            <p className="text-3xl font-bold text-blue-600">{rotationCount}</p>
+                        </CardContent>
+                    </Card>
+                    <Card>
+                        <CardHeader className="pb-2">
+                            <CardTitle className="text-sm font-medium text-gray-600">Uncovered Shifts</CardTitle>
+                        </CardHeader>
+                        <CardContent>
+                            <p className={`text-3xl font-bold ${draft.shortage > 0 ? 'text-orange-600' : 'text-green-600'}`}>
+                                {draft.shortage}
+                            </p>
+                        </CardContent>
+                    </Card>
+                    <Card>
+                        <CardHeader className="pb-2">
+                            <CardTitle className="text-sm font-medium text-gray-600">Conflicts</CardTitle>
+                        </CardHeader>
+                        <CardContent>
+                            <p className={`text-3xl font-bold ${conflictCount > 0 ? 'text-red-600' : 'text-green-600'}`}>
+                                {conflictCount}
+                            </p>
+                        </CardContent>
+                    </Card>
+                </div>
+
+                <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+                    <div className="lg:col-span-2">
+                        <AssignmentCalendar
+                            assignments={calendarShifts}
+                            initialDate={draft.date_from}
+                            requiredByDate={requiredByDate}
+                            shortageByDate={shortageByDate}
+                            complianceByDate={compliance_warnings}
+                            onAssignmentClick={(assignment) => {
+                                setSelectedShiftId(assignment.id);
+                                setSelectedDate(assignment.date);
+                                setReassignTo('');
+                            }}
+                            onDateClick={(date) => {
+                                setSelectedDate(date);
+                                setSelectedShiftId(null);
+                            }}
+                        />
+                    </div>
+
+                    <div className="space-y-6">
+                        {/* Selected shift */}
+                        {selectedShift && (
+                            <Card>
+                                <CardHeader>
+                                    <CardTitle className="text-base">
+                                        {selectedShift.employee_name} · {format(parseISO(selectedShift.date), 'EEE, MMM d')}
+                                    </CardTitle>
+                                </CardHeader>
+                                <CardContent className="space-y-4">
+                                    <div className="flex flex-wrap items-center gap-2 text-sm">
+                                        <Badge className={`${getShiftTypeColorClasses(selectedShift.shift_type).bg} ${getShiftTypeColorClasses(selectedShift.shift_type).text}`}>
+                                            {selectedShift.shift_type}
+                                        </Badge>
+                                        <span>{formatTime(selectedShift.shift_start)} - {formatTime(selectedShift.shift_end)}</span>
+                                    </div>
+                                    <p className="text-xs text-gray-600">{SOURCE_LABELS[selectedShift.source]}</p>
+                                    {selectedShift.has_conflict && (
+                                        <Alert variant="destructive">
+                                            <AlertTriangle className="h-4 w-4" />
+                                            <AlertDescription>{selectedShift.conflict_reason}</AlertDescription>
+                                        </Alert>
+                                    )}
+                                    {isEditable && (
+                                        <>
+                                            <div className="space-y-2">
+                                                <Label>Give to another employee</Label>
+                                                <Select value={reassignTo} onValueChange={setReassignTo} disabled={isSaving}>
+                                                    <SelectTrigger>
+                                                        <SelectValue placeholder="Select an employee..." />
+                                                    </SelectTrigger>
+                                                    <SelectContent>
+                                                        {freeEmployees.map((employee) => (
+                                                            <SelectItem key={employee.id} value={employee.id.toString()}>
+                                                                {employee.full_name} ({employee.employee_number})
+                                                            </SelectItem>
+                                                        ))}
+                                                    </SelectContent>
+                                                </Select>
+                                            </div>
+                                            <div className="flex justify-between gap-2">
+                                                <Button variant="outline" size="sm" onClick={handleRemove} disabled={isSaving} className="gap-2">
+                                                    <Trash2 className="h-4 w-4" />
+                                                    Remove
+                                                </Button>
+                                                <Button size="sm" onClick={handleReassign} disabled={isSaving || !reassignTo}>
+                                                    Reassign
+                                                </Button>
+                                            </div>
+                                        </>
+                                    )}
+                                </CardContent>
+                            </Card>
+                        )}
+
+                        {/* Add a shift on the selected date */}
+                        {isEditable && selectedDate && !selectedShift && (
+                            <Card>
+                                <CardHeader>
+                                    <CardTitle className="text-base">
+                                        Add shift on {format(parseISO(selectedDate), 'EEE, MMM d')}
+                                    </CardTitle>
+                                </CardHeader>
+                                <CardContent className="space-y-4">
+                                    <div className="space-y-2">
+                                        <Label>Shift</Label>
+                                        <Select value={newShiftType} onValueChange={setNewShiftType} disabled={isSaving}>
+                                            <SelectTrigger>
+                                                <SelectValue placeholder="Select a shift..." />
+                                            </SelectTrigger>
+                                            <SelectContent>
+                                                {draft.coverage_targets.map((target) => (
+                                                    <SelectItem key={target.shift_type} value={target.shift_type}>
+                                                        {target.shift_type} ({formatTime(target.shift_start)} - {formatTime(target.shift_end)})
+                                                    </SelectItem>
+                                                ))}
+                                            </SelectContent>
+                                        </Select>
+                                    </div>
+                                    <div className="space-y-2">
+                                        <Label>Employee</Label>
+                                        <Select value={newEmployeeId} onValueChange={setNewEmployeeId} disabled={isSaving}>
+                                            <SelectTrigger>
+                                                <SelectValue placeholder="Select an employee..." />
+                                            </SelectTrigger>
+                                            <SelectContent>
+                                                {freeEmployees.map((employee) => (
+                                                    <SelectItem key={employee.id} value={employee.id.toString()}>
+                                                        {employee.full_name} ({employee.employee_number})
+                                                    </SelectItem>
+                                                ))}
+                                            </SelectContent>
+                                        </Select>
+                                    </div>
+                                    <div className="flex justify-end">
+                                        <Button size="sm" onClick={handleAdd} disabled={isSaving || !newShiftType || !newEmployeeId} className="gap-2">
+                                            <Plus className="h-4 w-4" />
+                                            Add Shift
+                                        </Button>
+                                    </div>
+                                </CardContent>
+                            </Card>
+                        )}
+
+                        {/* Coverage gaps */}
+                        <Card>
+                            <CardHeader>
+                                <CardTitle className="text-base">Coverage Gaps</CardTitle>
+                            </CardHeader>
+                            <CardContent>
+                                {draft.gaps.length > 0 ? (
+                                    <Table>
+                                        <TableHeader>
+                                            <TableRow>
+                                                <TableHead>Date</TableHead>
+                                                <TableHead>Shift</TableHead>
+                                                <TableHead className="text-right">Short</TableHead>
+                                            </TableRow>
+                                        </TableHeader>
+                                        <TableBody>
+                                            {draft.gaps.map((gap) => (
+                                                <TableRow
+                                                    key={`${gap.date}-${gap.shift_type}`}
+                                                    className={isEditable ? 'cursor-pointer hover:bg-gray-50' : undefined}
+                                                    onClick={() => {
+                                                        if (!isEditable) return;
+                                                        setSelectedDate(gap.date);
+                                                        setSelectedShiftId(null);
+                                                        setNewShiftType(gap.shift_type);
+                                                    }}
+                                                >
+                                                    <TableCell className="text-sm">{format(parseISO(gap.date), 'EEE, MMM d')}</TableCell>
+                                                    <TableCell className="text-sm">
+                                                        {gap.shift_type}
+                                                        <span className="text-xs text-gray-500"> {gap.assigned}/{gap.required}</span>
+                                                    </TableCell>
+                                                    <TableCell className="text-right font-semibold text-orange-600">{gap.shortage}</TableCell>
+                                                </TableRow>
+                                            ))}
+                                        </TableBody>
+                                    </Table>
+                                ) : (
+                                    <p className="text-sm text-green-700">Every coverage target is met.</p>
+                                )}
+                            </CardContent>
+                        </Card>
+                    </div>
+                </div>
+            </div>
+        </AppLayout>
+    );
+}
@@ -0,0 +1,412 @@
+import React, { useState, useMemo } from 'react';
+import { Head, usePage, router } from '@inertiajs/react';
+import { format, parseISO } from 'date-fns';
+import AppLayout from '@/layouts/app-layout';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import {
+    Select,
+    SelectContent,
+    SelectItem,
+    SelectTrigger,
+    SelectValue,
+} from '@/components/ui/select';
+import {
+    Table,
+    TableBody,
+    TableCell,
+    TableHead,
+    TableHeader,
+    TableRow,
+} from '@/components/ui/table';
+import { ArrowLeft, Plus, Trash2, Wand2, AlertTriangle } from 'lucide-react';
+import { CoverageTarget, DayOfWeek, ScheduleDraftStatus, ScheduleGeneratorProps, ShiftType } from '@/types/workforce-pages';
+
+const WEEKDAYS: { key: DayOfWeek; label: string }[] = [
+    { key: 'monday', label: 'Mon' },
+    { key: 'tuesday', label: 'Tue' },
+    { key: 'wednesday', label: 'Wed' },
+    { key: 'thursday', label: 'Thu' },
+    { key: 'friday', label: 'Fri' },
+    { key: 'saturday', label: 'Sat' },
+    { key: 'sunday', label: 'Sun' },
+];
+
+const SHIFT_TYPES: ShiftType[] = ['morning', 'afternoon', 'night', 'custom'];
+
+const STATUS_BADGE: Record<ScheduleDraftStatus, 'default' | 'secondary' | 'outline'> = {
+    draft: 'default',
+    published: 'secondary',
+    discarded: 'outline',
+};
+
+interface TargetRow {
+    shift_type: ShiftType;
+    schedule_id: string;
+    shift_start: string;
+    shift_end: string;
+    headcount: Record<DayOfWeek, string>;
+}
+
+const emptyHeadcount = (): Record<DayOfWeek, string> => ({
+    monday: '0',
+    tuesday: '0',
+    wednesday: '0',
+    thursday: '0',
+    friday: '0',
+    saturday: '0',
+    sunday: '0',
+});
+
+export default function GenerateSchedulePage() {
+    const { departments, schedules, drafts, maxRangeDays, flash } = usePage().props as unknown as ScheduleGeneratorProps & {
+        flash?: { error?: string | null };
+    };
+
+    const [departmentId, setDepartmentId] = useState('');
+    const [dateFrom, setDateFrom] = useState('');
+    const [dateTo, setDateTo] = useState('');
+    const [targets, setTargets] = useState<TargetRow[]>([
+        { shift_type: 'morning', schedule_id: '', shift_start: '06:00', shift_end: '14:00', headcount: emptyHeadcount() },
+    ]);
+    const [isLoading, setIsLoading] = useState(false);
+    const [submitError, setSubmitError] = useState<string | null>(null);
+
+    const breadcrumb = [
+        { title: 'HR', href: '/hr' },
+        { title: 'Workforce', href: '/hr/workforce' },
+        { title: 'Shift Assignments', href: '/hr/workforce/assignments' },
+        { title: 'Generate Schedule', href: '/hr/workforce/assignments/drafts' },
+    ];
+
+    // Schedules of the selected department, plus those not tied to a department
+    const departmentSchedules = useMemo(
+        () => schedules.filter((schedule) => !schedule.department_id || schedule.department_id.toString() === departmentId),
+        [schedules, departmentId]
+    );
+
+    const updateTarget = (index: number, changes: Partial<TargetRow>) => {
+        setTargets((prev) => prev.map((target, i) => (i === index ? { ...target, ...changes } : target)));
+    };
+
+    const handleScheduleChange = (index: number, scheduleId: string) => {
+        const schedule = schedules.find((s) => s.id.toString() === scheduleId);
+        updateTarget(index, {
+            schedule_id: scheduleId,
+            ...(schedule?.shift_start && schedule?.shift_end
+                ? { shift_start: schedule.shift_start.slice(0, 5), shift_end: schedule.shift_end.slice(0, 5) }
+                : {}),
+        });
+    };
+
+    const handleHeadcountChange = (index: number, day: DayOfWeek, value: string) => {
+        setTargets((prev) =>
+            prev.map((target, i) => (i === index ? { ...target, headcount: { ...target.headcount, [day]: value } } : target))
+        );
+    };
+
+    const handleAddTarget = () => {
+        const used = targets.map((target) => target.shift_type);
+        const next = SHIFT_TYPES.find((type) => !used.includes(type)) ?? 'custom';
+        setTargets((prev) => [
+            ...prev,
+            { shift_type: next, schedule_id: '', shift_start: '14:00', shift_end: '22:00', headcount: emptyHeadcount() },
+        ]);
+    };
+
+    const handleSubmit = (e: React.FormEvent) => {
+        e.preventDefault();
+        setSubmitError(null);
+
+        if (!departmentId || !dateFrom || !dateTo) {
+            setSubmitError('Choose a department and a date range.');
+            return;
+        }
+        if (targets.some((target) => !target.schedule_id)) {
+            setSubmitError('Choose a work schedule for every shift.');
+            return;
+        }
+
+        const payload: CoverageTarget[] = targets.map((target) => ({
+            shift_type: target.shift_type,
+            schedule_id: parseInt(target.schedule_id),
+            shift_start: target.shift_start,
+            shift_end: target.shift_end,
+            headcount: Object.fromEntries(
+                WEEKDAYS.map(({ key }) => [key, parseInt(target.headcount[key]) || 0])
+            ) as Record<DayOfWeek, number>,
+        }));
+
+        setIsLoading(true);
+        router.post(
+            '/hr/workforce/assignments/drafts',
+            {
+                department_id: parseInt(departmentId),
+                date_from: dateFrom,
+                date_to: dateTo,
+                targets: payload,
+            } as never,
+            {
+                onError: (errors) => {
+                    setSubmitError(Object.values(errors).flat().join(', '));
+                },
+                onFinish: () => setIsLoading(false),
+            }
+        );
+    };
+
+    return (
+        <AppLayout breadcrumbs={breadcrumb}>
+            <Head title="Generate Schedule" />
+
+            <div className="space-y-6 p-6">
+                {/* Header */}
+                <div className="flex items-center gap-4">
+                    <Button variant="ghost" size="sm" onClick={() => router.get('/hr/workforce/assignments')}>
+                        <ArrowLeft className="h-5 w-5" />
+                    </Button>
+                    <div>
+                        <h1 className="text-3xl font-bold">Generate Schedule</h1>
+                        <p className="text-gray-600 mt-1">
+                            Propose a department's shifts from rotations and coverage targets, then review and publish them
+                        </p>
+                    </div>
+                </div>
+
+                {(submitError || flash?.error) && (
+                    <Alert variant="destructive">
+                        <AlertTriangle className="h-4 w-4" />
+                        <AlertDescription>{submitError || flash?.error}</AlertDescription>
+                    </Alert>
+                )}
+
+                <form onSubmit={handleSubmit} className="space-y-6">
+                    <Card>
+                        <CardHeader>
+                            <CardTitle className="text-lg">Department & Dates</CardTitle>
+                        </CardHeader>
+                        <CardContent className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                            <div className="space-y-2">
+                                <Label>Department *</Label>
+                                <Select value={departmentId} onValueChange={setDepartmentId} disabled={isLoading}>
+                                    <SelectTrigger>
+                                        <SelectValue placeholder="Select a department..." />
+                                    </SelectTrigger>
+                                    <SelectContent>
+                                        {departments.map((department) => (
+                                            <SelectItem key={department.id} value={department.id.toString()}>
+                                                {department.name}
+                                            </SelectItem>
+                                        ))}
+                                    </SelectContent>
+                                </Select>
+                            </div>
+                            <div className="space-y-2">
+                                <Label>Start Date *</Label>
+                                <Input type="date" value={dateFrom} onChange={(e) => setDateFrom(e.target.value)} disabled={isLoading} />
+                            </div>
+                            <div className="space-y-2">
+                                <Label>End Date *</Label>
+                                <Input type="date" value={dateTo} min={dateFrom} onChange={(e) => setDateTo(e.target.value)} disabled={isLoading} />
+                                <p className="text-xs text-gray-500">Up to {maxRangeDays} days</p>
+                            </div>
+                        </CardContent>
+                    </Card>
+
+                    <Card>
+                        <CardHeader>
+                            <div className="flex items-center justify-between">
+                                <div>
+                                    <CardTitle className="text-lg">Coverage Targets</CardTitle>
+                                    <p className="text-sm text-gray-600 mt-1">
+                                        Employees needed on each shift per weekday. Shifts already assigned in the department count toward it.
+                                    </p>
+                                </div>
+                                <Button
+                                    type="button"
+                                    variant="outline"
+                                    size="sm"
+                                    onClick={handleAddTarget}
+                                    disabled={isLoading || targets.length >= SHIFT_TYPES.length}
+                                    className="gap-2"
+                                >
+                                    <Plus className="h-4 w-4" />
+                                    Add Shift
+                                </Button>
+                            </div>
+                        </CardHeader>
+                        <CardContent className="overflow-x-auto">
+                            <Table>
+                                <TableHeader>
+                                    <TableRow>
+                                        <TableHead>Shift</TableHead>
+                                        <TableHead>Schedule</TableHead>
+                                        <TableHead>Time</TableHead>
+                                        {WEEKDAYS.map(({ key, label }) => (
+                                            <TableHead key={key} className="text-center">{label}</TableHead>
+                                        ))}
+                                        <TableHead className="w-10" />
+                                    </TableRow>
+                                </TableHeader>
+                                <TableBody>
+                                    {targets.map((target, index) => (
+                                        <TableRow key={index}>
+                                            <TableCell className="min-w-32">
+                                                <Select
+                                                    value={target.shift_type}
+                                                    onValueChange={(value) => updateTarget(index, { shift_type: value as ShiftType })}
+                                                    disabled={isLoading}
+                                                >
+                                                    <SelectTrigger>
+                                                        <SelectValue />
+                                                    </SelectTrigger>
+                                                    <SelectContent>
+                                                        {SHIFT_TYPES.map((type) => (
+                                                            <SelectItem
+                                                                key={type}
+                                                                value={type}
+                                                                disabled={type !== target.shift_type && targets.some((t) => t.shift_type === type)}
+                                                            >
+                                                                {type.charAt(0).toUpperCase() + type.slice(1)}
+                                                            </SelectItem>
+                                                        ))}
+                                                    </SelectContent>
+                                                </Select>
+                                            </TableCell>
+                                            <TableCell className="min-w-44">
+                                                <Select
+                                                    value={target.schedule_id}
+                                                    onValueChange={(value) => handleScheduleChange(index, value)}
+                                                    disabled={isLoading}
+                                                >
+                                                    <SelectTrigger>
+                                                        <SelectValue placeholder="Select..." />
+                                                    </SelectTrigger>
+                                                    <SelectContent>
+                                                        {departmentSchedules.map((schedule) => (
+                                                            <SelectItem key={schedule.id} value={schedule.id.toString()}>
+                                                                {schedule.name}
+                                                            </SelectItem>
+                                                        ))}
+                                                    </SelectContent>
+                                                </Select>
+                                            </TableCell>
+                                            <TableCell>
+                                                <div className="flex items-center gap-1">
+                                                    <Input
+                                                        type="time"
+                                                        value={target.shift_start}
+                                                        onChange={(e) => updateTarget(index, { shift_start: e.target.value })}
+                                                        disabled={isLoading}
+                                                        className="w-28"
+                                                    />
+                                                    <span className="text-gray-500">–</span>
+                                                    <Input
+                                                        type="time"
+                                                        value={target.shift_end}
+                                                        onChange={(e) => updateTarget(index, { shift_end: e.target.value })}
+                                                        disabled={isLoading}
+                                                        className="w-28"
+                                                    />
+                                                </div>
+                                            </TableCell>
+                                            {WEEKDAYS.map(({ key }) => (
+                                                <TableCell key={key}>
+                                                    <Input
+                                                        type="number"
+                                                        min={0}
+                                                        max={100}
+                                                        value={target.headcount[key]}
+                                                        onChange={(e) => handleHeadcountChange(index, key, e.target.value)}
+                                                        disabled={isLoading}
+                                                        className="w-16 text-center"
+                                                    />
+                                                </TableCell>
+                                            ))}
+                                            <TableCell>
+                                                <Button
+                                                    type="button"
+                                                    variant="ghost"
+                                                    size="sm"
+                                                    onClick={() => setTargets((prev) => prev.filter((_, i) => i !== index))}
+                                                    disabled={isLoading || targets.length === 1}
+                                                >
+                                                    <Trash2 className="h-4 w-4" />
+                                                </Button>
+                                            </TableCell>
+                                        </TableRow>
+                                    ))}
+                                </TableBody>
+                            </Table>
+                        </CardContent>
+                    </Card>
+
+                    <div className="flex justify-end">
+                        <Button type="submit" disabled={isLoading} className="gap-2">
+                            <Wand2 className="h-4 w-4" />
+                            {isLoading ? 'Generating...' : 'Generate Draft'}
+                        </Button>
+                    </div>
+                </form>
+
+                {/* Recent drafts */}
+                <Card>
+                    <CardHeader>
+                        <CardTitle className="text-lg">Recent Drafts</CardTitle>
+                    </CardHeader>
+                    <CardContent>
+                        <Table>
+                            <TableHeader>
+                                <TableRow>
+                                    <TableHead>Department</TableHead>
+                                    <TableHead>Dates</TableHead>
+                                    <TableHead>Shifts</TableHead>
+                                    <TableHead>Uncovered</TableHead>
+                                    <TableHead>Status</TableHead>
+                                    <TableHead>Generated</TableHead>
+                                </TableRow>
+                            </TableHeader>
+                            <TableBody>
+                                {drafts.length > 0 ? (
+                                    drafts.map((draft) => (
+                                        <TableRow
+                                            key={draft.id}
+                                            className="cursor-pointer hover:bg-gray-50"
+                                            onClick={() => router.visit(`/hr/workforce/assignments/drafts/${draft.id}`)}
+                                        >
+                                            <TableCell>{draft.department_name}</TableCell>
+                                            <TableCell className="text-sm">
+                                                {format(parseISO(draft.date_from), 'MMM d')} – {format(parseISO(draft.date_to), 'MMM d, yyyy')}
+                                            </TableCell>
+                                            <TableCell>{draft.shift_count}</TableCell>
+                                            <TableCell className={draft.shortage > 0 ? 'text-orange-600 font-semibold' : 'text-green-600'}>
+                                                {draft.shortage}
+                                            </TableCell>
+                                            <TableCell>
+                                                <Badge variant={STATUS_BADGE[draft.status]}>{draft.status}</Badge>
+                                            </TableCell>
+                                            <TableCell className="text-sm text-gray-600">
+                                                {draft.created_at && format(parseISO(draft.created_at), 'MMM d, h:mm a')}
+                                                {draft.created_by && ` by ${draft.created_by}`}
+                                            </TableCell>
+                                        </TableRow>
+                                    ))
+                                ) : (
+                                    <TableRow>
+                                        <TableCell colSpan={6} className="text-center py-8 text-gray-500">
+                                            No drafts generated yet
+                                        </TableCell>
+                                    </TableRow>
+                                )}
+                            </TableBody>
+                        </Table>
+                    </CardContent>
+                </Card>
+            </div>
+        </AppLayout>
+    );
+}
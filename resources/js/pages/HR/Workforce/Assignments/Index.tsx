@@ -14,7 +14,7 @@ import {
 } from '@/components/ui/table';
 import { Input } from '@/components/ui/input';
 import { PermissionGate } from '@/components/permission-gate';
-import { Plus, Clock, AlertTriangle, Filter, Calendar, Download, BarChart3 } from 'lucide-react';
+import { Plus, Clock, AlertTriangle, Filter, Calendar, Download, BarChart3, Wand2 } from 'lucide-react';
 import AssignmentFilters, { AssignmentFiltersState } from '@/components/workforce/assignment-filters';
 import AssignmentCalendar from '@/components/workforce/assignment-calendar';
 import CoverageAnalytics from '@/components/workforce/coverage-analytics';
@@ -27,7 +27,7 @@ import {
     getShiftTypeColorClasses,
     getStatusColorClasses,
 } from '@/lib/workforce-utils';
-import { ShiftAssignment, Department, EmployeeReference } from '@/types/workforce-pages';
+import { ShiftAssignment, Department, EmployeeReference, LaborComplianceViolation } from '@/types/workforce-pages';
 
 interface AssignmentsIndexProps {
     assignments: ShiftAssignment[];
@@ -42,11 +42,12 @@ interface AssignmentsIndexProps {
     departments: Department[];
     employees: EmployeeReference[];
     schedules: Array<{ id: number; name: string; shift_start: string; shift_end: string }>;
+    compliance_warnings?: Record<string, LaborComplianceViolation[]>;
     view_mode?: string;
 }
 
 export default function AssignmentsIndex() {
-    const { assignments: initialAssignments, summary, departments, employees, schedules } = usePage().props as unknown as AssignmentsIndexProps;
+    const { assignments: initialAssignments, summary, departments, employees, schedules, compliance_warnings } = usePage().props as unknown as AssignmentsIndexProps;
 
     const breadcrumb = [
         { title: 'HR', href: '/hr' },
@@ -202,6 +203,14 @@ export default function AssignmentsIndex() {
                                     <Plus className="h-4 w-4" />
                                     Bulk Assign
                                 </Button>
+                                <Button
+                                    variant="outline"
+                                    onClick={() => router.visit('/hr/workforce/assignments/drafts')}
+                                    className="gap-2"
+                                >
+                                    <Wand2 className="h-4 w-4" />
+                                    Generate Schedule
+                                </Button>
                                 <Button onClick={() => setIsCreateModalOpen(true)} className="gap-2">
                                     <Plus className="h-4 w-4" />
                                     New Assignment
@@ -421,6 +430,7 @@ export default function AssignmentsIndex() {
                 {viewMode === 'calendar' && (
                     <AssignmentCalendar
                         assignments={filteredAssignments}
+                        complianceByDate={compliance_warnings}
                         onAssignmentClick={(assignment) => {
                             handleEdit(assignment);
                         }}
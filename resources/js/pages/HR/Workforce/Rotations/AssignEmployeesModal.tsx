@@ -92,6 +92,7 @@ export function AssignEmployeesModal({ isOpen, onClose, rotation }: AssignEmploy
     const [departments, setDepartments] = useState<Record<number, string>>({});
     const [effectiveDate, setEffectiveDate] = useState(new Date().toISOString().split('T')[0]);
     const [durationDays, setDurationDays] = useState(60);
+    const [generateShifts, setGenerateShifts] = useState(false);
     
     // Phase 3: Conflict detection state
     const [currentStep, setCurrentStep] = useState<Step>(Step.SELECT_EMPLOYEES);
@@ -269,12 +270,20 @@ export function AssignEmployeesModal({ isOpen, onClose, rotation }: AssignEmploy
         setIsLoading(true);
         setError(null);
 
+        // Optionally create the shifts for the checked period right away
+        const generateUntil = new Date(effectiveDate);
+        generateUntil.setDate(generateUntil.getDate() + durationDays - 1);
+
         // Use Inertia router.post directly for proper SPA handling
         router.post(
             `/hr/workforce/rotations/${rotation.id}/assign-employees`,
             {
                 employee_ids: selectedEmployees,
                 effective_date: effectiveDate,
+                ...(generateShifts && selectedScheduleId && {
+                    work_schedule_id: selectedScheduleId,
+                    generate_until: generateUntil.toISOString().split('T')[0],
+                }),
             },
             {
                 preserveScroll: true,
@@ -285,6 +294,7 @@ export function AssignEmployeesModal({ isOpen, onClose, rotation }: AssignEmploy
                     setSelectedEmployees([]);
                     setSelectedScheduleId(null);
                     setConflictData(null);
+                    setGenerateShifts(false);
                     setIsLoading(false);
                 },
                 onError: (errors) => {
@@ -565,6 +575,21 @@ export function AssignEmployeesModal({ isOpen, onClose, rotation }: AssignEmploy
                                 ))}
                             </div>
 
+                            {/* Shift Generation */}
+                            <label className="flex items-start gap-2 p-3 border rounded-lg cursor-pointer">
+                                <Checkbox
+                                    checked={generateShifts}
+                                    onCheckedChange={(checked) => setGenerateShifts(checked === true)}
+                                    disabled={isLoading}
+                                />
+                                <div className="text-sm">
+                                    <div className="font-medium">Create shift assignments for the next {durationDays} days</div>
+                                    <div className="text-xs text-gray-600">
+                                        Multi-shift rotations use each day's shift times; other rotations use the schedule's hours.
+                                    </div>
+                                </div>
+                            </label>
+
                             {/* Continue Button Notice */}
                             {conflictData.has_errors && (
                                 <Alert className="bg-orange-50 border-orange-200">
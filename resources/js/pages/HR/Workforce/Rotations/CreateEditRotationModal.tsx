@@ -18,8 +18,9 @@ import {
     SelectTrigger,
     SelectValue,
 } from '@/components/ui/select';
+import { RotationPatternBuilder } from '@/components/workforce/rotation-pattern-builder';
 import { EmployeeRotation, RotationPatternType, RotationPattern, Department } from '@/types/workforce-pages';
-import { AlertCircle, Check, X } from 'lucide-react';
+import { AlertCircle } from 'lucide-react';
 
 interface CreateEditRotationModalProps {
     isOpen: boolean;
@@ -75,7 +76,18 @@ const DEFAULT_PATTERNS: Record<RotationPatternType, RotationPattern> = {
     },
 };
 
-const DAYS = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun'];
+/**
+ * The preset a pattern matches, or custom. Multi-shift patterns are always custom.
+ */
+function matchPatternType(pattern: RotationPattern): RotationPatternType {
+    if (pattern.shifts?.length) return 'custom';
+
+    const preset = (['4x2', '5x2', '6x1'] as RotationPatternType[]).find(
+        (type) => DEFAULT_PATTERNS[type].pattern.join() === pattern.pattern.join()
+    );
+
+    return preset ?? 'custom';
+}
 
 export function CreateEditRotationModal({
     isOpen,
@@ -97,7 +109,6 @@ export function CreateEditRotationModal({
 
     const [isLoading, setIsLoading] = useState(false);
     const [showPatternBuilder, setShowPatternBuilder] = useState(false);
-    const [patternInput, setPatternInput] = useState<number[]>([]);
 
     useEffect(() => {
         if (rotation) {
@@ -111,7 +122,6 @@ export function CreateEditRotationModal({
                 start_date: new Date().toISOString().split('T')[0],
                 end_date: '',
             });
-            setPatternInput(rotation.pattern_json.pattern);
         } else {
             setFormData({
                 id: 0,
@@ -123,7 +133,6 @@ export function CreateEditRotationModal({
                 start_date: new Date().toISOString().split('T')[0],
                 end_date: '',
             });
-            setPatternInput([1, 1, 1, 1, 0, 0]);
         }
     }, [rotation, isOpen]);
 
@@ -141,26 +150,13 @@ export function CreateEditRotationModal({
             pattern_type: patternType,
             pattern_json: pattern,
         }));
-        setPatternInput(pattern.pattern);
     };
 
-    const togglePatternDay = (index: number) => {
-        const newPattern = [...patternInput];
-        newPattern[index] = newPattern[index] === 1 ? 0 : 1;
-        setPatternInput(newPattern);
-        
-        const workDays = newPattern.filter((d) => d === 1).length;
-        const restDays = newPattern.filter((d) => d === 0).length;
-
+    const handlePatternChange = (pattern: RotationPattern) => {
         setFormData((prev) => ({
             ...prev,
-            pattern_json: {
-                ...prev.pattern_json,
-                pattern: newPattern,
-                work_days: workDays,
-                rest_days: restDays,
-                cycle_length: newPattern.length,
-            },
+            pattern_type: matchPatternType(pattern),
+            pattern_json: pattern,
         }));
     };
 
@@ -297,30 +293,11 @@ export function CreateEditRotationModal({
                             </div>
 
                             {showPatternBuilder && (
-                                <div className="grid grid-cols-7 gap-1 p-4 bg-gray-50 rounded-lg">
-                                    {DAYS.map((day, index) => (
-                                        <button
-                                            key={index}
-                                            type="button"
-                                            onClick={() => togglePatternDay(index)}
-                                            className={`p-2 rounded text-center text-xs font-medium transition-colors ${
-                                                patternInput[index] === 1
-                                                    ? 'bg-blue-500 text-white'
-                                                    : 'bg-gray-300 text-gray-700'
-                                            }`}
-                                            title={patternInput[index] === 1 ? 'Work' : 'Rest'}
-                                        >
-                                            <div>{day}</div>
-                                            <div className="text-xs mt-1">
-                                                {patternInput[index] === 1 ? (
-                                                    <Check className="h-3 w-3 mx-auto" />
-                                                ) : (
-                                                    <X className="h-3 w-3 mx-auto" />
-                                                )}
-                                            </div>
-                                        </button>
-                                    ))}
-                                </div>
+                                <RotationPatternBuilder
+                                    pattern={formData.pattern_json}
+                                    patternType={formData.pattern_type}
+                                    onPatternChange={handlePatternChange}
+                                />
                             )}
                         </div>
                     </div>
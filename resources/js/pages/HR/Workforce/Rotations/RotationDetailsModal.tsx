@@ -11,6 +11,7 @@ import {
 } from '@/components/ui/dialog';
 import { Badge } from '@/components/ui/badge';
 import { EmployeeRotation } from '@/types/workforce-pages';
+import { getRotationDayShift, getShiftTypeCellClasses } from '@/lib/workforce-utils';
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import { AlertCircle, Calendar, Users, FileText, Copy, Trash2, Plus } from 'lucide-react';
 
@@ -103,17 +104,20 @@ export function RotationDetailsModal({
             return null;
         }
 
-        return patternData.pattern.slice(0, 14).map((day: number, index: number) => (
-            <div
-                key={index}
-                className={`h-8 w-full rounded text-xs font-bold flex items-center justify-center text-white ${
-                    day === 1 ? 'bg-blue-500' : 'bg-gray-300'
-                }`}
-                title={day === 1 ? 'Work' : 'Rest'}
-            >
-                {day === 1 ? 'W' : 'R'}
-            </div>
-        ));
+        return patternData.pattern.slice(0, 14).map((day: number, index: number) => {
+            const shift = getRotationDayShift(patternData, index);
+            return (
+                <div
+                    key={index}
+                    className={`h-8 w-full rounded text-xs font-bold flex items-center justify-center ${
+                        shift ? getShiftTypeCellClasses(shift.shift_type) : day === 1 ? 'bg-blue-500 text-white' : 'bg-gray-300 text-white'
+                    }`}
+                    title={shift ? `${shift.name} (${shift.shift_start}-${shift.shift_end})` : day === 1 ? 'Work' : 'Rest'}
+                >
+                    {shift ? shift.code : day === 1 ? 'W' : 'R'}
+                </div>
+            );
+        });
     };
 
     return (
@@ -3,7 +3,7 @@ import { Head, usePage, router } from '@inertiajs/react';
 import AppLayout from '@/layouts/app-layout';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
-import { Plus, Edit, Trash2, Copy, Calendar, Grid, List } from 'lucide-react';
+import { Plus, Edit, Trash2, Copy, Calendar, Grid, List, History } from 'lucide-react';
 import ScheduleFilters from '@/components/workforce/schedule-filters';
 import ScheduleCard from '@/components/workforce/schedule-card';
 import CreateEditScheduleModal from './CreateEditScheduleModal';
@@ -71,6 +71,10 @@ export default function SchedulesIndex() {
         });
     };
 
+    const handleVersionsClick = (schedule: WorkSchedule) => {
+        router.get(`/hr/workforce/schedules/${schedule.id}/versions`);
+    };
+
     const handleSaveSchedule = () => {
         // Modal handles save directly with Inertia
     };
@@ -200,6 +204,7 @@ export default function SchedulesIndex() {
                                     onEdit={handleEditClick}
                                     onDelete={handleDeleteClick}
                                     onDuplicate={handleDuplicateClick}
+                                    onVersions={handleVersionsClick}
                                 />
                             ))}
                         </div>
@@ -277,6 +282,18 @@ export default function SchedulesIndex() {
                                                             >
                                                                 <Copy className="h-4 w-4" />
                                                             </Button>
+                                                            <Button
+                                                                variant="ghost"
+                                                                size="sm"
+                                                                onClick={(e) => {
+                                                                    e.stopPropagation();
+                                                                    handleVersionsClick(schedule);
+                                                                }}
+                                                                className="h-8 w-8 p-0"
+                                                                title="Published versions"
+                                                            >
+                                                                <History className="h-4 w-4" />
+                                                            </Button>
                                                             <PermissionGate permission="hr.workforce.schedules.delete">
                                                                 <Button
                                                                     variant="ghost"
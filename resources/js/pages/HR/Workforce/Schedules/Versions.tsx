@@ -0,0 +1,283 @@
+import { useState } from 'react';
+import { Head, usePage, router } from '@inertiajs/react';
+import { format, parseISO } from 'date-fns';
+import AppLayout from '@/layouts/app-layout';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import {
+    Select,
+    SelectContent,
+    SelectItem,
+    SelectTrigger,
+    SelectValue,
+} from '@/components/ui/select';
+import {
+    Table,
+    TableBody,
+    TableCell,
+    TableHead,
+    TableHeader,
+    TableRow,
+} from '@/components/ui/table';
+import { AlertTriangle, ArrowLeft, CheckCircle2, History, Send } from 'lucide-react';
+import { PermissionGate } from '@/components/permission-gate';
+import ScheduleVersionDiff from '@/components/workforce/schedule-version-diff';
+import { ScheduleVersion, ScheduleVersionsProps } from '@/types/workforce-pages';
+
+const scopeLabel = (weekStart: string | null) =>
+    weekStart ? `Week of ${format(parseISO(weekStart), 'MMM d, yyyy')}` : 'Schedule hours';
+
+export default function ScheduleVersionsPage() {
+    const { schedule, versions, selected, preview, flash } = usePage().props as unknown as ScheduleVersionsProps & {
+        flash?: { success?: string | null; error?: string | null };
+    };
+
+    const [note, setNote] = useState('');
+    const [isPublishing, setIsPublishing] = useState(false);
+
+    const baseUrl = `/hr/workforce/schedules/${schedule.id}/versions`;
+    const canPublish = !schedule.is_template && !['expired', 'archived'].includes(schedule.status);
+
+    const breadcrumb = [
+        { title: 'HR', href: '/hr' },
+        { title: 'Workforce', href: '/hr/workforce' },
+        { title: 'Work Schedules', href: '/hr/workforce/schedules' },
+        { title: 'Versions', href: baseUrl },
+    ];
+
+    const visit = (params: { week?: string | null; version?: number | null }) => {
+        router.get(
+            baseUrl,
+            {
+                week: params.week ?? undefined,
+                version: params.version ?? undefined,
+            },
+            { preserveScroll: true, preserveState: true }
+        );
+    };
+
+    const handleScopeChange = (scope: string) => {
+        visit({ week: scope === 'week' ? format(new Date(), 'yyyy-MM-dd') : null, version: selected?.id });
+    };
+
+    const handlePublish = () => {
+        router.post(
+            `/hr/workforce/schedules/${schedule.id}/publish`,
+            { week_start: preview.week_start, note: note || null },
+            {
+                preserveScroll: true,
+                onStart: () => setIsPublishing(true),
+                onFinish: () => setIsPublishing(false),
+                onSuccess: () => setNote(''),
+            }
+        );
+    };
+
+    const summaryLabel = (version: ScheduleVersion) => {
+        const parts = [
+            version.summary.hours ? `${version.summary.hours} day(s) of hours` : null,
+            version.summary.gained ? `+${version.summary.gained}` : null,
+            version.summary.lost ? `−${version.summary.lost}` : null,
+            version.summary.changed ? `~${version.summary.changed}` : null,
+        ].filter(Boolean);
+
+        return parts.length > 0 ? parts.join(' · ') : version.version === 1 ? 'First version' : '—';
+    };
+
+    return (
+        <AppLayout breadcrumbs={breadcrumb}>
+            <Head title={`${schedule.name} Versions`} />
+
+            <div className="space-y-6 p-6">
+                <div className="flex items-center gap-3">
+                    <Button variant="ghost" size="sm" onClick={() => router.get('/hr/workforce/schedules')}>
+                        <ArrowLeft className="h-4 w-4" />
+                    </Button>
+                    <div>
+                        <div className="flex items-center gap-2">
+                            <h1 className="text-3xl font-bold text-gray-900">{schedule.name}</h1>
+                            <Badge variant="outline">{schedule.status}</Badge>
+                        </div>
+                        <p className="text-gray-600 mt-1">
+                            Employees see the latest published version. Publish the schedule hours, or a week of shift
+                            assignments, once your edits are ready.
+                        </p>
+                    </div>
+                </div>
+
+                {flash?.success && (
+                    <Alert>
+                        <CheckCircle2 className="h-4 w-4" />
+                        <AlertDescription>{flash.success}</AlertDescription>
+                    </Alert>
+                )}
+                {flash?.error && (
+                    <Alert variant="destructive">
+                        <AlertTriangle className="h-4 w-4" />
+                        <AlertDescription>{flash.error}</AlertDescription>
+                    </Alert>
+                )}
+
+                <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+                    {/* Unpublished Changes */}
+                    <Card>
+                        <CardHeader>
+                            <CardTitle>Unpublished Changes</CardTitle>
+                        </CardHeader>
+                        <CardContent className="space-y-4">
+                            <div className="grid grid-cols-2 gap-3">
+                                <div className="space-y-2">
+                                    <Label>Publish</Label>
+                                    <Select value={preview.week_start ? 'week' : 'hours'} onValueChange={handleScopeChange}>
+                                        <SelectTrigger>
+                                            <SelectValue />
+                                        </SelectTrigger>
+                                        <SelectContent>
+                                            <SelectItem value="hours">Schedule hours</SelectItem>
+                                            <SelectItem value="week">A week of assignments</SelectItem>
+                                        </SelectContent>
+                                    </Select>
+                                </div>
+                                {preview.week_start && (
+                                    <div className="space-y-2">
+                                        <Label>Week starting</Label>
+                                        <Input
+                                            type="date"
+                                            value={preview.week_start}
+                                            onChange={(e) => e.target.value && visit({ week: e.target.value, version: selected?.id })}
+                                        />
+                                    </div>
+                                )}
+                            </div>
+
+                            <p className="text-sm text-gray-600">
+                                {preview.latest_version
+                                    ? `Compared with published version ${preview.latest_version}.`
+                                    : `${scopeLabel(preview.week_start)} has not been published yet.`}
+                            </p>
+
+                            <ScheduleVersionDiff
+                                diff={preview.diff}
+                                emptyMessage={
+                                    preview.has_changes
+                                        ? 'Publishing will notify the employees on this schedule.'
+                                        : 'Everything is published.'
+                                }
+                            />
+
+                            {canPublish && (
+                                <PermissionGate permission="hr.workforce.schedules.publish">
+                                    <div className="space-y-3 border-t pt-4">
+                                        <Textarea
+                                            value={note}
+                                            onChange={(e) => setNote(e.target.value)}
+                                            placeholder="Note to the employees (optional)"
+                                            maxLength={500}
+                                            rows={2}
+                                        />
+                                        <div className="flex justify-end">
+                                            <Button
+                                                onClick={handlePublish}
+                                                disabled={isPublishing || !preview.has_changes}
+                                                className="gap-2"
+                                            >
+                                                <Send className="h-4 w-4" />
+                                                Publish {preview.latest_version ? `Version ${preview.latest_version + 1}` : 'Version 1'}
+                                            </Button>
+                                        </div>
+                                    </div>
+                                </PermissionGate>
+                            )}
+                        </CardContent>
+                    </Card>
+
+                    {/* Selected Version */}
+                    <Card>
+                        <CardHeader>
+                            <CardTitle>
+                                {selected
+                                    ? `Version ${selected.version} · ${scopeLabel(selected.week_start)}`
+                                    : 'Version Details'}
+                            </CardTitle>
+                        </CardHeader>
+                        <CardContent className="space-y-4">
+                            {selected ? (
+                                <>
+                                    <p className="text-sm text-gray-600">
+                                        Published {format(parseISO(selected.published_at), 'MMM d, yyyy h:mm a')}
+                                        {selected.published_by && ` by ${selected.published_by}`} ·{' '}
+                                        {selected.notified_count} employee(s) notified
+                                    </p>
+                                    {selected.note && <p className="text-sm italic text-gray-500">“{selected.note}”</p>}
+                                    <ScheduleVersionDiff
+                                        diff={selected.diff}
+                                        emptyMessage={
+                                            selected.version === 1 ? 'First published version.' : 'No changes.'
+                                        }
+                                    />
+                                    {selected.snapshot.shifts && (
+                                        <p className="text-xs text-gray-500">
+                                            {selected.snapshot.shifts.length} shift(s) in this version.
+                                        </p>
+                                    )}
+                                </>
+                            ) : (
+                                <p className="text-sm text-gray-500">Select a version below to see what changed.</p>
+                            )}
+                        </CardContent>
+                    </Card>
+                </div>
+
+                {/* Version History */}
+                <Card>
+                    <CardHeader>
+                        <CardTitle className="flex items-center gap-2">
+                            <History className="h-5 w-5" />
+                            Version History
+                        </CardTitle>
+                    </CardHeader>
+                    <CardContent>
+                        {versions.length === 0 ? (
+                            <p className="text-sm text-gray-500">This schedule has not been published yet.</p>
+                        ) : (
+                            <Table>
+                                <TableHeader>
+                                    <TableRow>
+                                        <TableHead>Version</TableHead>
+                                        <TableHead>Covers</TableHead>
+                                        <TableHead>Changes</TableHead>
+                                        <TableHead>Notified</TableHead>
+                                        <TableHead>Published</TableHead>
+                                    </TableRow>
+                                </TableHeader>
+                                <TableBody>
+                                    {versions.map((version) => (
+                                        <TableRow
+                                            key={version.id}
+                                            className={`cursor-pointer ${selected?.id === version.id ? 'bg-muted' : ''}`}
+                                            onClick={() => visit({ week: preview.week_start, version: version.id })}
+                                        >
+                                            <TableCell className="font-medium">v{version.version}</TableCell>
+                                            <TableCell>{scopeLabel(version.week_start)}</TableCell>
+                                            <TableCell className="text-sm">{summaryLabel(version)}</TableCell>
+                                            <TableCell>{version.notified_count}</TableCell>
+                                            <TableCell className="text-sm text-gray-600">
+                                                {format(parseISO(version.published_at), 'MMM d, h:mm a')}
+                                                {version.published_by && ` by ${version.published_by}`}
+                                            </TableCell>
+                                        </TableRow>
+                                    ))}
+                                </TableBody>
+                            </Table>
+                        )}
+                    </CardContent>
+                </Card>
+            </div>
+        </AppLayout>
+    );
+}
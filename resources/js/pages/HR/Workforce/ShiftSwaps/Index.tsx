@@ -0,0 +1,209 @@
+import { useState } from 'react';
+import { Head, usePage, router } from '@inertiajs/react';
+import { format, parseISO } from 'date-fns';
+import AppLayout from '@/layouts/app-layout';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Textarea } from '@/components/ui/textarea';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import {
+    Table,
+    TableBody,
+    TableCell,
+    TableHead,
+    TableHeader,
+    TableRow,
+} from '@/components/ui/table';
+import { AlertTriangle, ArrowLeftRight, CheckCircle2, Gift, X } from 'lucide-react';
+import { formatSwapShift, getSwapStatusBadge } from '@/lib/workforce-utils';
+import { ShiftSwapApprovalProps, ShiftSwapRequest } from '@/types/workforce-pages';
+
+export default function ShiftSwapsPage() {
+    const { pending, recent, maxWeeklyHours, flash } = usePage().props as unknown as ShiftSwapApprovalProps & {
+        flash?: { success?: string | null; error?: string | null };
+    };
+
+    const [notes, setNotes] = useState<Record<number, string>>({});
+    const [processingId, setProcessingId] = useState<number | null>(null);
+
+    const breadcrumb = [
+        { title: 'HR', href: '/hr' },
+        { title: 'Workforce', href: '/hr/workforce' },
+        { title: 'Shift Swaps', href: '/hr/workforce/shift-swaps' },
+    ];
+
+    const handleDecision = (swap: ShiftSwapRequest, decision: 'approve' | 'reject') => {
+        router.post(
+            `/hr/workforce/shift-swaps/${swap.id}/${decision}`,
+            { note: notes[swap.id] || null },
+            {
+                preserveScroll: true,
+                onStart: () => setProcessingId(swap.id),
+                onFinish: () => setProcessingId(null),
+            }
+        );
+    };
+
+    return (
+        <AppLayout breadcrumbs={breadcrumb}>
+            <Head title="Shift Swaps" />
+
+            <div className="space-y-6 p-6">
+                <div>
+                    <h1 className="text-3xl font-bold text-gray-900">Shift Swaps</h1>
+                    <p className="text-gray-600 mt-1">
+                        Give-aways and swaps agreed by employees, waiting for your approval. Approving hands the shift
+                        assignments over. Weekly hours are capped at {maxWeeklyHours}h.
+                    </p>
+                </div>
+
+                {flash?.success && (
+                    <Alert>
+                        <CheckCircle2 className="h-4 w-4" />
+                        <AlertDescription>{flash.success}</AlertDescription>
+                    </Alert>
+                )}
+                {flash?.error && (
+                    <Alert variant="destructive">
+                        <AlertTriangle className="h-4 w-4" />
+                        <AlertDescription>{flash.error}</AlertDescription>
+                    </Alert>
+                )}
+
+                {/* Pending Approval */}
+                <Card>
+                    <CardHeader>
+                        <CardTitle>Awaiting Approval ({pending.length})</CardTitle>
+                    </CardHeader>
+                    <CardContent className="space-y-4">
+                        {pending.length === 0 ? (
+                            <p className="text-sm text-gray-500">No requests are waiting for your approval.</p>
+                        ) : (
+                            pending.map((swap) => {
+                                const isBlocked = swap.eligibility.some((issue) => issue.blocking);
+
+                                return (
+                                    <div key={swap.id} className="rounded-lg border p-4 space-y-3">
+                                        <div className="flex items-start justify-between gap-4">
+                                            <div className="space-y-1">
+                                                <div className="flex items-center gap-2 font-medium">
+                                                    {swap.type === 'swap' ? (
+                                                        <ArrowLeftRight className="h-4 w-4 text-blue-600" />
+                                                    ) : (
+                                                        <Gift className="h-4 w-4 text-green-600" />
+                                                    )}
+                                                    {swap.type === 'swap'
+                                                        ? `${swap.requester_name} ⇄ ${swap.target_employee_name}`
+                                                        : `${swap.requester_name} → ${swap.target_employee_name}`}
+                                                </div>
+                                                <p className="text-sm text-gray-600">
+                                                    {swap.department_name && `${swap.department_name} · `}
+                                                    {formatSwapShift(swap.shift)}
+                                                    {swap.type === 'swap' && ` for ${formatSwapShift(swap.target_shift)}`}
+                                                </p>
+                                                {swap.note && <p className="text-sm text-gray-500 italic">“{swap.note}”</p>}
+                                            </div>
+                                            <Badge variant="outline">{swap.type === 'swap' ? 'Swap' : 'Give-away'}</Badge>
+                                        </div>
+
+                                        {swap.eligibility.length > 0 && (
+                                            <ul className="space-y-1 text-sm">
+                                                {swap.eligibility.map((issue, index) => (
+                                                    <li
+                                                        key={index}
+                                                        className={`flex items-center gap-2 ${issue.blocking ? 'text-red-700' : 'text-amber-700'}`}
+                                                    >
+                                                        <AlertTriangle className="h-3.5 w-3.5" />
+                                                        {issue.message}
+                                                    </li>
+                                                ))}
+                                            </ul>
+                                        )}
+
+                                        <Textarea
+                                            value={notes[swap.id] ?? ''}
+                                            onChange={(e) => setNotes((prev) => ({ ...prev, [swap.id]: e.target.value }))}
+                                            placeholder="Note to the employees (optional)"
+                                            maxLength={500}
+                                            rows={2}
+                                        />
+                                        <div className="flex justify-end gap-2">
+                                            <Button
+                                                variant="outline"
+                                                onClick={() => handleDecision(swap, 'reject')}
+                                                disabled={processingId === swap.id}
+                                                className="gap-2"
+                                            >
+                                                <X className="h-4 w-4" />
+                                                Reject
+                                            </Button>
+                                            <Button
+                                                onClick={() => handleDecision(swap, 'approve')}
+                                                disabled={processingId === swap.id || isBlocked}
+                                                className="gap-2"
+                                            >
+                                                <CheckCircle2 className="h-4 w-4" />
+                                                Approve
+                                            </Button>
+                                        </div>
+                                    </div>
+                                );
+                            })
+                        )}
+                    </CardContent>
+                </Card>
+
+                {/* Recent Decisions */}
+                <Card>
+                    <CardHeader>
+                        <CardTitle>Recent Decisions</CardTitle>
+                    </CardHeader>
+                    <CardContent>
+                        {recent.length === 0 ? (
+                            <p className="text-sm text-gray-500">No decisions yet.</p>
+                        ) : (
+                            <Table>
+                                <TableHeader>
+                                    <TableRow>
+                                        <TableHead>Employees</TableHead>
+                                        <TableHead>Shift</TableHead>
+                                        <TableHead>Status</TableHead>
+                                        <TableHead>Decided</TableHead>
+                                    </TableRow>
+                                </TableHeader>
+                                <TableBody>
+                                    {recent.map((swap) => {
+                                        const badge = getSwapStatusBadge(swap.status);
+
+                                        return (
+                                            <TableRow key={swap.id}>
+                                                <TableCell>
+                                                    {swap.requester_name} {swap.type === 'swap' ? '⇄' : '→'} {swap.target_employee_name}
+                                                </TableCell>
+                                                <TableCell className="text-sm">
+                                                    {formatSwapShift(swap.shift)}
+                                                    {swap.type === 'swap' && (
+                                                        <div className="text-gray-500">for {formatSwapShift(swap.target_shift)}</div>
+                                                    )}
+                                                </TableCell>
+                                                <TableCell>
+                                                    <Badge className={badge.className}>{badge.label}</Badge>
+                                                </TableCell>
+                                                <TableCell className="text-sm text-gray-600">
+                                                    {swap.decided_at && format(parseISO(swap.decided_at), 'MMM d, h:mm a')}
+                                                    {swap.decided_by && ` by ${swap.decided_by}`}
+                                                    {swap.decision_note && <div className="italic">“{swap.decision_note}”</div>}
+                                                </TableCell>
+                                            </TableRow>
+                                        );
+                                    })}
+                                </TableBody>
+                            </Table>
+                        )}
+                    </CardContent>
+                </Card>
+            </div>
+        </AppLayout>
+    );
+}
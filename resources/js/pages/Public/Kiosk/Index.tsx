@@ -0,0 +1,678 @@
+import { Head } from '@inertiajs/react';
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { format } from 'date-fns';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { useKeyboardWedge, type WedgeScan } from '@/hooks/use-keyboard-wedge';
+import {
+    cachePhotos,
+    clearPhotos,
+    countUnsynced,
+    deletePunchPhoto,
+    enqueueTap,
+    exportTaps,
+    findRosterCard,
+    getPhotoUrl,
+    getPunchPhotos,
+    getTap,
+    getUnsynced,
+    localStoreStats,
+    markSynced,
+    replaceRoster,
+    rosterGeneratedAt,
+    savePunchPhoto,
+    tapsForCardSince,
+    vacuumOldSynced,
+    type QueuedTap,
+    type RosterCard,
+} from '@/lib/kiosk-store';
+import { AlertCircle, CloudOff, CloudUpload, Download, Maximize, RefreshCw, Settings, UserRound, Wifi } from 'lucide-react';
+
+// ============================================================================
+// Type Definitions
+// ============================================================================
+
+interface KioskCredentials {
+    device_id: string;
+    api_key: string;
+    device_name: string;
+    location: string;
+}
+
+// Values pushed from the device dashboard with push_config; they survive a page reload
+interface KioskSettings {
+    heartbeat_interval?: number;
+    display_text?: string;
+}
+
+// A command handed over in the heartbeat response (DeviceCommandService::deliver)
+interface RemoteCommand {
+    id: number;
+    command: string;
+    payload: { heartbeat_interval?: number; display_text?: string; api_key?: string };
+}
+
+type TapStatus = 'queued' | 'ok' | 'duplicate' | 'unknown' | 'error';
+
+interface DisplayedTap {
+    local_id: number | null;
+    card_uid: string;
+    tapped_at: string;
+    employee_name: string | null;
+    employee_number: string | null;
+    photo_url: string | null;
+    action: string;
+    status: TapStatus;
+}
+
+const CREDENTIALS_KEY = 'kiosk.credentials';
+const SETTINGS_KEY = 'kiosk.settings';
+const SYNC_INTERVAL_MS = 15_000;
+const HEARTBEAT_INTERVAL_MS = 60_000;
+const ROSTER_INTERVAL_MS = 15 * 60_000;
+const DUPLICATE_WINDOW_MS = 15_000;     // Same window as RfidTapController
+const DISPLAY_MS = 6_000;
+const PUNCH_PHOTO_MAX_SIDE = 640;      // Same as rfid-server/camera.py
+
+const statusStyles: Record<TapStatus, string> = {
+    queued: 'border-sky-400 bg-sky-50 dark:bg-sky-950/30',
+    ok: 'border-green-500 bg-green-50 dark:bg-green-950/30',
+    duplicate: 'border-amber-400 bg-amber-50 dark:bg-amber-950/30',
+    unknown: 'border-red-500 bg-red-50 dark:bg-red-950/30',
+    error: 'border-red-500 bg-red-50 dark:bg-red-950/30',
+};
+
+const statusNotes: Record<TapStatus, string> = {
+    queued: 'Saved on this kiosk. It will be sent as soon as the connection returns.',
+    ok: 'Recorded.',
+    duplicate: 'You already tapped a moment ago.',
+    unknown: 'This card is not registered. Please see HR Staff.',
+    error: 'This tap could not be recorded. Please see HR Staff.',
+};
+
+// Local wall-clock time without an offset, the format the gate PCs send
+const localTimestamp = (date: Date) => format(date, "yyyy-MM-dd'T'HH:mm:ss");
+
+const loadCredentials = (): KioskCredentials | null => {
+    try {
+        const stored = localStorage.getItem(CREDENTIALS_KEY);
+        return stored ? JSON.parse(stored) as KioskCredentials : null;
+    } catch {
+        return null;
+    }
+};
+
+const loadSettings = (): KioskSettings => {
+    try {
+        return JSON.parse(localStorage.getItem(SETTINGS_KEY) ?? '{}') as KioskSettings;
+    } catch {
+        return {};
+    }
+};
+
+const deviceFetch = (credentials: Pick<KioskCredentials, 'api_key'>, url: string, init: RequestInit = {}) =>
+    fetch(url, {
+        ...init,
+        credentials: 'omit',
+        headers: {
+            Accept: 'application/json',
+            ...(init.body instanceof FormData ? {} : { 'Content-Type': 'application/json' }),
+            Authorization: `Bearer ${credentials.api_key}`,
+            ...init.headers,
+        },
+    });
+
+// ============================================================================
+// Main Component
+// ============================================================================
+
+export default function KioskIndex() {
+    const [credentials, setCredentials] = useState<KioskCredentials | null>(loadCredentials);
+
+    return (
+        <>
+            <Head title="Attendance Kiosk" />
+            {credentials
+                ? (
+                    <KioskScreen
+                        credentials={credentials}
+                        onCredentialsChange={next => { localStorage.setItem(CREDENTIALS_KEY, JSON.stringify(next)); setCredentials(next); }}
+                        onReset={() => { localStorage.removeItem(CREDENTIALS_KEY); setCredentials(null); }}
+                    />
+                )
+                : <KioskSetup onConfigured={setCredentials} />}
+        </>
+    );
+}
+
+// ============================================================================
+// Setup: register this browser as a kiosk device
+// ============================================================================
+
+function KioskSetup({ onConfigured }: { onConfigured: (credentials: KioskCredentials) => void }) {
+    const [deviceId, setDeviceId] = useState('');
+    const [apiKey, setApiKey] = useState('');
+    const [error, setError] = useState<string | null>(null);
+    const [checking, setChecking] = useState(false);
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setError(null);
+        setChecking(true);
+
+        try {
+            const response = await deviceFetch({ api_key: apiKey.trim() }, '/rfid/kiosk/roster');
+            const json = await response.json().catch(() => ({}));
+
+            if (response.status === 401) {
+                setError('The API key was not accepted. Generate a new one under System → Device Management.');
+            } else if (!response.ok) {
+                setError(json.message ?? `Setup failed (HTTP ${response.status}).`);
+            } else if (json.device_id !== deviceId.trim()) {
+                setError(`This API key belongs to device ${json.device_id}, not ${deviceId.trim()}.`);
+            } else {
+                await replaceRoster(json.cards ?? [], json.generated_at);
+                const configured: KioskCredentials = {
+                    device_id: json.device_id,
+                    api_key: apiKey.trim(),
+                    device_name: json.device_name,
+                    location: json.location,
+                };
+                localStorage.setItem(CREDENTIALS_KEY, JSON.stringify(configured));
+                onConfigured(configured);
+            }
+        } catch {
+            setError('The server could not be reached. Connect the tablet to the network to finish setup.');
+        } finally {
+            setChecking(false);
+        }
+    };
+
+    return (
+        <div className="flex min-h-screen items-center justify-center bg-muted p-6">
+            <Card className="w-full max-w-md">
+                <CardHeader>
+                    <CardTitle>Set up this kiosk</CardTitle>
+                    <CardDescription>
+                        Register the tablet as a kiosk under System → Device Management, generate its API key,
+                        then enter both here. This is needed once per tablet.
+                    </CardDescription>
+                </CardHeader>
+                <CardContent>
+                    <form onSubmit={handleSubmit} className="space-y-4">
+                        <div className="space-y-2">
+                            <Label htmlFor="device_id">Device ID</Label>
+                            <Input id="device_id" value={deviceId} onChange={e => setDeviceId(e.target.value)} placeholder="e.g. KIOSK-LOBBY" required />
+                        </div>
+                        <div className="space-y-2">
+                            <Label htmlFor="api_key">API key</Label>
+                            <Input id="api_key" type="password" value={apiKey} onChange={e => setApiKey(e.target.value)} required />
+                        </div>
+                        {error && (
+                            <div className="flex items-start gap-2 text-sm text-red-600">
+                                <AlertCircle className="mt-0.5 h-4 w-4 shrink-0" />
+                                <p>{error}</p>
+                            </div>
+                        )}
+                        <Button type="submit" className="w-full" disabled={checking || !deviceId.trim() || !apiKey.trim()}>
+                            {checking ? 'Checking...' : 'Start Kiosk'}
+                        </Button>
+                    </form>
+                </CardContent>
+            </Card>
+        </div>
+    );
+}
+
+// ============================================================================
+// Kiosk screen: accept taps, queue them, sync in the background
+// ============================================================================
+
+interface KioskScreenProps {
+    credentials: KioskCredentials;
+    onCredentialsChange: (credentials: KioskCredentials) => void;
+    onReset: () => void;
+}
+
+function KioskScreen({ credentials, onCredentialsChange, onReset }: KioskScreenProps) {
+    const [now, setNow] = useState(new Date());
+    const [online, setOnline] = useState(navigator.onLine);
+    const [authError, setAuthError] = useState(false);
+    const [queued, setQueued] = useState(0);
+    const [lastSyncedAt, setLastSyncedAt] = useState<Date | null>(null);
+    const [rosterAt, setRosterAt] = useState<string | null>(null);
+    const [displayed, setDisplayed] = useState<DisplayedTap | null>(null);
+    const [photoUrl, setPhotoUrl] = useState<string | null>(null);
+    const [settings, setSettings] = useState<KioskSettings>(loadSettings);
+
+    const syncingRef = useRef(false);
+    const videoRef = useRef<HTMLVideoElement | null>(null);
+    const displayedIdRef = useRef<number | null>(null);
+    const hideTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+    const show = useCallback((tap: DisplayedTap) => {
+        displayedIdRef.current = tap.local_id;
+        setDisplayed(tap);
+        if (hideTimerRef.current) clearTimeout(hideTimerRef.current);
+        hideTimerRef.current = setTimeout(() => {
+            displayedIdRef.current = null;
+            setDisplayed(null);
+        }, DISPLAY_MS);
+    }, []);
+
+    // Cached photo first so it shows offline; fall back to the server URL
+    useEffect(() => {
+        let objectUrl: string | null = null;
+        let cancelled = false;
+
+        if (displayed?.employee_number) {
+            getPhotoUrl(displayed.employee_number).then(url => {
+                objectUrl = url;
+                if (!cancelled) setPhotoUrl(url ?? (navigator.onLine ? displayed.photo_url : null));
+            });
+        } else {
+            setPhotoUrl(null);
+        }
+
+        return () => {
+            cancelled = true;
+            if (objectUrl) URL.revokeObjectURL(objectUrl);
+        };
+    }, [displayed?.employee_number, displayed?.photo_url]);
+
+    const refreshQueued = useCallback(async () => setQueued(await countUnsynced()), []);
+
+    /**
+     * Photograph the person tapping for HR's proxy-punch review. Skipped when the tablet
+     * has no camera or camera access was refused.
+     */
+    const capturePhoto = useCallback((localId: number) => {
+        const video = videoRef.current;
+        if (!video || video.videoWidth === 0) return;
+
+        const scale = Math.min(1, PUNCH_PHOTO_MAX_SIDE / Math.max(video.videoWidth, video.videoHeight));
+        const canvas = document.createElement('canvas');
+        canvas.width = Math.round(video.videoWidth * scale);
+        canvas.height = Math.round(video.videoHeight * scale);
+        canvas.getContext('2d')?.drawImage(video, 0, 0, canvas.width, canvas.height);
+        canvas.toBlob(blob => blob && savePunchPhoto(localId, blob), 'image/jpeg', 0.8);
+    }, []);
+
+    /**
+     * Upload photos whose tap has synced. The server answers 404 until it has the tap;
+     * any other answer means it is done with the photo.
+     */
+    const uploadPhotos = useCallback(async () => {
+        for (const photo of await getPunchPhotos()) {
+            const tap = await getTap(photo.local_id);
+            if (!tap || tap.response?.status === 'error') {
+                // Tap vacuumed or rejected by the server; nothing to attach the photo to
+                await deletePunchPhoto(photo.local_id);
+                continue;
+            }
+            if (!tap.synced) continue;
+
+            const body = new FormData();
+            body.append('local_id', String(photo.local_id));
+            body.append('photo', photo.blob, `${photo.local_id}.jpg`);
+
+            let response: Response;
+            try {
+                response = await deviceFetch(credentials, '/rfid/punch-photos', { method: 'POST', body });
+            } catch {
+                return;
+            }
+            if (response.status === 404) continue;
+            if (response.status === 401 || response.status === 429 || response.status >= 500) return;
+            await deletePunchPhoto(photo.local_id);
+        }
+    }, [credentials]);
+
+    /**
+     * Drain queued taps oldest first, the way rfid-server/sync.py does: stop on network
+     * errors, 5xx and 429 (retry later), record other 4xx as permanent failures.
+     */
+    const sync = useCallback(async () => {
+        if (syncingRef.current || authError) return;
+        syncingRef.current = true;
+
+        try {
+            let batch: QueuedTap[];
+            while ((batch = await getUnsynced()).length > 0) {
+                for (const tap of batch) {
+                    let response: Response;
+                    try {
+                        response = await deviceFetch(credentials, '/rfid/tap', {
+                            method: 'POST',
+                            body: JSON.stringify({
+                                card_uid: tap.card_uid,
+                                device_id: credentials.device_id,
+                                tapped_at: tap.tapped_at,
+                                local_id: tap.id,
+                                idempotency_key: tap.idempotency_key,
+                            }),
+                        });
+                    } catch {
+                        setOnline(false);
+                        return;
+                    }
+
+                    setOnline(true);
+
+                    if (response.status === 401) {
+                        setAuthError(true);
+                        return;
+                    }
+                    if (response.status === 429 || response.status >= 500) {
+                        return;
+                    }
+
+                    const json = await response.json().catch(() => ({}));
+                    await markSynced(tap.id!, response.ok
+                        ? json
+                        : { status: 'error', http_status: response.status, message: json.message ?? null });
+
+                    // Replace the offline guess with the server's answer if the tap is still on screen
+                    if (displayedIdRef.current === tap.id && json.status !== 'replayed') {
+                        setDisplayed(current => current && {
+                            ...current,
+                            employee_name: json.employee_name ?? current.employee_name,
+                            employee_number: json.employee_number ?? current.employee_number,
+                            photo_url: json.photo_url ?? current.photo_url,
+                            action: json.predicted_action ?? current.action,
+                            status: response.ok ? (json.status as TapStatus) ?? 'ok' : 'error',
+                        });
+                    }
+                }
+                setLastSyncedAt(new Date());
+            }
+
+            await uploadPhotos();
+        } finally {
+            syncingRef.current = false;
+            await refreshQueued();
+        }
+    }, [authError, credentials, refreshQueued, uploadPhotos]);
+
+    const refreshRoster = useCallback(async () => {
+        try {
+            const response = await deviceFetch(credentials, '/rfid/kiosk/roster');
+            if (response.status === 401) {
+                setAuthError(true);
+                return;
+            }
+            if (!response.ok) return;
+
+            const json = await response.json() as { generated_at: string; cards: RosterCard[] };
+            await replaceRoster(json.cards, json.generated_at);
+            setRosterAt(json.generated_at);
+            setOnline(true);
+            await cachePhotos(json.cards);
+        } catch {
+            setOnline(false);
+        }
+    }, [credentials]);
+
+    /**
+     * Carry out a command from the device dashboard and report back. A new API key is only
+     * kept once the server has accepted the acknowledgement, which it verifies with the old key.
+     */
+    const runCommand = useCallback(async (command: RemoteCommand) => {
+        const acknowledge = (succeeded: boolean, message: string) =>
+            deviceFetch(credentials, `/rfid/commands/${command.id}/ack`, {
+                method: 'POST',
+                body: JSON.stringify({ status: succeeded ? 'succeeded' : 'failed', message }),
+            });
+
+        try {
+            switch (command.command) {
+                case 'force_sync':
+                    await sync();
+                    await acknowledge(true, `Sync finished, ${await countUnsynced()} tap(s) still queued`);
+                    break;
+                case 'clear_photo_cache':
+                    await clearPhotos();
+                    await acknowledge(true, 'Photo cache cleared');
+                    refreshRoster();
+                    break;
+                case 'push_config': {
+                    const next = { ...loadSettings(), ...command.payload };
+                    localStorage.setItem(SETTINGS_KEY, JSON.stringify(next));
+                    setSettings(next);
+                    await acknowledge(true, 'Config applied');
+                    break;
+                }
+                case 'restart_service':
+                    await acknowledge(true, 'Reloading kiosk page');
+                    window.location.reload();
+                    break;
+                case 'rotate_key': {
+                    const apiKey = command.payload.api_key;
+                    if (!apiKey) {
+                        await acknowledge(false, 'No API key in command');
+                        break;
+                    }
+                    const response = await acknowledge(true, 'New API key stored');
+                    if (response.ok) onCredentialsChange({ ...credentials, api_key: apiKey });
+                    break;
+                }
+                default:
+                    await acknowledge(false, `Unsupported command: ${command.command}`);
+            }
+        } catch (error) {
+            // Unacknowledged commands time out on the server, so a failed report is not retried
+            await acknowledge(false, error instanceof Error ? error.message : 'Command failed').catch(() => undefined);
+        }
+    }, [credentials, onCredentialsChange, refreshRoster, sync]);
+
+    const heartbeat = useCallback(async () => {
+        try {
+            const response = await deviceFetch(credentials, '/rfid/heartbeat', {
+                method: 'POST',
+                // device_time lets the server measure this machine's clock drift
+                body: JSON.stringify({ status: 'online', device_time: localTimestamp(new Date()), local_store: await localStoreStats() }),
+            });
+            if (response.status === 401) {
+                setAuthError(true);
+                return;
+            }
+            setOnline(true);
+
+            const json = await response.json().catch(() => ({})) as { commands?: RemoteCommand[] };
+            for (const command of json.commands ?? []) {
+                await runCommand(command);
+            }
+        } catch {
+            setOnline(false);
+        }
+    }, [credentials, runCommand]);
+
+    const handleScan = useCallback(async ({ value }: WedgeScan) => {
+        const cardUid = value.trim().toUpperCase();
+        const tappedAt = new Date();
+        const timestamp = localTimestamp(tappedAt);
+
+        const earlier = await tapsForCardSince(cardUid, localTimestamp(new Date(tappedAt.getFullYear(), tappedAt.getMonth(), tappedAt.getDate())));
+        const card = await findRosterCard(cardUid);
+        const person = {
+            card_uid: cardUid,
+            tapped_at: timestamp,
+            employee_name: card?.employee_name ?? null,
+            employee_number: card?.employee_number ?? null,
+            photo_url: card?.photo_url ?? null,
+        };
+
+        const last = earlier[earlier.length - 1];
+        if (last && tappedAt.getTime() - new Date(last.tapped_at).getTime() < DUPLICATE_WINDOW_MS) {
+            show({ ...person, local_id: null, action: 'DUPLICATE TAP', status: 'duplicate' });
+            return;
+        }
+
+        const tap = await enqueueTap(cardUid, timestamp);
+        capturePhoto(tap.id!);
+
+        // Offline guess from this kiosk's own taps; the server's answer replaces it once synced
+        show({
+            ...person,
+            local_id: tap.id!,
+            action: card ? (earlier.length % 2 === 0 ? 'TIME IN' : 'TIME OUT') : 'UNKNOWN CARD',
+            status: card ? 'queued' : 'unknown',
+        });
+
+        await refreshQueued();
+        sync();
+    }, [capturePhoto, refreshQueued, show, sync]);
+
+    useKeyboardWedge({ enabled: !authError, onScan: handleScan });
+
+    // Camera for punch photos, if the tablet has one
+    useEffect(() => {
+        let stream: MediaStream | null = null;
+        let cancelled = false;
+
+        navigator.mediaDevices?.getUserMedia({ video: { facingMode: 'user' }, audio: false })
+            .then(media => {
+                if (cancelled) {
+                    media.getTracks().forEach(track => track.stop());
+                    return;
+                }
+                stream = media;
+                if (videoRef.current) videoRef.current.srcObject = media;
+            })
+            .catch(() => {
+                // No camera or access refused; taps are recorded without photos
+            });
+
+        return () => {
+            cancelled = true;
+            stream?.getTracks().forEach(track => track.stop());
+        };
+    }, []);
+
+    // Clock
+    useEffect(() => {
+        const timer = setInterval(() => setNow(new Date()), 1000);
+        return () => clearInterval(timer);
+    }, []);
+
+    // Heartbeat, at the interval pushed from the dashboard if there is one
+    useEffect(() => {
+        heartbeat();
+        const timer = setInterval(heartbeat, settings.heartbeat_interval ? settings.heartbeat_interval * 1000 : HEARTBEAT_INTERVAL_MS);
+        return () => clearInterval(timer);
+    }, [heartbeat, settings.heartbeat_interval]);
+
+    // Background sync and roster refresh
+    useEffect(() => {
+        vacuumOldSynced();
+        rosterGeneratedAt().then(setRosterAt);
+        refreshQueued();
+        refreshRoster();
+        sync();
+
+        const syncTimer = setInterval(sync, SYNC_INTERVAL_MS);
+        const rosterTimer = setInterval(refreshRoster, ROSTER_INTERVAL_MS);
+        const handleOnline = () => { setOnline(true); sync(); };
+        const handleOffline = () => setOnline(false);
+
+        window.addEventListener('online', handleOnline);
+        window.addEventListener('offline', handleOffline);
+
+        return () => {
+            clearInterval(syncTimer);
+            clearInterval(rosterTimer);
+            window.removeEventListener('online', handleOnline);
+            window.removeEventListener('offline', handleOffline);
+        };
+    }, [refreshQueued, refreshRoster, sync]);
+
+    // JSON backup of the local store, uploaded in HR → Ledger → Gaps to recover taps the server never got
+    const handleExport = async () => {
+        const taps = await exportTaps();
+        const blob = new Blob(
+            [JSON.stringify({ device_id: credentials.device_id, exported_at: new Date().toISOString(), taps }, null, 2)],
+            { type: 'application/json' }
+        );
+        const link = document.createElement('a');
+        link.href = URL.createObjectURL(blob);
+        link.download = `${credentials.device_id}-taps-${format(new Date(), 'yyyyMMdd-HHmmss')}.json`;
+        link.click();
+        URL.revokeObjectURL(link.href);
+    };
+
+    const handleReset = () => {
+        const warning = queued > 0
+            ? `${queued} tap(s) have not been sent yet and will stay queued on this tablet. Reset anyway?`
+            : 'Remove this tablet\'s kiosk credentials?';
+        if (confirm(warning)) onReset();
+    };
+
+    return (
+        <div className="flex min-h-screen flex-col bg-background select-none">
+            {/* Camera feed for punch photos; never shown */}
+            <video ref={videoRef} autoPlay muted playsInline className="pointer-events-none fixed h-px w-px opacity-0" />
+
+            {/* Status bar */}
+            <div className="flex items-center justify-between border-b px-6 py-3 text-sm">
+                <div>
+                    <span className="font-semibold">{credentials.device_name}</span>
+                    <span className="text-muted-foreground"> · {credentials.location}</span>
+                </div>
+                <div className="flex items-center gap-4 text-muted-foreground">
+                    {online ? (
+                        <span className="flex items-center gap-1 text-green-600"><Wifi className="h-4 w-4" /> Online</span>
+                    ) : (
+                        <span className="flex items-center gap-1 text-amber-600"><CloudOff className="h-4 w-4" /> Offline</span>
+                    )}
+                    <span className="flex items-center gap-1">
+                        <CloudUpload className="h-4 w-4" />
+                        {queued === 0 ? 'All synced' : `${queued} queued`}
+                        {lastSyncedAt && <span className="hidden md:inline">, last sent {format(lastSyncedAt, 'h:mm a')}</span>}
+                    </span>
+                    {rosterAt && <span className="hidden lg:inline">Roster {format(new Date(rosterAt), 'MMM d, h:mm a')}</span>}
+                    <Button variant="ghost" size="sm" onClick={() => sync()} title="Sync now"><RefreshCw className="h-4 w-4" /></Button>
+                    <Button variant="ghost" size="sm" onClick={handleExport} title="Export local taps"><Download className="h-4 w-4" /></Button>
+                    <Button variant="ghost" size="sm" onClick={() => document.documentElement.requestFullscreen?.()} title="Full screen"><Maximize className="h-4 w-4" /></Button>
+                    <Button variant="ghost" size="sm" onClick={handleReset} title="Kiosk settings"><Settings className="h-4 w-4" /></Button>
+                </div>
+            </div>
+
+            {authError && (
+                <div className="flex items-center gap-2 bg-red-600 px-6 py-3 text-white">
+                    <AlertCircle className="h-5 w-5" />
+                    <p className="text-sm font-medium">
+                        This kiosk's API key was revoked. Taps are not being accepted. Ask a system administrator
+                        to generate a new key, then reset the kiosk from the settings button.
+                    </p>
+                </div>
+            )}
+
+            <div className="flex flex-1 flex-col items-center justify-center gap-8 p-6">
+                {displayed ? (
+                    <div className={`flex w-full max-w-2xl items-center gap-8 rounded-2xl border-4 p-8 ${statusStyles[displayed.status]}`}>
+                        <div className="flex h-44 w-44 shrink-0 items-center justify-center overflow-hidden rounded-full bg-muted">
+                            {photoUrl
+                                ? <img src={photoUrl} alt="" className="h-full w-full object-cover" />
+                                : <UserRound className="h-24 w-24 text-muted-foreground" />}
+                        </div>
+                        <div className="min-w-0 space-y-2">
+                            <p className="text-4xl font-bold tracking-tight">{displayed.action}</p>
+                            <p className="truncate text-2xl font-semibold">{displayed.employee_name ?? displayed.card_uid}</p>
+                            {displayed.employee_number && <p className="text-muted-foreground">{displayed.employee_number}</p>}
+                            <p className="text-lg">{format(new Date(displayed.tapped_at), 'h:mm:ss a')}</p>
+                            <p className="text-sm text-muted-foreground">{statusNotes[displayed.status]}</p>
+                        </div>
+                    </div>
+                ) : (
+                    <div className="text-center">
+                        <p className="text-8xl font-bold tabular-nums tracking-tight">{format(now, 'h:mm:ss')}</p>
+                        <p className="mt-2 text-2xl text-muted-foreground">{format(now, 'EEEE, MMMM d, yyyy')}</p>
+                        <p className="mt-10 text-xl">{settings.display_text || 'Tap your badge on the reader'}</p>
+                    </div>
+                )}
+            </div>
+        </div>
+    );
+}
@@ -2,8 +2,10 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/com
 import { Badge } from '@/components/ui/badge';
 import AppLayout from '@/layouts/app-layout';
 import { Head } from '@inertiajs/react';
+import { useState } from 'react';
 import type { BreadcrumbItem } from '@/types';
-import { AlertTriangle, Clock, CheckCircle, TrendingUp } from 'lucide-react';
+import type { LaborComplianceReport } from '@/types/workforce-pages';
+import { AlertTriangle, Clock, CheckCircle, ShieldAlert, TrendingUp } from 'lucide-react';
 
 interface OvertimeViolation {
   id: number;
@@ -75,12 +77,14 @@ interface Props {
     checks_by_status: Record<string, number>;
     checks: ComplianceCheck[];
   };
+  labor_standards: LaborComplianceReport;
   compliance_summary: {
     total_issues: number;
     overtime_violations: number;
     attendance_anomalies: number;
     leave_discrepancies: number;
     failed_compliance_checks: number;
+    labor_standard_violations: number;
     compliance_score: number;
     period_start: string;
     period_end: string;
@@ -95,9 +99,15 @@ export default function CompliancePage({
   attendance_anomalies,
   leave_balance_discrepancies,
   compliance_checks,
+  labor_standards,
   compliance_summary,
   breadcrumbs,
 }: Props) {
+  const [laborSource, setLaborSource] = useState<'all' | 'schedule' | 'attendance'>('all');
+  const laborViolations = labor_standards.violations.filter(
+    (violation) => laborSource === 'all' || violation.source === laborSource
+  );
+
   const getScoreColor = (score: number): string => {
     if (score >= 90) return 'text-green-600';
     if (score >= 70) return 'text-yellow-600';
@@ -176,7 +186,7 @@ export default function CompliancePage({
         </Card>
 
         {/* Summary Cards */}
-        <div className="grid gap-4 md:grid-cols-4">
+        <div className="grid gap-4 md:grid-cols-3 lg:grid-cols-5">
           <Card>
             <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
               <CardTitle className="text-sm font-medium">Overtime Violations</CardTitle>
@@ -220,8 +230,108 @@ export default function CompliancePage({
               <p className="text-xs text-gray-500 mt-1">Regulatory violations</p>
             </CardContent>
           </Card>
+
+          <Card>
+            <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+              <CardTitle className="text-sm font-medium">Labor Standards</CardTitle>
+              <ShieldAlert className="h-4 w-4 text-red-500" />
+            </CardHeader>
+            <CardContent>
+              <div className="text-2xl font-bold">{compliance_summary.labor_standard_violations}</div>
+              <p className="text-xs text-gray-500 mt-1">DOLE rule violations</p>
+            </CardContent>
+          </Card>
         </div>
 
+        {/* Labor Standards (DOLE) */}
+        <Card>
+          <CardHeader>
+            <div className="flex flex-wrap items-start justify-between gap-4">
+              <div>
+                <CardTitle>Labor Standards (DOLE)</CardTitle>
+                <CardDescription>
+                  Schedules and actual attendance checked against rest day, rest period, hours and minor work rules (
+                  {labor_standards.total_violations} total, {labor_standards.employees_affected} employees)
+                </CardDescription>
+              </div>
+              <div className="flex gap-1">
+                {(['all', 'schedule', 'attendance'] as const).map((source) => (
+                  <button
+                    key={source}
+                    type="button"
+                    onClick={() => setLaborSource(source)}
+                    className={`rounded px-3 py-1 text-xs capitalize ${
+                      laborSource === source ? 'bg-primary text-primary-foreground' : 'bg-muted text-muted-foreground'
+                    }`}
+                  >
+                    {source === 'all' ? 'All' : `${source} (${labor_standards.by_source[source]})`}
+                  </button>
+                ))}
+              </div>
+            </div>
+          </CardHeader>
+          <CardContent>
+            <div className="space-y-4">
+              <div className="grid gap-3 md:grid-cols-3">
+                {labor_standards.rules.map((rule) => (
+                  <div key={rule.type} className="bg-red-200 p-3 rounded" title={rule.requirement}>
+                    <p className="text-xs text-neutral-900">{rule.label}</p>
+                    <p className="text-2xl font-bold text-red-900">{labor_standards.by_rule[rule.type] ?? 0}</p>
+                  </div>
+                ))}
+              </div>
+
+              <p className="text-xs text-gray-500 dark:text-gray-400">
+                Limits: rest day after {labor_standards.limits.max_consecutive_workdays} consecutive workdays,{' '}
+                {labor_standards.limits.min_rest_hours}h between shifts, {labor_standards.limits.max_daily_hours}h a day and{' '}
+                {labor_standards.limits.max_weekly_hours}h a week (overtime rules)
+              </p>
+
+              <div className="overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="border-b">
+                      <th className="text-left py-2 px-3">Employee</th>
+                      <th className="text-left py-2 px-3">Date</th>
+                      <th className="text-left py-2 px-3">Rule</th>
+                      <th className="text-left py-2 px-3">Details</th>
+                      <th className="text-left py-2 px-3">Source</th>
+                      <th className="text-left py-2 px-3">Severity</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {laborViolations.length > 0 ? (
+                      laborViolations.map((violation) => (
+                        <tr key={violation.id} className="border-b hover:bg-gray-200 dark:hover:bg-neutral-800">
+                          <td className="py-3 px-3">
+                            {violation.employee_name}
+                            <p className="text-xs text-gray-500">{violation.employee_number}</p>
+                          </td>
+                          <td className="py-3 px-3 text-sm">{violation.date}</td>
+                          <td className="py-3 px-3">{violation.label}</td>
+                          <td className="py-3 px-3 text-xs max-w-sm" title={violation.requirement}>
+                            {violation.message}
+                          </td>
+                          <td className="py-3 px-3 capitalize">{violation.source}</td>
+                          <td className="py-3 px-3">
+                            <Badge variant={getSeverityColor(violation.severity)}>{violation.severity}</Badge>
+                          </td>
+                        </tr>
+                      ))
+                    ) : (
+                      <tr>
+                        <td colSpan={6} className="py-4 px-3 text-center text-gray-500">
+                          No labor standard violations found
+                        </td>
+                      </tr>
+                    )}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+
         {/* Overtime Violations */}
         <Card>
           <CardHeader>
@@ -20,7 +20,7 @@ import {
     DialogHeader,
     DialogTitle,
 } from '@/components/ui/dialog';
-import { Plus, RefreshCw, Wifi, WifiOff, AlertTriangle, MoreHorizontal, Key, Copy, CheckCircle2, AlertCircle } from 'lucide-react';
+import { Plus, RefreshCw, Wifi, WifiOff, AlertTriangle, MoreHorizontal, Key, Copy, CheckCircle2, AlertCircle, Tablet } from 'lucide-react';
 
 interface Device {
     id: number;
@@ -30,7 +30,7 @@ interface Device {
     status: 'online' | 'offline' | 'maintenance';
     last_heartbeat: string | null;
     has_api_key: boolean;
-    config: { notes?: string } | null;
+    config: { notes?: string; kind?: 'gate' | 'kiosk' } | null;
     created_at: string;
 }
 
@@ -72,7 +72,7 @@ export default function TimekeepingDevicesIndex({ devices, stats }: Props) {
     const [showRegistrationModal, setShowRegistrationModal] = useState(false);
     const [isSubmitting, setIsSubmitting] = useState(false);
     const [registerErrors, setRegisterErrors] = useState<Record<string, string>>({});
-    const defaultForm = { deviceId: '', deviceName: '', location: '', notes: '' };
+    const defaultForm = { kind: 'gate', deviceId: '', deviceName: '', location: '', notes: '' };
     const [registerForm, setRegisterForm] = useState(defaultForm);
 
     const handleField = (field: string, value: string) => {
@@ -105,7 +105,7 @@ export default function TimekeepingDevicesIndex({ devices, stats }: Props) {
             device_id: registerForm.deviceId.trim(),
             device_name: registerForm.deviceName.trim(),
             location: registerForm.location.trim(),
-            config: registerForm.notes ? { notes: registerForm.notes } : null,
+            config: { kind: registerForm.kind, ...(registerForm.notes ? { notes: registerForm.notes } : {}) },
         }, {
             onSuccess: () => { setShowRegistrationModal(false); setRegisterForm(defaultForm); setIsSubmitting(false); },
             onError: () => setIsSubmitting(false),
@@ -203,7 +203,9 @@ export default function TimekeepingDevicesIndex({ devices, stats }: Props) {
                         </DialogTitle>
                         <DialogDescription>
                             {generatedForDeviceId && <>{`Device: `}<strong>{generatedForDeviceId}</strong><br /></>}
-                            {`This key will only be shown `}<strong>once</strong>{`. Add it to the gate PC's `}<code>.env</code>{` as `}<code>API_KEY</code>.
+                            {devices.find(d => d.device_id === generatedForDeviceId)?.config?.kind === 'kiosk'
+                                ? <>{`This key will only be shown `}<strong>once</strong>{`. Enter it on the kiosk tablet at `}<code>/kiosk</code>.</>
+                                : <>{`This key will only be shown `}<strong>once</strong>{`. Add it to the gate PC's `}<code>.env</code>{` as `}<code>API_KEY</code>.</>}
                         </DialogDescription>
                     </DialogHeader>
                     <div className="py-4 space-y-3">
@@ -240,13 +242,23 @@ export default function TimekeepingDevicesIndex({ devices, stats }: Props) {
                         </DialogDescription>
                     </DialogHeader>
                     <div className="space-y-4 py-2">
+                        <div className="space-y-1">
+                            <label className="text-sm font-medium">Device Type</label>
+                            <select value={registerForm.kind} onChange={e => handleField('kind', e.target.value)}
+                                className="w-full px-3 py-2 border rounded-md text-sm bg-background">
+                                <option value="gate">Gate PC (RFID reader service)</option>
+                                <option value="kiosk">Kiosk tablet (browser with USB reader)</option>
+                            </select>
+                        </div>
                         <div className="space-y-1">
                             <label className="text-sm font-medium">Device ID <span className="text-red-500">*</span></label>
                             <input type="text" value={registerForm.deviceId} onChange={e => handleField('deviceId', e.target.value)}
                                 className={`w-full px-3 py-2 border rounded-md text-sm ${registerErrors.deviceId ? 'border-red-500' : ''}`}
                                 placeholder="e.g. GATE-01" />
                             {registerErrors.deviceId && <p className="text-xs text-red-500">{registerErrors.deviceId}</p>}
-                            <p className="text-xs text-muted-foreground">{`Must match `}<code>DEVICE_ID</code>{` in the gate PC's `}<code>.env</code></p>
+                            {registerForm.kind === 'kiosk'
+                                ? <p className="text-xs text-muted-foreground">{`Entered on the tablet when setting up `}<code>/kiosk</code></p>
+                                : <p className="text-xs text-muted-foreground">{`Must match `}<code>DEVICE_ID</code>{` in the gate PC's `}<code>.env</code></p>}
                         </div>
                         <div className="space-y-1">
                             <label className="text-sm font-medium">Device Name <span className="text-red-500">*</span></label>
@@ -358,6 +370,11 @@ function DeviceRow({ device }: { device: Device }) {
                     </div>
                     <div className="flex items-center gap-2">
                         <StatusBadge status={device.status} />
+                        {device.config?.kind === 'kiosk' && (
+                            <Badge variant="outline" className="text-xs hidden sm:flex items-center gap-1">
+                                <Tablet className="h-3 w-3" /> Kiosk
+                            </Badge>
+                        )}
                         {device.has_api_key && (
                             <Badge variant="outline" className="text-xs hidden sm:flex items-center gap-1">
                                 <Key className="h-3 w-3" /> Key
@@ -402,6 +419,7 @@ function DeviceRow({ device }: { device: Device }) {
                         <div><p className="text-muted-foreground">Status</p><p className="font-medium capitalize">{device.status}</p></div>
                         <div><p className="text-muted-foreground">API Key</p><p className="font-medium">{device.has_api_key ? 'Configured' : 'Not set'}</p></div>
                         <div><p className="text-muted-foreground">Location</p><p className="font-medium">{device.location}</p></div>
+                        <div><p className="text-muted-foreground">Type</p><p className="font-medium">{device.config?.kind === 'kiosk' ? 'Kiosk tablet' : 'Gate PC'}</p></div>
                         <div><p className="text-muted-foreground">Registered</p><p className="font-medium">{new Date(device.created_at).toLocaleDateString()}</p></div>
                         <div className="col-span-2"><p className="text-muted-foreground">Last Heartbeat</p><p className="font-medium">{device.last_heartbeat ? new Date(device.last_heartbeat).toLocaleString() : 'Never'}</p></div>
                         {device.config?.notes && (
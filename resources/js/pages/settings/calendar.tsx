@@ -0,0 +1,165 @@
+import InputError from '@/components/input-error';
+import AppLayout from '@/layouts/app-layout';
+import SettingsLayout from '@/layouts/settings/layout';
+import { type BreadcrumbItem } from '@/types';
+import { Head, router, useForm, usePage } from '@inertiajs/react';
+import { useState } from 'react';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { AlertTriangle, CheckCircle2, Copy } from 'lucide-react';
+
+const breadcrumbs: BreadcrumbItem[] = [
+    {
+        title: 'Calendar feed settings',
+        href: '/settings/calendar',
+    },
+];
+
+interface CalendarFeed {
+    id: number;
+    name: string;
+    token_prefix: string;
+    created_at: string | null;
+    last_used_at: string | null;
+    revoked_at: string | null;
+}
+
+interface CalendarProps {
+    feeds: CalendarFeed[];
+    maxActiveFeeds: number;
+}
+
+const formatDateTime = (value: string | null) => (value ? new Date(value).toLocaleString() : 'Never');
+
+export default function Calendar({ feeds, maxActiveFeeds }: CalendarProps) {
+    const { flash } = usePage().props as { flash?: { success?: string; error?: string; calendar_feed_url?: string } };
+    const [copied, setCopied] = useState(false);
+    const { data, setData, post, processing, errors, reset } = useForm({
+        name: '',
+    });
+
+    const activeFeeds = feeds.filter((feed) => !feed.revoked_at);
+
+    const handleSubmit = (e: React.FormEvent) => {
+        e.preventDefault();
+        post('/settings/calendar', {
+            preserveScroll: true,
+            onSuccess: () => {
+                reset();
+                setCopied(false);
+            },
+        });
+    };
+
+    const handleCopy = () => {
+        if (flash?.calendar_feed_url) {
+            navigator.clipboard.writeText(flash.calendar_feed_url);
+            setCopied(true);
+            setTimeout(() => setCopied(false), 2000);
+        }
+    };
+
+    const handleRevoke = (feed: CalendarFeed) => {
+        if (!confirm(`Revoke "${feed.name}"? Calendars subscribed to it will stop updating.`)) {
+            return;
+        }
+        router.delete(`/settings/calendar/${feed.id}`, { preserveScroll: true });
+    };
+
+    return (
+        <AppLayout breadcrumbs={breadcrumbs}>
+            <Head title="Calendar feed settings" />
+
+            <SettingsLayout>
+                <div className="space-y-6">
+                    <div>
+                        <h2 className="text-lg font-semibold">Calendar feeds</h2>
+                        <p className="text-sm text-neutral-600">
+                            Subscribe to your shifts, approved leave and interviews from Google Calendar, Outlook or Apple Calendar.
+                            Anyone with a feed URL can read it, so revoke feeds you no longer use.
+                        </p>
+                    </div>
+
+                    {flash?.success && (
+                        <Alert className="border-green-200 bg-green-50 text-green-800">
+                            <CheckCircle2 className="h-4 w-4" />
+                            <AlertDescription>{flash.success}</AlertDescription>
+                        </Alert>
+                    )}
+                    {flash?.error && (
+                        <Alert variant="destructive">
+                            <AlertTriangle className="h-4 w-4" />
+                            <AlertDescription>{flash.error}</AlertDescription>
+                        </Alert>
+                    )}
+
+                    {flash?.calendar_feed_url && (
+                        <div className="space-y-2 rounded-md border p-4">
+                            <Label htmlFor="calendar_feed_url">Feed URL</Label>
+                            <div className="flex gap-2">
+                                <Input id="calendar_feed_url" readOnly value={flash.calendar_feed_url} className="font-mono text-xs" onFocus={(e) => e.target.select()} />
+                                <Button type="button" onClick={handleCopy} className={copied ? 'bg-green-600 hover:bg-green-700' : ''}>
+                                    {copied ? <><CheckCircle2 className="h-4 w-4 mr-1" />Copied!</> : <><Copy className="h-4 w-4 mr-1" />Copy</>}
+                                </Button>
+                            </div>
+                            <p className="text-xs text-muted-foreground">Add it to your calendar app as a subscription ("From URL"). Changes appear within about an hour.</p>
+                        </div>
+                    )}
+
+                    <form onSubmit={handleSubmit} className="space-y-6">
+                        <div className="grid gap-2">
+                            <Label htmlFor="name">Feed name</Label>
+                            <Input
+                                id="name"
+                                name="name"
+                                className="mt-1 block w-full"
+                                placeholder="e.g. Work phone"
+                                maxLength={60}
+                                value={data.name}
+                                onChange={(e) => setData('name', e.target.value)}
+                                disabled={processing}
+                            />
+                            <InputError message={errors.name} />
+                        </div>
+
+                        <Button disabled={processing || activeFeeds.length >= maxActiveFeeds}>Create feed</Button>
+                    </form>
+
+                    <div className="space-y-3">
+                        <h3 className="text-sm font-semibold">
+                            Your feeds ({activeFeeds.length}/{maxActiveFeeds} active)
+                        </h3>
+                        {feeds.length === 0 ? (
+                            <p className="text-sm text-muted-foreground">You have no calendar feeds yet.</p>
+                        ) : (
+                            <div className="divide-y rounded-md border">
+                                {feeds.map((feed) => (
+                                    <div key={feed.id} className="flex items-center justify-between gap-4 p-3">
+                                        <div className="min-w-0">
+                                            <div className="flex items-center gap-2">
+                                                <span className="font-medium">{feed.name}</span>
+                                                <span className="font-mono text-xs text-muted-foreground">{feed.token_prefix}…</span>
+                                                {feed.revoked_at && <Badge variant="secondary">Revoked</Badge>}
+                                            </div>
+                                            <p className="text-xs text-muted-foreground">
+                                                Created {formatDateTime(feed.created_at)} · Last used {formatDateTime(feed.last_used_at)}
+                                            </p>
+                                        </div>
+                                        {!feed.revoked_at && (
+                                            <Button variant="outline" size="sm" onClick={() => handleRevoke(feed)}>
+                                                Revoke
+                                            </Button>
+                                        )}
+                                    </div>
+                                ))}
+                            </div>
+                        )}
+                    </div>
+                </div>
+            </SettingsLayout>
+        </AppLayout>
+    );
+}
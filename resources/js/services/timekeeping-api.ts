@@ -0,0 +1,999 @@
+/**
+ * Timekeeping API Client
+ *
+ * Typed client for the HR Timekeeping JSON endpoints: ledger events, ledger health,
+ * devices, employee timelines and the attendance import wizard. Every response is
+ * shape-checked before it reaches a component, and failures surface as
+ * TimekeepingApiError instead of placeholder data.
+ */
+
+import type {
+    AttendanceEvent,
+    AttendanceSource,
+    AttendanceStatus,
+    EdgeDeviceStatus,
+    EdgeMachineDevice,
+    EmployeeBasic,
+    EventType,
+    ImportColumnSpec,
+    ImportError,
+    ImportField,
+    ImportFileFormat,
+    ImportMapping,
+    ImportMappingProfile,
+} from '@/types/timekeeping-pages';
+
+// ============================================================================
+// TYPES & INTERFACES
+// ============================================================================
+
+/**
+ * Filters for ledger time logs. The ledger only holds edge machine taps,
+ * so there is no source filter.
+ */
+export interface TimeLogFilters {
+    date_from?: string;
+    date_to?: string;
+    employee_id?: number;
+    employee_rfid?: string;
+    employee_search?: string;
+    device_id?: string;
+    event_type?: string;
+    page?: number;
+    per_page?: number;
+}
+
+export interface PaginatedResponse<T> {
+    data: T[];
+    meta: {
+        current_page: number;
+        from: number | null;
+        last_page: number;
+        per_page: number;
+        to: number | null;
+        total: number;
+    };
+}
+
+/**
+ * Ledger row as returned by the events endpoint
+ */
+export interface LedgerTimeLog {
+    id: number;
+    sequence_id: number;
+    employee_rfid: string;
+    employee_id: string;
+    employee_name: string;
+    event_type: string;
+    timestamp: string;
+    device_id: string;
+    device_location: string;
+    verified: boolean;
+    rfid_card: string;
+    hash_chain: string;
+    hash_previous: string | null;
+    device_signature: string | null;
+    latency_ms: number | null;
+    source: 'edge_machine';
+}
+
+export interface LedgerHealthStatus {
+    status: 'healthy' | 'warning' | 'critical';
+    metrics: {
+        total_events: number;
+        processed_events: number;
+        pending_events: number;
+        failed_events: number;
+        last_sequence_id: number;
+        last_processed_at: string | null;
+        hash_chain_intact: boolean;
+        device_sync_status: {
+            online: number;
+            offline: number;
+            maintenance: number;
+        };
+    };
+    alerts: Array<{
+        severity: 'info' | 'warning' | 'error';
+        message: string;
+        timestamp: string;
+    }>;
+    performance: {
+        avg_processing_time_ms: number;
+        events_per_hour: number;
+        ledger_size_mb: number | null;  // Only reported on PostgreSQL
+    };
+}
+
+export type TimelineViolationType = 'late_arrival' | 'early_departure' | 'missing_punch' | 'unauthorized_break';
+
+/**
+ * Shift a timeline's punches were paired against, with the window punches are accepted in
+ */
+export interface TimelineShift {
+    id: number;
+    shift_type: string | null;
+    start: string;
+    end: string;               // On the next day when the shift crosses midnight
+    window_opens_at: string;
+    window_closes_at: string;
+    crosses_midnight: boolean;
+}
+
+export interface EmployeeTimeline {
+    employee: EmployeeBasic;
+    date: string;              // Work date; events may fall on the next calendar day
+    shift: TimelineShift | null;  // Null when punches are paired by calendar date
+    events: AttendanceEvent[];
+    summary: {
+        time_in?: string;
+        time_out?: string;
+        break_start?: string;
+        break_end?: string;
+        total_hours: number;
+        status: AttendanceStatus;
+        is_late: boolean;
+        late_minutes: number;
+        night_diff_minutes: number;
+    } | null;  // Null until the day has been summarized
+    violations: Array<{
+        type: TimelineViolationType;
+        message: string;
+        timestamp: string;
+    }>;
+}
+
+export interface EventDetail extends Omit<AttendanceEvent, 'event_type' | 'attendance_record_id'> {
+    event_type: EventType | null;  // Null until the tap is processed into an attendance event
+    employee: EmployeeBasic | null;
+    ledger_metadata: {
+        sequence_id: number;
+        event_type: string;
+        hash: string;
+        prev_hash: string | null;
+        signature?: string;
+        verified: boolean;
+    };
+    device: EdgeMachineDevice | null;
+    processing_metadata: {
+        processed_at: string | null;
+        processing_time_ms: number | null;
+        duplicate_check_passed: boolean;
+        reconciliation_status: 'matched' | 'conflict' | 'pending';
+    };
+}
+
+/**
+ * Scope and moment for a point-in-time attendance reconstruction
+ */
+export interface AttendanceReconstructionQuery {
+    as_of: string;
+    date_from: string;
+    date_to: string;
+    employee_number?: string;
+    department_id?: number;
+}
+
+/**
+ * Derived daily summary values compared between moments
+ */
+export interface ReconstructedSummary {
+    status: AttendanceStatus;
+    time_in: string | null;
+    time_out: string | null;
+    break_duration: number | null;
+    late_minutes: number | null;
+    undertime_minutes: number | null;
+    total_hours_worked: number | null;
+    regular_hours: number | null;
+    overtime_hours: number | null;
+}
+
+export type ReconstructedField = keyof ReconstructedSummary;
+
+export type ReconstructionChangeType = 'event_recorded' | 'event_corrected' | 'correction_approved';
+
+/**
+ * An event or correction that took effect after the reconstructed moment
+ */
+export interface ReconstructionChange {
+    type: ReconstructionChangeType;
+    at: string;
+    description: string;
+    actor: string | null;
+    changed_fields: Partial<Record<ReconstructedField, { from: string | number | null; to: string | number | null }>>;
+}
+
+export interface AttendanceReconstruction {
+    employee: {
+        id: number;
+        employee_number: string;
+        name: string | null;
+        department: string | null;
+    };
+    attendance_date: string;
+    events_known_at_as_of: number;
+    as_of: ReconstructedSummary;
+    current: ReconstructedSummary;
+    changed_since_as_of: boolean;
+    later_changes: ReconstructionChange[];
+    stored: (ReconstructedSummary & { calculated_at: string | null; is_finalized: boolean }) | null;
+    stored_matches_current: boolean;
+}
+
+export interface AttendanceReconstructionResult {
+    data: AttendanceReconstruction[];
+    meta: {
+        as_of: string;
+        date_from: string;
+        date_to: string;
+        employee_count: number;
+        day_count: number;
+        changed_count: number;
+    };
+}
+
+/**
+ * Uploaded file waiting to be mapped and processed
+ */
+export interface UploadedImport {
+    batch_id: number;
+    file_name: string;
+    status: string;
+}
+
+/**
+ * File options the user may correct after detection
+ */
+export interface ImportDetectionOptions {
+    format?: ImportFileFormat;
+    delimiter?: string;
+    has_header?: boolean;
+    skip_lines?: number;
+}
+
+/**
+ * A column as the detected layout splits the file, with its distinct values
+ */
+export interface ImportColumn {
+    index: number;
+    label: string;
+    start: number | null;
+    length: number | null;
+    values: string[];
+}
+
+export interface ImportDetection {
+    format: ImportFileFormat;
+    mapping: ImportMapping;
+    columns: ImportColumn[];
+    sample_lines: string[];
+    line_count: number;
+}
+
+export interface ImportPreviewRow {
+    row_number: number;
+    employee_id: number;
+    employee_number: string;
+    employee_name: string;
+    event_time: string;
+    event_type: EventType;
+    device_id: string | null;
+}
+
+export interface ImportPreview {
+    rows: ImportPreviewRow[];
+    errors: ImportError[];
+    meta: {
+        total_rows: number;
+        valid_rows: number;
+        error_counts: Partial<Record<ImportError['error_type'], number>>;
+    };
+}
+
+export interface ImportProcessResult {
+    total: number;
+    success: number;
+    failed: number;
+    skipped: number;
+}
+
+// ============================================================================
+// ERRORS & RESPONSE CHECKS
+// ============================================================================
+
+/**
+ * Raised for network failures, non-2xx responses and unexpected response shapes
+ */
+export class TimekeepingApiError extends Error {
+    readonly status: number;
+    readonly code: string | null;
+    readonly url: string;
+
+    constructor(message: string, status: number, code: string | null, url: string) {
+        super(message);
+        this.name = 'TimekeepingApiError';
+        this.status = status;
+        this.code = code;
+        this.url = url;
+    }
+}
+
+type JsonRecord = Record<string, unknown>;
+
+const EVENT_TYPES: EventType[] = ['time_in', 'time_out', 'break_start', 'break_end', 'overtime_start', 'overtime_end'];
+const ATTENDANCE_SOURCES: AttendanceSource[] = ['edge_machine', 'manual', 'imported', 'mobile'];
+const ATTENDANCE_STATUSES: AttendanceStatus[] = ['present', 'late', 'absent', 'on_leave', 'undertime', 'overtime'];
+const DEVICE_STATUSES: EdgeDeviceStatus[] = ['online', 'offline', 'maintenance'];
+const HEALTH_STATUSES: LedgerHealthStatus['status'][] = ['healthy', 'warning', 'critical'];
+const VIOLATION_TYPES: TimelineViolationType[] = ['late_arrival', 'early_departure', 'missing_punch', 'unauthorized_break'];
+const RECONSTRUCTION_CHANGE_TYPES: ReconstructionChangeType[] = ['event_recorded', 'event_corrected', 'correction_approved'];
+const IMPORT_FORMATS: ImportFileFormat[] = ['delimited', 'zkteco_dat', 'fixed_width'];
+const IMPORT_FIELDS: ImportField[] = ['employee_number', 'timestamp', 'date', 'time', 'event_type', 'device'];
+const IMPORT_ERROR_TYPES: ImportError['error_type'][] = ['invalid_employee', 'invalid_time', 'duplicate_entry', 'validation_error'];
+const RECONSTRUCTED_FIELDS: ReconstructedField[] = [
+    'status',
+    'time_in',
+    'time_out',
+    'break_duration',
+    'late_minutes',
+    'undertime_minutes',
+    'total_hours_worked',
+    'regular_hours',
+    'overtime_hours',
+];
+
+const isRecord = (value: unknown): value is JsonRecord =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Reads typed fields from a response object, failing loudly on a shape mismatch
+ */
+class ResponseReader {
+    constructor(
+        private readonly value: JsonRecord,
+        private readonly path: string,
+        private readonly url: string,
+    ) {}
+
+    static from(value: unknown, path: string, url: string): ResponseReader {
+        if (!isRecord(value)) {
+            throw invalidResponse(`${path} is not an object`, url);
+        }
+        return new ResponseReader(value, path, url);
+    }
+
+    has(key: string): boolean {
+        return this.value[key] !== undefined && this.value[key] !== null;
+    }
+
+    object(key: string): ResponseReader {
+        return ResponseReader.from(this.value[key], `${this.path}.${key}`, this.url);
+    }
+
+    optionalObject(key: string): ResponseReader | null {
+        return this.has(key) ? this.object(key) : null;
+    }
+
+    array(key: string): unknown[] {
+        const value = this.value[key];
+        if (!Array.isArray(value)) {
+            throw invalidResponse(`${this.path}.${key} is not an array`, this.url);
+        }
+        return value;
+    }
+
+    string(key: string): string {
+        const value = this.value[key];
+        if (typeof value !== 'string') {
+            throw invalidResponse(`${this.path}.${key} is not a string`, this.url);
+        }
+        return value;
+    }
+
+    optionalString(key: string): string | null {
+        return this.has(key) ? this.string(key) : null;
+    }
+
+    number(key: string): number {
+        const value = this.value[key];
+        // Laravel returns decimal columns as numeric strings
+        const parsed = typeof value === 'string' && value.trim() !== '' ? Number(value) : value;
+        if (typeof parsed !== 'number' || Number.isNaN(parsed)) {
+            throw invalidResponse(`${this.path}.${key} is not a number`, this.url);
+        }
+        return parsed;
+    }
+
+    optionalNumber(key: string): number | null {
+        return this.has(key) ? this.number(key) : null;
+    }
+
+    boolean(key: string): boolean {
+        const value = this.value[key];
+        if (typeof value !== 'boolean') {
+            throw invalidResponse(`${this.path}.${key} is not a boolean`, this.url);
+        }
+        return value;
+    }
+
+    scalar(key: string): string | number | null {
+        const value = this.value[key];
+        if (value !== undefined && value !== null && typeof value !== 'string' && typeof value !== 'number') {
+            throw invalidResponse(`${this.path}.${key} is not a string or number`, this.url);
+        }
+        return value ?? null;
+    }
+
+    /**
+     * Keyed object that PHP may have encoded as [] when empty
+     */
+    map(key: string): ResponseReader {
+        const value = this.value[key];
+        return Array.isArray(value) && value.length === 0
+            ? new ResponseReader({}, `${this.path}.${key}`, this.url)
+            : this.object(key);
+    }
+
+    keys(): string[] {
+        return Object.keys(this.value);
+    }
+
+    oneOf<T extends string>(key: string, allowed: readonly T[]): T {
+        const value = this.string(key);
+        if (!(allowed as readonly string[]).includes(value)) {
+            throw invalidResponse(`${this.path}.${key} has unexpected value "${value}"`, this.url);
+        }
+        return value as T;
+    }
+
+    child(value: unknown, path: string): ResponseReader {
+        return ResponseReader.from(value, `${this.path}.${path}`, this.url);
+    }
+}
+
+const invalidResponse = (detail: string, url: string) =>
+    new TimekeepingApiError(`Unexpected response from server: ${detail}`, 200, 'INVALID_RESPONSE', url);
+
+/**
+ * Send a request with the session cookie and return the parsed JSON body
+ */
+async function requestJson(url: string, init: RequestInit = {}): Promise<unknown> {
+    let response: Response;
+    try {
+        response = await fetch(url, {
+            ...init,
+            headers: {
+                Accept: 'application/json',
+                'X-Requested-With': 'XMLHttpRequest',
+                ...(init.method && init.method !== 'GET'
+                    ? { 'X-CSRF-TOKEN': document.querySelector('meta[name="csrf-token"]')?.getAttribute('content') || '' }
+                    : {}),
+                ...init.headers,
+            },
+            credentials: 'same-origin',
+        });
+    } catch {
+        throw new TimekeepingApiError('Unable to reach the server', 0, 'NETWORK_ERROR', url);
+    }
+
+    const body: unknown = await response.json().catch(() => null);
+
+    if (!response.ok) {
+        const message = isRecord(body) && typeof body.message === 'string'
+            ? body.message
+            : `Request failed (HTTP ${response.status})`;
+        const code = isRecord(body) && typeof body.error === 'string'
+            ? body.error
+            : response.status === 422 ? 'VALIDATION_FAILED' : null;
+        throw new TimekeepingApiError(message, response.status, code, url);
+    }
+
+    if (body === null) {
+        throw invalidResponse('body is not JSON', url);
+    }
+
+    return body;
+}
+
+const getJson = (url: string) => requestJson(url);
+
+const sendJson = (method: 'POST' | 'DELETE', url: string, payload?: object) =>
+    requestJson(url, {
+        method,
+        headers: { 'Content-Type': 'application/json' },
+        body: payload ? JSON.stringify(payload) : undefined,
+    });
+
+const toRouteParams = (params: object): Record<string, string | number> =>
+    Object.fromEntries(
+        Object.entries(params).filter(([, value]) => value !== undefined && value !== null && value !== ''),
+    ) as Record<string, string | number>;
+
+// ============================================================================
+// RESPONSE MAPPERS
+// ============================================================================
+
+const toEmployeeBasic = (reader: ResponseReader): EmployeeBasic => ({
+    id: reader.number('id'),
+    name: reader.string('name'),
+    employee_number: reader.string('employee_number'),
+    department_id: reader.optionalNumber('department_id') ?? 0,
+    department_name: reader.optionalString('department_name') ?? 'Unassigned',
+    position: reader.optionalString('position') ?? undefined,
+});
+
+const toDevice = (reader: ResponseReader): EdgeMachineDevice => ({
+    id: reader.string('id'),
+    name: reader.optionalString('name') ?? reader.string('id'),
+    location: reader.optionalString('location') ?? '',
+    status: reader.oneOf('status', DEVICE_STATUSES),
+    last_sync: reader.optionalString('last_sync') ?? reader.optionalString('last_heartbeat'),
+    total_taps_today: reader.optionalNumber('total_taps_today') ?? reader.optionalNumber('scans_today') ?? 0,
+});
+
+const toLedgerTimeLog = (reader: ResponseReader): LedgerTimeLog => ({
+    id: reader.number('id'),
+    sequence_id: reader.number('sequence_id'),
+    employee_rfid: reader.string('employee_rfid'),
+    employee_id: reader.string('employee_id'),
+    employee_name: reader.string('employee_name'),
+    event_type: reader.string('event_type'),
+    timestamp: reader.string('timestamp'),
+    device_id: reader.string('device_id'),
+    device_location: reader.string('device_location'),
+    verified: reader.boolean('verified'),
+    rfid_card: reader.string('rfid_card'),
+    hash_chain: reader.string('hash_chain'),
+    hash_previous: reader.optionalString('hash_previous'),
+    device_signature: reader.optionalString('device_signature'),
+    latency_ms: reader.optionalNumber('latency_ms'),
+    source: 'edge_machine',
+});
+
+const toAttendanceEvent = (reader: ResponseReader): AttendanceEvent => ({
+    id: reader.number('id'),
+    attendance_record_id: reader.optionalNumber('attendance_record_id'),
+    event_type: reader.oneOf('event_type', EVENT_TYPES),
+    timestamp: reader.string('timestamp'),
+    source: reader.oneOf('source', ATTENDANCE_SOURCES),
+    device_id: reader.optionalString('device_id'),
+    device_location: reader.optionalString('device_location'),
+    manual_entry_reason: reader.optionalString('manual_entry_reason'),
+    created_by: reader.optionalNumber('created_by'),
+    created_by_name: reader.optionalString('created_by_name'),
+    calendar_date: reader.optionalString('calendar_date') ?? undefined,
+});
+
+const toReconstructedSummary = (reader: ResponseReader): ReconstructedSummary => ({
+    status: reader.oneOf('status', ATTENDANCE_STATUSES),
+    time_in: reader.optionalString('time_in'),
+    time_out: reader.optionalString('time_out'),
+    break_duration: reader.optionalNumber('break_duration'),
+    late_minutes: reader.optionalNumber('late_minutes'),
+    undertime_minutes: reader.optionalNumber('undertime_minutes'),
+    total_hours_worked: reader.optionalNumber('total_hours_worked'),
+    regular_hours: reader.optionalNumber('regular_hours'),
+    overtime_hours: reader.optionalNumber('overtime_hours'),
+});
+
+const toReconstructionChange = (reader: ResponseReader): ReconstructionChange => {
+    const fields = reader.map('changed_fields');
+    const changedFields: ReconstructionChange['changed_fields'] = {};
+
+    for (const field of fields.keys()) {
+        if ((RECONSTRUCTED_FIELDS as string[]).includes(field)) {
+            const diff = fields.object(field);
+            changedFields[field as ReconstructedField] = { from: diff.scalar('from'), to: diff.scalar('to') };
+        }
+    }
+
+    return {
+        type: reader.oneOf('type', RECONSTRUCTION_CHANGE_TYPES),
+        at: reader.string('at'),
+        description: reader.string('description'),
+        actor: reader.optionalString('actor'),
+        changed_fields: changedFields,
+    };
+};
+
+const toAttendanceReconstruction = (reader: ResponseReader): AttendanceReconstruction => {
+    const employee = reader.object('employee');
+    const stored = reader.optionalObject('stored');
+
+    return {
+        employee: {
+            id: employee.number('id'),
+            employee_number: employee.string('employee_number'),
+            name: employee.optionalString('name'),
+            department: employee.optionalString('department'),
+        },
+        attendance_date: reader.string('attendance_date'),
+        events_known_at_as_of: reader.number('events_known_at_as_of'),
+        as_of: toReconstructedSummary(reader.object('as_of')),
+        current: toReconstructedSummary(reader.object('current')),
+        changed_since_as_of: reader.boolean('changed_since_as_of'),
+        later_changes: reader.array('later_changes').map((change, index) =>
+            toReconstructionChange(reader.child(change, `later_changes[${index}]`))),
+        stored: stored ? {
+            ...toReconstructedSummary(stored),
+            calculated_at: stored.optionalString('calculated_at'),
+            is_finalized: stored.boolean('is_finalized'),
+        } : null,
+        stored_matches_current: reader.boolean('stored_matches_current'),
+    };
+};
+
+const toImportColumnSpec = (reader: ResponseReader, key: string): ImportColumnSpec | null => {
+    const spec = reader.optionalObject(key);
+    if (!spec) return null;
+    return {
+        index: spec.optionalNumber('index') ?? undefined,
+        start: spec.optionalNumber('start') ?? undefined,
+        length: spec.optionalNumber('length') ?? undefined,
+    };
+};
+
+const toImportMapping = (reader: ResponseReader): ImportMapping => {
+    const columns = reader.map('columns');
+    const eventCodes = reader.map('event_codes');
+    const deviceCodes = reader.map('device_codes');
+
+    return {
+        format: reader.oneOf('format', IMPORT_FORMATS),
+        delimiter: reader.optionalString('delimiter'),
+        has_header: reader.has('has_header') ? reader.boolean('has_header') : false,
+        skip_lines: reader.optionalNumber('skip_lines') ?? 0,
+        columns: Object.fromEntries(IMPORT_FIELDS.map(field => [field, toImportColumnSpec(columns, field)])) as ImportMapping['columns'],
+        timestamp_format: reader.optionalString('timestamp_format'),
+        event_codes: Object.fromEntries(eventCodes.keys().map(code => [code, eventCodes.oneOf(code, EVENT_TYPES)])),
+        device_codes: Object.fromEntries(deviceCodes.keys().map(code => [code, deviceCodes.string(code)])),
+        default_device_id: reader.optionalString('default_device_id'),
+    };
+};
+
+const toImportMappingProfile = (reader: ResponseReader): ImportMappingProfile => ({
+    id: reader.number('id'),
+    source: reader.string('source'),
+    format: reader.oneOf('format', IMPORT_FORMATS),
+    mapping: toImportMapping(reader.object('mapping')),
+    description: reader.optionalString('description'),
+    updated_by: reader.optionalString('updated_by'),
+    updated_at: reader.optionalString('updated_at'),
+    last_used_at: reader.optionalString('last_used_at'),
+});
+
+const toImportError = (reader: ResponseReader): ImportError => {
+    const rawData = reader.map('raw_data');
+    return {
+        id: reader.number('id'),
+        import_batch_id: reader.number('import_batch_id'),
+        row_number: reader.number('row_number'),
+        employee_identifier: reader.optionalString('employee_identifier'),
+        error_type: reader.oneOf('error_type', IMPORT_ERROR_TYPES),
+        error_message: reader.string('error_message'),
+        raw_data: Object.fromEntries(rawData.keys().map(key => [key, rawData.scalar(key)])),
+        suggested_fix: reader.optionalString('suggested_fix'),
+        created_at: reader.string('created_at'),
+    };
+};
+
+// ============================================================================
+// API FUNCTIONS
+// ============================================================================
+
+/**
+ * Fetch paginated ledger time logs (newest first)
+ */
+export const fetchTimeLogs = async (filters: TimeLogFilters = {}): Promise<PaginatedResponse<LedgerTimeLog>> => {
+    const url = route('hr.timekeeping.api.ledger.events', toRouteParams(filters));
+    const body = ResponseReader.from(await getJson(url), 'response', url);
+
+    return {
+        data: body.array('data').map((row, index) => toLedgerTimeLog(body.child(row, `data[${index}]`))),
+        meta: {
+            current_page: body.number('current_page'),
+            from: body.optionalNumber('from'),
+            last_page: body.number('last_page'),
+            per_page: body.number('per_page'),
+            to: body.optionalNumber('to'),
+            total: body.number('total'),
+        },
+    };
+};
+
+/**
+ * Fetch the current ledger health snapshot
+ */
+export const fetchLedgerHealth = async (): Promise<LedgerHealthStatus> => {
+    const url = route('hr.timekeeping.api.ledger.health');
+    const data = ResponseReader.from(await getJson(url), 'response', url).object('data');
+    const hashVerification = data.object('hash_verification');
+    const performance = data.object('performance');
+
+    return {
+        status: data.oneOf('status', HEALTH_STATUSES),
+        metrics: {
+            total_events: data.number('events_today'),
+            processed_events: data.number('processed_today'),
+            pending_events: performance.number('queue_depth'),
+            failed_events: hashVerification.number('failed'),
+            last_sequence_id: data.number('last_sequence_id'),
+            last_processed_at: data.optionalString('last_processed_at'),
+            hash_chain_intact: hashVerification.number('failed') === 0,
+            device_sync_status: {
+                online: data.number('devices_online'),
+                offline: data.number('devices_offline'),
+                maintenance: data.number('devices_maintenance'),
+            },
+        },
+        alerts: data.array('alerts').map((alert, index) => {
+            const reader = data.child(alert, `alerts[${index}]`);
+            const severity = reader.oneOf('severity', ['info', 'warning', 'critical'] as const);
+            return {
+                severity: severity === 'critical' ? 'error' : severity,
+                message: reader.string('message'),
+                timestamp: reader.string('timestamp'),
+            };
+        }),
+        performance: {
+            avg_processing_time_ms: performance.number('avg_processing_time_ms'),
+            events_per_hour: performance.number('events_per_hour'),
+            ledger_size_mb: performance.optionalNumber('ledger_size_mb'),
+        },
+    };
+};
+
+/**
+ * Fetch an employee's attendance timeline for one day (YYYY-MM-DD)
+ */
+export const fetchEmployeeTimeline = async (employeeId: number, date: string): Promise<EmployeeTimeline> => {
+    const url = route('hr.timekeeping.api.employee.timeline', { employeeId, date });
+    const data = ResponseReader.from(await getJson(url), 'response', url).object('data');
+    const summary = data.optionalObject('summary');
+    const shift = data.optionalObject('shift');
+
+    return {
+        employee: toEmployeeBasic(data.object('employee')),
+        date: data.string('date'),
+        shift: shift ? {
+            id: shift.number('id'),
+            shift_type: shift.optionalString('shift_type'),
+            start: shift.string('start'),
+            end: shift.string('end'),
+            window_opens_at: shift.string('window_opens_at'),
+            window_closes_at: shift.string('window_closes_at'),
+            crosses_midnight: shift.boolean('crosses_midnight'),
+        } : null,
+        events: data.array('events').map((event, index) => toAttendanceEvent(data.child(event, `events[${index}]`))),
+        summary: summary ? {
+            time_in: summary.optionalString('time_in') ?? undefined,
+            time_out: summary.optionalString('time_out') ?? undefined,
+            break_start: summary.optionalString('break_start') ?? undefined,
+            break_end: summary.optionalString('break_end') ?? undefined,
+            total_hours: summary.number('total_hours'),
+            status: summary.oneOf('status', ATTENDANCE_STATUSES),
+            is_late: summary.boolean('is_late'),
+            late_minutes: summary.number('late_minutes'),
+            night_diff_minutes: summary.number('night_diff_minutes'),
+        } : null,
+        violations: data.array('violations').map((violation, index) => {
+            const reader = data.child(violation, `violations[${index}]`);
+            return {
+                type: reader.oneOf('type', VIOLATION_TYPES),
+                message: reader.string('message'),
+                timestamp: reader.string('timestamp'),
+            };
+        }),
+    };
+};
+
+/**
+ * Fetch all RFID devices with today's tap counts
+ */
+export const fetchDevices = async (): Promise<EdgeMachineDevice[]> => {
+    const url = route('hr.timekeeping.api.ledger.devices');
+    const body = ResponseReader.from(await getJson(url), 'response', url);
+
+    return body.array('data').map((device, index) => toDevice(body.child(device, `data[${index}]`)));
+};
+
+/**
+ * Fetch device status for the dashboard (same source as fetchDevices)
+ */
+export const fetchDeviceStatus = fetchDevices;
+
+/**
+ * Fetch a single ledger event with its linked attendance event, employee and device
+ */
+export const fetchEventDetail = async (sequenceId: number): Promise<EventDetail> => {
+    const url = route('hr.timekeeping.api.ledger.event', { sequenceId });
+    const data = ResponseReader.from(await getJson(url), 'response', url).object('data');
+    const ledgerEvent = data.object('ledger_event');
+    const attendanceEvent = data.optionalObject('attendance_event');
+    const employee = data.optionalObject('employee');
+    const device = data.optionalObject('device');
+
+    const timestamp = ledgerEvent.string('timestamp');
+    const processedAt = ledgerEvent.optionalString('processed_at');
+    const recordedAt = attendanceEvent?.string('recorded_at') ?? null;
+
+    let reconciliationStatus: EventDetail['processing_metadata']['reconciliation_status'] = 'pending';
+    if (attendanceEvent) {
+        const corrected = attendanceEvent.boolean('is_corrected')
+            || new Date(recordedAt!).getTime() !== new Date(timestamp).getTime();
+        reconciliationStatus = corrected ? 'conflict' : 'matched';
+    }
+
+    return {
+        id: ledgerEvent.number('id'),
+        event_type: attendanceEvent ? attendanceEvent.oneOf('event_type', EVENT_TYPES) : null,
+        timestamp,
+        source: 'edge_machine',
+        device_id: ledgerEvent.string('device_id'),
+        device_location: ledgerEvent.string('device_location'),
+        employee: employee ? toEmployeeBasic(employee) : null,
+        ledger_metadata: {
+            sequence_id: ledgerEvent.number('sequence_id'),
+            event_type: ledgerEvent.string('event_type'),
+            hash: ledgerEvent.string('hash_chain'),
+            prev_hash: ledgerEvent.optionalString('hash_previous'),
+            signature: ledgerEvent.optionalString('device_signature') ?? undefined,
+            verified: attendanceEvent?.boolean('ledger_hash_verified') ?? false,
+        },
+        device: device ? toDevice(device) : null,
+        processing_metadata: {
+            processed_at: processedAt,
+            processing_time_ms: processedAt ? new Date(processedAt).getTime() - new Date(timestamp).getTime() : null,
+            duplicate_check_passed: attendanceEvent ? !attendanceEvent.boolean('is_deduplicated') : true,
+            reconciliation_status: reconciliationStatus,
+        },
+    };
+};
+
+/**
+ * Reconstruct daily attendance summaries as they stood at a past moment, with the
+ * later events and corrections that changed them
+ */
+export const fetchAttendanceReconstruction = async (
+    query: AttendanceReconstructionQuery,
+): Promise<AttendanceReconstructionResult> => {
+    const url = route('hr.timekeeping.api.attendance.reconstruction', toRouteParams(query));
+    const body = ResponseReader.from(await getJson(url), 'response', url);
+    const meta = body.object('meta');
+
+    return {
+        data: body.array('data').map((row, index) => toAttendanceReconstruction(body.child(row, `data[${index}]`))),
+        meta: {
+            as_of: meta.string('as_of'),
+            date_from: meta.string('date_from'),
+            date_to: meta.string('date_to'),
+            employee_count: meta.number('employee_count'),
+            day_count: meta.number('day_count'),
+            changed_count: meta.number('changed_count'),
+        },
+    };
+};
+
+/**
+ * Upload an attendance file as a new import batch
+ */
+export const uploadImportFile = async (file: File): Promise<UploadedImport> => {
+    const url = route('hr.timekeeping.import.upload');
+    const form = new FormData();
+    form.append('file', file);
+    form.append('import_type', 'attendance');
+
+    const data = ResponseReader.from(await requestJson(url, { method: 'POST', body: form }), 'response', url).object('data');
+
+    return {
+        batch_id: data.number('batch_id'),
+        file_name: data.string('file_name'),
+        status: data.string('status'),
+    };
+};
+
+/**
+ * Detect the layout of an uploaded file and get a suggested mapping
+ */
+export const detectImportFormat = async (batchId: number, options: ImportDetectionOptions = {}): Promise<ImportDetection> => {
+    const url = route('hr.timekeeping.import.detect', {
+        id: batchId,
+        ...toRouteParams({ ...options, has_header: options.has_header === undefined ? undefined : Number(options.has_header) }),
+    });
+    const data = ResponseReader.from(await getJson(url), 'response', url).object('data');
+
+    return {
+        format: data.oneOf('format', IMPORT_FORMATS),
+        mapping: toImportMapping(data.object('mapping')),
+        columns: data.array('columns').map((column, index) => {
+            const reader = data.child(column, `columns[${index}]`);
+            return {
+                index: reader.number('index'),
+                label: reader.string('label'),
+                start: reader.optionalNumber('start'),
+                length: reader.optionalNumber('length'),
+                values: reader.array('values').map(String),
+            };
+        }),
+        sample_lines: data.array('sample_lines').map(String),
+        line_count: data.number('line_count'),
+    };
+};
+
+/**
+ * Parse an uploaded file through a mapping without importing it
+ */
+export const previewImport = async (batchId: number, mapping: ImportMapping): Promise<ImportPreview> => {
+    const url = route('hr.timekeeping.import.preview', { id: batchId });
+    const body = ResponseReader.from(await sendJson('POST', url, { mapping }), 'response', url);
+    const data = body.object('data');
+    const meta = body.object('meta');
+    const errorCounts = meta.map('error_counts');
+
+    return {
+        rows: data.array('rows').map((row, index) => {
+            const reader = data.child(row, `rows[${index}]`);
+            return {
+                row_number: reader.number('row_number'),
+                employee_id: reader.number('employee_id'),
+                employee_number: reader.string('employee_number'),
+                employee_name: reader.string('employee_name'),
+                event_time: reader.string('event_time'),
+                event_type: reader.oneOf('event_type', EVENT_TYPES),
+                device_id: reader.optionalString('device_id'),
+            };
+        }),
+        errors: data.array('errors').map((error, index) => toImportError(data.child(error, `errors[${index}]`))),
+        meta: {
+            total_rows: meta.number('total_rows'),
+            valid_rows: meta.number('valid_rows'),
+            error_counts: Object.fromEntries(
+                IMPORT_ERROR_TYPES.filter(type => errorCounts.has(type)).map(type => [type, errorCounts.number(type)]),
+            ),
+        },
+    };
+};
+
+/**
+ * Import an uploaded file through a mapping
+ */
+export const processImport = async (
+    batchId: number,
+    mapping: ImportMapping,
+    profileId: number | null = null,
+): Promise<ImportProcessResult> => {
+    const url = route('hr.timekeeping.import.process', { id: batchId });
+    const data = ResponseReader.from(
+        await sendJson('POST', url, { mapping, mapping_profile_id: profileId }),
+        'response',
+        url,
+    ).object('data');
+
+    return {
+        total: data.number('total'),
+        success: data.number('success'),
+        failed: data.number('failed'),
+        skipped: data.number('skipped'),
+    };
+};
+
+/**
+ * Save a mapping as the profile of a source, replacing any existing one
+ */
+export const saveImportProfile = async (
+    source: string,
+    mapping: ImportMapping,
+    description: string | null = null,
+): Promise<ImportMappingProfile> => {
+    const url = route('hr.timekeeping.import.profiles.store');
+    const body = ResponseReader.from(await sendJson('POST', url, { source, description, mapping }), 'response', url);
+    return toImportMappingProfile(body.object('data'));
+};
+
+/**
+ * Delete a mapping profile
+ */
+export const deleteImportProfile = async (profileId: number): Promise<void> => {
+    await sendJson('DELETE', route('hr.timekeeping.import.profiles.destroy', { profileId }));
+};
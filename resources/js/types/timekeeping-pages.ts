@@ -16,8 +16,9 @@ import { CommonFilters } from './hr-pages';
  * Primary: edge_machine (RFID card taps)
  * Secondary: manual (HR staff entry for exceptions)
  * Tertiary: imported (bulk CSV/Excel import)
+ * Field staff: mobile (employee portal clock-in with browser location)
  */
-export type AttendanceSource = 'edge_machine' | 'manual' | 'imported';
+export type AttendanceSource = 'edge_machine' | 'manual' | 'imported' | 'mobile';
 
 /**
  * Attendance event types for time tracking
@@ -74,6 +75,24 @@ export type CorrectionStatus =
  */
 export type EdgeDeviceStatus = 'online' | 'offline' | 'maintenance';
 
+/**
+ * Attendance anomaly rules
+ */
+export type AttendanceAnomalyType =
+    | 'impossible_travel'  // Consecutive taps on far-apart devices too close together
+    | 'missing_exit'       // time_in with no time_out within the longest shift
+    | 'buddy_punching';    // Two employees repeatedly tapping back to back on one device
+
+export type AnomalySeverity = 'low' | 'medium' | 'high';
+
+/**
+ * HR review outcome of an anomaly
+ */
+export type AnomalyReviewStatus =
+    | 'open'       // Waiting for review
+    | 'confirmed'  // Reviewed and upheld
+    | 'dismissed'; // Reviewed and explained away
+
 // ============================================================================
 // CORE ENTITY INTERFACES
 // ============================================================================
@@ -112,7 +131,7 @@ export interface EdgeMachineDevice {
  */
 export interface AttendanceEvent {
     id: number;
-    attendance_record_id: number;
+    attendance_record_id: number | null;  // Null until the day has been summarized
     event_type: EventType;
     timestamp: string;           // YYYY-MM-DD HH:MM:SS
     source: AttendanceSource;
@@ -121,6 +140,19 @@ export interface AttendanceEvent {
     manual_entry_reason?: string | null;  // For manual source
     created_by?: number | null;
     created_by_name?: string | null;
+    calendar_date?: string;      // YYYY-MM-DD the tap happened; after the work date for overnight shifts
+}
+
+/**
+ * Shift Attribution
+ * Shift assignment a day's punches were paired against
+ */
+export interface ShiftAttribution {
+    id: number;
+    shift_type: string | null;
+    start: string;                   // HH:MM:SS
+    end: string;                     // HH:MM:SS, before start when the shift crosses midnight
+    crosses_midnight: boolean;
 }
 
 /**
@@ -137,13 +169,17 @@ export interface AttendanceRecord {
     date: string;                    // YYYY-MM-DD
     time_in?: string | null;         // HH:MM:SS
     time_out?: string | null;        // HH:MM:SS
+    time_out_next_day?: boolean;     // Time out fell on the day after the work date
     break_start?: string | null;     // HH:MM:SS
     break_end?: string | null;       // HH:MM:SS
+    shift?: ShiftAttribution | null; // Null when punches were paired by calendar date
     
     // Hours calculations
     total_hours: number;             // Total worked hours
     regular_hours: number;           // Regular shift hours
     overtime_hours: number;          // Overtime hours
+    night_diff_minutes?: number;     // Worked minutes inside the night differential window
+    night_diff_overtime_minutes?: number; // Of those, the minutes worked as overtime
     break_duration: number;          // Break duration in minutes
     
     // Data source tracking
@@ -158,6 +194,8 @@ export interface AttendanceRecord {
     late_minutes?: number;
     is_undertime?: boolean;
     undertime_minutes?: number;
+    anomalies?: AnomalyFlag[];       // Open or confirmed anomalies for the day
+    photo_review?: PunchPhotoReviewSummary | null;  // Punch photo review outcome for the day
     
     // Correction tracking
     is_corrected: boolean;
@@ -232,6 +270,7 @@ export interface OvertimeRecord {
     // Hours tracking
     planned_hours: number;
     actual_hours?: number | null;    // Filled when completed
+    night_diff_minutes?: number;     // Minutes inside the night differential window
     
     // Details
     reason: string;
@@ -314,6 +353,60 @@ export interface ImportError {
     created_at: string;
 }
 
+/**
+ * Layout of an attendance log file
+ */
+export type ImportFileFormat =
+    | 'delimited'     // CSV, TSV and other separated values
+    | 'zkteco_dat'    // ZKTeco attlog export: user ID, timestamp, device, punch state, ...
+    | 'fixed_width';  // Columns at fixed character positions
+
+/**
+ * Fields an import mapping fills from file columns
+ */
+export type ImportField = 'employee_number' | 'timestamp' | 'date' | 'time' | 'event_type' | 'device';
+
+/**
+ * Where a field is read: a column index for split lines, or 0-based
+ * character positions for fixed-width lines
+ */
+export interface ImportColumnSpec {
+    index?: number;
+    start?: number;
+    length?: number;
+}
+
+/**
+ * Import Mapping
+ * How to read an attendance file: parser options, columns, event and device codes
+ */
+export interface ImportMapping {
+    format: ImportFileFormat;
+    delimiter: string | null;
+    has_header: boolean;
+    skip_lines: number;
+    columns: Record<ImportField, ImportColumnSpec | null>;
+    timestamp_format: string | null;       // PHP date format; null parses leniently
+    event_codes: Record<string, EventType>;
+    device_codes: Record<string, string>;  // Raw device code -> device ID
+    default_device_id: string | null;      // Device for rows without a device code
+}
+
+/**
+ * Import Mapping Profile
+ * Saved mapping reused for every file from one source
+ */
+export interface ImportMappingProfile {
+    id: number;
+    source: string;                  // e.g. "Cebu branch ZKTeco"
+    format: ImportFileFormat;
+    mapping: ImportMapping;
+    description: string | null;
+    updated_by: string | null;
+    updated_at: string | null;
+    last_used_at: string | null;
+}
+
 /**
  * Work Schedule (reference from Workforce module)
  * Used for attendance compliance checking
@@ -345,6 +438,306 @@ export interface WorkSchedule {
     afternoon_break_duration?: number | null;
 }
 
+/**
+ * Anomaly flag shown on ledger rows and attendance records
+ */
+export interface AnomalyFlag {
+    id: number;
+    type: AttendanceAnomalyType;
+    severity: AnomalySeverity;
+    status: AnomalyReviewStatus;
+    summary: string;
+}
+
+/**
+ * Attendance Anomaly
+ * A flagged tap pattern in the HR review queue
+ */
+export interface AttendanceAnomaly extends AnomalyFlag {
+    details: Record<string, unknown> | null;
+    attendance_date: string;         // YYYY-MM-DD
+    detected_at: string;
+    employee: AnomalyEmployee;
+    related_employee: AnomalyEmployee | null;  // Other employee of a buddy-punching pair
+    device_id: string | null;
+    device_location: string | null;
+    related_device_id: string | null;          // Previous device of an impossible-travel pair
+    related_device_location: string | null;
+    ledger_sequence_id: number | null;
+    related_ledger_sequence_id: number | null;
+    reviewed_by: string | null;
+    reviewed_at: string | null;
+    review_notes: string | null;
+}
+
+export interface AnomalyEmployee {
+    id: number;
+    employee_number: string;
+    name: string;
+    department: string | null;
+}
+
+/**
+ * Device Pair Anomaly Rule
+ * Threshold overrides for a device pair; device_a_id = device_b_id for one device
+ */
+export interface DevicePairAnomalyRule {
+    id: number;
+    device_a_id: string;
+    device_b_id: string;
+    min_travel_seconds: number | null;     // Null uses the default
+    buddy_window_seconds: number | null;   // Null uses the default
+    is_enabled: boolean;
+    notes: string | null;
+    updated_by: string | null;
+    updated_at: string | null;
+}
+
+/**
+ * Geofence
+ * A site employees may clock in from on the employee portal
+ */
+export interface Geofence {
+    id: number;
+    name: string;
+    address: string | null;
+    latitude: number;
+    longitude: number;
+    radius_meters: number;
+    is_active: boolean;
+    updated_by: string | null;
+    updated_at: string | null;
+}
+
+export type MobilePunchStatus = 'pending' | 'approved' | 'rejected';
+
+/**
+ * Mobile Punch
+ * A portal clock-in; punches outside every geofence, or too imprecise to be sure, wait for HR approval
+ */
+export interface MobilePunch {
+    id: number;
+    employee: AnomalyEmployee;
+    event_type: 'time_in' | 'time_out' | 'break_start' | 'break_end';
+    punched_at: string;              // Server time
+    latitude: number;
+    longitude: number;
+    accuracy_meters: number | null;  // As reported by the browser
+    geofence: Pick<Geofence, 'id' | 'name' | 'radius_meters'> | null;  // Nearest active geofence
+    distance_meters: number | null;  // From that geofence's centre
+    within_geofence: boolean;
+    has_selfie: boolean;
+    status: MobilePunchStatus;
+    attendance_event_id: number | null;
+    reviewed_by: string | null;
+    reviewed_at: string | null;
+    review_notes: string | null;
+}
+
+export type PunchPhotoReviewStatus = 'pending' | 'approved' | 'proxy';
+
+export type PunchPhotoReviewReason = 'random_sample' | 'late_night' | 'anomaly';
+
+/**
+ * Punch Photo
+ * A camera photo taken with an RFID tap that the sampling rules put in the review queue
+ */
+export interface PunchPhoto {
+    id: number;
+    employee: (AnomalyEmployee & { profile_photo_url: string | null }) | null;  // Card holder at the time of the tap
+    device_id: string;
+    device_location: string | null;
+    sequence_id: number | null;
+    event_type: string | null;       // From the ledger entry
+    captured_at: string;             // Device time of the tap
+    review_status: PunchPhotoReviewStatus;
+    review_reason: PunchPhotoReviewReason | null;
+    reviewed_by: string | null;
+    reviewed_at: string | null;
+    review_notes: string | null;
+}
+
+/**
+ * Punch Photo Sampling Rules
+ */
+export interface PunchPhotoRules {
+    sample_percent: number;          // Share of other punches picked at random
+    late_night_enabled: boolean;
+    late_night_start: string;        // HH:mm, device time
+    late_night_end: string;          // HH:mm, may be before the start (crosses midnight)
+    flag_anomalies: boolean;         // Queue photographed punches an anomaly points at
+}
+
+/**
+ * Punch Photo Review Summary
+ * Worst review outcome among an employee-day's queued photos
+ */
+export interface PunchPhotoReviewSummary {
+    status: PunchPhotoReviewStatus;
+    photos: number;
+}
+
+export type DeviceCommandType = 'force_sync' | 'restart_service' | 'clear_photo_cache' | 'push_config' | 'rotate_key';
+
+export type DeviceCommandStatus = 'pending' | 'delivered' | 'succeeded' | 'failed' | 'timed_out' | 'cancelled';
+
+/**
+ * Device Command
+ * A remote command queued for a gate PC or kiosk, delivered with its next heartbeat
+ */
+export interface DeviceCommand {
+    id: number;
+    command: DeviceCommandType;
+    payload: { heartbeat_interval?: number; display_text?: string } | null;
+    status: DeviceCommandStatus;
+    issuedBy: string | null;
+    issuedAt: string | null;
+    deliveredAt: string | null;
+    acknowledgedAt: string | null;
+    expiresAt: string;               // Marked timed_out if not acknowledged by then
+    resultMessage: string | null;    // As reported by the device
+}
+
+/**
+ * Device Clock Correction
+ * A clock_correction ledger annotation re-basing a window of a device's taps
+ */
+export interface DeviceClockCorrection {
+    id: number;
+    windowStart: string;             // Device time
+    windowEnd: string;
+    offsetSeconds: number;           // Added to device time
+    ledgerEntries: number;
+    eventsCorrected: number;
+    reason: string;
+    createdBy: string | null;
+    createdAt: string | null;
+}
+
+/**
+ * Device Clock
+ * Device clock minus server clock, measured from heartbeats; positive = device runs ahead
+ */
+export interface DeviceClock {
+    driftSeconds: number | null;     // Null until the device reports device_time
+    checkedAt: string | null;
+    drifting: boolean;               // |driftSeconds| over thresholdSeconds
+    thresholdSeconds: number;
+    samples: { driftSeconds: number; sampledAt: string }[];  // Last 24 hours
+    corrections: DeviceClockCorrection[];
+}
+
+/**
+ * Ledger Gap
+ * A run of local store row ids (local_id) a device numbered but the server never received
+ */
+export interface LedgerGap {
+    missing_start: number;
+    missing_end: number;
+    gap_size: number;
+    after: string;                   // Tap time of the last id received before the gap
+    before: string | null;           // Tap time of the next id received; null if none yet
+    pending_on_device: boolean;      // Beyond the last id received, as reported by the device heartbeat
+    dates: string[];
+    affected_employees: {
+        employee_id: number;
+        employee_number: string;
+        name: string;
+        date: string;
+        taps: number;                // Odd count = unpaired punch that day
+    }[];
+}
+
+/**
+ * Device Ledger Gaps
+ * Gap detection result for one device
+ */
+export interface DeviceLedgerGaps {
+    device_id: string;
+    device_name: string;
+    location: string | null;
+    status: string;
+    received: number;
+    last_received_local_id: number | null;
+    local_store: {
+        last_local_id: number;
+        pending: number;
+        oldest_pending_at: string | null;
+        reported_at: string;
+    } | null;
+    missing_count: number;
+    gaps: LedgerGap[];
+}
+
+export type LedgerAlertMetric =
+    | 'backlog_depth'
+    | 'processing_rate'
+    | 'hash_failures'
+    | 'device_offline'
+    | 'gate_silent_at_shift_start';
+
+export type LedgerAlertSeverity = 'info' | 'warning' | 'critical';
+
+export type LedgerAlertStatus = 'open' | 'acknowledged' | 'snoozed' | 'resolved';
+
+/**
+ * Ledger Alert Rule
+ * Admin-defined alert on a ledger health metric; the threshold's unit depends on the metric
+ */
+export interface LedgerAlertRule {
+    id: number;
+    name: string;
+    metric: LedgerAlertMetric;
+    threshold: number;
+    device_id: string | null;        // Device metrics only; null = every device not in maintenance
+    severity: LedgerAlertSeverity;
+    notify_in_app: boolean;
+    notify_email: boolean;
+    recipient_user_ids: number[];    // Empty with no email_addresses = HR Managers in-app
+    email_addresses: string[];
+    is_enabled: boolean;
+    updated_by: string | null;
+    updated_at: string | null;
+}
+
+/**
+ * Ledger Alert
+ * One breach of a rule for one subject (the ledger, a device, or a device at a shift start)
+ */
+export interface LedgerAlert {
+    id: number;
+    rule_id: number | null;          // Null once the rule is deleted
+    rule_name: string;
+    metric: LedgerAlertMetric;
+    subject: string;
+    severity: LedgerAlertSeverity;
+    status: LedgerAlertStatus;
+    message: string;
+    value: number | null;
+    triggered_at: string;
+    last_seen_at: string;
+    notification_count: number;
+    acknowledged_by: string | null;
+    acknowledged_at: string | null;
+    snoozed_by: string | null;
+    snoozed_until: string | null;
+    resolved_at: string | null;
+}
+
+/**
+ * Active Ledger Alert
+ * Summary shown on the ledger health widget
+ */
+export interface ActiveLedgerAlert {
+    id: number;
+    rule_name: string;
+    severity: LedgerAlertSeverity;
+    status: LedgerAlertStatus;
+    message: string;
+    triggered_at: string;
+    snoozed_until: string | null;
+}
+
 // ============================================================================
 // FILTER INTERFACES
 // ============================================================================
@@ -657,6 +1050,140 @@ export interface AttendanceRecordsIndexProps {
     edge_devices: EdgeMachineDevice[];
 }
 
+/**
+ * Attendance Anomalies Page Props
+ * HR review queue and per device pair thresholds
+ */
+export interface AttendanceAnomaliesIndexProps {
+    anomalies: {
+        data: AttendanceAnomaly[];
+        current_page: number;
+        last_page: number;
+        per_page: number;
+        total: number;
+        from: number | null;
+        to: number | null;
+        prev_page_url: string | null;
+        next_page_url: string | null;
+    };
+    openCounts: Record<AttendanceAnomalyType, number>;
+    rules: DevicePairAnomalyRule[];
+    devices: Array<{ id: string; location: string | null }>;
+    defaults: {
+        min_travel_seconds: number;
+        buddy_window_seconds: number;
+        buddy_min_days: number;
+        buddy_lookback_days: number;
+        missing_exit_hours: number;
+    };
+    filters: {
+        status: AnomalyReviewStatus | 'all';
+        type?: AttendanceAnomalyType | null;
+        severity?: AnomalySeverity | null;
+        employee_number?: string | null;
+        date_from?: string | null;
+        date_to?: string | null;
+    };
+}
+
+/**
+ * Mobile Clock-In Review Page Props
+ */
+export interface MobileClockInIndexProps {
+    punches: {
+        data: MobilePunch[];
+        current_page: number;
+        last_page: number;
+        per_page: number;
+        total: number;
+        from: number | null;
+        to: number | null;
+        prev_page_url: string | null;
+        next_page_url: string | null;
+    };
+    pendingCount: number;
+    geofences: Geofence[];
+    filters: {
+        status: MobilePunchStatus | 'all';
+        employee_number?: string | null;
+        date_from?: string | null;
+        date_to?: string | null;
+    };
+}
+
+/**
+ * Punch Photo Review Page Props
+ */
+export interface PunchPhotoReviewIndexProps {
+    photos: {
+        data: PunchPhoto[];
+        current_page: number;
+        last_page: number;
+        per_page: number;
+        total: number;
+        from: number | null;
+        to: number | null;
+        prev_page_url: string | null;
+        next_page_url: string | null;
+    };
+    pendingCount: number;
+    rules: PunchPhotoRules;
+    filters: {
+        status: PunchPhotoReviewStatus | 'all';
+        reason?: PunchPhotoReviewReason | null;
+        employee_number?: string | null;
+        date_from?: string | null;
+        date_to?: string | null;
+    };
+}
+
+/**
+ * Ledger Alerts Page Props
+ */
+export interface LedgerAlertsProps {
+    alerts: {
+        data: LedgerAlert[];
+        current_page: number;
+        last_page: number;
+        per_page: number;
+        total: number;
+        from: number | null;
+        to: number | null;
+        prev_page_url: string | null;
+        next_page_url: string | null;
+    };
+    activeCount: number;
+    rules: LedgerAlertRule[];
+    recipients: { id: number; name: string; email: string }[];
+    devices: { id: string; name: string; location: string | null }[];
+    snoozeOptions: number[];         // Minutes
+    filters: {
+        status: LedgerAlertStatus | 'active' | 'all';
+        metric?: LedgerAlertMetric | null;
+    };
+}
+
+/**
+ * Ledger Gaps Page Props
+ */
+export interface LedgerGapsProps {
+    devices: DeviceLedgerGaps[];
+    deviceOptions: { id: string; name: string }[];
+    windowDays: number;
+    filters: {
+        device_id: string;
+    };
+    backfillResult: {
+        device_id: string;
+        rows: number;
+        backfilled: number;
+        duplicates: number;
+        already_received: number;
+        invalid: number;
+        sequence_ids: number[];
+    } | null;
+}
+
 /**
  * Attendance Record Show Page Props
  * Detailed view of a single attendance record
@@ -720,6 +1247,8 @@ export interface ImportManagementProps {
         pending: number;
         records_imported: number;
     };
+    profiles: ImportMappingProfile[];
+    devices: Array<{ id: string; location: string | null }>;
     filters: ImportFilters;
 }
 
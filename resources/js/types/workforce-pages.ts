@@ -122,6 +122,17 @@ export interface EmployeeRotation {
     updated_at: string;
 }
 
+/**
+ * Shift worked on the days of a multi-shift rotation, referenced by its code
+ */
+export interface RotationShiftDefinition {
+    code: string; // Short label shown in pattern cells, e.g. "D" or "N"
+    name: string;
+    shift_type: ShiftType;
+    shift_start: string; // HH:MM
+    shift_end: string; // HH:MM
+}
+
 /**
  * Rotation Pattern structure (stored as JSON in database)
  */
@@ -131,6 +142,8 @@ export interface RotationPattern {
     pattern: number[]; // Array of 1s (work) and 0s (rest), e.g., [1,1,1,1,0,0]
     cycle_length?: number; // Total pattern length in days
     description?: string;
+    shifts?: RotationShiftDefinition[]; // Multi-shift patterns only
+    day_shifts?: (string | null)[]; // Shift code for each day of pattern, null on rest days
 }
 
 /**
@@ -183,6 +196,274 @@ export interface ShiftAssignment {
     updated_at: string;
 }
 
+export type ScheduleConflictType = 'overlap' | 'unavailable' | 'insufficient_rest' | 'rotation_conflict';
+
+/**
+ * Schedule Conflict
+ * One reason a shift cannot be assigned cleanly, as detected by the server
+ */
+export interface ScheduleConflict {
+    type: ScheduleConflictType;      // overlap / unavailable (approved leave) are critical; the others warnings
+    severity: 'critical' | 'warning';
+    date: string;                    // Date of the shift being checked
+    message: string;
+    details: string;
+    resolution: string;
+    conflicting_shift: {             // Overlap and rest conflicts only
+        id: number | null;           // Null for another shift of the same bulk assignment
+        date: string;
+        shift_start: string;
+        shift_end: string;
+    } | null;
+}
+
+/**
+ * Employee Schedule Conflicts
+ * Bulk assignment conflicts of one employee, per date
+ */
+export interface EmployeeScheduleConflicts {
+    employee_id: number;
+    employee_name: string;
+    conflicting_dates: string[];
+    conflict_count: number;
+    dates: { date: string; conflicts: ScheduleConflict[] }[];
+}
+
+/**
+ * Coverage Target
+ * Required headcount of one shift per weekday, for the schedule generator
+ */
+export interface CoverageTarget {
+    shift_type: ShiftType;
+    schedule_id: number;
+    shift_start: string;
+    shift_end: string;
+    headcount: Record<DayOfWeek, number>;
+}
+
+/**
+ * Coverage Gap
+ * A date and shift left short of its coverage target
+ */
+export interface CoverageGap {
+    date: string;
+    shift_type: ShiftType;
+    shift_start: string;
+    shift_end: string;
+    required: number;
+    assigned: number;               // Draft shifts plus shifts already assigned
+    shortage: number;
+}
+
+export type ScheduleDraftStatus = 'draft' | 'published' | 'discarded';
+
+/**
+ * Schedule Draft Shift
+ * A proposed shift; becomes a ShiftAssignment when the draft is published
+ */
+export interface ScheduleDraftShift {
+    id: number;
+    employee_id: number;
+    employee_name: string;
+    employee_number?: string;
+    schedule_id: number;
+    schedule_name?: string;
+    date: string;
+    shift_type: ShiftType;
+    shift_start: string;
+    shift_end: string;
+    source: 'rotation' | 'generated' | 'manual';
+    has_conflict: boolean;
+    conflict_reason: string | null;
+}
+
+/**
+ * Schedule Draft
+ * A generated department schedule under review
+ */
+export interface ScheduleDraft {
+    id: number;
+    department_id: number;
+    department_name: string | null;
+    date_from: string;
+    date_to: string;
+    status: ScheduleDraftStatus;
+    coverage_targets: CoverageTarget[];
+    gaps: CoverageGap[];
+    shortage: number;
+    created_by: string | null;
+    created_at: string | null;
+    published_by: string | null;
+    published_at: string | null;
+}
+
+/**
+ * Schedule Draft list row
+ */
+export interface ScheduleDraftSummary {
+    id: number;
+    department_name: string | null;
+    date_from: string;
+    date_to: string;
+    status: ScheduleDraftStatus;
+    shift_count: number;
+    shortage: number;
+    created_by: string | null;
+    created_at: string | null;
+}
+
+export type ShiftSwapType = 'giveaway' | 'swap';
+
+export type ShiftSwapStatus =
+    | 'open'
+    | 'pending_coworker'
+    | 'pending_approval'
+    | 'approved'
+    | 'rejected'
+    | 'declined'
+    | 'cancelled';
+
+/**
+ * Shift Swap Eligibility Issue
+ * Found when checking whether an employee can take a shift
+ */
+export interface ShiftSwapIssue {
+    employee_id: number;
+    type: 'department' | 'qualification' | 'overtime_cap' | ScheduleConflictType;
+    message: string;
+    blocking: boolean;
+}
+
+/**
+ * Shift in a swap request
+ */
+export interface ShiftSwapShift {
+    id: number;
+    date: string;
+    shift_start: string;
+    shift_end: string;
+    shift_type: ShiftType | null;
+    schedule_name?: string | null;
+}
+
+/**
+ * Shift Swap Request
+ * A give-away open to coworkers, or a swap proposed to one coworker
+ */
+export interface ShiftSwapRequest {
+    id: number;
+    type: ShiftSwapType;
+    status: ShiftSwapStatus;
+    department_name?: string | null;
+    shift: ShiftSwapShift | null;
+    target_shift: ShiftSwapShift | null;
+    requester_name: string | null;
+    target_employee_name: string | null;
+    eligibility: ShiftSwapIssue[];
+    note: string | null;
+    decision_note: string | null;
+    decided_by?: string | null;
+    decided_at?: string | null;
+    responded_at?: string | null;
+    created_at?: string | null;
+    is_requester?: boolean;
+}
+
+/**
+ * Published shift in a schedule version
+ */
+export interface PublishedShift {
+    employee_id: number;
+    employee_name: string | null;
+    date: string;
+    shift_start: string;
+    shift_end: string;
+    shift_type: ShiftType | null;
+}
+
+export type PublishedHours = Record<DayOfWeek, { start: string; end: string } | null>;
+
+/**
+ * Schedule Version Diff
+ * Changes against the previous version of the same schedule and week
+ */
+export interface ScheduleVersionDiff {
+    hours: { day: DayOfWeek; from: { start: string; end: string } | null; to: { start: string; end: string } | null }[];
+    gained: PublishedShift[];
+    lost: PublishedShift[];
+    changed: { employee_id: number; employee_name: string | null; date: string; from: PublishedShift; to: PublishedShift }[];
+    employee_ids: number[];
+}
+
+/**
+ * Schedule Version
+ * An immutable published version of the schedule hours (week_start null) or of one week of shifts
+ */
+export interface ScheduleVersion {
+    id: number;
+    week_start: string | null;
+    version: number;
+    note: string | null;
+    notified_count: number;
+    published_by: string | null;
+    published_at: string;
+    summary: { hours: number; gained: number; lost: number; changed: number; employees: number };
+}
+
+export interface ScheduleVersionDetail extends ScheduleVersion {
+    diff: ScheduleVersionDiff;
+    snapshot: { name: string; hours?: PublishedHours; shifts?: PublishedShift[] };
+}
+
+export type LaborComplianceType =
+    | 'consecutive_workdays'
+    | 'insufficient_rest'
+    | 'daily_hours'
+    | 'weekly_hours'
+    | 'minor_hours'
+    | 'minor_night_work';
+
+/**
+ * Labor Compliance Violation
+ * A DOLE labor-standards violation found in the scheduled shifts or the actual attendance
+ */
+export interface LaborComplianceViolation {
+    id: string;
+    type: LaborComplianceType;
+    label: string;
+    severity: 'critical' | 'warning';
+    source: 'schedule' | 'attendance';
+    employee_id: number;
+    employee_name: string;
+    employee_number: string | null;
+    date: string;
+    message: string;
+    details: string;
+    requirement: string;
+    value: number | null;
+    limit: number | null;
+}
+
+/**
+ * Labor Compliance Report
+ * Schedule and attendance violations of a date range with the limits they were checked against
+ */
+export interface LaborComplianceReport {
+    total_violations: number;
+    by_rule: Record<LaborComplianceType, number>;
+    by_source: { schedule: number; attendance: number };
+    by_severity: { critical: number; warning: number };
+    employees_affected: number;
+    limits: {
+        max_consecutive_workdays: number;
+        min_rest_hours: number;
+        max_daily_hours: number;
+        max_weekly_hours: number;
+    };
+    rules: { type: LaborComplianceType; label: string; requirement: string }[];
+    violations: LaborComplianceViolation[];
+}
+
 /**
  * Rotation Assignment entity
  * Links employees to rotation patterns
@@ -441,6 +722,7 @@ export interface AssignmentsIndexProps {
     schedules: WorkSchedule[];
     filters: AssignmentFilters;
     coverage_report?: CoverageReport[];
+    compliance_warnings?: Record<string, LaborComplianceViolation[]>;
     view_mode?: 'calendar' | 'list' | 'analytics';
 }
 
@@ -472,6 +754,26 @@ export interface BulkAssignmentProps {
     date_range?: { start: string; end: string };
 }
 
+/**
+ * Schedule Generator page props
+ */
+export interface ScheduleGeneratorProps {
+    departments: Department[];
+    schedules: { id: number; name: string; department_id: number | null; shift_start: string | null; shift_end: string | null }[];
+    drafts: ScheduleDraftSummary[];
+    maxRangeDays: number;
+}
+
+/**
+ * Schedule Draft review page props
+ */
+export interface ScheduleDraftProps {
+    draft: ScheduleDraft;
+    shifts: ScheduleDraftShift[];
+    employees: EmployeeReference[];
+    compliance_warnings: Record<string, LaborComplianceViolation[]>;
+}
+
 /**
  * Coverage Analytics page props
  */
@@ -482,6 +784,30 @@ export interface CoverageAnalyticsProps {
     summary: AssignmentSummary;
 }
 
+/**
+ * Schedule Versions page props
+ */
+export interface ScheduleVersionsProps {
+    schedule: { id: number; name: string; status: ScheduleStatus; is_template: boolean };
+    versions: ScheduleVersion[];
+    selected: ScheduleVersionDetail | null;
+    preview: {
+        week_start: string | null;
+        latest_version: number | null;
+        has_changes: boolean;
+        diff: ScheduleVersionDiff;
+    };
+}
+
+/**
+ * Shift Swap approval page props
+ */
+export interface ShiftSwapApprovalProps {
+    pending: ShiftSwapRequest[];
+    recent: ShiftSwapRequest[];
+    maxWeeklyHours: number;
+}
+
 // ============================================================================
 // FORM DATA INTERFACES
 // ============================================================================
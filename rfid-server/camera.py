@@ -0,0 +1,80 @@
+"""
+camera.py — Optional punch photo capture
+
+When CAMERA_INDEX is set and OpenCV is installed, a frame is grabbed from the
+gate camera on every tap and saved as punch_photos/<local_id>.jpg. Capture runs
+in a background thread so it never delays the tap itself.
+
+sync.py uploads each photo to POST /api/rfid/punch-photos once its tap has
+synced, and deletes the file when the server has it (or has discarded it).
+HR reviews a sample of the photos against profile photos to catch proxy punches.
+
+Install OpenCV on camera-equipped gates only:
+    pip install opencv-python-headless
+"""
+
+import threading
+from pathlib import Path
+
+from config import CAMERA_INDEX
+
+try:
+    import cv2
+except ImportError:  # OpenCV not installed — capture disabled
+    cv2 = None
+
+PHOTO_DIR = Path(__file__).parent / 'punch_photos'
+
+# Longest side of the saved photo; keeps uploads well under the 2 MB server limit
+MAX_SIDE = 640
+
+_lock = threading.Lock()
+_capture = None
+
+
+def is_enabled() -> bool:
+    return CAMERA_INDEX != '' and cv2 is not None
+
+
+def capture(local_id: int) -> None:
+    """Non-blocking. Grab a frame for the tap in a background thread."""
+    if not is_enabled():
+        return
+    threading.Thread(target=_save_frame, args=(local_id,), daemon=True).start()
+
+
+def pending() -> list[tuple[int, Path]]:
+    """Photos waiting for upload as (local_id, path), oldest tap first."""
+    if not PHOTO_DIR.exists():
+        return []
+    photos = [(int(path.stem), path) for path in PHOTO_DIR.glob('*.jpg') if path.stem.isdigit()]
+    return sorted(photos)
+
+
+def _save_frame(local_id: int) -> None:
+    global _capture
+    with _lock:
+        try:
+            # Keep the device open between taps; opening it takes about a second
+            if _capture is None or not _capture.isOpened():
+                _capture = cv2.VideoCapture(int(CAMERA_INDEX))
+            ok, frame = _capture.read()
+            if not ok:
+                # Camera unplugged or busy — reopen on the next tap
+                _capture.release()
+                _capture = None
+                print(f"[CAMERA] No frame for local_id={local_id}")
+                return
+
+            height, width = frame.shape[:2]
+            scale = MAX_SIDE / max(height, width)
+            if scale < 1:
+                frame = cv2.resize(frame, (int(width * scale), int(height * scale)))
+
+            # Write then rename so sync.py never uploads a half-written file
+            PHOTO_DIR.mkdir(exist_ok=True)
+            partial = PHOTO_DIR / f"{local_id}.part.jpg"
+            cv2.imwrite(str(partial), frame, [cv2.IMWRITE_JPEG_QUALITY, 80])
+            partial.replace(PHOTO_DIR / f"{local_id}.jpg")
+        except Exception as e:
+            print(f"[CAMERA] Capture failed for local_id={local_id}: {e}")
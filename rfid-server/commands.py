@@ -0,0 +1,118 @@
+"""
+commands.py — Remote commands from the HR device dashboard
+
+Laravel queues commands per device and hands them over in the heartbeat
+response (see heartbeat.py). Each one is carried out here and reported back
+with POST /rfid/commands/{id}/ack. A command that is never acknowledged is
+marked timed out on the server after 10 minutes; it is not redelivered.
+
+  force_sync        wake the sync thread to drain the local buffer now
+  restart_service   acknowledge, then exit — NSSM restarts the service
+  clear_photo_cache drop cached employee photos
+  push_config       heartbeat_interval and/or display_text, applied at runtime
+  rotate_key        switch to a new API key once the server has accepted the
+                    acknowledgement (sent with the old key), and save it to .env;
+                    the server keeps the old key valid until the new one is used
+"""
+
+import os
+import threading
+
+import requests
+
+import config
+import photo_cache
+from config import API_URL
+from sync import wake as sync_wake
+
+# Wired by main.py
+_display   = None
+_heartbeat = None
+
+# Seconds between acknowledging restart_service and exiting
+RESTART_DELAY = 2
+
+
+def set_display(display) -> None:
+    global _display
+    _display = display
+
+
+def set_heartbeat(heartbeat) -> None:
+    global _heartbeat
+    _heartbeat = heartbeat
+
+
+def _acknowledge(command_id: int, succeeded: bool, message: str) -> bool:
+    """POST the outcome. Returns True only when the server accepted it (HTTP 200)."""
+    try:
+        resp = requests.post(
+            f"{API_URL}/rfid/commands/{command_id}/ack",
+            json={'status': 'succeeded' if succeeded else 'failed', 'message': message[:500]},
+            headers={'Authorization': f'Bearer {config.API_KEY}'},
+            timeout=8,
+        )
+        if resp.status_code != 200:
+            print(f"[COMMAND] Ack for #{command_id} rejected: HTTP {resp.status_code}")
+        return resp.status_code == 200
+    except Exception as e:
+        print(f"[COMMAND] Warning: ack for #{command_id} failed: {e}")
+        return False
+
+
+def _push_config(payload: dict) -> str:
+    applied = []
+    interval = payload.get('heartbeat_interval')
+    if interval:
+        if _heartbeat is None:
+            raise RuntimeError('heartbeat thread not wired')
+        _heartbeat.interval = int(interval)
+        applied.append(f"heartbeat every {int(interval)}s")
+    text = payload.get('display_text')
+    if text:
+        if _display is None:
+            raise RuntimeError('display not ready')
+        _display.set_idle_text(text)
+        applied.append(f"display text '{text}'")
+    return 'Applied ' + ', '.join(applied) if applied else 'Nothing to apply'
+
+
+def handle(command: dict) -> None:
+    """Carry out one command from the heartbeat response and acknowledge it."""
+    command_id = command.get('id')
+    name       = command.get('command')
+    payload    = command.get('payload') or {}
+    print(f"[COMMAND] #{command_id} {name}")
+
+    try:
+        if name == 'force_sync':
+            sync_wake()
+            _acknowledge(command_id, True, 'Sync thread woken')
+
+        elif name == 'clear_photo_cache':
+            count = photo_cache.clear_cache()
+            _acknowledge(command_id, True, f"Cleared {count} cached photo(s)")
+
+        elif name == 'push_config':
+            _acknowledge(command_id, True, _push_config(payload))
+
+        elif name == 'restart_service':
+            if _acknowledge(command_id, True, 'Restarting reader service'):
+                # Taps still in buffer.db are synced after the restart.
+                # os._exit skips the 'offline' heartbeat so the dashboard does not flap.
+                threading.Timer(RESTART_DELAY, lambda: os._exit(1)).start()
+
+        elif name == 'rotate_key':
+            new_key = payload.get('api_key')
+            if not new_key:
+                _acknowledge(command_id, False, 'No API key in command')
+            elif _acknowledge(command_id, True, 'New API key stored'):
+                # Without a 200 the server may not have switched; the old key stays valid either way
+                config.set_api_key(new_key)
+                print('[COMMAND] API key rotated')
+
+        else:
+            _acknowledge(command_id, False, f"Unsupported command: {name}")
+
+    except Exception as e:
+        _acknowledge(command_id, False, str(e))
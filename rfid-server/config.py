@@ -1,7 +1,8 @@
 import os
-from dotenv import load_dotenv
+from dotenv import find_dotenv, load_dotenv, set_key
 
-load_dotenv()
+ENV_PATH = find_dotenv(usecwd=True) or os.path.join(os.getcwd(), '.env')
+load_dotenv(ENV_PATH)
 
 API_URL   = os.getenv('API_URL', '').rstrip('/')
 API_KEY   = os.getenv('API_KEY', '')
@@ -13,3 +14,19 @@ DISPLAY_CLEAR_AFTER = int(os.getenv('DISPLAY_CLEAR_AFTER', 4))
 
 SYNC_INTERVAL = int(os.getenv('SYNC_INTERVAL', 2))
 LOCAL_DB_PATH = os.getenv('LOCAL_DB_PATH', 'buffer.db')
+
+# Optional base64 Ed25519 seed; when set, taps are signed (see signing.py)
+DEVICE_SIGNING_KEY = os.getenv('DEVICE_SIGNING_KEY', '')
+
+# Optional OpenCV camera index (e.g. 0); when set, a photo is taken with each tap (see camera.py)
+CAMERA_INDEX = os.getenv('CAMERA_INDEX', '').strip()
+
+
+def set_api_key(api_key: str) -> None:
+    """
+    Switch to a rotated API key and persist it to .env so it survives a restart.
+    Modules read config.API_KEY at call time, so the next request uses the new key.
+    """
+    global API_KEY
+    set_key(ENV_PATH, 'API_KEY', api_key, quote_mode='never')
+    API_KEY = api_key
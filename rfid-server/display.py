@@ -57,6 +57,7 @@ class TapDisplay:
         self.root.bind('<Escape>', lambda _: self.root.destroy())
 
         self._clear_job: str | None = None   # pending after() cancel token
+        self._idle_text = 'PLEASE TAP YOUR CARD'
         self._build_widgets()
 
     # ── Widget construction ──────────────────────────────────────────────────
@@ -129,6 +130,15 @@ class TapDisplay:
         """Thread-safe: immediately return display to idle state."""
         self.root.after(0, self._render_idle)
 
+    def set_idle_text(self, text: str) -> None:
+        """Thread-safe. Change the idle prompt (push_config from the device dashboard)."""
+        def _apply():
+            # Only touch the label if the idle screen is showing, not a tap result
+            if self._clear_job is None and self.action_lbl.cget('text') == self._idle_text:
+                self.action_lbl.config(text=text)
+            self._idle_text = text
+        self.root.after(0, _apply)
+
     def show_duplicate(self, card_uid: str) -> None:
         """Thread-safe: show duplicate-tap feedback then auto-clear."""
         self.root.after(0, lambda: self._render_duplicate(card_uid))
@@ -247,7 +257,7 @@ class TapDisplay:
         self._set_bg(BG_IDLE)
         self._reset_label_layout()
         self._set_photo(None, BG_IDLE)
-        self.action_lbl.config(text='PLEASE TAP YOUR CARD', fg=FG_IDLE, bg=BG_IDLE, font=('Segoe UI', 52, 'bold'))
+        self.action_lbl.config(text=self._idle_text, fg=FG_IDLE, bg=BG_IDLE, font=('Segoe UI', 52, 'bold'))
         self.name_lbl.config( text='',  fg=FG_WHITE, bg=BG_IDLE)
         self.id_lbl.config(   text='',  fg=FG_IDLE,  bg=BG_IDLE)
         self.time_lbl.config( text='',  fg=FG_IDLE,  bg=BG_IDLE)
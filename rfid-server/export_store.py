@@ -0,0 +1,45 @@
+"""
+export_store.py — Export the local tap buffer for ledger gap recovery
+
+    python export_store.py [output.json]
+
+Writes every row still in buffer.db, synced or not, as JSON. Upload the file
+in HR → Timekeeping → Ledger → Gaps → Upload Local Store; taps the ledger is
+missing are appended, the rest are rejected as duplicates. A copy of
+buffer.db can be uploaded as well, but copying it while the service writes
+to it may catch it half-written; this reads it under the store's lock.
+"""
+
+import json
+import sys
+from datetime import datetime
+
+from config import DEVICE_ID
+from local_store import export_rows, init_local_db
+
+
+def main() -> None:
+    init_local_db()
+    rows = export_rows()
+    for row in rows:
+        # response is stored as a JSON string; keep it structured in the export
+        if row.get('response'):
+            try:
+                row['response'] = json.loads(row['response'])
+            except ValueError:
+                pass
+
+    output = sys.argv[1] if len(sys.argv) > 1 else f"{DEVICE_ID}-buffer-{datetime.now():%Y%m%d-%H%M%S}.json"
+    with open(output, 'w', encoding='utf-8') as f:
+        json.dump({
+            'device_id':   DEVICE_ID,
+            'exported_at': datetime.now().isoformat(timespec='seconds'),
+            'taps':        rows,
+        }, f, indent=2)
+
+    pending = sum(1 for row in rows if not row['synced'])
+    print(f"[EXPORT] {len(rows)} row(s), {pending} unsent, written to {output}")
+
+
+if __name__ == '__main__':
+    main()
@@ -4,28 +4,57 @@ heartbeat.py — Periodic device heartbeat via HTTP
 POSTs to POST /api/rfid/heartbeat every 30 seconds so Laravel can update
 rfid_devices.last_heartbeat and keep the device shown as 'online'.
 No database credentials are used — only the API Bearer token.
+
+Each heartbeat also reports the local buffer's high-water mark and unsent
+count, so the ledger gap report can tell taps still queued here from lost ones.
+It carries this PC's clock (device_time, formatted like tapped_at) too, so the
+dashboard can show how far the clock punch times are taken from has drifted.
+
+The response carries any remote commands queued from the HR device
+dashboard; they are run in order by commands.py.
 """
 
 import threading
+from datetime import datetime
+from zoneinfo import ZoneInfo
+
 import requests
 
-from config import API_URL, API_KEY, DEVICE_ID
+import commands
+import config
+import local_store
+from config import API_URL, DEVICE_ID, TIMEZONE
 
 
-def _post_heartbeat(status: str = 'online') -> None:
+def _post_heartbeat(status: str = 'online') -> list:
     """
     POST a heartbeat to Laravel. Non-fatal — prints a warning on failure.
     Sends status='offline' on clean shutdown so Laravel marks the device offline immediately.
+    Returns the commands handed over in the response (empty on failure).
     """
+    device_time = datetime.now(ZoneInfo(TIMEZONE)).replace(tzinfo=None).isoformat()
     try:
-        requests.post(
+        resp = requests.post(
             f"{API_URL}/rfid/heartbeat",
-            json={'device_id': DEVICE_ID, 'status': status},
-            headers={'Authorization': f'Bearer {API_KEY}'},
+            json={
+                'device_id':   DEVICE_ID,
+                'status':      status,
+                'device_time': device_time,
+                'local_store': local_store.stats(),
+            },
+            headers={'Authorization': f'Bearer {config.API_KEY}'},
             timeout=8,
         )
+        if resp.status_code == 200:
+            return resp.json().get('commands') or []
     except Exception as e:
         print(f"[HEARTBEAT] Warning: {e}")
+    return []
+
+
+def _beat() -> None:
+    for command in _post_heartbeat('online'):
+        commands.handle(command)
 
 
 def set_device_status(status: str) -> None:
@@ -34,6 +63,7 @@ def set_device_status(status: str) -> None:
 
 
 class HeartbeatThread(threading.Thread):
+    # interval may be changed at runtime (push_config); it applies from the next wait
     def __init__(self, interval: int = 30):
         super().__init__(daemon=True)
         self.interval    = interval
@@ -42,9 +72,9 @@ class HeartbeatThread(threading.Thread):
     def run(self) -> None:
         print('[HEARTBEAT] Heartbeat thread started')
         # Send immediately on startup so device shows online without waiting 30s
-        _post_heartbeat('online')
+        _beat()
         while not self._stop_event.wait(self.interval):
-            _post_heartbeat('online')
+            _beat()
 
     def stop(self) -> None:
         self._stop_event.set()
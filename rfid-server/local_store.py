@@ -81,6 +81,26 @@ def mark_synced(local_id: int, response: dict) -> None:
         con.close()
 
 
+def sync_states(local_ids: list[int]) -> dict[int, dict | None]:
+    """
+    Sync state of the given rows: the stored server response for synced rows,
+    None for rows still pending. Rows no longer in the buffer are left out.
+    """
+    if not local_ids:
+        return {}
+    with _lock:
+        con = sqlite3.connect(_db_path)
+        rows = con.execute(
+            f"SELECT id, synced, response FROM tap_queue WHERE id IN ({','.join('?' * len(local_ids))})",
+            local_ids,
+        ).fetchall()
+        con.close()
+    return {
+        row_id: (json.loads(response) if response else {}) if synced else None
+        for row_id, synced, response in rows
+    }
+
+
 def vacuum_old_synced(days: int = 7) -> None:
     """Delete synced rows older than `days` days. Safe to call periodically."""
     with _lock:
@@ -91,3 +111,36 @@ def vacuum_old_synced(days: int = 7) -> None:
         )
         con.commit()
         con.close()
+
+
+def stats() -> dict:
+    """
+    Last row id ever issued, unsynced count and oldest unsynced tap time.
+    Sent with every heartbeat so the server can tell taps still held here
+    from taps that were lost.
+    """
+    with _lock:
+        con = sqlite3.connect(_db_path)
+        # sqlite_sequence keeps the AUTOINCREMENT high-water mark after old rows are vacuumed
+        last = con.execute("SELECT seq FROM sqlite_sequence WHERE name = 'tap_queue'").fetchone()
+        pending, oldest = con.execute(
+            "SELECT COUNT(*), MIN(tapped_at) FROM tap_queue WHERE synced = 0"
+        ).fetchone()
+        con.close()
+    return {
+        'last_local_id':     last[0] if last else 0,
+        'pending':           pending,
+        'oldest_pending_at': oldest,
+    }
+
+
+def export_rows() -> list[dict]:
+    """Every row still in the buffer, synced or not, oldest first (see export_store.py)."""
+    with _lock:
+        con = sqlite3.connect(_db_path)
+        con.row_factory = sqlite3.Row
+        rows = con.execute(
+            "SELECT id, card_uid, tapped_at, synced, synced_at, response FROM tap_queue ORDER BY id"
+        ).fetchall()
+        con.close()
+    return [dict(r) for r in rows]
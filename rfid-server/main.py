@@ -3,11 +3,11 @@ main.py — Cameco RFID Reader entry point
 
 Startup sequence:
   1. Init local SQLite buffer (creates buffer.db if missing)
-  2. POST /api/rfid/heartbeat  status=online
-  3. Start HeartbeatThread    (POST /api/rfid/heartbeat every 30 s)
+  2. POST /api/rfid/heartbeat  status=online (+ /api/rfid/public-key when signing)
+  3. Start HeartbeatThread    (POST /api/rfid/heartbeat every 30 s, runs remote commands)
   4. Start SyncThread         (drain SQLite → POST /api/rfid/tap every 2 s)
   5. Create TapDisplay window
-  6. Wire display into reader and sync threads
+  6. Wire display into reader, sync and remote commands
   7. Start keyboard listener  (background thread)
   8. Hand control to Tkinter mainloop (blocks until window closed)
 
@@ -25,6 +25,8 @@ from heartbeat import HeartbeatThread, set_device_status
 from sync import SyncThread, set_display as sync_set_display
 from reader import start_listener, set_display as reader_set_display
 from display import TapDisplay
+from signing import register_public_key
+from commands import set_display as commands_set_display, set_heartbeat as commands_set_heartbeat
 
 heartbeat = HeartbeatThread(interval=30)
 sync      = SyncThread()
@@ -45,7 +47,9 @@ def main() -> None:
     print(f'[STARTUP] RFID Reader starting — Device: {DEVICE_ID}')
 
     init_local_db()
+    commands_set_heartbeat(heartbeat)
     set_device_status('online')
+    register_public_key()
 
     heartbeat.start()
     sync.start()
@@ -56,6 +60,7 @@ def main() -> None:
     display.set_device_label(DEVICE_ID)
     reader_set_display(display)
     sync_set_display(display)
+    commands_set_display(display)
 
     start_listener()
 
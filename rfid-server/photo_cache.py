@@ -40,6 +40,14 @@ def _make_placeholder() -> Image.Image:
     return img
 
 
+def clear_cache() -> int:
+    """Drop every cached photo so the next tap downloads it again. Returns how many were dropped."""
+    with _lock:
+        count = len(_cache)
+        _cache.clear()
+    return count
+
+
 def get_photo(employee_number: str, url: str | None, callback) -> None:
     """
     Non-blocking.  If the photo is already cached, calls callback(image)
@@ -5,6 +5,7 @@ from pynput import keyboard
 
 from config import DEVICE_ID, TIMEZONE
 from local_store import enqueue_tap
+from camera import capture as capture_photo
 from sync import wake as sync_wake
 
 _buffer: list[str] = []
@@ -51,6 +52,9 @@ def _fire(card_uid: str) -> None:
         local_id = enqueue_tap(card_uid, tapped_at)
         print(f"[QUEUED]  {card_uid}  local_id={local_id}  {tapped_at}")
 
+        # Photo for HR's proxy-punch review; uploaded by sync.py after the tap
+        capture_photo(local_id)
+
         # Wake the sync thread immediately so it POSTs without waiting
         sync_wake()
 
@@ -0,0 +1,61 @@
+"""
+signing.py — Optional Ed25519 signing of taps
+
+When DEVICE_SIGNING_KEY (base64 32-byte seed) is set, every tap posted to
+Laravel carries an Ed25519 signature over the canonical JSON of the fields
+sent: {"card_uid","device_id","local_id","tapped_at"} with sorted keys and no
+spaces (matches PHP ksort + json_encode). Laravel stores the signed fields in
+rfid_ledger.raw_payload so auditors can re-verify them in the browser against
+the public key registered via POST /api/rfid/public-key.
+
+Generate a seed once per device:
+    python -c "import nacl.signing,base64;print(base64.b64encode(bytes(nacl.signing.SigningKey.generate())).decode())"
+"""
+
+import base64
+import json
+
+import requests
+
+import config
+from config import API_URL, DEVICE_ID, DEVICE_SIGNING_KEY
+
+try:
+    from nacl.signing import SigningKey
+except ImportError:  # PyNaCl not installed — signing disabled
+    SigningKey = None
+
+_signing_key = None
+if DEVICE_SIGNING_KEY and SigningKey is not None:
+    _signing_key = SigningKey(base64.b64decode(DEVICE_SIGNING_KEY))
+
+
+def is_enabled() -> bool:
+    return _signing_key is not None
+
+
+def sign_tap(fields: dict) -> str | None:
+    """Return 'ed25519:<base64>' for the tap fields, or None when signing is disabled."""
+    if _signing_key is None:
+        return None
+    message = json.dumps(fields, separators=(',', ':'), sort_keys=True, ensure_ascii=False)
+    signed = _signing_key.sign(message.encode('utf-8'))
+    return 'ed25519:' + base64.b64encode(signed.signature).decode('ascii')
+
+
+def register_public_key() -> None:
+    """Register this device's public key with Laravel. Non-fatal on failure."""
+    if _signing_key is None:
+        return
+    public_key = base64.b64encode(bytes(_signing_key.verify_key)).decode('ascii')
+    try:
+        resp = requests.post(
+            f"{API_URL}/rfid/public-key",
+            json={'device_id': DEVICE_ID, 'public_key': public_key},
+            headers={'Authorization': f'Bearer {config.API_KEY}'},
+            timeout=8,
+        )
+        if resp.status_code == 409:
+            print('[SIGNING] Warning: a different public key is registered for this device')
+    except Exception as e:
+        print(f"[SIGNING] Warning: {e}")
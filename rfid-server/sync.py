@@ -4,13 +4,17 @@ sync.py — Background sync thread
 Drains tap_queue rows to POST /api/rfid/tap on the Laravel server.
 Runs every SYNC_INTERVAL seconds. Fully offline-safe — if the server
 is unreachable, rows stay in SQLite and are retried automatically.
+Punch photos (camera.py) are uploaded once their tap has synced.
 """
 
 import threading
 import requests
 
-from config import API_URL, API_KEY, DEVICE_ID, SYNC_INTERVAL
-from local_store import get_unsynced, mark_synced
+import config
+from config import API_URL, DEVICE_ID, SYNC_INTERVAL
+from camera import pending as pending_photos
+from local_store import get_unsynced, mark_synced, sync_states
+from signing import sign_tap
 
 # Wired by main.py after TapDisplay is created
 _display = None
@@ -37,16 +41,18 @@ def _post_tap(row: dict) -> dict | None:
     Returns None on network/timeout error (will retry).
     Raises ValueError on 4xx (permanent failure — do not retry).
     """
+    fields = {
+        'card_uid':  row['card_uid'],
+        'device_id': DEVICE_ID,
+        'tapped_at': row['tapped_at'],
+        'local_id':  row['id'],
+    }
+    signature = sign_tap(fields)
     try:
         resp = requests.post(
             f"{API_URL}/rfid/tap",
-            json={
-                'card_uid':  row['card_uid'],
-                'device_id': DEVICE_ID,
-                'tapped_at': row['tapped_at'],
-                'local_id':  row['id'],
-            },
-            headers={'Authorization': f'Bearer {API_KEY}'},
+            json={**fields, 'signature': signature} if signature else fields,
+            headers={'Authorization': f'Bearer {config.API_KEY}'},
             timeout=8,
         )
         if resp.status_code == 200:
@@ -60,6 +66,33 @@ def _post_tap(row: dict) -> dict | None:
         return None   # network error — retry next cycle
 
 
+def _post_photo(local_id: int, path) -> bool | None:
+    """
+    POST a punch photo to the Laravel API.
+    Returns True when the server is done with it (stored, already stored or
+    discarded), False when the tap has not reached the server yet, and None on
+    a network or 5xx error (retry later). Other 4xx are treated as done.
+    """
+    try:
+        with open(path, 'rb') as photo:
+            resp = requests.post(
+                f"{API_URL}/rfid/punch-photos",
+                data={'local_id': local_id},
+                files={'photo': (path.name, photo, 'image/jpeg')},
+                headers={'Authorization': f'Bearer {config.API_KEY}'},
+                timeout=15,
+            )
+    except requests.exceptions.RequestException:
+        return None
+    if resp.status_code == 404:
+        return False
+    if resp.status_code >= 500:
+        return None
+    if resp.status_code != 200:
+        print(f"[SYNC] Photo for local_id={local_id} rejected: HTTP {resp.status_code}")
+    return True
+
+
 class SyncThread(threading.Thread):
     def __init__(self) -> None:
         super().__init__(daemon=True)
@@ -114,3 +147,22 @@ class SyncThread(threading.Thread):
                     _display.show_duplicate(row['card_uid'])
                 elif status == 'unknown':
                     _display.show_tap({'status': 'unknown', 'card_uid': row['card_uid']})
+
+        self._upload_photos()
+
+    def _upload_photos(self) -> None:
+        photos = pending_photos()[:20]
+        states = sync_states([local_id for local_id, _ in photos])
+        for local_id, path in photos:
+            if local_id not in states or (states[local_id] or {}).get('permanent'):
+                # Tap vacuumed or rejected by the server — nothing to attach the photo to
+                path.unlink(missing_ok=True)
+                continue
+            if states[local_id] is None:
+                continue   # tap not synced yet
+
+            done = _post_photo(local_id, path)
+            if done is None:
+                break
+            if done:
+                path.unlink(missing_ok=True)
@@ -8,12 +8,16 @@
     Route::get('/timekeeping/cards/{uid}', [CardValidationController::class, 'show']);
 });
 
-// RFID gate PC endpoints — Bearer token auth handled inside the controller.
+// RFID gate PC and kiosk tablet endpoints — Bearer token auth handled inside the controller.
 // throttle:120,1 = 120 requests/minute per IP; blocks brute-force token scanning
 // while staying far above any legitimate gate volume.
 Route::prefix('rfid')->middleware('throttle:120,1')->group(function () {
     Route::post('tap',       [RfidTapController::class, 'tap']);
     Route::post('heartbeat', [RfidTapController::class, 'heartbeat']);
+    Route::post('public-key', [RfidTapController::class, 'registerPublicKey']);
+    Route::post('punch-photos', [RfidTapController::class, 'uploadPunchPhoto']);
+    Route::get('kiosk/roster', [RfidTapController::class, 'kioskRoster']);
+    Route::post('commands/{commandId}/ack', [RfidTapController::class, 'acknowledgeCommand'])->whereNumber('commandId');
 });
 
 // Mock SigNoz API for local development (no Docker required)
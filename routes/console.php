@@ -72,6 +72,35 @@ function recordScheduledCommandResult(string $command, int $exitCode, string $ou
         ->onFailure(function (Stringable $output) {
             recordScheduledCommandResult('timekeeping:check-device-health', 1, (string) $output);
         });
+
+    /**
+     * Ledger health alert rules (every minute)
+     */
+    Schedule::command('timekeeping:evaluate-ledger-alerts')
+        ->everyMinute()
+        ->name('evaluate-ledger-alerts')
+        ->withoutOverlapping()
+        ->onSuccess(function (Stringable $output) {
+            recordScheduledCommandResult('timekeeping:evaluate-ledger-alerts', 0, (string) $output);
+        })
+        ->onFailure(function (Stringable $output) {
+            recordScheduledCommandResult('timekeeping:evaluate-ledger-alerts', 1, (string) $output);
+        });
+
+    /**
+     * Flag time-ins without a time-out for the two previous days (daily at 6:00 AM)
+     */
+    Schedule::command('timekeeping:detect-missing-exits')
+        ->dailyAt('06:00')
+        ->name('detect-missing-exits')
+        ->timezone('Asia/Manila')
+        ->withoutOverlapping()
+        ->onSuccess(function (Stringable $output) {
+            recordScheduledCommandResult('timekeeping:detect-missing-exits', 0, (string) $output);
+        })
+        ->onFailure(function (Stringable $output) {
+            recordScheduledCommandResult('timekeeping:detect-missing-exits', 1, (string) $output);
+        });
 }
 
 if (config('modules.leave')) {
@@ -48,6 +48,44 @@
             Route::post('/report-issue', [\App\Http\Controllers\Employee\AttendanceController::class, 'reportIssue'])
                 ->middleware('permission:employee.attendance.report')
                 ->name('report-issue');
+
+            // Clock in/out from the portal with browser location (outside every geofence - requires HR approval)
+            Route::post('/clock-in', [\App\Http\Controllers\Employee\AttendanceController::class, 'clockIn'])
+                ->middleware('permission:employee.attendance.clock-in')
+                ->name('clock-in');
+        });
+
+        // ============================================================
+        // SHIFTS & SWAPS (Self-Service)
+        // ============================================================
+        Route::prefix('shifts')->name('shifts.')->middleware('module:workforce')->group(function () {
+            // View own upcoming shifts, open shifts to pick up, and swap requests
+            Route::get('/', [\App\Http\Controllers\Employee\ShiftSwapController::class, 'index'])
+                ->middleware('permission:employee.shifts.view')
+                ->name('index');
+
+            // Give a shift away or propose a swap with a coworker (requires department head approval)
+            Route::post('/swaps', [\App\Http\Controllers\Employee\ShiftSwapController::class, 'store'])
+                ->middleware('permission:employee.shifts.swap')
+                ->name('swaps.store');
+
+            // Pick up an open shift given away by a coworker
+            Route::post('/swaps/{id}/pick-up', [\App\Http\Controllers\Employee\ShiftSwapController::class, 'pickUp'])
+                ->middleware('permission:employee.shifts.swap')
+                ->name('swaps.pick-up');
+
+            // Accept or decline a swap proposed by a coworker
+            Route::post('/swaps/{id}/accept', [\App\Http\Controllers\Employee\ShiftSwapController::class, 'accept'])
+                ->middleware('permission:employee.shifts.swap')
+                ->name('swaps.accept');
+            Route::post('/swaps/{id}/decline', [\App\Http\Controllers\Employee\ShiftSwapController::class, 'decline'])
+                ->middleware('permission:employee.shifts.swap')
+                ->name('swaps.decline');
+
+            // Withdraw own request before it is decided
+            Route::post('/swaps/{id}/cancel', [\App\Http\Controllers\Employee\ShiftSwapController::class, 'cancel'])
+                ->middleware('permission:employee.shifts.swap')
+                ->name('swaps.cancel');
         });
 
         // ============================================================
@@ -19,18 +19,32 @@
 use App\Http\Controllers\HR\Workforce\ScheduleController;
 use App\Http\Controllers\HR\Workforce\RotationController;
 use App\Http\Controllers\HR\Workforce\AssignmentController;
+use App\Http\Controllers\HR\Workforce\ScheduleDraftController;
+use App\Http\Controllers\HR\Workforce\ScheduleVersionController;
+use App\Http\Controllers\HR\Workforce\ShiftSwapApprovalController;
 use App\Http\Controllers\HR\Timekeeping\AttendanceController;
+use App\Http\Controllers\HR\Timekeeping\AttendanceAnomalyController;
+use App\Http\Controllers\HR\Timekeeping\MobileClockInController;
+use App\Http\Controllers\HR\Timekeeping\PunchPhotoReviewController;
 use App\Http\Controllers\HR\Timekeeping\OvertimeController;
 use App\Http\Controllers\HR\Timekeeping\ImportController;
 use App\Http\Controllers\HR\Timekeeping\LedgerController;
 use App\Http\Controllers\HR\Timekeeping\LedgerHealthController;
 use App\Http\Controllers\HR\Timekeeping\LedgerSyncController;
 use App\Http\Controllers\HR\Timekeeping\LedgerDeviceController;
+use App\Http\Controllers\HR\Timekeeping\LedgerExportController;
+use App\Http\Controllers\HR\Timekeeping\LedgerVerificationController;
 use App\Http\Controllers\HR\Timekeeping\DeviceController;
+use App\Http\Controllers\HR\Timekeeping\DeviceClockController;
+use App\Http\Controllers\HR\Timekeeping\DeviceCommandController;
+use App\Http\Controllers\HR\Timekeeping\LedgerAlertController;
+use App\Http\Controllers\HR\Timekeeping\LedgerGapController;
+use App\Http\Controllers\HR\Timekeeping\FloorPlanController;
 use App\Http\Controllers\HR\Timekeeping\EmployeeTimelineController;
 use App\Http\Controllers\HR\Timekeeping\AnalyticsController as TimekeepingAnalyticsController;
 use App\Http\Controllers\HR\Timekeeping\AttendanceCorrectionController;
 use App\Http\Controllers\HR\Timekeeping\AttendanceFinalizeController;
+use App\Http\Controllers\HR\Timekeeping\AttendanceReconstructionController;
 use App\Http\Controllers\HR\Appraisal\AppraisalCycleController;
 use App\Http\Controllers\HR\Appraisal\AppraisalController;
 use App\Http\Controllers\HR\Appraisal\PerformanceMetricsController;
@@ -533,6 +547,12 @@
             Route::post('/schedules/{id}/duplicate', [ScheduleController::class, 'duplicate'])
                 ->middleware('permission:hr.workforce.schedules.create')
                 ->name('schedules.duplicate');
+            Route::get('/schedules/{id}/versions', [ScheduleVersionController::class, 'index'])
+                ->middleware('permission:hr.workforce.schedules.view')
+                ->name('schedules.versions');
+            Route::post('/schedules/{id}/publish', [ScheduleVersionController::class, 'publish'])
+                ->middleware('permission:hr.workforce.schedules.publish')
+                ->name('schedules.publish');
             Route::post('/schedules/clone-template', [ScheduleController::class, 'cloneTemplate'])
                 ->middleware('permission:hr.workforce.schedules.create')
                 ->name('schedules.clone-template');
@@ -628,9 +648,37 @@
             Route::post('/assignments/check-bulk-conflicts', [AssignmentController::class, 'checkBulkConflicts'])
                 ->middleware(['permission:hr.workforce.assignments.view', 'throttle:60,1'])
                 ->name('assignments.check-bulk-conflicts');
+            Route::post('/assignments/check-conflicts', [AssignmentController::class, 'checkConflicts'])
+                ->middleware(['permission:hr.workforce.assignments.view', 'throttle:120,1'])
+                ->name('assignments.check-conflicts');
             Route::get('/assignments/coverage', [AssignmentController::class, 'coverage'])
                 ->middleware('permission:hr.workforce.assignments.view')
                 ->name('assignments.coverage');
+            // Schedule generator drafts
+            Route::get('/assignments/drafts', [ScheduleDraftController::class, 'index'])
+                ->middleware('permission:hr.workforce.assignments.create')
+                ->name('assignments.drafts.index');
+            Route::post('/assignments/drafts', [ScheduleDraftController::class, 'store'])
+                ->middleware('permission:hr.workforce.assignments.create')
+                ->name('assignments.drafts.store');
+            Route::get('/assignments/drafts/{draftId}', [ScheduleDraftController::class, 'show'])
+                ->middleware('permission:hr.workforce.assignments.create')
+                ->name('assignments.drafts.show');
+            Route::post('/assignments/drafts/{draftId}/shifts', [ScheduleDraftController::class, 'storeShift'])
+                ->middleware('permission:hr.workforce.assignments.create')
+                ->name('assignments.drafts.shifts.store');
+            Route::put('/assignments/drafts/{draftId}/shifts/{shiftId}', [ScheduleDraftController::class, 'updateShift'])
+                ->middleware('permission:hr.workforce.assignments.create')
+                ->name('assignments.drafts.shifts.update');
+            Route::delete('/assignments/drafts/{draftId}/shifts/{shiftId}', [ScheduleDraftController::class, 'destroyShift'])
+                ->middleware('permission:hr.workforce.assignments.create')
+                ->name('assignments.drafts.shifts.destroy');
+            Route::post('/assignments/drafts/{draftId}/publish', [ScheduleDraftController::class, 'publish'])
+                ->middleware('permission:hr.workforce.assignments.create')
+                ->name('assignments.drafts.publish');
+            Route::delete('/assignments/drafts/{draftId}', [ScheduleDraftController::class, 'destroy'])
+                ->middleware('permission:hr.workforce.assignments.create')
+                ->name('assignments.drafts.destroy');
             Route::get('/assignments/{id}', [AssignmentController::class, 'show'])
                 ->middleware('permission:hr.workforce.assignments.view')
                 ->name('assignments.show');
@@ -668,6 +716,16 @@
             Route::get('/assignments/api/coverage-analysis', [AssignmentController::class, 'getCoverageAnalysis'])
                 ->middleware('permission:hr.workforce.assignments.view')
                 ->name('assignments.coverage-analysis');
+            // Shift swaps awaiting the department head's approval
+            Route::get('/shift-swaps', [ShiftSwapApprovalController::class, 'index'])
+                ->middleware('permission:hr.workforce.shift-swaps.approve')
+                ->name('shift-swaps.index');
+            Route::post('/shift-swaps/{id}/approve', [ShiftSwapApprovalController::class, 'approve'])
+                ->middleware('permission:hr.workforce.shift-swaps.approve')
+                ->name('shift-swaps.approve');
+            Route::post('/shift-swaps/{id}/reject', [ShiftSwapApprovalController::class, 'reject'])
+                ->middleware('permission:hr.workforce.shift-swaps.approve')
+                ->name('shift-swaps.reject');
         });
 
         // Offboarding Module
@@ -863,16 +921,112 @@
             Route::get('/ledger/{sequenceId}', [LedgerController::class, 'show'])
                 ->middleware('permission:hr.timekeeping.attendance.view')
                 ->name('ledger.show');
+            Route::get('/ledger-gaps', [LedgerGapController::class, 'index'])
+                ->middleware('permission:hr.timekeeping.attendance.view')
+                ->name('ledger-gaps.index');
+            Route::post('/ledger-gaps/backfill', [LedgerGapController::class, 'backfill'])
+                ->middleware('permission:hr.timekeeping.manage')
+                ->name('ledger-gaps.backfill');
+            Route::get('/ledger-alerts', [LedgerAlertController::class, 'index'])
+                ->middleware('permission:hr.timekeeping.attendance.view')
+                ->name('ledger-alerts.index');
+            Route::post('/ledger-alerts/rules', [LedgerAlertController::class, 'storeRule'])
+                ->middleware('permission:hr.timekeeping.manage')
+                ->name('ledger-alerts.rules.store');
+            Route::put('/ledger-alerts/rules/{ruleId}', [LedgerAlertController::class, 'updateRule'])
+                ->middleware('permission:hr.timekeeping.manage')
+                ->name('ledger-alerts.rules.update');
+            Route::delete('/ledger-alerts/rules/{ruleId}', [LedgerAlertController::class, 'destroyRule'])
+                ->middleware('permission:hr.timekeeping.manage')
+                ->name('ledger-alerts.rules.destroy');
+            Route::patch('/ledger-alerts/{alertId}/acknowledge', [LedgerAlertController::class, 'acknowledge'])
+                ->middleware('permission:hr.timekeeping.attendance.update')
+                ->name('ledger-alerts.acknowledge');
+            Route::patch('/ledger-alerts/{alertId}/snooze', [LedgerAlertController::class, 'snooze'])
+                ->middleware('permission:hr.timekeeping.attendance.update')
+                ->name('ledger-alerts.snooze');
 
             // Device Status Dashboard
             Route::get('/devices', [DeviceController::class, 'index'])
                 ->middleware('permission:hr.timekeeping.attendance.view')
                 ->name('devices');
+            Route::get('/floor-plans/{floorPlan}/image', [FloorPlanController::class, 'image'])
+                ->middleware('permission:hr.timekeeping.attendance.view')
+                ->name('floor-plans.image');
+            Route::post('/floor-plans', [FloorPlanController::class, 'store'])
+                ->middleware('permission:hr.timekeeping.manage')
+                ->name('floor-plans.store');
+            Route::delete('/floor-plans/{floorPlan}', [FloorPlanController::class, 'destroy'])
+                ->middleware('permission:hr.timekeeping.manage')
+                ->name('floor-plans.destroy');
+            Route::patch('/devices/{deviceId}/position', [FloorPlanController::class, 'updateDevicePosition'])
+                ->middleware('permission:hr.timekeeping.manage')
+                ->name('devices.position');
+            Route::post('/devices/{deviceId}/commands', [DeviceCommandController::class, 'store'])
+                ->middleware('permission:hr.timekeeping.manage')
+                ->name('devices.commands.store');
+            Route::post('/devices/commands/{commandId}/cancel', [DeviceCommandController::class, 'cancel'])
+                ->middleware('permission:hr.timekeeping.manage')
+                ->name('devices.commands.cancel');
+            Route::post('/devices/{deviceId}/clock-corrections', [DeviceClockController::class, 'store'])
+                ->middleware('permission:hr.timekeeping.manage')
+                ->name('devices.clock-corrections.store');
+
+            // Attendance Anomaly Review Queue
+            Route::get('/anomalies', [AttendanceAnomalyController::class, 'index'])
+                ->middleware('permission:hr.timekeeping.attendance.view')
+                ->name('anomalies.index');
+            Route::patch('/anomalies/{anomalyId}/review', [AttendanceAnomalyController::class, 'review'])
+                ->middleware('permission:hr.timekeeping.corrections.approve')
+                ->name('anomalies.review');
+            Route::post('/anomalies/rules', [AttendanceAnomalyController::class, 'storeRule'])
+                ->middleware('permission:hr.timekeeping.manage')
+                ->name('anomalies.rules.store');
+            Route::delete('/anomalies/rules/{ruleId}', [AttendanceAnomalyController::class, 'destroyRule'])
+                ->middleware('permission:hr.timekeeping.manage')
+                ->name('anomalies.rules.destroy');
+
+            // Portal (Mobile) Clock-In Review and Geofences
+            Route::get('/mobile-clock-in', [MobileClockInController::class, 'index'])
+                ->middleware('permission:hr.timekeeping.attendance.view')
+                ->name('mobile-clock-in.index');
+            Route::patch('/mobile-clock-in/punches/{punchId}/review', [MobileClockInController::class, 'review'])
+                ->middleware('permission:hr.timekeeping.corrections.approve')
+                ->name('mobile-clock-in.review');
+            Route::get('/mobile-clock-in/punches/{punchId}/selfie', [MobileClockInController::class, 'selfie'])
+                ->middleware('permission:hr.timekeeping.attendance.view')
+                ->name('mobile-clock-in.selfie');
+            Route::post('/mobile-clock-in/geofences', [MobileClockInController::class, 'storeGeofence'])
+                ->middleware('permission:hr.timekeeping.manage')
+                ->name('mobile-clock-in.geofences.store');
+            Route::put('/mobile-clock-in/geofences/{geofenceId}', [MobileClockInController::class, 'updateGeofence'])
+                ->middleware('permission:hr.timekeeping.manage')
+                ->name('mobile-clock-in.geofences.update');
+            Route::delete('/mobile-clock-in/geofences/{geofenceId}', [MobileClockInController::class, 'destroyGeofence'])
+                ->middleware('permission:hr.timekeeping.manage')
+                ->name('mobile-clock-in.geofences.destroy');
+
+            // Punch Photo Verification Review
+            Route::get('/punch-photos', [PunchPhotoReviewController::class, 'index'])
+                ->middleware('permission:hr.timekeeping.attendance.view')
+                ->name('punch-photos.index');
+            Route::patch('/punch-photos/{photoId}/review', [PunchPhotoReviewController::class, 'review'])
+                ->middleware('permission:hr.timekeeping.corrections.approve')
+                ->name('punch-photos.review');
+            Route::get('/punch-photos/{photoId}/photo', [PunchPhotoReviewController::class, 'photo'])
+                ->middleware('permission:hr.timekeeping.attendance.view')
+                ->name('punch-photos.photo');
+            Route::put('/punch-photos/rules', [PunchPhotoReviewController::class, 'updateRules'])
+                ->middleware('permission:hr.timekeeping.manage')
+                ->name('punch-photos.rules');
 
             // Employee Timeline
             Route::get('/employee/{employeeId}/timeline', [EmployeeTimelineController::class, 'show'])
                 ->middleware('permission:hr.timekeeping.attendance.view')
                 ->name('employee.timeline');
+            Route::get('/api/employee/{employeeId}/timeline', [EmployeeTimelineController::class, 'timeline'])
+                ->middleware('permission:hr.timekeeping.attendance.view')
+                ->name('api.employee.timeline');
 
             // Performance Test Page (Task 7.2.4)
             Route::get('/performance-test', function () {
@@ -917,6 +1071,21 @@
                     ->middleware('permission:hr.timekeeping.attendance.view')
                     ->name('event');
 
+                // Live ledger event stream (server-sent events, resumes by sequence_id)
+                Route::get('/stream', [LedgerController::class, 'stream'])
+                    ->middleware('permission:hr.timekeeping.attendance.view')
+                    ->name('stream');
+
+                // Raw ledger range + chain anchors + device public keys for in-browser verification
+                Route::get('/verification', [LedgerVerificationController::class, 'index'])
+                    ->middleware('permission:hr.timekeeping.attendance.view')
+                    ->name('verification');
+
+                // Tamper-evident export bundle (events CSV/JSON, chain anchors, SHA-256 manifest)
+                Route::get('/export', [LedgerExportController::class, 'download'])
+                    ->middleware('permission:hr.timekeeping.attendance.view')
+                    ->name('export');
+
                 // Manual ledger sync
                 Route::post('/sync', [LedgerSyncController::class, 'trigger'])
                     ->middleware('permission:hr.timekeeping.attendance.update')
@@ -963,6 +1132,11 @@
                     ->name('reject');
             });
 
+            // Point-in-time reconstruction of daily attendance summaries
+            Route::get('/api/attendance/reconstruction', [AttendanceReconstructionController::class, 'index'])
+                ->middleware('permission:hr.timekeeping.attendance.view')
+                ->name('api.attendance.reconstruction');
+
             // Attendance Finalization API Routes (JSON Responses)
             // Lock/unlock attendance for a period
             // ====================================================
@@ -1023,6 +1197,18 @@
             Route::get('/import/{id}/errors', [ImportController::class, 'errors'])
                 ->middleware('permission:hr.timekeeping.import.view')
                 ->name('import.errors');
+            Route::get('/import/{id}/detect', [ImportController::class, 'detect'])
+                ->middleware('permission:hr.timekeeping.import.create')
+                ->name('import.detect');
+            Route::post('/import/{id}/preview', [ImportController::class, 'preview'])
+                ->middleware('permission:hr.timekeeping.import.create')
+                ->name('import.preview');
+            Route::post('/import/profiles', [ImportController::class, 'storeProfile'])
+                ->middleware('permission:hr.timekeeping.import.create')
+                ->name('import.profiles.store');
+            Route::delete('/import/profiles/{profileId}', [ImportController::class, 'destroyProfile'])
+                ->middleware('permission:hr.timekeeping.import.create')
+                ->name('import.profiles.destroy');
 
             // RFID Badge Management (Phase 1.5)
             // Task 1.1.1 & 1.1.2: Badge Management Layout with Stats Dashboard
@@ -1049,6 +1235,11 @@
                 ->middleware('permission:hr.timekeeping.badges.view')
                 ->name('badges.export');
 
+            // Card UID lookup for scanned badges (must come before {badge} routes)
+            Route::get('/badges/lookup', [\App\Http\Controllers\HR\Timekeeping\RfidBadgeController::class, 'lookup'])
+                ->middleware('permission:hr.timekeeping.badges.manage')
+                ->name('badges.lookup');
+
             // Task 1.8: Employees Without Badges Report (must come before {badge} routes)
             Route::get('/badges/reports/employees-without-badges', [\App\Http\Controllers\HR\Timekeeping\RfidBadgeController::class, 'employeesWithoutBadges'])
                 ->middleware('permission:hr.timekeeping.badges.view')
@@ -1,5 +1,6 @@
 <?php
 
+use App\Http\Controllers\Settings\CalendarFeedController;
 use App\Http\Controllers\Settings\PasswordController;
 use App\Http\Controllers\Settings\ProfileController;
 use App\Http\Controllers\Settings\TwoFactorAuthenticationController;
@@ -25,4 +26,10 @@
 
     Route::get('settings/two-factor', [TwoFactorAuthenticationController::class, 'show'])
         ->name('two-factor.show');
+
+    Route::get('settings/calendar', [CalendarFeedController::class, 'edit'])->name('calendar-feeds.edit');
+    Route::post('settings/calendar', [CalendarFeedController::class, 'store'])
+        ->middleware('throttle:6,1')
+        ->name('calendar-feeds.store');
+    Route::delete('settings/calendar/{id}', [CalendarFeedController::class, 'destroy'])->name('calendar-feeds.destroy');
 });
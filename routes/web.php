@@ -7,6 +7,7 @@
 use App\Http\Controllers\DashboardController;
 use App\Http\Controllers\System\Onboarding\SystemOnboardingController;
 use App\Http\Controllers\Public\JobPostingsController;
+use App\Http\Controllers\Public\CalendarFeedController;
 use App\Http\Controllers\HR\ATS\JobPostingController;
 use App\Http\Controllers\HR\ATS\CandidateController;
 use App\Http\Controllers\HR\ATS\ApplicationController;
@@ -22,6 +23,17 @@
     ->middleware(['auth', 'verified'])
     ->name('dashboard');
 
+// ATTENDANCE KIOSK (No user session; the tablet authenticates as an RFID device)
+Route::get('/kiosk', function () {
+    return Inertia::render('Public/Kiosk/Index');
+})->name('kiosk');
+
+// CALENDAR FEEDS (No user session; the secret token in the URL identifies the user)
+Route::get('/calendar/{token}.ics', [CalendarFeedController::class, 'show'])
+    ->where('token', '[A-Za-z0-9]{48}')
+    ->middleware('throttle:60,1')
+    ->name('calendar.feed');
+
 // PUBLIC JOB POSTINGS (No Authentication Required)
 Route::prefix('job-postings')
     ->name('public.job-postings.')
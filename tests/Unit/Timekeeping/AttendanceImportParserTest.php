@@ -0,0 +1,109 @@
+<?php
+
+namespace Tests\Unit\Timekeeping;
+
+use App\Models\AttendanceEvent;
+use App\Models\Employee;
+use App\Services\Timekeeping\AttendanceImportParser;
+use Illuminate\Foundation\Testing\RefreshDatabase;
+use Illuminate\Support\Carbon;
+use Tests\TestCase;
+
+class AttendanceImportParserTest extends TestCase
+{
+    use RefreshDatabase;
+
+    private string $path;
+
+    protected function setUp(): void
+    {
+        parent::setUp();
+
+        $this->path = tempnam(sys_get_temp_dir(), 'attlog');
+    }
+
+    protected function tearDown(): void
+    {
+        @unlink($this->path);
+        Carbon::setTestNow();
+
+        parent::tearDown();
+    }
+
+    /**
+     * A format without seconds reads them as zero, not the seconds of the current time.
+     */
+    public function test_format_without_seconds_does_not_take_the_current_seconds()
+    {
+        Carbon::setTestNow('2026-10-19 15:42:37');
+        $employee = Employee::factory()->create(['employee_number' => 'EMP-0001']);
+        file_put_contents($this->path, "EMP-0001,02/10/2026 08:05,IN\nEMP-0001,02/10/2026 17:30,OUT\n");
+
+        [$rows, $errors] = $this->parse();
+
+        $this->assertSame([], $errors);
+        $this->assertCount(2, $rows);
+        $this->assertSame($employee->id, $rows[0]['employee_id']);
+        $this->assertSame('2026-10-02 08:05:00', $rows[0]['event_time']->format('Y-m-d H:i:s'));
+        $this->assertSame('2026-10-02 17:30:00', $rows[1]['event_time']->format('Y-m-d H:i:s'));
+    }
+
+    /**
+     * Importing the same file again reports every row as a duplicate.
+     */
+    public function test_reimporting_the_same_file_flags_duplicates()
+    {
+        Employee::factory()->create(['employee_number' => 'EMP-0001']);
+        file_put_contents($this->path, "EMP-0001,02/10/2026 08:05,IN\nEMP-0001,02/10/2026 17:30,OUT\n");
+
+        Carbon::setTestNow('2026-10-19 09:00:11');
+        [$rows] = $this->parse();
+        foreach ($rows as $row) {
+            AttendanceEvent::create([
+                'employee_id' => $row['employee_id'],
+                'event_date' => $row['event_time']->toDateString(),
+                'event_time' => $row['event_time'],
+                'event_type' => $row['event_type'],
+                'source' => 'imported',
+            ]);
+        }
+
+        // A later second, as when the file is imported again some time after
+        Carbon::setTestNow('2026-10-19 09:05:48');
+        [$rows, $errors] = $this->parse();
+
+        $this->assertSame([], $rows);
+        $this->assertCount(2, $errors);
+        $this->assertSame(['duplicate_entry', 'duplicate_entry'], array_column($errors, 'error_type'));
+    }
+
+    /**
+     * @return array{0: array, 1: array} All rows and errors of the file
+     */
+    private function parse(): array
+    {
+        $rows = [];
+        $errors = [];
+
+        (new AttendanceImportParser())->parse($this->path, [
+            'format' => 'delimited',
+            'delimiter' => ',',
+            'has_header' => false,
+            'skip_lines' => 0,
+            'columns' => [
+                'employee_number' => ['index' => 0],
+                'timestamp' => ['index' => 1],
+                'event_type' => ['index' => 2],
+            ],
+            'timestamp_format' => 'd/m/Y H:i',
+            'event_codes' => ['IN' => 'time_in', 'OUT' => 'time_out'],
+            'device_codes' => [],
+            'default_device_id' => null,
+        ], function (array $chunkRows, array $chunkErrors) use (&$rows, &$errors) {
+            array_push($rows, ...$chunkRows);
+            array_push($errors, ...$chunkErrors);
+        });
+
+        return [$rows, $errors];
+    }
+}
@@ -0,0 +1,59 @@
+<?php
+
+namespace Tests\Unit\Timekeeping;
+
+use App\Models\AttendanceEvent;
+use App\Models\Employee;
+use App\Models\ShiftAssignment;
+use App\Models\User;
+use App\Models\WorkSchedule;
+use App\Services\Timekeeping\AttendanceSummaryService;
+use Illuminate\Foundation\Testing\RefreshDatabase;
+use Illuminate\Support\Carbon;
+use Tests\TestCase;
+
+class AttendanceSummaryServiceTest extends TestCase
+{
+    use RefreshDatabase;
+
+    /**
+     * Night minutes worked as overtime are stored, so payroll can pay them at the overtime rate.
+     */
+    public function test_stores_night_differential_minutes_worked_as_overtime()
+    {
+        $employee = Employee::factory()->create();
+        ShiftAssignment::create([
+            'employee_id' => $employee->id,
+            'schedule_id' => WorkSchedule::factory()->create()->id,
+            'date' => '2026-10-05',
+            'shift_start' => '20:00:00',
+            'shift_end' => '04:00:00',
+            'shift_type' => 'night',
+            'status' => 'scheduled',
+            'created_by' => User::factory()->create()->id,
+        ]);
+
+        // 20:00 to 06:00: two hours of overtime, all inside the 22:00-06:00 night window
+        $this->punch($employee, '2026-10-05 20:00:00', 'time_in');
+        $this->punch($employee, '2026-10-06 06:00:00', 'time_out');
+
+        $service = app(AttendanceSummaryService::class);
+        $summary = $service->computeDailySummary($employee->id, Carbon::parse('2026-10-05'));
+        $record = $service->storeDailySummary($summary);
+
+        $this->assertEquals(2, $record->fresh()->overtime_hours);
+        $this->assertSame(480, $record->fresh()->night_diff_minutes);
+        $this->assertSame(120, $record->fresh()->night_diff_overtime_minutes);
+    }
+
+    private function punch(Employee $employee, string $time, string $type): void
+    {
+        AttendanceEvent::factory()->create([
+            'employee_id' => $employee->id,
+            'event_date' => Carbon::parse($time)->toDateString(),
+            'event_time' => Carbon::parse($time),
+            'event_type' => $type,
+            'source' => 'edge_machine',
+        ]);
+    }
+}